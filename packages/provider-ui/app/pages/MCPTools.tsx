@@ -1,12 +1,30 @@
 import {
-  Badge, Button, Card, Code, Group, Paper, ScrollArea, Stack, Switch, Text, Title,
+  Badge, Button, Card, Code, Group, Modal, Paper, ScrollArea, Stack, Switch, Text, Textarea, Title,
 } from '@mantine/core';
 import { notifications } from '@mantine/notifications';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import React, { useState } from 'react';
 
+const CUSTOM_TOOL_TEMPLATE = {
+  name: 'ping_host',
+  description: '检测主机连通性',
+  type: 'command',
+  command: 'ping -c {{count}} {{host}}',
+  timeout: 15000,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      host: { type: 'string', description: '主机名或 IP' },
+      count: { type: 'integer', default: 3, minimum: 1, maximum: 10 },
+    },
+    required: ['host'],
+  },
+};
+
 export default function MCPTools() {
   const queryClient = useQueryClient();
+  // 正在编辑的自定义工具：operation 为 create 或 update，definition 为 JSON 文本
+  const [editing, setEditing] = useState<{ operation: 'create' | 'update'; definition: string } | null>(null);
 
   const { data: toolsData, refetch: refetchTools } = useQuery({
     queryKey: ['provider_tools'],
@@ -41,6 +59,43 @@ export default function MCPTools() {
     },
   });
 
+  const customToolMutation = useMutation({
+    mutationFn: async (body: any) => {
+      const res = await fetch('/api/tools', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || '操作失败');
+      return result;
+    },
+    onSuccess: (_, body) => {
+      queryClient.invalidateQueries({ queryKey: ['provider_tools'] });
+      setEditing(null);
+      notifications.show({
+        title: '成功',
+        message: body.operation === 'reload' ? '插件已重新加载' : '自定义工具已更新',
+        color: 'green',
+      });
+    },
+    onError: (error: Error) => {
+      notifications.show({ title: '错误', message: error.message, color: 'red' });
+    },
+  });
+
+  const handleSaveCustomTool = () => {
+    if (!editing) return;
+    let definition: any;
+    try {
+      definition = JSON.parse(editing.definition);
+    } catch (e) {
+      notifications.show({ title: '错误', message: `JSON 格式错误: ${(e as Error).message}`, color: 'red' });
+      return;
+    }
+    customToolMutation.mutate({ operation: editing.operation, definition });
+  };
+
   const handleTestTool = async (toolName: string) => {
     try {
       const res = await fetch('/mcp/api', {
@@ -94,6 +149,9 @@ export default function MCPTools() {
                     <Badge color={tool.enabled ? 'green' : 'red'}>
                       {tool.enabled ? '已启用' : '已禁用'}
                     </Badge>
+                    {tool.source && tool.source !== 'builtin' && (
+                      <Badge variant="light">{tool.source}</Badge>
+                    )}
                   </Group>
                   <Group>
                     <Switch
@@ -116,6 +174,97 @@ export default function MCPTools() {
           </Stack>
         </ScrollArea>
       </Card>
+
+      <Card shadow="sm" padding="lg" radius="md" withBorder>
+        <Group justify="space-between" mb="md">
+          <Title order={2}>自定义工具</Title>
+          <Group>
+            <Button
+              variant="light"
+              loading={customToolMutation.isPending}
+              onClick={() => customToolMutation.mutate({ operation: 'reload' })}
+            >
+              重新加载插件
+            </Button>
+            <Button onClick={() => setEditing({ operation: 'create', definition: JSON.stringify(CUSTOM_TOOL_TEMPLATE, null, 2) })}>
+              添加
+            </Button>
+          </Group>
+        </Group>
+        <Stack gap="sm">
+          {toolsData?.customTools?.map((tool: any) => (
+            <Paper key={tool.name} p="md" withBorder>
+              <Group justify="space-between">
+                <Group>
+                  <Text fw={500}>{tool.name}</Text>
+                  <Badge variant="light">{tool.type}</Badge>
+                  <Badge color={tool.enabled !== false ? 'green' : 'red'}>
+                    {tool.enabled !== false ? '已启用' : '已禁用'}
+                  </Badge>
+                </Group>
+                <Group>
+                  <Switch
+                    checked={tool.enabled !== false}
+                    onChange={(e) => handleToggleTool(tool.name, e.currentTarget.checked)}
+                    label="启用"
+                  />
+                  <Button
+                    size="xs"
+                    variant="light"
+                    onClick={() => setEditing({ operation: 'update', definition: JSON.stringify(tool, null, 2) })}
+                  >
+                    编辑
+                  </Button>
+                  <Button
+                    size="xs"
+                    color="red"
+                    variant="light"
+                    onClick={() => customToolMutation.mutate({ operation: 'delete', name: tool.name })}
+                  >
+                    删除
+                  </Button>
+                </Group>
+              </Group>
+              <Code block mt="xs">{tool.type === 'http' ? `${tool.http?.method} ${tool.http?.url}` : tool.command}</Code>
+            </Paper>
+          ))}
+          <Text size="sm" c="dimmed">
+            插件目录：{toolsData?.plugins?.dir || '-'}（已加载 {toolsData?.plugins?.tools?.length || 0} 个插件工具）
+          </Text>
+          {Object.entries(toolsData?.plugins?.errors || {}).map(([file, error]) => (
+            <Text key={file} size="sm" c="red">
+              {file}: {String(error)}
+            </Text>
+          ))}
+        </Stack>
+      </Card>
+
+      <Modal
+        opened={!!editing}
+        onClose={() => setEditing(null)}
+        title={editing?.operation === 'create' ? '添加自定义工具' : '编辑自定义工具'}
+        size="lg"
+      >
+        <Stack>
+          <Text size="xs" c="dimmed">
+            type 为 command 时参数以 {'{{name}}'} 替换到命令的各个参数中（不经过 shell）；type 为 http 时配置 http.method / url / headers / body。
+          </Text>
+          <Textarea
+            autosize
+            minRows={14}
+            styles={{ input: { fontFamily: 'monospace' } }}
+            value={editing?.definition || ''}
+            onChange={(e) => {
+              const { value } = e.currentTarget;
+              setEditing((current) => (current ? { ...current, definition: value } : current));
+            }}
+          />
+          <Group justify="flex-end">
+            <Button variant="default" onClick={() => setEditing(null)}>取消</Button>
+            <Button loading={customToolMutation.isPending} onClick={handleSaveCustomTool}>保存</Button>
+          </Group>
+        </Stack>
+      </Modal>
     </Stack>
   );
 }
@@ -30,6 +30,53 @@ export function setGlobalWsConnection(ws: any): void {
 // 已订阅的事件集合
 const subscribedEvents = new Set<string>();
 
+/**
+ * 向上游发送当前 MCP 工具列表（Edge Envelope 协议的 notifications/tools-update）
+ */
+function sendClientToolsUpdate(ws: any, reason: string) {
+    try {
+        const tools = listClientTools(true);
+        const toolsPayload = tools.map((t: ClientToolDefinition) => ({
+            name: t.name,
+            description: t.description,
+            inputSchema: t.inputSchema,
+            metadata: t.metadata || {},
+        }));
+        
+        // 使用 Edge Envelope 协议发送工具通知
+        const envelope = {
+            protocol: 'mcp',
+            action: 'jsonrpc',
+            payload: {
+                jsonrpc: '2.0',
+                method: 'notifications/tools-update',
+                params: {
+                    tools: toolsPayload,
+                    reason,
+                    timestamp: Date.now(),
+                },
+                id: `tools_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+            },
+        };
+        
+        ws.send(JSON.stringify(envelope));
+        logger.info('已向上游发送 %d 个 MCP 工具（使用 Edge Envelope 协议，原因: %s）', tools.length, reason);
+        if (tools.length > 0) {
+            logger.info('工具列表: %s', tools.map(t => t.name).join(', '));
+        }
+    } catch (e) {
+        logger.warn('发送工具列表失败: %s', (e as Error).message);
+    }
+}
+
+/**
+ * 工具列表变化后通知上游（例如切换了 VTuber 动作配置）
+ */
+export function notifyClientToolsUpdate(reason: string) {
+    const ws = getGlobalWsConnection();
+    if (ws && ws.readyState === 1) sendClientToolsUpdate(ws, reason);
+}
+
 /**
  * 构建 WebSocket 连接 URL
  * 支持新协议格式：ws://your-domain/d/{domainId}/client/ws?token={wsToken}
@@ -707,39 +754,7 @@ export function startConnecting(ctx?: Context) {
                 });
                 
                 // 向上游发送工具列表（使用 Edge Envelope 协议，类似 node 的方式）
-                try {
-                    const tools = listClientTools(true);
-                    const toolsPayload = tools.map((t: ClientToolDefinition) => ({
-                        name: t.name,
-                        description: t.description,
-                        inputSchema: t.inputSchema,
-                        metadata: t.metadata || {},
-                    }));
-                    
-                    // 使用 Edge Envelope 协议发送工具通知
-                    const envelope = {
-                        protocol: 'mcp',
-                        action: 'jsonrpc',
-                        payload: {
-                            jsonrpc: '2.0',
-                            method: 'notifications/tools-update',
-                            params: {
-                                tools: toolsPayload,
-                                reason: 'bootstrap',
-                                timestamp: Date.now(),
-                            },
-                            id: `tools_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
-                        },
-                    };
-                    
-                    ws.send(JSON.stringify(envelope));
-                    logger.info('已向上游发送 %d 个 MCP 工具（使用 Edge Envelope 协议）', tools.length);
-                    if (tools.length > 0) {
-                        logger.info('工具列表: %s', tools.map(t => t.name).join(', '));
-                    }
-                } catch (e) {
-                    logger.warn('发送工具列表失败: %s', (e as Error).message);
-                }
+                sendClientToolsUpdate(ws, 'bootstrap');
             }, 100);
             
             // 上游连接成功后，先启动 VTube Studio 并等待认证完成，然后再启动其他服务
@@ -779,7 +794,7 @@ export function startConnecting(ctx?: Context) {
                         if (vtuberConfig.osc?.enabled) {
                             try {
                                 const { initOSCBridge } = require('./vtuber-osc-bridge');
-                                initOSCBridge(vtuberConfig.osc.host, vtuberConfig.osc.port);
+                                initOSCBridge(vtuberConfig.osc.host, vtuberConfig.osc.port, vtuberConfig.osc.listenPort, vtuberConfig.osc.listenHost);
                                 logger.info('VTuber OSC 桥接器已启动: %s:%d', vtuberConfig.osc.host, vtuberConfig.osc.port);
                             } catch (err: any) {
                                 logger.debug('启动 OSC 桥接器失败: %s', err.message);
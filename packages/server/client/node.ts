@@ -6,6 +6,9 @@ import { Logger } from '@ejunz/utils';
 import { config } from '../config';
 import { listNodeTools, setDynamicNodeTools, NodeToolRegistryEntry, NodeToolDefinition, callNodeTool } from '../mcp-tools/node';
 import { callZigbeeControlTool } from '../mcp-tools/nodeZigbee';
+import { buildExposeToolSpecs, callZigbeeReadingTool, callZigbeeSetFeaturesTool } from '../mcp-tools/nodeZigbeeExposes';
+import { MCPError, MCPToolPolicyError, toMCPToolErrorResult } from '../model/mcp-server';
+import { enforceToolPolicy } from '../model/mcp-policy';
 
 const logger = new Logger('node-client');
 
@@ -575,6 +578,13 @@ async function handleInboundMcpEnvelope(ctx: Context | undefined, envelope: Edge
 
         if (method === 'tools/call') {
             const { name, arguments: args } = payload.params || {};
+            try {
+                await enforceToolPolicy(ctx, { tool: name, args: args || {}, caller: { name: 'upstream' } });
+            } catch (e) {
+                if (!(e instanceof MCPToolPolicyError)) throw e;
+                reply({ result: toMCPToolErrorResult(e) });
+                return;
+            }
             const result = await callNodeTool(ctx, { name, arguments: args });
             reply({ result });
             return;
@@ -587,6 +597,10 @@ async function handleInboundMcpEnvelope(ctx: Context | undefined, envelope: Edge
 
         reply({ error: { code: -32601, message: `Unknown MCP method: ${method}` } });
     } catch (e) {
+        if (e instanceof MCPError) {
+            reply({ error: { code: e.code, message: e.message, data: e.data } });
+            return;
+        }
         reply({ error: { code: -32603, message: (e as Error).message } });
     }
 }
@@ -917,7 +931,19 @@ function flattenExposes(exposes: any): any[] {
 function hasSwitchCapability(device: any): boolean {
     if (!device) return false;
     if (device.supportsOnOff === false) return false;
-    const exposures = flattenExposes(device.definition?.exposes || device.exposes || []);
+    const exposes = device.definition?.exposes || device.exposes || [];
+    if (Array.isArray(exposes) && exposes.length) {
+        // 有 exposes 时以其为准：switch / light / fan 的 state，或顶层可设置的 state（门锁、窗帘的 state 不算开关）
+        return exposes.some((expose: any) => {
+            const type = String(expose?.type || '').toLowerCase();
+            if (['switch', 'light', 'fan'].includes(type)) {
+                return flattenExposes(expose.features || []).some((f) => String(f?.name || '').toLowerCase() === 'state');
+            }
+            return type === 'binary' && String(expose?.name || '').toLowerCase() === 'state'
+                && (typeof expose.access !== 'number' || (expose.access & 2) !== 0);
+        });
+    }
+    const exposures = flattenExposes(exposes);
     if (exposures.length) {
         if (exposures.some((feature) => {
             const type = String(feature?.type || '').toLowerCase();
@@ -944,6 +970,47 @@ function hasSwitchCapability(device: any): boolean {
     return device.supportsOnOff !== false;
 }
 
+function buildExposeToolEntries(device: any, controlTargetId: string, nodeId: string, sanitizedNode: string): NodeToolRegistryEntry[] {
+    return buildExposeToolSpecs(device).map((spec) => {
+        // 与开关工具相同的命名方式：端点作为设备名的一部分，后缀为工具类型
+        const deviceId = spec.endpoint ? `${controlTargetId}_${spec.endpoint}` : controlTargetId;
+        const hashSource = `${nodeId}:${device?.ieee_address || controlTargetId}${spec.endpoint ? `:${spec.endpoint}` : ''}`;
+        const uniqueSuffix = crypto.createHash('sha1').update(hashSource).digest('hex').slice(0, 6);
+        const toolName = `node_${sanitizedNode}_${sanitizeIdentifier(deviceId)}_${uniqueSuffix}_${spec.kind}`;
+        const metadata = {
+            category: `zigbee-${spec.kind}`,
+            nodeId,
+            deviceId,
+            originalDeviceId: controlTargetId,
+            endpoint: spec.endpoint,
+            friendlyName: device?.friendly_name || controlTargetId,
+            ieeeAddress: device?.ieee_address || controlTargetId,
+            model: device?.definition?.model || device?.model || '',
+            vendor: device?.definition?.vendor || device?.vendor || '',
+            actions: Object.keys(spec.bindings),
+            defaultDescription: spec.description,
+            autoGenerated: true,
+            docId: `node:${nodeId}:${toolName}`,
+        };
+        const entry: NodeToolRegistryEntry = {
+            tool: {
+                name: toolName,
+                description: spec.description,
+                inputSchema: spec.parameters,
+                parameters: spec.parameters,
+                metadata,
+            },
+            // 端点特性的属性名已带端点后缀（如 brightness_l1），发往设备本身
+            handler: (ctx: Context, args: any) => (spec.kind === 'reading'
+                ? callZigbeeReadingTool(ctx, controlTargetId, spec.bindings)
+                : callZigbeeSetFeaturesTool(ctx, controlTargetId, spec.bindings, args)),
+            metadata,
+            autoGenerated: true,
+        };
+        return entry;
+    });
+}
+
 export function buildDynamicToolEntries(devices: any[], nodeId: string): NodeToolRegistryEntry[] {
     const entries: NodeToolRegistryEntry[] = [];
     const seenTargets = new Set<string>();
@@ -955,11 +1022,15 @@ export function buildDynamicToolEntries(devices: any[], nodeId: string): NodeToo
         const controlTargetId = device?.friendly_name || device?.ieee_address || device?.id;
         if (!controlTargetId) continue;
         if (seenTargets.has(controlTargetId)) continue;
+        seenTargets.add(controlTargetId);
+
+        // 灯光、窗帘、温控、门锁、风扇与传感器读数工具按 exposes 生成
+        entries.push(...buildExposeToolEntries(device, controlTargetId, nodeId, sanitizedNode));
+
         if (!hasSwitchCapability(device)) {
-            logger.debug('[buildDynamicToolEntries] 跳过设备 %s (无开关能力)', controlTargetId);
+            logger.debug('[buildDynamicToolEntries] 设备 %s 无开关能力，不生成开关工具', controlTargetId);
             continue;
         }
-        seenTargets.add(controlTargetId);
         
         logger.debug('[buildDynamicToolEntries] 处理设备: %s', controlTargetId);
 
@@ -1009,7 +1080,7 @@ export function buildDynamicToolEntries(devices: any[], nodeId: string): NodeToo
                         inputSchema: parameters,
                         metadata,
                     },
-                    handler: async (args: any) => {
+                    handler: async (ctx: Context, args: any) => {
                         logger.info('[%s] 调用工具: %o', toolName, args);
                         const { state } = args;
                         if (!state) throw new Error('缺少必要参数：state');
@@ -1059,6 +1130,7 @@ export function buildDynamicToolEntries(devices: any[], nodeId: string): NodeToo
                     name: toolName,
                     description: defaultDescription,
                     inputSchema: parameters,
+                    parameters,
                     metadata,
                 },
                 handler: async (ctx: Context, args: any) => {
@@ -1079,7 +1151,6 @@ export function buildDynamicToolEntries(devices: any[], nodeId: string): NodeToo
                 metadata,
                 autoGenerated: true,
             };
-            (entry.tool as any).parameters = parameters;
             entries.push(entry);
         }
     }
@@ -1102,7 +1173,7 @@ function computeToolsSignature(tools: Array<{ name: string; metadata?: Record<st
 
 function decorateToolsForAdvertise(tools: NodeToolDefinition[], nodeId: string, host: string, port: number) {
     return (tools || []).map((tool) => {
-        const inputSchema = tool.inputSchema || (tool as any).parameters || { type: 'object', properties: {} };
+        const inputSchema = tool.inputSchema || tool.parameters || { type: 'object', properties: {} };
         const metadata = {
             defaultDescription: tool.metadata?.defaultDescription || tool.description,
             autoGenerated: tool.metadata?.autoGenerated ?? false,
@@ -1213,15 +1284,190 @@ function setupNodeMCPRegistration(ctx?: Context) {
     };
 }
 
+/**
+ * 连接 Server 的 /node/conn：上报工具列表，并接收 Server 下发的 tool-call
+ * 调用结果以相同 requestId 回复 tool-result；收到 tool-cancel 后丢弃该调用的结果
+ */
+function startServerConnection(ctx?: Context) {
+    if (!ctx) return () => {};
+    const endpoint = normalizeNodeUpstream((config as any).server || '');
+    if (!endpoint) {
+        logger.debug?.('未配置 server，跳过 /node/conn 连接');
+        return () => {};
+    }
+
+    let WS: any;
+    try {
+        // eslint-disable-next-line global-require, import/no-extraneous-dependencies
+        WS = require('ws');
+    } catch (e) {
+        logger.error('缺少 ws 依赖，请先安装：yarn add -W ws');
+        return () => {};
+    }
+
+    let ws: any = null;
+    let stopped = false;
+    let reconnectTimer: NodeJS.Timeout | null = null;
+    let heartbeatInterval: NodeJS.Timeout | null = null;
+    let retryDelay = 5000;
+    // 进行中的调用；被取消的调用从表中移除，完成后不再回复
+    const inflight = new Set<string>();
+
+    const send = (message: any) => {
+        if (!ws || ws.readyState !== WS.OPEN) return false;
+        try {
+            ws.send(JSON.stringify(message));
+            return true;
+        } catch (e) {
+            logger.warn('/node/conn 发送失败: %s', (e as Error).message);
+            return false;
+        }
+    };
+
+    const handleToolCall = async (msg: any) => {
+        const { requestId, toolName, arguments: args } = msg;
+        if (!requestId || !toolName) return;
+        inflight.add(requestId);
+        let reply: any;
+        try {
+            // Server 下发前检查的是 Server 的访问策略，这里再按本机 mcpPolicy 检查（调用方为 upstream）
+            await enforceToolPolicy(ctx, { tool: toolName, args: args || {}, caller: { name: 'upstream' } });
+            const result = await callNodeTool(ctx, { name: toolName, arguments: args || {} });
+            reply = {
+                type: 'tool-result', requestId, success: true, result,
+            };
+        } catch (e) {
+            reply = {
+                type: 'tool-result',
+                requestId,
+                success: false,
+                error: (e as Error).message,
+                ...(e instanceof MCPError ? { code: e.code, data: e.data } : {}),
+            };
+        }
+        if (!inflight.delete(requestId)) {
+            logger.info('工具调用已被 Server 取消，丢弃结果: %s (%s)', toolName, requestId);
+            return;
+        }
+        send(reply);
+    };
+
+    const handleMessage = (data: any) => {
+        let msg: any;
+        try {
+            msg = JSON.parse(typeof data === 'string' ? data : data.toString('utf8'));
+        } catch (e) {
+            logger.warn('/node/conn 收到非法 JSON: %s', (e as Error).message);
+            return;
+        }
+        if (msg?.type === 'tool-call') {
+            void handleToolCall(msg);
+        } else if (msg?.type === 'tool-cancel') {
+            inflight.delete(msg.requestId);
+        } else if (msg?.type === 'broker-config') {
+            // 已废弃，保留兼容性
+        } else {
+            logger.debug?.('/node/conn 未处理的消息类型: %s', msg?.type);
+        }
+    };
+
+    const stopHeartbeat = () => {
+        if (heartbeatInterval) {
+            clearInterval(heartbeatInterval);
+            heartbeatInterval = null;
+        }
+    };
+
+    const scheduleReconnect = () => {
+        if (stopped || reconnectTimer) return;
+        reconnectTimer = setTimeout(() => {
+            reconnectTimer = null;
+            connect();
+        }, retryDelay);
+        logger.info('/node/conn 将在 %d 秒后尝试重连', Math.round(retryDelay / 1000));
+        retryDelay = Math.min(retryDelay * 1.5, 30000);
+    };
+
+    const connect = () => {
+        if (stopped) return;
+        if (ws && (ws.readyState === WS.OPEN || ws.readyState === WS.CONNECTING)) return;
+        logger.info('尝试连接 Server: %s', endpoint);
+        try {
+            ws = new WS(endpoint, { perMessageDeflate: false, handshakeTimeout: 20000 });
+        } catch (e) {
+            logger.error('/node/conn 连接创建失败: %s', (e as Error).message);
+            scheduleReconnect();
+            return;
+        }
+
+        ws.on('open', () => {
+            logger.success('已连接 Server: %s', endpoint);
+            retryDelay = 5000;
+            send({
+                type: 'init',
+                nodeId: getResolvedNodeId(),
+                host: resolveAdvertisedHost(),
+                port: resolveAdvertisedPort(),
+                tools: getAdvertisedToolsSnapshot(),
+                capabilities: { toolCall: true },
+            });
+            heartbeatInterval = setInterval(() => {
+                if (ws && ws.readyState === WS.OPEN) {
+                    try { ws.ping?.(); } catch {}
+                }
+            }, 30000);
+        });
+        ws.on('message', handleMessage);
+        ws.on('close', (code: number) => {
+            logger.warn('/node/conn 连接关闭 (%s)', code);
+            ws = null;
+            stopHeartbeat();
+            // 断开后 Server 端已放弃这些调用
+            inflight.clear();
+            if (!stopped) scheduleReconnect();
+        });
+        ws.on('error', (err: Error) => {
+            logger.warn('/node/conn 错误: %s', err.message);
+        });
+    };
+
+    connect();
+
+    const unsubscribeTools = onNodeToolsUpdated((tools) => {
+        send({
+            type: 'tools-update',
+            host: resolveAdvertisedHost(),
+            port: resolveAdvertisedPort(),
+            tools,
+        });
+    });
+
+    return () => {
+        stopped = true;
+        unsubscribeTools();
+        stopHeartbeat();
+        if (reconnectTimer) {
+            clearTimeout(reconnectTimer);
+            reconnectTimer = null;
+        }
+        if (ws) {
+            try { ws.close(); } catch { /* ignore */ }
+            ws = null;
+        }
+    };
+}
+
 function startNodeConnecting(ctx?: Context) {
     // 连接本地MQTT broker（用于zigbee2mqtt控制）
     connectToLocalMqttBroker(ctx);
     const disposeMcp = setupNodeMCPRegistration(ctx);
     const disposeEdge = startEdgeEnvelopeBridge(ctx);
+    const disposeServer = startServerConnection(ctx);
     const disposeState = setupDeviceStateListener(ctx);
     return () => {
         try { disposeMcp?.(); } catch { /* ignore */ }
         try { disposeEdge?.(); } catch { /* ignore */ }
+        try { disposeServer?.(); } catch { /* ignore */ }
         try { disposeState?.(); } catch { /* ignore */ }
     };
 }
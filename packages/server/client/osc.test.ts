@@ -0,0 +1,141 @@
+import assert from 'node:assert/strict';
+import * as dgram from 'node:dgram';
+import { after, before, describe, it } from 'node:test';
+import {
+    decodePacket, encodePacket, OSC_IMMEDIATELY, OSCBundle, OSCMessage, OSCPacket, toTimetag,
+} from './osc';
+
+// 经本机 UDP 实际收发一次，确认编码结果可以被完整解码
+describe('OSC UDP 往返', () => {
+    let receiver: dgram.Socket;
+    let sender: dgram.Socket;
+    let port: number;
+
+    before(async () => {
+        receiver = dgram.createSocket('udp4');
+        sender = dgram.createSocket('udp4');
+        await new Promise<void>((resolve) => { receiver.bind(0, '127.0.0.1', resolve); });
+        port = receiver.address().port;
+    });
+
+    after(() => {
+        receiver.close();
+        sender.close();
+    });
+
+    function roundTrip(packet: OSCPacket): Promise<OSCPacket> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => reject(new Error('等待 UDP 数据超时')), 2000);
+            receiver.once('message', (buffer) => {
+                clearTimeout(timer);
+                try {
+                    resolve(decodePacket(buffer));
+                } catch (e) {
+                    reject(e);
+                }
+            });
+            sender.send(encodePacket(packet), port, '127.0.0.1', (err) => {
+                if (err) {
+                    clearTimeout(timer);
+                    reject(err);
+                }
+            });
+        });
+    }
+
+    it('消息：全部参数类型', async () => {
+        const timetag = toTimetag(Date.UTC(2024, 0, 1));
+        const message: OSCMessage = {
+            address: '/avatar/parameters/Test',
+            args: [
+                42,
+                -0x80000000,
+                1.5,
+                { type: 'f', value: 0.25 },
+                { type: 'd', value: Math.PI },
+                { type: 'h', value: -(2n ** 40n) },
+                { type: 't', value: timetag },
+                '你好 OSC',
+                '',
+                Buffer.from([1, 2, 3, 4, 5]),
+                Buffer.alloc(0),
+                true,
+                false,
+                null,
+            ],
+        };
+        assert.deepEqual(await roundTrip(message), {
+            address: '/avatar/parameters/Test',
+            args: [
+                42,
+                -0x80000000,
+                1.5,
+                0.25,
+                Math.PI,
+                { type: 'h', value: -(2n ** 40n) },
+                { type: 't', value: timetag },
+                '你好 OSC',
+                '',
+                Buffer.from([1, 2, 3, 4, 5]),
+                Buffer.alloc(0),
+                true,
+                false,
+                null,
+            ],
+        });
+    });
+
+    it('消息：地址长度恰好为 4 的倍数、没有参数', async () => {
+        assert.deepEqual(await roundTrip({ address: '/abc', args: [] }), { address: '/abc', args: [] });
+    });
+
+    it('嵌套 bundle', async () => {
+        const bundle: OSCBundle = {
+            timetag: toTimetag(Date.now() + 1000),
+            elements: [
+                { address: '/vtuber/action/wave', args: [1] },
+                {
+                    timetag: OSC_IMMEDIATELY,
+                    elements: [
+                        { address: '/vtuber/expression/happy', args: [{ type: 'f', value: 0.5 }] },
+                        { address: '/agent/chat', args: ['早上好'] },
+                    ],
+                },
+            ],
+        };
+        assert.deepEqual(await roundTrip(bundle), {
+            timetag: bundle.timetag,
+            elements: [
+                { address: '/vtuber/action/wave', args: [1] },
+                {
+                    timetag: OSC_IMMEDIATELY,
+                    elements: [
+                        { address: '/vtuber/expression/happy', args: [0.5] },
+                        { address: '/agent/chat', args: ['早上好'] },
+                    ],
+                },
+            ],
+        });
+    });
+
+    it('空 bundle', async () => {
+        assert.deepEqual(await roundTrip({ timetag: OSC_IMMEDIATELY, elements: [] }), { timetag: OSC_IMMEDIATELY, elements: [] });
+    });
+});
+
+describe('OSC 解码校验', () => {
+    it('拒绝头部不是 #bundle 的 bundle', () => {
+        const buffer = encodePacket({ timetag: OSC_IMMEDIATELY, elements: [{ address: '/a', args: [1] }] });
+        buffer.write('#bundlX', 0, 'ascii');
+        assert.throws(() => decodePacket(buffer), /OSC bundle 头无效/);
+    });
+
+    it('拒绝长度不是 4 的倍数的数据包', () => {
+        assert.throws(() => decodePacket(Buffer.from('/a\0')), /OSC 数据包长度无效/);
+    });
+
+    it('拒绝不完整的参数', () => {
+        const buffer = encodePacket({ address: '/a', args: [{ type: 'd', value: 1 }] });
+        assert.throws(() => decodePacket(buffer.subarray(0, buffer.length - 4)), /OSC 数据不完整/);
+    });
+});
@@ -0,0 +1,278 @@
+/**
+ * OSC 1.0 二进制编解码
+ *
+ * 消息：地址（OSC-string）+ 类型标签（以 ',' 开头的 OSC-string）+ 参数
+ * 包：  "#bundle" + 64 位 NTP 时间标签 + 若干 (int32 长度 + 元素)
+ * 所有字段按 4 字节对齐，数值为大端序
+ *
+ * 支持的类型：i (int32) / f (float32) / d (float64) / h (int64) / s (string) / b (blob) / t (timetag)，
+ * 以及 OSC 1.1 中常用的 T / F / N（VRChat 的布尔参数使用 T / F）
+ */
+
+export type OSCTypeTag = 'i' | 'f' | 'd' | 'h' | 's' | 'b' | 't' | 'T' | 'F' | 'N';
+
+export interface OSCTypedArgument {
+    type: OSCTypeTag;
+    value: any;
+}
+
+export type OSCArgument = number | string | boolean | null | Buffer | OSCTypedArgument;
+
+export interface OSCMessage {
+    address: string;
+    args: OSCArgument[];
+}
+
+export interface OSCBundle {
+    // NTP 时间标签，1n 表示立即执行
+    timetag: bigint;
+    elements: OSCPacket[];
+}
+
+export type OSCPacket = OSCMessage | OSCBundle;
+
+// NTP 纪元（1900-01-01）与 Unix 纪元的秒数差
+const NTP_EPOCH_OFFSET = 2208988800;
+export const OSC_IMMEDIATELY = 1n;
+
+export function isOSCBundle(packet: OSCPacket): packet is OSCBundle {
+    return (packet as OSCBundle).elements !== undefined;
+}
+
+/**
+ * Unix 毫秒时间戳 -> NTP 64 位时间标签
+ */
+export function toTimetag(ms: number): bigint {
+    const seconds = Math.floor(ms / 1000);
+    const fraction = Math.round(((ms % 1000) / 1000) * 2 ** 32);
+    return (BigInt(seconds + NTP_EPOCH_OFFSET) << 32n) | BigInt(Math.min(fraction, 2 ** 32 - 1));
+}
+
+/**
+ * NTP 64 位时间标签 -> Unix 毫秒时间戳（立即执行返回 null）
+ */
+export function fromTimetag(timetag: bigint): number | null {
+    if (timetag === OSC_IMMEDIATELY) return null;
+    const seconds = Number(timetag >> 32n) - NTP_EPOCH_OFFSET;
+    const fraction = Number(timetag & 0xffffffffn) / 2 ** 32;
+    return Math.round((seconds + fraction) * 1000);
+}
+
+function pad4(length: number) {
+    return (4 - (length % 4)) % 4;
+}
+
+function encodeString(value: string) {
+    const bytes = Buffer.from(value, 'utf8');
+    // 至少一个 \0 结尾，再补齐到 4 字节
+    return Buffer.concat([bytes, Buffer.alloc(1 + pad4(bytes.length + 1))]);
+}
+
+function encodeBlob(value: Buffer) {
+    const size = Buffer.alloc(4);
+    size.writeInt32BE(value.length, 0);
+    return Buffer.concat([size, value, Buffer.alloc(pad4(value.length))]);
+}
+
+function normalizeArgument(arg: OSCArgument): OSCTypedArgument {
+    if (arg === null || arg === undefined) return { type: 'N', value: null };
+    if (typeof arg === 'boolean') return { type: arg ? 'T' : 'F', value: arg };
+    if (typeof arg === 'string') return { type: 's', value: arg };
+    if (Buffer.isBuffer(arg)) return { type: 'b', value: arg };
+    if (typeof arg === 'number') {
+        return Number.isInteger(arg) && arg >= -0x80000000 && arg <= 0x7fffffff
+            ? { type: 'i', value: arg }
+            : { type: 'f', value: arg };
+    }
+    if (typeof arg === 'object' && 'type' in arg) return arg;
+    throw new Error(`不支持的 OSC 参数: ${String(arg)}`);
+}
+
+function encodeArgument({ type, value }: OSCTypedArgument): Buffer {
+    switch (type) {
+        case 'i': {
+            const buf = Buffer.alloc(4);
+            buf.writeInt32BE(Number(value), 0);
+            return buf;
+        }
+        case 'f': {
+            const buf = Buffer.alloc(4);
+            buf.writeFloatBE(Number(value), 0);
+            return buf;
+        }
+        case 'd': {
+            const buf = Buffer.alloc(8);
+            buf.writeDoubleBE(Number(value), 0);
+            return buf;
+        }
+        case 'h': {
+            const buf = Buffer.alloc(8);
+            buf.writeBigInt64BE(BigInt(value), 0);
+            return buf;
+        }
+        case 't': {
+            const buf = Buffer.alloc(8);
+            buf.writeBigUInt64BE(BigInt(value), 0);
+            return buf;
+        }
+        case 's':
+            return encodeString(String(value));
+        case 'b':
+            return encodeBlob(Buffer.isBuffer(value) ? value : Buffer.from(value));
+        case 'T':
+        case 'F':
+        case 'N':
+            return Buffer.alloc(0);
+        default:
+            throw new Error(`不支持的 OSC 类型标签: ${type}`);
+    }
+}
+
+export function encodeMessage(message: OSCMessage): Buffer {
+    if (!message.address?.startsWith('/')) throw new Error(`OSC 地址必须以 / 开头: ${message.address}`);
+    const args = (message.args || []).map(normalizeArgument);
+    return Buffer.concat([
+        encodeString(message.address),
+        encodeString(`,${args.map((a) => a.type).join('')}`),
+        ...args.map(encodeArgument),
+    ]);
+}
+
+export function encodeBundle(bundle: OSCBundle): Buffer {
+    const timetag = Buffer.alloc(8);
+    timetag.writeBigUInt64BE(bundle.timetag ?? OSC_IMMEDIATELY, 0);
+    const parts = [encodeString('#bundle'), timetag];
+    for (const element of bundle.elements) {
+        const encoded = encodePacket(element);
+        const size = Buffer.alloc(4);
+        size.writeInt32BE(encoded.length, 0);
+        parts.push(size, encoded);
+    }
+    return Buffer.concat(parts);
+}
+
+export function encodePacket(packet: OSCPacket): Buffer {
+    return isOSCBundle(packet) ? encodeBundle(packet) : encodeMessage(packet);
+}
+
+class OSCReader {
+    offset = 0;
+
+    constructor(private buffer: Buffer) {}
+
+    get remaining() {
+        return this.buffer.length - this.offset;
+    }
+
+    private ensure(size: number) {
+        if (this.remaining < size) throw new Error(`OSC 数据不完整: 需要 ${size} 字节，剩余 ${this.remaining} 字节`);
+    }
+
+    string() {
+        const end = this.buffer.indexOf(0, this.offset);
+        if (end < 0) throw new Error('OSC 字符串缺少结束符');
+        const value = this.buffer.toString('utf8', this.offset, end);
+        const length = end - this.offset + 1;
+        this.offset += length + pad4(length);
+        if (this.offset > this.buffer.length) throw new Error('OSC 字符串未按 4 字节对齐');
+        return value;
+    }
+
+    int32() {
+        this.ensure(4);
+        const value = this.buffer.readInt32BE(this.offset);
+        this.offset += 4;
+        return value;
+    }
+
+    float32() {
+        this.ensure(4);
+        const value = this.buffer.readFloatBE(this.offset);
+        this.offset += 4;
+        return value;
+    }
+
+    float64() {
+        this.ensure(8);
+        const value = this.buffer.readDoubleBE(this.offset);
+        this.offset += 8;
+        return value;
+    }
+
+    int64() {
+        this.ensure(8);
+        const value = this.buffer.readBigInt64BE(this.offset);
+        this.offset += 8;
+        return value;
+    }
+
+    uint64() {
+        this.ensure(8);
+        const value = this.buffer.readBigUInt64BE(this.offset);
+        this.offset += 8;
+        return value;
+    }
+
+    blob() {
+        const size = this.int32();
+        if (size < 0) throw new Error('OSC blob 长度无效');
+        this.ensure(size);
+        const value = Buffer.from(this.buffer.subarray(this.offset, this.offset + size));
+        this.offset += size + pad4(size);
+        return value;
+    }
+
+    bytes(size: number) {
+        this.ensure(size);
+        const value = this.buffer.subarray(this.offset, this.offset + size);
+        this.offset += size;
+        return value;
+    }
+}
+
+function decodeMessage(reader: OSCReader): OSCMessage {
+    const address = reader.string();
+    if (!address.startsWith('/')) throw new Error(`OSC 地址无效: ${address}`);
+    // 部分旧实现省略类型标签，视为没有参数
+    if (!reader.remaining) return { address, args: [] };
+    const tags = reader.string();
+    if (!tags.startsWith(',')) throw new Error(`OSC 类型标签无效: ${tags}`);
+    const args: OSCArgument[] = [];
+    for (const tag of tags.slice(1)) {
+        switch (tag) {
+            case 'i': args.push(reader.int32()); break;
+            case 'f': args.push(reader.float32()); break;
+            case 'd': args.push(reader.float64()); break;
+            case 'h': args.push({ type: 'h', value: reader.int64() }); break;
+            case 't': args.push({ type: 't', value: reader.uint64() }); break;
+            case 's': args.push(reader.string()); break;
+            case 'b': args.push(reader.blob()); break;
+            case 'T': args.push(true); break;
+            case 'F': args.push(false); break;
+            case 'N': args.push(null); break;
+            default: throw new Error(`不支持的 OSC 类型标签: ${tag}`);
+        }
+    }
+    return { address, args };
+}
+
+function decodeBundle(reader: OSCReader): OSCBundle {
+    const header = reader.string();
+    if (header !== '#bundle') throw new Error(`OSC bundle 头无效: ${header}`);
+    const timetag = reader.uint64();
+    const elements: OSCPacket[] = [];
+    while (reader.remaining > 0) {
+        const size = reader.int32();
+        if (size <= 0 || size % 4 !== 0) throw new Error(`OSC bundle 元素长度无效: ${size}`);
+        elements.push(decodePacket(reader.bytes(size)));
+    }
+    return { timetag, elements };
+}
+
+export function decodePacket(buffer: Buffer): OSCPacket {
+    if (!buffer.length || buffer.length % 4 !== 0) throw new Error(`OSC 数据包长度无效: ${buffer.length}`);
+    const reader = new OSCReader(buffer);
+    return buffer[0] === 0x23 // '#'
+        ? decodeBundle(reader)
+        : decodeMessage(reader);
+}
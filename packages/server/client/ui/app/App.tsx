@@ -7,6 +7,7 @@ import { Header } from './components/Header';
 import Chat from './pages/Chat';
 import Config from './pages/Config';
 import Dashboard from './pages/Dashboard';
+import VTuberProfiles from './pages/VTuberProfiles';
 
 function DefaultLayout() {
   return (
@@ -35,6 +36,7 @@ export default function App() {
           <Route path="dashboard" element={<Dashboard />} />
           <Route path="chat" element={<Chat />} />
           <Route path="config" element={<Config />} />
+          <Route path="vtuber" element={<VTuberProfiles />} />
         </Route>
       </Routes>
     </HashRouter>
@@ -4,7 +4,7 @@ import {
   Tabs, Text, Title,
 } from '@mantine/core';
 import {
-  IconDashboard, IconSettings, IconMessage,
+  IconDashboard, IconSettings, IconMessage, IconMoodSmile,
 } from '@tabler/icons-react';
 import React from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
@@ -14,6 +14,7 @@ const iconStyle = { width: rem(18), height: rem(18) };
 const mainLinks = [
   { link: '/', label: 'Dashboard', icon: <IconDashboard style={iconStyle} /> },
   { link: '/chat', label: '对话', icon: <IconMessage style={iconStyle} /> },
+  { link: '/vtuber', label: '动作配置', icon: <IconMoodSmile style={iconStyle} /> },
   { link: '/config', label: '配置', icon: <IconSettings style={iconStyle} /> },
 ];
 
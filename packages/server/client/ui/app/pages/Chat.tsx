@@ -24,8 +24,11 @@ interface Message {
   toolResult?: any;   // tool 类型
   responseTime?: number;  // tool 类型
   hasAudio?: boolean;  // assistant 类型，是否有音频
+  providers?: Record<string, string>;  // assistant 类型，本轮实际使用的 ASR/LLM/TTS provider
 }
 
+const PROVIDER_LABELS: Record<string, string> = { asr: 'ASR', llm: 'AI', tts: 'TTS' };
+
 // 新协议：Agent Message 对象
 interface AgentMessage {
   messageId: string;
@@ -777,7 +780,7 @@ export default function Chat() {
         // 处理旧格式消息（向后兼容）
         else if (msg.key === 'voice_chat') {
           if (msg.result) {
-            const { text, aiResponse } = msg.result;
+            const { text, aiResponse, providers } = msg.result;
             
             if (text && aiResponse) {
               // 添加用户消息
@@ -793,6 +796,7 @@ export default function Chat() {
                 content: aiResponse,
                 timestamp: new Date(),
                 hasAudio: false,  // 旧格式消息，默认没有音频
+                providers,
               }]);
             }
           }
@@ -1073,6 +1077,15 @@ export default function Chat() {
                         <Text size="xs" c="dimmed">{formatTimestamp(msg.timestamp)}</Text>
                       </Group>
                       <Text mb={msg.hasAudio ? 'xs' : 0}>{msg.content}</Text>
+                      {!isUser && msg.providers && Object.keys(msg.providers).length > 0 && (
+                        <Group gap={4} mt="xs">
+                          {Object.entries(msg.providers).map(([kind, provider]) => (
+                            <Badge key={kind} size="xs" variant="light" color={provider === 'local' ? 'orange' : 'gray'}>
+                              {PROVIDER_LABELS[kind] || kind}: {provider}
+                            </Badge>
+                          ))}
+                        </Group>
+                      )}
                       {msg.hasAudio && !isUser && (
                         <Group gap="xs" mt="xs" pt="xs" style={{ borderTop: '1px solid var(--mantine-color-gray-3)' }}>
                           <Text size="xs" c="dimmed">Content generated by AI (qwen)</Text>
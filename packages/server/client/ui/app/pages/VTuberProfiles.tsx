@@ -0,0 +1,381 @@
+import {
+  ActionIcon,
+  Autocomplete,
+  Badge,
+  Button,
+  Group,
+  MultiSelect,
+  NumberInput,
+  Paper,
+  Select,
+  Stack,
+  Table,
+  TagsInput,
+  Text,
+  TextInput,
+  Title,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  IconCheck, IconCopy, IconDeviceFloppy, IconPlus, IconTrash,
+} from '@tabler/icons-react';
+import React, { useEffect, useState } from 'react';
+
+type TargetType = 'hotkey' | 'expression' | 'parameter';
+
+interface ActionMapping {
+  id: string;
+  description?: string;
+  keywords: string[];
+  patterns: string[];
+  priority: number;
+  target: { type: TargetType; name: string; value?: number };
+  cooldown: number;
+  duration?: number;
+  intensity?: number;
+}
+
+interface VTuberProfile {
+  id: string;
+  name: string;
+  model?: string;
+  actions: ActionMapping[];
+  fallbackActions: string[];
+  updatedAt?: number;
+}
+
+const TARGET_TYPES = [
+  { value: 'hotkey', label: '热键' },
+  { value: 'expression', label: '表情' },
+  { value: 'parameter', label: '参数' },
+];
+
+async function requestJson(url: string, init?: RequestInit) {
+  const res = await fetch(url, init);
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `请求失败 (${res.status})`);
+  return data;
+}
+
+function showError(error: Error) {
+  notifications.show({ title: '错误', message: error.message, color: 'red' });
+}
+
+export default function VTuberProfiles() {
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<VTuberProfile | null>(null);
+  const [isNew, setIsNew] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['vtuber-profiles'],
+    queryFn: () => requestJson('/api/vtuber/profiles'),
+  });
+
+  // 当前模型的热键 / 参数，用于目标输入提示
+  const { data: targets } = useQuery({
+    queryKey: ['vtuber-model-targets'],
+    queryFn: () => requestJson('/api/vtuber/model-targets'),
+  });
+
+  const profiles: VTuberProfile[] = data?.profiles || [];
+  const activeId: string | undefined = data?.active;
+
+  // 默认选中当前配置
+  useEffect(() => {
+    if (!selectedId && activeId) setSelectedId(activeId);
+  }, [activeId, selectedId]);
+
+  useEffect(() => {
+    if (isNew) return;
+    const profile = profiles.find((p) => p.id === selectedId);
+    setDraft(profile ? JSON.parse(JSON.stringify(profile)) : null);
+  }, [selectedId, data, isNew]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['vtuber-profiles'] });
+
+  const saveProfile = useMutation({
+    mutationFn: (profile: VTuberProfile) => requestJson('/api/vtuber/profiles', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(profile),
+    }),
+    onSuccess: (res) => {
+      setIsNew(false);
+      setSelectedId(res.profile.id);
+      invalidate();
+      notifications.show({ title: '成功', message: '配置已保存', color: 'green' });
+    },
+    onError: showError,
+  });
+
+  const activateProfile = useMutation({
+    mutationFn: (id: string) => requestJson('/api/vtuber/active-profile', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id }),
+    }),
+    onSuccess: () => {
+      invalidate();
+      notifications.show({ title: '成功', message: '已切换当前配置，MCP 工具已更新', color: 'green' });
+    },
+    onError: showError,
+  });
+
+  const deleteProfile = useMutation({
+    mutationFn: (id: string) => requestJson(`/api/vtuber/profiles/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+    onSuccess: (res) => {
+      setSelectedId(res.active);
+      invalidate();
+    },
+    onError: showError,
+  });
+
+  const updateDraft = (patch: Partial<VTuberProfile>) => setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+
+  const updateAction = (index: number, patch: Partial<ActionMapping>) => {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const actions = prev.actions.slice();
+      actions[index] = { ...actions[index], ...patch };
+      return { ...prev, actions };
+    });
+  };
+
+  const addAction = () => {
+    setDraft((prev) => prev && {
+      ...prev,
+      actions: [...prev.actions, {
+        id: `action_${prev.actions.length + 1}`,
+        keywords: [],
+        patterns: [],
+        priority: 0,
+        target: { type: 'hotkey', name: '' },
+        cooldown: 0,
+      }],
+    });
+  };
+
+  const removeAction = (index: number) => {
+    setDraft((prev) => prev && { ...prev, actions: prev.actions.filter((_, i) => i !== index) });
+  };
+
+  // 以当前配置为模板新建（通常用于给另一个模型建立配置）
+  const duplicateProfile = () => {
+    if (!draft) return;
+    setIsNew(true);
+    setDraft({
+      ...JSON.parse(JSON.stringify(draft)),
+      id: `${draft.id}_copy`,
+      name: `${draft.name} (副本)`,
+      model: targets?.model || '',
+    });
+  };
+
+  if (isLoading) {
+    return <div>加载中...</div>;
+  }
+
+  const hotkeyNames: string[] = Array.from(new Set((targets?.hotkeys || []).map((h: any) => h.name)));
+  const parameterNames: string[] = targets?.parameters || [];
+
+  return (
+    <Stack gap="md">
+      <Group justify="space-between">
+        <Title order={2}>VTuber 动作配置</Title>
+        <Group gap="xs">
+          <Button variant="default" leftSection={<IconCopy size={16} />} onClick={duplicateProfile} disabled={!draft}>
+            复制为新配置
+          </Button>
+          <Button
+            leftSection={<IconDeviceFloppy size={16} />}
+            onClick={() => draft && saveProfile.mutate(draft)}
+            loading={saveProfile.isPending}
+            disabled={!draft}
+          >
+            保存配置
+          </Button>
+        </Group>
+      </Group>
+
+      <Paper withBorder p="md">
+        <Group align="flex-end">
+          <Select
+            label="配置"
+            data={profiles.map((p) => ({ value: p.id, label: p.id === activeId ? `${p.name}（当前）` : p.name }))}
+            value={isNew ? null : selectedId}
+            onChange={(value) => {
+              setIsNew(false);
+              setSelectedId(value);
+            }}
+            style={{ minWidth: 240 }}
+          />
+          <Button
+            variant="light"
+            leftSection={<IconCheck size={16} />}
+            disabled={isNew || !selectedId || selectedId === activeId}
+            loading={activateProfile.isPending}
+            onClick={() => selectedId && activateProfile.mutate(selectedId)}
+          >
+            设为当前
+          </Button>
+          <Button
+            variant="light"
+            color="red"
+            leftSection={<IconTrash size={16} />}
+            disabled={isNew || !selectedId || profiles.length <= 1}
+            onClick={() => selectedId && deleteProfile.mutate(selectedId)}
+          >
+            删除
+          </Button>
+          <Text size="sm" c="dimmed">
+            VTube Studio 当前模型：
+            {targets?.connected ? (targets.model || '未知') : '未连接'}
+          </Text>
+        </Group>
+      </Paper>
+
+      {draft && (
+        <Paper withBorder p="md">
+          <Stack gap="md">
+            <Group grow align="flex-start">
+              <TextInput
+                label="配置 ID"
+                value={draft.id}
+                disabled={!isNew}
+                onChange={(e) => updateDraft({ id: e.currentTarget.value })}
+              />
+              <TextInput label="名称" value={draft.name} onChange={(e) => updateDraft({ name: e.currentTarget.value })} />
+              <TextInput
+                label="VTube Studio 模型名称"
+                description="检测到该模型时自动切换到此配置"
+                value={draft.model || ''}
+                onChange={(e) => updateDraft({ model: e.currentTarget.value })}
+              />
+            </Group>
+            <MultiSelect
+              label="默认动作序列"
+              description="回复中没有命中任何关键词时依次播放"
+              data={draft.actions.map((a) => a.id).filter(Boolean)}
+              value={draft.fallbackActions}
+              onChange={(value) => updateDraft({ fallbackActions: value })}
+            />
+
+            <Group justify="space-between">
+              <Title order={4}>
+                动作
+                {' '}
+                <Badge variant="light">{draft.actions.length}</Badge>
+              </Title>
+              <Button size="xs" variant="light" leftSection={<IconPlus size={14} />} onClick={addAction}>
+                添加动作
+              </Button>
+            </Group>
+
+            <Table striped verticalSpacing="xs">
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>动作 ID / 描述</Table.Th>
+                  <Table.Th>关键词 / 正则</Table.Th>
+                  <Table.Th>目标</Table.Th>
+                  <Table.Th>优先级</Table.Th>
+                  <Table.Th>冷却 (ms)</Table.Th>
+                  <Table.Th />
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {draft.actions.map((action, index) => (
+                  // eslint-disable-next-line react/no-array-index-key
+                  <Table.Tr key={index}>
+                    <Table.Td style={{ minWidth: 180 }}>
+                      <Stack gap={4}>
+                        <TextInput
+                          size="xs"
+                          value={action.id}
+                          onChange={(e) => updateAction(index, { id: e.currentTarget.value })}
+                        />
+                        <TextInput
+                          size="xs"
+                          placeholder="描述（MCP 工具说明）"
+                          value={action.description || ''}
+                          onChange={(e) => updateAction(index, { description: e.currentTarget.value })}
+                        />
+                      </Stack>
+                    </Table.Td>
+                    <Table.Td style={{ minWidth: 260 }}>
+                      <Stack gap={4}>
+                        <TagsInput
+                          size="xs"
+                          placeholder="关键词，回车添加"
+                          value={action.keywords}
+                          onChange={(keywords) => updateAction(index, { keywords })}
+                        />
+                        <TagsInput
+                          size="xs"
+                          placeholder="正则，回车添加"
+                          value={action.patterns}
+                          onChange={(patterns) => updateAction(index, { patterns })}
+                        />
+                      </Stack>
+                    </Table.Td>
+                    <Table.Td style={{ minWidth: 220 }}>
+                      <Stack gap={4}>
+                        <Select
+                          size="xs"
+                          data={TARGET_TYPES}
+                          value={action.target.type}
+                          onChange={(type) => updateAction(index, { target: { ...action.target, type: (type || 'hotkey') as TargetType } })}
+                        />
+                        <Autocomplete
+                          size="xs"
+                          placeholder={action.id}
+                          data={action.target.type === 'hotkey' ? hotkeyNames : action.target.type === 'parameter' ? parameterNames : []}
+                          value={action.target.name}
+                          onChange={(name) => updateAction(index, { target: { ...action.target, name } })}
+                        />
+                        {action.target.type === 'parameter' && (
+                          <NumberInput
+                            size="xs"
+                            placeholder="参数值"
+                            value={action.target.value ?? 1}
+                            step={0.1}
+                            onChange={(value) => updateAction(index, { target: { ...action.target, value: Number(value) || 0 } })}
+                          />
+                        )}
+                      </Stack>
+                    </Table.Td>
+                    <Table.Td style={{ width: 90 }}>
+                      <NumberInput
+                        size="xs"
+                        value={action.priority}
+                        onChange={(value) => updateAction(index, { priority: Number(value) || 0 })}
+                      />
+                    </Table.Td>
+                    <Table.Td style={{ width: 110 }}>
+                      <NumberInput
+                        size="xs"
+                        min={0}
+                        step={500}
+                        value={action.cooldown}
+                        onChange={(value) => updateAction(index, { cooldown: Number(value) || 0 })}
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <ActionIcon color="red" variant="subtle" onClick={() => removeAction(index)}>
+                        <IconTrash size={16} />
+                      </ActionIcon>
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+            <Text size="xs" c="dimmed">
+              目标名称留空时使用动作 ID 匹配同名热键。每个动作会生成一个 MCP 工具 vtuber_&#123;动作 ID&#125;，切换或保存当前配置后自动通知上游。
+            </Text>
+          </Stack>
+        </Paper>
+      )}
+    </Stack>
+  );
+}
@@ -1,8 +1,13 @@
 import { Logger } from '@ejunz/utils';
 import * as dgram from 'dgram';
-import { VTuberControl } from './vtuber-server';
+import {
+    decodePacket, encodeBundle, encodeMessage, fromTimetag, isOSCBundle, OSCArgument, OSCMessage, OSCPacket, toTimetag,
+} from './osc';
+import type { VTuberControl } from './vtuber-server';
 
 const logger = new Logger('vtuber-osc');
+// setTimeout 能接受的最大延迟（约 24.8 天），超过时会被当作 1ms 立即执行
+const MAX_BUNDLE_DELAY = 2 ** 31 - 1;
 
 /**
  * OSC 协议桥接器 - 用于连接桌面 VTuber 应用（如 VSeeFace）
@@ -13,16 +18,30 @@ const logger = new Logger('vtuber-osc');
  * - /vtuber/action/{动作名}
  * - /vtuber/expression/{表情名}
  * - /vtuber/speaking (bool)
+ *
+ * 配置 listenPort 后同时监听 OSC 输入（默认仅 127.0.0.1，可通过 listenHost 修改），外部应用可以：
+ * - /vtuber/action/{动作名} (任意非 0 值)     触发 VTuber 动作
+ * - /vtuber/expression/{表情名} (float 强度)  切换表情
+ * - /agent/chat (string)                     向 Agent 发送一条消息
+ * - /avatar/parameters/{参数名}              回报 Avatar 参数（VRChat 会主动发送）
  */
 export class VTuberOSCBridge {
     private client: dgram.Socket | null = null;
+    private server: dgram.Socket | null = null;
     private host: string;
     private port: number;
+    private listenPort: number;
+    private listenHost: string;
     private enabled: boolean;
+    // 外部应用回报的 Avatar 参数最新值
+    private avatarParameters = new Map<string, OSCArgument>();
+    private listeners = new Set<(message: OSCMessage) => void>();
 
-    constructor(host = '127.0.0.1', port = 9000, enabled = false) {
+    constructor(host = '127.0.0.1', port = 9000, enabled = false, listenPort = 0, listenHost = '127.0.0.1') {
         this.host = host;
         this.port = port;
+        this.listenPort = listenPort;
+        this.listenHost = listenHost;
         this.enabled = enabled;
         
         if (enabled) {
@@ -37,29 +56,115 @@ export class VTuberOSCBridge {
         } catch (err: any) {
             logger.error('初始化 OSC 桥接器失败: %s', err.message);
             this.enabled = false;
+            return;
         }
+        if (this.listenPort) this.listen();
+    }
+
+    private listen() {
+        const server = dgram.createSocket('udp4');
+        server.on('message', (buffer) => {
+            try {
+                this.dispatchPacket(decodePacket(buffer));
+            } catch (err: any) {
+                logger.debug('解析 OSC 输入失败: %s', err.message);
+            }
+        });
+        server.on('error', (err) => {
+            logger.error('OSC 监听错误: %s', err.message);
+            server.close();
+            if (this.server === server) this.server = null;
+        });
+        // 默认只监听本机，避免局域网内其它主机通过 /agent/chat 向 Agent 发消息
+        server.bind(this.listenPort, this.listenHost, () => {
+            logger.info('VTuber OSC 输入监听已启动: udp://%s:%d', this.listenHost, this.listenPort);
+        });
+        this.server = server;
     }
 
     /**
-     * 发送 OSC 消息
-     * OSC 消息格式：地址 + 类型标签 + 参数值
+     * 分发收到的 OSC 包；bundle 的时间标签在未来时延迟执行，过于遥远的 bundle 直接丢弃
      */
-    private sendOSC(address: string, value: number | boolean | string) {
+    private dispatchPacket(packet: OSCPacket) {
+        if (!isOSCBundle(packet)) {
+            this.handleIncoming(packet);
+            return;
+        }
+        const at = fromTimetag(packet.timetag);
+        const delay = at === null ? 0 : at - Date.now();
+        if (delay > MAX_BUNDLE_DELAY) {
+            logger.debug('丢弃 OSC bundle：计划在 %d 天后执行，超出可延迟范围', Math.round(delay / 86400000));
+            return;
+        }
+        const run = () => packet.elements.forEach((element) => this.dispatchPacket(element));
+        if (delay > 0) setTimeout(run, delay);
+        else run();
+    }
+
+    private handleIncoming(message: OSCMessage) {
+        logger.debug('收到 OSC: %s %o', message.address, message.args);
+        for (const listener of this.listeners) {
+            try {
+                listener(message);
+            } catch (err: any) {
+                logger.debug('OSC 输入监听器错误: %s', err.message);
+            }
+        }
+
+        const [value] = message.args;
+        const parts = message.address.split('/').filter(Boolean);
+        if (parts[0] === 'avatar' && parts[1] === 'parameters' && parts[2]) {
+            this.avatarParameters.set(parts.slice(2).join('/'), value);
+            return;
+        }
+        if (parts[0] === 'vtuber' && parts[1] === 'action' && parts[2]) {
+            // 值为 0 / false 表示动作结束，不需要处理
+            if (value === 0 || value === false) return;
+            this.dispatchControl({ type: 'action', action: { name: parts[2] } });
+            return;
+        }
+        if (parts[0] === 'vtuber' && parts[1] === 'expression' && parts[2]) {
+            const intensity = typeof value === 'number' ? value : 0.7;
+            if (intensity <= 0) return;
+            this.dispatchControl({ type: 'expression', expression: { emotion: parts[2], intensity } });
+            return;
+        }
+        if (message.address === '/agent/chat' && typeof value === 'string' && value.trim()) {
+            // 与前端聊天页一样通过 client/agent/chat 事件发送
+            const { publishEvent } = require('./client');
+            publishEvent('client/agent/chat', [{ message: value.trim(), history: [] }]);
+        }
+    }
+
+    // 通过 vtuber-server 分发控制指令（VTube Studio 优先），延迟加载避免循环依赖
+    private dispatchControl(control: VTuberControl) {
+        const { sendVTuberControl } = require('./vtuber-server');
+        sendVTuberControl(control);
+    }
+
+    /**
+     * 订阅所有收到的 OSC 消息，返回取消函数
+     */
+    onMessage(listener: (message: OSCMessage) => void) {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    getAvatarParameters(): Record<string, OSCArgument> {
+        return Object.fromEntries(this.avatarParameters);
+    }
+
+    private sendPacket(buffer: Buffer, description: string) {
         if (!this.enabled || !this.client) {
             return;
         }
 
         try {
-            // 简化的 OSC 消息格式（完整 OSC 协议需要更多编码）
-            // 这里使用文本格式，VSeeFace 可能需要二进制格式
-            const message = `${address},${value}`;
-            const buffer = Buffer.from(message);
-            
             this.client.send(buffer, this.port, this.host, (err) => {
                 if (err) {
                     logger.debug('发送 OSC 消息失败: %s', err.message);
                 } else {
-                    logger.debug('已发送 OSC: %s = %s', address, value);
+                    logger.debug('已发送 OSC: %s', description);
                 }
             });
         } catch (err: any) {
@@ -67,6 +172,34 @@ export class VTuberOSCBridge {
         }
     }
 
+    /**
+     * 发送 OSC 消息（OSC 1.0 二进制编码）
+     */
+    sendOSC(address: string, ...args: OSCArgument[]) {
+        try {
+            this.sendPacket(encodeMessage({ address, args }), `${address} = ${args.map(String).join(', ')}`);
+        } catch (err: any) {
+            logger.error('OSC 消息编码错误: %s', err.message);
+        }
+    }
+
+    /**
+     * 以 bundle 形式发送多条消息，保证接收方同时应用；at 为执行时间（毫秒时间戳），缺省立即执行
+     */
+    sendBundle(messages: OSCMessage[], at?: number) {
+        try {
+            const buffer = encodeBundle({ timetag: at ? toTimetag(at) : 1n, elements: messages });
+            this.sendPacket(buffer, `bundle(${messages.map((m) => m.address).join(', ')})`);
+        } catch (err: any) {
+            logger.error('OSC bundle 编码错误: %s', err.message);
+        }
+    }
+
+    // 表情 / 音量等连续参数需要 float 类型（整数 0 / 1 会被编码为 int）
+    private float(value: number): OSCArgument {
+        return { type: 'f', value };
+    }
+
     /**
      * 处理 VTuber 控制指令并转换为 OSC
      */
@@ -80,34 +213,39 @@ export class VTuberOSCBridge {
             const actionName = control.action.name;
             this.sendOSC(`/vtuber/action/${actionName}`, 1);
             
-            // VRChat 风格的参数（如果使用 VRChat Avatar）
-            this.sendOSC(`/avatar/parameters/${actionName}`, 1);
+            // VRChat 风格的参数（如果使用 VRChat Avatar，动作对应布尔参数）
+            this.sendOSC(`/avatar/parameters/${actionName}`, true);
+        }
+
+        if (control.type === 'parameter' && control.parameter) {
+            const { name, value, duration } = control.parameter;
+            this.sendOSC(`/avatar/parameters/${name}`, this.float(value));
+            if (duration) setTimeout(() => this.sendOSC(`/avatar/parameters/${name}`, this.float(0)), duration);
         }
 
         if (control.type === 'expression' && control.expression) {
             // 发送表情指令
             const emotion = control.expression.emotion;
-            this.sendOSC(`/vtuber/expression/${emotion}`, control.expression.intensity || 0.7);
-            
-            // 重置其他表情
+            // 重置其他表情，与目标表情放在同一个 bundle 中，避免中间状态
             const emotions = ['happy', 'sad', 'angry', 'surprised', 'excited', 'neutral'];
-            emotions.forEach(e => {
-                if (e !== emotion) {
-                    this.sendOSC(`/vtuber/expression/${e}`, 0);
-                }
-            });
+            this.sendBundle([
+                ...emotions.filter((e) => e !== emotion).map((e) => ({
+                    address: `/vtuber/expression/${e}`, args: [this.float(0)],
+                })),
+                { address: `/vtuber/expression/${emotion}`, args: [this.float(control.expression.intensity || 0.7)] },
+            ]);
         }
 
         if (control.type === 'speaking' && control.speaking) {
             // 发送说话状态
-            this.sendOSC('/vtuber/speaking', control.speaking.isSpeaking ? 1 : 0);
+            this.sendOSC('/vtuber/speaking', control.speaking.isSpeaking);
             
             // VRChat Viseme（嘴型）参数
             if (control.speaking.isSpeaking) {
                 // 可以发送音量/音调用于嘴型同步
-                this.sendOSC('/avatar/parameters/Voice', control.speaking.volume || 0.7);
+                this.sendOSC('/avatar/parameters/Voice', this.float(control.speaking.volume || 0.7));
             } else {
-                this.sendOSC('/avatar/parameters/Voice', 0);
+                this.sendOSC('/avatar/parameters/Voice', this.float(0));
             }
         }
 
@@ -117,16 +255,16 @@ export class VTuberOSCBridge {
                 const actions = ['wave', 'nod', 'shake_head', 'point', 'clap', 'think', 'bow'];
                 actions.forEach(action => {
                     this.sendOSC(`/vtuber/action/${action}`, 0);
-                    this.sendOSC(`/avatar/parameters/${action}`, 0);
+                    this.sendOSC(`/avatar/parameters/${action}`, false);
                 });
             }
             if (control.reset.expression) {
                 // 重置所有表情
                 const emotions = ['happy', 'sad', 'angry', 'surprised', 'excited'];
-                emotions.forEach(emotion => {
-                    this.sendOSC(`/vtuber/expression/${emotion}`, 0);
-                });
-                this.sendOSC('/vtuber/expression/neutral', 1);
+                this.sendBundle([
+                    ...emotions.map((emotion) => ({ address: `/vtuber/expression/${emotion}`, args: [this.float(0)] })),
+                    { address: '/vtuber/expression/neutral', args: [this.float(1)] },
+                ]);
             }
         }
     }
@@ -135,6 +273,10 @@ export class VTuberOSCBridge {
      * 关闭 OSC 桥接器
      */
     close() {
+        if (this.server) {
+            this.server.close();
+            this.server = null;
+        }
         if (this.client) {
             this.client.close();
             this.client = null;
@@ -149,13 +291,13 @@ let globalOSCBridge: VTuberOSCBridge | null = null;
 /**
  * 初始化全局 OSC 桥接器
  */
-export function initOSCBridge(host?: string, port?: number): void {
+export function initOSCBridge(host?: string, port?: number, listenPort?: number, listenHost?: string): void {
     if (globalOSCBridge) {
         logger.debug('OSC 桥接器已存在，跳过初始化');
         return;
     }
     
-    globalOSCBridge = new VTuberOSCBridge(host, port, true);
+    globalOSCBridge = new VTuberOSCBridge(host, port, true, listenPort, listenHost);
     logger.info('全局 OSC 桥接器已初始化');
 }
 
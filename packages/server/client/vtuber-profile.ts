@@ -0,0 +1,397 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Logger } from '@ejunz/utils';
+import type { VTuberControl } from './vtuber-server';
+
+const logger = new Logger('vtuber-profile');
+
+/**
+ * VTuber 动作映射配置（按模型区分）
+ * 保存在 data/vtuber-profiles.json：{ active: 当前配置 ID, profiles: [...] }
+ * 每个配置描述一个模型的动作：关键词 / 正则 -> 热键 / 表情 / 参数，解析器与 MCP vtuber 工具都从当前配置生成
+ */
+
+export const VTUBER_PROFILE_FILE = path.resolve(process.cwd(), 'data/vtuber-profiles.json');
+
+export type VTuberTargetType = 'hotkey' | 'expression' | 'parameter';
+
+export interface VTuberActionTarget {
+    type: VTuberTargetType;
+    // hotkey：VTube Studio 热键名称或 ID；expression：表情名；parameter：参数名
+    name: string;
+    // parameter 的目标值（默认 1）
+    value?: number;
+}
+
+export interface VTuberActionMapping {
+    id: string; // 动作 ID，同时用于生成 MCP 工具名 vtuber_{id}
+    description?: string;
+    keywords: string[];
+    patterns: string[]; // 正则表达式（忽略大小写）
+    priority: number; // 同一位置命中多个动作时，优先级高的生效
+    target: VTuberActionTarget;
+    cooldown: number; // 冷却时间（毫秒），0 表示不限制
+    duration?: number;
+    intensity?: number;
+}
+
+export interface VTuberProfile {
+    id: string;
+    name: string;
+    // VTube Studio 模型名称，连接后检测到该模型时自动切换到此配置
+    model?: string;
+    actions: VTuberActionMapping[];
+    // 没有命中任何关键词时播放的默认动作序列
+    fallbackActions: string[];
+    updatedAt: number;
+}
+
+interface VTuberProfileStore {
+    active: string;
+    profiles: VTuberProfile[];
+}
+
+// 默认配置：原先写死在解析器与 MCP 工具中的 10 个动画 + 通用动作
+const DEFAULT_ACTIONS: Array<Partial<VTuberActionMapping> & { id: string; keywords: string[] }> = [
+    {
+        id: 'happy_nod',
+        description: '触发开心+点头动作',
+        keywords: ['开心点头', '开心地点头', '高兴点头', '点头开心', '点头表示开心'],
+        priority: 10,
+    },
+    {
+        id: 'confused',
+        description: '触发疑惑表情',
+        keywords: ['疑惑', '困惑', '疑问', '不解', '疑惑的表情', '感到疑惑', '怎么'],
+        priority: 10,
+    },
+    {
+        id: 'shake_head_around',
+        description: '触发摇头晃脑动作',
+        keywords: ['摇头晃脑', '摇头', '晃脑袋', '摇头表示', '不是', '不对', '不行', '不会', '不能'],
+        priority: 10,
+    },
+    {
+        id: 'shy',
+        description: '触发平静+害羞表情',
+        keywords: ['害羞', '羞涩', '不好意思', '平静害羞', '害羞地', '羞怯', '平静'],
+        priority: 10,
+    },
+    {
+        id: 'idle_tilt_head',
+        description: '触发发呆+歪头动作',
+        keywords: [
+            '思考', '沉思', '想', '微笑思考', '边想边笑', '小脑袋', '脑袋', '脑袋瓜',
+            '发呆', '歪头', '发呆歪头', '发呆+歪头', '呆滞', '出神', '该不会', '不会是', '是不是',
+        ],
+        priority: 10,
+    },
+    {
+        id: 'excited_dance',
+        description: '触发开心+手舞足蹈动作',
+        keywords: ['手舞足蹈', '高兴地手舞足蹈', '开心手舞足蹈', '兴奋地手舞足蹈', '跳舞', '手舞'],
+        priority: 10,
+    },
+    {
+        id: 'surprised_blink',
+        description: '触发惊讶+眨眼动作',
+        keywords: ['眨眼', '惊讶眨眼', '吃惊地眨眼', '眨眼睛'],
+        priority: 10,
+    },
+    {
+        id: 'excited_wave',
+        description: '触发兴奋+挥手动作',
+        keywords: ['挥手', '招手', '兴奋挥手', '高兴挥手', '兴奋地挥手', '挥手告别', '挥手打招呼'],
+        priority: 10,
+    },
+    {
+        id: 'surprised',
+        description: '触发吃惊表情',
+        keywords: ['吃惊', '惊讶', '震惊', '大吃一惊', '非常惊讶'],
+        priority: 10,
+    },
+    {
+        id: 'sad',
+        description: '触发难过表情',
+        keywords: ['难过', '悲伤', '伤心', '沮丧', '失落', '不开心'],
+        priority: 10,
+    },
+    // 通用动作（作为备选）
+    { id: 'point', keywords: ['指向', '指着', '指向某处'] },
+    { id: 'clap', keywords: ['拍手', '鼓掌', '拍掌'] },
+    { id: 'thumbs_up', keywords: ['竖起大拇指', '点赞'] },
+    { id: 'heart', keywords: ['比心', '爱心'] },
+    { id: 'bow', keywords: ['鞠躬', '弯腰'] },
+    { id: 'shrug', keywords: ['耸肩'] },
+    { id: 'turn', keywords: ['转身', '转头'] },
+    { id: 'stretch', keywords: ['伸懒腰', '伸展'] },
+    { id: 'sit', keywords: ['坐下'] },
+    { id: 'stand', keywords: ['站起'] },
+    { id: 'jump', keywords: ['跳跃', '跳'] },
+];
+
+export function createDefaultVTuberProfile(): VTuberProfile {
+    return {
+        id: 'default',
+        name: '默认模型',
+        actions: DEFAULT_ACTIONS.map((action) => normalizeMapping(action)),
+        fallbackActions: ['idle_tilt_head', 'happy_nod'],
+        updatedAt: Date.now(),
+    };
+}
+
+function normalizeMapping(input: any): VTuberActionMapping {
+    const id = String(input?.id || '').trim();
+    const target = input?.target || {};
+    const type: VTuberTargetType = ['hotkey', 'expression', 'parameter'].includes(target.type) ? target.type : 'hotkey';
+    const mapping: VTuberActionMapping = {
+        id,
+        description: input?.description ? String(input.description) : undefined,
+        keywords: Array.isArray(input?.keywords) ? input.keywords.map((k: any) => String(k).trim()).filter(Boolean) : [],
+        patterns: Array.isArray(input?.patterns) ? input.patterns.map((p: any) => String(p)).filter(Boolean) : [],
+        priority: Number(input?.priority) || 0,
+        // 未指定目标时，按动作 ID 匹配同名热键（与旧版行为一致）
+        target: { type, name: String(target.name || id) },
+        cooldown: Math.max(0, Number(input?.cooldown) || 0),
+    };
+    if (type === 'parameter') mapping.target.value = typeof target.value === 'number' ? target.value : 1;
+    if (typeof input?.duration === 'number') mapping.duration = input.duration;
+    if (typeof input?.intensity === 'number') mapping.intensity = input.intensity;
+    return mapping;
+}
+
+/**
+ * 校验并规范化用户提交的配置，出错时抛出异常
+ */
+export function normalizeVTuberProfile(input: any): VTuberProfile {
+    const id = String(input?.id || '').trim();
+    if (!/^[\w-]+$/.test(id)) throw new Error('配置 ID 只能包含字母、数字、下划线和短横线');
+    const actions = (Array.isArray(input?.actions) ? input.actions : []).map(normalizeMapping);
+    const seen = new Set<string>();
+    for (const action of actions) {
+        if (!/^[\w-]+$/.test(action.id)) throw new Error(`动作 ID 无效: ${action.id || '(空)'}`);
+        if (seen.has(action.id)) throw new Error(`动作 ID 重复: ${action.id}`);
+        seen.add(action.id);
+        for (const pattern of action.patterns) {
+            try {
+                new RegExp(pattern, 'i');
+            } catch (err: any) {
+                throw new Error(`动作 ${action.id} 的正则无效: ${pattern} (${err.message})`);
+            }
+        }
+    }
+    return {
+        id,
+        name: String(input?.name || id),
+        model: input?.model ? String(input.model) : undefined,
+        actions,
+        fallbackActions: (Array.isArray(input?.fallbackActions) ? input.fallbackActions : [])
+            .map((a: any) => String(a)).filter((a: string) => seen.has(a)),
+        updatedAt: Date.now(),
+    };
+}
+
+let store: VTuberProfileStore | null = null;
+const changeListeners = new Set<(profile: VTuberProfile) => void>();
+// 动作最近一次触发时间，用于冷却
+const lastTriggered = new Map<string, number>();
+
+function loadStore(): VTuberProfileStore {
+    if (store) return store;
+    try {
+        if (fs.existsSync(VTUBER_PROFILE_FILE)) {
+            const data = fs.readJsonSync(VTUBER_PROFILE_FILE);
+            const profiles: VTuberProfile[] = [];
+            for (const profile of data?.profiles || []) {
+                try {
+                    profiles.push({ ...normalizeVTuberProfile(profile), updatedAt: profile.updatedAt || Date.now() });
+                } catch (err: any) {
+                    logger.warn('忽略无效的 VTuber 配置 %s: %s', profile?.id, err.message);
+                }
+            }
+            if (profiles.length) {
+                store = {
+                    active: profiles.some((p) => p.id === data.active) ? data.active : profiles[0].id,
+                    profiles,
+                };
+                return store;
+            }
+        }
+    } catch (err: any) {
+        logger.warn('读取 VTuber 配置失败，使用默认配置: %s', err.message);
+    }
+    store = { active: 'default', profiles: [createDefaultVTuberProfile()] };
+    return store;
+}
+
+function persistStore() {
+    fs.ensureDirSync(path.dirname(VTUBER_PROFILE_FILE));
+    fs.writeJsonSync(VTUBER_PROFILE_FILE, store, { spaces: 2 });
+}
+
+function emitChange() {
+    const profile = getActiveVTuberProfile();
+    for (const listener of changeListeners) {
+        try {
+            listener(profile);
+        } catch (err: any) {
+            logger.warn('VTuber 配置变更回调出错: %s', err.message);
+        }
+    }
+}
+
+export function listVTuberProfiles() {
+    const { active, profiles } = loadStore();
+    return { active, profiles };
+}
+
+export function getVTuberProfile(id: string) {
+    return loadStore().profiles.find((p) => p.id === id) || null;
+}
+
+export function getActiveVTuberProfile(): VTuberProfile {
+    const { active, profiles } = loadStore();
+    return profiles.find((p) => p.id === active) || profiles[0];
+}
+
+export function saveVTuberProfile(input: any): VTuberProfile {
+    const profile = normalizeVTuberProfile(input);
+    const current = loadStore();
+    const index = current.profiles.findIndex((p) => p.id === profile.id);
+    if (index >= 0) current.profiles[index] = profile;
+    else current.profiles.push(profile);
+    persistStore();
+    logger.info('已保存 VTuber 配置: %s (%d 个动作)', profile.id, profile.actions.length);
+    if (current.active === profile.id) emitChange();
+    return profile;
+}
+
+export function deleteVTuberProfile(id: string): boolean {
+    const current = loadStore();
+    if (current.profiles.length <= 1) throw new Error('至少需要保留一个配置');
+    const index = current.profiles.findIndex((p) => p.id === id);
+    if (index < 0) return false;
+    current.profiles.splice(index, 1);
+    const wasActive = current.active === id;
+    if (wasActive) current.active = current.profiles[0].id;
+    persistStore();
+    if (wasActive) emitChange();
+    return true;
+}
+
+export function setActiveVTuberProfile(id: string): VTuberProfile {
+    const current = loadStore();
+    const profile = current.profiles.find((p) => p.id === id);
+    if (!profile) throw new Error(`VTuber 配置不存在: ${id}`);
+    if (current.active !== id) {
+        current.active = id;
+        persistStore();
+        logger.info('已切换 VTuber 配置: %s', id);
+        emitChange();
+    }
+    return profile;
+}
+
+/**
+ * 根据 VTube Studio 当前模型名称自动切换配置（没有对应配置时保持不变）
+ */
+export function selectVTuberProfileForModel(modelName: string) {
+    if (!modelName) return null;
+    const profile = loadStore().profiles.find((p) => p.model && p.model === modelName);
+    if (!profile) return null;
+    return setActiveVTuberProfile(profile.id);
+}
+
+/**
+ * 订阅当前配置变化（切换或修改当前配置），返回取消函数
+ */
+export function onVTuberProfileChange(listener: (profile: VTuberProfile) => void) {
+    changeListeners.add(listener);
+    return () => changeListeners.delete(listener);
+}
+
+export function findVTuberAction(actionId: string, profile = getActiveVTuberProfile()) {
+    return profile.actions.find((a) => a.id === actionId) || null;
+}
+
+/**
+ * 检查冷却；未在冷却中时记录本次触发并返回 true
+ */
+export function tryTriggerVTuberAction(mapping: VTuberActionMapping, now = Date.now()) {
+    if (mapping.cooldown > 0) {
+        const last = lastTriggered.get(mapping.id);
+        if (last !== undefined && now - last < mapping.cooldown) return false;
+    }
+    lastTriggered.set(mapping.id, now);
+    return true;
+}
+
+/**
+ * 将动作映射转换为控制指令
+ */
+export function buildVTuberActionControl(
+    mapping: VTuberActionMapping,
+    options: { duration?: number; intensity?: number } = {},
+): VTuberControl {
+    const duration = options.duration ?? mapping.duration ?? 2000;
+    const intensity = options.intensity ?? mapping.intensity ?? 0.6;
+    switch (mapping.target.type) {
+        case 'expression':
+            return { type: 'expression', expression: { emotion: mapping.target.name, intensity } };
+        case 'parameter':
+            return {
+                type: 'parameter',
+                parameter: { name: mapping.target.name, value: mapping.target.value ?? 1, duration },
+            };
+        default:
+            return {
+                type: 'action',
+                action: {
+                    name: mapping.target.name, duration, intensity, blend: true,
+                },
+            };
+    }
+}
+
+export interface VTuberActionMatch {
+    mapping: VTuberActionMapping;
+    position: number;
+    length: number;
+}
+
+/**
+ * 在文本中查找所有命中的动作（关键词与正则），按出现位置排序；同一位置优先级高、匹配更长的在前
+ */
+export function matchVTuberActions(text: string, profile = getActiveVTuberProfile()): VTuberActionMatch[] {
+    const lower = text.toLowerCase();
+    const matches: VTuberActionMatch[] = [];
+    for (const mapping of profile.actions) {
+        for (const keyword of mapping.keywords) {
+            const needle = keyword.toLowerCase();
+            let searchIndex = 0;
+            while (true) {
+                const pos = lower.indexOf(needle, searchIndex);
+                if (pos === -1) break;
+                matches.push({ mapping, position: pos, length: needle.length });
+                searchIndex = pos + needle.length;
+            }
+        }
+        for (const pattern of mapping.patterns) {
+            let regex: RegExp;
+            try {
+                regex = new RegExp(pattern, 'gi');
+            } catch {
+                continue;
+            }
+            for (const m of text.matchAll(regex)) {
+                if (!m[0]) continue;
+                matches.push({ mapping, position: m.index ?? 0, length: m[0].length });
+            }
+        }
+    }
+    matches.sort((a, b) => a.position - b.position
+        || b.mapping.priority - a.mapping.priority
+        || b.length - a.length);
+    // 同一位置只保留一个动作
+    return matches.filter((m, i) => i === 0 || matches[i - 1].position !== m.position);
+}
@@ -8,7 +8,7 @@ const logger = new Logger('vtuber-server');
  * VTuber 控制指令接口
  */
 export interface VTuberControl {
-    type: 'action' | 'expression' | 'speaking' | 'reset';
+    type: 'action' | 'expression' | 'speaking' | 'reset' | 'parameter';
     // 动作控制
     action?: {
         name: string; // 动作名称，如 'wave', 'nod', 'shake_head', 'point', 'idle' 等
@@ -28,6 +28,12 @@ export interface VTuberControl {
         volume?: number; // 音量（0-1），用于嘴型同步
         pitch?: number; // 音调（0-1），用于嘴型同步
     };
+    // 参数控制（如 VTube Studio 自定义参数），duration 后恢复为 0
+    parameter?: {
+        name: string;
+        value: number;
+        duration?: number;
+    };
     // 重置到默认状态
     reset?: {
         action: boolean; // 是否重置动作
@@ -3,6 +3,7 @@ import WebSocket = require('ws');
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import { VTuberControl } from './vtuber-server';
+import { getActiveVTuberProfile, selectVTuberProfileForModel } from './vtuber-profile';
 
 const logger = new Logger('vtuber-vtubestudio');
 
@@ -32,6 +33,7 @@ export class VTubeStudioClient {
     private dbTokenLoaded = false;
     private warnedHotkeyMissing = false; // 是否已经警告过热键缺失
     private warnedParameterMissing = false; // 是否已经警告过参数缺失
+    private currentModelName: string | null = null; // VTube Studio 当前加载的模型名称
 
     constructor(config?: {
         host?: string;
@@ -346,22 +348,10 @@ export class VTubeStudioClient {
             
             const actionLower = actionName.toLowerCase();
             
-            // 中英文关键词映射（用于匹配中文热键名称）
-            const chineseKeywordMap: { [key: string]: string[] } = {
-                'happy_nod': ['开心', '点头', '高兴'],
-                'confused': ['疑惑', '困惑', '疑问'],
-                'shake_head_around': ['摇头', '晃脑'],
-                'shy': ['害羞', '羞涩', '平静', '平静+害羞'],
-                'idle_tilt_head': ['发呆', '歪头', '呆滞', '出神', '思考', '沉思', '想', '小脑袋', '脑袋'],
-                'excited_dance': ['手舞足蹈', '跳舞', '兴奋', '开心'],
-                'surprised_blink': ['眨眼', '惊讶', '吃惊'],
-                'excited_wave': ['挥手', '招手', '兴奋'],
-                'surprised': ['吃惊', '惊讶', '震惊'],
-                'sad': ['难过', '悲伤', '伤心'],
-            };
-            
-            // 获取当前动作对应的中文关键词
-            const chineseKeywords = chineseKeywordMap[actionName] || [];
+            // 当前模型配置中该动作的关键词（用于匹配中文热键名称）
+            const mapping = getActiveVTuberProfile().actions
+                .find((a) => a.id === actionName || a.target.name === actionName);
+            const chineseKeywords = mapping?.keywords || [];
             
             // 匹配优先级：精确匹配 > 部分匹配 > 中文匹配 > 规范化匹配
             let bestMatch: string | null = null;
@@ -650,6 +640,11 @@ export class VTubeStudioClient {
                 
                 if (message.messageType === 'HotkeysInCurrentModelResponse') {
                     const hotkeys = message.data?.availableHotkeys || [];
+                    // 按当前模型自动切换动作配置
+                    if (message.data?.modelName && message.data.modelName !== this.currentModelName) {
+                        this.currentModelName = message.data.modelName;
+                        selectVTuberProfileForModel(this.currentModelName);
+                    }
                     resolve(hotkeys.map((h: any) => ({
                         id: h.hotkeyID,
                         name: h.name,
@@ -746,26 +741,10 @@ export class VTubeStudioClient {
             };
         }
 
-        // 可选的热键（用于 AI 控制动作）- 这些是建议的，不是强制的
-        // 注意：根据用户模型，优先匹配组合动作（表情+动作）
-        const optionalHotkeys = [
-            // 用户模型的10个动画（优先级最高）
-            'happy_nod', 'happy_nod_1', '开心点头', '开心+点头',
-            'confused', '疑惑',
-            'shake_head_around', '摇头晃脑', '摇头',
-            'shy', '平静害羞', '害羞', '平静+害羞',
-            'idle_tilt_head', 'idle', '发呆', '歪头', '发呆+歪头', '发呆歪头', '呆滞', '出神', '思考', '沉思', '想', '小脑袋', '脑袋',
-            'excited_dance', 'dance', '手舞足蹈', '开心手舞足蹈', '开心+手舞足蹈',
-            'surprised_blink', 'blink', '眨眼', '惊讶眨眼', '惊讶+眨眼',
-            'excited_wave', 'wave', '挥手', '兴奋挥手', '兴奋+挥手',
-            'surprised', '吃惊', '惊讶',
-            'sad', '难过', '悲伤',
-            // 通用动作（作为备选）
-            'action_wave', 'action_nod', 'action_shake_head', 'action_clap',
-            'action_point', 'action_bow', 'action_think', 'action_thumbs_up',
-            'action_heart', 'action_stretch', 'action_turn', 'action_dance',
-            'action_sit', 'action_stand', 'action_jump', 'action_shrug',
-        ];
+        // 可选的热键（用于 AI 控制动作）- 来自当前模型配置中以热键为目标的动作，是建议的，不是强制的
+        const optionalHotkeys = getActiveVTuberProfile().actions
+            .filter((a) => a.target.type === 'hotkey')
+            .map((a) => a.target.name);
 
         // 必需的参数（用于 AI 控制表情和状态）
         const essentialParameters = ['VoiceVolume']; // VoiceVolume 是必需的（用于音频同步）
@@ -1087,6 +1066,13 @@ export class VTubeStudioClient {
 
         // 表情控制已移除：因为用户模型的动画已经包含表情+动作的组合，不需要单独控制表情
 
+        // 参数控制 -> 注入参数值，持续时间结束后恢复
+        if (control.type === 'parameter' && control.parameter) {
+            const { name, value, duration } = control.parameter;
+            this.setParameter(name, value);
+            if (duration) setTimeout(() => this.setParameter(name, 0), duration);
+        }
+
         // 说话状态控制 -> 设置嘴型同步参数
         if (control.type === 'speaking' && control.speaking) {
             const isSpeaking = control.speaking.isSpeaking;
@@ -1181,6 +1167,13 @@ export class VTubeStudioClient {
         return this.isAuthenticated && this.ws !== null && this.ws.readyState === WebSocket.OPEN;
     }
 
+    /**
+     * 当前加载的模型名称（获取过热键列表后才有值）
+     */
+    getCurrentModelName(): string | null {
+        return this.currentModelName;
+    }
+
     /**
      * 自动创建缺失的参数（已禁用：VTube Studio API 不支持此功能）
      */
@@ -51,20 +51,36 @@ host: '' # 例如 edge.example.com:5283 或 10.0.0.5:5283
 # 语音服务配置（可选）
 # voice:
 #   asr:
-#     provider: 'openai' # 'openai', 'azure', 'baidu', 'custom'
+#     provider: 'openai' # 'openai', 'qwen', 'custom'
 #     apiKey: ''
 #     endpoint: 'https://api.openai.com/v1/audio/transcriptions'
 #     model: 'whisper-1'
+#     fallbacks: [] # 备用 provider，如 [{ provider: 'custom', endpoint: 'http://127.0.0.1:8080/inference' }]
 #   tts:
-#     provider: 'openai' # 'openai', 'azure', 'baidu', 'custom'
+#     provider: 'openai' # 'openai', 'qwen', 'custom'
 #     apiKey: ''
 #     endpoint: 'https://api.openai.com/v1/audio/speech'
 #     voice: 'alloy' # 'alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'
+#     fallbacks: []
 #   ai:
-#     provider: 'openai' # 'openai', 'azure', 'custom'
+#     provider: 'openai' # 'openai', 'ejunz', 'custom'
 #     apiKey: ''
 #     endpoint: 'https://api.openai.com/v1/chat/completions'
 #     model: 'gpt-3.5-turbo'
+#     fallbacks: []
+#   fallback: # 断网时使用本地 OpenAI 兼容服务
+#     enabled: false
+#     asr: { endpoint: 'http://127.0.0.1:8080/inference' }
+#     tts: { endpoint: 'http://127.0.0.1:5000/v1/audio/speech' }
+#     ai: { endpoint: 'http://127.0.0.1:8081/v1/chat/completions', healthUrl: 'http://127.0.0.1:8081/health' }
+#   vtuber:
+#     engine: 'osc'
+#     osc:
+#       enabled: true
+#       host: '127.0.0.1'
+#       port: 9000
+#       listenPort: 9001 # OSC 输入（含 /agent/chat）
+#       listenHost: '127.0.0.1' # 仅接受本机输入，改为 0.0.0.0 时局域网内任意主机都可向 Agent 发消息
 # Zigbee2MQTT（可选）
 # zigbee2mqtt:
 #   enabled: false
@@ -82,6 +98,54 @@ host: '' # 例如 edge.example.com:5283 或 10.0.0.5:5283
 # faceit:
 #   apiKey: '' # Faceit API Key，在 https://developers.faceit.com/ 申请
 #   playerId: '' # Faceit Player ID（可选，如果不填则从 Steam ID 自动获取）
+# CS2 GSI 数据源（可选，cfg 文件可通过 /api/projection/gsi/config?source=xxx 生成）
+# gsi:
+#   token: '' # 与 cfg 中 auth.token 一致，留空则不校验
+#   primary: 'default'
+#   sources:
+#     - name: 'default'
+#     - name: 'observer'
+#       token: ''
+#       observer: true
+# 投影事件动作（可选）：webhook 默认不能访问本机（127.0.0.0/8、::1、localhost）与链路本地地址（169.254.0.0/16、fe80::/10），
+# 需要访问时将主机名或 IP 加入白名单
+# eventActions:
+#   webhookAllowHosts: ['127.0.0.1', 'homeassistant.local']
+# 外部 MCP 服务器（可选，工具以 <name>__<tool> 命名并入 /mcp/api）
+# mcpServers:
+#   - name: 'fs'
+#     transport: 'stdio'
+#     command: 'npx'
+#     args: ['-y', '@modelcontextprotocol/server-filesystem', '/home/user/shared']
+#   - name: 'remote'
+#     transport: 'http'
+#     url: 'https://example.com/mcp'
+#     headers: { Authorization: 'Bearer xxx' }
+# Node 工具调用（经 /node/conn 长连接，可选）
+# nodeToolCall:
+#   timeout: 30000
+#   maxConcurrent: 16
+#   httpFallback: false # Node 不支持 WS 调用时是否回退到 HTTP 回连
+# MCP 日志与工具调用记录保留策略（可选）
+# mcpAudit:
+#   resultLimit: 4000 # 调用记录中参数/结果的最大字符数
+#   logRetentionDays: 7
+#   logMaxEntries: 10000
+#   callRetentionDays: 30
+#   callMaxEntries: 50000
+# 工具访问策略（可选，server / provider / node 通用）
+# mcpPolicy:
+#   defaultAction: allow # 未匹配任何规则时 allow | deny
+#   callers: # 调用方令牌，经 Authorization: Bearer、X-MCP-Token 或 ?token= 携带
+#     - name: 'assistant'
+#       token: 'xxx'
+#   rules: # 按顺序匹配，第一条生效；调用方 anonymous 表示未携带令牌，内部调用方有 voice、upstream、console
+#     - tool: 'zigbee_control_*'
+#       allow: ['assistant', 'voice']
+#       rateLimit: { count: 10, window: 60 } # 每个调用方 60 秒内最多 10 次
+#       timeWindows: ['07:00-23:30']
+#       confirm: true # 挂起等待在界面批准或语音回答“确认”
+#   confirmTimeout: 120000
 `;
         const nodeConfigDefault = `\
 # 控制节点（Node）配置，仅负责 Zigbee2MQTT 管理与设备控制桥接
@@ -89,6 +153,7 @@ port: 5284
 # 对外暴露的地址和端口（可选，如果服务器需要回连本节点）
 publicHost: '' # 例如 '192.168.1.20'，留空则自动使用主机名
 publicPort: 0 # 0 表示使用 port 配置
+server: '' # Agent Edge Server 地址（如 http://192.168.1.10:5283），经 /node/conn 上报工具并接收工具调用
 # 自定义节点 ID（可选，留空则使用主机名）
 nodeId: ''
 # Edge WebSocket 连接配置（必需）
@@ -102,6 +167,30 @@ zigbee2mqtt:
   baseTopic: 'zigbee2mqtt' # MQTT 主题前缀
   autoStart: true # node 启动时自动拉起 zigbee2mqtt 进程
   adapter: '/dev/ttyUSB0' # Zigbee 适配器设备路径
+# 本地自动化规则（在界面或通过 automation_* 工具管理），日出日落触发器需要经纬度
+automation:
+  enabled: true
+  # latitude: 31.23
+  # longitude: 121.47
+# 设备历史：记录设备上报的数值与枚举属性（同一设备每 minInterval 秒最多一条，枚举变化时立即记录）
+deviceHistory:
+  enabled: true
+  minInterval: 60 # 秒
+  rawRetentionHours: 48 # 原始采样保留时长，之后按小时汇总
+  retentionDays: 30 # 小时汇总保留天数
+  # exclude: ['last_seen', 'update_available', 'elapsed'] # 不记录的属性
+# Zigbee 网络健康诊断阈值
+zigbeeHealth:
+  offlineHours: 24 # 超过该时长未上报视为离线
+  lowBattery: 20 # 电量低于该百分比告警
+  weakLqi: 40 # 链路 LQI 低于该值告警
+# 工具访问策略（可选，格式与 server 配置相同）
+# mcpPolicy:
+#   defaultAction: allow
+#   callers: []
+#   rules:
+#     - tool: 'zigbee_control_device'
+#       confirm: true
 `;
         const clientConfigDefault = yaml.dump({
             server: '',
@@ -124,6 +213,35 @@ tools:
   get_server_status:
   enabled: true
   description: '获取服务器状态信息，包括 CPU、内存、系统信息等'
+  # 主机巡检工具（只读）：host_list_processes、host_disk_usage、host_network、
+  # host_service_status、host_tail_logs、host_metrics_history，可分别设置 enabled: false
+# hostTools:
+#   logPaths: ['/var/log'] # host_tail_logs 允许读取的目录
+#   sampleInterval: 10000 # CPU/内存采样间隔（毫秒）
+#   historySize: 360 # 保留的采样点数
+# 自定义工具（可选，也可在界面中添加）
+# customTools:
+#   - name: 'ping_host'
+#     description: '检测主机连通性'
+#     type: 'command'
+#     command: 'ping -c {{count}} {{host}}'
+#     timeout: 15000
+#     inputSchema:
+#       type: object
+#       properties:
+#         host: { type: string }
+#         count: { type: integer, default: 3, minimum: 1, maximum: 10 }
+#       required: ['host']
+#   - name: 'ha_state'
+#     type: 'http'
+#     http: { method: 'GET', url: 'http://127.0.0.1:8123/api/states/{{entity}}', headers: { Authorization: 'Bearer xxx' } }
+#     inputSchema: { type: object, properties: { entity: { type: string } }, required: ['entity'] }
+# pluginsDir: 'plugins' # 其中的 .js 模块导出 { name, description, inputSchema, handler(args, ctx) }
+# 工具访问策略（可选，格式与 server 配置相同）
+# mcpPolicy:
+#   defaultAction: allow
+#   callers: []
+#   rules: []
 `;
         // projection 目前沿用 server 配置结构，但使用独立文件 config.projection.yaml
         const configContent = isClient
@@ -140,6 +258,29 @@ tools:
     throw new Error('no-config');
 }
 
+// 工具访问策略：server / provider / node 共用
+const mcpPolicySchema = Schema.object({
+    defaultAction: Schema.string().default('allow').role('radio', ['allow', 'deny']), // 未匹配任何规则时
+    callers: Schema.array(Schema.object({
+        name: Schema.string().required(),
+        token: Schema.string().required(), // 经 Authorization: Bearer、X-MCP-Token 或 ?token= 携带
+    })).default([]),
+    rules: Schema.array(Schema.object({
+        tool: Schema.string().required(), // 工具名，支持 * 通配
+        allow: Schema.array(Schema.string()).default([]), // 调用方名称，留空表示不限制
+        deny: Schema.array(Schema.string()).default([]),
+        rateLimit: Schema.object({
+            count: Schema.number().default(0), // 0 表示不限制
+            window: Schema.number().default(60), // 窗口（秒）
+        }).default({ count: 0, window: 60 }),
+        timeWindows: Schema.array(Schema.string()).default([]), // 允许时段 HH:mm-HH:mm，可跨零点
+        confirm: Schema.boolean().default(false), // 需要人工确认
+    })).default([]),
+    confirmTimeout: Schema.number().default(120000), // 等待确认的超时（毫秒）
+}).default({
+    defaultAction: 'allow', callers: [], rules: [], confirmTimeout: 120000,
+});
+
 const serverSchema = Schema.object({
     // 为最简配置而精简，仅保留 host 与必要默认项
     host: Schema.string().default(''),
@@ -186,6 +327,13 @@ const serverSchema = Schema.object({
             enableServerVad: Schema.boolean().default(true), // true为VAD模式，false为Manual模式
             baseUrl: Schema.string().default('wss://dashscope.aliyuncs.com/api-ws/v1/realtime'), // Qwen WebSocket地址（官方格式）
             language: Schema.string().default('zh'), // 识别语言
+            // 备用 provider：主 provider 调用失败时按顺序尝试，未填写的字段沿用上面的配置
+            fallbacks: Schema.array(Schema.object({
+                provider: Schema.string().default(''),
+                apiKey: Schema.string(),
+                endpoint: Schema.string(),
+                model: Schema.string(),
+            })).default([]),
         }).default({
             provider: '',
             apiKey: '',
@@ -194,6 +342,7 @@ const serverSchema = Schema.object({
             enableServerVad: true,
             baseUrl: 'wss://dashscope.aliyuncs.com/api-ws/v1/realtime',
             language: 'zh',
+            fallbacks: [],
         }),
         // TTS (文字转语音) 配置
         tts: Schema.object({
@@ -204,6 +353,14 @@ const serverSchema = Schema.object({
             // Qwen TTS专用配置
             model: Schema.string().default('qwen3-tts-flash'), // Qwen模型
             languageType: Schema.string().default('Chinese'), // 语言类型
+            // 备用 provider：主 provider 调用失败时按顺序尝试，未填写的字段沿用上面的配置
+            fallbacks: Schema.array(Schema.object({
+                provider: Schema.string().default(''),
+                apiKey: Schema.string(),
+                endpoint: Schema.string(),
+                model: Schema.string(),
+                voice: Schema.string(),
+            })).default([]),
         }).default({
             provider: '',
             apiKey: '',
@@ -211,6 +368,7 @@ const serverSchema = Schema.object({
             voice: 'alloy',
             model: 'qwen3-tts-flash',
             languageType: 'Chinese',
+            fallbacks: [],
         }),
         // AI对话API配置
         ai: Schema.object({
@@ -222,6 +380,14 @@ const serverSchema = Schema.object({
             authHeader: Schema.string().default('Authorization'), // API Key的Header名称，如 'X-API-Key', 'Authorization'
             authPrefix: Schema.string().default('Bearer'), // API Key前缀，如 'Bearer', '' (空字符串表示不加前缀)
             requestFormat: Schema.string().default('openai'), // 'openai' (标准OpenAI格式) 或 'simple' (简单message格式)
+            // 备用 provider：主 provider 调用失败时按顺序尝试，未填写的字段沿用上面的配置
+            fallbacks: Schema.array(Schema.object({
+                provider: Schema.string().default(''),
+                apiKey: Schema.string(),
+                endpoint: Schema.string(),
+                model: Schema.string(),
+                requestFormat: Schema.string(),
+            })).default([]),
         }).default({
             provider: '',
             apiKey: '',
@@ -230,6 +396,36 @@ const serverSchema = Schema.object({
             authHeader: 'Authorization',
             authPrefix: 'Bearer',
             requestFormat: 'openai',
+            fallbacks: [],
+        }),
+        // 本地兜底：云端不可达时自动切换到本地 OpenAI 兼容服务（whisper.cpp / piper / llama.cpp 等）
+        fallback: Schema.object({
+            enabled: Schema.boolean().default(false),
+            healthCheckInterval: Schema.number().default(30000), // 端点可达性检查间隔（毫秒）
+            healthCheckTimeout: Schema.number().default(3000), // 单次检查超时（毫秒）
+            asr: Schema.object({
+                endpoint: Schema.string().default(''), // 如 http://127.0.0.1:8080/inference
+                model: Schema.string().default(''),
+                healthUrl: Schema.string().default(''), // 留空时探测 endpoint 所在主机
+            }).default({ endpoint: '', model: '', healthUrl: '' }),
+            tts: Schema.object({
+                endpoint: Schema.string().default(''), // 如 http://127.0.0.1:5000/v1/audio/speech
+                model: Schema.string().default(''),
+                voice: Schema.string().default(''),
+                healthUrl: Schema.string().default(''),
+            }).default({ endpoint: '', model: '', voice: '', healthUrl: '' }),
+            ai: Schema.object({
+                endpoint: Schema.string().default(''), // 如 http://127.0.0.1:8081/v1/chat/completions
+                model: Schema.string().default(''),
+                healthUrl: Schema.string().default(''), // llama.cpp server 可用 /health
+            }).default({ endpoint: '', model: '', healthUrl: '' }),
+        }).default({
+            enabled: false,
+            healthCheckInterval: 30000,
+            healthCheckTimeout: 3000,
+            asr: { endpoint: '', model: '', healthUrl: '' },
+            tts: { endpoint: '', model: '', voice: '', healthUrl: '' },
+            ai: { endpoint: '', model: '', healthUrl: '' },
         }),
         // 键盘控制配置
         keyboard: Schema.object({
@@ -272,23 +468,35 @@ const serverSchema = Schema.object({
                 enabled: Schema.boolean().default(false), // 是否启用 OSC 桥接（用于桌面应用）
                 host: Schema.string().default('127.0.0.1'), // OSC 目标主机
                 port: Schema.number().default(9000), // OSC 目标端口（VSeeFace 默认 9000）
+                listenPort: Schema.number().default(0), // OSC 输入监听端口（VRChat 默认发送到 9001），0 表示不监听
+                listenHost: Schema.string().default('127.0.0.1'), // OSC 输入监听地址，默认仅本机；改为 0.0.0.0 才接受其它主机的输入
             }).default({
                 enabled: false,
                 host: '127.0.0.1',
                 port: 9000,
+                listenPort: 0,
+                listenHost: '127.0.0.1',
             }),
         }).default({
             enabled: true,
             engine: 'vtubestudio',
             vtubestudio: { host: '127.0.0.1', port: 8001, apiName: 'Agent Edge VTuber Control', apiVersion: '1.0', authToken: '', audioSync: { enabled: false, parameterName: 'VoiceVolume', updateInterval: 100 } },
-            osc: { enabled: false, host: '127.0.0.1', port: 9000 },
+            osc: { enabled: false, host: '127.0.0.1', port: 9000, listenPort: 0, listenHost: '127.0.0.1' },
         }),
     }).default({
-        asr: { provider: '', apiKey: '', endpoint: '', model: 'whisper-1', enableServerVad: true, baseUrl: 'wss://dashscope.aliyuncs.com/api-ws/v1/realtime', language: 'zh' },
-        tts: { provider: '', apiKey: '', endpoint: '', voice: 'alloy', model: 'qwen3-tts-flash', languageType: 'Chinese' },
-        ai: { provider: '', apiKey: '', endpoint: '', model: 'gpt-3.5-turbo', authHeader: 'Authorization', authPrefix: 'Bearer', requestFormat: 'openai' },
+        asr: { provider: '', apiKey: '', endpoint: '', model: 'whisper-1', enableServerVad: true, baseUrl: 'wss://dashscope.aliyuncs.com/api-ws/v1/realtime', language: 'zh', fallbacks: [] },
+        tts: { provider: '', apiKey: '', endpoint: '', voice: 'alloy', model: 'qwen3-tts-flash', languageType: 'Chinese', fallbacks: [] },
+        ai: { provider: '', apiKey: '', endpoint: '', model: 'gpt-3.5-turbo', authHeader: 'Authorization', authPrefix: 'Bearer', requestFormat: 'openai', fallbacks: [] },
+        fallback: {
+            enabled: false,
+            healthCheckInterval: 30000,
+            healthCheckTimeout: 3000,
+            asr: { endpoint: '', model: '', healthUrl: '' },
+            tts: { endpoint: '', model: '', voice: '', healthUrl: '' },
+            ai: { endpoint: '', model: '', healthUrl: '' },
+        },
         keyboard: { listenKey: 'Backquote', modifiers: [] },
-        vtuber: { enabled: true, engine: 'vtubestudio', vtubestudio: { host: '127.0.0.1', port: 8001, apiName: 'Agent Edge VTuber Control', apiVersion: '1.0', authToken: '', audioSync: { enabled: false, useForPlayback: false, parameterName: 'VoiceVolume', updateInterval: 100 } }, osc: { enabled: false, host: '127.0.0.1', port: 9000 } },
+        vtuber: { enabled: true, engine: 'vtubestudio', vtubestudio: { host: '127.0.0.1', port: 8001, apiName: 'Agent Edge VTuber Control', apiVersion: '1.0', authToken: '', audioSync: { enabled: false, useForPlayback: false, parameterName: 'VoiceVolume', updateInterval: 100 } }, osc: { enabled: false, host: '127.0.0.1', port: 9000, listenPort: 0, listenHost: '127.0.0.1' } },
     }),
     // Zigbee2MQTT 配置
     zigbee2mqtt: Schema.object({
@@ -316,6 +524,57 @@ const serverSchema = Schema.object({
         apiKey: '',
         playerId: '',
     }),
+    // CS2 GSI 数据源配置（projection 模式）
+    gsi: Schema.object({
+        token: Schema.string().default(''), // 全局 auth.token，留空则不校验
+        primary: Schema.string().default('default'), // 主数据源：驱动事件、回合信息与对局录制
+        sources: Schema.array(Schema.object({
+            name: Schema.string().required(),
+            token: Schema.string().default(''), // 留空则使用全局 token
+            description: Schema.string().default(''),
+            observer: Schema.boolean().default(false), // 观察者客户端，cfg 中订阅 allplayers 等全场数据
+        })).default([]),
+    }).default({
+        token: '',
+        primary: 'default',
+        sources: [],
+    }),
+    // 投影事件动作：webhook 默认拒绝本机与链路本地地址，webhookAllowHosts 中的主机（精确匹配）不受限制
+    eventActions: Schema.object({
+        webhookAllowHosts: Schema.array(Schema.string()).default([]),
+    }).default({
+        webhookAllowHosts: [],
+    }),
+    // 外部 MCP 服务器（网关）：工具以 `<name>__<tool>` 命名并入本机 MCP 工具列表
+    mcpServers: Schema.array(Schema.object({
+        name: Schema.string().required(), // 仅字母、数字、下划线和短横线
+        enabled: Schema.boolean().default(true),
+        transport: Schema.string().default('stdio').role('radio', ['stdio', 'http']),
+        command: Schema.string().default(''), // stdio：启动命令，如 npx
+        args: Schema.array(Schema.string()).default([]),
+        env: Schema.dict(Schema.string()).default({}),
+        cwd: Schema.string().default(''),
+        url: Schema.string().default(''), // http：Streamable HTTP 端点
+        headers: Schema.dict(Schema.string()).default({}), // 如 Authorization
+        timeout: Schema.number().default(30000), // 单次请求超时（毫秒）
+    })).default([]),
+    // Node 工具调用：经 /node/conn 长连接下发，Node 在 NAT 后也可调用
+    nodeToolCall: Schema.object({
+        timeout: Schema.number().default(30000), // 单次调用超时（毫秒），超时后通知 Node 取消
+        maxConcurrent: Schema.number().default(16), // 每个 Node 同时进行中的调用上限
+        httpFallback: Schema.boolean().default(false), // Node 不支持 WS 调用时回退到 http://nodeHost:nodePort
+    }).default({ timeout: 30000, maxConcurrent: 16, httpFallback: false }),
+    // MCP 日志（mcplog）与工具调用记录（mcpcall）的保留策略，每小时清理一次
+    mcpAudit: Schema.object({
+        resultLimit: Schema.number().default(4000), // 调用记录中参数/结果的最大字符数，超出截断
+        logRetentionDays: Schema.number().default(7),
+        logMaxEntries: Schema.number().default(10000),
+        callRetentionDays: Schema.number().default(30),
+        callMaxEntries: Schema.number().default(50000),
+    }).default({
+        resultLimit: 4000, logRetentionDays: 7, logMaxEntries: 10000, callRetentionDays: 30, callMaxEntries: 50000,
+    }),
+    mcpPolicy: mcpPolicySchema,
     // 插件配置
     plugins: Schema.object({
         voice: Schema.object({
@@ -405,24 +664,30 @@ const clientSchema = Schema.object({
                 enabled: Schema.boolean().default(false),
                 host: Schema.string().default('127.0.0.1'),
                 port: Schema.number().default(9000),
+                listenPort: Schema.number().default(0),
+                listenHost: Schema.string().default('127.0.0.1'),
             }).default({
                 enabled: false,
                 host: '127.0.0.1',
                 port: 9000,
+                listenPort: 0,
+                listenHost: '127.0.0.1',
             }),
         }).default({
             enabled: false, // client 模式默认禁用
             engine: 'vtubestudio',
             vtubestudio: { host: '127.0.0.1', port: 8001, apiName: 'Agent Edge VTuber Control', apiVersion: '1.0', authToken: '', audioSync: { enabled: false, parameterName: 'VoiceVolume', updateInterval: 100 } },
-            osc: { enabled: false, host: '127.0.0.1', port: 9000 },
+            osc: { enabled: false, host: '127.0.0.1', port: 9000, listenPort: 0, listenHost: '127.0.0.1' },
         }),
     }).default({
-        vtuber: { enabled: false, engine: 'vtubestudio', vtubestudio: { host: '127.0.0.1', port: 8001, apiName: 'Agent Edge VTuber Control', apiVersion: '1.0', authToken: '', audioSync: { enabled: false, parameterName: 'VoiceVolume', updateInterval: 100 } }, osc: { enabled: false, host: '127.0.0.1', port: 9000 } },
+        vtuber: { enabled: false, engine: 'vtubestudio', vtubestudio: { host: '127.0.0.1', port: 8001, apiName: 'Agent Edge VTuber Control', apiVersion: '1.0', authToken: '', audioSync: { enabled: false, parameterName: 'VoiceVolume', updateInterval: 100 } }, osc: { enabled: false, host: '127.0.0.1', port: 9000, listenPort: 0, listenHost: '127.0.0.1' } },
     }),
 });
 
 const nodeSchema = Schema.object({
     nodeId: Schema.string().default(''),
+    // Agent Edge Server 地址（如 http://192.168.1.10:5283），配置后经 /node/conn 上报工具并接收工具调用
+    server: Schema.string().default(''),
     port: Schema.number().default(5284),
     publicHost: Schema.string().default(''),
     publicPort: Schema.number().default(0),
@@ -486,6 +751,29 @@ const nodeSchema = Schema.object({
         localEndpoint: '/mcp/ws',
         enabled: true,
     }),
+    // 本地自动化：日出日落触发器需要配置经纬度
+    automation: Schema.object({
+        enabled: Schema.boolean().default(true),
+        latitude: Schema.number().default(null), // 未配置时日出日落触发器不生效
+        longitude: Schema.number().default(null),
+    }).default({ enabled: true, latitude: null, longitude: null }),
+    // 设备历史：原始采样超过 rawRetentionHours 后按小时汇总，汇总保留 retentionDays 天
+    deviceHistory: Schema.object({
+        enabled: Schema.boolean().default(true),
+        minInterval: Schema.number().default(60),
+        rawRetentionHours: Schema.number().default(48),
+        retentionDays: Schema.number().default(30),
+        exclude: Schema.array(Schema.string()).default(['last_seen', 'update_available', 'elapsed']),
+    }).default({
+        enabled: true, minInterval: 60, rawRetentionHours: 48, retentionDays: 30, exclude: ['last_seen', 'update_available', 'elapsed'],
+    }),
+    // Zigbee 网络健康诊断阈值
+    zigbeeHealth: Schema.object({
+        offlineHours: Schema.number().default(24),
+        lowBattery: Schema.number().default(20),
+        weakLqi: Schema.number().default(40),
+    }).default({ offlineHours: 24, lowBattery: 20, weakLqi: 40 }),
+    mcpPolicy: mcpPolicySchema,
 }).description('Node Config');
 
 const providerSchema = Schema.object({
@@ -514,11 +802,54 @@ const providerSchema = Schema.object({
             enabled: true,
             description: '获取服务器状态信息，包括 CPU、内存、系统信息等',
         }),
+        // 主机巡检工具（只读）
+        host_list_processes: Schema.object({ enabled: Schema.boolean().default(true) }).default({ enabled: true }),
+        host_disk_usage: Schema.object({ enabled: Schema.boolean().default(true) }).default({ enabled: true }),
+        host_network: Schema.object({ enabled: Schema.boolean().default(true) }).default({ enabled: true }),
+        host_service_status: Schema.object({ enabled: Schema.boolean().default(true) }).default({ enabled: true }),
+        host_tail_logs: Schema.object({ enabled: Schema.boolean().default(true) }).default({ enabled: true }),
+        host_metrics_history: Schema.object({ enabled: Schema.boolean().default(true) }).default({ enabled: true }),
     }).default({
         get_current_time: { enabled: true, description: '获取当前时间和日期信息' },
         get_server_status: { enabled: true, description: '获取服务器状态信息，包括 CPU、内存、系统信息等' },
+        host_list_processes: { enabled: true },
+        host_disk_usage: { enabled: true },
+        host_network: { enabled: true },
+        host_service_status: { enabled: true },
+        host_tail_logs: { enabled: true },
+        host_metrics_history: { enabled: true },
     }),
+    // 主机巡检工具：host_tail_logs 只能读取 logPaths 下的文件；host_metrics_history 使用后台采样
+    hostTools: Schema.object({
+        logPaths: Schema.array(Schema.string()).default(['/var/log']),
+        sampleInterval: Schema.number().default(10000), // 采样间隔（毫秒）
+        historySize: Schema.number().default(360), // 保留的采样点数
+    }).default({ logPaths: ['/var/log'], sampleInterval: 10000, historySize: 360 }),
+    // 自定义工具：命令（参数按模板替换，不经过 shell）或 HTTP 请求模板，经 /api/tools 修改后立即生效
+    customTools: Schema.array(Schema.object({
+        name: Schema.string().required(),
+        description: Schema.string().default(''),
+        enabled: Schema.boolean().default(true),
+        type: Schema.string().default('command').role('radio', ['command', 'http']),
+        inputSchema: Schema.any().default({ type: 'object', properties: {}, required: [] }),
+        command: Schema.string().default(''), // 如 'ping -c {{count}} {{host}}'
+        timeout: Schema.number().default(10000), // 毫秒
+        http: Schema.object({
+            method: Schema.string().default('GET'),
+            url: Schema.string().default(''), // 如 'http://127.0.0.1:8123/api/states/{{entity}}'，参数自动编码
+            headers: Schema.dict(Schema.string()).default({}),
+            body: Schema.any(), // 字符串或对象模板，值为 '{{name}}' 时保留参数原始类型
+        }).default({
+            method: 'GET', url: '', headers: {}, body: undefined,
+        }),
+    })).default([]),
+    // 插件目录：其中的 .js 模块导出 { name, description, inputSchema, handler(args, ctx) }，文件变化时自动重新加载
+    pluginsDir: Schema.string().default('plugins'),
+    pluginTools: Schema.dict(Schema.object({
+        enabled: Schema.boolean().default(true),
+    })).default({}),
     viewPass: Schema.string().default(randomstring(8)),
+    mcpPolicy: mcpPolicySchema,
 }).description('Provider Config');
 
 export const config = (isClient ? clientSchema : isNode ? nodeSchema : isProvider ? providerSchema : serverSchema)(yaml.load(fs.readFileSync(configPath, 'utf8')) as any);
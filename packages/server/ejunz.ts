@@ -1,7 +1,7 @@
 import { Context } from 'cordis';
 import { Logger } from '@ejunz/utils';
 import { config } from './config';
-import { createMCPDispatchers } from './model/mcp';
+import { getServerMCPServer } from './model/mcp';
 
 const logger = new Logger('edge');
 const mcpLogger = new Logger('ejunz');
@@ -93,7 +93,11 @@ function startConnecting(ctx?: Context) {
             } catch { /* ignore */ }
         });
 
-        const sdkDispatchers = createMCPDispatchers();
+        // 每个上游连接对应一个 MCP 会话，服务端通知（如 tools/list_changed）经此连接推送
+        const mcp = getServerMCPServer().openSession((message) => {
+            try { ws.send(JSON.stringify(message)); } catch { /* ignore */ }
+        }, { name: 'upstream' });
+        mcp.session.initialized = true;
         ws.on('message', async (data: any) => {
             const text = typeof data === 'string' ? data : data.toString('utf8');
             if (text === 'ping') {
@@ -101,76 +105,47 @@ function startConnecting(ctx?: Context) {
                 return;
             }
             // 尝试按 JSON-RPC 处理（若非 JSON，再做原始调试日志）
+            let parsed: any;
             try {
-                const parseMaybeNested = (raw: string): any => {
-                    let parsed: any = JSON.parse(raw);
-                    if (typeof parsed === 'string' && /^(\{|\[)/.test(parsed)) {
-                        parsed = JSON.parse(parsed);
-                    }
-                    return parsed;
-                };
-                const handleOne = async (req: any) => {
-                    const id = req?.id ?? null;
-                    const method = req?.method;
-                    const reply = (payload: any) => {
-                        const out = { jsonrpc: '2.0', id, ...payload };
-                        try {
-                            ws.send(JSON.stringify(out));
-                            try { logger.info('发送响应: id=%s ts=%s bytes=%s', id, Date.now(), Buffer.byteLength(JSON.stringify(out))); } catch {}
-                        } catch { /* ignore */ }
-                    };
-                    if (!method) return;
-                    const toolName = req?.params?.name;
-                    if (method === 'tools/call' && toolName) {
-                        try { mcpLogger.info('MCP 调用: %s id=%s args=%o', highlight(toolName), id, req?.params?.arguments || {}); } catch {}
-                    } else {
-                        try { mcpLogger.info('MCP 请求: %s id=%s', highlight(method), id); } catch {}
-                    }
-                    if (method === 'initialize') {
-                        reply({
-                            result: {
-                                protocolVersion: '2024-11-05',
-                                capabilities: { tools: {}, resources: {} },
-                                serverInfo: { name: 'agent-edge-bridge', version: '1.0.0' },
-                            },
-                        });
-                        try { mcpLogger.info('MCP 回复: %s id=%s (initialize)', highlight(method), id); } catch {}
-                        return;
-                    }
-                    if (sdkDispatchers[method]) {
-                        try {
-                            const result = await sdkDispatchers[method](ctx as any, req);
-                            reply({ result });
-                            if (method === 'tools/call' && toolName) {
-                                try { mcpLogger.info('MCP 返回: %s id=%s result=%o', highlight(toolName), id, result); } catch {}
-                            } else {
-                                try { mcpLogger.info('MCP 回复: %s id=%s (ok) result=%o', method, id, result); } catch {}
-                            }
-                        } catch (e) {
-                            reply({ error: { code: -32603, message: (e as Error).message } });
-                            try { mcpLogger.warn('MCP 错误: %s id=%s %s', method, id, (e as Error).message); } catch {}
-                        }
-                        return;
-                    }
-                    reply({ error: { code: -32601, message: 'Method not found' } });
-                    try { mcpLogger.warn('MCP 未知方法: %s id=%s', method, id); } catch {}
-                };
-
-                const parsed = parseMaybeNested(text);
-                if (Array.isArray(parsed)) {
-                    await Promise.all(parsed.map((r) => handleOne(r))); // 简易批处理
-                } else {
-                    await handleOne(parsed);
+                parsed = JSON.parse(text);
+                if (typeof parsed === 'string' && /^(\{|\[)/.test(parsed)) {
+                    parsed = JSON.parse(parsed);
                 }
-            } catch { 
+            } catch {
                 // 非 JSON 消息，才打印原始调试
                 logger.debug?.('上游消息：%s', text.slice(0, 2000));
+                return;
+            }
+            for (const req of Array.isArray(parsed) ? parsed : [parsed]) {
+                const method = req?.method;
+                if (!method) continue;
+                const toolName = req?.params?.name;
+                if (method === 'tools/call' && toolName) {
+                    try { mcpLogger.info('MCP 调用: %s id=%s args=%o', highlight(toolName), req?.id, req?.params?.arguments || {}); } catch {}
+                } else {
+                    try { mcpLogger.info('MCP 请求: %s id=%s', highlight(method), req?.id); } catch {}
+                }
+            }
+            const { body } = await getServerMCPServer().handle(ctx as any, parsed, mcp.session);
+            if (body === null) return;
+            const out = JSON.stringify(body);
+            try {
+                ws.send(out);
+                try { logger.info('发送响应: ts=%s bytes=%s', Date.now(), Buffer.byteLength(out)); } catch {}
+            } catch { /* ignore */ }
+            for (const res of Array.isArray(body) ? body : [body]) {
+                if (res?.error) {
+                    try { mcpLogger.warn('MCP 错误: id=%s %s', res.id, res.error.message); } catch {}
+                } else {
+                    try { mcpLogger.info('MCP 回复: id=%s (ok)', res?.id); } catch {}
+                }
             }
         });
 
         ws.on('close', (code: number, reason: Buffer) => {
             logger.warn('上游连接关闭（code=%s, reason=%s）', code, reason?.toString?.() || '');
             connecting = false;
+            mcp.close();
             scheduleReconnect();
         });
 
@@ -327,13 +327,20 @@ export class AsrProxyConnectionHandler extends ConnectionHandler<Context> {
             
             // 检查是否使用realtime TTS和WebSocket AI
             const voiceConfig = (config as any).voice || {};
-            const ttsConfig = voiceConfig.tts || {};
-            const model = ttsConfig.model || 'qwen3-tts-flash';
+            const realtimeTts = voiceService.supportsRealtimeTts();
             const aiConfig = voiceConfig.ai || {};
             const endpoint = aiConfig.endpoint || '';
             const isWebSocket = endpoint.startsWith('ws://') || endpoint.startsWith('wss://');
+            // 记录本轮实际使用的 provider，随结果返回给前端（ASR 即本代理连接的实时 ASR）
+            const providers: Record<string, string> = {};
+            if (voiceConfig.asr?.provider) providers.asr = voiceConfig.asr.provider;
+            const voiceOptions = {
+                onProvider: (kind: string, provider: string) => {
+                    providers[kind] = provider;
+                },
+            };
             
-            if (model.includes('realtime') && isWebSocket) {
+            if (realtimeTts && isWebSocket) {
                 // 使用流式AI+TTS：收到内容立即播放
                 logger.info('[ASR代理] 使用流式AI+TTS模式');
                 
@@ -372,7 +379,9 @@ export class AsrProxyConnectionHandler extends ConnectionHandler<Context> {
                                 fullText: fullAiResponse,
                             });
                         },
-                        false // 不使用缓存模式，直接流式发送
+                        false, // 不使用缓存模式，直接流式发送
+                        undefined,
+                        voiceOptions,
                     );
                     
                     // 处理返回结果
@@ -396,6 +405,7 @@ export class AsrProxyConnectionHandler extends ConnectionHandler<Context> {
                             text: text,
                             aiResponse: fullAiResponse,
                             streaming: false,
+                            providers,
                         },
                     });
                     
@@ -414,14 +424,15 @@ export class AsrProxyConnectionHandler extends ConnectionHandler<Context> {
                     this.isProcessingAiRequest = false; // 请求失败，重置标志
                     logger.error('[ASR代理] 流式AI+TTS失败，回退到非流式模式: %s', e.message);
                     // 回退到非流式模式
-                    const aiResponse = await voiceService.chat(text, conversationHistory);
-                    const audioBuffer = await voiceService.tts(aiResponse);
+                    const aiResponse = await voiceService.chat(text, conversationHistory, voiceOptions);
+                    const audioBuffer = await voiceService.tts(aiResponse, undefined, voiceOptions);
                     clientConn.send({
                         key: 'voice_chat',
                         result: {
                             text: text,
                             audio: audioBuffer.toString('base64'),
                             aiResponse: aiResponse,
+                            providers,
                         },
                     });
                     
@@ -437,7 +448,7 @@ export class AsrProxyConnectionHandler extends ConnectionHandler<Context> {
                 }
             } else {
                 // 非流式模式：等待完整回复后播放
-                const aiResponse = await voiceService.chat(text, conversationHistory);
+                const aiResponse = await voiceService.chat(text, conversationHistory, voiceOptions);
                 
                 this.isProcessingAiRequest = false; // 请求完成，重置标志
                 
@@ -451,34 +462,44 @@ export class AsrProxyConnectionHandler extends ConnectionHandler<Context> {
                     (clientConn as any).conversationHistory = (clientConn as any).conversationHistory.slice(-20);
                 }
                 
-                if (model.includes('realtime')) {
+                if (realtimeTts) {
                     // 使用流式TTS
                     logger.info('[ASR代理] 使用流式TTS模式');
                     
-                    // 先发送文本和AI回复
-                    clientConn.send({
-                        key: 'voice_chat',
-                        result: {
-                            text: text,
-                            aiResponse: aiResponse,
-                            audio: null,
-                            streaming: true,
-                        },
-                    });
+                    // 收到第一个音频分片时再发送文本和AI回复，此时已记录实际合成语音的 TTS provider
+                    let replySent = false;
+                    const sendReply = () => {
+                        if (replySent) return;
+                        replySent = true;
+                        clientConn.send({
+                            key: 'voice_chat',
+                            result: {
+                                text: text,
+                                aiResponse: aiResponse,
+                                audio: null,
+                                streaming: true,
+                                providers,
+                            },
+                        });
+                    };
                     
-                    // 然后流式发送音频
+                    // 流式发送音频
                     try {
-                        await (voiceService as any).streamTtsRealtime(
+                        await voiceService.streamTtsRealtime(
                             aiResponse,
-                            { ...ttsConfig, voice: ttsConfig.voice || 'Cherry' },
                             (audioChunk: Buffer) => {
+                                sendReply();
                                 clientConn.send({
                                     key: 'voice_chat_audio',
                                     chunk: audioChunk.toString('base64'),
                                 });
-                            }
+                            },
+                            undefined,
+                            voiceOptions,
                         );
                         
+                        // 没有产生音频时也要发送回复
+                        sendReply();
                         // 发送流式传输完成信号
                         clientConn.send({
                             key: 'voice_chat_audio',
@@ -486,25 +507,27 @@ export class AsrProxyConnectionHandler extends ConnectionHandler<Context> {
                         });
                     } catch (e: any) {
                         logger.error('[ASR代理] 流式TTS失败，回退到非流式模式: %s', e.message);
-                        const audioBuffer = await voiceService.tts(aiResponse);
+                        const audioBuffer = await voiceService.tts(aiResponse, undefined, voiceOptions);
                         clientConn.send({
                             key: 'voice_chat',
                             result: {
                                 text: text,
                                 audio: audioBuffer.toString('base64'),
                                 aiResponse: aiResponse,
+                                providers,
                             },
                         });
                     }
                 } else {
                     // 非流式TTS
-                    const audioBuffer = await voiceService.tts(aiResponse);
+                    const audioBuffer = await voiceService.tts(aiResponse, undefined, voiceOptions);
                     clientConn.send({
                         key: 'voice_chat',
                         result: {
                             text: text,
                             audio: audioBuffer.toString('base64'),
                             aiResponse: aiResponse,
+                            providers,
                         },
                     });
                 }
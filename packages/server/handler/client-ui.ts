@@ -5,6 +5,10 @@ import path from 'node:path';
 import { fs, randomstring, Logger } from '../utils';
 import { config, saveConfig } from '../config';
 import { getGlobalWsConnection } from '../client/client';
+import {
+    deleteVTuberProfile, getVTuberProfile, listVTuberProfiles, saveVTuberProfile, setActiveVTuberProfile,
+} from '../client/vtuber-profile';
+import { getVTubeStudioClient } from '../client/vtuber-vtubestudio';
 
 const logger = new Logger('client-ui');
 
@@ -225,6 +229,112 @@ class ClientConfigReloadHandler extends Handler<Context> {
     }
 }
 
+// VTuber 动作配置列表 / 保存
+class VTuberProfileListHandler extends Handler<Context> {
+    noCheckPermView = true;
+    allowCors = true;
+    
+    async get() {
+        const { active, profiles } = listVTuberProfiles();
+        this.response.type = 'application/json';
+        this.response.body = {
+            active,
+            profiles,
+            model: getVTubeStudioClient()?.getCurrentModelName() || null,
+        };
+    }
+    
+    async post() {
+        this.response.type = 'application/json';
+        try {
+            const profile = saveVTuberProfile(this.request.body);
+            this.response.body = { success: true, profile };
+        } catch (e) {
+            this.response.status = 400;
+            this.response.body = { error: (e as Error).message };
+        }
+    }
+}
+
+// 单个 VTuber 动作配置
+class VTuberProfileHandler extends Handler<Context> {
+    noCheckPermView = true;
+    allowCors = true;
+    
+    async get() {
+        const profile = getVTuberProfile(this.request.params.id);
+        this.response.type = 'application/json';
+        if (!profile) {
+            this.response.status = 404;
+            this.response.body = { error: '配置不存在' };
+            return;
+        }
+        this.response.body = { profile };
+    }
+    
+    async delete() {
+        this.response.type = 'application/json';
+        try {
+            if (!deleteVTuberProfile(this.request.params.id)) {
+                this.response.status = 404;
+                this.response.body = { error: '配置不存在' };
+                return;
+            }
+            this.response.body = { success: true, active: listVTuberProfiles().active };
+        } catch (e) {
+            this.response.status = 400;
+            this.response.body = { error: (e as Error).message };
+        }
+    }
+}
+
+// 切换当前 VTuber 动作配置
+class VTuberActiveProfileHandler extends Handler<Context> {
+    noCheckPermView = true;
+    allowCors = true;
+    
+    async post() {
+        this.response.type = 'application/json';
+        try {
+            const profile = setActiveVTuberProfile(this.request.body?.id);
+            this.response.body = { success: true, active: profile.id };
+        } catch (e) {
+            this.response.status = 400;
+            this.response.body = { error: (e as Error).message };
+        }
+    }
+}
+
+// 当前模型的热键与参数（供配置编辑器选择目标）
+class VTuberModelTargetsHandler extends Handler<Context> {
+    noCheckPermView = true;
+    allowCors = true;
+    
+    async get() {
+        const vtsClient = getVTubeStudioClient();
+        this.response.type = 'application/json';
+        if (!vtsClient || !vtsClient.isConnected()) {
+            this.response.body = { connected: false, model: null, hotkeys: [], parameters: [] };
+            return;
+        }
+        try {
+            const [hotkeys, parameters] = await Promise.all([
+                vtsClient.getHotkeys(),
+                vtsClient.getInputParameters(),
+            ]);
+            this.response.body = {
+                connected: true,
+                model: vtsClient.getCurrentModelName(),
+                hotkeys: hotkeys.map((h) => ({ id: h.id, name: h.name })),
+                parameters: parameters.map((p) => p.name),
+            };
+        } catch (e) {
+            this.response.status = 500;
+            this.response.body = { error: (e as Error).message };
+        }
+    }
+}
+
 // 前端 WebSocket 连接处理器（复用后端到上游的连接）
 class ClientUIWebSocketHandler extends ConnectionHandler<Context> {
     noCheckPermView = true;
@@ -424,6 +534,10 @@ export async function apply(ctx: Context) {
         ctx.Route('client-ui-static', '/client-ui/main.js', ClientUIStaticHandler);
         ctx.Route('client-config', '/api/client-config', ClientConfigHandler);
         ctx.Route('client-config-reload', '/api/client-config/reload', ClientConfigReloadHandler);
+        ctx.Route('vtuber-profile-list', '/api/vtuber/profiles', VTuberProfileListHandler);
+        ctx.Route('vtuber-profile', '/api/vtuber/profiles/:id', VTuberProfileHandler);
+        ctx.Route('vtuber-profile-active', '/api/vtuber/active-profile', VTuberActiveProfileHandler);
+        ctx.Route('vtuber-model-targets', '/api/vtuber/model-targets', VTuberModelTargetsHandler);
         ctx.Connection('client-ui-ws', '/client-ws', ClientUIWebSocketHandler);
     }
 }
@@ -208,6 +208,13 @@ export class ClientConnectionHandler extends ConnectionHandler<Context> {
                     const aiConfig = voiceConfig.ai || {};
                     const endpoint = aiConfig.endpoint || '';
                     const isWebSocket = endpoint.startsWith('ws://') || endpoint.startsWith('wss://');
+                    // 记录本轮实际使用的 provider（可能切换到备用或本地服务），随结果返回给前端
+                    const providers: Record<string, string> = {};
+                    const voiceOptions = {
+                        onProvider: (kind: string, provider: string) => {
+                            providers[kind] = provider;
+                        },
+                    };
                     
                     if (model.includes('realtime') && isWebSocket) {
                         // 使用流式AI+流式TTS：收到内容立即播放
@@ -249,7 +256,9 @@ export class ClientConnectionHandler extends ConnectionHandler<Context> {
                                             fullText: fullAiResponse,
                                         });
                                     },
-                                    false // 不使用缓存模式，直接流式发送
+                                    false, // 不使用缓存模式，直接流式发送
+                                    undefined,
+                                    voiceOptions,
                                 );
                                 
                                 // 处理返回结果
@@ -273,6 +282,7 @@ export class ClientConnectionHandler extends ConnectionHandler<Context> {
                                     text: text,
                                     aiResponse: fullAiResponse,
                                     streaming: false,
+                                    providers,
                                 },
                             });
                             
@@ -288,26 +298,28 @@ export class ClientConnectionHandler extends ConnectionHandler<Context> {
                         } catch (e: any) {
                             logger.error('流式AI+TTS失败，回退到非流式模式: %s', e.message);
                             // 回退到非流式模式
-                            const aiResponse = await voiceService.chat(text, conversationHistory);
-                            const audioBuffer = await voiceService.tts(aiResponse);
+                            const aiResponse = await voiceService.chat(text, conversationHistory, voiceOptions);
+                            const audioBuffer = await voiceService.tts(aiResponse, undefined, voiceOptions);
                             this.send({
                                 key: 'voice_chat',
                                 result: {
                                     text: text,
                                     audio: audioBuffer.toString('base64'),
                                     aiResponse: aiResponse,
+                                    providers,
                                 },
                             });
                         }
                     } else {
                         // 非流式模式：等待完整回复后播放
-                        const aiResponse = await voiceService.chat(text, conversationHistory);
-                        const audioBuffer = await voiceService.tts(aiResponse);
+                        const aiResponse = await voiceService.chat(text, conversationHistory, voiceOptions);
+                        const audioBuffer = await voiceService.tts(aiResponse, undefined, voiceOptions);
                         
                         result = {
                             text: text,
                             audio: audioBuffer.toString('base64'),
                             aiResponse: aiResponse,
+                            providers,
                         };
                         
                         // 返回结果
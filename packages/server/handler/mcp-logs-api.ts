@@ -0,0 +1,232 @@
+import { PassThrough } from 'stream';
+import { ConnectionHandler, Handler } from '@ejunz/framework';
+import { Context } from 'cordis';
+import { startMCPAuditRetention } from '../model/mcp-audit';
+import { Logger } from '../utils';
+
+const logger = new Logger('handler/mcp-logs');
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+const SSE_KEEPALIVE_INTERVAL = 25 * 1000;
+
+interface LogFilter {
+    levels: string[];
+    tools: string[];
+    // 仅用于调用记录
+    statuses?: string[];
+    servers?: string[];
+    from?: number;
+    to?: number;
+}
+
+// level、tool 支持逗号分隔的多个值
+function parseList(value: any): string[] {
+    if (!value) return [];
+    return String(value).split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+// 时间参数支持毫秒时间戳或 ISO 字符串
+function parseTime(value: any): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const num = Number(value);
+    if (Number.isFinite(num)) return num;
+    const parsed = Date.parse(String(value));
+    if (Number.isNaN(parsed)) throw new Error(`时间格式无效: ${value}`);
+    return parsed;
+}
+
+function parseFilter(query: Record<string, any>): LogFilter {
+    return {
+        levels: parseList(query.level),
+        tools: parseList(query.tool),
+        statuses: parseList(query.status),
+        servers: parseList(query.server),
+        from: parseTime(query.from),
+        to: parseTime(query.to),
+    };
+}
+
+function matchLog(filter: LogFilter, log: any) {
+    if (filter.levels.length && !filter.levels.includes(log.level)) return false;
+    if (filter.tools.length && !filter.tools.includes(log.tool)) return false;
+    if (filter.from !== undefined && log.timestamp < filter.from) return false;
+    if (filter.to !== undefined && log.timestamp > filter.to) return false;
+    return true;
+}
+
+// 游标为上一页最后一条的 timestamp 与 _id，按 (timestamp, _id) 倒序翻页
+function encodeCursor(log: { timestamp: number; _id: string }) {
+    return Buffer.from(`${log.timestamp}:${log._id}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string) {
+    const raw = Buffer.from(cursor, 'base64url').toString();
+    const index = raw.indexOf(':');
+    const timestamp = Number(raw.slice(0, index));
+    const id = raw.slice(index + 1);
+    if (index <= 0 || !Number.isFinite(timestamp) || !id) throw new Error('cursor 无效');
+    return { timestamp, id };
+}
+
+function buildQuery(filter: LogFilter, cursor?: string) {
+    const conditions: any[] = [];
+    if (filter.levels.length) conditions.push({ level: { $in: filter.levels } });
+    if (filter.tools.length) conditions.push({ tool: { $in: filter.tools } });
+    if (filter.statuses?.length) conditions.push({ status: { $in: filter.statuses } });
+    if (filter.servers?.length) conditions.push({ server: { $in: filter.servers } });
+    if (filter.from !== undefined) conditions.push({ timestamp: { $gte: filter.from } });
+    if (filter.to !== undefined) conditions.push({ timestamp: { $lte: filter.to } });
+    const query = conditions.length ? { $and: conditions } : {};
+    if (!cursor) return { query, countQuery: query };
+
+    const { timestamp, id } = decodeCursor(cursor);
+    const page = {
+        $or: [
+            { timestamp: { $lt: timestamp } },
+            { timestamp, _id: { $lt: id } },
+        ],
+    };
+    return { query: { $and: [...conditions, page] }, countQuery: query };
+}
+
+// 历史查询：按 level/tool/时间范围（调用记录另有 status/server）过滤，cursor 分页
+async function queryPage(handler: Handler<Context>, collection: 'mcplog' | 'mcpcall', key: string) {
+    handler.response.type = 'application/json';
+    const q = handler.request.query || {};
+    let built: ReturnType<typeof buildQuery>;
+    try {
+        built = buildQuery(parseFilter(q), q.cursor as string);
+    } catch (e) {
+        handler.response.status = 400;
+        handler.response.body = { error: (e as Error).message };
+        return;
+    }
+    const limit = Math.min(Math.max(parseInt(q.limit as string, 10) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    try {
+        const db = handler.ctx.db[collection] as any;
+        const [docs, total] = await Promise.all([
+            db.find(built.query).sort({ timestamp: -1, _id: -1 }).limit(limit + 1),
+            db.count(built.countQuery),
+        ]);
+        const hasMore = docs.length > limit;
+        const page = hasMore ? docs.slice(0, limit) : docs;
+        handler.response.body = {
+            [key]: page,
+            total,
+            nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+        };
+    } catch (e) {
+        logger.error('查询 %s 失败: %s', collection, (e as Error).message);
+        handler.response.status = 500;
+        handler.response.body = { error: (e as Error).message };
+    }
+}
+
+class MCPLogsHandler extends Handler<Context> {
+    allowCors = true;
+
+    async get() {
+        await queryPage(this, 'mcplog', 'logs');
+    }
+}
+
+// 工具调用记录：参数、结果（截断）、耗时、状态与调用来源
+class MCPCallsHandler extends Handler<Context> {
+    allowCors = true;
+
+    async get() {
+        await queryPage(this, 'mcpcall', 'calls');
+    }
+}
+
+// 实时日志（SSE）：订阅 mcp/log 事件，过滤参数与历史查询相同
+class MCPLogsStreamHandler extends Handler<Context> {
+    allowCors = true;
+
+    async get() {
+        let filter: LogFilter;
+        try {
+            filter = parseFilter(this.request.query || {});
+        } catch (e) {
+            this.response.status = 400;
+            this.response.type = 'application/json';
+            this.response.body = { error: (e as Error).message };
+            return;
+        }
+
+        const stream = new PassThrough();
+        const globalCtx = (global as any).__cordis_ctx || this.ctx;
+        const dispose = (globalCtx as any).on('mcp/log', (log: any) => {
+            if (!matchLog(filter, log)) return;
+            stream.write(`event: log\ndata: ${JSON.stringify(log)}\n\n`);
+        });
+        const keepAlive = setInterval(() => stream.write(': ping\n\n'), SSE_KEEPALIVE_INTERVAL);
+        stream.on('close', () => {
+            clearInterval(keepAlive);
+            dispose();
+        });
+        stream.write(': connected\n\n');
+
+        this.response.status = 200;
+        this.response.type = 'text/event-stream';
+        this.response.addHeader('Cache-Control', 'no-cache');
+        this.response.addHeader('Connection', 'keep-alive');
+        this.response.addHeader('X-Accel-Buffering', 'no');
+        this.response.body = stream;
+    }
+}
+
+// 实时日志（WebSocket）：连接时可通过查询参数过滤，之后发送 { type: 'filter', level, tool } 修改过滤条件
+export class MCPLogsConnectionHandler extends ConnectionHandler<Context> {
+    static active = new Set<MCPLogsConnectionHandler>();
+    private filter: LogFilter = { levels: [], tools: [] };
+    private dispose?: () => void;
+
+    async prepare() {
+        MCPLogsConnectionHandler.active.add(this);
+        try {
+            this.filter = parseFilter(this.request.query || {});
+        } catch (e) {
+            this.send({ type: 'error', message: (e as Error).message });
+        }
+        this.send({ type: 'connected', timestamp: Date.now() });
+
+        const globalCtx = (global as any).__cordis_ctx || this.ctx;
+        this.dispose = (globalCtx as any).on('mcp/log', (log: any) => {
+            if (!matchLog(this.filter, log)) return;
+            try {
+                this.send({ type: 'log', data: log });
+            } catch (e) {
+                logger.debug('发送实时日志失败: %s', (e as Error).message);
+            }
+        });
+    }
+
+    async message(msg: any) {
+        if (msg?.type !== 'filter') return;
+        try {
+            this.filter = parseFilter(msg);
+            this.send({ type: 'filter', level: this.filter.levels, tool: this.filter.tools });
+        } catch (e) {
+            this.send({ type: 'error', message: (e as Error).message });
+        }
+    }
+
+    async cleanup() {
+        MCPLogsConnectionHandler.active.delete(this);
+        this.dispose?.();
+    }
+}
+
+export async function apply(ctx: Context) {
+    ctx.Route('mcp_logs', '/mcp/logs', MCPLogsHandler);
+    ctx.Route('mcp_logs_stream', '/mcp/logs/stream', MCPLogsStreamHandler);
+    ctx.Route('mcp_calls', '/mcp/calls', MCPCallsHandler);
+    ctx.Connection('mcp_logs_ws', '/mcp/logs/ws', MCPLogsConnectionHandler);
+
+    // mcplog / mcpcall 定期清理
+    const stopRetention = startMCPAuditRetention(ctx);
+    ctx.on('dispose', stopRetention);
+}
@@ -0,0 +1,45 @@
+import { Handler } from '@ejunz/framework';
+import { Context } from 'cordis';
+import { config } from '../config';
+import { listPendingConfirmations, resolveConfirmation } from '../model/mcp-policy';
+
+// 工具访问策略：查看策略与待确认的工具调用，批准或拒绝
+class MCPConfirmationsHandler extends Handler<Context> {
+    allowCors = true;
+
+    async get() {
+        const policy = (config as any).mcpPolicy || {};
+        this.response.type = 'application/json';
+        this.response.body = {
+            confirmations: listPendingConfirmations(),
+            policy: {
+                defaultAction: policy.defaultAction || 'allow',
+                // 不返回令牌
+                callers: (policy.callers || []).map((c: any) => c?.name).filter(Boolean),
+                rules: policy.rules || [],
+            },
+        };
+    }
+
+    async post() {
+        this.response.type = 'application/json';
+        const id = this.request.params?.id;
+        const { action, reason } = this.request.body || {};
+        if (!id || !['approve', 'reject'].includes(action)) {
+            this.response.status = 400;
+            this.response.body = { error: 'action 必须为 approve 或 reject' };
+            return;
+        }
+        if (!resolveConfirmation(id, action === 'approve', 'operator', reason)) {
+            this.response.status = 404;
+            this.response.body = { error: '确认请求不存在或已结束' };
+            return;
+        }
+        this.response.body = { success: true };
+    }
+}
+
+export async function apply(ctx: Context) {
+    ctx.Route('mcp_confirmations', '/mcp/confirmations', MCPConfirmationsHandler);
+    ctx.Route('mcp_confirmation', '/mcp/confirmations/:id', MCPConfirmationsHandler);
+}
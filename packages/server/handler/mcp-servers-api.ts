@@ -0,0 +1,151 @@
+import { Handler } from '@ejunz/framework';
+import { Context } from 'cordis';
+import { config } from '../config';
+import { MCPUpstreamConfig, listUpstreams } from '../service/mcp-gateway';
+
+// headers / env 里通常是令牌和密钥，列表中只返回键名，值统一替换为掩码
+const REDACTED = '******';
+
+function redactValues(values?: Record<string, string>) {
+    return Object.fromEntries(Object.keys(values || {}).map((key) => [key, REDACTED]));
+}
+
+function redactConfig(cfg?: MCPUpstreamConfig) {
+    if (!cfg) return null;
+    return { ...cfg, headers: redactValues(cfg.headers), env: redactValues(cfg.env) };
+}
+
+// 更新时客户端原样提交掩码的键保留配置中的原值
+function restoreRedacted(values: any, previous?: Record<string, string>) {
+    if (!values || typeof values !== 'object') return values;
+    return Object.fromEntries(Object.entries(values).map(([key, value]) => [
+        key, value === REDACTED && previous && key in previous ? previous[key] : value,
+    ]));
+}
+
+// 外部 MCP 服务器列表：数据库中的状态记录 + 网关实时状态 + 配置文件
+async function listServers(ctx: Context) {
+    const docs = await ctx.db.mcpserver.find({});
+    const live = new Map(listUpstreams().map((s) => [s.name, s]));
+    const configs: MCPUpstreamConfig[] = (config as any).mcpServers || [];
+    const names = new Set<string>([
+        ...docs.map((doc) => doc.name),
+        ...live.keys(),
+        ...configs.map((c) => c.name),
+    ]);
+
+    return Array.from(names).sort().map((name) => {
+        const doc = docs.find((d) => d.name === name);
+        const state = live.get(name);
+        const cfg = configs.find((c) => c.name === name);
+        return {
+            _id: doc?._id || `upstream:${name}`,
+            name,
+            status: state?.status || 'offline',
+            endpoint: state?.endpoint || doc?.endpoint || cfg?.url || cfg?.command || '',
+            toolCount: state ? state.toolCount : (doc?.toolCount ?? 0),
+            totalCalls: doc?.totalCalls ?? 0,
+            lastUpdate: doc?.lastUpdate,
+            createdAt: doc?.createdAt,
+            enabled: cfg ? cfg.enabled !== false : false,
+            config: redactConfig(cfg),
+            metadata: {
+                ...(doc?.metadata || {}),
+                ...(state ? {
+                    transport: state.transport,
+                    serverInfo: state.serverInfo,
+                    protocolVersion: state.protocolVersion,
+                    lastError: state.lastError,
+                } : {}),
+            },
+        };
+    });
+}
+
+class MCPServersHandler extends Handler<Context> {
+    allowCors = true;
+
+    async get() {
+        this.response.type = 'application/json';
+        try {
+            this.response.body = { servers: await listServers(this.ctx) };
+        } catch (e) {
+            this.response.status = 500;
+            this.response.body = { error: (e as Error).message };
+        }
+    }
+
+    async post() {
+        this.response.type = 'application/json';
+        const body = this.request.body || {};
+        const { operation } = body;
+        const gateway = this.ctx.mcpGateway;
+
+        if (operation === 'sync') {
+            if (!body.name) {
+                this.response.status = 400;
+                this.response.body = { error: '缺少 name 参数' };
+                return;
+            }
+            try {
+                const server = await gateway.refresh(body.name);
+                this.response.body = { success: true, server };
+            } catch (e) {
+                this.response.status = 404;
+                this.response.body = { error: (e as Error).message };
+            }
+            return;
+        }
+
+        if (operation === 'create' || operation === 'update') {
+            const input = body.server || body;
+            const previous: MCPUpstreamConfig | undefined = ((config as any).mcpServers || []).find((s) => s.name === input?.name);
+            const exists = !!previous;
+            if (operation === 'create' && exists) {
+                this.response.status = 409;
+                this.response.body = { error: `服务器 ${input.name} 已存在` };
+                return;
+            }
+            if (operation === 'update' && !exists) {
+                this.response.status = 404;
+                this.response.body = { error: `服务器 ${input?.name || ''} 不存在` };
+                return;
+            }
+            try {
+                const saved = await gateway.saveServer({
+                    ...input,
+                    headers: restoreRedacted(input.headers, previous?.headers),
+                    env: restoreRedacted(input.env, previous?.env),
+                });
+                const servers = await listServers(this.ctx);
+                this.response.body = { success: true, server: servers.find((s) => s.name === saved.name) };
+            } catch (e) {
+                this.response.status = 400;
+                this.response.body = { error: (e as Error).message };
+            }
+            return;
+        }
+
+        if (operation === 'delete') {
+            if (!body.name) {
+                this.response.status = 400;
+                this.response.body = { error: '缺少 name 参数' };
+                return;
+            }
+            if (!await gateway.removeServer(body.name)) {
+                this.response.status = 404;
+                this.response.body = { error: `服务器 ${body.name} 不存在` };
+                return;
+            }
+            this.response.body = { success: true };
+            return;
+        }
+
+        this.response.status = 400;
+        this.response.body = { error: `不支持的操作: ${operation}` };
+    }
+}
+
+export async function apply(ctx: Context) {
+    ctx.Route('mcp_servers', '/mcp/servers', MCPServersHandler);
+}
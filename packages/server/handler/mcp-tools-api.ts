@@ -1,6 +1,10 @@
 import { Handler } from '@ejunz/framework';
 import { Context } from 'cordis';
-import { createMCPDispatchers, getMCPTools } from '../model/mcp';
+import { createMCPDispatchers, getMCPTools, resolveToolServer } from '../model/mcp';
+import {
+    MCPError, MCPToolArgumentsError, MCPToolPolicyError, logMCPToolCall,
+} from '../model/mcp-server';
+import { enforceToolPolicy, resolveRequestCaller } from '../model/mcp-policy';
 import { nodeTools } from './node';
 
 type MCPToolDoc = {
@@ -50,7 +54,7 @@ class MCPToolsHandler extends Handler<Context> {
                     _id: docId,
                     name: tool.name,
                     description: doc?.description ?? tool.description,
-                    server: metadata.nodeId || 'local',
+                    server: metadata.nodeId || metadata.upstream || 'local',
                     callCount: doc?.callCount ?? 0,
                     lastCalled: doc?.lastCalled,
                     createdAt: doc?.createdAt,
@@ -104,15 +108,34 @@ class MCPToolsHandler extends Handler<Context> {
                 this.response.body = { error: '缺少 tool 参数' };
                 return;
             }
+            // 控制台测试调用同样经过访问策略并写入调用记录，来源标记为 api
+            const caller = resolveRequestCaller(this.request) || { name: 'console' };
+            const startTime = Date.now();
+            const record = {
+                name: toolName, args, startedAt: startTime, server: resolveToolServer(toolName), transport: 'api', caller: caller.name,
+            };
             try {
+                await enforceToolPolicy(this.ctx, { tool: toolName, args, caller });
                 const dispatchers = createMCPDispatchers();
                 const result = await dispatchers['tools/call'](this.ctx, { params: { name: toolName, arguments: args } });
+                await logMCPToolCall(this.ctx, { ...record, result, duration: Date.now() - startTime }).catch(() => {});
                 this.response.type = 'application/json';
                 this.response.body = { success: true, result };
                 return;
             } catch (e) {
-                this.response.status = 500;
-                this.response.body = { error: (e as Error).message };
+                await logMCPToolCall(this.ctx, { ...record, error: (e as Error).message, duration: Date.now() - startTime })
+                    .catch(() => {});
+                // 参数校验失败附带逐项问题；未知工具等 MCPError 视为请求错误
+                if (e instanceof MCPToolArgumentsError) {
+                    this.response.status = 400;
+                    this.response.body = { error: e.message, issues: e.issues };
+                } else if (e instanceof MCPToolPolicyError) {
+                    this.response.status = 403;
+                    this.response.body = { error: e.message, ...e.data };
+                } else {
+                    this.response.status = e instanceof MCPError ? 400 : 500;
+                    this.response.body = { error: (e as Error).message };
+                }
                 return;
             }
         }
@@ -148,7 +171,7 @@ class MCPToolsHandler extends Handler<Context> {
                 existing = {
                     _id: docId,
                     name: matchedTool.name,
-                    server: matchedTool.metadata?.nodeId || 'local',
+                    server: matchedTool.metadata?.nodeId || matchedTool.metadata?.upstream || 'local',
                     description: matchedTool.description,
                     callCount: 0,
                     createdAt: now,
@@ -184,7 +207,7 @@ class MCPToolsHandler extends Handler<Context> {
                     $set: {
                         _id: docId,
                         name: existing.name || toolName,
-                        server: existing.server || metadata.nodeId || 'local',
+                        server: existing.server || metadata.nodeId || metadata.upstream || 'local',
                         description: updatedDescription,
                         callCount: existing.callCount ?? 0,
                         lastCalled: existing.lastCalled,
@@ -1,99 +1,71 @@
 import { Context } from 'cordis';
 import { Handler } from '@ejunz/framework';
-import { createMCPDispatchers } from '../model/mcp';
-import { Logger } from '../utils';
+import { getServerMCPServer, registerServerMCPResources } from '../model/mcp';
+import { createMCPHttpHandler } from '../model/mcp-server';
+import { deleteMCPPrompt, getMCPPromptDoc, saveMCPPrompt } from '../model/mcp-prompts';
 
-const logger = new Logger('handler/mcp');
-
-const sdkDispatchers: Record<string, (ctx: Context, req: any) => Promise<any>> = createMCPDispatchers();
-
-class MCPApiRootHandler extends Handler<Context> {
+// Prompt 模板管理 API
+class MCPPromptsHandler extends Handler<Context> {
     allowCors = true;
 
     async get() {
-        try {
-            const payload = {
-                jsonrpc: '2.0',
-                result: {
-                    server: 'Remote MCP Server',
-                    version: '1.0.0',
-                    uptime: process.uptime(),
-                    timestamp: new Date().toISOString(),
-                },
-                id: null,
-            };
-            this.response.type = 'application/json';
-            this.response.body = payload;
-        } catch (e) {
-            this.response.type = 'application/json';
-            this.response.body = { jsonrpc: '2.0', error: { code: -32603, message: (e as Error).message }, id: null };
+        this.response.type = 'application/json';
+        const name = this.request.params?.name;
+        if (!name) {
+            const prompts = await this.ctx.db.mcpprompt.find({}).sort({ _id: 1 });
+            this.response.body = { prompts };
+            return;
         }
-    }
-
-    async post(params) {
-        const request = this.request.body;
-        const id = request?.id ?? null;
-        const method = request?.method;
-
-        // 低层日志（请求）
-        try {
-            logger.info('[mcp/api] incoming', {
-                headers: this.request.headers,
-                method: this.request.method,
-                path: this.request.path,
-                body: request,
-            } as any);
-        } catch {}
-
-        const reply = (data: any) => ({ jsonrpc: '2.0', id, ...data });
-
-        if (method === 'initialize') {
-            this.response.type = 'application/json';
-            this.response.body = reply({
-                result: {
-                    protocolVersion: '2024-11-05',
-                    capabilities: { tools: {}, resources: {} },
-                    serverInfo: { name: 'remote-mcp-server', version: '1.0.0' },
-                },
-            });
+        const prompt = await getMCPPromptDoc(this.ctx, name);
+        if (!prompt) {
+            this.response.status = 404;
+            this.response.body = { error: 'Prompt 不存在' };
             return;
         }
+        this.response.body = { prompt };
+    }
+
+    async post() {
+        this.response.type = 'application/json';
         try {
-            if (sdkDispatchers[method]) {
-                const result = await sdkDispatchers[method](this.ctx, request);
-                // 记录并广播
-                try {
-                    const name = request?.params?.name;
-                    const args = request?.params?.arguments;
-                    const log = await this.ctx.db.mcplog.insert({
-                        timestamp: Date.now(),
-                        level: 'info',
-                        message: `Tool called: ${name}`,
-                        tool: name,
-                        metadata: { args },
-                    });
-                    try { await (this.ctx as any).emit('mcp/log', log); } catch {}
-                } catch {}
-                this.response.type = 'application/json';
-                this.response.body = reply({ result });
-                return;
-            }
+            const body = this.request.body || {};
+            const name = this.request.params?.name;
+            const prompt = await saveMCPPrompt(this.ctx, name ? { ...body, name } : body);
+            getServerMCPServer().promptsChanged();
+            this.response.body = { success: true, prompt };
         } catch (e) {
-            // 低层日志（错误）
-            try { logger.error('[mcp/api] error', e); } catch {}
-            this.response.type = 'application/json';
-            this.response.body = reply({ error: { code: -32603, message: (e as Error).message } });
-            return;
+            this.response.status = 400;
+            this.response.body = { error: (e as Error).message };
         }
+    }
 
+    async delete() {
         this.response.type = 'application/json';
-        this.response.body = reply({ error: { code: -32601, message: 'Method not found' } });
+        if (!await deleteMCPPrompt(this.ctx, this.request.params?.name)) {
+            this.response.status = 404;
+            this.response.body = { error: 'Prompt 不存在' };
+            return;
+        }
+        getServerMCPServer().promptsChanged();
+        this.response.body = { success: true };
     }
 }
 
-
 export async function apply(ctx: Context) {
+    const server = getServerMCPServer();
+    const MCPApiRootHandler = createMCPHttpHandler(server, () => ({
+        server: 'Remote MCP Server',
+        sessions: server.listSessions().length,
+    }));
     ctx.Route('mcp_api_root', '/mcp/api', MCPApiRootHandler);
+    ctx.Route('mcp_prompts', '/mcp/prompts', MCPPromptsHandler);
+    ctx.Route('mcp_prompt', '/mcp/prompts/:name', MCPPromptsHandler);
 
-}
+    // Node / 外部 MCP 服务器上线、下线或工具更新时，通知已连接的 MCP 客户端
+    (ctx as any).on('node/tools-updated', () => server.refreshTools(ctx));
+    (ctx as any).on('mcp/upstream/tools-updated', () => server.refreshTools(ctx));
 
+    // 边缘状态资源（Zigbee 设备、MQTT 桥接、MCP 日志；CS2 状态由 projection-ui 注册）
+    const disposeResources = registerServerMCPResources(ctx);
+    (ctx as any).on('dispose', disposeResources);
+}
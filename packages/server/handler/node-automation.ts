@@ -0,0 +1,88 @@
+import { Context } from 'cordis';
+import { Handler } from '@ejunz/framework';
+import { Logger } from '../utils';
+
+const logger = new Logger('handler/node-automation');
+
+// 本地自动化规则：列表、增删改、启用/禁用与手动执行
+class NodeAutomationHandler extends Handler<Context> {
+    allowCors = true;
+
+    private get automation() {
+        return (this.ctx as any).automation;
+    }
+
+    async get() {
+        this.response.type = 'application/json';
+        if (!this.automation) {
+            this.response.status = 503;
+            this.response.body = { error: '自动化服务未启用' };
+            return;
+        }
+        const id = this.request.params?.id;
+        if (id) {
+            const rule = await this.automation.getRule(id);
+            if (!rule) {
+                this.response.status = 404;
+                this.response.body = { error: '规则不存在' };
+                return;
+            }
+            this.response.body = { rule };
+            return;
+        }
+        const sun = this.automation.getSunTimes();
+        this.response.body = {
+            rules: await this.automation.listRules(),
+            location: this.automation.getLocation(),
+            sun: sun ? { sunrise: sun.sunrise?.toISOString() || null, sunset: sun.sunset?.toISOString() || null } : null,
+        };
+    }
+
+    async post() {
+        this.response.type = 'application/json';
+        if (!this.automation) {
+            this.response.status = 503;
+            this.response.body = { error: '自动化服务未启用' };
+            return;
+        }
+        const body = this.request.body || {};
+        const id = this.request.params?.id || body.id;
+        const { operation } = body;
+        try {
+            if (operation === 'create' || operation === 'update') {
+                const input = body.rule || body;
+                const rule = await this.automation.saveRule(operation === 'update' ? { ...input, id } : { ...input, id: undefined, _id: undefined });
+                this.response.body = { success: true, rule };
+            } else if (operation === 'delete') {
+                if (!await this.automation.removeRule(id)) {
+                    this.response.status = 404;
+                    this.response.body = { error: '规则不存在' };
+                    return;
+                }
+                this.response.body = { success: true };
+            } else if (operation === 'enable') {
+                if (!await this.automation.setEnabled(id, body.enabled !== false)) {
+                    this.response.status = 404;
+                    this.response.body = { error: '规则不存在' };
+                    return;
+                }
+                this.response.body = { success: true };
+            } else if (operation === 'run') {
+                this.response.body = { success: true, ...await this.automation.runRule(id, { check: !!body.check }) };
+            } else {
+                this.response.status = 400;
+                this.response.body = { error: 'operation 必须为 create、update、delete、enable 或 run' };
+            }
+        } catch (e) {
+            // 规则校验失败与执行失败都返回错误信息
+            logger.warn('自动化操作 %s 失败: %s', operation, (e as Error).message);
+            this.response.status = 400;
+            this.response.body = { error: (e as Error).message };
+        }
+    }
+}
+
+export async function apply(ctx: Context) {
+    ctx.Route('node_automations', '/api/node/automations', NodeAutomationHandler);
+    ctx.Route('node_automation', '/api/node/automations/:id', NodeAutomationHandler);
+}
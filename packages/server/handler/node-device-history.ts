@@ -0,0 +1,52 @@
+import { Context } from 'cordis';
+import { Handler } from '@ejunz/framework';
+import { Logger } from '../utils';
+
+const logger = new Logger('handler/node-device-history');
+
+function parseList(value: any): string[] {
+    if (value === undefined || value === null || value === '') return [];
+    return (Array.isArray(value) ? value : String(value).split(','))
+        .map((item) => String(item).trim())
+        .filter(Boolean);
+}
+
+// 设备历史：不带 deviceId 时列出有记录的设备，带 deviceId 时按 from/to/hours、bucket、aggregation、property 查询
+class NodeDeviceHistoryHandler extends Handler<Context> {
+    allowCors = true;
+
+    async get() {
+        this.response.type = 'application/json';
+        const svc = (this.ctx as any).deviceHistory;
+        if (!svc) {
+            this.response.status = 503;
+            this.response.body = { error: '设备历史服务未启用' };
+            return;
+        }
+        const deviceId = this.request.params?.deviceId;
+        if (!deviceId) {
+            this.response.body = { devices: await svc.listDevices() };
+            return;
+        }
+        const q = this.request.query || {};
+        try {
+            this.response.body = await svc.query(deviceId, {
+                from: q.from,
+                to: q.to,
+                hours: q.hours,
+                bucket: q.bucket,
+                aggregation: q.aggregation as string,
+                properties: parseList(q.property),
+            });
+        } catch (e) {
+            logger.warn('查询设备 %s 历史失败: %s', deviceId, (e as Error).message);
+            this.response.status = 400;
+            this.response.body = { error: (e as Error).message };
+        }
+    }
+}
+
+export async function apply(ctx: Context) {
+    ctx.Route('node_device_history_list', '/api/node/device-history', NodeDeviceHistoryHandler);
+    ctx.Route('node_device_history', '/api/node/device-history/:deviceId', NodeDeviceHistoryHandler);
+}
@@ -1,284 +1,78 @@
 import { Context } from 'cordis';
-import { Handler, ConnectionHandler } from '@ejunz/framework';
-import { listNodeTools } from '../mcp-tools/node';
-import { callNodeTool } from '../mcp-tools/node';
+import { ConnectionHandler } from '@ejunz/framework';
+import { callNodeTool, listNodeTools, onNodeToolsChange } from '../mcp-tools/node';
 import { config } from '../config';
 import { Logger } from '../utils';
+import { MCPServer, createMCPHttpHandler, logMCPToolCall } from '../model/mcp-server';
+import { resolveRequestCaller } from '../model/mcp-policy';
+import {
+    EDGE_RESOURCE_URIS, EdgeDeviceSource, bindMCPResources, createMCPResourceProvider, notifyMCPResourceUpdated,
+    registerEdgeDeviceResources,
+} from '../model/mcp-resources';
 
 const logger = new Logger('handler/node-mcp-provider');
 
-// HTTP MCP API Handler
-class NodeMCPApiHandler extends Handler<Context> {
-    allowCors = true;
-
-    async get() {
-        try {
-            const tools = listNodeTools(true);
-            const payload = {
-                jsonrpc: '2.0',
-                result: {
-                    server: 'Node MCP Provider Server',
-                    version: '1.0.0',
-                    uptime: process.uptime(),
-                    timestamp: new Date().toISOString(),
-                    tools: tools.map((t: any) => t.name),
-                },
-                id: null,
-            };
-            this.response.type = 'application/json';
-            this.response.body = payload;
-        } catch (e) {
-            this.response.type = 'application/json';
-            this.response.body = { jsonrpc: '2.0', error: { code: -32603, message: (e as Error).message }, id: null };
-        }
-    }
-
-    async post(params) {
-        const request = this.request.body;
-        const id = request?.id ?? null;
-        const method = request?.method;
-
-        logger.info('[node-mcp/api] incoming', {
-            method: this.request.method,
-            path: this.request.path,
-            body: request,
-        } as any);
-
-        const reply = (data: any) => ({ jsonrpc: '2.0', id, ...data });
-
-        if (method === 'initialize') {
-            this.response.type = 'application/json';
-            this.response.body = reply({
-                result: {
-                    protocolVersion: '2024-11-05',
-                    capabilities: { tools: {}, resources: {} },
-                    serverInfo: { name: 'node-mcp-provider-server', version: '1.0.0' },
-                },
-            });
-            return;
-        }
-
-        try {
-            if (method === 'tools/list') {
-                const tools = listNodeTools(true);
-                this.response.type = 'application/json';
-                this.response.body = reply({ result: { tools } });
-                return;
-            }
-
-            if (method === 'tools/call') {
-                const { name, arguments: args } = request.params || {};
-                const startTime = Date.now();
-                
-                logger.info('[MCP工具调用] %s 参数: %o', name, args);
-                
-                const result = await callNodeTool(this.ctx, { name, arguments: args });
-                
-                // 记录并广播
-                try {
-                    const log = await this.ctx.db.mcplog.insert({
-                        timestamp: Date.now(),
-                        level: 'info',
-                        message: `Tool called: ${name}`,
-                        tool: name,
-                        metadata: { args, result, duration: Date.now() - startTime },
-                    });
-                    try { await (this.ctx as any).emit('mcp/log', log); } catch {}
-                } catch {}
-                
-                this.response.type = 'application/json';
-                this.response.body = reply({ result });
-                return;
-            }
-        } catch (e) {
-            logger.error('[node-mcp/api] error', e);
-            this.response.type = 'application/json';
-            this.response.body = reply({ error: { code: -32603, message: (e as Error).message } });
-            return;
-        }
+// Node 模式的 MCP 服务端：HTTP 路由与 WebSocket 端点共用
+const nodeMCP = new MCPServer({
+    name: 'node-mcp-provider-server',
+    version: '1.0.0',
+    listTools: () => listNodeTools(true),
+    callTool: (ctx, name, args) => callNodeTool(ctx, { name, arguments: args }),
+    resources: createMCPResourceProvider(),
+    onToolCall: (ctx, record) => logMCPToolCall(ctx, record),
+});
+
+// Node 模式下 Zigbee / MQTT 桥接状态直接读取本地服务
+const localDeviceSource: EdgeDeviceSource = {
+    async listDevices(ctx) {
+        let devices: any[] = [];
+        await ctx.inject(['zigbee2mqtt'], async (c) => {
+            devices = await (c as any).zigbee2mqtt.listDevices();
+        });
+        return devices;
+    },
+    async getDeviceState(ctx, deviceId) {
+        let state: any = null;
+        await ctx.inject(['zigbee2mqtt'], (c) => {
+            state = (c as any).zigbee2mqtt.state.deviceStates.get(deviceId) ?? null;
+        });
+        return state;
+    },
+    async getBridgeStatus(ctx) {
+        let status: any = null;
+        await ctx.inject(['mqttBridge'], (c) => {
+            status = (c as any).mqttBridge.getConfigStatus();
+        });
+        return status;
+    },
+};
 
-        this.response.type = 'application/json';
-        this.response.body = reply({ error: { code: -32601, message: 'Method not found' } });
-    }
-}
+const describeNode = () => ({
+    server: 'Node MCP Provider Server',
+    tools: listNodeTools(true).map((t: any) => t.name),
+});
 
 // WebSocket MCP Handler (作为服务器端)
 export class NodeMCPWebSocketHandler extends ConnectionHandler<Context> {
+    private mcp: ReturnType<MCPServer['openSession']>;
+
     async open() {
-        logger.info('[node-mcp/ws] connection opened');
+        this.mcp = nodeMCP.openSession((message) => this.send(message), resolveRequestCaller(this.request));
+        logger.info('[node-mcp/ws] connection opened (session: %s)', this.mcp.session.id);
     }
 
     async message(data: any) {
-        try {
-            const request = typeof data === 'string' ? JSON.parse(data) : data;
-            const id = request?.id ?? null;
-            const method = request?.method;
-
-            logger.info('[node-mcp/ws] incoming', { method, id });
-
-            const reply = (data: any) => ({ jsonrpc: '2.0', id, ...data });
-
-            if (method === 'initialize') {
-                this.send(reply({
-                    result: {
-                        protocolVersion: '2024-11-05',
-                        capabilities: { tools: {}, resources: {} },
-                        serverInfo: { name: 'node-mcp-provider-server', version: '1.0.0' },
-                    },
-                }));
-                return;
-            }
-
-            if (method === 'tools/list') {
-                const tools = listNodeTools(true);
-                this.send(reply({ result: { tools } }));
-                return;
-            }
-
-            if (method === 'tools/call') {
-                const { name, arguments: args } = request.params || {};
-                const startTime = Date.now();
-                
-                logger.info('[MCP工具调用] %s 参数: %o', name, args);
-                
-                try {
-                    const result = await callNodeTool(this.ctx, { name, arguments: args });
-                    
-                    // 记录并广播
-                    try {
-                        const log = await this.ctx.db.mcplog.insert({
-                            timestamp: Date.now(),
-                            level: 'info',
-                            message: `Tool called: ${name}`,
-                            tool: name,
-                            metadata: { args, result, duration: Date.now() - startTime },
-                        });
-                        try { await (this.ctx as any).emit('mcp/log', log); } catch {}
-                    } catch {}
-                    
-                    this.send(reply({ result }));
-                } catch (e) {
-                    logger.error('[node-mcp/ws] tool call error', e);
-                    this.send(reply({ error: { code: -32603, message: (e as Error).message } }));
-                }
-                return;
-            }
-
-            this.send(reply({ error: { code: -32601, message: 'Method not found' } }));
-        } catch (e) {
-            logger.error('[node-mcp/ws] error', e);
-            this.send({
-                jsonrpc: '2.0',
-                id: null,
-                error: { code: -32700, message: 'Parse error' },
-            });
-        }
+        logger.info('[node-mcp/ws] incoming', { method: data?.method, id: data?.id });
+        const { body } = await nodeMCP.handle(this.ctx, data, this.mcp?.session || null);
+        if (body !== null) this.send(body);
     }
 
     async close() {
+        this.mcp?.close();
         logger.info('[node-mcp/ws] connection closed');
     }
 }
 
-// HTTP/SSE API Handler (for external access)
-class NodeMCPExternalApiHandler extends Handler<Context> {
-    allowCors = true;
-
-    async get() {
-        try {
-            const tools = listNodeTools(true);
-            const payload = {
-                jsonrpc: '2.0',
-                result: {
-                    server: 'Node MCP Provider Server',
-                    version: '1.0.0',
-                    uptime: process.uptime(),
-                    timestamp: new Date().toISOString(),
-                    tools: tools.map((t: any) => t.name),
-                    endpoints: {
-                        http: '/api',
-                        websocket: config.ws?.enabled !== false ? (config.ws?.endpoint || '/mcp/ws') : null,
-                    },
-                },
-                id: null,
-            };
-            this.response.type = 'application/json';
-            this.response.body = payload;
-        } catch (e) {
-            this.response.type = 'application/json';
-            this.response.body = { jsonrpc: '2.0', error: { code: -32603, message: (e as Error).message }, id: null };
-        }
-    }
-
-    async post(params) {
-        const request = this.request.body;
-        const id = request?.id ?? null;
-        const method = request?.method;
-
-        logger.info('[node-mcp-external-api] incoming', {
-            method: this.request.method,
-            path: this.request.path,
-            body: request,
-        } as any);
-
-        const reply = (data: any) => ({ jsonrpc: '2.0', id, ...data });
-
-        if (method === 'initialize') {
-            this.response.type = 'application/json';
-            this.response.body = reply({
-                result: {
-                    protocolVersion: '2024-11-05',
-                    capabilities: { tools: {}, resources: {} },
-                    serverInfo: { name: 'node-mcp-provider-server', version: '1.0.0' },
-                },
-            });
-            return;
-        }
-
-        try {
-            if (method === 'tools/list') {
-                const tools = listNodeTools(true);
-                this.response.type = 'application/json';
-                this.response.body = reply({ result: { tools } });
-                return;
-            }
-
-            if (method === 'tools/call') {
-                const { name, arguments: args } = request.params || {};
-                const startTime = Date.now();
-                
-                logger.info('[MCP工具调用] %s 参数: %o', name, args);
-                
-                const result = await callNodeTool(this.ctx, { name, arguments: args });
-                
-                // 记录并广播
-                try {
-                    const log = await this.ctx.db.mcplog.insert({
-                        timestamp: Date.now(),
-                        level: 'info',
-                        message: `Tool called: ${name}`,
-                        tool: name,
-                        metadata: { args, result, duration: Date.now() - startTime },
-                    });
-                    try { await (this.ctx as any).emit('mcp/log', log); } catch {}
-                } catch {}
-                
-                this.response.type = 'application/json';
-                this.response.body = reply({ result });
-                return;
-            }
-        } catch (e) {
-            logger.error('[node-mcp-external-api] error', e);
-            this.response.type = 'application/json';
-            this.response.body = reply({ error: { code: -32603, message: (e as Error).message } });
-            return;
-        }
-
-        this.response.type = 'application/json';
-        this.response.body = reply({ error: { code: -32601, message: 'Method not found' } });
-    }
-}
-
 // 连接到上游 MCP endpoint（作为客户端）
 function setupNodeMCPClient(ctx: Context) {
     const wsConfig = (config as any).ws || {};
@@ -308,6 +102,7 @@ function setupNodeMCPClient(ctx: Context) {
     let reconnectTimer: NodeJS.Timeout | null = null;
     let retryDelay = 5000;
     let stopped = false;
+    let mcp: ReturnType<MCPServer['openSession']> | null = null;
 
     const scheduleReconnect = () => {
         if (stopped) return;
@@ -330,6 +125,10 @@ function setupNodeMCPClient(ctx: Context) {
         ws.on('open', () => {
             logger.success('已连接到 MCP endpoint: %s', endpoint);
             retryDelay = 5000;
+            mcp?.close();
+            const socket = ws;
+            mcp = nodeMCP.openSession((message) => socket.send(JSON.stringify(message)), { name: 'upstream' });
+            mcp.session.initialized = true;
             
             // 发送初始化消息
             try {
@@ -349,54 +148,10 @@ function setupNodeMCPClient(ctx: Context) {
                 const text = typeof data === 'string' ? data : data.toString('utf8');
                 const message = JSON.parse(text);
                 
-                // 处理 tools/list 请求
-                if (message.method === 'tools/list' || (message.params && message.params.method === 'tools/list')) {
-                    const tools = listNodeTools(true);
-                    try {
-                        ws.send(JSON.stringify({
-                            jsonrpc: '2.0',
-                            id: message.id,
-                            result: { tools },
-                        }));
-                    } catch (e) {
-                        logger.warn('发送工具列表失败: %s', (e as Error).message);
-                    }
-                    return;
-                }
-
-                // 处理 tools/call 请求
-                if (message.method === 'tools/call' || (message.params && message.params.method === 'tools/call')) {
-                    const { name, arguments: args } = message.params || {};
-                    const startTime = Date.now();
-                    
-                    try {
-                        const result = await callNodeTool(ctx, { name, arguments: args });
-                        
-                        // 记录日志
-                        try {
-                            const log = await ctx.db.mcplog.insert({
-                                timestamp: Date.now(),
-                                level: 'info',
-                                message: `Tool called: ${name}`,
-                                tool: name,
-                                metadata: { args, result, duration: Date.now() - startTime },
-                            });
-                            try { await (ctx as any).emit('mcp/log', log); } catch {}
-                        } catch {}
-                        
-                        ws.send(JSON.stringify({
-                            jsonrpc: '2.0',
-                            id: message.id,
-                            result,
-                        }));
-                    } catch (e) {
-                        logger.error('工具调用失败: %s', (e as Error).message);
-                        ws.send(JSON.stringify({
-                            jsonrpc: '2.0',
-                            id: message.id,
-                            error: { code: -32603, message: (e as Error).message },
-                        }));
-                    }
+                // 请求与通知交给共享的 MCP 核心处理
+                if (message.method || Array.isArray(message)) {
+                    const { body } = await nodeMCP.handle(ctx, message, mcp?.session || null, { name: 'upstream' });
+                    if (body !== null) ws.send(JSON.stringify(body));
                     return;
                 }
 
@@ -409,6 +164,8 @@ function setupNodeMCPClient(ctx: Context) {
         ws.on('close', (code: number, reason: Buffer) => {
             logger.warn('MCP endpoint 连接已关闭 (%s): %s', code, reason?.toString?.() || '');
             ws = null;
+            mcp?.close();
+            mcp = null;
             if (!stopped) scheduleReconnect();
         });
 
@@ -434,10 +191,31 @@ function setupNodeMCPClient(ctx: Context) {
 
 export async function apply(ctx: Context) {
     // HTTP MCP API (internal)
-    ctx.Route('node_mcp_api', '/mcp/api', NodeMCPApiHandler);
+    ctx.Route('node_mcp_api', '/mcp/api', createMCPHttpHandler(nodeMCP, describeNode));
     
     // HTTP/SSE API (external)
-    ctx.Route('node_mcp_external_api', '/api', NodeMCPExternalApiHandler);
+    ctx.Route('node_mcp_external_api', '/api', createMCPHttpHandler(nodeMCP, () => ({
+        ...describeNode(),
+        endpoints: {
+            http: '/api',
+            websocket: config.ws?.enabled !== false ? (config.ws?.endpoint || '/mcp/ws') : null,
+        },
+    })));
+
+    // 动态工具（Zigbee 设备等）变化时通知已连接的 MCP 客户端
+    const disposeToolsWatch = onNodeToolsChange(() => nodeMCP.refreshTools(ctx));
+    ctx.on('dispose' as any, disposeToolsWatch);
+
+    // Zigbee 设备与 MQTT 桥接状态作为 MCP 资源，设备状态变化时通知订阅者
+    const disposeResources = registerEdgeDeviceResources(localDeviceSource);
+    const disposeResourceBinding = bindMCPResources(nodeMCP);
+    ctx.on('dispose' as any, disposeResources);
+    ctx.on('dispose' as any, disposeResourceBinding);
+    ctx.on('zigbee2mqtt/deviceState', (deviceId) => {
+        notifyMCPResourceUpdated(EDGE_RESOURCE_URIS.zigbeeDevice(deviceId));
+        notifyMCPResourceUpdated(EDGE_RESOURCE_URIS.zigbeeDevices);
+    });
+    ctx.on('zigbee2mqtt/devices', () => notifyMCPResourceUpdated(EDGE_RESOURCE_URIS.zigbeeDevices));
     
     // WebSocket MCP Handler（作为服务器端，如果启用）
     const wsConfig = (config as any).ws || {};
@@ -1,7 +1,11 @@
 import { Context } from 'cordis';
 import { Handler } from '@ejunz/framework';
 import { Logger } from '../utils';
-import { listNodeTools, setDynamicNodeTools, getNodeToolEntry } from '../mcp-tools/node';
+import {
+    callNodeTool, listNodeTools, setDynamicNodeTools, getNodeToolEntry,
+} from '../mcp-tools/node';
+import { MCPToolArgumentsError, MCPToolPolicyError } from '../model/mcp-server';
+import { enforceToolPolicy, resolveRequestCaller } from '../model/mcp-policy';
 
 const logger = new Logger('handler/node-mcp-tools');
 
@@ -119,10 +123,23 @@ class NodeMCPToolsCallHandler extends Handler<Context> {
                 return;
             }
             
-            const result = await entry.handler(this.ctx, args || {});
+            await enforceToolPolicy(this.ctx, {
+                tool: toolName, args: args || {}, caller: resolveRequestCaller(this.request) || { name: 'console' },
+            });
+            const result = await callNodeTool(this.ctx, { name: toolName, arguments: args || {} });
             this.response.type = 'application/json';
             this.response.body = { success: true, result };
         } catch (e) {
+            if (e instanceof MCPToolPolicyError) {
+                this.response.status = 403;
+                this.response.body = { error: e.message, ...e.data };
+                return;
+            }
+            if (e instanceof MCPToolArgumentsError) {
+                this.response.status = 400;
+                this.response.body = { error: e.message, issues: e.issues };
+                return;
+            }
             logger.error('调用工具失败', e);
             this.response.status = 500;
             this.response.body = { error: (e as Error).message };
@@ -1,7 +1,10 @@
+import { randomUUID } from 'crypto';
 import { ConnectionHandler, Handler } from '@ejunz/framework';
 import { Context } from 'cordis';
+import superagent from 'superagent';
 import { Logger } from '../utils';
 import { config } from '../config';
+import { MCPError, MCPToolArgumentsError } from '../model/mcp-server';
 
 const logger = new Logger('handler/node');
 
@@ -17,6 +20,30 @@ export const nodeTools = new Map<string, Array<{
     metadata?: Record<string, any>;
 }>>();
 
+type PendingToolCall = {
+    toolName: string;
+    resolve: (value: any) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+    dispose: () => void;
+};
+
+function getNodeToolCallConfig() {
+    const cfg = (config as any).nodeToolCall || {};
+    return {
+        timeout: Number(cfg.timeout) > 0 ? Number(cfg.timeout) : 30000,
+        maxConcurrent: Number(cfg.maxConcurrent) > 0 ? Number(cfg.maxConcurrent) : 16,
+        httpFallback: !!cfg.httpFallback,
+    };
+}
+
+// Node 返回的错误（{ error, code, data }）还原为对应的错误类型，保留参数校验详情
+function toNodeToolError(body: any): Error {
+    if (body?.data?.issues && body.data.tool) return new MCPToolArgumentsError(body.data.tool, body.data.issues);
+    if (typeof body?.code === 'number') return new MCPError(body.code, body.error, body.data);
+    return new Error(body?.error || 'Node 工具调用失败');
+}
+
 type NodeToolRecord = {
     name: string;
     description: string;
@@ -144,6 +171,60 @@ export class NodeConnectionHandler extends ConnectionHandler<Context> {
     private mqttUrl?: string;
     private nodeHost?: string;
     private nodePort?: number;
+    // Node 在 init 中声明 capabilities.toolCall 后，工具调用经本连接下发
+    supportsToolCall = false;
+    private pendingCalls = new Map<string, PendingToolCall>();
+
+    /**
+     * 经 WebSocket 调用 Node 工具：tool-call 携带 requestId，Node 以同一 requestId 回复 tool-result
+     * 超时或 signal 触发时向 Node 发送 tool-cancel
+     */
+    callTool(toolName: string, args: any, signal?: AbortSignal): Promise<any> {
+        const { timeout, maxConcurrent } = getNodeToolCallConfig();
+        if (this.pendingCalls.size >= maxConcurrent) {
+            return Promise.reject(new Error(`Node ${this.nodeId} 进行中的工具调用过多（上限 ${maxConcurrent}）`));
+        }
+        if (signal?.aborted) return Promise.reject(new Error('工具调用已取消'));
+
+        const requestId = randomUUID();
+        return new Promise((resolve, reject) => {
+            const cancel = (reason: string) => {
+                if (!this.pendingCalls.has(requestId)) return;
+                this.finishCall(requestId);
+                try {
+                    this.send({ type: 'tool-cancel', requestId, reason });
+                } catch { /* 连接已断开 */ }
+                reject(new Error(reason));
+            };
+            const onAbort = () => cancel('工具调用已取消');
+            const timer = setTimeout(() => cancel(`Node 工具调用超时 (${timeout}ms): ${toolName}`), timeout);
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.pendingCalls.set(requestId, {
+                toolName,
+                resolve,
+                reject,
+                timer,
+                dispose: () => signal?.removeEventListener('abort', onAbort),
+            });
+            try {
+                this.send({
+                    type: 'tool-call', requestId, toolName, arguments: args || {},
+                });
+            } catch (e) {
+                this.finishCall(requestId);
+                reject(e);
+            }
+        });
+    }
+
+    private finishCall(requestId: string) {
+        const pending = this.pendingCalls.get(requestId);
+        if (!pending) return null;
+        clearTimeout(pending.timer);
+        pending.dispose();
+        this.pendingCalls.delete(requestId);
+        return pending;
+    }
 
     async prepare() {
         // 等待 node 发送初始化消息
@@ -164,6 +245,7 @@ export class NodeConnectionHandler extends ConnectionHandler<Context> {
             if (msg.type === 'init') {
                 logger.info('处理 Node init 消息: nodeId=%s, tools=%d', msg.nodeId, Array.isArray(msg.tools) ? msg.tools.length : 0);
             this.nodeId = (msg.nodeId || this.nodeId || `node_${Date.now()}`).toString();
+            this.supportsToolCall = !!msg.capabilities?.toolCall;
             if (msg.host) this.nodeHost = msg.host;
             if (msg.port) {
                 const parsedPort = Number(msg.port);
@@ -237,25 +319,25 @@ export class NodeConnectionHandler extends ConnectionHandler<Context> {
             return;
         }
 
-        if (msg.type === 'tool-call') {
-            const { toolName, arguments: args, requestId } = msg;
-            try {
-                // 转发到 Node 执行（这里 Node 应该自己处理，或者通过 HTTP API）
-                // 暂时先返回错误，需要 Node 实现工具调用处理
-                this.send({
-                    type: 'tool-result',
-                    requestId,
-                    success: false,
-                    error: 'Node 工具调用需要通过 HTTP API 实现',
-                });
-            } catch (e) {
-                this.send({
-                    type: 'tool-result',
-                    requestId,
-                    success: false,
-                    error: (e as Error).message,
-                });
+        if (msg.type === 'tool-result') {
+            const pending = this.finishCall(msg.requestId);
+            if (!pending) {
+                logger.debug('收到未知或已超时的 tool-result: %s', msg.requestId);
+                return;
             }
+            if (msg.success) pending.resolve(msg.result);
+            else pending.reject(toNodeToolError(msg));
+            return;
+        }
+
+        if (msg.type === 'tool-call') {
+            // Node 主动调用 Server 工具暂不支持
+            this.send({
+                type: 'tool-result',
+                requestId: msg.requestId,
+                success: false,
+                error: '不支持由 Node 发起的工具调用',
+            });
             return;
         }
 
@@ -273,6 +355,9 @@ export class NodeConnectionHandler extends ConnectionHandler<Context> {
     }
 
     async cleanup() {
+        for (const requestId of Array.from(this.pendingCalls.keys())) {
+            this.finishCall(requestId)?.reject(new Error(`Node ${this.nodeId} 连接已断开`));
+        }
         if (this.nodeId) {
             connectedNodes.delete(this.nodeId);
             nodeTools.delete(this.nodeId);
@@ -310,18 +395,40 @@ export function getAllNodeTools(): Array<{ name: string; description: string; in
     return allTools;
 }
 
-// 调用 Node 工具（通过 HTTP API）
-export async function callNodeTool(nodeId: string, toolName: string, args: any): Promise<any> {
+// 回退方式：回连 Node 的 HTTP 工具执行 API（Node 需可被 Server 直接访问）
+async function callNodeToolOverHttp(node: NodeConnectionHandler, toolName: string, args: any, signal?: AbortSignal) {
+    const nodeHost = (node as any).nodeHost || 'localhost';
+    const nodePort = (node as any).nodePort || 5284;
+    const req = superagent
+        .post(`http://${nodeHost}:${nodePort}/zigbee2mqtt/tool/execute`)
+        .send({ toolName, arguments: args })
+        .timeout(getNodeToolCallConfig().timeout);
+    const onAbort = () => req.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+        const res = await req;
+        if (res.body?.error) throw toNodeToolError(res.body);
+        return res.body?.result ?? res.body;
+    } catch (e: any) {
+        if (e?.response?.body?.error) throw toNodeToolError(e.response.body);
+        throw e;
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
+
+// 调用 Node 工具：优先经 /node/conn 长连接，仅在 Node 不支持且配置了 httpFallback 时回连 HTTP
+export async function callNodeTool(nodeId: string, toolName: string, args: any, signal?: AbortSignal): Promise<any> {
     const node = connectedNodes.get(nodeId);
     if (!node) {
         throw new Error(`Node ${nodeId} 未连接`);
     }
-    
-    // 通过 HTTP API 调用（因为 Node 有 HTTP 服务）
-    // 这里需要知道 Node 的地址，可以通过配置或从连接信息获取
-    // 暂时先尝试通过工具名称判断是否需要转发到 Node
-    // 实际实现中，应该通过 HTTP 请求到 Node 的 API
-    throw new Error('Node 工具调用需要通过 HTTP API 实现');
+    if (node.supportsToolCall) return node.callTool(toolName, args, signal);
+    if (!getNodeToolCallConfig().httpFallback) {
+        throw new Error(`Node ${nodeId} 不支持经 WebSocket 调用工具（未启用 nodeToolCall.httpFallback）`);
+    }
+    logger.debug('Node %s 不支持 WS 工具调用，回退到 HTTP', nodeId);
+    return callNodeToolOverHttp(node, toolName, args, signal);
 }
 
 class NodeStatusHandler extends Handler<Context> {
@@ -329,6 +436,11 @@ class NodeStatusHandler extends Handler<Context> {
         this.response.body = {
             connected: connectedNodes.size,
             nodes: Array.from(connectedNodes.keys()),
+            toolCall: Object.fromEntries(Array.from(connectedNodes.entries())
+                .map(([nodeId, node]) => [
+                    nodeId,
+                    node.supportsToolCall ? 'ws' : (getNodeToolCallConfig().httpFallback ? 'http' : 'unavailable'),
+                ])),
         };
         this.response.addHeader('Access-Control-Allow-Origin', '*');
     }
@@ -5,35 +5,86 @@ import path from 'node:path';
 import superagent from 'superagent';
 import { fs, randomstring, Logger } from '../utils';
 import { config } from '../config';
+import {
+  closeEventActionClients, isClientSideAction, runEventActions, validateEventActions,
+} from '../projection/actions';
 import { sendRoundInfo } from '../projection/client';
+import { StateDeltaChannel } from '../projection/delta';
+import {
+  generateGsiConfigFile, getGsiSources, getPrimaryGsiSource, resolveGsiSource,
+} from '../projection/gsi';
+import { MatchStats, MatchStatsEngine } from '../projection/stats';
+import {
+  deleteMatchRecording, getMatchRecordingPath, listMatchRecordings, MatchReplay, recordGsiPayload,
+} from '../projection/recorder';
+import { EDGE_RESOURCE_URIS, notifyMCPResourceUpdated, registerMCPResource } from '../model/mcp-resources';
+import {
+  createTriggerRuntime, describeTrigger, evaluateTrigger, TriggerRuntime, validateTrigger,
+} from '../projection/trigger';
 
 const logger = new Logger('projection-ui');
 const randomHash = randomstring(8).toLowerCase();
 
 // 当前最新的 CS2 GSI 状态（进程内内存存储）
 let latestCs2State: any = null;
+// 上一次的 GSI 状态，用于边沿触发条件（changed / changed_from_to）
+let previousCs2State: any = null;
 let latestCs2UpdateAt: number | null = null;
 let lastRoundNumber: number | null = null;
 let lastRoundPhase: string | null = null;
+// 非主数据源（如观察者客户端）的最新状态，只用于推送与查询，不参与事件和录制
+const secondaryGsiStates = new Map<string, { state: any, updatedAt: number }>();
+
+function getGsiSourceState(source: string) {
+  if (source === getPrimaryGsiSource()) return { state: latestCs2State, updatedAt: latestCs2UpdateAt };
+  return secondaryGsiStates.get(source) || { state: null, updatedAt: null };
+}
+
+function buildStateMessage(source: string) {
+  return {
+    type: 'state',
+    data: getGsiSourceState(source).state,
+    source,
+    primary: source === getPrimaryGsiSource(),
+    ts: Date.now(),
+  };
+}
 
 // 维护所有前端 WebSocket 连接，用于推送实时数据
 const projectionConnections = new Set<ConnectionHandler<Context>>();
+// 开启差分推送的连接（通过 state/subscribe 消息开启），未开启的连接仍然接收全量状态
+const stateDeltaChannels = new Map<ConnectionHandler<Context>, StateDeltaChannel>();
 
 // 事件触发历史，用于避免重复触发
 const eventTriggerHistory = new Map<string, number>(); // eventId -> lastTriggerTime
 // 事件条件状态历史，用于检测条件变化（只在条件从false变为true时触发）
 const eventConditionHistory = new Map<string, boolean>(); // eventId -> lastConditionState
+// 事件触发表达式运行时状态（持续条件计时）
+const eventTriggerRuntime = new Map<string, TriggerRuntime>(); // eventId -> runtime
+// 持续条件到期时的重新检查定时器
+let eventRecheckTimer: NodeJS.Timeout | null = null;
+
+// 重置事件的触发状态（事件被修改或删除时调用）
+function resetEventTriggerState(eventId: string) {
+  eventConditionHistory.delete(eventId);
+  eventTriggerRuntime.delete(eventId);
+}
 
-function broadcastState() {
-  if (!latestCs2State) return;
-  const payload = {
-    type: 'state',
-    data: latestCs2State,
-    ts: Date.now(),
-  };
+// 向单个连接推送数据源状态（差分连接发送补丁或快照，其余发送全量状态）
+function sendStateTo(conn: ConnectionHandler<Context>, source: string, fullPayload = buildStateMessage(source)) {
+  const channel = stateDeltaChannels.get(conn);
+  const payload = channel
+    ? channel.next(source, getGsiSourceState(source).state, fullPayload.primary)
+    : fullPayload;
+  if (payload) conn.send(payload);
+}
+
+function broadcastState(source = getPrimaryGsiSource()) {
+  if (!getGsiSourceState(source).state) return;
+  const payload = buildStateMessage(source);
   for (const conn of projectionConnections) {
     try {
-      conn.send(payload);
+      sendStateTo(conn, source, payload);
     } catch (e) {
       logger.debug('向前端推送状态失败: %s', (e as Error).message);
     }
@@ -78,39 +129,9 @@ function broadcastPageRefresh(widgetNames: string[]) {
   }
 }
 
-// 从对象中根据路径获取值
-function getNestedValue(obj: any, path: string): any {
-  const parts = path.split('.');
-  let value = obj;
-  for (const part of parts) {
-    if (value == null) return null;
-    value = value[part];
-  }
-  return value;
-}
-
-// 评估触发条件
-function evaluateTrigger(state: any, trigger: { field: string; operator: string; value: any }): boolean {
-  const fieldValue = getNestedValue(state, trigger.field);
-  
-  switch (trigger.operator) {
-    case 'equals':
-      return fieldValue === trigger.value || String(fieldValue) === String(trigger.value);
-    case 'not_equals':
-      return fieldValue !== trigger.value && String(fieldValue) !== String(trigger.value);
-    case 'greater_than':
-      return Number(fieldValue) > Number(trigger.value);
-    case 'less_than':
-      return Number(fieldValue) < Number(trigger.value);
-    case 'contains':
-      return String(fieldValue).includes(String(trigger.value));
-    default:
-      return false;
-  }
-}
-
 // 检查并触发事件
-async function checkAndTriggerEvents(ctx: Context) {
+// isRecheck 为 true 表示由持续条件定时器触发（没有新的 GSI 数据，边沿条件不成立）
+async function checkAndTriggerEvents(ctx: Context, isRecheck = false) {
   if (!latestCs2State) {
     logger.debug('[EventSystem] 没有 GSI 状态，跳过事件检查');
     return;
@@ -141,22 +162,31 @@ async function checkAndTriggerEvents(ctx: Context) {
     
     logger.debug('[EventSystem] 找到 %d 个启用的事件', events.length);
     
+    const now = Date.now();
+    const prevState = isRecheck ? latestCs2State : previousCs2State;
+    let nextCheckAt: number | null = null;
+
     for (const event of events) {
       // 检查触发条件
-      const fieldValue = getNestedValue(latestCs2State, event.trigger.field);
-      const shouldTrigger = evaluateTrigger(latestCs2State, event.trigger);
+      let runtime = eventTriggerRuntime.get(event._id);
+      if (!runtime) {
+        runtime = createTriggerRuntime();
+        eventTriggerRuntime.set(event._id, runtime);
+      }
+      const evaluation = evaluateTrigger(event.trigger, latestCs2State, prevState, runtime, now);
+      const shouldTrigger = evaluation.result;
+      if (evaluation.nextCheckAt !== null) {
+        nextCheckAt = nextCheckAt === null ? evaluation.nextCheckAt : Math.min(nextCheckAt, evaluation.nextCheckAt);
+      }
       
       const lastConditionState = eventConditionHistory.get(event._id);
       // 只在条件从false变为true时触发（首次满足也算作变化）
       const conditionChanged = lastConditionState === false && shouldTrigger === true;
       const isFirstTime = lastConditionState === undefined && shouldTrigger === true;
       
-      logger.debug('[EventSystem] 检查事件: %s, 字段: %s, 值: %s, 条件: %s %s %s, 结果: %s, 上次状态: %s, 状态变化: %s, 首次: %s',
+      logger.debug('[EventSystem] 检查事件: %s, 条件: %s, 结果: %s, 上次状态: %s, 状态变化: %s, 首次: %s',
         event.name,
-        event.trigger.field,
-        JSON.stringify(fieldValue),
-        event.trigger.operator,
-        JSON.stringify(event.trigger.value),
+        describeTrigger(event.trigger),
         shouldTrigger ? '✓' : '✗',
         lastConditionState === undefined ? '未知' : (lastConditionState ? '✓' : '✗'),
         conditionChanged ? '是' : '否',
@@ -170,7 +200,6 @@ async function checkAndTriggerEvents(ctx: Context) {
       if (conditionChanged || isFirstTime) {
         // 检查是否最近触发过（避免重复触发，1秒内不重复）
         const lastTriggerTime = eventTriggerHistory.get(event._id) || 0;
-        const now = Date.now();
         if (now - lastTriggerTime < 1000) {
           logger.debug('[EventSystem] 事件 %s 在 1 秒内已触发过，跳过', event.name);
           continue; // 1秒内不重复触发
@@ -185,13 +214,13 @@ async function checkAndTriggerEvents(ctx: Context) {
           JSON.stringify(event.actions)
         );
         
-        // 广播事件触发消息
+        // 广播事件触发消息（只包含前端执行的组件动作）
         const payload = {
           type: 'event/trigger',
           data: {
             eventId: event._id,
             eventName: event.name,
-            actions: event.actions,
+            actions: (event.actions || []).filter(isClientSideAction),
           },
           ts: now,
         };
@@ -207,8 +236,23 @@ async function checkAndTriggerEvents(ctx: Context) {
         }
         
         logger.info('[EventSystem] 事件 %s 已推送到 %d 个前端连接', event.name, sentCount);
+
+        // 执行服务端动作（TTS / Agent / MQTT / Webhook），不阻塞事件检查
+        runEventActions({ ctx, event, state: latestCs2State });
       }
     }
+
+    // 存在未到期的持续条件时，到期后重新检查一次（避免依赖下一次 GSI 推送）
+    if (eventRecheckTimer) {
+      clearTimeout(eventRecheckTimer);
+      eventRecheckTimer = null;
+    }
+    if (nextCheckAt !== null) {
+      eventRecheckTimer = setTimeout(() => {
+        eventRecheckTimer = null;
+        checkAndTriggerEvents(ctx, true);
+      }, Math.max(nextCheckAt - Date.now(), 0) + 10);
+    }
   } catch (e) {
     logger.error('[EventSystem] 检查事件失败: %s', (e as Error).message);
     logger.error('[EventSystem] 错误堆栈: %s', (e as Error).stack);
@@ -451,12 +495,20 @@ class ProjectionStateHandler extends Handler<Context> {
   allowCors = true;
 
   async get() {
+    const source = (this.request.query.source as string) || getPrimaryGsiSource();
     this.response.type = 'application/json';
+    if (!getGsiSources().some((s) => s.name === source)) {
+      this.response.status = 404;
+      this.response.body = { ok: false, error: `未知的 GSI 数据源: ${source}` };
+      return;
+    }
+    const { state, updatedAt } = getGsiSourceState(source);
     this.response.body = {
       ok: true,
       ts: Date.now(),
-      state: latestCs2State,
-      lastUpdateAt: latestCs2UpdateAt,
+      source,
+      state,
+      lastUpdateAt: updatedAt,
     };
   }
 }
@@ -480,11 +532,169 @@ class ProjectionInfoHandler extends Handler<Context> {
         isActive: typeof latestCs2UpdateAt === 'number'
           ? (now.getTime() - latestCs2UpdateAt) < 5000
           : false,
+        replaying: matchReplay.active,
+        primary: getPrimaryGsiSource(),
+        sources: getGsiSources().map((source) => {
+          const { updatedAt } = getGsiSourceState(source.name);
+          return {
+            name: source.name,
+            description: source.description,
+            observer: source.observer,
+            lastUpdateAt: updatedAt,
+            isActive: typeof updatedAt === 'number' ? (now.getTime() - updatedAt) < 5000 : false,
+          };
+        }),
+      },
+    };
+  }
+}
+
+// 处理一帧 GSI 数据：更新状态、检测回合结束、推送前端并检查事件
+// 实时 GSI 与对局回放共用这一流程
+function ingestCs2State(body: any, options: { seek?: boolean } = {}) {
+  // 回放跳转后没有连续的上一帧，边沿条件不应成立
+  previousCs2State = options.seek ? null : latestCs2State;
+  // 跳转后统计无法衔接，从跳转位置重新开始
+  if (options.seek) matchStatsEngine.reset();
+  matchStatsEngine.ingest(body, { replay: matchReplay.active });
+  // 附加 derived.* 虚拟字段，组件绑定、事件条件与动作模板都可以直接使用
+  latestCs2State = { ...(body || {}), derived: matchStatsEngine.getDerived(body) };
+  latestCs2UpdateAt = Date.now();
+  notifyMCPResourceUpdated(EDGE_RESOURCE_URIS.cs2State);
+
+  // 日志简单标记一下回合 / 玩家信息，方便调试
+  const roundPhase = body?.round?.phase;
+  const playerName = body?.player?.name;
+  const currentRoundNumber = body?.round?.round ?? null;
+  
+  // 减少日志噪声：已注释掉频繁的 GSI 更新日志
+  // logger.debug('收到 CS2 GSI 更新: roundPhase=%s, round=%s, player=%s', roundPhase, currentRoundNumber, playerName);
+
+  // 检测回合结束：phase 变成 'over' 或 'gameover'，且回合数或阶段发生变化
+  const isRoundEnd = (roundPhase === 'over' || roundPhase === 'gameover') &&
+                     (currentRoundNumber !== lastRoundNumber || roundPhase !== lastRoundPhase);
+  
+  if (isRoundEnd && !options.seek) {
+    logger.info('检测到回合结束: round=%s, phase=%s', currentRoundNumber, roundPhase);
+    
+    // 提取回合信息
+    const round = body?.round || {};
+    const player = body?.player || {};
+    const playerState = player?.state || {};
+    const playerStats = player?.match_stats || {};
+    const map = body?.map || {};
+    const allPlayers = body?.allplayers || {};
+    
+    // 构建完整的回合数据
+    const roundData = {
+      round: currentRoundNumber,
+      phase: roundPhase,
+      winner: round?.winner || null,
+      player: {
+        name: player?.name || null,
+        team: player?.team || null,
+        steamid: player?.steamid || null,
+        state: {
+          health: playerState?.health ?? 0,
+          armor: playerState?.armor ?? 0,
+          money: playerState?.money ?? 0,
+          round_kills: playerState?.round_kills ?? 0,
+          round_killhs: playerState?.round_killhs ?? 0,
+          round_damage: playerState?.round_damage ?? 0,
+          flashed: playerState?.flashed ?? 0,
+          burning: playerState?.burning ?? 0,
+        },
+        // 添加玩家统计数据
+        stats: {
+          kills: playerStats?.kills ?? 0,
+          assists: playerStats?.assists ?? 0,
+          deaths: playerStats?.deaths ?? 0,
+          mvps: playerStats?.mvps ?? 0,
+          score: playerStats?.score ?? 0,
+        },
+        // 添加武器信息
+        weapons: playerState?.weapons || {},
+        // 添加位置信息（如果有）
+        position: playerState?.position || null,
+      },
+      map: {
+        name: map?.name || null,
+        phase: map?.phase || null,
+        round_wins: map?.round_wins || {},
+        team_ct: {
+          score: map?.team_ct?.score ?? 0,
+          name: map?.team_ct?.name || 'CT',
+        },
+        team_t: {
+          score: map?.team_t?.score ?? 0,
+          name: map?.team_t?.name || 'T',
+        },
+      },
+      // 添加所有玩家信息（用于分析团队表现）
+      allplayers: allPlayers,
+      timestamp: Date.now(),
+    };
+    
+    // 发送回合信息到上游
+    sendRoundInfo(roundData);
+  }
+  
+  // 更新最后的状态
+  if (currentRoundNumber !== null) {
+    lastRoundNumber = currentRoundNumber;
+  }
+  if (roundPhase) {
+    lastRoundPhase = roundPhase;
+  }
+
+  // 调试日志：打印关键字段（注意长度控制，避免刷屏）
+  try {
+    const debugPayload = {
+      round: body?.round,
+      bomb: body?.bomb,
+      player: {
+        name: body?.player?.name,
+        team: body?.player?.team,
       },
     };
+    // 减少日志噪声：已注释掉频繁的 GSI 关键字段日志
+    // logger.debug('CS2 GSI 关键字段: %s', JSON.stringify(debugPayload));
+  } catch {}
+
+  // 推送给所有前端连接
+  broadcastState();
+  
+  // 检查并触发事件（回放跳转时不检查，避免状态跳变误触发）
+  if (globalCtxForEvents && !options.seek) {
+    checkAndTriggerEvents(globalCtxForEvents);
+  }
+}
+
+// 对局统计：回合结束时保存到数据库（回放产生的统计只保留在内存中）
+async function saveMatchStats(match: MatchStats) {
+  if (match.replay || !globalCtxForEvents) return;
+  try {
+    await globalCtxForEvents.db.matchStats.update(
+      { _id: match.id },
+      { ...match, _id: match.id },
+      { upsert: true },
+    );
+  } catch (e) {
+    logger.error('[MatchStats] 保存对局统计失败: %s', (e as Error).message);
   }
 }
 
+const matchStatsEngine = new MatchStatsEngine((match) => {
+  saveMatchStats(match);
+});
+
+// 对局回放：将录制的 GSI 数据按时间重新送入 ingestCs2State
+// 播放结束后退出回放，恢复接收实时 GSI 数据
+const matchReplay = new MatchReplay(
+  (data, { seek }) => ingestCs2State(data, { seek }),
+  () => matchReplay.stop(),
+);
+
 // 接收 CS2 Game State Integration POST 的数据
 // 建议在 CS2 配置中把 endpoint 指向 http://127.0.0.1:5283/api/projection/cs2-gsi
 class ProjectionCs2GSIHandler extends Handler<Context> {
@@ -494,120 +704,245 @@ class ProjectionCs2GSIHandler extends Handler<Context> {
   async post() {
     try {
       const body = this.request.body;
-      latestCs2State = body || {};
-      latestCs2UpdateAt = Date.now();
       this.response.type = 'application/json';
+
+      const { source, error } = resolveGsiSource(body, this.request.query.source as string);
+      if (error) {
+        logger.warn('拒绝 CS2 GSI 推送: %s', error);
+        this.response.status = 401;
+        this.response.body = { ok: false, error };
+        return;
+      }
       this.response.body = { ok: true };
 
-      // 日志简单标记一下回合 / 玩家信息，方便调试
-      const roundPhase = body?.round?.phase;
-      const playerName = body?.player?.name;
-      const currentRoundNumber = body?.round?.round ?? null;
-      
-      // 减少日志噪声：已注释掉频繁的 GSI 更新日志
-      // logger.debug('收到 CS2 GSI 更新: roundPhase=%s, round=%s, player=%s', roundPhase, currentRoundNumber, playerName);
+      if (source !== getPrimaryGsiSource()) {
+        secondaryGsiStates.set(source, { state: body || {}, updatedAt: Date.now() });
+        broadcastState(source);
+        return;
+      }
 
-      // 检测回合结束：phase 变成 'over' 或 'gameover'，且回合数或阶段发生变化
-      const isRoundEnd = (roundPhase === 'over' || roundPhase === 'gameover') &&
-                         (currentRoundNumber !== lastRoundNumber || roundPhase !== lastRoundPhase);
-      
-      if (isRoundEnd) {
-        logger.info('检测到回合结束: round=%s, phase=%s', currentRoundNumber, roundPhase);
-        
-        // 提取回合信息
-        const round = body?.round || {};
-        const player = body?.player || {};
-        const playerState = player?.state || {};
-        const playerStats = player?.match_stats || {};
-        const map = body?.map || {};
-        const allPlayers = body?.allplayers || {};
-        
-        // 构建完整的回合数据
-        const roundData = {
-          round: currentRoundNumber,
-          phase: roundPhase,
-          winner: round?.winner || null,
-          player: {
-            name: player?.name || null,
-            team: player?.team || null,
-            steamid: player?.steamid || null,
-            state: {
-              health: playerState?.health ?? 0,
-              armor: playerState?.armor ?? 0,
-              money: playerState?.money ?? 0,
-              round_kills: playerState?.round_kills ?? 0,
-              round_killhs: playerState?.round_killhs ?? 0,
-              round_damage: playerState?.round_damage ?? 0,
-              flashed: playerState?.flashed ?? 0,
-              burning: playerState?.burning ?? 0,
-            },
-            // 添加玩家统计数据
-            stats: {
-              kills: playerStats?.kills ?? 0,
-              assists: playerStats?.assists ?? 0,
-              deaths: playerStats?.deaths ?? 0,
-              mvps: playerStats?.mvps ?? 0,
-              score: playerStats?.score ?? 0,
-            },
-            // 添加武器信息
-            weapons: playerState?.weapons || {},
-            // 添加位置信息（如果有）
-            position: playerState?.position || null,
-          },
-          map: {
-            name: map?.name || null,
-            phase: map?.phase || null,
-            round_wins: map?.round_wins || {},
-            team_ct: {
-              score: map?.team_ct?.score ?? 0,
-              name: map?.team_ct?.name || 'CT',
-            },
-            team_t: {
-              score: map?.team_t?.score ?? 0,
-              name: map?.team_t?.name || 'T',
-            },
-          },
-          // 添加所有玩家信息（用于分析团队表现）
-          allplayers: allPlayers,
-          timestamp: Date.now(),
-        };
-        
-        // 发送回合信息到上游
-        sendRoundInfo(roundData);
+      // 实时数据始终录制；回放期间不进入推送与事件流程，避免与回放状态混杂
+      recordGsiPayload(body);
+      if (matchReplay.active) return;
+      ingestCs2State(body);
+    } catch (e) {
+      this.response.status = 500;
+      this.response.body = { ok: false, error: (e as Error).message };
+    }
+  }
+}
+
+// 生成 CS2 的 gamestate_integration_*.cfg 文件
+// GET /api/projection/gsi/config?source=xxx&host=http://127.0.0.1:5283&download=1
+class GsiConfigFileHandler extends Handler<Context> {
+  noCheckPermView = true;
+  allowCors = true;
+
+  async get() {
+    try {
+      const source = (this.request.query.source as string) || getPrimaryGsiSource();
+      const baseUrl = (this.request.query.host as string)
+        || `http://${this.request.headers.host || `127.0.0.1:${(config as any).port || 5283}`}`;
+      const { filename, content: generated } = generateGsiConfigFile(source, baseUrl);
+      let content = generated;
+      // token 只提供给本机请求，远程访问时留空由用户自行填写
+      const ip = String(this.request.ip || '');
+      const isLocal = ['127.0.0.1', '::1', '::ffff:127.0.0.1'].includes(ip);
+      if (!isLocal) content = content.replace(/("token" ")[^"]*(")/, '$1$2');
+      this.response.type = 'text/plain';
+      if (this.request.query.download) {
+        this.response.addHeader('Content-Disposition', `attachment; filename="${filename}"`);
       }
-      
-      // 更新最后的状态
-      if (currentRoundNumber !== null) {
-        lastRoundNumber = currentRoundNumber;
+      this.response.body = content;
+    } catch (e) {
+      this.response.status = 404;
+      this.response.type = 'application/json';
+      this.response.body = { error: (e as Error).message };
+    }
+  }
+}
+
+// 对局录制 API：列表 / 下载 / 删除
+class MatchRecordingHandler extends Handler<Context> {
+  noCheckPermView = true;
+  allowCors = true;
+
+  async get() {
+    try {
+      const matchId = this.request.params.id as string;
+      if (!matchId) {
+        this.response.type = 'application/json';
+        this.response.body = { success: true, matches: await listMatchRecordings() };
+        return;
       }
-      if (roundPhase) {
-        lastRoundPhase = roundPhase;
+
+      const file = getMatchRecordingPath(matchId);
+      if (!file || !fs.existsSync(file)) {
+        this.response.status = 404;
+        this.response.type = 'application/json';
+        this.response.body = { success: false, error: 'Match not found' };
+        return;
       }
+      this.response.type = 'application/x-ndjson';
+      this.response.addHeader('Content-Disposition', `attachment; filename="${matchId}.ndjson"`);
+      this.response.body = fs.createReadStream(file);
+    } catch (e) {
+      logger.error('[MatchRecording] 获取录制失败: %s', (e as Error).message);
+      this.response.status = 500;
+      this.response.type = 'application/json';
+      this.response.body = { error: (e as Error).message };
+    }
+  }
 
-      // 调试日志：打印关键字段（注意长度控制，避免刷屏）
-      try {
-        const debugPayload = {
-          round: body?.round,
-          bomb: body?.bomb,
-          player: {
-            name: body?.player?.name,
-            team: body?.player?.team,
-          },
+  async delete() {
+    try {
+      const matchId = this.request.params.id as string;
+      if (!matchId) {
+        this.response.status = 400;
+        this.response.type = 'application/json';
+        this.response.body = { error: '缺少录制 ID' };
+        return;
+      }
+      if (matchReplay.status().matchId === matchId) matchReplay.stop();
+      const deleted = await deleteMatchRecording(matchId);
+      if (!deleted) {
+        this.response.status = 404;
+        this.response.type = 'application/json';
+        this.response.body = { success: false, error: 'Match not found' };
+        return;
+      }
+      logger.info('[MatchRecording] 删除录制: %s', matchId);
+      this.response.type = 'application/json';
+      this.response.body = { success: true };
+    } catch (e) {
+      logger.error('[MatchRecording] 删除录制失败: %s', (e as Error).message);
+      this.response.status = 500;
+      this.response.type = 'application/json';
+      this.response.body = { error: (e as Error).message };
+    }
+  }
+}
+
+// 对局统计 API
+// GET /api/projection/stats              对局列表
+// GET /api/projection/stats/current      当前对局（含回放中的对局）
+// GET /api/projection/stats/:id          单场对局的回合与玩家统计
+class MatchStatsHandler extends Handler<Context> {
+  noCheckPermView = true;
+  allowCors = true;
+
+  async get() {
+    try {
+      const matchId = this.request.params.id as string;
+      this.response.type = 'application/json';
+      if (!matchId) {
+        const docs = await this.ctx.db.matchStats.find({}).sort({ startedAt: -1 });
+        this.response.body = {
+          success: true,
+          current: matchStatsEngine.getMatch()?.id || null,
+          matches: docs.map((doc) => ({
+            id: doc._id,
+            map: doc.map,
+            mode: doc.mode,
+            startedAt: doc.startedAt,
+            updatedAt: doc.updatedAt,
+            rounds: doc.rounds?.length || 0,
+          })),
         };
-        // 减少日志噪声：已注释掉频繁的 GSI 关键字段日志
-        // logger.debug('CS2 GSI 关键字段: %s', JSON.stringify(debugPayload));
-      } catch {}
+        return;
+      }
+      const current = matchStatsEngine.getMatch();
+      const match = matchId === 'current' || matchId === current?.id
+        ? current
+        : await this.ctx.db.matchStats.findOne({ _id: matchId });
+      if (!match) {
+        this.response.status = 404;
+        this.response.body = { success: false, error: 'Match stats not found' };
+        return;
+      }
+      this.response.body = { success: true, match };
+    } catch (e) {
+      logger.error('[MatchStats] 获取对局统计失败: %s', (e as Error).message);
+      this.response.status = 500;
+      this.response.type = 'application/json';
+      this.response.body = { error: (e as Error).message };
+    }
+  }
 
-      // 推送给所有前端连接
-      broadcastState();
-      
-      // 检查并触发事件
-      if (globalCtxForEvents) {
-        checkAndTriggerEvents(globalCtxForEvents);
+  async delete() {
+    try {
+      const matchId = this.request.params.id as string;
+      this.response.type = 'application/json';
+      if (!matchId) {
+        this.response.status = 400;
+        this.response.body = { error: '缺少对局 ID' };
+        return;
       }
+      const removed = await this.ctx.db.matchStats.remove({ _id: matchId }, { multi: false });
+      this.response.body = { success: true, deleted: removed > 0 };
     } catch (e) {
+      logger.error('[MatchStats] 删除对局统计失败: %s', (e as Error).message);
       this.response.status = 500;
-      this.response.body = { ok: false, error: (e as Error).message };
+      this.response.type = 'application/json';
+      this.response.body = { error: (e as Error).message };
+    }
+  }
+}
+
+// 对局回放控制 API
+// POST body: { action: 'start' | 'pause' | 'resume' | 'seek' | 'speed' | 'stop', matchId?, speed?, offset? }
+class MatchReplayHandler extends Handler<Context> {
+  noCheckPermView = true;
+  allowCors = true;
+
+  async get() {
+    this.response.type = 'application/json';
+    this.response.body = { success: true, replay: matchReplay.status() };
+  }
+
+  async post() {
+    try {
+      const {
+        action, matchId, speed, offset,
+      } = this.request.body || {};
+      switch (action) {
+        case 'start':
+          if (!matchId) {
+            this.response.status = 400;
+            this.response.type = 'application/json';
+            this.response.body = { error: '缺少 matchId' };
+            return;
+          }
+          await matchReplay.start(matchId, { speed, offset });
+          break;
+        case 'pause':
+          matchReplay.pause();
+          break;
+        case 'resume':
+          matchReplay.resume();
+          break;
+        case 'seek':
+          matchReplay.seek(offset);
+          break;
+        case 'speed':
+          matchReplay.setSpeed(speed);
+          break;
+        case 'stop':
+          matchReplay.stop();
+          break;
+        default:
+          this.response.status = 400;
+          this.response.type = 'application/json';
+          this.response.body = { error: `不支持的操作: ${action}` };
+          return;
+      }
+      this.response.type = 'application/json';
+      this.response.body = { success: true, replay: matchReplay.status() };
+    } catch (e) {
+      logger.error('[MatchReplay] 回放操作失败: %s', (e as Error).message);
+      this.response.status = 500;
+      this.response.type = 'application/json';
+      this.response.body = { error: (e as Error).message };
     }
   }
 }
@@ -1307,14 +1642,11 @@ class ProjectionWebSocketHandler extends ConnectionHandler<Context> {
     logger.debug('[projection-ws] 前端连接已建立');
     projectionConnections.add(this);
 
-    // 刚连上时先推一次当前的最新状态
-    if (latestCs2State) {
+    // 刚连上时先推一次各数据源当前的最新状态
+    for (const { name } of getGsiSources()) {
+      if (!getGsiSourceState(name).state) continue;
       try {
-        this.send({
-          type: 'state',
-          data: latestCs2State,
-          ts: Date.now(),
-        });
+        this.send(buildStateMessage(name));
       } catch (e) {
         logger.debug('[projection-ws] 初始状态推送失败: %s', (e as Error).message);
       }
@@ -1450,7 +1782,6 @@ class ProjectionWebSocketHandler extends ConnectionHandler<Context> {
   }
 
   async message(msg: any) {
-    // 目前前端无需发送任何指令，这里仅保留心跳占位
     if (typeof msg === 'string' && msg.trim() === 'ping') {
       try {
         this.send('pong');
@@ -1459,10 +1790,47 @@ class ProjectionWebSocketHandler extends ConnectionHandler<Context> {
       }
       return;
     }
+    let msgObj: any = msg;
+    if (typeof msg === 'string') {
+      try {
+        msgObj = JSON.parse(msg);
+      } catch {
+        return;
+      }
+    }
+
+    // 开启差分推送并设置订阅字段：{ type: 'state/subscribe', topics?: ['player.state', 'round'] }
+    if (msgObj?.type === 'state/subscribe') {
+      const topics = Array.isArray(msgObj.topics)
+        ? msgObj.topics.filter((t: any) => typeof t === 'string' && t)
+        : null;
+      let channel = stateDeltaChannels.get(this);
+      if (channel) channel.setTopics(topics);
+      else {
+        channel = new StateDeltaChannel(topics?.length ? topics : null);
+        stateDeltaChannels.set(this, channel);
+      }
+      logger.debug('[projection-ws] 订阅状态: %s', topics?.length ? topics.join(', ') : '全部');
+    } else if (msgObj?.type === 'state/resync') {
+      // 客户端检测到序号不连续，重新发送快照
+      stateDeltaChannels.get(this)?.reset(msgObj.source);
+    } else {
+      return;
+    }
+    for (const { name } of getGsiSources()) {
+      if (msgObj.source && msgObj.source !== name) continue;
+      if (!getGsiSourceState(name).state) continue;
+      try {
+        sendStateTo(this, name);
+      } catch (e) {
+        logger.debug('[projection-ws] 推送状态快照失败: %s', (e as Error).message);
+      }
+    }
   }
 
   async cleanup() {
     projectionConnections.delete(this);
+    stateDeltaChannels.delete(this);
     
     // 清理事件监听器（使用全局 Context，避免 inject 问题）
     try {
@@ -1661,6 +2029,22 @@ class EventConfigHandler extends Handler<Context> {
         return;
       }
 
+      const triggerError = validateTrigger(trigger);
+      if (triggerError) {
+        this.response.status = 400;
+        this.response.type = 'application/json';
+        this.response.body = { error: `触发条件无效: ${triggerError}` };
+        return;
+      }
+
+      const actionError = validateEventActions(actions);
+      if (actionError) {
+        this.response.status = 400;
+        this.response.type = 'application/json';
+        this.response.body = { error: `动作配置无效: ${actionError}` };
+        return;
+      }
+
       // 验证场景是否存在
       const scene = await this.ctx.db.sceneConfig.findOne({ _id: sceneId });
       if (!scene) {
@@ -1737,6 +2121,28 @@ class EventConfigHandler extends Handler<Context> {
 
       // 注意：不允许修改 sceneId，事件一旦创建就属于某个场景
 
+      if (trigger !== undefined) {
+        const triggerError = validateTrigger(trigger);
+        if (triggerError) {
+          this.response.status = 400;
+          this.response.type = 'application/json';
+          this.response.body = { error: `触发条件无效: ${triggerError}` };
+          return;
+        }
+      }
+
+      if (actions !== undefined) {
+        const actionError = Array.isArray(actions) && actions.length > 0
+          ? validateEventActions(actions)
+          : 'actions 必须是非空数组';
+        if (actionError) {
+          this.response.status = 400;
+          this.response.type = 'application/json';
+          this.response.body = { error: `动作配置无效: ${actionError}` };
+          return;
+        }
+      }
+
       const now = Date.now();
       const updateData: any = {
         updatedAt: now,
@@ -1753,6 +2159,7 @@ class EventConfigHandler extends Handler<Context> {
       );
 
       const updated = await this.ctx.db.eventConfig.findOne({ _id: eventId });
+      if (trigger !== undefined || enabled !== undefined) resetEventTriggerState(eventId);
       
       logger.info('[EventConfig] 更新事件: %s', eventId);
       
@@ -1821,6 +2228,7 @@ class EventConfigHandler extends Handler<Context> {
       const result = await this.ctx.db.eventConfig.remove({ _id: eventId }, { multi: false });
       
       logger.info('[EventConfig] 删除事件完成: %s, 删除数量: %d', eventId, result);
+      resetEventTriggerState(eventId);
       
       // 验证删除是否成功
       const verify = await this.ctx.db.eventConfig.findOne({ _id: eventId });
@@ -2214,9 +2622,11 @@ export async function apply(ctx: Context) {
   ctx.Route('projection-ui-widgets', '/widgets', ProjectionUIHomeHandler);
   ctx.Route('projection-ui-scenes', '/scenes', ProjectionUIHomeHandler);
   ctx.Route('projection-ui-scene-detail', '/scenes/:id', ProjectionUIHomeHandler);
+  ctx.Route('projection-ui-matches', '/matches', ProjectionUIHomeHandler);
   
   ctx.Route('projection-state', '/api/projection/state', ProjectionStateHandler);
   ctx.Route('projection-info', '/api/projection/info', ProjectionInfoHandler);
+  ctx.Route('projection-gsi-config', '/api/projection/gsi/config', GsiConfigFileHandler);
   // CS2 GSI 入口，提供多个别名路径，方便在游戏里配置
   ctx.Route('projection-cs2-gsi', '/api/projection/cs2-gsi', ProjectionCs2GSIHandler);
   ctx.Route('projection-cs2-gsi-short', '/cs2-gsi', ProjectionCs2GSIHandler);
@@ -2233,9 +2643,26 @@ export async function apply(ctx: Context) {
   ctx.Route('scene-config', '/api/projection/scenes', SceneConfigHandler);
   ctx.Route('scene-config-single', '/api/projection/scenes/:id', SceneConfigHandler);
   ctx.Route('scene-activate', '/api/projection/scenes/:id/activate', SceneActivateHandler);
+  // 对局录制与回放 API
+  ctx.Route('match-recording', '/api/projection/matches', MatchRecordingHandler);
+  ctx.Route('match-recording-single', '/api/projection/matches/:id', MatchRecordingHandler);
+  ctx.Route('match-replay', '/api/projection/replay', MatchReplayHandler);
+  // 对局统计 API
+  ctx.Route('match-stats', '/api/projection/stats', MatchStatsHandler);
+  ctx.Route('match-stats-single', '/api/projection/stats/:id', MatchStatsHandler);
   // 表情包图片服务
   ctx.Route('projection-image', '/images/:name', ProjectionImageHandler);
   ctx.Connection('projection-ws', '/projection-ws', ProjectionWebSocketHandler);
+
+  // 作为 MCP 资源暴露最新的 GSI 状态（含 derived.* 字段），供 Agent 读取与订阅
+  const disposeResource = registerMCPResource({
+    uri: EDGE_RESOURCE_URIS.cs2State,
+    name: 'CS2 实时状态',
+    description: '主数据源最新一帧 CS2 GSI 状态，包含 derived.* 对局统计字段',
+    read: () => ({ updatedAt: latestCs2UpdateAt, state: latestCs2State }),
+  });
+  ctx.on('dispose', disposeResource);
+  ctx.on('dispose', closeEventActionClients);
 }
 
 
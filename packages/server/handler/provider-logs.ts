@@ -1,5 +1,6 @@
 import { Context } from 'cordis';
 import { Handler, ConnectionHandler } from '@ejunz/framework';
+import { startMCPAuditRetention } from '../model/mcp-audit';
 import { Logger } from '../utils';
 
 const logger = new Logger('handler/provider-logs');
@@ -122,5 +123,9 @@ export async function apply(ctx: Context) {
     
     // HTTP Logs API
     ctx.Route('provider_logs_api', '/api/logs', ProviderLogsApiHandler);
+
+    // provider 的工具调用同样写入 mcplog，需要定期清理
+    const stopRetention = startMCPAuditRetention(ctx);
+    ctx.on('dispose', stopRetention);
 }
 
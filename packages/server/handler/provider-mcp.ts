@@ -1,126 +1,34 @@
 import { Context } from 'cordis';
 import { Handler, ConnectionHandler } from '@ejunz/framework';
 import { callTool, listTools } from '../mcp-tools/provider-index';
+import { onProviderToolsChange, watchPluginTools } from '../mcp-tools/provider-custom';
+import { startHostSampler } from '../mcp-tools/provider-host';
 import { config } from '../config';
 import { Logger } from '../utils';
+import {
+    LATEST_MCP_PROTOCOL_VERSION, MCPServer, createMCPHttpHandler, logMCPToolCall,
+} from '../model/mcp-server';
 
 const logger = new Logger('handler/provider-mcp');
 
-// HTTP MCP API Handler
-class ProviderMCPApiHandler extends Handler<Context> {
-    allowCors = true;
-
-    async get() {
-        try {
-            const payload = {
-                jsonrpc: '2.0',
-                result: {
-                    server: 'MCP Provider Server',
-                    version: '1.0.0',
-                    uptime: process.uptime(),
-                    timestamp: new Date().toISOString(),
-                    tools: listTools().map(t => t.name),
-                },
-                id: null,
-            };
-            this.response.type = 'application/json';
-            this.response.body = payload;
-        } catch (e) {
-            this.response.type = 'application/json';
-            this.response.body = { jsonrpc: '2.0', error: { code: -32603, message: (e as Error).message }, id: null };
-        }
-    }
-
-    async post(params) {
-        const request = this.request.body;
-        const id = request?.id ?? null;
-        const method = request?.method;
-
-        logger.info('[provider-mcp/api] incoming', {
-            method: this.request.method,
-            path: this.request.path,
-            body: request,
-        } as any);
-
-        const reply = (data: any) => ({ jsonrpc: '2.0', id, ...data });
-
-        if (method === 'initialize') {
-            this.response.type = 'application/json';
-            this.response.body = reply({
-                result: {
-                    protocolVersion: '2024-11-05',
-                    capabilities: { tools: {}, resources: {} },
-                    serverInfo: { name: 'mcp-provider-server', version: '1.0.0' },
-                },
-            });
-            return;
-        }
-
-        try {
-            if (method === 'tools/list') {
-                const tools = listTools().map((t: any) => ({
-                    name: t.name,
-                    description: t.description,
-                    inputSchema: t.parameters || t.inputSchema || { type: 'object', properties: {} },
-                }));
-                this.response.type = 'application/json';
-                this.response.body = reply({ result: { tools } });
-                return;
-            }
-
-            if (method === 'notifications/initialized') {
-                // MCP协议：客户端初始化完成通知
-                this.response.type = 'application/json';
-                this.response.body = reply({ result: {} });
-                return;
-            }
-
-            if (method === 'tools/call') {
-                const { name, arguments: args } = request.params || {};
-                const startTime = Date.now();
-                
-                logger.info('[MCP工具调用] %s 参数: %o', name, args);
-                
-                const result = await callTool(this.ctx, { name, arguments: args });
-                
-                // 记录并广播（纯内存，不存储到数据库）
-                try {
-                    const log = {
-                        timestamp: Date.now(),
-                        level: 'info',
-                        message: `Tool called: ${name}`,
-                        tool: name,
-                        metadata: { args, result, duration: Date.now() - startTime },
-                    };
-                    // 使用全局context确保事件能传播到所有订阅者
-                    const globalCtx = (global as any).__cordis_ctx || this.ctx;
-                    try { await (globalCtx as any).emit('mcp/log', log); } catch (e) {
-                        logger.debug('[provider-mcp] emit log failed', e);
-                    }
-                } catch {}
-                
-                // MCP协议要求返回格式：{ content: [{ type: 'text', text: ... }] }
-                const mcpResult = {
-                    content: [{
-                        type: 'text',
-                        text: JSON.stringify(result)
-                    }]
-                };
-                this.response.type = 'application/json';
-                this.response.body = reply({ result: mcpResult });
-                return;
-            }
-        } catch (e) {
-            logger.error('[provider-mcp/api] error', e);
-            this.response.type = 'application/json';
-            this.response.body = reply({ error: { code: -32603, message: (e as Error).message } });
-            return;
-        }
-
-        this.response.type = 'application/json';
-        this.response.body = reply({ error: { code: -32601, message: 'Method not found' } });
-    }
-}
+// Provider 模式的 MCP 服务端：HTTP 路由与主动 WebSocket 连接共用
+const providerMCP = new MCPServer({
+    name: 'mcp-provider-server',
+    version: '1.0.0',
+    listTools: () => listTools().map((t: any) => ({
+        name: t.name,
+        description: t.description,
+        inputSchema: t.parameters || t.inputSchema || { type: 'object', properties: {} },
+    })),
+    callTool: (ctx, name, args) => callTool(ctx, { name, arguments: args }),
+    // 纯内存记录，不存储到数据库
+    onToolCall: (ctx, record) => logMCPToolCall(ctx, record, false),
+});
+
+const describeProvider = () => ({
+    server: 'MCP Provider Server',
+    tools: listTools().map((t) => t.name),
+});
 
 // 主动连接到配置的WebSocket URL（客户端模式）
 function startMCPConnection(ctx: Context) {
@@ -174,6 +82,8 @@ function startMCPConnection(ctx: Context) {
     let reconnectTimer: NodeJS.Timeout | null = null;
     let connecting = false;
     let connectTimeout: NodeJS.Timeout | null = null;
+    // 当前连接对应的 MCP 会话，用于向上游推送 tools/list_changed 等通知
+    let mcp: ReturnType<MCPServer['openSession']> | null = null;
 
     const scheduleReconnect = () => {
         if (stopped) return;
@@ -215,15 +125,6 @@ function startMCPConnection(ctx: Context) {
             logger.debug('[provider-mcp] 收到消息: %s (id: %s), 完整内容: %s', method || 'unknown', id, JSON.stringify(request).substring(0, 500));
             logger.info('[provider-mcp] 收到消息: %s (id: %s)', method || 'unknown', id);
 
-            const reply = (data: any) => {
-                const response = { jsonrpc: '2.0', id, ...data };
-                try {
-                    ws.send(JSON.stringify(response));
-                } catch (e) {
-                    logger.error('[provider-mcp] 发送响应失败', e);
-                }
-            };
-
             // 处理 initialize 响应（id === 1 且没有 method 字段，说明是响应）
             if (id === 1 && request.result && !request.method) {
                 // 这是 initialize 的响应
@@ -261,74 +162,19 @@ function startMCPConnection(ctx: Context) {
                 return;
             }
 
-            if (method === 'initialize') {
-                reply({
-                    result: {
-                        protocolVersion: '2024-11-05',
-                        capabilities: { tools: {}, resources: {} },
-                        serverInfo: { name: 'mcp-provider-server', version: '1.0.0' },
-                    },
-                });
-                return;
-            }
-
-            if (method === 'tools/list') {
-                const tools = listTools().map((t: any) => ({
-                    name: t.name,
-                    description: t.description,
-                    inputSchema: t.parameters || t.inputSchema || { type: 'object', properties: {} },
-                }));
-                reply({ result: { tools } });
-                return;
-            }
-
-            if (method === 'tools/call') {
-                const { name, arguments: args } = request.params || {};
-                const startTime = Date.now();
-                
-                logger.info('[MCP工具调用] %s 参数: %o', name, args);
-                
+            // JSON-RPC 请求与通知（含批量）交给共享的 MCP 核心处理
+            if (method || Array.isArray(request)) {
+                if (method?.startsWith('notifications/')) logger.info('[provider-mcp] 收到通知: %s', method);
+                const { body } = await providerMCP.handle(ctx, request, mcp?.session || null, { name: 'upstream' });
+                if (body === null) return;
                 try {
-                    const result = await callTool(ctx, { name, arguments: args });
-                    
-                    // 记录并广播（纯内存，不存储到数据库）
-                    try {
-                        const log = {
-                            timestamp: Date.now(),
-                            level: 'info',
-                            message: `Tool called: ${name}`,
-                            tool: name,
-                            metadata: { args, result, duration: Date.now() - startTime },
-                        };
-                        // 使用全局context确保事件能传播到所有订阅者
-                        const globalCtx = (global as any).__cordis_ctx || ctx;
-                        try { await (globalCtx as any).emit('mcp/log', log); } catch (e) {
-                            logger.debug('[provider-mcp] emit log failed', e);
-                        }
-                    } catch {}
-                    
-                    // MCP协议要求返回格式：{ content: [{ type: 'text', text: ... }] }
-                    const mcpResult = {
-                        content: [{
-                            type: 'text',
-                            text: JSON.stringify(result)
-                        }]
-                    };
-                    reply({ result: mcpResult });
+                    ws.send(JSON.stringify(body));
                 } catch (e) {
-                    logger.error('[provider-mcp] tool call error', e);
-                    reply({ error: { code: -32603, message: (e as Error).message } });
+                    logger.error('[provider-mcp] 发送响应失败', e);
                 }
                 return;
             }
 
-            // 处理通知（notifications）- 通知没有 id，也不应该有响应
-            if (method && method.startsWith('notifications/')) {
-                logger.info('[provider-mcp] 收到通知: %s', method);
-                // 通知不需要响应，直接返回
-                return;
-            }
-
             // 处理上游服务器的自定义状态消息（非 JSON-RPC 格式）
             // 这些消息有 type 字段，但不是标准的 JSON-RPC 请求
             if (request.type && !method && id === null) {
@@ -366,13 +212,8 @@ function startMCPConnection(ctx: Context) {
                 return;
             }
 
-            // 只有请求（有 id）才返回错误响应
-            if (id !== null && id !== undefined) {
-                reply({ error: { code: -32601, message: 'Method not found' } });
-            } else {
-                // 通知或无效消息，不发送响应
-                logger.warn('[provider-mcp] 收到未知通知或无效消息: %s', method || 'unknown');
-            }
+            // 其余为对端对我方请求的响应，无需处理
+            logger.debug('[provider-mcp] 忽略响应消息 (id: %s)', id);
         } catch (e) {
             logger.error('[provider-mcp] 处理消息失败', e);
             try {
@@ -415,6 +256,10 @@ function startMCPConnection(ctx: Context) {
                 logger.info('[provider-mcp] 已连接到: %s', wsUrl);
                 retryDelay = 3000;
                 connecting = false;
+                mcp?.close();
+                const socket = ws;
+                mcp = providerMCP.openSession((message) => socket.send(JSON.stringify(message)), { name: 'upstream' });
+                mcp.session.initialized = true;
                 
                 // MCP协议：连接后立即发送初始化请求
                 const initRequest = {
@@ -422,7 +267,7 @@ function startMCPConnection(ctx: Context) {
                     method: 'initialize',
                     id: 1,
                     params: {
-                        protocolVersion: '2024-11-05',
+                        protocolVersion: LATEST_MCP_PROTOCOL_VERSION,
                         capabilities: {
                             tools: {},
                         },
@@ -448,6 +293,8 @@ function startMCPConnection(ctx: Context) {
             ws.on('close', (code: number, reason: Buffer) => {
                 logger.info('[provider-mcp] 连接已关闭 (code: %s, reason: %s)', code, reason?.toString() || '');
                 connecting = false;
+                mcp?.close();
+                mcp = null;
                 if (!stopped) {
                     scheduleReconnect();
                 }
@@ -495,126 +342,6 @@ function startMCPConnection(ctx: Context) {
     };
 }
 
-// HTTP/SSE API Handler (for external access like http://mcp.ejunz.com/api)
-class ProviderExternalApiHandler extends Handler<Context> {
-    allowCors = true;
-
-    async get() {
-        try {
-            const payload = {
-                jsonrpc: '2.0',
-                result: {
-                    server: 'MCP Provider Server',
-                    version: '1.0.0',
-                    uptime: process.uptime(),
-                    timestamp: new Date().toISOString(),
-                    tools: listTools().map(t => t.name),
-                    endpoints: {
-                        http: '/api',
-                        websocket: config.ws?.enabled !== false ? (config.ws?.endpoint || '/mcp/ws') : null,
-                    },
-                },
-                id: null,
-            };
-            this.response.type = 'application/json';
-            this.response.body = payload;
-        } catch (e) {
-            this.response.type = 'application/json';
-            this.response.body = { jsonrpc: '2.0', error: { code: -32603, message: (e as Error).message }, id: null };
-        }
-    }
-
-    async post(params) {
-        const request = this.request.body;
-        const id = request?.id ?? null;
-        const method = request?.method;
-
-        logger.info('[provider-external-api] incoming', {
-            method: this.request.method,
-            path: this.request.path,
-            body: request,
-        } as any);
-
-        const reply = (data: any) => ({ jsonrpc: '2.0', id, ...data });
-
-        if (method === 'initialize') {
-            this.response.type = 'application/json';
-            this.response.body = reply({
-                result: {
-                    protocolVersion: '2024-11-05',
-                    capabilities: { tools: {}, resources: {} },
-                    serverInfo: { name: 'mcp-provider-server', version: '1.0.0' },
-                },
-            });
-            return;
-        }
-
-        try {
-            if (method === 'tools/list') {
-                const tools = listTools().map((t: any) => ({
-                    name: t.name,
-                    description: t.description,
-                    inputSchema: t.parameters || t.inputSchema || { type: 'object', properties: {} },
-                }));
-                this.response.type = 'application/json';
-                this.response.body = reply({ result: { tools } });
-                return;
-            }
-
-            if (method === 'notifications/initialized') {
-                // MCP协议：客户端初始化完成通知
-                this.response.type = 'application/json';
-                this.response.body = reply({ result: {} });
-                return;
-            }
-
-            if (method === 'tools/call') {
-                const { name, arguments: args } = request.params || {};
-                const startTime = Date.now();
-                
-                logger.info('[MCP工具调用] %s 参数: %o', name, args);
-                
-                const result = await callTool(this.ctx, { name, arguments: args });
-                
-                // 记录并广播（纯内存，不存储到数据库）
-                try {
-                    const log = {
-                        timestamp: Date.now(),
-                        level: 'info',
-                        message: `Tool called: ${name}`,
-                        tool: name,
-                        metadata: { args, result, duration: Date.now() - startTime },
-                    };
-                    // 使用全局context确保事件能传播到所有订阅者
-                    const globalCtx = (global as any).__cordis_ctx || this.ctx;
-                    try { await (globalCtx as any).emit('mcp/log', log); } catch (e) {
-                        logger.debug('[provider-mcp] emit log failed', e);
-                    }
-                } catch {}
-                
-                // MCP协议要求返回格式：{ content: [{ type: 'text', text: ... }] }
-                const mcpResult = {
-                    content: [{
-                        type: 'text',
-                        text: JSON.stringify(result)
-                    }]
-                };
-                this.response.type = 'application/json';
-                this.response.body = reply({ result: mcpResult });
-                return;
-            }
-        } catch (e) {
-            logger.error('[provider-external-api] error', e);
-            this.response.type = 'application/json';
-            this.response.body = reply({ error: { code: -32603, message: (e as Error).message } });
-            return;
-        }
-
-        this.response.type = 'application/json';
-        this.response.body = reply({ error: { code: -32601, message: 'Method not found' } });
-    }
-}
-
 // SSE Logs Handler
 class ProviderLogsSSEHandler extends Handler<Context> {
     allowCors = true;
@@ -675,6 +402,7 @@ function setupProviderMCPClient(ctx: Context) {
     let reconnectTimer: NodeJS.Timeout | null = null;
     let retryDelay = 5000;
     let stopped = false;
+    let mcp: ReturnType<MCPServer['openSession']> | null = null;
 
     const scheduleReconnect = () => {
         if (stopped) return;
@@ -697,6 +425,10 @@ function setupProviderMCPClient(ctx: Context) {
         ws.on('open', () => {
             logger.success('已连接到 MCP upstream: %s', upstream);
             retryDelay = 5000;
+            mcp?.close();
+            const socket = ws;
+            mcp = providerMCP.openSession((message) => socket.send(JSON.stringify(message)), { name: 'upstream' });
+            mcp.session.initialized = true;
             
             // 发送初始化消息
             try {
@@ -718,71 +450,15 @@ function setupProviderMCPClient(ctx: Context) {
                 
                 logger.debug('[provider-mcp/client] 收到消息: %o', message);
                 
-                // 处理 tools/list 请求
-                if (message.method === 'tools/list') {
-                    const tools = listTools();
-                    try {
-                        ws.send(JSON.stringify({
-                            jsonrpc: '2.0',
-                            id: message.id,
-                            result: { tools },
-                        }));
-                        logger.info('[provider-mcp/client] 已发送工具列表: %d 个工具', tools.length);
-                    } catch (e) {
-                        logger.warn('发送工具列表失败: %s', (e as Error).message);
-                    }
-                    return;
-                }
-
-                // 处理 tools/call 请求
-                if (message.method === 'tools/call') {
-                    const params = message.params || {};
-                    const name = params.name;
-                    const args = params.arguments || params.args || {};
-                    
-                    logger.info('[provider-mcp/client] 工具调用请求: name=%s, args=%o', name, args);
-                    
-                    if (!name) {
-                        logger.error('[provider-mcp/client] 工具调用缺少名称');
-                        ws.send(JSON.stringify({
-                            jsonrpc: '2.0',
-                            id: message.id,
-                            error: { code: -32602, message: 'Missing tool name' },
-                        }));
-                        return;
-                    }
-                    
-                    const startTime = Date.now();
-                    
-                    try {
-                        const result = await callTool(ctx, { name, arguments: args });
-                        
-                        logger.info('[provider-mcp/client] 工具调用成功: name=%s, duration=%dms', name, Date.now() - startTime);
-                        
-                        // 记录日志
+                // 请求与通知交给共享的 MCP 核心处理
+                if (message.method || Array.isArray(message)) {
+                    const { body } = await providerMCP.handle(ctx, message, mcp?.session || null, { name: 'upstream' });
+                    if (body !== null) {
                         try {
-                            const log = await ctx.db.mcplog.insert({
-                                timestamp: Date.now(),
-                                level: 'info',
-                                message: `Tool called: ${name}`,
-                                tool: name,
-                                metadata: { args, result, duration: Date.now() - startTime },
-                            });
-                            try { await (ctx as any).emit('mcp/log', log); } catch {}
-                        } catch {}
-                        
-                        ws.send(JSON.stringify({
-                            jsonrpc: '2.0',
-                            id: message.id,
-                            result,
-                        }));
-                    } catch (e) {
-                        logger.error('[provider-mcp/client] 工具调用失败: name=%s, error=%s', name, (e as Error).message);
-                        ws.send(JSON.stringify({
-                            jsonrpc: '2.0',
-                            id: message.id,
-                            error: { code: -32603, message: (e as Error).message },
-                        }));
+                            ws.send(JSON.stringify(body));
+                        } catch (e) {
+                            logger.warn('发送 MCP 响应失败: %s', (e as Error).message);
+                        }
                     }
                     return;
                 }
@@ -803,6 +479,8 @@ function setupProviderMCPClient(ctx: Context) {
         ws.on('close', (code: number, reason: Buffer) => {
             logger.warn('MCP upstream 连接已关闭 (%s): %s', code, reason?.toString?.() || '');
             ws = null;
+            mcp?.close();
+            mcp = null;
             if (!stopped) scheduleReconnect();
         });
 
@@ -828,13 +506,27 @@ function setupProviderMCPClient(ctx: Context) {
 
 export async function apply(ctx: Context) {
     // HTTP MCP API (internal)
-    ctx.Route('provider_mcp_api', '/mcp/api', ProviderMCPApiHandler);
+    ctx.Route('provider_mcp_api', '/mcp/api', createMCPHttpHandler(providerMCP, describeProvider));
     
     // HTTP/SSE API (external, like http://mcp.ejunz.com/api)
-    ctx.Route('provider_external_api', '/api', ProviderExternalApiHandler);
+    ctx.Route('provider_external_api', '/api', createMCPHttpHandler(providerMCP, () => ({
+        ...describeProvider(),
+        endpoints: {
+            http: '/api',
+            websocket: config.ws?.enabled !== false ? (config.ws?.endpoint || '/mcp/ws') : null,
+        },
+    })));
     
     // SSE Logs (for real-time log monitoring)
     ctx.Route('provider_logs_sse', '/api/logs/sse', ProviderLogsSSEHandler);
+
+    // 自定义工具与插件变化时通知已连接的 MCP 客户端（含上游）
+    const disposeToolsWatch = onProviderToolsChange(() => providerMCP.refreshTools(ctx));
+    const disposePluginWatch = watchPluginTools();
+    ctx.on('dispose' as any, disposeToolsWatch);
+    ctx.on('dispose' as any, disposePluginWatch);
+    // host_metrics_history 使用的 CPU/内存后台采样
+    ctx.on('dispose' as any, startHostSampler());
     
     // 主动连接到配置的WebSocket URL（客户端模式）
     if (config.ws?.enabled !== false && config.ws?.endpoint) {
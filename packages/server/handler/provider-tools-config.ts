@@ -2,6 +2,10 @@ import { Context } from 'cordis';
 import { Handler } from '@ejunz/framework';
 import { config, saveConfig } from '../config';
 import { listTools } from '../mcp-tools/provider-index';
+import {
+    emitProviderToolsChange, getCustomToolConfigs, listCustomToolEntries, listPluginTools, normalizeCustomTool,
+    reloadPluginTools,
+} from '../mcp-tools/provider-custom';
 import { Logger } from '../utils';
 
 const logger = new Logger('handler/provider-tools-config');
@@ -13,6 +17,7 @@ class ProviderToolsConfigHandler extends Handler<Context> {
         try {
             const tools = listTools();
             const toolsConfig = config.tools || {};
+            const sources = new Map(listCustomToolEntries().map((entry) => [entry.tool.name, entry.source]));
             
             const result = {
                 tools: tools.map(tool => ({
@@ -20,7 +25,11 @@ class ProviderToolsConfigHandler extends Handler<Context> {
                     description: tool.description,
                     enabled: toolsConfig[tool.name]?.enabled !== false,
                     config: toolsConfig[tool.name] || {},
+                    source: sources.get(tool.name) || 'builtin',
                 })),
+                // 自定义工具定义（含已禁用的）与插件加载情况
+                customTools: getCustomToolConfigs(),
+                plugins: listPluginTools(),
             };
             
             this.response.type = 'application/json';
@@ -32,9 +41,60 @@ class ProviderToolsConfigHandler extends Handler<Context> {
         }
     }
 
+    // 自定义工具的增删改与插件重新加载
+    private async custom(operation: string, body: any) {
+        const customTools = getCustomToolConfigs();
+        if (operation === 'reload') {
+            reloadPluginTools();
+        } else if (operation === 'delete') {
+            const index = customTools.findIndex((t) => t.name === body.name);
+            if (index === -1) {
+                this.response.status = 404;
+                this.response.body = { error: `自定义工具 ${body.name || ''} 不存在` };
+                return;
+            }
+            customTools.splice(index, 1);
+        } else {
+            const input = body.definition || body;
+            const index = customTools.findIndex((t) => t.name === input?.name);
+            if (operation === 'create' && index !== -1) {
+                this.response.status = 409;
+                this.response.body = { error: `自定义工具 ${input.name} 已存在` };
+                return;
+            }
+            if (operation === 'update' && index === -1) {
+                this.response.status = 404;
+                this.response.body = { error: `自定义工具 ${input?.name || ''} 不存在` };
+                return;
+            }
+            let definition;
+            try {
+                definition = normalizeCustomTool(input);
+            } catch (e) {
+                this.response.status = 400;
+                this.response.body = { error: (e as Error).message };
+                return;
+            }
+            if (index === -1) customTools.push(definition);
+            else customTools[index] = definition;
+        }
+        if (operation !== 'reload') {
+            (config as any).customTools = customTools;
+            saveConfig();
+        }
+        emitProviderToolsChange();
+        logger.info('Custom tools %s: %s', operation, body.name || body.definition?.name || '');
+        this.response.body = { success: true, customTools, plugins: listPluginTools() };
+    }
+
     async post(params) {
         try {
-            const { tool, enabled, description } = this.request.body;
+            const { tool, enabled, description, operation } = this.request.body;
+            this.response.type = 'application/json';
+            if (['create', 'update', 'delete', 'reload'].includes(operation)) {
+                await this.custom(operation, this.request.body);
+                return;
+            }
             
             if (!tool) {
                 this.response.status = 400;
@@ -42,6 +102,22 @@ class ProviderToolsConfigHandler extends Handler<Context> {
                 return;
             }
 
+            // 自定义工具与插件工具的启用状态分别保存在 customTools 与 pluginTools 中
+            const custom = getCustomToolConfigs().find((t) => t.name === tool);
+            const source = listCustomToolEntries().find((entry) => entry.tool.name === tool)?.source;
+            if (custom || source === 'module') {
+                if (custom) {
+                    if (enabled !== undefined) custom.enabled = enabled;
+                    if (description !== undefined) custom.description = description;
+                } else if (enabled !== undefined) {
+                    (config as any).pluginTools = { ...(config as any).pluginTools, [tool]: { enabled } };
+                }
+                saveConfig();
+                emitProviderToolsChange();
+                this.response.body = { success: true, tool: custom || (config as any).pluginTools[tool] };
+                return;
+            }
+
             // 更新配置
             if (!config.tools) {
                 (config as any).tools = {};
@@ -60,6 +136,7 @@ class ProviderToolsConfigHandler extends Handler<Context> {
             }
             
             saveConfig();
+            emitProviderToolsChange();
             
             logger.info(`Updated tool config: ${tool}`, { enabled, description });
             
@@ -4,6 +4,7 @@ import { Context } from 'cordis';
 import * as path from 'node:path';
 import * as fs from 'node:fs';
 import Zigbee2MqttService from '../service/zigbee2mqtt';
+import { ZigbeeBridgeError } from '../model/zigbee-bridge';
 
 // 展开多端点设备为独立设备（与 zigbee2mqtt.ts 中的函数相同）
 function expandMultiEndpointDevices(devices: any[]): any[] {
@@ -86,6 +87,9 @@ export class ZigbeeConsoleConnectionHandler extends ConnectionHandler<Context> {
             const dispose2 = c.on('zigbee2mqtt/devices', () => {
                 void this.refreshDevices();
             });
+            const dispose4 = c.on('zigbee2mqtt/groups', (groups: any[]) => {
+                this.send({ type: 'groups', groups });
+            });
             // 实时推送单个设备状态更新（而不是刷新整个列表）
             const dispose3 = c.on('zigbee2mqtt/deviceState', async (deviceId: string, state: any) => {
                 // 获取更新后的设备信息
@@ -109,7 +113,7 @@ export class ZigbeeConsoleConnectionHandler extends ConnectionHandler<Context> {
                     }
                 });
             });
-            this.subscriptions.push({ dispose: dispose1 }, { dispose: dispose2 }, { dispose: dispose3 });
+            this.subscriptions.push({ dispose: dispose1 }, { dispose: dispose2 }, { dispose: dispose3 }, { dispose: dispose4 });
         });
         
         // 立即发送初始状态
@@ -144,6 +148,30 @@ export class ZigbeeConsoleConnectionHandler extends ConnectionHandler<Context> {
                 case 'getPermitStatus':
                     void this.sendPermitStatus();
                     break;
+                case 'getGroups':
+                    this.send({ type: 'groups', groups: svc?.state.groups || [] });
+                    break;
+                // bridge 管理操作：{ type: 'bridgeRequest', requestId, payload: { operation, params } }
+                case 'bridgeRequest': {
+                    const operation = payload?.operation;
+                    const requestId = msg.requestId;
+                    try {
+                        const data = await svc.runBridgeOperation(operation, payload?.params || {});
+                        this.send({
+                            type: 'bridgeResult', requestId, operation, success: true, data,
+                        });
+                    } catch (e) {
+                        this.send({
+                            type: 'bridgeResult',
+                            requestId,
+                            operation,
+                            success: false,
+                            error: (e as Error).message,
+                            code: e instanceof ZigbeeBridgeError ? e.code : 'internal_error',
+                        });
+                    }
+                    break;
+                }
                 case 'permitJoin':
                     try {
                         await svc.permitJoin(!!payload?.value, Number(payload?.time || 120));
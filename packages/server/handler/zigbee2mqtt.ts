@@ -1,6 +1,9 @@
 // @ts-nocheck
 import { Context } from 'cordis';
 import { Handler } from '@ejunz/framework';
+import { enforceToolPolicy, resolveRequestCaller } from '../model/mcp-policy';
+import { MCPError, MCPToolPolicyError } from '../model/mcp-server';
+import { ZIGBEE_BRIDGE_ERROR_STATUS, ZIGBEE_BRIDGE_OPERATIONS, ZigbeeBridgeError } from '../model/zigbee-bridge';
 import Zigbee2MqttService from '../service/zigbee2mqtt';
 
 class Z2MStatusHandler extends Handler<Context> {
@@ -184,12 +187,106 @@ class Z2MRefreshDevicesHandler extends Handler<Context> {
     }
 }
 
+class Z2MGroupsHandler extends Handler<Context> {
+    noCheckPermView = true;
+    allowCors = true;
+    async get() {
+        await this.ctx.inject(['zigbee2mqtt'], (c) => {
+            const svc = c.zigbee2mqtt as Zigbee2MqttService;
+            this.response.body = { groups: svc?.state.groups || [] };
+        });
+    }
+}
+
+// 网络拓扑：默认返回上次扫描结果，refresh=1 时重新扫描；type=graphviz/plantuml 直接返回 zigbee2mqtt 生成的文本
+class Z2MNetworkMapHandler extends Handler<Context> {
+    noCheckPermView = true;
+    allowCors = true;
+    async get() {
+        const q = this.request.query || {};
+        await this.ctx.inject(['zigbee2mqtt'], async (c) => {
+            const svc = c.zigbee2mqtt as Zigbee2MqttService;
+            try {
+                if (q.type && q.type !== 'raw') {
+                    const data = await svc.runBridgeOperation('networkmap', { type: q.type, routes: q.routes === '1' });
+                    this.response.body = { type: q.type, value: data?.value };
+                    return;
+                }
+                const result = await svc.getNetworkMap(q.refresh === '1' || q.refresh === 'true');
+                this.response.body = result
+                    ? { at: new Date(result.at).toISOString(), ...result.map }
+                    : { at: null, nodes: [], links: [] };
+            } catch (e) {
+                this.response.status = e instanceof ZigbeeBridgeError ? ZIGBEE_BRIDGE_ERROR_STATUS[e.code] : 500;
+                this.response.body = { error: (e as Error).message, code: (e as any).code };
+            }
+        });
+    }
+}
+
+// 网络健康诊断：离线、低电量、弱链路与孤立终端，refresh=1 时先重新扫描拓扑
+class Z2MHealthHandler extends Handler<Context> {
+    noCheckPermView = true;
+    allowCors = true;
+    async get() {
+        const q = this.request.query || {};
+        await this.ctx.inject(['zigbee2mqtt'], async (c) => {
+            const svc = c.zigbee2mqtt as Zigbee2MqttService;
+            try {
+                this.response.body = await svc.getNetworkHealth({ refreshMap: q.refresh === '1' || q.refresh === 'true' });
+            } catch (e) {
+                this.response.status = e instanceof ZigbeeBridgeError ? ZIGBEE_BRIDGE_ERROR_STATUS[e.code] : 500;
+                this.response.body = { error: (e as Error).message, code: (e as any).code };
+            }
+        });
+    }
+}
+
+// bridge 管理操作：GET 列出可用操作，POST /zigbee2mqtt/bridge/:operation 以 body 为参数执行
+class Z2MBridgeHandler extends Handler<Context> {
+    noCheckPermView = true;
+    allowCors = true;
+    async get() {
+        this.response.body = {
+            operations: Object.entries(ZIGBEE_BRIDGE_OPERATIONS).map(([name, op]) => ({
+                name, command: op.command, description: op.description, required: op.required,
+            })),
+        };
+    }
+
+    async post() {
+        const operation = this.request.params?.operation;
+        await this.ctx.inject(['zigbee2mqtt'], async (c) => {
+            const svc = c.zigbee2mqtt as Zigbee2MqttService;
+            try {
+                const data = await svc.runBridgeOperation(operation, this.request.body || {});
+                this.response.body = { ok: 1, data };
+            } catch (e) {
+                if (e instanceof ZigbeeBridgeError) {
+                    this.response.status = ZIGBEE_BRIDGE_ERROR_STATUS[e.code];
+                    this.response.body = {
+                        error: e.message, code: e.code, command: e.command, data: e.data,
+                    };
+                } else {
+                    this.response.status = 500;
+                    this.response.body = { error: (e as Error).message };
+                }
+            }
+        });
+    }
+}
+
 export async function apply(ctx: Context) {
     ctx.Route('z2m-status', '/zigbee2mqtt/status', Z2MStatusHandler);
     ctx.Route('z2m-devices', '/zigbee2mqtt/devices', Z2MDevicesHandler);
     ctx.Route('z2m-control', '/zigbee2mqtt/device/:deviceId', Z2MControlHandler);
     ctx.Route('z2m-permit', '/zigbee2mqtt/permit_join', Z2MPermitJoinHandler);
     ctx.Route('z2m-refresh', '/zigbee2mqtt/refresh', Z2MRefreshDevicesHandler);
+    ctx.Route('z2m-groups', '/zigbee2mqtt/groups', Z2MGroupsHandler);
+    ctx.Route('z2m-networkmap', '/zigbee2mqtt/networkmap', Z2MNetworkMapHandler);
+    ctx.Route('z2m-health', '/zigbee2mqtt/health', Z2MHealthHandler);
+    ctx.Route('z2m-bridge-operations', '/zigbee2mqtt/bridge', Z2MBridgeHandler);
+    ctx.Route('z2m-bridge', '/zigbee2mqtt/bridge/:operation', Z2MBridgeHandler);
     class Z2MCoordinatorHandler extends Handler<Context> {
         noCheckPermView = true;
         async get() {
@@ -235,9 +332,26 @@ export async function apply(ctx: Context) {
     class Z2MDeviceLqiHandler extends Handler<Context> {
         noCheckPermView = true;
         async get(deviceId: string) {
-            // zigbee2mqtt 服务不提供 LQI 信息
-            this.response.body = { error: 'not_supported' };
-            this.response.addHeader('Access-Control-Allow-Origin', '*');
+            // 从最近一次 networkmap 扫描结果中取该设备的链路
+            await this.ctx.inject(['zigbee2mqtt'], async (c) => {
+                const svc = c.zigbee2mqtt as Zigbee2MqttService;
+                const id = String(this.request.params?.deviceId || deviceId || '');
+                const result = await svc.getNetworkMap();
+                const node = result?.map.nodes.find((n) => n.name === id || n.ieee === id);
+                if (!node) {
+                    this.response.body = { error: result ? 'not_found' : 'no_network_map' };
+                } else {
+                    const nameOf = (ieee: string) => result.map.nodes.find((n) => n.ieee === ieee)?.name || ieee;
+                    this.response.body = {
+                        at: new Date(result.at).toISOString(),
+                        device: node,
+                        links: result.map.links
+                            .filter((l) => l.source === node.ieee || l.target === node.ieee)
+                            .map((l) => ({ ...l, peer: nameOf(l.source === node.ieee ? l.target : l.source) })),
+                    };
+                }
+                this.response.addHeader('Access-Control-Allow-Origin', '*');
+            });
         }
     }
     ctx.Route('z2m-device-lqi', '/zigbee2mqtt/device/:deviceId/lqi', Z2MDeviceLqiHandler);
@@ -266,13 +380,23 @@ export async function apply(ctx: Context) {
             }
             
             try {
+                // 该路由是 Server 的 HTTP 回退调用目标，与 /node/conn 一样按本机访问策略检查，未携带令牌时视为 upstream
+                await enforceToolPolicy(this.ctx, {
+                    tool: toolName, args: args || {}, caller: resolveRequestCaller(this.request) || { name: 'upstream' },
+                });
                 // 调用 Node 端的工具
                 const { callNodeTool } = require('../mcp-tools/node');
                 const result = await callNodeTool(this.ctx, { name: toolName, arguments: args || {} });
                 this.response.body = { result };
             } catch (e) {
-                this.response.status = 500;
-                this.response.body = { error: (e as Error).message };
+                // 未知工具、参数校验失败、策略拒绝等 MCPError 带上 code/data，Server 端据此还原
+                if (e instanceof MCPError) {
+                    this.response.status = e instanceof MCPToolPolicyError ? 403 : 400;
+                    this.response.body = { error: e.message, code: e.code, data: e.data };
+                } else {
+                    this.response.status = 500;
+                    this.response.body = { error: (e as Error).message };
+                }
             }
             this.response.addHeader('Access-Control-Allow-Origin', '*');
         }
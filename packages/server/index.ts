@@ -29,9 +29,14 @@ async function applyServer(ctx: Context) {
     ]);
         await ctx.inject(['server', 'dbservice', 'voice'], async (c) => {
         await Promise.all([
+            // 外部 MCP 服务器网关（需要 dbservice 记录状态）
+            c.plugin(require('./service/mcp-gateway')),
             c.plugin(require('./handler/misc')),
             c.plugin(require('./handler/mcp')),
             c.plugin(require('./handler/mcp-tools-api')),
+            c.plugin(require('./handler/mcp-servers-api')),
+            c.plugin(require('./handler/mcp-logs-api')),
+            c.plugin(require('./handler/mcp-policy-api')),
             c.plugin(require('./handler/voice-config')),
             c.plugin(require('./handler/edge')),
             // c.plugin(require('./handler/client')), // 注释掉 edge2client
@@ -90,6 +95,14 @@ function applyNode(ctx: Context) {
     // MQTT 桥接服务（支持连接多个 broker）
     const mqttBridgeSvc = require('./service/mqtt-bridge');
     ctx.plugin(mqttBridgeSvc.default || mqttBridgeSvc);
+    // 本地自动化规则（保存在 data/.db/automation.db）与设备历史（data/.db/deviceHistory*.db）
+    ctx.plugin(DBService);
+    ctx.inject(['dbservice'], (c) => {
+        const automationSvc = require('./service/automation');
+        c.plugin(automationSvc.default || automationSvc);
+        const deviceHistorySvc = require('./service/device-history');
+        c.plugin(deviceHistorySvc.default || deviceHistorySvc);
+    });
     ctx.inject(['server'], (c) => {
         // node-ui 先注册，确保根路径指向 React Dashboard
         c.plugin(require('./handler/node-ui'));
@@ -99,6 +112,9 @@ function applyNode(ctx: Context) {
         c.plugin(require('./handler/node-mcp-tools'));
         c.plugin(require('./handler/node-mcp-provider'));
         c.plugin(require('./handler/node-mcp-config'));
+        c.plugin(require('./handler/mcp-policy-api'));
+        c.plugin(require('./handler/node-automation'));
+        c.plugin(require('./handler/node-device-history'));
         c.server.listen();
     });
     // node client（仅用于本地 MQTT Broker 连接）
@@ -117,6 +133,7 @@ async function applyProvider(ctx: Context) {
             c.plugin(require('./handler/provider-mcp')),
             c.plugin(require('./handler/provider-tools-config')),
             c.plugin(require('./handler/provider-logs')),
+            c.plugin(require('./handler/mcp-policy-api')),
         ]);
         
         c.server.listen();
@@ -125,9 +142,10 @@ async function applyProvider(ctx: Context) {
 
 // Projection 模式：专门用于 CS2 GSI 投影（独立启动方式，类似 --node）
 async function applyProjection(ctx: Context) {
-    // 需要 WebService + DBService + Projection UI/后端
+    // 需要 WebService + DBService + Projection UI/后端，事件的 TTS 播报动作需要 voice 服务
     await ctx.plugin(require('./service/server'));
     ctx.plugin(DBService);
+    ctx.plugin(require('./service/voice'));
     
     // 启动上游连接（不启动语音输入）
     const { startConnecting } = require('./projection/client');
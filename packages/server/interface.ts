@@ -1,3 +1,6 @@
+import type { MatchStats } from './projection/stats';
+import type { TriggerExpression, TriggerOperator } from './projection/trigger';
+
 declare module 'cordis' {
     interface Context {
         params: any;
@@ -22,6 +25,23 @@ export interface MCPLogDoc {
     metadata?: Record<string, any>;
 }
 
+// 工具调用审计记录（mcpcall），args/result 过大时截断
+export interface MCPCallDoc {
+    _id?: string;
+    timestamp: number; // 调用开始时间
+    tool: string;
+    server: string;
+    status: 'success' | 'error' | 'cancelled';
+    duration: number;
+    args?: any;
+    result?: any;
+    error?: string;
+    transport?: string;
+    sessionId?: string;
+    client?: { name?: string; version?: string } | null;
+    caller?: string; // 调用方（mcpPolicy.callers 中的名称）
+}
+
 export interface MCPToolDoc {
     _id: string;
     name: string;
@@ -45,6 +65,16 @@ export interface MCPServerDoc {
     metadata?: Record<string, any>;
 }
 
+export interface MCPPromptDoc {
+    _id: string; // 即 prompt 名称
+    description?: string;
+    arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+    // 消息模板，text 中的 {{参数名}} 在 prompts/get 时替换
+    messages: Array<{ role: 'user' | 'assistant'; text: string }>;
+    updatedAt: number;
+    createdAt: number;
+}
+
 export interface VTuberAuthTokenDoc {
     _id: string;
     host: string;
@@ -67,15 +97,14 @@ export interface EventConfigDoc {
     sceneId: string; // 事件所属的场景 ID
     name: string;
     enabled: boolean;
-    trigger: {
-        field: string; // GSI 字段路径，如 "round.phase"
-        operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'contains';
-        value: any;
-    };
+    // 单条件 { field, operator, value } 或 all/any/not 组合表达式
+    trigger: TriggerExpression;
     actions: Array<{
-        widgetName: string; // 组件名称
-        effect: 'show' | 'hide' | 'toggle'; // 效果
-        duration?: number; // 持续时间（秒），0 表示永久
+        type?: 'widget' | 'tts' | 'agent' | 'mqtt' | 'webhook' | string; // 动作类型，缺省为 widget
+        widgetName?: string; // 组件名称（widget）
+        effect?: 'show' | 'hide' | 'toggle'; // 效果（widget）
+        duration?: number; // 持续时间（秒），0 表示永久（widget）
+        params?: Record<string, any>; // 其他动作类型的参数，字符串支持 {{GSI 字段}} 模板
     }>;
     updatedAt: number;
     createdAt: number;
@@ -88,4 +117,84 @@ export interface SceneConfigDoc {
     widgetDefaults?: Record<string, boolean>; // 组件默认状态配置，key为组件名称，value为默认可见性
     updatedAt: number;
     createdAt: number;
-}
\ No newline at end of file
+}
+
+// 自动化触发器：设备状态变化 / 阈值、cron 定时、日出日落、MQTT 主题
+// field/operator/value/from/to 与 TriggerCondition 相同，设备触发器作用于设备状态，MQTT 触发器作用于消息内容
+export interface AutomationTrigger {
+    type: 'device' | 'schedule' | 'sun' | 'mqtt';
+    deviceId?: string; // device
+    cron?: string; // schedule，如 "30 7 * * 1-5"
+    event?: 'sunrise' | 'sunset'; // sun
+    offset?: number; // sun，相对日出日落的分钟数，可为负
+    topic?: string; // mqtt，支持 + 与 # 通配符
+    field?: string;
+    operator?: TriggerOperator;
+    value?: any;
+    from?: any;
+    to?: any;
+}
+
+// 自动化动作：字符串中的 {{trigger.value}}、{{devices.<设备>.<属性>}} 等在执行时替换
+export interface AutomationAction {
+    type: 'device' | 'mqtt' | 'tool' | 'delay';
+    deviceId?: string; // device
+    payload?: any; // device（如 { state: 'ON' }）/ mqtt
+    topic?: string; // mqtt
+    retain?: boolean; // mqtt
+    tool?: string; // tool：节点上的 MCP 工具名
+    arguments?: Record<string, any>; // tool
+    seconds?: number; // delay
+}
+
+export interface AutomationRuleDoc {
+    _id: string;
+    name: string;
+    description?: string;
+    enabled: boolean;
+    triggers: AutomationTrigger[];
+    // 触发后还需满足的条件（与投影事件相同的表达式），作用域为 { devices, trigger, time, sun }
+    condition?: TriggerExpression;
+    actions: AutomationAction[];
+    cooldown?: number; // 两次执行的最小间隔（秒）
+    lastRun?: {
+        at: number;
+        status: 'success' | 'error';
+        trigger: string;
+        duration: number;
+        error?: string;
+    };
+    updatedAt: number;
+    createdAt: number;
+}
+
+// 设备历史：原始采样（每个设备一条一个时间点，值为数值或枚举/布尔）
+export type DeviceHistoryValue = number | string | boolean;
+
+export interface DeviceHistoryDoc {
+    _id?: string;
+    device: string;
+    timestamp: number;
+    values: Record<string, DeviceHistoryValue>;
+}
+
+// 超过原始保留时长的采样按小时汇总；枚举属性只有 count 与 last
+export interface DeviceHistoryStat {
+    count: number;
+    last: DeviceHistoryValue;
+    min?: number;
+    max?: number;
+    sum?: number;
+}
+
+export interface DeviceHistoryRollupDoc {
+    _id?: string;
+    device: string;
+    bucket: number; // 小时起始时间戳
+    stats: Record<string, DeviceHistoryStat>;
+}
+
+// 对局统计（由 projection/stats.ts 按回合计算），_id 与 MatchStats.id 相同
+export interface MatchStatsDoc extends MatchStats {
+    _id: string;
+}
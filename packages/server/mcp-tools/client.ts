@@ -2,6 +2,9 @@
 import { Context } from 'cordis';
 import { Logger } from '@ejunz/utils';
 import { sendVTuberControl } from '../client/vtuber-server';
+import {
+    buildVTuberActionControl, findVTuberAction, getActiveVTuberProfile, onVTuberProfileChange, tryTriggerVTuberAction,
+} from '../client/vtuber-profile';
 import { config } from '../config';
 
 const logger = new Logger('client-mcp');
@@ -19,85 +22,34 @@ export interface ClientToolRegistryEntry {
     metadata?: Record<string, any>;
 }
 
-// 10个VTuber动作表情的定义
-const VTUBER_ACTIONS = [
-    {
-        id: 'happy_nod',
-        name: 'vtuber_happy_nod',
-        description: '触发开心+点头动作',
-    },
-    {
-        id: 'confused',
-        name: 'vtuber_confused',
-        description: '触发疑惑表情',
-    },
-    {
-        id: 'shake_head_around',
-        name: 'vtuber_shake_head_around',
-        description: '触发摇头晃脑动作',
-    },
-    {
-        id: 'shy',
-        name: 'vtuber_shy',
-        description: '触发平静+害羞表情',
-    },
-    {
-        id: 'idle_tilt_head',
-        name: 'vtuber_idle_tilt_head',
-        description: '触发发呆+歪头动作',
-    },
-    {
-        id: 'excited_dance',
-        name: 'vtuber_excited_dance',
-        description: '触发开心+手舞足蹈动作',
-    },
-    {
-        id: 'surprised_blink',
-        name: 'vtuber_surprised_blink',
-        description: '触发惊讶+眨眼动作',
-    },
-    {
-        id: 'excited_wave',
-        name: 'vtuber_excited_wave',
-        description: '触发兴奋+挥手动作',
-    },
-    {
-        id: 'surprised',
-        name: 'vtuber_surprised',
-        description: '触发吃惊表情',
-    },
-    {
-        id: 'sad',
-        name: 'vtuber_sad',
-        description: '触发难过表情',
-    },
-];
-
 // 调用VTuber动作的工具处理函数
 async function callVTuberActionTool(
     ctx: Context,
     actionId: string,
     args: { duration?: number; intensity?: number }
 ): Promise<any> {
-    const { duration = 2000, intensity = 0.6 } = args;
+    const mapping = findVTuberAction(actionId);
+    if (!mapping) throw new Error(`当前 VTuber 配置中没有动作: ${actionId}`);
+    const { duration = mapping.duration ?? 2000, intensity = mapping.intensity ?? 0.6 } = args;
     
     logger.info('调用VTuber动作: %s (duration: %d, intensity: %.2f)', actionId, duration, intensity);
     
+    if (!tryTriggerVTuberAction(mapping)) {
+        return {
+            success: false,
+            action: actionId,
+            message: `动作 ${actionId} 处于冷却中（${mapping.cooldown}ms）`,
+        };
+    }
+    
     try {
-        // 发送VTuber控制指令
-        sendVTuberControl({
-            type: 'action',
-            action: {
-                name: actionId,
-                duration,
-                intensity,
-                blend: true,
-            },
-        });
+        // 发送VTuber控制指令（按配置映射到热键 / 表情 / 参数）
+        sendVTuberControl(buildVTuberActionControl(mapping, { duration, intensity }));
         
         return {
             success: true,
             action: actionId,
+            target: mapping.target,
             message: `已触发动作: ${actionId}`,
             duration,
             intensity,
@@ -108,33 +60,35 @@ async function callVTuberActionTool(
     }
 }
 
-// 构建基础工具条目
+// 构建基础工具条目（VTuber 动作来自当前模型配置）
 function buildBaseToolEntries(): Array<[string, ClientToolRegistryEntry]> {
     const entries: Array<[string, ClientToolRegistryEntry]> = [];
     
     // 检查vtuber是否启用
     const vtuberConfig = (config as any).voice?.vtuber || (config as any).vtuber || {};
     if (vtuberConfig.enabled !== false) {
+        const profile = getActiveVTuberProfile();
         // 为每个VTuber动作创建工具
-        for (const action of VTUBER_ACTIONS) {
+        for (const action of profile.actions) {
+            const name = `vtuber_${action.id}`;
             entries.push([
-                action.name,
+                name,
                 {
                     tool: {
-                        name: action.name,
-                        description: action.description,
+                        name,
+                        description: action.description || `触发动作 ${action.id}`,
                         inputSchema: {
                             type: 'object',
                             properties: {
                                 duration: {
                                     type: 'number',
-                                    description: '动作持续时间（毫秒），默认2000',
-                                    default: 2000,
+                                    description: `动作持续时间（毫秒），默认${action.duration ?? 2000}`,
+                                    default: action.duration ?? 2000,
                                 },
                                 intensity: {
                                     type: 'number',
-                                    description: '动作强度（0-1），默认0.6',
-                                    default: 0.6,
+                                    description: `动作强度（0-1），默认${action.intensity ?? 0.6}`,
+                                    default: action.intensity ?? 0.6,
                                 },
                             },
                             required: [],
@@ -142,6 +96,7 @@ function buildBaseToolEntries(): Array<[string, ClientToolRegistryEntry]> {
                         metadata: {
                             category: 'client-vtuber',
                             actionId: action.id,
+                            profile: profile.id,
                         },
                     },
                     handler: async (ctx: Context, args: any) => {
@@ -149,7 +104,7 @@ function buildBaseToolEntries(): Array<[string, ClientToolRegistryEntry]> {
                     },
                     metadata: {
                         category: 'client-vtuber',
-                        autoGenerated: false,
+                        autoGenerated: true,
                     },
                 },
             ]);
@@ -161,6 +116,21 @@ function buildBaseToolEntries(): Array<[string, ClientToolRegistryEntry]> {
 
 const clientToolRegistry = new Map<string, ClientToolRegistryEntry>(buildBaseToolEntries());
 
+/**
+ * 重新生成工具列表（VTuber 配置变化后调用）
+ */
+export function refreshClientTools() {
+    clientToolRegistry.clear();
+    for (const [name, entry] of buildBaseToolEntries()) clientToolRegistry.set(name, entry);
+    logger.info('已根据 VTuber 配置 %s 重新生成 %d 个工具', getActiveVTuberProfile().id, clientToolRegistry.size);
+}
+
+// 切换或修改当前 VTuber 配置时刷新工具，并通知上游（延迟加载避免循环依赖）
+onVTuberProfileChange(() => {
+    refreshClientTools();
+    require('../client/client').notifyClientToolsUpdate('vtuber-profile');
+});
+
 // 获取所有 Client 工具列表
 export function listClientTools(includeMetadata = false): ClientToolDefinition[] {
     return Array.from(clientToolRegistry.values()).map((entry) => {
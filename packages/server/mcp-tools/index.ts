@@ -1,4 +1,6 @@
 import { Context } from 'cordis';
+import { assertToolArguments } from '../model/mcp-schema';
+import { JSONRPC_ERRORS, MCPError } from '../model/mcp-server';
 import {
     callServerStatusTool, serverStatusTool,
 } from './serverStatus';
@@ -47,10 +49,11 @@ export async function callTool(ctx: Context, request: MCPToolCallRequest): Promi
     
     const entry = toolRegistry[name];
     if (!entry) {
-        throw new Error(`Unknown tool: ${name}`);
+        throw new MCPError(JSONRPC_ERRORS.INVALID_PARAMS, `Unknown tool: ${name}`);
     }
-    
-    return await entry.handler(ctx, args);
+
+    // 按 parameters 校验参数（填充默认值并做类型转换），不通过时抛出 MCPToolArgumentsError
+    return await entry.handler(ctx, assertToolArguments(name, entry.tool.parameters, args));
 }
 
 // 检查工具是否存在
@@ -1,6 +1,8 @@
 // @ts-nocheck
 import { Context } from 'cordis';
 import { Logger } from '@ejunz/utils';
+import { assertToolArguments } from '../model/mcp-schema';
+import { JSONRPC_ERRORS, MCPError } from '../model/mcp-server';
 import {
     zigbeeListDevicesTool,
     callZigbeeListDevicesTool,
@@ -8,7 +10,20 @@ import {
     callZigbeeGetDeviceStatusTool,
     zigbeeControlTool,
     callZigbeeControlTool,
+    zigbeeNetworkHealthTool,
+    callZigbeeNetworkHealthTool,
 } from './nodeZigbee';
+import {
+    automationDeleteRuleTool,
+    automationListRulesTool,
+    automationRunRuleTool,
+    automationSaveRuleTool,
+    callAutomationDeleteRuleTool,
+    callAutomationListRulesTool,
+    callAutomationRunRuleTool,
+    callAutomationSaveRuleTool,
+} from './nodeAutomation';
+import { callZigbeeGetDeviceHistoryTool, zigbeeGetDeviceHistoryTool } from './nodeDeviceHistory';
 
 const logger = new Logger('node-mcp');
 
@@ -16,6 +31,8 @@ export interface NodeToolDefinition {
     name: string;
     description: string;
     inputSchema: any;
+    // 与 inputSchema 相同，兼容读取 parameters 的旧调用方
+    parameters?: any;
     metadata?: Record<string, any>;
 }
 
@@ -51,10 +68,76 @@ const baseEntries: Array<[string, NodeToolRegistryEntry]> = [
             metadata: { category: 'node-core', autoGenerated: false },
         },
     ],
+    [
+        'zigbee_get_device_history',
+        {
+            tool: zigbeeGetDeviceHistoryTool,
+            handler: callZigbeeGetDeviceHistoryTool,
+            metadata: { category: 'node-core', autoGenerated: false },
+        },
+    ],
+    [
+        'zigbee_network_health',
+        {
+            tool: zigbeeNetworkHealthTool,
+            handler: callZigbeeNetworkHealthTool,
+            metadata: { category: 'node-core', autoGenerated: false },
+        },
+    ],
+    // 本地自动化规则管理
+    [
+        'automation_list_rules',
+        {
+            tool: automationListRulesTool,
+            handler: callAutomationListRulesTool,
+            metadata: { category: 'node-automation', autoGenerated: false },
+        },
+    ],
+    [
+        'automation_save_rule',
+        {
+            tool: automationSaveRuleTool,
+            handler: callAutomationSaveRuleTool,
+            metadata: { category: 'node-automation', autoGenerated: false },
+        },
+    ],
+    [
+        'automation_delete_rule',
+        {
+            tool: automationDeleteRuleTool,
+            handler: callAutomationDeleteRuleTool,
+            metadata: { category: 'node-automation', autoGenerated: false },
+        },
+    ],
+    [
+        'automation_run_rule',
+        {
+            tool: automationRunRuleTool,
+            handler: callAutomationRunRuleTool,
+            metadata: { category: 'node-automation', autoGenerated: false },
+        },
+    ],
 ];
 
 const nodeToolRegistry = new Map<string, NodeToolRegistryEntry>(baseEntries);
 const dynamicToolNames = new Set<string>();
+const toolsChangeListeners = new Set<() => void>();
+
+// 订阅工具集变化（动态工具注册/清除），返回取消订阅函数
+export function onNodeToolsChange(listener: () => void): () => void {
+    toolsChangeListeners.add(listener);
+    return () => toolsChangeListeners.delete(listener);
+}
+
+function emitToolsChange() {
+    for (const listener of toolsChangeListeners) {
+        try {
+            listener();
+        } catch (e) {
+            logger.warn('工具集变化回调执行失败: %s', (e as Error).message);
+        }
+    }
+}
 
 // 获取所有 Node 工具列表
 export function listNodeTools(includeMetadata = false): NodeToolDefinition[] {
@@ -95,6 +178,7 @@ export function setDynamicNodeTools(entries: NodeToolRegistryEntry[]): void {
         });
         dynamicToolNames.add(toolName);
     }
+    emitToolsChange();
 }
 
 export function clearDynamicNodeTools(): void {
@@ -102,6 +186,7 @@ export function clearDynamicNodeTools(): void {
         nodeToolRegistry.delete(toolName);
     }
     dynamicToolNames.clear();
+    emitToolsChange();
 }
 
 // 调用 Node 工具
@@ -115,11 +200,12 @@ export async function callNodeTool(ctx: Context, request: { name: string; argume
     const entry = nodeToolRegistry.get(name);
     if (!entry) {
         logger.error('[MCP工具调用] 未知工具: %s', name);
-        throw new Error(`Unknown node tool: ${name}`);
+        throw new MCPError(JSONRPC_ERRORS.INVALID_PARAMS, `Unknown node tool: ${name}`);
     }
     
     try {
-        const result = await entry.handler(ctx, args);
+        const validArgs = assertToolArguments(name, entry.tool.inputSchema || entry.tool.parameters, args);
+        const result = await entry.handler(ctx, validArgs);
         const duration = Date.now() - startTime;
         
         // 记录工具调用成功
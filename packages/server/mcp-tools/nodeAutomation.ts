@@ -0,0 +1,112 @@
+import { Context } from 'cordis';
+import { Logger } from '@ejunz/utils';
+import { describeAutomationTrigger } from '../model/automation';
+import type AutomationService from '../service/automation';
+
+const logger = new Logger('node-mcp-automation');
+
+async function withAutomation<T>(ctx: Context, fn: (svc: AutomationService) => Promise<T>): Promise<T> {
+    let result: T;
+    await ctx.inject(['automation'], async (c) => {
+        const svc = c.automation;
+        if (!svc) throw new Error('自动化服务未启用');
+        result = await fn(svc);
+    });
+    return result;
+}
+
+export const automationListRulesTool = {
+    name: 'automation_list_rules',
+    description: '列出节点本地的自动化规则（触发器、动作、启用状态与最近一次执行结果）。这些规则在节点本地运行，上游离线时仍然生效。',
+    inputSchema: {
+        type: 'object',
+        properties: {},
+        required: [],
+    },
+};
+
+export async function callAutomationListRulesTool(ctx: Context) {
+    const rules = await withAutomation(ctx, (svc) => svc.listRules());
+    return {
+        count: rules.length,
+        rules: rules.map((rule) => ({
+            id: rule._id,
+            name: rule.name,
+            description: rule.description,
+            enabled: rule.enabled,
+            triggers: rule.triggers.map(describeAutomationTrigger),
+            condition: rule.condition,
+            actions: rule.actions,
+            cooldown: rule.cooldown,
+            running: rule.running,
+            lastRun: rule.lastRun || null,
+        })),
+    };
+}
+
+export const automationSaveRuleTool = {
+    name: 'automation_save_rule',
+    description: [
+        '新建或修改节点本地的自动化规则（提供 id 时修改）。',
+        'triggers：{type:"device",deviceId,field?,operator?,value?} 设备属性变化或越过阈值（operator: equals/not_equals/greater_than/less_than/contains/changed/changed_from_to）；',
+        '{type:"schedule",cron:"30 7 * * 1-5"}；{type:"sun",event:"sunrise"|"sunset",offset?:分钟}；{type:"mqtt",topic:"home/+/button",field?,operator?,value?}。',
+        'condition（可选）：{field,operator,value} 或 all/any/not 组合，字段如 devices.<设备>.temperature、time.hhmm（如 730）、time.weekday、sun.up。',
+        'actions 按顺序执行：{type:"device",deviceId,payload:{state:"ON"}}；{type:"mqtt",topic,payload,retain?}；{type:"tool",tool,arguments}；{type:"delay",seconds}。',
+        '字符串中可使用 {{trigger.value}}、{{devices.<设备>.<属性>}} 模板。',
+    ].join(''),
+    inputSchema: {
+        type: 'object',
+        properties: {
+            id: { type: 'string', description: '要修改的规则 ID，新建时不填' },
+            name: { type: 'string', description: '规则名称' },
+            description: { type: 'string' },
+            enabled: { type: 'boolean', default: true },
+            triggers: { type: 'array', items: { type: 'object' }, description: '触发器列表，任一触发即执行' },
+            condition: { type: 'object', description: '触发后还需满足的条件（可选）' },
+            actions: { type: 'array', items: { type: 'object' }, description: '按顺序执行的动作列表' },
+            cooldown: { type: 'number', minimum: 0, description: '两次执行的最小间隔（秒）' },
+        },
+        required: ['name', 'triggers', 'actions'],
+    },
+};
+
+export async function callAutomationSaveRuleTool(ctx: Context, args: any) {
+    const rule = await withAutomation(ctx, (svc) => svc.saveRule(args));
+    logger.info('[automation_save_rule] %s (%s)', rule.name, rule._id);
+    return { success: true, id: rule._id, name: rule.name, enabled: rule.enabled };
+}
+
+export const automationDeleteRuleTool = {
+    name: 'automation_delete_rule',
+    description: '删除节点本地的自动化规则',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            id: { type: 'string', description: '规则 ID（可通过 automation_list_rules 获取）' },
+        },
+        required: ['id'],
+    },
+};
+
+export async function callAutomationDeleteRuleTool(ctx: Context, args: any) {
+    const removed = await withAutomation(ctx, (svc) => svc.removeRule(args.id));
+    if (!removed) throw new Error(`规则不存在: ${args.id}`);
+    return { success: true, id: args.id };
+}
+
+export const automationRunRuleTool = {
+    name: 'automation_run_rule',
+    description: '立即执行一条自动化规则的动作（忽略触发器；check 为 true 时仍检查条件）',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            id: { type: 'string', description: '规则 ID' },
+            check: { type: 'boolean', default: false, description: '是否检查规则条件' },
+        },
+        required: ['id'],
+    },
+};
+
+export async function callAutomationRunRuleTool(ctx: Context, args: any) {
+    return withAutomation(ctx, (svc) => svc.runRule(args.id, { check: args.check }));
+}
@@ -0,0 +1,55 @@
+import { Context } from 'cordis';
+import { HISTORY_AGGREGATIONS } from '../model/device-history';
+
+export const zigbeeGetDeviceHistoryTool = {
+    name: 'zigbee_get_device_history',
+    description: [
+        '查询 Zigbee 设备属性的历史数据（如“客厅过去 24 小时的温度”）。',
+        'device 可以是设备 ID，也可以是名称的一部分（如 "living room"），匹配到多个设备时会返回候选列表；',
+        '返回每个属性按时间桶聚合的曲线以及整个时间范围内的最小、最大、平均与最新值。',
+    ].join(''),
+    inputSchema: {
+        type: 'object',
+        properties: {
+            device: { type: 'string', description: '设备 ID 或名称' },
+            property: { type: 'string', description: '属性名，如 temperature、humidity、state；不填返回全部属性' },
+            hours: { type: 'number', minimum: 0, default: 24, description: '查询最近多少小时（未指定 from 时生效）' },
+            from: { type: 'string', description: '开始时间（ISO 时间或毫秒时间戳，可选）' },
+            to: { type: 'string', description: '结束时间（默认当前时间）' },
+            aggregation: { type: 'string', enum: [...HISTORY_AGGREGATIONS], default: 'avg', description: '数值属性的桶内聚合方式' },
+            bucket: { type: 'number', minimum: 60, description: '时间桶大小（秒），不填时自动选择' },
+        },
+        required: ['device'],
+    },
+};
+
+export async function callZigbeeGetDeviceHistoryTool(ctx: Context, args: any) {
+    let result: any;
+    await ctx.inject(['deviceHistory'], async (c) => {
+        const svc = c.deviceHistory;
+        if (!svc) throw new Error('设备历史服务未启用');
+        const device = await svc.resolveDevice(String(args.device || ''));
+        result = await svc.query(device, {
+            from: args.from,
+            to: args.to,
+            hours: args.hours,
+            bucket: args.bucket,
+            aggregation: args.aggregation,
+            properties: args.property ? [args.property] : undefined,
+        });
+    });
+    return {
+        device: result.device,
+        from: new Date(result.from).toISOString(),
+        to: new Date(result.to).toISOString(),
+        bucket: result.bucket,
+        aggregation: result.aggregation,
+        series: result.series.map((series) => ({
+            property: series.property,
+            type: series.type,
+            summary: { ...series.summary, lastAt: new Date(series.summary.lastAt).toISOString() },
+            points: series.points.map((point) => [new Date(point.t).toISOString(), point.v]),
+        })),
+        ...(result.series.length ? {} : { message: `${result.device} 在该时间范围内没有${args.property ? ` ${args.property} ` : ''}历史数据` }),
+    };
+}
@@ -244,3 +244,40 @@ export async function callZigbeeControlTool(ctx: Context, args: any): Promise<an
     return result;
 }
 
+
+// 网络健康诊断
+export const zigbeeNetworkHealthTool = {
+    name: 'zigbee_network_health',
+    description: '诊断 Zigbee 网络健康状况：哪些设备离线或长时间未上报、电量低、信号弱或脱网。当用户询问"哪些设备离线"、"哪些设备没电了"、"网络信号怎么样"等问题时调用此工具。refreshMap 为 true 时会先重新扫描网络拓扑（需要数十秒到数分钟）。',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            types: {
+                type: 'array',
+                items: { type: 'string', enum: ['offline', 'no_data', 'low_battery', 'weak_link', 'orphaned', 'scan_failed'] },
+                description: '只返回这些类型的告警（如只看离线设备时传 ["offline"]），不填返回全部',
+            },
+            refreshMap: { type: 'boolean', default: false, description: '是否重新扫描网络拓扑以检查链路质量与孤立设备' },
+        },
+        required: [],
+    },
+};
+
+export async function callZigbeeNetworkHealthTool(ctx: Context, args: any): Promise<any> {
+    let health: any;
+    await ctx.inject(['zigbee2mqtt'], async (c) => {
+        const svc = c.zigbee2mqtt;
+        if (!svc) {
+            throw new Error('Zigbee2MQTT 服务未初始化');
+        }
+        health = await svc.getNetworkHealth({ refreshMap: !!args?.refreshMap });
+    });
+    const types: string[] = Array.isArray(args?.types) ? args.types : [];
+    const warnings = types.length ? health.warnings.filter((w: any) => types.includes(w.type)) : health.warnings;
+    logger.info('[zigbee_network_health] %d 条告警', warnings.length);
+    return {
+        ...health,
+        warnings,
+        ...(health.mapAt ? {} : { note: '尚未扫描网络拓扑，链路与孤立设备检查仅基于设备上报的信号质量' }),
+    };
+}
@@ -0,0 +1,258 @@
+import { Context } from 'cordis';
+import { Logger } from '@ejunz/utils';
+
+const logger = new Logger('node-mcp-zigbee-exposes');
+
+/**
+ * 根据 zigbee2mqtt 的 exposes 定义生成设备工具
+ * - light / cover / climate / lock / fan：可写（access 含 SET）的特性作为参数，取值范围与枚举取自 exposes
+ * - 只读特性（温度、湿度、人体、门磁、电量等）合并为一个读数工具，返回设备最近上报的值
+ * 开关（switch / state）仍由 client/node.ts 中的 _switch 工具负责
+ */
+
+// exposes 的 access 位：1 = 会上报状态，2 = 可设置，4 = 可主动读取
+const ACCESS_STATE = 1;
+const ACCESS_SET = 2;
+
+export type ZigbeeExposeToolKind = 'light' | 'cover' | 'climate' | 'lock' | 'fan' | 'reading';
+
+export interface ZigbeeFeatureBinding {
+    property: string;
+    type: string;
+    unit?: string;
+    valueOn?: any;
+    valueOff?: any;
+}
+
+export interface ZigbeeExposeToolSpec {
+    kind: ZigbeeExposeToolKind;
+    endpoint?: string;
+    description: string;
+    parameters: { type: 'object'; properties: Record<string, any>; required: string[] };
+    // 参数名（或读数名） -> z2m 属性
+    bindings: Record<string, ZigbeeFeatureBinding>;
+}
+
+const ACTUATOR_LABELS: Record<string, string> = {
+    light: '灯',
+    cover: '窗帘',
+    climate: '温控器',
+    lock: '门锁',
+    fan: '风扇',
+};
+
+// 读数中不展示的诊断类属性
+const IGNORED_READINGS = ['linkquality', 'update', 'update_available'];
+
+function accessOf(feature: any, fallback: number) {
+    return typeof feature?.access === 'number' ? feature.access : fallback;
+}
+
+function flatten(features: any[]): any[] {
+    const result: any[] = [];
+    for (const feature of features || []) {
+        if (!feature) continue;
+        result.push(feature);
+        if (feature.type !== 'composite' && Array.isArray(feature.features)) result.push(...flatten(feature.features));
+    }
+    return result;
+}
+
+function describe(feature: any, extra: string[] = []) {
+    const parts = [feature.description || feature.label || feature.name, ...extra];
+    if (feature.unit) parts.push(`单位 ${feature.unit}`);
+    return parts.filter(Boolean).join('；');
+}
+
+// 将一个 exposes 特性转换为 JSON Schema
+export function featureToSchema(feature: any): any | null {
+    switch (feature?.type) {
+    case 'binary': {
+        const values = [feature.value_on, feature.value_off, feature.value_toggle].filter((v) => v !== undefined);
+        if (values.length && values.every((v) => typeof v === 'boolean')) {
+            return { type: 'boolean', description: describe(feature) };
+        }
+        return {
+            type: 'string',
+            enum: values.length ? values.map(String) : ['ON', 'OFF'],
+            description: describe(feature, feature.value_on === 'ON' ? ['ON 为开，OFF 为关'] : []),
+        };
+    }
+    case 'numeric': {
+        const schema: any = { type: 'number' };
+        const extra: string[] = [];
+        if (typeof feature.value_min === 'number') schema.minimum = feature.value_min;
+        if (typeof feature.value_max === 'number') schema.maximum = feature.value_max;
+        if (schema.minimum !== undefined || schema.maximum !== undefined) extra.push(`范围 ${schema.minimum ?? '-∞'}~${schema.maximum ?? '∞'}`);
+        if (typeof feature.value_step === 'number') extra.push(`步长 ${feature.value_step}`);
+        if (Array.isArray(feature.presets) && feature.presets.length) {
+            extra.push(`预设：${feature.presets.map((p: any) => `${p.name}=${p.value}`).join(', ')}`);
+        }
+        schema.description = describe(feature, extra);
+        return schema;
+    }
+    case 'enum':
+        return Array.isArray(feature.values) && feature.values.length
+            ? { type: 'string', enum: feature.values.map(String), description: describe(feature) }
+            : null;
+    case 'text':
+        return { type: 'string', description: describe(feature) };
+    case 'composite': {
+        const properties: Record<string, any> = {};
+        for (const sub of feature.features || []) {
+            const schema = featureToSchema(sub);
+            if (schema) properties[sub.property || sub.name] = schema;
+        }
+        // 颜色还可以直接使用 #RRGGBB
+        if (feature.property === 'color' || /^color_/.test(feature.name || '')) {
+            properties.hex = { type: 'string', pattern: '^#?[0-9a-fA-F]{6}$', description: '颜色，如 #FF8800（与其他颜色分量二选一）' };
+        }
+        return Object.keys(properties).length
+            ? { type: 'object', properties, description: describe(feature) }
+            : null;
+    }
+    default:
+        return null;
+    }
+}
+
+function toBinding(feature: any): ZigbeeFeatureBinding {
+    return {
+        property: feature.property || feature.name,
+        type: feature.type,
+        unit: feature.unit,
+        valueOn: feature.value_on,
+        valueOff: feature.value_off,
+    };
+}
+
+function buildActuatorSpec(expose: any, deviceName: string): ZigbeeExposeToolSpec | null {
+    const properties: Record<string, any> = {};
+    const bindings: Record<string, ZigbeeFeatureBinding> = {};
+    for (const feature of expose.features || []) {
+        if (!(accessOf(feature, ACCESS_STATE | ACCESS_SET) & ACCESS_SET)) continue;
+        const schema = featureToSchema(feature);
+        if (!schema) continue;
+        // color_xy / color_hs 写入同一个 color 属性，合并为一个 color 参数
+        const name = feature.type === 'composite' && /^color_/.test(feature.name || '') ? 'color' : feature.name || feature.property;
+        if (!name) continue;
+        if (properties[name]?.type === 'object' && schema.type === 'object') {
+            properties[name].properties = { ...properties[name].properties, ...schema.properties };
+            continue;
+        }
+        properties[name] = schema;
+        bindings[name] = toBinding(feature);
+    }
+    const names = Object.keys(properties);
+    if (!names.length) return null;
+    const label = ACTUATOR_LABELS[expose.type];
+    return {
+        kind: expose.type,
+        endpoint: expose.endpoint,
+        description: `调节${label} ${deviceName}${expose.endpoint ? ` 端点 ${expose.endpoint}` : ''}：${names.join('、')}（只需提供要修改的参数）`,
+        parameters: { type: 'object', properties, required: [] },
+        bindings,
+    };
+}
+
+function buildReadingSpec(exposes: any[], deviceName: string): ZigbeeExposeToolSpec | null {
+    const bindings: Record<string, ZigbeeFeatureBinding> = {};
+    const labels: string[] = [];
+    for (const feature of flatten(exposes)) {
+        if (!['numeric', 'binary', 'enum'].includes(feature.type)) continue;
+        const access = accessOf(feature, ACCESS_STATE);
+        if (!(access & ACCESS_STATE) || (access & ACCESS_SET)) continue;
+        const property = feature.property || feature.name;
+        if (!property || IGNORED_READINGS.includes(property) || bindings[property]) continue;
+        bindings[property] = toBinding(feature);
+        labels.push(`${feature.label || feature.name || property}${feature.unit ? `(${feature.unit})` : ''}`);
+    }
+    if (!labels.length) return null;
+    return {
+        kind: 'reading',
+        description: `读取设备 ${deviceName} 最近上报的读数：${labels.join('、')}`,
+        parameters: { type: 'object', properties: {}, required: [] },
+        bindings,
+    };
+}
+
+/**
+ * 从设备的 exposes 生成工具描述（不含开关，开关由 _switch 工具负责）
+ */
+export function buildExposeToolSpecs(device: any): ZigbeeExposeToolSpec[] {
+    const exposes = device?.definition?.exposes || device?.exposes || [];
+    if (!Array.isArray(exposes) || !exposes.length) return [];
+    const deviceName = device.friendly_name || device.ieee_address;
+    const specs: ZigbeeExposeToolSpec[] = [];
+    for (const expose of exposes) {
+        if (!ACTUATOR_LABELS[expose?.type]) continue;
+        const spec = buildActuatorSpec(expose, deviceName);
+        if (spec) specs.push(spec);
+    }
+    const reading = buildReadingSpec(exposes, deviceName);
+    if (reading) specs.push(reading);
+    return specs;
+}
+
+async function withZigbee<T>(ctx: Context, fn: (svc: any) => Promise<T>): Promise<T> {
+    let result: T;
+    await ctx.inject(['zigbee2mqtt'], async (c) => {
+        const svc = c.zigbee2mqtt;
+        if (!svc) throw new Error('Zigbee2MQTT 服务未初始化');
+        result = await fn(svc);
+    });
+    return result;
+}
+
+function normalizeValue(binding: ZigbeeFeatureBinding, value: any) {
+    if (binding.type === 'composite' && value && typeof value === 'object' && value.hex) {
+        const hex = String(value.hex);
+        return { hex: hex.startsWith('#') ? hex : `#${hex}` };
+    }
+    return value;
+}
+
+/**
+ * 按参数设置设备属性（通过 <baseTopic>/<设备>/set 发布）
+ */
+export async function callZigbeeSetFeaturesTool(
+    ctx: Context, deviceId: string, bindings: Record<string, ZigbeeFeatureBinding>, args: Record<string, any>,
+) {
+    const payload: Record<string, any> = {};
+    for (const [name, binding] of Object.entries(bindings)) {
+        if (args?.[name] === undefined || args[name] === null || args[name] === '') continue;
+        payload[binding.property] = normalizeValue(binding, args[name]);
+    }
+    if (!Object.keys(payload).length) {
+        throw new Error(`至少需要提供一个参数：${Object.keys(bindings).join(', ')}`);
+    }
+    logger.info('[zigbee_set] %s -> %o', deviceId, payload);
+    await withZigbee(ctx, (svc) => svc.setDeviceState(deviceId, payload));
+    return { success: true, deviceId, payload };
+}
+
+/**
+ * 返回设备最近上报的读数；字符串形式的二值特性（如 ON / OFF）转换为 true / false
+ */
+export async function callZigbeeReadingTool(ctx: Context, deviceId: string, bindings: Record<string, ZigbeeFeatureBinding>) {
+    const device = await withZigbee(ctx, async (svc) => {
+        const devices = await svc.listDevices();
+        return devices.find((d: any) => d.friendly_name === deviceId || d.ieee_address === deviceId);
+    });
+    if (!device) throw new Error(`设备未找到: ${deviceId}`);
+    const state = device.state || {};
+    const readings: Record<string, any> = {};
+    for (const [name, binding] of Object.entries(bindings)) {
+        const raw = state[binding.property];
+        // 已是布尔值的保持原样（如 contact 以 false 表示打开）
+        const value = raw === undefined ? null
+            : binding.type === 'binary' && typeof raw !== 'boolean' && binding.valueOn !== undefined ? raw === binding.valueOn : raw;
+        readings[name] = binding.unit ? { value, unit: binding.unit } : value;
+    }
+    return {
+        deviceId,
+        readings,
+        lastSeen: device.lastSeen || device.last_seen || state.last_seen || null,
+        hasState: Object.keys(state).length > 0,
+    };
+}
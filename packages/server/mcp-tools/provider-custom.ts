@@ -0,0 +1,282 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { Context } from 'cordis';
+import superagent from 'superagent';
+import { Logger } from '@ejunz/utils';
+import { config } from '../config';
+import { asyncCommand } from '../utils/commandRunner';
+
+const logger = new Logger('provider-custom-tools');
+
+/**
+ * Provider 模式的自定义工具
+ * - command：命令模板按空白拆分为参数后再替换 {{参数}}，不经过 shell，参数无法注入额外命令
+ * - http：URL（参数自动编码）、请求头与请求体模板
+ * - module：插件目录（pluginsDir）中的 JS 模块，文件变化时重新加载
+ * 配置修改（/api/tools）与插件变化都会通知已连接的 MCP 客户端，无需重启
+ */
+
+export interface ProviderCustomToolConfig {
+    name: string;
+    description: string;
+    enabled: boolean;
+    type: 'command' | 'http';
+    inputSchema: { type: 'object'; properties: Record<string, any>; required: string[] };
+    command: string;
+    timeout: number;
+    http: {
+        method: string;
+        url: string;
+        headers: Record<string, string>;
+        body?: any;
+    };
+}
+
+export interface ProviderCustomToolEntry {
+    tool: {
+        name: string;
+        description: string;
+        parameters: { type: 'object'; properties: Record<string, any>; required: string[] };
+    };
+    handler: (ctx: Context, args: any) => Promise<any>;
+    source: 'command' | 'http' | 'module';
+    file?: string;
+}
+
+export const BUILTIN_PROVIDER_TOOLS = [
+    'get_current_time', 'get_server_status',
+    'host_list_processes', 'host_disk_usage', 'host_network', 'host_service_status', 'host_tail_logs', 'host_metrics_history',
+];
+
+const pluginTools = new Map<string, ProviderCustomToolEntry>();
+const pluginErrors = new Map<string, string>();
+const toolsChangeListeners = new Set<() => void>();
+
+// 订阅自定义工具变化，返回取消订阅函数
+export function onProviderToolsChange(listener: () => void): () => void {
+    toolsChangeListeners.add(listener);
+    return () => toolsChangeListeners.delete(listener);
+}
+
+export function emitProviderToolsChange() {
+    for (const listener of toolsChangeListeners) {
+        try {
+            listener();
+        } catch (e) {
+            logger.warn('工具集变化回调执行失败: %s', (e as Error).message);
+        }
+    }
+}
+
+function normalizeSchema(schema: any) {
+    const value = schema && typeof schema === 'object' ? schema : {};
+    return {
+        ...value,
+        type: 'object' as const,
+        properties: value.properties && typeof value.properties === 'object' ? value.properties : {},
+        required: Array.isArray(value.required) ? value.required : [],
+    };
+}
+
+export function normalizeCustomTool(input: any): ProviderCustomToolConfig {
+    const name = String(input?.name || '').trim();
+    if (!/^[\w-]+$/.test(name)) throw new Error('名称只能包含字母、数字、下划线和短横线');
+    if (BUILTIN_PROVIDER_TOOLS.includes(name)) throw new Error(`${name} 是内置工具名称`);
+    const type = input.type === 'http' ? 'http' : 'command';
+    const http = input.http && typeof input.http === 'object' ? input.http : {};
+    if (type === 'command' && !String(input.command || '').trim()) throw new Error('command 类型需要配置 command');
+    if (type === 'http' && !/^https?:\/\//.test(http.url || '')) throw new Error('http 类型需要配置 http(s):// 开头的 url');
+    return {
+        name,
+        description: String(input.description || ''),
+        enabled: input.enabled !== false,
+        type,
+        inputSchema: normalizeSchema(input.inputSchema),
+        command: String(input.command || ''),
+        timeout: Number(input.timeout) > 0 ? Number(input.timeout) : 10000,
+        http: {
+            method: String(http.method || 'GET').toUpperCase(),
+            url: String(http.url || ''),
+            headers: http.headers && typeof http.headers === 'object' ? http.headers : {},
+            ...(http.body !== undefined ? { body: http.body } : {}),
+        },
+    };
+}
+
+export function getCustomToolConfigs(): ProviderCustomToolConfig[] {
+    return Array.isArray((config as any).customTools) ? (config as any).customTools : [];
+}
+
+function stringify(value: any) {
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// 替换 {{name}}，未提供的参数替换为空字符串
+function render(template: string, args: Record<string, any>, encode: (value: string) => string = (v) => v) {
+    return String(template).replace(/\{\{\s*([\w-]+)\s*\}\}/g, (_, key) => encode(stringify(args[key])));
+}
+
+// 请求体模板：整个字符串为 {{name}} 时保留参数原始类型
+function renderValue(value: any, args: Record<string, any>): any {
+    if (typeof value === 'string') {
+        const whole = value.match(/^\{\{\s*([\w-]+)\s*\}\}$/);
+        return whole ? args[whole[1]] : render(value, args);
+    }
+    if (Array.isArray(value)) return value.map((item) => renderValue(item, args));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, renderValue(v, args)]));
+    }
+    return value;
+}
+
+// 按空白拆分命令，支持单/双引号包裹含空格的参数
+function splitCommand(command: string) {
+    const tokens: string[] = [];
+    const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(command))) tokens.push(match[1] ?? match[2] ?? match[3]);
+    return tokens;
+}
+
+async function runCommandTool(tool: ProviderCustomToolConfig, args: Record<string, any>) {
+    const argv = splitCommand(tool.command).map((token) => render(token, args));
+    const startTime = Date.now();
+    try {
+        const output = await asyncCommand(argv, tool.timeout);
+        return { command: argv, output: output.trimEnd(), duration: Date.now() - startTime };
+    } catch (e) {
+        // asyncCommand 在非零退出时以退出码 reject
+        if (typeof e === 'number') throw new Error(`命令退出码 ${e}: ${argv.join(' ')}`);
+        if ((e as Error).message === 'timeout') throw new Error(`命令执行超时（${tool.timeout}ms）: ${argv.join(' ')}`);
+        throw e;
+    }
+}
+
+async function runHttpTool(tool: ProviderCustomToolConfig, args: Record<string, any>) {
+    const { method, url, headers, body } = tool.http;
+    const request = superagent(method, render(url, args, encodeURIComponent)).timeout(tool.timeout);
+    for (const [key, value] of Object.entries(headers || {})) request.set(key, render(value, args));
+    if (body !== undefined && method !== 'GET' && method !== 'HEAD') request.send(renderValue(body, args));
+    try {
+        const res = await request;
+        const hasJson = res.body && (typeof res.body !== 'object' || Object.keys(res.body).length);
+        return { status: res.status, body: hasJson ? res.body : res.text };
+    } catch (e: any) {
+        if (e.response) throw new Error(`HTTP ${e.response.status}: ${String(e.response.text || '').slice(0, 500)}`);
+        throw e;
+    }
+}
+
+function toEntry(tool: ProviderCustomToolConfig): ProviderCustomToolEntry {
+    return {
+        tool: { name: tool.name, description: tool.description, parameters: tool.inputSchema },
+        handler: (ctx, args) => (tool.type === 'http' ? runHttpTool(tool, args) : runCommandTool(tool, args)),
+        source: tool.type,
+    };
+}
+
+// 已启用的自定义工具：配置中的命令/HTTP 工具在前，插件工具在后（同名时配置优先）
+export function listCustomToolEntries(): ProviderCustomToolEntry[] {
+    const entries: ProviderCustomToolEntry[] = [];
+    for (const tool of getCustomToolConfigs()) {
+        if (!tool?.name || tool.enabled === false) continue;
+        try {
+            entries.push(toEntry(normalizeCustomTool(tool)));
+        } catch (e) {
+            logger.warn('自定义工具 %s 配置无效: %s', tool.name, (e as Error).message);
+        }
+    }
+    const names = new Set(entries.map((entry) => entry.tool.name));
+    for (const entry of pluginTools.values()) {
+        if (!names.has(entry.tool.name) && !BUILTIN_PROVIDER_TOOLS.includes(entry.tool.name)) entries.push(entry);
+    }
+    return entries;
+}
+
+export function listPluginTools() {
+    return {
+        dir: getPluginsDir(),
+        tools: Array.from(pluginTools.values()).map((entry) => ({ ...entry.tool, file: entry.file })),
+        errors: Object.fromEntries(pluginErrors),
+    };
+}
+
+function getPluginsDir() {
+    return path.resolve(process.cwd(), (config as any).pluginsDir || 'plugins');
+}
+
+/**
+ * 插件模块导出一个工具定义或其数组（支持 default 导出）：
+ * { name, description, inputSchema, handler(args, ctx) }
+ */
+function loadPluginFile(file: string) {
+    const resolved = require.resolve(file);
+    delete require.cache[resolved];
+    // eslint-disable-next-line global-require, import/no-dynamic-require
+    const exported = require(resolved);
+    const value = exported?.default ?? exported;
+    const definitions = Array.isArray(value) ? value : [value];
+    return definitions.map((definition): ProviderCustomToolEntry => {
+        const name = String(definition?.name || '');
+        if (!/^[\w-]+$/.test(name)) throw new Error('工具名称无效');
+        if (typeof definition.handler !== 'function') throw new Error(`工具 ${name} 缺少 handler`);
+        return {
+            tool: {
+                name,
+                description: String(definition.description || ''),
+                parameters: normalizeSchema(definition.inputSchema || definition.parameters),
+            },
+            handler: (ctx, args) => Promise.resolve(definition.handler(args, ctx)),
+            source: 'module',
+            file: path.basename(file),
+        };
+    });
+}
+
+export function reloadPluginTools() {
+    const dir = getPluginsDir();
+    pluginTools.clear();
+    pluginErrors.clear();
+    if (!fs.existsSync(dir)) return;
+    for (const file of fs.readdirSync(dir).filter((f) => /\.(c?js)$/.test(f)).sort()) {
+        try {
+            for (const entry of loadPluginFile(path.join(dir, file))) {
+                if (pluginTools.has(entry.tool.name)) logger.warn('插件工具 %s 重复定义，使用 %s 中的版本', entry.tool.name, file);
+                pluginTools.set(entry.tool.name, entry);
+            }
+        } catch (e) {
+            pluginErrors.set(file, (e as Error).message);
+            logger.error('加载插件 %s 失败: %s', file, (e as Error).message);
+        }
+    }
+    logger.info('已加载 %d 个插件工具（%s）', pluginTools.size, dir);
+}
+
+/**
+ * 加载插件目录并监听变化（防抖后整体重新加载），返回停止函数
+ */
+export function watchPluginTools(): () => void {
+    const dir = getPluginsDir();
+    fs.mkdirSync(dir, { recursive: true });
+    reloadPluginTools();
+
+    let timer: NodeJS.Timeout | null = null;
+    let watcher: fs.FSWatcher | null = null;
+    try {
+        watcher = fs.watch(dir, () => {
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(() => {
+                timer = null;
+                reloadPluginTools();
+                emitProviderToolsChange();
+            }, 300);
+        });
+    } catch (e) {
+        logger.warn('无法监听插件目录 %s: %s', dir, (e as Error).message);
+    }
+    return () => {
+        if (timer) clearTimeout(timer);
+        watcher?.close();
+    };
+}
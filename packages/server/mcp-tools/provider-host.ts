@@ -0,0 +1,397 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Context } from 'cordis';
+import { Logger } from '@ejunz/utils';
+import { config } from '../config';
+import { asyncCommand } from '../utils/commandRunner';
+import type { MCPTool } from './provider-server-status';
+
+const logger = new Logger('provider-host-tools');
+
+/**
+ * 主机巡检工具（只读）：进程、磁盘、网络与监听端口、systemd 服务、日志尾部、CPU/内存历史
+ * 命令均以参数数组执行（不经过 shell），输出按条数与字符数截断
+ */
+
+const MAX_OUTPUT_CHARS = 20000;
+const MAX_TAIL_BYTES = 2 * 1024 * 1024;
+const COMMAND_TIMEOUT = 10000;
+// 伪文件系统默认不计入磁盘用量
+const PSEUDO_FS = ['tmpfs', 'devtmpfs', 'squashfs', 'overlay', 'proc', 'sysfs', 'cgroup', 'cgroup2', 'efivarfs', 'ramfs'];
+const UNIT_NAME = /^[\w@.:-]+$/;
+
+export function getHostToolsConfig() {
+    const cfg = (config as any).hostTools || {};
+    return {
+        logPaths: (Array.isArray(cfg.logPaths) && cfg.logPaths.length ? cfg.logPaths : ['/var/log']) as string[],
+        sampleInterval: Number(cfg.sampleInterval) >= 1000 ? Number(cfg.sampleInterval) : 10000,
+        historySize: Number(cfg.historySize) > 0 ? Number(cfg.historySize) : 360,
+    };
+}
+
+function clamp(value: any, min: number, max: number, fallback: number) {
+    const num = Number(value);
+    if (!Number.isFinite(num)) return fallback;
+    return Math.min(Math.max(Math.floor(num), min), max);
+}
+
+// 超出字符上限时保留末尾（日志）或开头
+function limitText(text: string, keepTail = false) {
+    if (text.length <= MAX_OUTPUT_CHARS) return { text, truncated: false };
+    return {
+        text: keepTail ? text.slice(-MAX_OUTPUT_CHARS) : text.slice(0, MAX_OUTPUT_CHARS),
+        truncated: true,
+    };
+}
+
+async function run(argv: string[]) {
+    try {
+        return await asyncCommand(argv, COMMAND_TIMEOUT);
+    } catch (e) {
+        if (typeof e === 'number') throw new Error(`${argv[0]} 退出码 ${e}`);
+        throw new Error(`${argv[0]} 执行失败: ${(e as Error).message}`);
+    }
+}
+
+export const hostProcessesTool: MCPTool = {
+    name: 'host_list_processes',
+    description: '列出主机进程，按 CPU 或内存占用排序（只读）',
+    parameters: {
+        type: 'object',
+        properties: {
+            sort: { type: 'string', enum: ['cpu', 'memory'], default: 'cpu', description: '排序字段' },
+            limit: { type: 'integer', minimum: 1, maximum: 100, default: 20, description: '返回的进程数' },
+            filter: { type: 'string', description: '按命令名或命令行过滤（不区分大小写）' },
+        },
+        required: [],
+    },
+};
+
+export async function callHostProcessesTool(ctx: Context, args: { sort?: string; limit?: number; filter?: string }) {
+    const output = await run(['ps', '-eo', 'pid=,ppid=,user=,pcpu=,pmem=,rss=,etimes=,comm=,args=']);
+    const filter = args.filter?.toLowerCase();
+    const processes = output.split('\n').filter(Boolean).map((line) => {
+        const parts = line.trim().split(/\s+/);
+        return {
+            pid: Number(parts[0]),
+            ppid: Number(parts[1]),
+            user: parts[2],
+            cpu_percent: Number(parts[3]),
+            memory_percent: Number(parts[4]),
+            rss_bytes: Number(parts[5]) * 1024,
+            elapsed_seconds: Number(parts[6]),
+            name: parts[7],
+            command: parts.slice(8).join(' ').slice(0, 200),
+        };
+    }).filter((p) => !filter || p.name?.toLowerCase().includes(filter) || p.command.toLowerCase().includes(filter));
+    const key = args.sort === 'memory' ? 'memory_percent' : 'cpu_percent';
+    processes.sort((a, b) => b[key] - a[key]);
+    return {
+        total: processes.length,
+        sort: args.sort === 'memory' ? 'memory' : 'cpu',
+        processes: processes.slice(0, clamp(args.limit, 1, 100, 20)),
+    };
+}
+
+export const hostDiskUsageTool: MCPTool = {
+    name: 'host_disk_usage',
+    description: '查看各挂载点的磁盘用量（只读）',
+    parameters: {
+        type: 'object',
+        properties: {
+            includePseudo: { type: 'boolean', default: false, description: '是否包含 tmpfs、overlay 等伪文件系统' },
+        },
+        required: [],
+    },
+};
+
+export async function callHostDiskUsageTool(ctx: Context, args: { includePseudo?: boolean }) {
+    const output = await run(['df', '-PT', '-B1']);
+    const mounts = output.split('\n').slice(1).filter(Boolean).map((line) => {
+        const parts = line.trim().split(/\s+/);
+        const total = Number(parts[2]);
+        const used = Number(parts[3]);
+        return {
+            filesystem: parts[0],
+            type: parts[1],
+            total_bytes: total,
+            used_bytes: used,
+            available_bytes: Number(parts[4]),
+            usage_percent: total ? Number(((used / total) * 100).toFixed(2)) : 0,
+            mount: parts.slice(6).join(' '),
+        };
+    }).filter((m) => args.includePseudo || !PSEUDO_FS.includes(m.type));
+    return { mounts };
+}
+
+export const hostNetworkTool: MCPTool = {
+    name: 'host_network',
+    description: '查看网络接口地址与监听中的 TCP/UDP 端口（只读）',
+    parameters: {
+        type: 'object',
+        properties: {
+            includeListening: { type: 'boolean', default: true, description: '是否包含监听端口' },
+            includeInternal: { type: 'boolean', default: false, description: '是否包含回环等内部接口' },
+        },
+        required: [],
+    },
+};
+
+// ss 输出的地址形如 0.0.0.0:22、[::]:80、*:5353
+function splitAddress(value: string) {
+    const index = value.lastIndexOf(':');
+    return { address: value.slice(0, index).replace(/^\[|\]$/g, ''), port: Number(value.slice(index + 1)) || value.slice(index + 1) };
+}
+
+export async function callHostNetworkTool(ctx: Context, args: { includeListening?: boolean; includeInternal?: boolean }) {
+    const interfaces = Object.entries(os.networkInterfaces())
+        .map(([name, addrs]) => ({
+            name,
+            mac: addrs?.[0]?.mac,
+            addresses: (addrs || [])
+                .filter((a) => args.includeInternal || !a.internal)
+                .map((a) => ({ address: a.address, family: a.family, cidr: a.cidr })),
+        }))
+        .filter((iface) => iface.addresses.length);
+    const result: any = { interfaces };
+    if (args.includeListening !== false) {
+        try {
+            const output = await run(['ss', '-H', '-tuln']);
+            result.listening = output.split('\n').filter(Boolean).slice(0, 500).map((line) => {
+                const parts = line.trim().split(/\s+/);
+                return { protocol: parts[0], state: parts[1], ...splitAddress(parts[4] || '') };
+            });
+        } catch (e) {
+            result.listening_error = (e as Error).message;
+        }
+    }
+    return result;
+}
+
+export const hostServicesTool: MCPTool = {
+    name: 'host_service_status',
+    description: '查看 systemd 服务状态：指定 unit 时返回详情，否则列出服务（只读）',
+    parameters: {
+        type: 'object',
+        properties: {
+            unit: { type: 'string', description: '服务名，如 nginx.service' },
+            state: { type: 'string', description: '列出时按状态过滤，如 running、failed、inactive' },
+            limit: { type: 'integer', minimum: 1, maximum: 500, default: 100 },
+        },
+        required: [],
+    },
+};
+
+const UNIT_PROPERTIES = [
+    'Id', 'Description', 'LoadState', 'ActiveState', 'SubState', 'UnitFileState', 'MainPID',
+    'ExecMainStartTimestamp', 'ActiveEnterTimestamp', 'NRestarts', 'MemoryCurrent', 'Result',
+];
+
+export async function callHostServicesTool(ctx: Context, args: { unit?: string; state?: string; limit?: number }) {
+    if (args.unit) {
+        if (!UNIT_NAME.test(args.unit) || args.unit.startsWith('-')) throw new Error(`服务名无效: ${args.unit}`);
+        const output = await run(['systemctl', 'show', args.unit, '--no-pager', `--property=${UNIT_PROPERTIES.join(',')}`]);
+        const unit: Record<string, string> = {};
+        for (const line of output.split('\n')) {
+            const index = line.indexOf('=');
+            if (index > 0) unit[line.slice(0, index)] = line.slice(index + 1);
+        }
+        return { unit };
+    }
+    const output = await run(['systemctl', 'list-units', '--type=service', '--all', '--no-legend', '--no-pager', '--plain']);
+    const state = args.state?.toLowerCase();
+    const units = output.split('\n').filter(Boolean).map((line) => {
+        const parts = line.trim().split(/\s+/);
+        return {
+            unit: parts[0], load: parts[1], active: parts[2], sub: parts[3], description: parts.slice(4).join(' '),
+        };
+    }).filter((u) => !state || u.active === state || u.sub === state);
+    return { total: units.length, units: units.slice(0, clamp(args.limit, 1, 500, 100)) };
+}
+
+export const hostLogsTool: MCPTool = {
+    name: 'host_tail_logs',
+    description: '查看 journald 或日志文件的末尾若干行，可按关键字过滤（只读，文件限于配置的日志目录）',
+    parameters: {
+        type: 'object',
+        properties: {
+            source: { type: 'string', enum: ['journal', 'file'], default: 'journal' },
+            unit: { type: 'string', description: 'journal：只看指定服务' },
+            since: { type: 'string', description: 'journal：起始时间，如 "1 hour ago"、"2024-01-01 10:00"' },
+            path: { type: 'string', description: 'file：日志文件路径' },
+            lines: { type: 'integer', minimum: 1, maximum: 500, default: 100 },
+            grep: { type: 'string', description: '只保留包含该关键字的行（不区分大小写）' },
+        },
+        required: [],
+    },
+};
+
+// 文件须位于 hostTools.logPaths 之下（解析符号链接后判断）
+function resolveLogFile(file: string) {
+    let real: string;
+    try {
+        real = fs.realpathSync(path.resolve(file));
+    } catch {
+        throw new Error(`日志文件不存在: ${file}`);
+    }
+    const allowed = getHostToolsConfig().logPaths.some((root) => {
+        let base: string;
+        try {
+            base = fs.realpathSync(root);
+        } catch {
+            return false;
+        }
+        return real === base || real.startsWith(base.endsWith(path.sep) ? base : base + path.sep);
+    });
+    if (!allowed) throw new Error(`只能读取以下目录中的日志: ${getHostToolsConfig().logPaths.join(', ')}`);
+    if (!fs.statSync(real).isFile()) throw new Error(`不是文件: ${file}`);
+    return real;
+}
+
+function readTail(file: string) {
+    const { size } = fs.statSync(file);
+    const length = Math.min(size, MAX_TAIL_BYTES);
+    const buffer = Buffer.alloc(length);
+    const fd = fs.openSync(file, 'r');
+    try {
+        fs.readSync(fd, buffer, 0, length, size - length);
+    } finally {
+        fs.closeSync(fd);
+    }
+    const lines = buffer.toString('utf8').split('\n');
+    // 从中间截取时第一行可能不完整
+    if (length < size) lines.shift();
+    return lines;
+}
+
+export async function callHostLogsTool(ctx: Context, args: {
+    source?: string; unit?: string; since?: string; path?: string; lines?: number; grep?: string;
+}) {
+    const count = clamp(args.lines, 1, 500, 100);
+    const keyword = args.grep?.toLowerCase();
+    let lines: string[];
+    if (args.source === 'file') {
+        if (!args.path) throw new Error('source 为 file 时需要提供 path');
+        lines = readTail(resolveLogFile(args.path));
+    } else {
+        const argv = ['journalctl', '--no-pager', '-o', 'short-iso', '-n', String(keyword ? Math.min(count * 20, 10000) : count)];
+        if (args.unit) {
+            if (!UNIT_NAME.test(args.unit) || args.unit.startsWith('-')) throw new Error(`服务名无效: ${args.unit}`);
+            argv.push('-u', args.unit);
+        }
+        if (args.since) {
+            if (!/^[\w\s:+.-]+$/.test(args.since) || args.since.startsWith('-')) throw new Error(`since 格式无效: ${args.since}`);
+            argv.push('--since', args.since);
+        }
+        lines = (await run(argv)).split('\n');
+    }
+    lines = lines.filter((line) => line && (!keyword || line.toLowerCase().includes(keyword))).slice(-count);
+    const { text, truncated } = limitText(lines.join('\n'), true);
+    return {
+        source: args.source === 'file' ? 'file' : 'journal',
+        lines: text.split('\n').filter(Boolean),
+        truncated,
+    };
+}
+
+interface HostSample {
+    timestamp: number;
+    cpu_percent: number;
+    memory_percent: number;
+    load1: number;
+}
+
+const samples: HostSample[] = [];
+let lastCpuTimes: { idle: number; total: number } | null = null;
+
+function readCpuTimes() {
+    let idle = 0;
+    let total = 0;
+    for (const cpu of os.cpus()) {
+        const { user, nice, sys, irq } = cpu.times;
+        idle += cpu.times.idle;
+        total += user + nice + sys + irq + cpu.times.idle;
+    }
+    return { idle, total };
+}
+
+function takeSample() {
+    const current = readCpuTimes();
+    if (lastCpuTimes) {
+        const total = current.total - lastCpuTimes.total;
+        const idle = current.idle - lastCpuTimes.idle;
+        const memory = 1 - os.freemem() / os.totalmem();
+        samples.push({
+            timestamp: Date.now(),
+            cpu_percent: total > 0 ? Number((((total - idle) / total) * 100).toFixed(2)) : 0,
+            memory_percent: Number((memory * 100).toFixed(2)),
+            load1: Number(os.loadavg()[0].toFixed(2)),
+        });
+        const { historySize } = getHostToolsConfig();
+        if (samples.length > historySize) samples.splice(0, samples.length - historySize);
+    }
+    lastCpuTimes = current;
+}
+
+/**
+ * 后台采样 CPU / 内存，保留最近 historySize 个点，返回停止函数
+ */
+export function startHostSampler(): () => void {
+    const { sampleInterval } = getHostToolsConfig();
+    takeSample();
+    const timer = setInterval(takeSample, sampleInterval);
+    timer.unref?.();
+    logger.info('主机指标采样已启动（间隔 %dms）', sampleInterval);
+    return () => clearInterval(timer);
+}
+
+export const hostMetricsHistoryTool: MCPTool = {
+    name: 'host_metrics_history',
+    description: '获取后台采样的 CPU、内存使用率与负载的时间序列（只读）',
+    parameters: {
+        type: 'object',
+        properties: {
+            minutes: { type: 'integer', minimum: 1, maximum: 1440, default: 15, description: '最近多少分钟' },
+            maxPoints: { type: 'integer', minimum: 1, maximum: 500, default: 120, description: '点数超过时按时间分桶取平均' },
+        },
+        required: [],
+    },
+};
+
+export async function callHostMetricsHistoryTool(ctx: Context, args: { minutes?: number; maxPoints?: number }) {
+    const since = Date.now() - clamp(args.minutes, 1, 1440, 15) * 60 * 1000;
+    const points = samples.filter((s) => s.timestamp >= since);
+    const maxPoints = clamp(args.maxPoints, 1, 500, 120);
+    let series = points;
+    if (points.length > maxPoints) {
+        const size = Math.ceil(points.length / maxPoints);
+        series = [];
+        for (let i = 0; i < points.length; i += size) {
+            const bucket = points.slice(i, i + size);
+            const avg = (key: keyof HostSample) => Number((bucket.reduce((sum, s) => sum + s[key], 0) / bucket.length).toFixed(2));
+            series.push({
+                timestamp: bucket[bucket.length - 1].timestamp,
+                cpu_percent: avg('cpu_percent'),
+                memory_percent: avg('memory_percent'),
+                load1: avg('load1'),
+            });
+        }
+    }
+    const max = (key: keyof HostSample) => (points.length ? Math.max(...points.map((s) => s[key])) : null);
+    return {
+        interval_ms: getHostToolsConfig().sampleInterval,
+        count: points.length,
+        peak: { cpu_percent: max('cpu_percent'), memory_percent: max('memory_percent') },
+        samples: series,
+    };
+}
+
+export const hostTools: Array<{ tool: MCPTool; handler: (ctx: Context, args: any) => Promise<any> }> = [
+    { tool: hostProcessesTool, handler: callHostProcessesTool },
+    { tool: hostDiskUsageTool, handler: callHostDiskUsageTool },
+    { tool: hostNetworkTool, handler: callHostNetworkTool },
+    { tool: hostServicesTool, handler: callHostServicesTool },
+    { tool: hostLogsTool, handler: callHostLogsTool },
+    { tool: hostMetricsHistoryTool, handler: callHostMetricsHistoryTool },
+];
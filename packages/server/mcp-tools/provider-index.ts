@@ -1,5 +1,9 @@
 import { Context } from 'cordis';
+import { assertToolArguments } from '../model/mcp-schema';
+import { JSONRPC_ERRORS, MCPError } from '../model/mcp-server';
 import { config } from '../config';
+import { listCustomToolEntries } from './provider-custom';
+import { hostTools } from './provider-host';
 import {
     callServerStatusTool, serverStatusTool,
 } from './provider-server-status';
@@ -47,6 +51,17 @@ export function getToolRegistry(): Record<string, {
         };
     }
 
+    // 主机巡检工具
+    for (const { tool, handler } of hostTools) {
+        if (config.tools?.[tool.name]?.enabled !== false) registry[tool.name] = { tool, handler };
+    }
+
+    // 自定义工具（配置中的命令/HTTP 模板与插件模块），插件工具通过 pluginTools.<name>.enabled 禁用
+    for (const entry of listCustomToolEntries()) {
+        if (entry.source === 'module' && (config as any).pluginTools?.[entry.tool.name]?.enabled === false) continue;
+        registry[entry.tool.name] = { tool: entry.tool, handler: entry.handler };
+    }
+
     return registry;
 }
 
@@ -63,10 +78,11 @@ export async function callTool(ctx: Context, request: MCPToolCallRequest): Promi
     const registry = getToolRegistry();
     const entry = registry[name];
     if (!entry) {
-        throw new Error(`Unknown tool: ${name}`);
+        throw new MCPError(JSONRPC_ERRORS.INVALID_PARAMS, `Unknown tool: ${name}`);
     }
-    
-    return await entry.handler(ctx, args);
+
+    // 按 parameters 校验参数（填充默认值并做类型转换），不通过时抛出 MCPToolArgumentsError
+    return await entry.handler(ctx, assertToolArguments(name, entry.tool.parameters, args));
 }
 
 // 检查工具是否存在
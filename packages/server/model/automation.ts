@@ -0,0 +1,218 @@
+import type { AutomationAction, AutomationRuleDoc, AutomationTrigger } from '../interface';
+import { getNestedValue, validateTrigger, TRIGGER_OPERATORS } from '../projection/trigger';
+
+/**
+ * 本地自动化规则：校验、cron 匹配、日出日落计算与 MQTT 主题匹配
+ * 规则的运行（订阅事件、定时、执行动作）见 service/automation.ts
+ */
+
+export const AUTOMATION_TRIGGER_TYPES = ['device', 'schedule', 'sun', 'mqtt'];
+export const AUTOMATION_ACTION_TYPES = ['device', 'mqtt', 'tool', 'delay'];
+
+const CRON_ALIASES: Record<string, string> = {
+    '@hourly': '0 * * * *',
+    '@daily': '0 0 * * *',
+    '@weekly': '0 0 * * 0',
+    '@monthly': '0 0 1 * *',
+};
+
+// 分 时 日 月 周 的取值范围
+const CRON_RANGES: Array<[number, number]> = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+export interface ParsedCron {
+    fields: Array<Set<number>>;
+    // 日与周都被限制时按“或”匹配（与标准 cron 一致）
+    domRestricted: boolean;
+    dowRestricted: boolean;
+}
+
+/**
+ * 解析 5 段 cron 表达式（支持 * , - / 以及 @hourly 等别名），无效时抛出错误
+ */
+export function parseCron(expression: string): ParsedCron {
+    const expr = CRON_ALIASES[String(expression || '').trim()] || String(expression || '').trim();
+    const parts = expr.split(/\s+/);
+    if (parts.length !== 5) throw new Error(`cron 表达式需要 5 段（分 时 日 月 周）: ${expression}`);
+    const fields = parts.map((part, index) => {
+        const [min, max] = CRON_RANGES[index];
+        const values = new Set<number>();
+        for (const item of part.split(',')) {
+            const [range, stepText] = item.split('/');
+            const step = stepText === undefined ? 1 : Number(stepText);
+            if (!Number.isInteger(step) || step <= 0) throw new Error(`cron 步长无效: ${item}`);
+            let start = min;
+            let end = max;
+            if (range !== '*') {
+                const [a, b] = range.split('-').map(Number);
+                if (!Number.isInteger(a) || (b !== undefined && !Number.isInteger(b))) throw new Error(`cron 字段无效: ${item}`);
+                start = a;
+                end = b ?? (stepText === undefined ? a : max);
+            }
+            if (start < min || end > max || start > end) throw new Error(`cron 字段超出范围 ${min}-${max}: ${item}`);
+            for (let value = start; value <= end; value += step) values.add(index === 4 && value === 7 ? 0 : value);
+        }
+        return values;
+    });
+    return { fields, domRestricted: parts[2] !== '*', dowRestricted: parts[4] !== '*' };
+}
+
+export function matchCron(cron: ParsedCron, date: Date) {
+    const [minutes, hours, dom, months, dow] = cron.fields;
+    if (!minutes.has(date.getMinutes()) || !hours.has(date.getHours()) || !months.has(date.getMonth() + 1)) return false;
+    const domMatch = dom.has(date.getDate());
+    const dowMatch = dow.has(date.getDay());
+    if (cron.domRestricted && cron.dowRestricted) return domMatch || dowMatch;
+    return domMatch && dowMatch;
+}
+
+/**
+ * 计算本地日期的日出、日落时间（NOAA 近似算法，误差约 1 分钟）；极昼极夜时对应值为 null
+ */
+export function getSunTimes(date: Date, latitude: number, longitude: number) {
+    const rad = Math.PI / 180;
+    const start = new Date(date.getFullYear(), 0, 0);
+    const dayOfYear = Math.floor((new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() - start.getTime()) / 86400000);
+    const lngHour = longitude / 15;
+    const mod = (value: number, m: number) => ((value % m) + m) % m;
+
+    const calc = (rising: boolean): Date | null => {
+        const t = dayOfYear + ((rising ? 6 : 18) - lngHour) / 24;
+        const M = 0.9856 * t - 3.289;
+        const L = mod(M + 1.916 * Math.sin(M * rad) + 0.020 * Math.sin(2 * M * rad) + 282.634, 360);
+        let RA = mod(Math.atan(0.91764 * Math.tan(L * rad)) / rad, 360);
+        RA = (RA + Math.floor(L / 90) * 90 - Math.floor(RA / 90) * 90) / 15;
+        const sinDec = 0.39782 * Math.sin(L * rad);
+        const cosDec = Math.cos(Math.asin(sinDec));
+        const cosH = (Math.cos(90.833 * rad) - sinDec * Math.sin(latitude * rad)) / (cosDec * Math.cos(latitude * rad));
+        if (cosH > 1 || cosH < -1) return null;
+        const H = (rising ? 360 - Math.acos(cosH) / rad : Math.acos(cosH) / rad) / 15;
+        const UT = mod(H + RA - 0.06571 * t - 6.622 - lngHour, 24);
+        const result = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) + UT * 3600000);
+        // UTC 日期与本地日期不同时校正到同一天
+        const diff = new Date(result.getFullYear(), result.getMonth(), result.getDate()).getTime()
+            - new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+        return diff ? new Date(result.getTime() - Math.round(diff / 86400000) * 86400000) : result;
+    };
+
+    return { sunrise: calc(true), sunset: calc(false) };
+}
+
+/**
+ * MQTT 主题匹配，支持 + 与 # 通配符
+ */
+export function matchMqttTopic(pattern: string, topic: string) {
+    const p = pattern.split('/');
+    const t = topic.split('/');
+    for (let i = 0; i < p.length; i++) {
+        if (p[i] === '#') return true;
+        if (i >= t.length) return false;
+        if (p[i] !== '+' && p[i] !== t[i]) return false;
+    }
+    return p.length === t.length;
+}
+
+// 将 {{path}} 替换为作用域中的值；整个字符串为 {{path}} 时保留原始类型
+export function renderAutomationValue(value: any, scope: any): any {
+    if (typeof value === 'string') {
+        const whole = value.match(/^\{\{\s*([\w.$-]+)\s*\}\}$/);
+        if (whole) return getNestedValue(scope, whole[1]);
+        return value.replace(/\{\{\s*([\w.$-]+)\s*\}\}/g, (_, path) => {
+            const v = getNestedValue(scope, path);
+            if (v == null) return '';
+            return typeof v === 'object' ? JSON.stringify(v) : String(v);
+        });
+    }
+    if (Array.isArray(value)) return value.map((v) => renderAutomationValue(v, scope));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, renderAutomationValue(v, scope)]));
+    }
+    return value;
+}
+
+function validateTriggerEntry(trigger: any, path: string): string | null {
+    if (!trigger || typeof trigger !== 'object') return `${path} 必须是对象`;
+    if (!AUTOMATION_TRIGGER_TYPES.includes(trigger.type)) return `${path}.type 不支持: ${trigger.type}`;
+    if (trigger.operator !== undefined && !TRIGGER_OPERATORS.includes(trigger.operator)) {
+        return `${path}.operator 不支持: ${trigger.operator}`;
+    }
+    if (trigger.operator && !trigger.field) return `${path} 设置 operator 时需要 field`;
+    switch (trigger.type) {
+    case 'device':
+        return trigger.deviceId ? null : `${path}.deviceId 不能为空`;
+    case 'schedule':
+        try {
+            parseCron(trigger.cron);
+            return null;
+        } catch (e) {
+            return `${path}.cron ${(e as Error).message}`;
+        }
+    case 'sun':
+        if (!['sunrise', 'sunset'].includes(trigger.event)) return `${path}.event 必须是 sunrise 或 sunset`;
+        return trigger.offset === undefined || Number.isFinite(Number(trigger.offset)) ? null : `${path}.offset 必须是分钟数`;
+    case 'mqtt':
+        return trigger.topic ? null : `${path}.topic 不能为空`;
+    default:
+        return null;
+    }
+}
+
+function validateActionEntry(action: any, path: string): string | null {
+    if (!action || typeof action !== 'object') return `${path} 必须是对象`;
+    switch (action.type) {
+    case 'device':
+        if (!action.deviceId) return `${path}.deviceId 不能为空`;
+        return action.payload && typeof action.payload === 'object' ? null : `${path}.payload 必须是对象，如 { "state": "ON" }`;
+    case 'mqtt':
+        return action.topic ? null : `${path}.topic 不能为空`;
+    case 'tool':
+        return action.tool ? null : `${path}.tool 不能为空`;
+    case 'delay':
+        return Number(action.seconds) > 0 && Number(action.seconds) <= 86400 ? null : `${path}.seconds 必须在 0~86400 之间`;
+    default:
+        return `${path}.type 不支持: ${action.type}`;
+    }
+}
+
+/**
+ * 校验并规范化规则输入（来自界面、API 或 MCP 工具），无效时抛出错误
+ */
+export function normalizeAutomationRule(input: any): Omit<AutomationRuleDoc, '_id' | 'createdAt' | 'updatedAt'> {
+    const name = String(input?.name || '').trim();
+    if (!name) throw new Error('规则名称不能为空');
+    const triggers: AutomationTrigger[] = Array.isArray(input.triggers) ? input.triggers : [];
+    const actions: AutomationAction[] = Array.isArray(input.actions) ? input.actions : [];
+    if (!triggers.length) throw new Error('至少需要一个触发器');
+    if (!actions.length) throw new Error('至少需要一个动作');
+    for (let i = 0; i < triggers.length; i++) {
+        const error = validateTriggerEntry(triggers[i], `triggers[${i}]`);
+        if (error) throw new Error(error);
+    }
+    for (let i = 0; i < actions.length; i++) {
+        const error = validateActionEntry(actions[i], `actions[${i}]`);
+        if (error) throw new Error(error);
+    }
+    if (input.condition) {
+        const error = validateTrigger(input.condition, 'condition');
+        if (error) throw new Error(error);
+    }
+    return {
+        name,
+        description: String(input.description || ''),
+        enabled: input.enabled !== false,
+        triggers,
+        ...(input.condition ? { condition: input.condition } : {}),
+        actions,
+        cooldown: Number(input.cooldown) > 0 ? Number(input.cooldown) : 0,
+    };
+}
+
+export function describeAutomationTrigger(trigger: AutomationTrigger): string {
+    const cond = trigger.field ? ` ${trigger.field} ${trigger.operator || 'changed'}${trigger.value !== undefined ? ` ${JSON.stringify(trigger.value)}` : ''}` : '';
+    switch (trigger.type) {
+    case 'device': return `设备 ${trigger.deviceId}${cond}`;
+    case 'schedule': return `定时 ${trigger.cron}`;
+    case 'sun': return `${trigger.event === 'sunrise' ? '日出' : '日落'}${trigger.offset ? ` ${trigger.offset > 0 ? '+' : ''}${trigger.offset} 分钟` : ''}`;
+    case 'mqtt': return `MQTT ${trigger.topic}${cond}`;
+    default: return (trigger as any).type;
+    }
+}
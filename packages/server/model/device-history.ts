@@ -0,0 +1,224 @@
+import { config } from '../config';
+import type {
+    DeviceHistoryDoc, DeviceHistoryRollupDoc, DeviceHistoryStat, DeviceHistoryValue,
+} from '../interface';
+
+/**
+ * 设备历史：从 zigbee2mqtt 状态中提取数值与枚举属性，按时间桶聚合查询
+ * 原始采样保存在 deviceHistory，超过 rawRetentionHours 后汇总为每小时一条（deviceHistoryRollup），
+ * 汇总数据保留 retentionDays 天。采样与清理见 service/device-history.ts
+ */
+
+export const HISTORY_AGGREGATIONS = ['avg', 'min', 'max', 'last'] as const;
+export type HistoryAggregation = typeof HISTORY_AGGREGATIONS[number];
+
+export const HOUR = 60 * 60 * 1000;
+
+// 自动选择桶大小时的候选值（秒），使一条曲线不超过约 240 个点
+const BUCKET_STEPS = [60, 300, 900, 1800, 3600, 3 * 3600, 6 * 3600, 12 * 3600, 86400];
+const MAX_POINTS = 240;
+// 超过该长度的字符串不视为枚举（如时间戳、JSON 文本）
+const MAX_ENUM_LENGTH = 32;
+
+export function getDeviceHistoryConfig() {
+    const cfg = (config as any).deviceHistory || {};
+    const positive = (value: any, fallback: number) => (Number(value) > 0 ? Number(value) : fallback);
+    return {
+        enabled: cfg.enabled !== false,
+        minInterval: positive(cfg.minInterval, 60),
+        rawRetentionHours: positive(cfg.rawRetentionHours, 48),
+        retentionDays: positive(cfg.retentionDays, 30),
+        exclude: Array.isArray(cfg.exclude) ? cfg.exclude.map(String) : ['last_seen', 'update_available', 'elapsed'],
+    };
+}
+
+/**
+ * 从设备状态中提取可记录的属性：有限数值、布尔值与短字符串（枚举），忽略对象、数组与 exclude 中的属性
+ */
+export function extractHistoryValues(data: any, exclude: string[] = []): Record<string, DeviceHistoryValue> {
+    const values: Record<string, DeviceHistoryValue> = {};
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return values;
+    for (const [key, value] of Object.entries(data)) {
+        if (exclude.includes(key)) continue;
+        if (typeof value === 'number') {
+            if (Number.isFinite(value)) values[key] = value;
+        } else if (typeof value === 'boolean') {
+            values[key] = value;
+        } else if (typeof value === 'string' && value && value.length <= MAX_ENUM_LENGTH) {
+            values[key] = value;
+        }
+    }
+    return values;
+}
+
+// 区分汇总统计与原始采样值（原始值不会是对象）
+export function isHistoryStat(value: unknown): value is DeviceHistoryStat {
+    return value !== null && typeof value === 'object' && typeof (value as DeviceHistoryStat).count === 'number';
+}
+
+function toHistoryStat(value: DeviceHistoryValue | DeviceHistoryStat): DeviceHistoryStat {
+    if (isHistoryStat(value)) return value;
+    if (typeof value === 'number') {
+        return {
+            count: 1, last: value, min: value, max: value, sum: value,
+        };
+    }
+    return { count: 1, last: value };
+}
+
+// 取两个可能缺失的数值中的较小/较大者，两者都缺失时为 undefined
+function mergeBound(a: number | undefined, b: number | undefined, pick: (x: number, y: number) => number) {
+    if (a === undefined) return b;
+    if (b === undefined) return a;
+    return pick(a, b);
+}
+
+// 将一个值累加到汇总统计中（数值额外记录 min/max/sum）
+export function accumulateHistoryStat(stat: DeviceHistoryStat | undefined, value: DeviceHistoryValue | DeviceHistoryStat): DeviceHistoryStat {
+    const incoming = toHistoryStat(value);
+    if (!stat) return { ...incoming };
+    const merged: DeviceHistoryStat = { count: stat.count + incoming.count, last: incoming.last };
+    if (typeof incoming.sum === 'number') {
+        merged.min = mergeBound(stat.min, incoming.min, Math.min);
+        merged.max = mergeBound(stat.max, incoming.max, Math.max);
+        merged.sum = (stat.sum ?? 0) + incoming.sum;
+    }
+    return merged;
+}
+
+/**
+ * 将一批原始采样（按时间升序）按设备与小时汇总
+ */
+export function rollupHistoryDocs(docs: DeviceHistoryDoc[]): DeviceHistoryRollupDoc[] {
+    const rollups = new Map<string, DeviceHistoryRollupDoc>();
+    for (const doc of docs) {
+        const bucket = Math.floor(doc.timestamp / HOUR) * HOUR;
+        const key = `${doc.device}\u0000${bucket}`;
+        let rollup = rollups.get(key);
+        if (!rollup) {
+            rollup = { device: doc.device, bucket, stats: {} };
+            rollups.set(key, rollup);
+        }
+        for (const [property, value] of Object.entries(doc.values || {})) {
+            rollup.stats[property] = accumulateHistoryStat(rollup.stats[property], value);
+        }
+    }
+    return [...rollups.values()];
+}
+
+// 根据时间范围选择桶大小（秒）
+export function chooseHistoryBucket(rangeMs: number) {
+    const target = rangeMs / 1000 / MAX_POINTS;
+    return BUCKET_STEPS.find((step) => step >= target) || BUCKET_STEPS[BUCKET_STEPS.length - 1];
+}
+
+export interface HistoryQuery {
+    from: number;
+    to: number;
+    bucket: number; // 秒
+    aggregation: HistoryAggregation;
+    properties?: string[];
+}
+
+export interface HistorySeries {
+    property: string;
+    type: 'numeric' | 'enum';
+    points: Array<{ t: number; v: DeviceHistoryValue }>;
+    summary: {
+        count: number;
+        last: DeviceHistoryValue;
+        lastAt: number;
+        min?: number;
+        max?: number;
+        avg?: number;
+    };
+}
+
+/**
+ * 将原始采样与小时汇总合并为按桶聚合的曲线。数值属性按 aggregation 聚合，
+ * 枚举与布尔属性取桶内最后一个值
+ */
+export function aggregateHistory(docs: DeviceHistoryDoc[], rollups: DeviceHistoryRollupDoc[], query: HistoryQuery): HistorySeries[] {
+    const bucketMs = query.bucket * 1000;
+    const wanted = query.properties?.length ? new Set(query.properties) : null;
+    const entries: Array<{ t: number; stats: Record<string, DeviceHistoryStat | DeviceHistoryValue> }> = [
+        ...rollups.map((rollup) => ({ t: rollup.bucket, stats: rollup.stats })),
+        ...docs.map((doc) => ({ t: doc.timestamp, stats: doc.values })),
+    ].sort((a, b) => a.t - b.t);
+
+    const buckets = new Map<string, Map<number, DeviceHistoryStat>>();
+    const totals = new Map<string, { stat: DeviceHistoryStat; lastAt: number }>();
+    for (const entry of entries) {
+        const index = Math.floor((entry.t - query.from) / bucketMs);
+        for (const [property, value] of Object.entries(entry.stats || {})) {
+            if (wanted && !wanted.has(property)) continue;
+            if (!buckets.has(property)) buckets.set(property, new Map());
+            const series = buckets.get(property);
+            series.set(index, accumulateHistoryStat(series.get(index), value));
+            const total = totals.get(property);
+            totals.set(property, { stat: accumulateHistoryStat(total?.stat, value), lastAt: entry.t });
+        }
+    }
+
+    return [...buckets.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([property, series]) => {
+        const { stat, lastAt } = totals.get(property);
+        const numeric = typeof stat.sum === 'number';
+        const points = [...series.entries()].sort(([a], [b]) => a - b).map(([index, bucketStat]) => {
+            let v: DeviceHistoryValue = bucketStat.last;
+            if (numeric && query.aggregation === 'avg') v = Math.round((bucketStat.sum / bucketStat.count) * 1000) / 1000;
+            else if (numeric && query.aggregation === 'min') v = bucketStat.min;
+            else if (numeric && query.aggregation === 'max') v = bucketStat.max;
+            return { t: query.from + index * bucketMs, v };
+        });
+        return {
+            property,
+            type: numeric ? 'numeric' : 'enum',
+            points,
+            summary: {
+                count: stat.count,
+                last: stat.last,
+                lastAt,
+                ...(numeric ? { min: stat.min, max: stat.max, avg: Math.round((stat.sum / stat.count) * 1000) / 1000 } : {}),
+            },
+        };
+    });
+}
+
+/**
+ * 解析查询参数中的时间范围：from/to 为时间戳或日期字符串，也可只给 hours（默认最近 24 小时）
+ */
+export function parseHistoryRange(input: { from?: any; to?: any; hours?: any }, now = Date.now()) {
+    const parseTime = (value: any) => {
+        if (value === undefined || value === null || value === '') return undefined;
+        const num = Number(value);
+        if (Number.isFinite(num)) return num;
+        const parsed = Date.parse(String(value));
+        if (Number.isNaN(parsed)) throw new Error(`时间格式无效: ${value}`);
+        return parsed;
+    };
+    const to = parseTime(input.to) ?? now;
+    const hours = Number(input.hours) > 0 ? Number(input.hours) : 24;
+    const from = parseTime(input.from) ?? to - hours * HOUR;
+    if (from >= to) throw new Error('from 必须早于 to');
+    return { from, to };
+}
+
+// 用于模糊匹配设备名：忽略大小写、空格、下划线与连字符
+function normalizeDeviceName(name: string) {
+    return String(name || '').toLowerCase().replace(/[\s_\-./]+/g, '');
+}
+
+/**
+ * 按名称查找设备：先精确匹配，再按规范化后的包含关系匹配；多个候选时抛出错误并列出候选
+ */
+export function matchHistoryDevice(query: string, candidates: string[]): string {
+    if (candidates.includes(query)) return query;
+    const normalized = normalizeDeviceName(query);
+    if (!normalized) throw new Error('设备名称不能为空');
+    const exact = candidates.filter((name) => normalizeDeviceName(name) === normalized);
+    if (exact.length === 1) return exact[0];
+    const matches = candidates.filter((name) => normalizeDeviceName(name).includes(normalized));
+    if (matches.length === 1) return matches[0];
+    if (matches.length > 1) throw new Error(`设备名称 "${query}" 匹配到多个设备: ${matches.join(', ')}`);
+    throw new Error(`未找到设备 "${query}"，有历史记录的设备: ${candidates.join(', ') || '无'}`);
+}
@@ -0,0 +1,86 @@
+import { Context } from 'cordis';
+import { Logger } from '@ejunz/utils';
+import { config } from '../config';
+import type { MCPCallDoc } from '../interface';
+import type { MCPToolCallRecord } from './mcp-server';
+
+const logger = new Logger('mcp-audit');
+
+/**
+ * 工具调用审计：mcpcall 保存每次调用的参数、结果（截断）、耗时、状态与调用来源
+ * mcplog 与 mcpcall 按保留天数和最大条数定期清理
+ */
+
+const PRUNE_INTERVAL = 60 * 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+
+function getAuditConfig() {
+    const cfg = (config as any).mcpAudit || {};
+    const positive = (value: any, fallback: number) => (Number(value) > 0 ? Number(value) : fallback);
+    return {
+        resultLimit: positive(cfg.resultLimit, 4000),
+        logRetentionDays: positive(cfg.logRetentionDays, 7),
+        logMaxEntries: positive(cfg.logMaxEntries, 10000),
+        callRetentionDays: positive(cfg.callRetentionDays, 30),
+        callMaxEntries: positive(cfg.callMaxEntries, 50000),
+    };
+}
+
+// 序列化后超过 limit 个字符时只保留前缀
+export function truncateForAudit(value: any, limit = getAuditConfig().resultLimit) {
+    if (value === undefined) return undefined;
+    let text: string;
+    try {
+        text = typeof value === 'string' ? value : JSON.stringify(value);
+    } catch {
+        text = String(value);
+    }
+    if (text === undefined || text.length <= limit) return value;
+    return { truncated: true, size: text.length, preview: text.slice(0, limit) };
+}
+
+export function buildMCPCallDoc(record: MCPToolCallRecord): MCPCallDoc {
+    const status: MCPCallDoc['status'] = record.cancelled ? 'cancelled' : record.error ? 'error' : 'success';
+    return {
+        timestamp: record.startedAt || Date.now() - record.duration,
+        tool: record.name,
+        server: record.server || 'local',
+        status,
+        duration: record.duration,
+        args: truncateForAudit(record.args),
+        result: truncateForAudit(record.result),
+        error: record.error,
+        transport: record.transport,
+        sessionId: record.sessionId,
+        client: record.clientInfo ? { name: record.clientInfo.name, version: record.clientInfo.version } : null,
+        caller: record.caller,
+    };
+}
+
+async function pruneCollection(db: any, retentionDays: number, maxEntries: number) {
+    if (!db) return 0;
+    let removed = await db.remove({ timestamp: { $lt: Date.now() - retentionDays * DAY } }, { multi: true });
+    // 超出条数上限时删除最旧的部分
+    const [boundary] = await db.find({}).sort({ timestamp: -1 }).skip(maxEntries).limit(1);
+    if (boundary) removed += await db.remove({ timestamp: { $lte: boundary.timestamp } }, { multi: true });
+    // nedb 只追加写文件，删除后压缩数据文件才能真正释放空间
+    if (removed) (db as any).__original?.persistence?.compactDatafile?.();
+    return removed;
+}
+
+export async function pruneMCPAudit(ctx: Context) {
+    const cfg = getAuditConfig();
+    const logs = await pruneCollection(ctx.db?.mcplog, cfg.logRetentionDays, cfg.logMaxEntries);
+    const calls = await pruneCollection(ctx.db?.mcpcall, cfg.callRetentionDays, cfg.callMaxEntries);
+    if (logs || calls) logger.info('已清理 MCP 日志 %d 条、调用记录 %d 条', logs, calls);
+    return { logs, calls };
+}
+
+// 启动时清理一次，之后每小时清理，返回停止函数
+export function startMCPAuditRetention(ctx: Context): () => void {
+    const run = () => pruneMCPAudit(ctx).catch((e) => logger.warn('清理 MCP 日志失败: %s', (e as Error).message));
+    void run();
+    const timer = setInterval(run, PRUNE_INTERVAL);
+    timer.unref?.();
+    return () => clearInterval(timer);
+}
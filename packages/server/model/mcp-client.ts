@@ -0,0 +1,312 @@
+import childProcess from 'node:child_process';
+import superagent from 'superagent';
+import { Logger } from '@ejunz/utils';
+import {
+    JSONRPC_ERRORS, LATEST_MCP_PROTOCOL_VERSION, MCPError, MCPToolDefinition,
+} from './mcp-server';
+
+/**
+ * MCP 客户端：连接外部 MCP 服务器（stdio 子进程或 Streamable HTTP 端点）
+ * 负责 initialize 握手、tools/list（含分页）与 tools/call，以及 tools/list_changed 通知
+ */
+
+export interface MCPClientOptions {
+    name: string;
+    transport: 'stdio' | 'http';
+    // stdio
+    command?: string;
+    args?: string[];
+    env?: Record<string, string>;
+    cwd?: string;
+    // http
+    url?: string;
+    headers?: Record<string, string>;
+    timeout?: number;
+}
+
+type PendingRequest = {
+    resolve: (value: any) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+};
+
+export abstract class MCPClient {
+    tools: MCPToolDefinition[] = [];
+    serverInfo: any = null;
+    protocolVersion = '';
+    connected = false;
+    lastError = '';
+    // 工具列表变化、连接断开时回调
+    onToolsChanged?: () => void;
+    onDisconnect?: (error?: Error) => void;
+
+    protected logger: Logger;
+    private nextId = 1;
+    protected pending = new Map<number, PendingRequest>();
+
+    constructor(public options: MCPClientOptions) {
+        this.logger = new Logger(`mcp-client/${options.name}`);
+    }
+
+    get timeout() {
+        return this.options.timeout || 30000;
+    }
+
+    abstract get endpoint(): string;
+    protected abstract open(): Promise<void>;
+    protected abstract send(message: any): Promise<void>;
+    abstract close(): Promise<void>;
+
+    async connect() {
+        await this.open();
+        const result = await this.request('initialize', {
+            protocolVersion: LATEST_MCP_PROTOCOL_VERSION,
+            capabilities: {},
+            clientInfo: { name: 'agent-edge-gateway', version: '1.0.0' },
+        });
+        this.protocolVersion = result?.protocolVersion || '';
+        this.serverInfo = result?.serverInfo || null;
+        await this.notify('notifications/initialized');
+        this.connected = true;
+        this.lastError = '';
+        await this.refreshTools();
+    }
+
+    async refreshTools() {
+        const tools: MCPToolDefinition[] = [];
+        let cursor: string | undefined;
+        do {
+            // eslint-disable-next-line no-await-in-loop
+            const result = await this.request('tools/list', cursor ? { cursor } : {});
+            tools.push(...(result?.tools || []));
+            cursor = result?.nextCursor;
+        } while (cursor);
+        this.tools = tools;
+        return tools;
+    }
+
+    async callTool(name: string, args: Record<string, any>) {
+        return this.request('tools/call', { name, arguments: args || {} });
+    }
+
+    async ping() {
+        await this.request('ping', {}, Math.min(this.timeout, 10000));
+    }
+
+    request(method: string, params: any = {}, timeout = this.timeout): Promise<any> {
+        const id = this.nextId++;
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.pending.delete(id);
+                reject(new Error(`${method} 请求超时 (${timeout}ms)`));
+            }, timeout);
+            this.pending.set(id, { resolve, reject, timer });
+            this.send({
+                jsonrpc: '2.0', id, method, params,
+            }).catch((e) => {
+                clearTimeout(timer);
+                this.pending.delete(id);
+                reject(e);
+            });
+        });
+    }
+
+    async notify(method: string, params?: any) {
+        await this.send({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+    }
+
+    protected handleMessage(message: any) {
+        if (Array.isArray(message)) {
+            message.forEach((m) => this.handleMessage(m));
+            return;
+        }
+        if (!message || typeof message !== 'object') return;
+
+        // 对我方请求的响应
+        if (message.id !== undefined && message.id !== null && !message.method) {
+            const pending = this.pending.get(message.id);
+            if (!pending) return;
+            clearTimeout(pending.timer);
+            this.pending.delete(message.id);
+            if (message.error) pending.reject(new MCPError(message.error.code, message.error.message, message.error.data));
+            else pending.resolve(message.result);
+            return;
+        }
+
+        // 服务端发来的请求：目前只需要响应 ping
+        if (message.method && message.id !== undefined && message.id !== null) {
+            const reply = message.method === 'ping'
+                ? { jsonrpc: '2.0', id: message.id, result: {} }
+                : { jsonrpc: '2.0', id: message.id, error: { code: JSONRPC_ERRORS.METHOD_NOT_FOUND, message: 'Method not found' } };
+            this.send(reply).catch(() => {});
+            return;
+        }
+
+        if (message.method === 'notifications/tools/list_changed') {
+            this.refreshTools()
+                .then(() => this.onToolsChanged?.())
+                .catch((e) => this.logger.warn('刷新工具列表失败: %s', (e as Error).message));
+        }
+    }
+
+    protected rejectAll(error: Error) {
+        for (const [id, pending] of this.pending) {
+            clearTimeout(pending.timer);
+            pending.reject(error);
+            this.pending.delete(id);
+        }
+    }
+
+    protected handleDisconnect(error?: Error) {
+        const wasConnected = this.connected;
+        this.connected = false;
+        if (error) this.lastError = error.message;
+        this.rejectAll(error || new Error('连接已断开'));
+        if (wasConnected) this.onDisconnect?.(error);
+    }
+}
+
+// stdio：子进程的 stdin/stdout 上按行传输 JSON-RPC 消息
+export class StdioMCPClient extends MCPClient {
+    private child?: childProcess.ChildProcessWithoutNullStreams;
+    private buffer = '';
+
+    get endpoint() {
+        return [this.options.command, ...(this.options.args || [])].join(' ');
+    }
+
+    protected async open() {
+        if (!this.options.command) throw new Error('未配置 command');
+        this.buffer = '';
+        const child = childProcess.spawn(this.options.command, this.options.args || [], {
+            cwd: this.options.cwd || undefined,
+            env: { ...process.env, ...(this.options.env || {}) },
+            stdio: ['pipe', 'pipe', 'pipe'],
+        });
+        this.child = child;
+
+        child.stdout.setEncoding('utf8');
+        child.stdout.on('data', (chunk: string) => {
+            this.buffer += chunk;
+            let index = this.buffer.indexOf('\n');
+            while (index !== -1) {
+                const line = this.buffer.slice(0, index).trim();
+                this.buffer = this.buffer.slice(index + 1);
+                if (line) {
+                    try {
+                        this.handleMessage(JSON.parse(line));
+                    } catch {
+                        this.logger.debug('忽略非 JSON 输出: %s', line.slice(0, 200));
+                    }
+                }
+                index = this.buffer.indexOf('\n');
+            }
+        });
+        child.stderr.on('data', (d) => this.logger.debug(String(d).trim()));
+        child.on('error', (err) => {
+            this.logger.error('子进程错误: %s', err.message);
+            if (this.child === child) this.handleDisconnect(err);
+        });
+        child.on('close', (code) => {
+            if (this.child !== child) return;
+            this.child = undefined;
+            this.logger.warn('子进程已退出 (code: %s)', code);
+            this.handleDisconnect(new Error(`进程已退出 (code: ${code})`));
+        });
+    }
+
+    protected async send(message: any) {
+        if (!this.child?.stdin.writable) throw new Error('进程未运行');
+        this.child.stdin.write(`${JSON.stringify(message)}\n`);
+    }
+
+    async close() {
+        const child = this.child;
+        this.child = undefined;
+        this.connected = false;
+        this.rejectAll(new Error('连接已关闭'));
+        if (child && child.exitCode === null) {
+            try { child.kill(); } catch { /* ignore */ }
+        }
+    }
+}
+
+// Streamable HTTP：每条消息 POST 到端点，响应可能是 JSON 或 SSE 流
+export class HttpMCPClient extends MCPClient {
+    private sessionId = '';
+
+    get endpoint() {
+        return this.options.url || '';
+    }
+
+    protected async open() {
+        if (!this.options.url) throw new Error('未配置 url');
+        this.sessionId = '';
+    }
+
+    protected async send(message: any) {
+        const req = superagent
+            .post(this.options.url!)
+            .set('Content-Type', 'application/json')
+            .set('Accept', 'application/json, text/event-stream')
+            .timeout(this.timeout)
+            .buffer(true)
+            // SSE 响应按原始文本收集，统一在下面解析
+            .parse((res, cb) => {
+                let data = '';
+                res.setEncoding('utf8');
+                res.on('data', (chunk: string) => { data += chunk; });
+                res.on('end', () => cb(null, data));
+            });
+        for (const [key, value] of Object.entries(this.options.headers || {})) req.set(key, value);
+        if (this.sessionId) req.set('Mcp-Session-Id', this.sessionId);
+        if (this.protocolVersion) req.set('Mcp-Protocol-Version', this.protocolVersion);
+
+        let res: superagent.Response;
+        try {
+            res = await req.send(message);
+        } catch (e: any) {
+            // 会话过期时服务端返回 404，需要重新初始化
+            if (e.status === 404 && this.sessionId) this.handleDisconnect(new Error('会话已失效'));
+            throw new Error(e.status ? `HTTP ${e.status}: ${e.message}` : e.message);
+        }
+        const sessionId = res.headers['mcp-session-id'];
+        if (sessionId) this.sessionId = sessionId;
+
+        const text = typeof res.body === 'string' ? res.body : (res.text || '');
+        if (!text.trim()) return; // 202 Accepted（通知）
+        if ((res.headers['content-type'] || '').includes('text/event-stream')) {
+            for (const event of text.split(/\r?\n\r?\n/)) {
+                const data = event.split(/\r?\n/)
+                    .filter((line) => line.startsWith('data:'))
+                    .map((line) => line.slice(5).trimStart())
+                    .join('\n');
+                if (!data) continue;
+                try {
+                    this.handleMessage(JSON.parse(data));
+                } catch {
+                    this.logger.debug('忽略无法解析的 SSE 数据: %s', data.slice(0, 200));
+                }
+            }
+            return;
+        }
+        this.handleMessage(JSON.parse(text));
+    }
+
+    async close() {
+        const sessionId = this.sessionId;
+        this.sessionId = '';
+        this.connected = false;
+        this.rejectAll(new Error('连接已关闭'));
+        if (!sessionId || !this.options.url) return;
+        try {
+            const req = superagent.delete(this.options.url).set('Mcp-Session-Id', sessionId).timeout(5000);
+            for (const [key, value] of Object.entries(this.options.headers || {})) req.set(key, value);
+            await req;
+        } catch { /* 服务端可能不支持 DELETE */ }
+    }
+}
+
+export function createMCPClient(options: MCPClientOptions): MCPClient {
+    return options.transport === 'http' ? new HttpMCPClient(options) : new StdioMCPClient(options);
+}
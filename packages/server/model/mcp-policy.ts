@@ -0,0 +1,239 @@
+import { randomUUID } from 'crypto';
+import { Context } from 'cordis';
+import { Logger } from '@ejunz/utils';
+import { config } from '../config';
+import { ANONYMOUS_CALLER, MCPCaller, MCPToolPolicyError } from './mcp-server';
+
+const logger = new Logger('mcp-policy');
+
+/**
+ * 工具访问策略：server / provider / node 三种模式的工具调用统一经过这里
+ * - 调用方按令牌识别（config.mcpPolicy.callers），未携带令牌为 anonymous
+ * - 规则按顺序匹配工具名（支持 * 通配），第一条匹配的规则生效，未匹配时按 defaultAction
+ * - 规则可限制调用方（allow / deny）、频率（每个调用方）、允许时段，以及要求人工确认
+ * - 需要确认的调用挂起，直到在界面（或语音回答“确认”）批准、拒绝或超时
+ */
+
+export interface MCPPolicyRule {
+    tool: string;
+    allow?: string[];
+    deny?: string[];
+    rateLimit?: { count?: number; window?: number };
+    timeWindows?: string[];
+    confirm?: boolean;
+}
+
+export interface MCPPendingConfirmation {
+    id: string;
+    tool: string;
+    args: Record<string, any>;
+    caller: string;
+    server?: string;
+    createdAt: number;
+    expiresAt: number;
+}
+
+interface PendingEntry extends MCPPendingConfirmation {
+    resolve: (approved: boolean, reason?: string) => void;
+}
+
+const DEFAULT_CONFIRM_TIMEOUT = 120 * 1000;
+
+const pending = new Map<string, PendingEntry>();
+// 频率限制：键为 工具:调用方，值为窗口内的调用时间
+const callTimes = new Map<string, number[]>();
+
+function getPolicyConfig() {
+    const cfg = (config as any).mcpPolicy || {};
+    return {
+        defaultAction: cfg.defaultAction === 'deny' ? 'deny' : 'allow',
+        callers: (Array.isArray(cfg.callers) ? cfg.callers : []) as Array<{ name: string; token: string }>,
+        rules: (Array.isArray(cfg.rules) ? cfg.rules : []) as MCPPolicyRule[],
+        confirmTimeout: Number(cfg.confirmTimeout) > 0 ? Number(cfg.confirmTimeout) : DEFAULT_CONFIRM_TIMEOUT,
+    };
+}
+
+function emit(event: string, ...args: any[]) {
+    const globalCtx = (global as any).__cordis_ctx;
+    try { globalCtx?.emit(event, ...args); } catch {}
+}
+
+/**
+ * 从 HTTP / WebSocket 请求中识别调用方
+ * 令牌取自 Authorization: Bearer、X-MCP-Token 头或 token 查询参数；未携带时返回 undefined（沿用会话的调用方）
+ */
+export function resolveRequestCaller(request: { headers?: Record<string, any>; query?: Record<string, any> }): MCPCaller | undefined {
+    const header = (name: string) => {
+        const value = request?.headers?.[name];
+        return Array.isArray(value) ? value[0] : value;
+    };
+    const auth = String(header('authorization') || '');
+    const token = (auth.toLowerCase().startsWith('bearer ') ? auth.slice(7).trim() : '')
+        || header('x-mcp-token') || request?.query?.token;
+    if (!token) return undefined;
+    const matched = getPolicyConfig().callers.find((c) => c?.token && c.token === String(token));
+    if (!matched) {
+        logger.warn('未知的调用方令牌，按 anonymous 处理');
+        return ANONYMOUS_CALLER;
+    }
+    return { name: matched.name };
+}
+
+function matchPattern(pattern: string, name: string) {
+    if (!pattern || pattern === '*') return true;
+    if (!pattern.includes('*')) return pattern === name;
+    const regexp = new RegExp(`^${pattern.split('*').map((p) => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+    return regexp.test(name);
+}
+
+function findRule(tool: string) {
+    return getPolicyConfig().rules.find((rule) => rule && matchPattern(rule.tool, tool));
+}
+
+// 时段格式 HH:mm-HH:mm（本地时间），结束早于开始时表示跨零点
+function parseClock(value: string) {
+    const [h, m] = value.trim().split(':').map(Number);
+    if (!Number.isFinite(h)) return null;
+    return h * 60 + (Number.isFinite(m) ? m : 0);
+}
+
+function inTimeWindows(windows: string[], now = new Date()) {
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    return windows.some((window) => {
+        const [start, end] = String(window).split('-').map(parseClock);
+        if (start === null || end === null || start === undefined || end === undefined) return false;
+        return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+    });
+}
+
+function checkAccess(rule: MCPPolicyRule | undefined, caller: string) {
+    if (!rule) return getPolicyConfig().defaultAction === 'allow';
+    const listed = (list?: string[]) => Array.isArray(list) && (list.includes(caller) || list.includes('*'));
+    if (listed(rule.deny)) return false;
+    if (Array.isArray(rule.allow) && rule.allow.length) return listed(rule.allow);
+    return true;
+}
+
+// 滑动窗口计数，超出时返回需要等待的秒数
+function takeRateLimit(tool: string, caller: string, limit: MCPPolicyRule['rateLimit']) {
+    const count = Number(limit?.count) || 0;
+    if (count <= 0) return 0;
+    const windowMs = (Number(limit?.window) > 0 ? Number(limit.window) : 60) * 1000;
+    const key = `${tool}:${caller}`;
+    const now = Date.now();
+    const times = (callTimes.get(key) || []).filter((t) => t > now - windowMs);
+    if (times.length >= count) {
+        callTimes.set(key, times);
+        return Math.ceil((times[0] + windowMs - now) / 1000);
+    }
+    times.push(now);
+    callTimes.set(key, times);
+    return 0;
+}
+
+export function listPendingConfirmations(): MCPPendingConfirmation[] {
+    return Array.from(pending.values()).map(({ resolve, ...item }) => item);
+}
+
+/**
+ * 批准或拒绝挂起的调用，返回是否找到该确认
+ */
+export function resolveConfirmation(id: string, approved: boolean, by = 'operator', reason?: string) {
+    const entry = pending.get(id);
+    if (!entry) return false;
+    logger.info('工具调用确认 %s：%s %s（%s）', id, entry.tool, approved ? '已批准' : '已拒绝', by);
+    entry.resolve(approved, reason);
+    return true;
+}
+
+function requestConfirmation(
+    tool: string, args: Record<string, any>, caller: string, server: string | undefined, signal?: AbortSignal,
+) {
+    const timeout = getPolicyConfig().confirmTimeout;
+    const item: MCPPendingConfirmation = {
+        id: randomUUID(), tool, args, caller, server, createdAt: Date.now(), expiresAt: Date.now() + timeout,
+    };
+    logger.info('工具调用等待确认：%s（调用方 %s，ID %s）', tool, caller, item.id);
+
+    return new Promise<void>((resolve, reject) => {
+        let timer: NodeJS.Timeout;
+        const finish = (status: string, error?: MCPToolPolicyError) => {
+            if (!pending.delete(item.id)) return;
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+            emit('mcp/confirmation/resolved', { ...item, status });
+            if (error) reject(error);
+            else resolve();
+        };
+        const onAbort = () => finish('cancelled', new MCPToolPolicyError(tool, 'cancelled', `Tool call cancelled while awaiting confirmation: ${tool}`));
+        timer = setTimeout(() => finish('expired', new MCPToolPolicyError(
+            tool, 'confirmation_timeout', `Tool call was not confirmed within ${Math.round(timeout / 1000)}s: ${tool}`,
+        )), timeout);
+
+        pending.set(item.id, {
+            ...item,
+            resolve: (approved, reason) => finish(
+                approved ? 'approved' : 'rejected',
+                approved ? undefined : new MCPToolPolicyError(
+                    tool, 'rejected', `Tool call rejected by operator: ${tool}${reason ? ` (${reason})` : ''}`,
+                ),
+            ),
+        });
+        if (signal?.aborted) {
+            onAbort();
+            return;
+        }
+        signal?.addEventListener('abort', onAbort, { once: true });
+        emit('mcp/confirmation', item);
+    });
+}
+
+/**
+ * 工具执行前的策略检查，不通过时抛出 MCPToolPolicyError；需要确认时等待确认结果
+ */
+export async function enforceToolPolicy(ctx: Context, request: {
+    tool: string;
+    args: Record<string, any>;
+    caller?: MCPCaller;
+    server?: string;
+    signal?: AbortSignal;
+}) {
+    const { tool, args, server, signal } = request;
+    const caller = request.caller?.name || ANONYMOUS_CALLER.name;
+    const rule = findRule(tool);
+
+    if (!checkAccess(rule, caller)) {
+        logger.warn('拒绝工具调用：%s（调用方 %s）', tool, caller);
+        throw new MCPToolPolicyError(tool, 'forbidden', `Caller ${caller} is not allowed to call tool ${tool}`, { caller });
+    }
+    if (!rule) return;
+
+    const windows = Array.isArray(rule.timeWindows) ? rule.timeWindows.filter(Boolean) : [];
+    if (windows.length && !inTimeWindows(windows)) {
+        throw new MCPToolPolicyError(tool, 'outside_time_window', `Tool ${tool} is only available during ${windows.join(', ')}`, { timeWindows: windows });
+    }
+
+    const retryAfter = takeRateLimit(tool, caller, rule.rateLimit);
+    if (retryAfter) {
+        throw new MCPToolPolicyError(tool, 'rate_limited', `Rate limit exceeded for tool ${tool}, retry after ${retryAfter}s`, { retryAfter });
+    }
+
+    if (rule.confirm) await requestConfirmation(tool, args, caller, server, signal);
+}
+
+// 整句匹配，避免“对了，明天天气怎么样”“不知道”之类的普通对话被当作回答
+const AFFIRMATIVE = /^(是|是的|好|好的|好啊|可以|确认|确定|确认执行|执行|同意|对|对的|嗯|yes|yep|ok|okay|sure|confirm)$/i;
+const NEGATIVE = /^(不|不要|不用|不行|不可以|否|取消|拒绝|算了|别|no|nope|cancel|reject)$/i;
+
+/**
+ * 语音回答挂起的确认：有待确认调用且回答为肯定/否定时处理最近一条，返回播报文本；否则返回 null
+ */
+export function answerConfirmationByVoice(text: string): string | null {
+    if (!pending.size || !text) return null;
+    const answer = text.trim().replace(/^[\s，。,.!！?？、~～]+|[\s，。,.!！?？、~～]+$/g, '');
+    const approved = NEGATIVE.test(answer) ? false : AFFIRMATIVE.test(answer) ? true : null;
+    if (approved === null) return null;
+    const latest = Array.from(pending.values()).sort((a, b) => b.createdAt - a.createdAt)[0];
+    resolveConfirmation(latest.id, approved, 'voice');
+    return approved ? `好的，已确认执行 ${latest.tool}。` : `好的，已取消 ${latest.tool}。`;
+}
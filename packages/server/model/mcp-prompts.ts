@@ -0,0 +1,95 @@
+import { Context } from 'cordis';
+import { MCPPromptDoc } from '../interface';
+import {
+    JSONRPC_ERRORS, MCPError, MCPPromptProvider,
+} from './mcp-server';
+
+/**
+ * MCP prompts 注册表：可复用的提示词模板存放在 mcpprompt 集合中
+ * 消息文本中的 {{参数名}} 在 prompts/get 时替换为调用方传入的参数
+ */
+
+function normalizePromptDoc(input: any, existing?: MCPPromptDoc): MCPPromptDoc {
+    const name = String(input?.name || input?._id || '').trim();
+    if (!/^[\w.-]+$/.test(name)) throw new Error('Prompt 名称只能包含字母、数字、下划线、点和短横线');
+
+    const args = Array.isArray(input.arguments) ? input.arguments : [];
+    const seen = new Set<string>();
+    for (const arg of args) {
+        if (!arg?.name || !/^\w+$/.test(arg.name)) throw new Error(`参数名无效: ${arg?.name || '(空)'}`);
+        if (seen.has(arg.name)) throw new Error(`参数名重复: ${arg.name}`);
+        seen.add(arg.name);
+    }
+
+    const messages = Array.isArray(input.messages) ? input.messages : [];
+    if (!messages.length) throw new Error('Prompt 至少需要一条消息');
+    for (const message of messages) {
+        if (message?.role !== 'user' && message?.role !== 'assistant') throw new Error(`消息角色无效: ${message?.role}`);
+        if (typeof message.text !== 'string' || !message.text) throw new Error('消息内容不能为空');
+    }
+
+    const now = Date.now();
+    return {
+        _id: name,
+        description: input.description || '',
+        arguments: args.map((arg: any) => ({
+            name: arg.name,
+            description: arg.description || '',
+            required: !!arg.required,
+        })),
+        messages: messages.map((m: any) => ({ role: m.role, text: m.text })),
+        updatedAt: now,
+        createdAt: existing?.createdAt ?? now,
+    };
+}
+
+function renderTemplate(text: string, args: Record<string, string>) {
+    return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key) => (args[key] !== undefined ? String(args[key]) : ''));
+}
+
+export async function listMCPPrompts(ctx: Context) {
+    const docs = await ctx.db.mcpprompt.find({});
+    return docs
+        .sort((a, b) => a._id.localeCompare(b._id))
+        .map((doc) => ({ name: doc._id, description: doc.description, arguments: doc.arguments || [] }));
+}
+
+export async function getMCPPromptDoc(ctx: Context, name: string) {
+    return ctx.db.mcpprompt.findOne({ _id: name });
+}
+
+export async function renderMCPPrompt(ctx: Context, name: string, args: Record<string, string>) {
+    const doc = await getMCPPromptDoc(ctx, name);
+    if (!doc) throw new MCPError(JSONRPC_ERRORS.INVALID_PARAMS, `Prompt not found: ${name}`);
+    const missing = (doc.arguments || []).filter((arg) => arg.required && (args[arg.name] === undefined || args[arg.name] === ''));
+    if (missing.length) {
+        throw new MCPError(JSONRPC_ERRORS.INVALID_PARAMS, `Missing required arguments: ${missing.map((arg) => arg.name).join(', ')}`);
+    }
+    return {
+        description: doc.description,
+        messages: doc.messages.map((m) => ({
+            role: m.role,
+            content: { type: 'text', text: renderTemplate(m.text, args) },
+        })),
+    };
+}
+
+export async function saveMCPPrompt(ctx: Context, input: any) {
+    const name = String(input?.name || input?._id || '').trim();
+    const existing = name ? await getMCPPromptDoc(ctx, name) : null;
+    const doc = normalizePromptDoc(input, existing || undefined);
+    await ctx.db.mcpprompt.update({ _id: doc._id }, doc, { upsert: true });
+    return doc;
+}
+
+export async function deleteMCPPrompt(ctx: Context, name: string) {
+    const removed = await ctx.db.mcpprompt.remove({ _id: name }, {});
+    return removed > 0;
+}
+
+export function createMCPPromptProvider(): MCPPromptProvider {
+    return {
+        list: (ctx) => listMCPPrompts(ctx),
+        get: (ctx, name, args) => renderMCPPrompt(ctx, name, args),
+    };
+}
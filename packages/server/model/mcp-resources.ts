@@ -0,0 +1,189 @@
+import { Context } from 'cordis';
+import { Logger } from '@ejunz/utils';
+import {
+    JSONRPC_ERRORS, MCPError, MCPResourceProvider, MCPServer,
+} from './mcp-server';
+
+const logger = new Logger('mcp-resources');
+
+/**
+ * MCP 资源注册表：把边缘端的实时状态（CS2 GSI、Zigbee 设备、MQTT 桥接、MCP 日志等）暴露为只读资源
+ * uri 含 {param} 占位符时作为资源模板注册，读取时把匹配到的参数传给 read
+ */
+export interface MCPResourceDefinition {
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+    read(ctx: Context, params: Record<string, string>): any | Promise<any>;
+}
+
+type ResourceChangeListener = (event: { type: 'updated'; uri: string } | { type: 'list_changed' }) => void;
+
+const UPDATE_THROTTLE = 1000; // 同一资源的更新通知至少间隔 1 秒
+
+const resources = new Map<string, MCPResourceDefinition>();
+const listeners = new Set<ResourceChangeListener>();
+const pendingUpdates = new Map<string, NodeJS.Timeout>();
+const lastUpdateAt = new Map<string, number>();
+
+function isTemplate(uri: string) {
+    return /\{[^}]+\}/.test(uri);
+}
+
+function matchTemplate(template: string, uri: string): Record<string, string> | null {
+    const names: string[] = [];
+    const pattern = template.split(/(\{[^}]+\})/).map((part) => {
+        const m = part.match(/^\{([^}]+)\}$/);
+        if (!m) return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        names.push(m[1]);
+        return '([^/]+)';
+    }).join('');
+    const match = uri.match(new RegExp(`^${pattern}$`));
+    if (!match) return null;
+    return Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+}
+
+function emit(event: Parameters<ResourceChangeListener>[0]) {
+    for (const listener of listeners) {
+        try {
+            listener(event);
+        } catch (e) {
+            logger.warn('资源变化回调执行失败: %s', (e as Error).message);
+        }
+    }
+}
+
+export function registerMCPResource(def: MCPResourceDefinition): () => void {
+    resources.set(def.uri, def);
+    emit({ type: 'list_changed' });
+    return () => {
+        if (resources.get(def.uri) !== def) return;
+        resources.delete(def.uri);
+        emit({ type: 'list_changed' });
+    };
+}
+
+export function listMCPResources() {
+    return Array.from(resources.values())
+        .filter((r) => !isTemplate(r.uri))
+        .map(({ uri, name, description, mimeType }) => ({ uri, name, description, mimeType: mimeType || 'application/json' }));
+}
+
+export function listMCPResourceTemplates() {
+    return Array.from(resources.values())
+        .filter((r) => isTemplate(r.uri))
+        .map(({ uri, name, description, mimeType }) => ({
+            uriTemplate: uri, name, description, mimeType: mimeType || 'application/json',
+        }));
+}
+
+export async function readMCPResource(ctx: Context, uri: string) {
+    let def = resources.get(uri);
+    let params: Record<string, string> = {};
+    if (!def || isTemplate(def.uri)) {
+        def = undefined;
+        for (const candidate of resources.values()) {
+            if (!isTemplate(candidate.uri)) continue;
+            const matched = matchTemplate(candidate.uri, uri);
+            if (!matched) continue;
+            def = candidate;
+            params = matched;
+            break;
+        }
+    }
+    if (!def) throw new MCPError(JSONRPC_ERRORS.RESOURCE_NOT_FOUND, 'Resource not found', { uri });
+
+    const data = await def.read(ctx, params);
+    const mimeType = def.mimeType || 'application/json';
+    return {
+        contents: [{
+            uri,
+            mimeType,
+            text: typeof data === 'string' ? data : JSON.stringify(data),
+        }],
+    };
+}
+
+/**
+ * 通知资源内容已变化（按 URI 节流，GSI 等高频数据源可直接调用）
+ */
+export function notifyMCPResourceUpdated(uri: string) {
+    if (pendingUpdates.has(uri)) return;
+    const wait = Math.max(0, (lastUpdateAt.get(uri) || 0) + UPDATE_THROTTLE - Date.now());
+    const timer = setTimeout(() => {
+        pendingUpdates.delete(uri);
+        lastUpdateAt.set(uri, Date.now());
+        emit({ type: 'updated', uri });
+    }, wait);
+    timer.unref?.();
+    pendingUpdates.set(uri, timer);
+}
+
+export function onMCPResourceChange(listener: ResourceChangeListener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+export function createMCPResourceProvider(): MCPResourceProvider {
+    return {
+        list: () => listMCPResources(),
+        templates: () => listMCPResourceTemplates(),
+        read: (ctx, uri) => readMCPResource(ctx, uri),
+    };
+}
+
+// 把注册表的变化转发为 MCP 通知，返回取消订阅函数
+export function bindMCPResources(server: MCPServer): () => void {
+    return onMCPResourceChange((event) => {
+        if (event.type === 'updated') server.resourceUpdated(event.uri);
+        else server.resourcesChanged();
+    });
+}
+
+/**
+ * Zigbee / MQTT 桥接状态来源：node 模式读取本地服务，server 模式经已连接的 Node 转发
+ */
+export interface EdgeDeviceSource {
+    listDevices(ctx: Context): Promise<any[]>;
+    getDeviceState(ctx: Context, deviceId: string): Promise<any>;
+    getBridgeStatus(ctx: Context): Promise<any>;
+}
+
+export const EDGE_RESOURCE_URIS = {
+    cs2State: 'edge://cs2/state',
+    zigbeeDevices: 'edge://zigbee/devices',
+    zigbeeDevice: (deviceId: string) => `edge://zigbee/devices/${encodeURIComponent(deviceId)}`,
+    mqttBridgeStatus: 'edge://mqtt-bridge/status',
+    mcpLogs: 'edge://mcp/logs/recent',
+};
+
+export function registerEdgeDeviceResources(source: EdgeDeviceSource): () => void {
+    const disposers = [
+        registerMCPResource({
+            uri: EDGE_RESOURCE_URIS.zigbeeDevices,
+            name: 'Zigbee 设备列表',
+            description: '当前已接入的 Zigbee 设备及其基本信息',
+            read: async (ctx) => ({ devices: await source.listDevices(ctx) }),
+        }),
+        registerMCPResource({
+            uri: 'edge://zigbee/devices/{deviceId}',
+            name: 'Zigbee 设备状态',
+            description: '指定 Zigbee 设备的最新状态（开关、亮度、传感器读数等）',
+            read: async (ctx, { deviceId }) => {
+                const state = await source.getDeviceState(ctx, deviceId);
+                if (state === undefined || state === null) {
+                    throw new MCPError(JSONRPC_ERRORS.RESOURCE_NOT_FOUND, `设备 ${deviceId} 暂无状态`);
+                }
+                return { deviceId, state };
+            },
+        }),
+        registerMCPResource({
+            uri: EDGE_RESOURCE_URIS.mqttBridgeStatus,
+            name: 'MQTT 桥接状态',
+            description: 'MQTT 桥接的 broker 配置与连接状态',
+            read: (ctx) => source.getBridgeStatus(ctx),
+        }),
+    ];
+    return () => disposers.forEach((dispose) => dispose());
+}
@@ -0,0 +1,261 @@
+import { MCPToolArgumentsError } from './mcp-server';
+
+/**
+ * 工具参数校验：按工具声明的 JSON Schema（inputSchema / parameters）检查 arguments
+ * 支持 MCP 工具常用的子集：type、enum、const、properties、required、additionalProperties、
+ * items、数值/长度/数量范围、pattern、anyOf/oneOf/allOf，并在校验前填充 default
+ * 对 LLM 常见的类型偏差做宽松转换："3" → 3、"true" → true、"on" → "ON"（枚举大小写）、JSON 字符串 → 对象/数组
+ */
+
+export interface SchemaIssue {
+    path: string; // JSON Pointer 形式，根为 ''
+    keyword: string;
+    message: string;
+    expected?: any;
+    received?: any;
+}
+
+export interface SchemaValidationResult {
+    valid: boolean;
+    value: any;
+    issues: SchemaIssue[];
+}
+
+function typeOf(value: any): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value;
+}
+
+function matchesType(value: any, type: string) {
+    const actual = typeOf(value);
+    if (type === 'number') return actual === 'number' || actual === 'integer';
+    return actual === type;
+}
+
+function clone(value: any) {
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+function preview(value: any) {
+    if (value === undefined) return undefined;
+    const text = JSON.stringify(value);
+    return text && text.length > 100 ? `${text.slice(0, 100)}…` : value;
+}
+
+// 尝试把值转换为目标类型，无法转换时原样返回
+function coerce(value: any, type: string): any {
+    if (matchesType(value, type)) return value;
+    switch (type) {
+    case 'number':
+    case 'integer':
+        if (typeof value === 'string' && value.trim() !== '') {
+            const num = Number(value);
+            if (Number.isFinite(num) && (type === 'number' || Number.isInteger(num))) return num;
+        }
+        if (typeof value === 'boolean') return value ? 1 : 0;
+        return value;
+    case 'boolean':
+        if (value === 'true' || value === 1 || value === '1') return true;
+        if (value === 'false' || value === 0 || value === '0') return false;
+        return value;
+    case 'string':
+        if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+        return value;
+    case 'object':
+    case 'array':
+        if (typeof value === 'string') {
+            try {
+                const parsed = JSON.parse(value);
+                if (matchesType(parsed, type)) return parsed;
+            } catch { /* 不是 JSON */ }
+        }
+        if (type === 'array' && value !== undefined && value !== null && typeof value !== 'object') return [value];
+        return value;
+    case 'null':
+        return value === '' || value === 'null' ? null : value;
+    default:
+        return value;
+    }
+}
+
+function validate(schema: any, input: any, path: string, issues: SchemaIssue[]): any {
+    if (!schema || typeof schema !== 'object' || schema === true) return input;
+    let value = input;
+
+    if (schema.anyOf || schema.oneOf) {
+        const variants: any[] = schema.anyOf || schema.oneOf;
+        // 返回第一个能通过的分支（含转换后的值），都失败时报告最接近的一个分支
+        let best: { value: any; issues: SchemaIssue[] } | null = null;
+        for (const variant of variants) {
+            const sub: SchemaIssue[] = [];
+            const result = validate(variant, clone(value), path, sub);
+            if (!sub.length) {
+                value = result;
+                best = null;
+                break;
+            }
+            if (!best || sub.length < best.issues.length) best = { value: result, issues: sub };
+        }
+        if (best) {
+            issues.push({
+                path,
+                keyword: schema.anyOf ? 'anyOf' : 'oneOf',
+                message: '参数不匹配任何允许的形式',
+                received: preview(value),
+            });
+            issues.push(...best.issues);
+            return value;
+        }
+    }
+    if (Array.isArray(schema.allOf)) {
+        for (const sub of schema.allOf) value = validate(sub, value, path, issues);
+    }
+
+    const types: string[] = schema.type ? (Array.isArray(schema.type) ? schema.type : [schema.type]) : [];
+    if (types.length && value !== undefined) {
+        if (!types.some((t) => matchesType(value, t))) {
+            for (const t of types) {
+                const coerced = coerce(value, t);
+                if (matchesType(coerced, t)) {
+                    value = coerced;
+                    break;
+                }
+            }
+        }
+        if (!types.some((t) => matchesType(value, t))) {
+            issues.push({
+                path,
+                keyword: 'type',
+                message: `类型应为 ${types.join(' | ')}，实际为 ${typeOf(value)}`,
+                expected: types.length === 1 ? types[0] : types,
+                received: preview(value),
+            });
+            return value;
+        }
+    }
+
+    if (Array.isArray(schema.enum)) {
+        if (!schema.enum.some((e: any) => JSON.stringify(e) === JSON.stringify(value))) {
+            const caseless = typeof value === 'string'
+                ? schema.enum.find((e: any) => typeof e === 'string' && e.toLowerCase() === value.trim().toLowerCase())
+                : undefined;
+            if (caseless !== undefined) {
+                value = caseless;
+            } else {
+                issues.push({
+                    path, keyword: 'enum', message: `取值必须是 ${schema.enum.map((e: any) => JSON.stringify(e)).join(', ')} 之一`, expected: schema.enum, received: preview(value),
+                });
+            }
+        }
+    }
+    if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+        issues.push({
+            path, keyword: 'const', message: `取值必须为 ${JSON.stringify(schema.const)}`, expected: schema.const, received: preview(value),
+        });
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            issues.push({ path, keyword: 'minimum', message: `不能小于 ${schema.minimum}`, expected: schema.minimum, received: value });
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            issues.push({ path, keyword: 'maximum', message: `不能大于 ${schema.maximum}`, expected: schema.maximum, received: value });
+        }
+        if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+            issues.push({ path, keyword: 'exclusiveMinimum', message: `必须大于 ${schema.exclusiveMinimum}`, expected: schema.exclusiveMinimum, received: value });
+        }
+        if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+            issues.push({ path, keyword: 'exclusiveMaximum', message: `必须小于 ${schema.exclusiveMaximum}`, expected: schema.exclusiveMaximum, received: value });
+        }
+        if (schema.multipleOf && Math.abs(value / schema.multipleOf - Math.round(value / schema.multipleOf)) > 1e-9) {
+            issues.push({ path, keyword: 'multipleOf', message: `必须是 ${schema.multipleOf} 的倍数`, expected: schema.multipleOf, received: value });
+        }
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            issues.push({ path, keyword: 'minLength', message: `长度不能少于 ${schema.minLength}`, expected: schema.minLength, received: preview(value) });
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            issues.push({ path, keyword: 'maxLength', message: `长度不能超过 ${schema.maxLength}`, expected: schema.maxLength, received: preview(value) });
+        }
+        if (schema.pattern) {
+            let re: RegExp | null = null;
+            try { re = new RegExp(schema.pattern, 'u'); } catch { /* 无效 pattern 忽略 */ }
+            if (re && !re.test(value)) {
+                issues.push({ path, keyword: 'pattern', message: `格式应匹配 ${schema.pattern}`, expected: schema.pattern, received: preview(value) });
+            }
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            issues.push({ path, keyword: 'minItems', message: `至少需要 ${schema.minItems} 项`, expected: schema.minItems, received: value.length });
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            issues.push({ path, keyword: 'maxItems', message: `最多 ${schema.maxItems} 项`, expected: schema.maxItems, received: value.length });
+        }
+        if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+            value = value.map((item, i) => validate(schema.items, item, `${path}/${i}`, issues));
+        }
+        if (schema.uniqueItems) {
+            const seen = new Set(value.map((item) => JSON.stringify(item)));
+            if (seen.size !== value.length) issues.push({ path, keyword: 'uniqueItems', message: '数组元素不能重复' });
+        }
+    }
+
+    if (typeOf(value) === 'object') {
+        value = { ...value };
+        const properties: Record<string, any> = schema.properties || {};
+        for (const [key, propSchema] of Object.entries(properties)) {
+            if (value[key] === undefined && propSchema && (propSchema as any).default !== undefined) {
+                value[key] = clone((propSchema as any).default);
+            }
+        }
+        for (const key of (Array.isArray(schema.required) ? schema.required : [])) {
+            if (value[key] === undefined || value[key] === null) {
+                issues.push({
+                    path: `${path}/${key}`,
+                    keyword: 'required',
+                    message: `缺少必需参数 ${key}`,
+                    expected: properties[key]?.type,
+                });
+            }
+        }
+        for (const key of Object.keys(value)) {
+            if (value[key] === undefined) continue;
+            if (properties[key]) {
+                value[key] = validate(properties[key], value[key], `${path}/${key}`, issues);
+            } else if (schema.additionalProperties === false) {
+                issues.push({
+                    path: `${path}/${key}`,
+                    keyword: 'additionalProperties',
+                    message: `不支持的参数 ${key}`,
+                    expected: Object.keys(properties),
+                });
+            } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+                value[key] = validate(schema.additionalProperties, value[key], `${path}/${key}`, issues);
+            }
+        }
+    }
+
+    return value;
+}
+
+export function validateArguments(schema: any, args: any): SchemaValidationResult {
+    const issues: SchemaIssue[] = [];
+    const input = args === undefined || args === null ? {} : args;
+    const value = validate(schema || { type: 'object' }, input, '', issues);
+    return { valid: !issues.length, value, issues };
+}
+
+/**
+ * 校验工具参数，通过时返回填充默认值、类型转换后的参数，失败时抛出 MCPToolArgumentsError
+ */
+export function assertToolArguments(tool: string, schema: any, args: any) {
+    const { valid, value, issues } = validateArguments(schema, args);
+    if (!valid) throw new MCPToolArgumentsError(tool, issues);
+    return value;
+}
@@ -0,0 +1,682 @@
+import { PassThrough } from 'stream';
+import { randomUUID } from 'crypto';
+import { Context } from 'cordis';
+import { Handler } from '@ejunz/framework';
+import { Logger } from '@ejunz/utils';
+import { buildMCPCallDoc } from './mcp-audit';
+import { enforceToolPolicy, resolveRequestCaller } from './mcp-policy';
+
+const logger = new Logger('mcp-server');
+
+/**
+ * MCP 服务端核心：server / provider / node 三种模式共用
+ * - JSON-RPC 2.0（单条与批量）、协议版本协商、会话
+ * - Streamable HTTP 传输：POST 收发请求，GET 建立 SSE 流接收服务端主动消息，DELETE 结束会话
+ * - WebSocket 等长连接通过 openSession(send) 接入
+ * - 工具集变化时向所有会话推送 notifications/tools/list_changed
+ * - 可选的 resources（含订阅）与 prompts 能力，由 options.resources / options.prompts 提供
+ * - tools/call 执行前按调用方（令牌）检查工具访问策略，见 mcp-policy
+ */
+
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+export const LATEST_MCP_PROTOCOL_VERSION = MCP_PROTOCOL_VERSIONS[0];
+
+export const JSONRPC_ERRORS = {
+    PARSE_ERROR: -32700,
+    INVALID_REQUEST: -32600,
+    METHOD_NOT_FOUND: -32601,
+    INVALID_PARAMS: -32602,
+    INTERNAL_ERROR: -32603,
+    SESSION_NOT_FOUND: -32001,
+    RESOURCE_NOT_FOUND: -32002,
+    POLICY_DENIED: -32003,
+};
+
+const SESSION_IDLE_TIMEOUT = 30 * 60 * 1000; // 无活动且无推送流的会话 30 分钟后清理
+const SSE_KEEPALIVE_INTERVAL = 25 * 1000;
+
+export class MCPError extends Error {
+    constructor(public code: number, message: string, public data?: any) {
+        super(message);
+    }
+}
+
+/**
+ * 工具参数未通过 inputSchema 校验
+ * 经 MCPServer 调用时转换为 isError 工具结果（附带逐项问题），便于模型修正参数后重试
+ */
+export class MCPToolArgumentsError extends MCPError {
+    constructor(public tool: string, public issues: Array<{ path: string; keyword: string; message: string; [key: string]: any }>) {
+        super(
+            JSONRPC_ERRORS.INVALID_PARAMS,
+            `Invalid arguments for tool ${tool}: ${issues.map((i) => `${i.path || '(root)'} ${i.message}`).join('; ')}`,
+            { tool, issues },
+        );
+    }
+}
+
+/**
+ * 工具调用被访问策略拦截：无权限、超出频率、不在允许时段、确认被拒绝或超时
+ * 与参数错误一样以 isError 工具结果返回，模型可据此向用户说明
+ */
+export class MCPToolPolicyError extends MCPError {
+    constructor(public tool: string, public reason: string, message: string, data?: Record<string, any>) {
+        super(JSONRPC_ERRORS.POLICY_DENIED, message, { tool, reason, ...(data || {}) });
+    }
+}
+
+// 调用方身份：令牌对应的名称，内部调用方为 voice / upstream / console / server，未携带令牌为 anonymous
+export interface MCPCaller {
+    name: string;
+}
+
+export const ANONYMOUS_CALLER: MCPCaller = { name: 'anonymous' };
+
+export interface MCPToolDefinition {
+    name: string;
+    description?: string;
+    inputSchema: any;
+    [key: string]: any;
+}
+
+export interface MCPToolCallRecord {
+    name: string;
+    args: any;
+    result?: any;
+    error?: string;
+    duration: number;
+    startedAt?: number;
+    cancelled?: boolean;
+    // 工具所属：local / Node ID / 外部服务器名
+    server?: string;
+    // 调用来源：传输方式、会话与客户端
+    transport?: string;
+    sessionId?: string;
+    clientInfo?: { name?: string; version?: string } | null;
+    caller?: string;
+}
+
+export interface MCPResource {
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+export interface MCPResourceTemplate {
+    uriTemplate: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+export interface MCPResourceProvider {
+    list(ctx: Context): MCPResource[] | Promise<MCPResource[]>;
+    templates?(ctx: Context): MCPResourceTemplate[] | Promise<MCPResourceTemplate[]>;
+    read(ctx: Context, uri: string): Promise<{ contents: any[] }>;
+}
+
+export interface MCPPrompt {
+    name: string;
+    description?: string;
+    arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+export interface MCPPromptProvider {
+    list(ctx: Context): MCPPrompt[] | Promise<MCPPrompt[]>;
+    get(ctx: Context, name: string, args: Record<string, string>): Promise<{ description?: string; messages: any[] }>;
+}
+
+export interface MCPServerOptions {
+    name: string;
+    version?: string;
+    instructions?: string;
+    listTools(ctx: Context): MCPToolDefinition[] | Promise<MCPToolDefinition[]>;
+    // signal 在客户端发送 notifications/cancelled 时触发
+    callTool(ctx: Context, name: string, args: Record<string, any>, session: MCPSession | null, signal?: AbortSignal): Promise<any>;
+    resources?: MCPResourceProvider;
+    prompts?: MCPPromptProvider;
+    // 额外的 JSON-RPC 方法
+    methods?: Record<string, (ctx: Context, params: any, session: MCPSession | null) => Promise<any>>;
+    // 额外声明的能力（tools 能力由核心声明）
+    capabilities?: Record<string, any>;
+    // 工具调用完成后的记录（日志、广播）
+    onToolCall?(ctx: Context, record: MCPToolCallRecord): void | Promise<void>;
+}
+
+type MCPMessageSender = (message: any) => void;
+
+export class MCPSession {
+    protocolVersion = LATEST_MCP_PROTOCOL_VERSION;
+    clientInfo: any = null;
+    clientCapabilities: any = {};
+    initialized = false;
+    // resources/subscribe 订阅的资源 URI
+    subscriptions = new Set<string>();
+    // 建立会话时的调用方，之后不带令牌的请求沿用
+    caller: MCPCaller = ANONYMOUS_CALLER;
+    createdAt = Date.now();
+    lastSeen = Date.now();
+    private streams = new Set<MCPMessageSender>();
+
+    constructor(public readonly id: string, public readonly transport: 'http' | 'ws') {}
+
+    // 挂接一个推送通道（SSE 流或 WebSocket），返回解除函数
+    attach(send: MCPMessageSender) {
+        this.streams.add(send);
+        return () => {
+            this.streams.delete(send);
+            this.lastSeen = Date.now();
+        };
+    }
+
+    get connected() {
+        return this.streams.size > 0;
+    }
+
+    send(message: any) {
+        for (const send of this.streams) {
+            try {
+                send(message);
+            } catch (e) {
+                logger.debug('[%s] 推送消息失败: %s', this.id, (e as Error).message);
+            }
+        }
+    }
+}
+
+function negotiateProtocolVersion(requested?: string) {
+    return requested && MCP_PROTOCOL_VERSIONS.includes(requested) ? requested : LATEST_MCP_PROTOCOL_VERSION;
+}
+
+// MCP 要求 tools/call 返回 { content: [...] }，非该格式的结果按 JSON 文本包装
+export function toMCPToolResult(result: any) {
+    if (result && typeof result === 'object' && Array.isArray(result.content)) return result;
+    return {
+        content: [{
+            type: 'text',
+            text: typeof result === 'string' ? result : JSON.stringify(result),
+        }],
+    };
+}
+
+/**
+ * 工具执行失败的结果（isError: true）
+ * 未知工具、请求格式错误等协议层问题仍以 JSON-RPC 错误返回
+ */
+export function toMCPToolErrorResult(error: Error) {
+    const detail = error instanceof MCPToolArgumentsError
+        ? {
+            error: 'invalid_arguments', tool: error.tool, message: error.message, issues: error.issues,
+        }
+        : error instanceof MCPToolPolicyError
+            ? { error: error.reason, message: error.message, ...error.data }
+            : { error: 'execution_failed', message: error.message, ...(error instanceof MCPError && error.data ? { data: error.data } : {}) };
+    return {
+        content: [{ type: 'text', text: JSON.stringify(detail) }],
+        isError: true,
+    };
+}
+
+// 只有参数校验失败、策略拦截和非 MCPError 的执行异常作为 isError 结果返回
+function isToolExecutionError(error: any) {
+    return error instanceof MCPToolArgumentsError || error instanceof MCPToolPolicyError || !(error instanceof MCPError);
+}
+
+function toolsSignature(tools: MCPToolDefinition[]) {
+    return JSON.stringify(tools.map((t) => [t.name, t.description, t.inputSchema]));
+}
+
+export class MCPServer {
+    private sessions = new Map<string, MCPSession>();
+    // 进行中的 tools/call，键为 会话ID:请求ID，用于响应 notifications/cancelled
+    private inflight = new Map<string, AbortController>();
+    private toolsSignature = '';
+    private cleanupTimer: NodeJS.Timeout;
+
+    constructor(public options: MCPServerOptions) {
+        this.cleanupTimer = setInterval(() => this.cleanupSessions(), 60 * 1000);
+        this.cleanupTimer.unref?.();
+    }
+
+    get capabilities() {
+        return {
+            tools: { listChanged: true },
+            ...(this.options.resources ? { resources: { subscribe: true, listChanged: true } } : {}),
+            ...(this.options.prompts ? { prompts: { listChanged: true } } : {}),
+            ...(this.options.capabilities || {}),
+        };
+    }
+
+    createSession(transport: 'http' | 'ws' = 'http') {
+        const session = new MCPSession(randomUUID(), transport);
+        this.sessions.set(session.id, session);
+        return session;
+    }
+
+    getSession(id: string) {
+        const session = this.sessions.get(id);
+        if (session) session.lastSeen = Date.now();
+        return session;
+    }
+
+    closeSession(id: string) {
+        return this.sessions.delete(id);
+    }
+
+    listSessions() {
+        return Array.from(this.sessions.values());
+    }
+
+    // 长连接传输：为连接创建会话，返回会话与关闭函数
+    openSession(send: MCPMessageSender, caller?: MCPCaller) {
+        const session = this.createSession('ws');
+        if (caller) session.caller = caller;
+        const detach = session.attach(send);
+        return {
+            session,
+            close: () => {
+                detach();
+                this.closeSession(session.id);
+            },
+        };
+    }
+
+    // 向所有（或指定）会话推送通知
+    notify(method: string, params?: any, sessionId?: string) {
+        const message = { jsonrpc: '2.0', method, ...(params ? { params } : {}) };
+        for (const session of this.sessions.values()) {
+            if (sessionId && session.id !== sessionId) continue;
+            if (!session.initialized && session.transport === 'http') continue;
+            session.send(message);
+        }
+    }
+
+    // 资源内容变化：通知订阅了该 URI 的会话
+    resourceUpdated(uri: string) {
+        for (const session of this.sessions.values()) {
+            if (session.subscriptions.has(uri)) session.send({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri } });
+        }
+    }
+
+    resourcesChanged() {
+        if (this.options.resources) this.notify('notifications/resources/list_changed');
+    }
+
+    promptsChanged() {
+        if (this.options.prompts) this.notify('notifications/prompts/list_changed');
+    }
+
+    // 工具集变化检查：签名变化时推送 notifications/tools/list_changed
+    async refreshTools(ctx: Context) {
+        try {
+            const tools = await this.options.listTools(ctx);
+            const signature = toolsSignature(tools);
+            if (signature === this.toolsSignature) return false;
+            this.toolsSignature = signature;
+            if (this.sessions.size) {
+                logger.info('[%s] 工具集已变化（%d 个工具），通知 %d 个会话', this.options.name, tools.length, this.sessions.size);
+                this.notify('notifications/tools/list_changed');
+            }
+            return true;
+        } catch (e) {
+            logger.warn('[%s] 检查工具集失败: %s', this.options.name, (e as Error).message);
+            return false;
+        }
+    }
+
+    /**
+     * 处理一条或一批 JSON-RPC 消息
+     * 返回需要回复的内容：单条请求返回对象，批量返回数组，全部为通知/响应时返回 null
+     * caller 为本次请求携带的调用方，未提供时使用会话的调用方
+     */
+    async handle(
+        ctx: Context, payload: any, session: MCPSession | null, caller?: MCPCaller,
+    ): Promise<{ body: any; session: MCPSession | null }> {
+        if (typeof payload === 'string') {
+            try {
+                payload = JSON.parse(payload);
+            } catch {
+                return { body: this.errorResponse(null, JSONRPC_ERRORS.PARSE_ERROR, 'Parse error'), session };
+            }
+        }
+        if (Array.isArray(payload)) {
+            if (!payload.length) {
+                return { body: this.errorResponse(null, JSONRPC_ERRORS.INVALID_REQUEST, 'Empty batch'), session };
+            }
+            // initialize 不能出现在批量请求中
+            if (payload.some((m) => m?.method === 'initialize')) {
+                return { body: this.errorResponse(null, JSONRPC_ERRORS.INVALID_REQUEST, 'initialize must not be batched'), session };
+            }
+            const responses = await Promise.all(payload.map((m) => this.handleMessage(ctx, m, session, caller)));
+            const body = responses.filter((r) => r !== null);
+            return { body: body.length ? body : null, session };
+        }
+        if (payload?.method === 'initialize' && !session) {
+            session = this.createSession('http');
+            if (caller) session.caller = caller;
+        }
+        return { body: await this.handleMessage(ctx, payload, session, caller), session };
+    }
+
+    private errorResponse(id: any, code: number, message: string, data?: any) {
+        return { jsonrpc: '2.0', id: id ?? null, error: { code, message, ...(data !== undefined ? { data } : {}) } };
+    }
+
+    private async handleMessage(ctx: Context, message: any, session: MCPSession | null, caller?: MCPCaller): Promise<any> {
+        if (!message || typeof message !== 'object' || message.jsonrpc !== undefined && message.jsonrpc !== '2.0') {
+            return this.errorResponse(null, JSONRPC_ERRORS.INVALID_REQUEST, 'Invalid Request');
+        }
+        const { id, method, params } = message;
+        const isNotification = id === undefined || id === null;
+
+        // 客户端发来的响应（例如对服务端请求的回复），无需处理
+        if (!method) {
+            if (!isNotification && ('result' in message || 'error' in message)) return null;
+            return this.errorResponse(id, JSONRPC_ERRORS.INVALID_REQUEST, 'Invalid Request');
+        }
+
+        let controller: AbortController | undefined;
+        const inflightKey = `${session?.id || ''}:${id}`;
+        if (method === 'tools/call' && !isNotification) {
+            controller = new AbortController();
+            this.inflight.set(inflightKey, controller);
+        }
+        try {
+            const result = await this.dispatch(ctx, method, params || {}, session, isNotification, controller?.signal, caller);
+            // 已取消的请求不再发送响应
+            if (isNotification || controller?.signal.aborted) return null;
+            return { jsonrpc: '2.0', id, result };
+        } catch (e) {
+            if (controller?.signal.aborted) return null;
+            if (isNotification) {
+                logger.debug('[%s] 处理通知 %s 失败: %s', this.options.name, method, (e as Error).message);
+                return null;
+            }
+            if (e instanceof MCPError) return this.errorResponse(id, e.code, e.message, e.data);
+            logger.error('[%s] %s 处理失败: %s', this.options.name, method, (e as Error).message);
+            return this.errorResponse(id, JSONRPC_ERRORS.INTERNAL_ERROR, (e as Error).message);
+        } finally {
+            if (controller && this.inflight.get(inflightKey) === controller) this.inflight.delete(inflightKey);
+        }
+    }
+
+    private async dispatch(
+        ctx: Context, method: string, params: any, session: MCPSession | null, isNotification: boolean,
+        signal?: AbortSignal, caller?: MCPCaller,
+    ) {
+        switch (method) {
+        case 'initialize': {
+            const protocolVersion = negotiateProtocolVersion(params.protocolVersion);
+            if (session) {
+                session.protocolVersion = protocolVersion;
+                session.clientInfo = params.clientInfo || null;
+                session.clientCapabilities = params.capabilities || {};
+            }
+            logger.info('[%s] 客户端初始化: %s（协议 %s）', this.options.name, params.clientInfo?.name || 'unknown', protocolVersion);
+            // 记录当前工具集签名，作为之后推送 list_changed 的基准
+            if (!this.toolsSignature) this.toolsSignature = toolsSignature(await this.options.listTools(ctx));
+            return {
+                protocolVersion,
+                capabilities: this.capabilities,
+                serverInfo: { name: this.options.name, version: this.options.version || '1.0.0' },
+                ...(this.options.instructions ? { instructions: this.options.instructions } : {}),
+            };
+        }
+        case 'notifications/initialized':
+            if (session) session.initialized = true;
+            return {};
+        case 'notifications/cancelled': {
+            const controller = this.inflight.get(`${session?.id || ''}:${params.requestId}`);
+            if (controller) {
+                logger.info('[%s] 请求已取消: %s（%s）', this.options.name, params.requestId, params.reason || '');
+                controller.abort(params.reason || 'cancelled');
+            }
+            return {};
+        }
+        case 'ping':
+            return {};
+        case 'tools/list':
+            return { tools: await this.options.listTools(ctx) };
+        case 'tools/call':
+            return await this.callTool(ctx, params, session, caller || session?.caller || ANONYMOUS_CALLER, signal);
+        case 'resources/list':
+            if (!this.options.resources) break;
+            return { resources: await this.options.resources.list(ctx) };
+        case 'resources/templates/list':
+            if (!this.options.resources) break;
+            return { resourceTemplates: await this.options.resources.templates?.(ctx) || [] };
+        case 'resources/read':
+            if (!this.options.resources) break;
+            if (!params.uri) throw new MCPError(JSONRPC_ERRORS.INVALID_PARAMS, 'Missing resource uri');
+            return await this.options.resources.read(ctx, params.uri);
+        case 'resources/subscribe':
+        case 'resources/unsubscribe':
+            if (!this.options.resources) break;
+            if (!params.uri) throw new MCPError(JSONRPC_ERRORS.INVALID_PARAMS, 'Missing resource uri');
+            // 无会话（旧客户端）时没有推送通道，订阅无意义
+            if (!session) throw new MCPError(JSONRPC_ERRORS.INVALID_REQUEST, 'Subscriptions require a session');
+            if (method === 'resources/subscribe') session.subscriptions.add(params.uri);
+            else session.subscriptions.delete(params.uri);
+            return {};
+        case 'prompts/list':
+            if (!this.options.prompts) break;
+            return { prompts: await this.options.prompts.list(ctx) };
+        case 'prompts/get':
+            if (!this.options.prompts) break;
+            if (!params.name) throw new MCPError(JSONRPC_ERRORS.INVALID_PARAMS, 'Missing prompt name');
+            return await this.options.prompts.get(ctx, params.name, params.arguments || {});
+        default:
+            break;
+        }
+        if (this.options.methods?.[method]) return await this.options.methods[method](ctx, params, session);
+        if (isNotification) return {};
+        throw new MCPError(JSONRPC_ERRORS.METHOD_NOT_FOUND, 'Method not found');
+    }
+
+    private async callTool(ctx: Context, params: any, session: MCPSession | null, caller: MCPCaller, signal?: AbortSignal) {
+        const { name } = params;
+        const args = params.arguments || params.args || {};
+        if (!name || typeof name !== 'string') throw new MCPError(JSONRPC_ERRORS.INVALID_PARAMS, 'Missing tool name');
+        if (typeof args !== 'object' || Array.isArray(args)) {
+            throw new MCPError(JSONRPC_ERRORS.INVALID_PARAMS, 'Tool arguments must be an object');
+        }
+
+        const startTime = Date.now();
+        const source = {
+            startedAt: startTime,
+            transport: session?.transport || 'http',
+            sessionId: session?.id,
+            clientInfo: session?.clientInfo || null,
+            caller: caller.name,
+        };
+        logger.info('[MCP工具调用] %s 参数: %o', name, args);
+        try {
+            await enforceToolPolicy(ctx, {
+                tool: name, args, caller, server: this.options.name, signal,
+            });
+            const result = toMCPToolResult(await this.options.callTool(ctx, name, args, session, signal));
+            // 外部服务器可能直接返回 isError 结果
+            const error = result.isError ? result.content?.find((c: any) => c.type === 'text')?.text || 'Tool returned an error' : undefined;
+            await this.recordToolCall(ctx, {
+                name, args, result, error, duration: Date.now() - startTime, cancelled: signal?.aborted, ...source,
+            });
+            return result;
+        } catch (e) {
+            await this.recordToolCall(ctx, {
+                name, args, error: (e as Error).message, duration: Date.now() - startTime, cancelled: signal?.aborted, ...source,
+            });
+            if (!isToolExecutionError(e)) throw e;
+            logger.warn('[MCP工具调用] %s 失败: %s', name, (e as Error).message);
+            return toMCPToolErrorResult(e as Error);
+        }
+    }
+
+    private async recordToolCall(ctx: Context, record: MCPToolCallRecord) {
+        if (!this.options.onToolCall) return;
+        try {
+            await this.options.onToolCall(ctx, record);
+        } catch (e) {
+            logger.debug('[%s] 记录工具调用失败: %s', this.options.name, (e as Error).message);
+        }
+    }
+
+    private cleanupSessions() {
+        const now = Date.now();
+        for (const [id, session] of this.sessions) {
+            if (!session.connected && now - session.lastSeen > SESSION_IDLE_TIMEOUT) this.sessions.delete(id);
+        }
+    }
+}
+
+/**
+ * 工具调用记录的默认实现：persist 时写入 mcpcall（完整调用记录）与 mcplog，
+ * 并广播 mcp/log 与 mcp/tool/call（指标）事件
+ */
+export async function logMCPToolCall(ctx: Context, record: MCPToolCallRecord, persist = true) {
+    const call = buildMCPCallDoc(record);
+    const db = (ctx as any).db;
+    const saved = persist && db?.mcpcall ? await db.mcpcall.insert(call).catch(() => call) : call;
+    const entry = {
+        timestamp: Date.now(),
+        level: call.status === 'error' ? 'error' : 'info',
+        message: call.status === 'error' ? `Tool failed: ${record.name}`
+            : call.status === 'cancelled' ? `Tool cancelled: ${record.name}` : `Tool called: ${record.name}`,
+        tool: record.name,
+        metadata: {
+            args: call.args,
+            result: call.result,
+            error: call.error,
+            duration: call.duration,
+            server: call.server,
+            transport: call.transport,
+            callId: (saved as any)._id,
+        },
+    };
+    const log = persist && db?.mcplog ? await db.mcplog.insert(entry) : entry;
+    // 使用全局context确保事件能传播到所有订阅者
+    const globalCtx = (global as any).__cordis_ctx || ctx;
+    try { (globalCtx as any).emit('mcp/tool/call', call.server, call.tool, { status: call.status, duration: call.duration }); } catch {}
+    try { await (globalCtx as any).emit('mcp/log', log); } catch {}
+}
+
+/**
+ * Streamable HTTP 传输
+ * describe 提供 GET（非 SSE）时返回的服务器状态信息
+ */
+export function createMCPHttpHandler(server: MCPServer, describe?: () => Record<string, any>) {
+    return class MCPHttpHandler extends Handler<Context> {
+        allowCors = true;
+
+        private header(name: string): string {
+            const value = this.request.headers?.[name];
+            return Array.isArray(value) ? value[0] : (value || '');
+        }
+
+        private fail(status: number, code: number, message: string) {
+            this.response.status = status;
+            this.response.type = 'application/json';
+            this.response.body = { jsonrpc: '2.0', error: { code, message }, id: null };
+        }
+
+        // 校验会话头：未携带时按无会话处理（兼容旧客户端），携带但不存在时返回 404
+        private resolveSession(): MCPSession | null | false {
+            const sessionId = this.header('mcp-session-id');
+            if (!sessionId) return null;
+            const session = server.getSession(sessionId);
+            if (!session) {
+                this.fail(404, JSONRPC_ERRORS.SESSION_NOT_FOUND, 'Session not found');
+                return false;
+            }
+            return session;
+        }
+
+        private checkProtocolVersion() {
+            const version = this.header('mcp-protocol-version');
+            if (version && !MCP_PROTOCOL_VERSIONS.includes(version)) {
+                this.fail(400, JSONRPC_ERRORS.INVALID_REQUEST, `Unsupported protocol version: ${version}`);
+                return false;
+            }
+            return true;
+        }
+
+        async get() {
+            if (!this.header('accept').includes('text/event-stream')) {
+                this.response.type = 'application/json';
+                this.response.body = {
+                    jsonrpc: '2.0',
+                    result: {
+                        server: server.options.name,
+                        version: server.options.version || '1.0.0',
+                        protocolVersions: MCP_PROTOCOL_VERSIONS,
+                        uptime: process.uptime(),
+                        timestamp: new Date().toISOString(),
+                        ...(describe ? describe() : {}),
+                    },
+                    id: null,
+                };
+                return;
+            }
+
+            // SSE 流：接收服务端主动推送的通知
+            if (!this.checkProtocolVersion()) return;
+            const session = this.resolveSession();
+            if (session === false) return;
+            if (!session) {
+                this.fail(400, JSONRPC_ERRORS.INVALID_REQUEST, 'Mcp-Session-Id header is required');
+                return;
+            }
+
+            const stream = new PassThrough();
+            const detach = session.attach((message) => {
+                stream.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+            });
+            const keepAlive = setInterval(() => stream.write(': ping\n\n'), SSE_KEEPALIVE_INTERVAL);
+            stream.on('close', () => {
+                clearInterval(keepAlive);
+                detach();
+                logger.debug('[%s] SSE 流已关闭: %s', server.options.name, session.id);
+            });
+            stream.write(': connected\n\n');
+
+            this.response.status = 200;
+            this.response.type = 'text/event-stream';
+            this.response.addHeader('Cache-Control', 'no-cache');
+            this.response.addHeader('Connection', 'keep-alive');
+            this.response.addHeader('X-Accel-Buffering', 'no');
+            this.response.addHeader('Mcp-Session-Id', session.id);
+            this.response.body = stream;
+        }
+
+        async post() {
+            if (!this.checkProtocolVersion()) return;
+            const existing = this.resolveSession();
+            if (existing === false) return;
+
+            const { body, session } = await server.handle(this.ctx, this.request.body, existing, resolveRequestCaller(this.request));
+            if (session) this.response.addHeader('Mcp-Session-Id', session.id);
+            if (body === null) {
+                // 只包含通知或响应
+                this.response.status = 202;
+                this.response.body = null;
+                return;
+            }
+            this.response.type = 'application/json';
+            this.response.body = body;
+        }
+
+        async delete() {
+            const sessionId = this.header('mcp-session-id');
+            if (!sessionId) {
+                this.fail(400, JSONRPC_ERRORS.INVALID_REQUEST, 'Mcp-Session-Id header is required');
+                return;
+            }
+            if (!server.closeSession(sessionId)) {
+                this.fail(404, JSONRPC_ERRORS.SESSION_NOT_FOUND, 'Session not found');
+                return;
+            }
+            this.response.status = 204;
+            this.response.body = null;
+        }
+    };
+}
@@ -1,32 +1,45 @@
 import { Context } from 'cordis';
 import { Logger } from '@ejunz/utils';
 import { callTool, listTools } from '../mcp-tools';
-import { getAllNodeTools, connectedNodes } from '../handler/node';
+import { callNodeTool, getAllNodeTools, connectedNodes } from '../handler/node';
+import { findUpstreamTool, getAllUpstreamTools } from '../service/mcp-gateway';
+import { MCPServer, logMCPToolCall } from './mcp-server';
+import { assertToolArguments } from './mcp-schema';
+import {
+    EDGE_RESOURCE_URIS, EdgeDeviceSource, bindMCPResources, createMCPResourceProvider, listMCPResources,
+    notifyMCPResourceUpdated, readMCPResource, registerEdgeDeviceResources, registerMCPResource,
+} from './mcp-resources';
+import { createMCPPromptProvider } from './mcp-prompts';
 
 const logger = new Logger('server-mcp');
 
 export function getMCPTools() {
-    // 合并 Server 工具和 Node 工具
+    // 合并 Server 工具、Node 工具和外部 MCP 服务器工具
     const serverTools = listTools().map((t: any) => ({
         name: t.name,
         description: t.description,
         inputSchema: t.parameters || t.inputSchema || { type: 'object', properties: {} },
     }));
     const nodeTools = getAllNodeTools();
-    return [...serverTools, ...nodeTools];
+    return [...serverTools, ...nodeTools, ...getAllUpstreamTools()];
+}
+
+// 工具所属：外部服务器名 / Node ID / local（调用记录与指标的 server 标签）
+export function resolveToolServer(name: string) {
+    return findUpstreamTool(name)?.server || findNodeTool(name)?.nodeId || 'local';
 }
 
 // 查找工具属于哪个 Node（如果存在）
-function findToolNode(toolName: string): string | null {
+function findNodeTool(toolName: string): { nodeId: string; tool: any } | null {
     const { nodeTools } = require('../handler/node');
     for (const [nodeId, tools] of nodeTools.entries()) {
-        if (tools.some((t: any) => t.name === toolName)) {
-            return nodeId;
-        }
+        const tool = tools.find((t: any) => t.name === toolName);
+        if (tool) return { nodeId, tool };
     }
     return null;
 }
 
+
 export function createMCPDispatchers() {
     const dispatchers: Record<string, (ctx: Context, req: any) => Promise<any>> = {
         'tools/list': async () => ({ tools: getMCPTools() }),
@@ -37,37 +50,27 @@ export function createMCPDispatchers() {
             // 记录工具调用开始
             logger.info('[MCP工具调用] %s 参数: %o', name, args);
             
+            // 外部 MCP 服务器工具（<server>__<tool>），结果已是 MCP 格式
+            const upstreamTool = findUpstreamTool(name);
+            if (upstreamTool) {
+                // 与 Node 工具相同，转发前按外部服务器提供的 inputSchema 校验
+                const validArgs = assertToolArguments(name, upstreamTool.inputSchema, args);
+                const result = await ctx.mcpGateway.callTool(name, validArgs);
+                logger.success('[MCP工具调用] %s 成功 (耗时: %dms)', name, Date.now() - startTime);
+                return result;
+            }
+
             // 检查是否是 Node 工具
-            const nodeId = findToolNode(name);
-            if (nodeId) {
-                // 通过 HTTP API 调用 Node 工具
-                const node = connectedNodes.get(nodeId);
-                if (!node) {
-                    logger.error('[MCP工具调用] Node %s 未连接', nodeId);
-                    throw new Error(`Node ${nodeId} 未连接`);
-                }
-                
-                // 获取 Node 的地址
-                const nodeHost = (node as any).nodeHost || 'localhost';
-                const nodePort = (node as any).nodePort || 5284;
-                const nodeUrl = `http://${nodeHost}:${nodePort}`;
-                
-                logger.info('[MCP工具调用] 转发到 Node %s (%s:%d)', nodeId, nodeHost, nodePort);
-                
-                const superagent = require('superagent');
-                
+            const nodeTool = findNodeTool(name);
+            if (nodeTool) {
+                const { nodeId, tool } = nodeTool;
+                // 转发前先按 Node 上报的 inputSchema 校验，避免无效请求到达设备端
+                const validArgs = assertToolArguments(name, tool.inputSchema || tool.parameters, args);
+
+                logger.info('[MCP工具调用] 转发到 Node %s', nodeId);
                 try {
-                    // 统一通过工具执行 API 调用 Node 工具（这样可以获取完整的状态信息）
-                    const toolResp = await superagent
-                        .post(`${nodeUrl}/zigbee2mqtt/tool/execute`)
-                        .send({ toolName: name, arguments: args })
-                        .timeout(10000);
-                    
-                    if (toolResp.body?.error) {
-                        throw new Error(toolResp.body.error);
-                    }
-                    
-                    const result = toolResp.body?.result || toolResp.body;
+                    // 经 /node/conn 长连接下发（必要时回退到 HTTP），request.signal 用于取消
+                    const result = await callNodeTool(nodeId, name, validArgs, request.signal);
                     const duration = Date.now() - startTime;
                     const resultPreview = typeof result === 'object' 
                         ? JSON.stringify(result).substring(0, 200) 
@@ -106,11 +109,95 @@ export function createMCPDispatchers() {
                 return { content: [{ type: 'text', text: JSON.stringify(result) }] };
             }
         },
-        'resources/list': async () => ({ resources: [] }),
-        'resources/read': async () => { throw new Error('资源功能未启用'); },
+        'resources/list': async () => ({ resources: listMCPResources() }),
+        'resources/read': async (ctx, request) => readMCPResource(ctx, request.params?.uri),
         'notifications/initialized': async () => ({}),
     };
     return dispatchers;
 }
 
 
+
+let serverMCP: MCPServer | null = null;
+
+/**
+ * Server 模式的 MCP 服务端实例（/mcp/api 与上游桥接共用）
+ */
+export function getServerMCPServer() {
+    if (serverMCP) return serverMCP;
+    const dispatchers = createMCPDispatchers();
+    serverMCP = new MCPServer({
+        name: 'remote-mcp-server',
+        version: '1.0.0',
+        listTools: () => getMCPTools(),
+        callTool: (ctx, name, args, session, signal) => dispatchers['tools/call'](ctx, { params: { name, arguments: args }, signal }),
+        resources: createMCPResourceProvider(),
+        prompts: createMCPPromptProvider(),
+        onToolCall: (ctx, record) => logMCPToolCall(ctx, { ...record, server: resolveToolServer(record.name) }),
+    });
+    bindMCPResources(serverMCP);
+    return serverMCP;
+}
+
+function getNodeUrl(node: any) {
+    return `http://${node.nodeHost || 'localhost'}:${node.nodePort || 5284}`;
+}
+
+// Server 模式下 Zigbee / MQTT 桥接状态来自已连接的 Node（通过 Node 的 HTTP API）
+const nodeDeviceSource: EdgeDeviceSource = {
+    async listDevices() {
+        const superagent = require('superagent');
+        const result: any[] = [];
+        for (const [nodeId, node] of connectedNodes.entries()) {
+            try {
+                const resp = await superagent.get(`${getNodeUrl(node)}/zigbee2mqtt/devices`).timeout(5000);
+                for (const device of resp.body?.devices || []) result.push({ ...device, nodeId });
+            } catch (e) {
+                logger.warn('获取 Node %s 设备列表失败: %s', nodeId, (e as Error).message);
+            }
+        }
+        return result;
+    },
+    async getDeviceState(ctx, deviceId) {
+        const devices = await this.listDevices(ctx);
+        const device = devices.find((d) => d.friendly_name === deviceId || d.ieee_address === deviceId);
+        return device ? (device.state ?? {}) : null;
+    },
+    async getBridgeStatus() {
+        const superagent = require('superagent');
+        const nodes: Record<string, any> = {};
+        for (const [nodeId, node] of connectedNodes.entries()) {
+            try {
+                const resp = await superagent.get(`${getNodeUrl(node)}/api/mqtt-bridge-config/status`).timeout(5000);
+                nodes[nodeId] = resp.body?.status ?? resp.body;
+            } catch (e) {
+                nodes[nodeId] = { error: (e as Error).message };
+            }
+        }
+        return { nodes };
+    },
+};
+
+/**
+ * 注册 Server 模式的边缘状态资源，返回注销函数
+ */
+export function registerServerMCPResources(ctx: Context) {
+    const disposers = [
+        registerEdgeDeviceResources(nodeDeviceSource),
+        registerMCPResource({
+            uri: EDGE_RESOURCE_URIS.mcpLogs,
+            name: '最近的 MCP 日志',
+            description: '最近 50 条 MCP 工具调用日志（按时间倒序）',
+            read: (c) => c.db.mcplog.find({}).sort({ timestamp: -1 }).limit(50),
+        }),
+    ];
+    // 使用全局context确保能收到所有 mcp/log 事件
+    const globalCtx = (global as any).__cordis_ctx || ctx;
+    const disposeLog = (globalCtx as any).on('mcp/log', () => notifyMCPResourceUpdated(EDGE_RESOURCE_URIS.mcpLogs));
+    const disposeNodes = (ctx as any).on('node/tools-updated', () => notifyMCPResourceUpdated(EDGE_RESOURCE_URIS.zigbeeDevices));
+    return () => {
+        disposers.forEach((dispose) => dispose());
+        disposeLog?.();
+        disposeNodes?.();
+    };
+}
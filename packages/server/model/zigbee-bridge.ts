@@ -0,0 +1,153 @@
+/**
+ * zigbee2mqtt bridge 请求：bridge/request/<command> 与 bridge/response/<command> 通过 transaction 字段对应
+ * 这里定义界面、REST 与控制台共用的管理操作，实际收发见 service/zigbee2mqtt.ts 的 bridgeRequest
+ */
+
+export type ZigbeeBridgeErrorCode = 'invalid_params' | 'not_connected' | 'timeout' | 'bridge_error';
+
+/**
+ * bridge 请求失败：参数无效、MQTT 未连接、等待响应超时，或 zigbee2mqtt 返回 status: error
+ */
+export class ZigbeeBridgeError extends Error {
+    constructor(public code: ZigbeeBridgeErrorCode, public command: string, message: string, public data?: any) {
+        super(message);
+    }
+}
+
+// 各错误类型对应的 HTTP 状态码
+export const ZIGBEE_BRIDGE_ERROR_STATUS: Record<ZigbeeBridgeErrorCode, number> = {
+    invalid_params: 400,
+    not_connected: 503,
+    timeout: 504,
+    bridge_error: 422,
+};
+
+export const DEFAULT_BRIDGE_TIMEOUT = 10000;
+
+interface BridgeOperation {
+    command: string;
+    description: string;
+    required: string[];
+    timeout?: number;
+    build: (params: Record<string, any>) => Record<string, any>;
+}
+
+function pick(params: Record<string, any>, keys: string[]) {
+    return Object.fromEntries(keys.filter((key) => params[key] !== undefined && params[key] !== '').map((key) => [key, params[key]]));
+}
+
+export const ZIGBEE_BRIDGE_OPERATIONS: Record<string, BridgeOperation> = {
+    rename: {
+        command: 'device/rename',
+        description: '重命名设备',
+        required: ['from', 'to'],
+        build: (p) => ({ from: p.from, to: p.to, homeassistant_rename: !!p.homeassistantRename }),
+    },
+    remove: {
+        command: 'device/remove',
+        description: '移除设备（force 强制从数据库删除，block 阻止再次加入）',
+        required: ['id'],
+        timeout: 30000,
+        build: (p) => ({ id: p.id, force: !!p.force, block: !!p.block }),
+    },
+    bind: {
+        command: 'device/bind',
+        description: '绑定设备或群组（clusters 为空时绑定全部支持的 cluster）',
+        required: ['from', 'to'],
+        timeout: 20000,
+        build: (p) => pick(p, ['from', 'to', 'clusters', 'skip_disable_reporting']),
+    },
+    unbind: {
+        command: 'device/unbind',
+        description: '解除绑定',
+        required: ['from', 'to'],
+        timeout: 20000,
+        build: (p) => pick(p, ['from', 'to', 'clusters', 'skip_disable_reporting']),
+    },
+    group_add: {
+        command: 'group/add',
+        description: '新建群组',
+        required: ['friendly_name'],
+        build: (p) => pick(p, ['friendly_name', 'id']),
+    },
+    group_remove: {
+        command: 'group/remove',
+        description: '删除群组',
+        required: ['id'],
+        build: (p) => ({ id: p.id, force: !!p.force }),
+    },
+    group_rename: {
+        command: 'group/rename',
+        description: '重命名群组',
+        required: ['from', 'to'],
+        build: (p) => pick(p, ['from', 'to']),
+    },
+    group_member_add: {
+        command: 'group/members/add',
+        description: '将设备加入群组',
+        required: ['group', 'device'],
+        build: (p) => pick(p, ['group', 'device', 'endpoint']),
+    },
+    group_member_remove: {
+        command: 'group/members/remove',
+        description: '将设备移出群组',
+        required: ['group', 'device'],
+        build: (p) => pick(p, ['group', 'device', 'endpoint', 'skip_disable_reporting']),
+    },
+    ota_check: {
+        command: 'device/ota_update/check',
+        description: '检查固件更新',
+        required: ['id'],
+        timeout: 60000,
+        build: (p) => pick(p, ['id']),
+    },
+    ota_update: {
+        command: 'device/ota_update/update',
+        description: '升级固件（升级完成后才返回，可能需要数十分钟）',
+        required: ['id'],
+        timeout: 60 * 60 * 1000,
+        build: (p) => pick(p, ['id']),
+    },
+    configure_reporting: {
+        // zigbee2mqtt 1.x 为 device/configure_reporting，2.x 起为 device/reporting/configure
+        command: 'device/reporting/configure',
+        description: '配置属性上报（最小/最大间隔与变化阈值）',
+        required: ['id', 'cluster', 'attribute'],
+        timeout: 20000,
+        build: (p) => ({
+            ...pick(p, ['id', 'endpoint', 'cluster', 'attribute', 'manufacturer_code']),
+            minimum_report_interval: Number(p.minimum_report_interval ?? 0),
+            maximum_report_interval: Number(p.maximum_report_interval ?? 3600),
+            reportable_change: Number(p.reportable_change ?? 1),
+        }),
+    },
+    networkmap: {
+        command: 'networkmap',
+        description: '扫描网络拓扑（type 为 raw、graphviz 或 plantuml，routes 为 true 时包含路由表，扫描可能需要数分钟）',
+        required: [],
+        timeout: 5 * 60 * 1000,
+        build: (p) => ({ type: p.type || 'raw', routes: !!p.routes }),
+    },
+    options: {
+        command: 'options',
+        description: '修改 zigbee2mqtt 配置（部分选项需要重启生效）',
+        required: ['options'],
+        build: (p) => ({ options: p.options }),
+    },
+};
+
+/**
+ * 校验管理操作的参数并生成 bridge 请求，无效时抛出 ZigbeeBridgeError(invalid_params)
+ */
+export function buildBridgeRequest(operation: string, params: Record<string, any> = {}) {
+    const op = ZIGBEE_BRIDGE_OPERATIONS[operation];
+    if (!op) {
+        throw new ZigbeeBridgeError('invalid_params', operation, `不支持的操作: ${operation}，可用操作: ${Object.keys(ZIGBEE_BRIDGE_OPERATIONS).join(', ')}`);
+    }
+    const missing = op.required.filter((key) => params[key] === undefined || params[key] === null || params[key] === '');
+    if (missing.length) throw new ZigbeeBridgeError('invalid_params', op.command, `缺少参数: ${missing.join(', ')}`);
+    if (operation === 'options' && (typeof params.options !== 'object' || Array.isArray(params.options))) {
+        throw new ZigbeeBridgeError('invalid_params', op.command, 'options 必须是对象');
+    }
+    return { command: op.command, payload: op.build(params), timeout: op.timeout || DEFAULT_BRIDGE_TIMEOUT };
+}
@@ -0,0 +1,210 @@
+import { config } from '../config';
+
+/**
+ * Zigbee 网络拓扑与健康诊断：整理 zigbee2mqtt networkmap（raw）结果，
+ * 结合设备最近上报时间、可用性、电量与链路质量给出告警
+ */
+
+export type NetworkNodeType = 'Coordinator' | 'Router' | 'EndDevice';
+
+export interface NetworkMapNode {
+    ieee: string;
+    name: string;
+    type: NetworkNodeType;
+    networkAddress?: number;
+    model?: string;
+    manufacturer?: string;
+    // 扫描时未响应 LQI 请求
+    failed: boolean;
+}
+
+export interface NetworkMapLink {
+    source: string; // 邻居（子设备）ieee
+    target: string; // 上报该邻居的路由 ieee
+    lqi: number;
+    depth?: number;
+    relationship?: number; // 0 父 1 子 2 兄弟 3 无 4 曾经的子设备
+}
+
+export interface NetworkMap {
+    nodes: NetworkMapNode[];
+    links: NetworkMapLink[];
+}
+
+export type NetworkWarningType = 'offline' | 'no_data' | 'low_battery' | 'weak_link' | 'orphaned' | 'scan_failed';
+
+export interface NetworkWarning {
+    type: NetworkWarningType;
+    severity: 'critical' | 'warning' | 'info';
+    device: string;
+    message: string;
+    value?: any;
+}
+
+export function getNetworkHealthConfig() {
+    const cfg = (config as any).zigbeeHealth || {};
+    const positive = (value: any, fallback: number) => (Number(value) > 0 ? Number(value) : fallback);
+    return {
+        offlineHours: positive(cfg.offlineHours, 24),
+        lowBattery: positive(cfg.lowBattery, 20),
+        weakLqi: positive(cfg.weakLqi, 40),
+    };
+}
+
+function normalizeNodeType(type: string): NetworkNodeType {
+    if (type === 'Coordinator' || type === 'Router') return type;
+    return 'EndDevice';
+}
+
+/**
+ * 整理 networkmap raw 结果：统一字段名，合并重复链路（同一对设备保留 LQI 较高的一条）
+ */
+export function normalizeNetworkMap(value: any): NetworkMap {
+    const nodes: NetworkMapNode[] = (value?.nodes || []).map((node: any) => ({
+        ieee: node.ieeeAddr,
+        name: node.friendlyName || node.ieeeAddr,
+        type: normalizeNodeType(node.type),
+        networkAddress: node.networkAddress,
+        model: node.definition?.model || node.modelID,
+        manufacturer: node.definition?.vendor || node.manufacturerName,
+        failed: Array.isArray(node.failed) ? node.failed.length > 0 : !!node.failed,
+    }));
+    const links = new Map<string, NetworkMapLink>();
+    for (const link of value?.links || []) {
+        const source = link.source?.ieeeAddr ?? link.sourceIeeeAddr;
+        const target = link.target?.ieeeAddr ?? link.targetIeeeAddr;
+        if (!source || !target || source === target) continue;
+        const key = [source, target].sort().join('-');
+        const lqi = Number(link.lqi ?? link.linkquality ?? 0);
+        const existing = links.get(key);
+        if (existing && existing.lqi >= lqi) continue;
+        links.set(key, {
+            source, target, lqi, depth: link.depth, relationship: link.relationship,
+        });
+    }
+    return { nodes, links: [...links.values()] };
+}
+
+// 解析 last_seen（ISO 字符串、毫秒或秒时间戳）
+function parseLastSeen(value: any): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value === 'number') return value < 1e12 ? value * 1000 : value;
+    const parsed = Date.parse(String(value));
+    return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function formatAge(ms: number) {
+    const hours = ms / 3600000;
+    return hours >= 48 ? `${Math.floor(hours / 24)} 天` : `${Math.floor(hours)} 小时`;
+}
+
+export interface NetworkHealthInput {
+    devices: Array<Record<string, any>>; // bridge/devices（不含协调器）
+    states: Map<string, any>; // 设备最新上报
+    lastSeen: Map<string, number>; // 设备最近一次上报时间（本进程记录或设备历史）
+    availability: Map<string, string>; // zigbee2mqtt availability：online / offline
+    map?: NetworkMap | null;
+    now?: number;
+}
+
+/**
+ * 计算网络健康告警：离线（availability 为 offline 或超过 offlineHours 未上报）、低电量、
+ * 弱链路（networkmap 中 LQI 低于 weakLqi，未扫描时使用设备上报的 linkquality）、
+ * 孤立终端（不在拓扑中或没有任何链路）以及扫描时未响应的路由
+ */
+export function computeNetworkHealth(input: NetworkHealthInput) {
+    const cfg = getNetworkHealthConfig();
+    const now = input.now ?? Date.now();
+    const warnings: NetworkWarning[] = [];
+    const nameOf = (ieee: string) => input.devices.find((d) => d.ieee_address === ieee)?.friendly_name
+        || input.map?.nodes.find((n) => n.ieee === ieee)?.name
+        || ieee;
+
+    for (const device of input.devices) {
+        const name = device.friendly_name || device.ieee_address;
+        const state = input.states.get(name) || {};
+        const lastSeen = Math.max(parseLastSeen(state.last_seen) || 0, input.lastSeen.get(name) || 0) || undefined;
+        if (input.availability.get(name) === 'offline') {
+            warnings.push({
+                type: 'offline', severity: 'critical', device: name, message: 'zigbee2mqtt 报告设备离线', value: lastSeen ? new Date(lastSeen).toISOString() : null,
+            });
+        } else if (lastSeen && now - lastSeen > cfg.offlineHours * 3600000) {
+            warnings.push({
+                type: 'offline', severity: 'critical', device: name, message: `已 ${formatAge(now - lastSeen)}未上报`, value: new Date(lastSeen).toISOString(),
+            });
+        } else if (!lastSeen) {
+            warnings.push({
+                type: 'no_data', severity: 'info', device: name, message: '尚未收到该设备的上报', value: null,
+            });
+        }
+
+        const battery = Number(state.battery);
+        if ((state.battery !== undefined && Number.isFinite(battery) && battery < cfg.lowBattery) || state.battery_low === true) {
+            warnings.push({
+                type: 'low_battery',
+                severity: battery < cfg.lowBattery / 2 ? 'critical' : 'warning',
+                device: name,
+                message: state.battery !== undefined ? `电量 ${battery}%` : '设备报告电量低',
+                value: state.battery ?? null,
+            });
+        }
+
+        if (!input.map && typeof state.linkquality === 'number' && state.linkquality < cfg.weakLqi) {
+            warnings.push({
+                type: 'weak_link', severity: 'warning', device: name, message: `信号质量 ${state.linkquality}`, value: state.linkquality,
+            });
+        }
+    }
+
+    if (input.map) {
+        const linked = new Set<string>();
+        for (const link of input.map.links) {
+            linked.add(link.source);
+            linked.add(link.target);
+            if (link.lqi < cfg.weakLqi) {
+                warnings.push({
+                    type: 'weak_link',
+                    severity: link.lqi < cfg.weakLqi / 2 ? 'critical' : 'warning',
+                    device: nameOf(link.source),
+                    message: `与 ${nameOf(link.target)} 的链路 LQI ${link.lqi}`,
+                    value: link.lqi,
+                });
+            }
+        }
+        const inMap = new Set(input.map.nodes.map((n) => n.ieee));
+        for (const node of input.map.nodes) {
+            if (node.failed) {
+                warnings.push({
+                    type: 'scan_failed', severity: 'warning', device: node.name, message: '扫描时未响应邻居表请求',
+                });
+            }
+            if (node.type === 'EndDevice' && !linked.has(node.ieee)) {
+                warnings.push({
+                    type: 'orphaned', severity: 'warning', device: node.name, message: '没有任何路由报告该终端设备，可能已脱网',
+                });
+            }
+        }
+        for (const device of input.devices) {
+            if (device.type === 'EndDevice' && !inMap.has(device.ieee_address)) {
+                warnings.push({
+                    type: 'orphaned', severity: 'warning', device: device.friendly_name || device.ieee_address, message: '不在网络拓扑中',
+                });
+            }
+        }
+    }
+
+    const severityOrder = { critical: 0, warning: 1, info: 2 };
+    warnings.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity] || a.device.localeCompare(b.device));
+    return {
+        thresholds: cfg,
+        summary: {
+            devices: input.devices.length,
+            routers: input.devices.filter((d) => d.type === 'Router').length,
+            endDevices: input.devices.filter((d) => d.type === 'EndDevice').length,
+            critical: warnings.filter((w) => w.severity === 'critical').length,
+            warning: warnings.filter((w) => w.severity === 'warning').length,
+            info: warnings.filter((w) => w.severity === 'info').length,
+        },
+        warnings,
+    };
+}
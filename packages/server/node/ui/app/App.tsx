@@ -4,9 +4,13 @@ import {
   HashRouter, Outlet, Route, Routes,
 } from 'react-router-dom';
 import { Header } from './components/Header';
+import Automations from './pages/Automations';
 import Console from './pages/Console';
 import Dashboard from './pages/Dashboard';
+import Devices from './pages/Devices';
+import NetworkMap from './pages/NetworkMap';
 import Settings from './pages/Settings';
+import ZigbeeManage from './pages/ZigbeeManage';
 import MCPTools from './pages/MCPTools';
 
 function DefaultLayout() {
@@ -37,6 +41,10 @@ export default function App() {
           <Route path="console" element={<Console />} />
           <Route path="settings" element={<Settings />} />
           <Route path="mcp-tools" element={<MCPTools />} />
+          <Route path="automations" element={<Automations />} />
+          <Route path="devices" element={<Devices />} />
+          <Route path="zigbee" element={<ZigbeeManage />} />
+          <Route path="network" element={<NetworkMap />} />
         </Route>
       </Routes>
     </HashRouter>
@@ -4,7 +4,7 @@ import {
   Tabs, Text, Title,
 } from '@mantine/core';
 import {
-  IconDashboard, IconSettings, IconTerminal, IconTool,
+  IconBolt, IconChartLine, IconDashboard, IconRouter, IconSettings, IconTerminal, IconTool, IconTopologyStar3,
 } from '@tabler/icons-react';
 import React from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
@@ -16,6 +16,10 @@ const mainLinks = [
   { link: '/console', label: 'Zigbee 控制台', icon: <IconTerminal style={iconStyle} /> },
   { link: '/settings', label: 'MQTT Bridge 配置', icon: <IconSettings style={iconStyle} /> },
   { link: '/mcp-tools', label: 'MCP 工具管理', icon: <IconTool style={iconStyle} /> },
+  { link: '/automations', label: '自动化', icon: <IconBolt style={iconStyle} /> },
+  { link: '/devices', label: '设备历史', icon: <IconChartLine style={iconStyle} /> },
+  { link: '/zigbee', label: 'Zigbee 管理', icon: <IconRouter style={iconStyle} /> },
+  { link: '/network', label: '网络拓扑', icon: <IconTopologyStar3 style={iconStyle} /> },
 ];
 
 export function Header() {
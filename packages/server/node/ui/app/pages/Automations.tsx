@@ -0,0 +1,220 @@
+import {
+  Badge, Button, Card, Code, Group, Modal, Paper, Stack, Switch, Text, Textarea, Title,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  IconBolt, IconEdit, IconPlayerPlay, IconPlus, IconTrash,
+} from '@tabler/icons-react';
+import React, { useState } from 'react';
+
+const RULE_TEMPLATE = {
+  name: '温度过高时打开风扇',
+  enabled: true,
+  triggers: [
+    {
+      type: 'device', deviceId: 'living_room_sensor', field: 'temperature', operator: 'greater_than', value: 28,
+    },
+  ],
+  condition: { field: 'time.hhmm', operator: 'greater_than', value: 800 },
+  actions: [
+    { type: 'device', deviceId: 'living_room_fan', payload: { state: 'ON' } },
+    { type: 'delay', seconds: 1800 },
+    { type: 'device', deviceId: 'living_room_fan', payload: { state: 'OFF' } },
+  ],
+  cooldown: 600,
+};
+
+function describeTrigger(trigger: any) {
+  const cond = trigger.field ? ` ${trigger.field} ${trigger.operator || 'changed'}${trigger.value !== undefined ? ` ${JSON.stringify(trigger.value)}` : ''}` : '';
+  switch (trigger.type) {
+    case 'device': return `设备 ${trigger.deviceId}${cond}`;
+    case 'schedule': return `定时 ${trigger.cron}`;
+    case 'sun': return `${trigger.event === 'sunrise' ? '日出' : '日落'}${trigger.offset ? ` ${trigger.offset > 0 ? '+' : ''}${trigger.offset} 分钟` : ''}`;
+    case 'mqtt': return `MQTT ${trigger.topic}${cond}`;
+    default: return trigger.type;
+  }
+}
+
+function formatTime(value?: string | number | null) {
+  return value ? new Date(value).toLocaleString() : '-';
+}
+
+export default function Automations() {
+  const queryClient = useQueryClient();
+  // 正在编辑的规则：id 为空表示新建，definition 为 JSON 文本
+  const [editing, setEditing] = useState<{ id?: string; definition: string } | null>(null);
+
+  const { data } = useQuery({
+    queryKey: ['node_automations'],
+    queryFn: () => fetch('/api/node/automations').then((res) => res.json()),
+    refetchInterval: 5000,
+  });
+
+  const operationMutation = useMutation({
+    mutationFn: async (body: any) => {
+      const res = await fetch('/api/node/automations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || '操作失败');
+      return result;
+    },
+    onSuccess: (result, body) => {
+      queryClient.invalidateQueries({ queryKey: ['node_automations'] });
+      if (body.operation === 'create' || body.operation === 'update') setEditing(null);
+      const messages: Record<string, string> = {
+        create: '规则已创建',
+        update: '规则已保存',
+        delete: '规则已删除',
+        enable: body.enabled ? '规则已启用' : '规则已禁用',
+        run: result.executed === false ? `未执行：${result.reason}` : '规则已执行',
+      };
+      notifications.show({ title: '成功', message: messages[body.operation], color: 'green' });
+    },
+    onError: (error: Error) => {
+      notifications.show({ title: '错误', message: error.message, color: 'red' });
+    },
+  });
+
+  const handleSave = () => {
+    if (!editing) return;
+    let rule: any;
+    try {
+      rule = JSON.parse(editing.definition);
+    } catch (e) {
+      notifications.show({ title: '错误', message: `JSON 格式错误: ${(e as Error).message}`, color: 'red' });
+      return;
+    }
+    operationMutation.mutate(editing.id
+      ? { operation: 'update', id: editing.id, rule }
+      : { operation: 'create', rule });
+  };
+
+  const handleEdit = (rule: any) => {
+    const {
+      _id, createdAt, updatedAt, lastRun, running, ...definition
+    } = rule;
+    setEditing({ id: _id, definition: JSON.stringify(definition, null, 2) });
+  };
+
+  const rules = data?.rules || [];
+
+  return (
+    <Stack gap="md">
+      <Card shadow="sm" padding="lg" radius="md" withBorder>
+        <Group justify="space-between">
+          <Group gap="xs">
+            <IconBolt size={24} />
+            <Title order={2}>本地自动化</Title>
+            <Badge size="lg" color="blue">{rules.length} 条规则</Badge>
+          </Group>
+          <Button
+            leftSection={<IconPlus size={16} />}
+            onClick={() => setEditing({ definition: JSON.stringify(RULE_TEMPLATE, null, 2) })}
+          >
+            新建规则
+          </Button>
+        </Group>
+        <Text size="sm" c="dimmed" mt="xs">
+          规则在节点本地运行，上游离线时仍然生效。
+          {data?.sun
+            ? `今日日出 ${formatTime(data.sun.sunrise)}，日落 ${formatTime(data.sun.sunset)}。`
+            : '未配置 automation.latitude / longitude，日出日落触发器不会生效。'}
+        </Text>
+      </Card>
+
+      {data?.error && (
+        <Paper p="md" withBorder>
+          <Text c="red">{data.error}</Text>
+        </Paper>
+      )}
+
+      {rules.map((rule: any) => (
+        <Paper key={rule._id} p="md" withBorder>
+          <Group justify="space-between" mb="xs">
+            <Group>
+              <Text fw={600}>{rule.name}</Text>
+              {rule.running && <Badge color="blue">执行中</Badge>}
+              {rule.lastRun && (
+                <Badge color={rule.lastRun.status === 'success' ? 'green' : 'red'} variant="light">
+                  {rule.lastRun.status === 'success' ? '上次成功' : '上次失败'} · {formatTime(rule.lastRun.at)}
+                </Badge>
+              )}
+            </Group>
+            <Group>
+              <Switch
+                checked={rule.enabled}
+                onChange={(e) => operationMutation.mutate({ operation: 'enable', id: rule._id, enabled: e.currentTarget.checked })}
+                label="启用"
+              />
+              <Button
+                size="xs"
+                variant="light"
+                leftSection={<IconPlayerPlay size={14} />}
+                onClick={() => operationMutation.mutate({ operation: 'run', id: rule._id })}
+              >
+                执行
+              </Button>
+              <Button size="xs" variant="light" leftSection={<IconEdit size={14} />} onClick={() => handleEdit(rule)}>
+                编辑
+              </Button>
+              <Button
+                size="xs"
+                color="red"
+                variant="light"
+                leftSection={<IconTrash size={14} />}
+                onClick={() => operationMutation.mutate({ operation: 'delete', id: rule._id })}
+              >
+                删除
+              </Button>
+            </Group>
+          </Group>
+          {rule.description && <Text size="sm" c="dimmed" mb="xs">{rule.description}</Text>}
+          <Group gap="xs">
+            {rule.triggers.map((trigger: any, index: number) => (
+              <Badge key={index} variant="outline">{describeTrigger(trigger)}</Badge>
+            ))}
+          </Group>
+          <Text size="xs" c="dimmed" mt="xs">
+            动作：{rule.actions.map((action: any) => action.type).join(' → ')}
+            {rule.cooldown ? `；冷却 ${rule.cooldown} 秒` : ''}
+          </Text>
+          {rule.lastRun?.error && <Text size="xs" c="red" mt="xs">{rule.lastRun.error}</Text>}
+        </Paper>
+      ))}
+
+      <Modal
+        opened={!!editing}
+        onClose={() => setEditing(null)}
+        title={editing?.id ? '编辑规则' : '新建规则'}
+        size="xl"
+      >
+        <Stack>
+          <Text size="xs" c="dimmed">
+            触发器 type：device（deviceId、field、operator、value）、schedule（cron）、sun（event: sunrise/sunset、offset 分钟）、
+            mqtt（topic，支持 + 与 #）。condition 可使用 devices.&lt;设备&gt;.&lt;属性&gt;、time.hhmm、time.weekday、sun.up。
+            动作 type：device（deviceId、payload）、mqtt（topic、payload）、tool（tool、arguments）、delay（seconds）。
+          </Text>
+          <Textarea
+            autosize
+            minRows={16}
+            styles={{ input: { fontFamily: 'monospace' } }}
+            value={editing?.definition || ''}
+            onChange={(e) => {
+              const { value } = e.currentTarget;
+              setEditing((current) => (current ? { ...current, definition: value } : current));
+            }}
+          />
+          <Code>{'{{trigger.value}}、{{devices.<设备>.<属性>}} 可用于动作中的字符串'}</Code>
+          <Group justify="flex-end">
+            <Button variant="default" onClick={() => setEditing(null)}>取消</Button>
+            <Button loading={operationMutation.isPending} onClick={handleSave}>保存</Button>
+          </Group>
+        </Stack>
+      </Modal>
+    </Stack>
+  );
+}
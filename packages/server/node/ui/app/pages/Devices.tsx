@@ -0,0 +1,178 @@
+import {
+  Badge, Card, Group, Paper, SegmentedControl, Select, SimpleGrid, Stack, Text, Title,
+} from '@mantine/core';
+import { IconChartLine } from '@tabler/icons-react';
+import { useQuery } from '@tanstack/react-query';
+import React, { useEffect, useState } from 'react';
+
+const RANGES = [
+  { value: '1', label: '1 小时' },
+  { value: '24', label: '24 小时' },
+  { value: '168', label: '7 天' },
+  { value: '720', label: '30 天' },
+];
+
+const AGGREGATIONS = [
+  { value: 'avg', label: '平均值' },
+  { value: 'min', label: '最小值' },
+  { value: 'max', label: '最大值' },
+  { value: 'last', label: '最后值' },
+];
+
+function formatTick(t: number, hours: number) {
+  const date = new Date(t);
+  return hours > 24
+    ? `${date.getMonth() + 1}/${date.getDate()}`
+    : `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+// 简单的 SVG 折线图（数值属性）
+function LineChart({
+  points, from, to, hours,
+}: { points: Array<{ t: number; v: number }>; from: number; to: number; hours: number }) {
+  const width = 600;
+  const height = 160;
+  const padding = {
+    top: 10, right: 10, bottom: 20, left: 44,
+  };
+  const values = points.map((p) => p.v);
+  let min = Math.min(...values);
+  let max = Math.max(...values);
+  if (min === max) {
+    min -= 1;
+    max += 1;
+  }
+  const x = (t: number) => padding.left + ((t - from) / (to - from)) * (width - padding.left - padding.right);
+  const y = (v: number) => padding.top + (1 - (v - min) / (max - min)) * (height - padding.top - padding.bottom);
+  const path = points.map((p, i) => `${i ? 'L' : 'M'}${x(p.t).toFixed(1)},${y(p.v).toFixed(1)}`).join(' ');
+  const ticks = [from, from + (to - from) / 2, to];
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} width="100%" style={{ display: 'block' }}>
+      {[min, (min + max) / 2, max].map((v) => (
+        <g key={v}>
+          <line x1={padding.left} x2={width - padding.right} y1={y(v)} y2={y(v)} stroke="var(--mantine-color-gray-3)" strokeDasharray="3 3" />
+          <text x={padding.left - 4} y={y(v) + 4} fontSize="10" textAnchor="end" fill="var(--mantine-color-dimmed)">
+            {Math.round(v * 100) / 100}
+          </text>
+        </g>
+      ))}
+      {ticks.map((t) => (
+        <text key={t} x={x(t)} y={height - 4} fontSize="10" textAnchor="middle" fill="var(--mantine-color-dimmed)">
+          {formatTick(t, hours)}
+        </text>
+      ))}
+      <path d={path} fill="none" stroke="var(--mantine-color-blue-6)" strokeWidth="2" />
+      {points.length === 1 && <circle cx={x(points[0].t)} cy={y(points[0].v)} r="3" fill="var(--mantine-color-blue-6)" />}
+    </svg>
+  );
+}
+
+// 枚举与布尔属性：显示值变化的时间点
+function EnumTimeline({ points, hours }: { points: Array<{ t: number; v: any }>; hours: number }) {
+  const changes = points.filter((p, i) => i === 0 || p.v !== points[i - 1].v).slice(-20);
+  return (
+    <Group gap="xs">
+      {changes.map((p) => (
+        <Badge key={p.t} variant="light" color={p.v === true || p.v === 'ON' ? 'green' : 'gray'}>
+          {formatTick(p.t, hours)} · {String(p.v)}
+        </Badge>
+      ))}
+    </Group>
+  );
+}
+
+export default function Devices() {
+  const [device, setDevice] = useState<string | null>(null);
+  const [hours, setHours] = useState('24');
+  const [aggregation, setAggregation] = useState('avg');
+
+  const { data: listData } = useQuery({
+    queryKey: ['node_device_history_list'],
+    queryFn: () => fetch('/api/node/device-history').then((res) => res.json()),
+    refetchInterval: 30000,
+  });
+  const devices = listData?.devices || [];
+
+  useEffect(() => {
+    if (!device && devices.length) setDevice(devices[0].device);
+  }, [device, devices]);
+
+  const { data: history, isLoading } = useQuery({
+    queryKey: ['node_device_history', device, hours, aggregation],
+    queryFn: () => fetch(`/api/node/device-history/${encodeURIComponent(device!)}?hours=${hours}&aggregation=${aggregation}`)
+      .then((res) => res.json()),
+    enabled: !!device,
+    refetchInterval: 60000,
+  });
+
+  const series = history?.series || [];
+  const numeric = series.filter((s: any) => s.type === 'numeric' && s.points.length);
+  const enums = series.filter((s: any) => s.type === 'enum' && s.points.length);
+
+  return (
+    <Stack gap="md">
+      <Card shadow="sm" padding="lg" radius="md" withBorder>
+        <Group justify="space-between">
+          <Group gap="xs">
+            <IconChartLine size={24} />
+            <Title order={2}>设备历史</Title>
+            <Badge size="lg" color="blue">{devices.length} 个设备</Badge>
+          </Group>
+          <Group>
+            <Select
+              placeholder="选择设备"
+              searchable
+              data={devices.map((d: any) => d.device)}
+              value={device}
+              onChange={setDevice}
+            />
+            <Select data={AGGREGATIONS} value={aggregation} onChange={(value) => setAggregation(value || 'avg')} w={120} />
+            <SegmentedControl data={RANGES} value={hours} onChange={setHours} />
+          </Group>
+        </Group>
+        {listData?.error && <Text c="red" mt="xs">{listData.error}</Text>}
+        {!listData?.error && !devices.length && (
+          <Text size="sm" c="dimmed" mt="xs">暂无历史数据，设备上报状态后会自动记录。</Text>
+        )}
+      </Card>
+
+      {history?.error && (
+        <Paper p="md" withBorder>
+          <Text c="red">{history.error}</Text>
+        </Paper>
+      )}
+
+      {device && !isLoading && !history?.error && !series.length && (
+        <Text c="dimmed">该时间范围内没有数据</Text>
+      )}
+
+      <SimpleGrid cols={{ base: 1, md: 2 }}>
+        {numeric.map((s: any) => (
+          <Paper key={s.property} p="md" withBorder>
+            <Group justify="space-between" mb="xs">
+              <Text fw={600}>{s.property}</Text>
+              <Group gap="xs">
+                <Badge variant="light">当前 {String(s.summary.last)}</Badge>
+                <Badge variant="light" color="gray">
+                  {s.summary.min} ~ {s.summary.max}，平均 {s.summary.avg}
+                </Badge>
+              </Group>
+            </Group>
+            <LineChart points={s.points} from={history.from} to={history.to} hours={Number(hours)} />
+          </Paper>
+        ))}
+      </SimpleGrid>
+
+      {enums.map((s: any) => (
+        <Paper key={s.property} p="md" withBorder>
+          <Group justify="space-between" mb="xs">
+            <Text fw={600}>{s.property}</Text>
+            <Badge variant="light">当前 {String(s.summary.last)}</Badge>
+          </Group>
+          <EnumTimeline points={s.points} hours={Number(hours)} />
+        </Paper>
+      ))}
+    </Stack>
+  );
+}
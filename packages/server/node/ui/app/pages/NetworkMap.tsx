@@ -0,0 +1,235 @@
+import {
+  Badge, Button, Card, Group, Paper, SimpleGrid, Stack, Table, Text, Title,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { IconRefresh, IconTopologyStar3 } from '@tabler/icons-react';
+import React, { useMemo } from 'react';
+import { StatsCard } from './Dashboard';
+
+const SEVERITY_COLORS: Record<string, string> = { critical: 'red', warning: 'orange', info: 'gray' };
+const WARNING_LABELS: Record<string, string> = {
+  offline: '离线',
+  no_data: '无数据',
+  low_battery: '低电量',
+  weak_link: '弱链路',
+  orphaned: '脱网',
+  scan_failed: '扫描无响应',
+};
+const NODE_COLORS: Record<string, string> = {
+  Coordinator: 'var(--mantine-color-red-6)',
+  Router: 'var(--mantine-color-blue-6)',
+  EndDevice: 'var(--mantine-color-teal-6)',
+};
+
+function linkColor(lqi: number, weakLqi: number) {
+  if (lqi < weakLqi) return 'var(--mantine-color-red-6)';
+  if (lqi < weakLqi * 2.5) return 'var(--mantine-color-yellow-6)';
+  return 'var(--mantine-color-green-6)';
+}
+
+// 协调器居中，路由在内圈，终端设备分布在父路由附近的外圈，无链路的终端排在底部
+function layoutNodes(nodes: any[], links: any[], width: number, height: number) {
+  const cx = width / 2;
+  const cy = (height - 60) / 2;
+  const positions = new Map<string, { x: number; y: number }>();
+  const coordinator = nodes.find((n) => n.type === 'Coordinator');
+  const routers = nodes.filter((n) => n.type === 'Router');
+  const endDevices = nodes.filter((n) => n.type === 'EndDevice');
+  if (coordinator) positions.set(coordinator.ieee, { x: cx, y: cy });
+
+  const r1 = Math.min(width, height - 60) * 0.22;
+  const r2 = Math.min(width, height - 60) * 0.42;
+  const angles = new Map<string, number>();
+  if (coordinator) angles.set(coordinator.ieee, -Math.PI / 2);
+  routers.forEach((router, i) => {
+    const angle = (2 * Math.PI * i) / Math.max(routers.length, 1) - Math.PI / 2;
+    angles.set(router.ieee, angle);
+    positions.set(router.ieee, { x: cx + r1 * Math.cos(angle), y: cy + r1 * Math.sin(angle) });
+  });
+
+  // 每个终端的父节点：LQI 最高的路由或协调器链路
+  const parentOf = (ieee: string) => {
+    const candidates = links
+      .filter((l) => (l.source === ieee || l.target === ieee))
+      .map((l) => ({ peer: l.source === ieee ? l.target : l.source, lqi: l.lqi }))
+      .filter((c) => angles.has(c.peer))
+      .sort((a, b) => b.lqi - a.lqi);
+    return candidates[0]?.peer;
+  };
+  const children = new Map<string, any[]>();
+  const orphans: any[] = [];
+  for (const device of endDevices) {
+    const parent = parentOf(device.ieee);
+    if (!parent) orphans.push(device);
+    else children.set(parent, [...(children.get(parent) || []), device]);
+  }
+  const slice = (2 * Math.PI) / Math.max(routers.length + (coordinator ? 1 : 0), 1);
+  for (const [parent, list] of children) {
+    const base = angles.get(parent)!;
+    list.forEach((device, i) => {
+      const angle = base + (list.length > 1 ? (i / (list.length - 1) - 0.5) * slice * 0.8 : 0);
+      positions.set(device.ieee, { x: cx + r2 * Math.cos(angle), y: cy + r2 * Math.sin(angle) });
+    });
+  }
+  orphans.forEach((device, i) => {
+    positions.set(device.ieee, { x: 40 + ((i * 90) % (width - 80)), y: height - 30 - Math.floor((i * 90) / (width - 80)) * 30 });
+  });
+  return positions;
+}
+
+function TopologyGraph({ map, warnings, weakLqi }: { map: any; warnings: any[]; weakLqi: number }) {
+  const width = 900;
+  const height = 640;
+  const positions = useMemo(() => layoutNodes(map.nodes, map.links, width, height), [map]);
+  const warned = new Set(warnings.filter((w) => w.severity !== 'info').map((w) => w.device));
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} width="100%" style={{ display: 'block' }}>
+      {map.links.map((link: any) => {
+        const a = positions.get(link.source);
+        const b = positions.get(link.target);
+        if (!a || !b) return null;
+        return (
+          <g key={`${link.source}-${link.target}`}>
+            <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={linkColor(link.lqi, weakLqi)} strokeWidth={1.5} strokeOpacity={0.8} />
+            <text x={(a.x + b.x) / 2} y={(a.y + b.y) / 2} fontSize="9" textAnchor="middle" fill="var(--mantine-color-dimmed)">
+              {link.lqi}
+            </text>
+          </g>
+        );
+      })}
+      {map.nodes.map((node: any) => {
+        const p = positions.get(node.ieee);
+        if (!p) return null;
+        const r = node.type === 'Coordinator' ? 14 : node.type === 'Router' ? 10 : 7;
+        return (
+          <g key={node.ieee}>
+            <title>{`${node.name}\n${node.ieee}\n${node.type}${node.model ? ` · ${node.model}` : ''}`}</title>
+            {warned.has(node.name) && <circle cx={p.x} cy={p.y} r={r + 4} fill="none" stroke="var(--mantine-color-red-6)" strokeWidth={2} />}
+            <circle
+              cx={p.x}
+              cy={p.y}
+              r={r}
+              fill={NODE_COLORS[node.type]}
+              stroke={node.failed ? 'var(--mantine-color-gray-6)' : 'white'}
+              strokeDasharray={node.failed ? '3 2' : undefined}
+              strokeWidth={2}
+            />
+            <text x={p.x} y={p.y + r + 12} fontSize="10" textAnchor="middle">{node.name}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default function NetworkMap() {
+  const queryClient = useQueryClient();
+
+  const { data: map } = useQuery({
+    queryKey: ['zigbee_networkmap'],
+    queryFn: () => fetch('/zigbee2mqtt/networkmap').then((res) => res.json()),
+  });
+  const { data: health } = useQuery({
+    queryKey: ['zigbee_health'],
+    queryFn: () => fetch('/zigbee2mqtt/health').then((res) => res.json()),
+    refetchInterval: 30000,
+  });
+
+  // 扫描可能需要数分钟，完成后刷新拓扑与诊断
+  const scanMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch('/zigbee2mqtt/networkmap?refresh=1');
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || '扫描失败');
+      return result;
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(['zigbee_networkmap'], result);
+      queryClient.invalidateQueries({ queryKey: ['zigbee_health'] });
+      notifications.show({ title: '成功', message: `扫描完成，共 ${result.nodes.length} 个节点`, color: 'green' });
+    },
+    onError: (error: Error) => {
+      notifications.show({ title: '错误', message: error.message, color: 'red' });
+    },
+  });
+
+  const warnings = health?.warnings || [];
+  const weakLqi = health?.thresholds?.weakLqi || 40;
+
+  return (
+    <Stack gap="md">
+      <Card shadow="sm" padding="lg" radius="md" withBorder>
+        <Group justify="space-between">
+          <Group gap="xs">
+            <IconTopologyStar3 size={24} />
+            <Title order={2}>网络拓扑</Title>
+          </Group>
+          <Button leftSection={<IconRefresh size={16} />} loading={scanMutation.isPending} onClick={() => scanMutation.mutate()}>
+            扫描网络
+          </Button>
+        </Group>
+        <Text size="sm" c="dimmed" mt="xs">
+          {map?.at ? `上次扫描：${new Date(map.at).toLocaleString()}` : '尚未扫描网络拓扑'}
+          。扫描会向每个路由请求邻居表，可能需要数分钟。
+        </Text>
+      </Card>
+
+      {health?.summary && (
+        <SimpleGrid cols={{ base: 2, md: 4 }}>
+          <StatsCard title="设备" value={health.summary.devices} Icon={IconTopologyStar3} />
+          <StatsCard title="路由 / 终端" value={`${health.summary.routers} / ${health.summary.endDevices}`} Icon={IconTopologyStar3} color="teal" />
+          <StatsCard title="严重告警" value={health.summary.critical} Icon={IconTopologyStar3} color={health.summary.critical ? 'red' : 'gray'} />
+          <StatsCard title="一般告警" value={health.summary.warning} Icon={IconTopologyStar3} color={health.summary.warning ? 'orange' : 'gray'} />
+        </SimpleGrid>
+      )}
+
+      {map?.error && (
+        <Paper p="md" withBorder>
+          <Text c="red">{map.error}</Text>
+        </Paper>
+      )}
+
+      {map?.nodes?.length > 0 && (
+        <Paper p="md" withBorder>
+          <Group gap="xs" mb="xs">
+            <Badge color="red" variant="dot">协调器</Badge>
+            <Badge color="blue" variant="dot">路由</Badge>
+            <Badge color="teal" variant="dot">终端设备</Badge>
+            <Text size="xs" c="dimmed">连线颜色表示 LQI，红色低于 {weakLqi}；红圈为有告警的设备，虚线边框为扫描时无响应</Text>
+          </Group>
+          <TopologyGraph map={map} warnings={warnings} weakLqi={weakLqi} />
+        </Paper>
+      )}
+
+      <Paper withBorder>
+        <Table striped>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>级别</Table.Th>
+              <Table.Th>类型</Table.Th>
+              <Table.Th>设备</Table.Th>
+              <Table.Th>说明</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {warnings.map((warning: any, index: number) => (
+              <Table.Tr key={`${warning.type}-${warning.device}-${index}`}>
+                <Table.Td><Badge color={SEVERITY_COLORS[warning.severity]}>{warning.severity}</Badge></Table.Td>
+                <Table.Td>{WARNING_LABELS[warning.type] || warning.type}</Table.Td>
+                <Table.Td>{warning.device}</Table.Td>
+                <Table.Td>{warning.message}</Table.Td>
+              </Table.Tr>
+            ))}
+            {!warnings.length && (
+              <Table.Tr>
+                <Table.Td colSpan={4}><Text c="dimmed" ta="center">{health?.error || '没有告警'}</Text></Table.Td>
+              </Table.Tr>
+            )}
+          </Table.Tbody>
+        </Table>
+      </Paper>
+    </Stack>
+  );
+}
@@ -0,0 +1,450 @@
+import {
+  ActionIcon, Badge, Button, Card, Checkbox, Group, Modal, NumberInput, Paper, Select, Stack, Table, Tabs, Text,
+  Textarea, TextInput, Title,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  IconCloudDownload, IconLink, IconPencil, IconPlus, IconRouter, IconSettings, IconTrash, IconX,
+} from '@tabler/icons-react';
+import React, { useState } from 'react';
+
+type FieldType = 'text' | 'number' | 'select' | 'checkbox';
+
+interface DialogField {
+  key: string;
+  label: string;
+  type?: FieldType;
+  data?: string[];
+  description?: string;
+}
+
+interface Dialog {
+  operation: string;
+  title: string;
+  params: Record<string, any>;
+  fields: DialogField[];
+  color?: string;
+}
+
+async function runBridgeOperation(operation: string, params: Record<string, any>) {
+  const res = await fetch(`/zigbee2mqtt/bridge/${operation}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+  const result = await res.json();
+  if (!res.ok) throw new Error(result.code ? `[${result.code}] ${result.error}` : result.error || '操作失败');
+  return result.data;
+}
+
+export default function ZigbeeManage() {
+  const queryClient = useQueryClient();
+  const [dialog, setDialog] = useState<Dialog | null>(null);
+  const [options, setOptions] = useState('{\n  "advanced": {\n    "log_level": "info"\n  }\n}');
+  const [newGroup, setNewGroup] = useState('');
+
+  const { data: devicesData } = useQuery({
+    queryKey: ['zigbee_devices_raw'],
+    queryFn: () => fetch('/zigbee2mqtt/all_devices_raw').then((res) => res.json()),
+    refetchInterval: 10000,
+  });
+  const { data: groupsData } = useQuery({
+    queryKey: ['zigbee_groups'],
+    queryFn: () => fetch('/zigbee2mqtt/groups').then((res) => res.json()),
+    refetchInterval: 10000,
+  });
+  const devices = devicesData?.devices || [];
+  const groups = groupsData?.groups || [];
+  const deviceNames = devices.map((d: any) => d.friendly_name);
+  const groupNames = groups.map((g: any) => g.friendly_name);
+  const deviceName = (ieee: string) => devices.find((d: any) => d.ieee_address === ieee)?.friendly_name || ieee;
+
+  const bridgeMutation = useMutation({
+    mutationFn: ({ operation, params }: { operation: string; params: Record<string, any> }) => runBridgeOperation(operation, params),
+    onSuccess: (data, { operation }) => {
+      setDialog(null);
+      // zigbee2mqtt 会重新发布设备与群组列表，稍后刷新
+      setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: ['zigbee_devices_raw'] });
+        queryClient.invalidateQueries({ queryKey: ['zigbee_groups'] });
+      }, 500);
+      const message = operation === 'ota_check'
+        ? (data?.update_available ? '有可用的固件更新' : '固件已是最新')
+        : '操作成功';
+      notifications.show({ title: '成功', message, color: 'green' });
+    },
+    onError: (error: Error) => {
+      notifications.show({ title: '错误', message: error.message, color: 'red' });
+    },
+  });
+
+  const run = (operation: string, params: Record<string, any>) => bridgeMutation.mutate({ operation, params });
+
+  const openDialog = (next: Dialog) => setDialog(next);
+
+  const setParam = (key: string, value: any) => {
+    setDialog((current) => (current ? { ...current, params: { ...current.params, [key]: value } } : current));
+  };
+
+  const submitDialog = () => {
+    if (!dialog) return;
+    const params = { ...dialog.params };
+    // clusters 以逗号分隔输入
+    if (typeof params.clusters === 'string') {
+      params.clusters = params.clusters.split(',').map((c: string) => c.trim()).filter(Boolean);
+      if (!params.clusters.length) delete params.clusters;
+    }
+    run(dialog.operation, params);
+  };
+
+  const handleSendOptions = () => {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(options);
+    } catch (e) {
+      notifications.show({ title: '错误', message: `JSON 格式错误: ${(e as Error).message}`, color: 'red' });
+      return;
+    }
+    run('options', { options: parsed });
+  };
+
+  const bindTargets = [...deviceNames, ...groupNames];
+
+  return (
+    <Stack gap="md">
+      <Card shadow="sm" padding="lg" radius="md" withBorder>
+        <Group gap="xs">
+          <IconRouter size={24} />
+          <Title order={2}>Zigbee 网络管理</Title>
+          <Badge size="lg" color="blue">{devices.length} 个设备</Badge>
+          <Badge size="lg" color="grape">{groups.length} 个群组</Badge>
+        </Group>
+        <Text size="sm" c="dimmed" mt="xs">
+          通过 zigbee2mqtt bridge 请求管理设备、群组、绑定、固件升级与属性上报。
+        </Text>
+      </Card>
+
+      <Tabs defaultValue="devices">
+        <Tabs.List>
+          <Tabs.Tab value="devices">设备</Tabs.Tab>
+          <Tabs.Tab value="groups">群组</Tabs.Tab>
+          <Tabs.Tab value="options" leftSection={<IconSettings size={14} />}>网关选项</Tabs.Tab>
+        </Tabs.List>
+
+        <Tabs.Panel value="devices" pt="md">
+          <Paper withBorder>
+            <Table striped highlightOnHover>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>名称</Table.Th>
+                  <Table.Th>IEEE 地址</Table.Th>
+                  <Table.Th>型号</Table.Th>
+                  <Table.Th>类型</Table.Th>
+                  <Table.Th>操作</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {devices.map((device: any) => (
+                  <Table.Tr key={device.ieee_address}>
+                    <Table.Td>{device.friendly_name}</Table.Td>
+                    <Table.Td><Text size="xs" ff="monospace">{device.ieee_address}</Text></Table.Td>
+                    <Table.Td>{device.definition?.model || '-'}</Table.Td>
+                    <Table.Td>{device.type}</Table.Td>
+                    <Table.Td>
+                      <Group gap={4}>
+                        <Button
+                          size="compact-xs"
+                          variant="light"
+                          leftSection={<IconPencil size={12} />}
+                          onClick={() => openDialog({
+                            operation: 'rename',
+                            title: `重命名 ${device.friendly_name}`,
+                            params: { from: device.friendly_name, to: device.friendly_name, homeassistantRename: false },
+                            fields: [{ key: 'to', label: '新名称' }, { key: 'homeassistantRename', label: '同步重命名 Home Assistant 实体', type: 'checkbox' }],
+                          })}
+                        >
+                          重命名
+                        </Button>
+                        <Button
+                          size="compact-xs"
+                          variant="light"
+                          leftSection={<IconLink size={12} />}
+                          onClick={() => openDialog({
+                            operation: 'bind',
+                            title: `绑定 ${device.friendly_name}`,
+                            params: { from: device.friendly_name, to: '', clusters: '' },
+                            fields: [
+                              { key: 'to', label: '目标设备或群组', type: 'select', data: bindTargets.filter((n: string) => n !== device.friendly_name) },
+                              { key: 'clusters', label: 'Clusters', description: '逗号分隔，如 genOnOff,genLevelCtrl；留空绑定全部' },
+                            ],
+                          })}
+                        >
+                          绑定
+                        </Button>
+                        <Button
+                          size="compact-xs"
+                          variant="light"
+                          onClick={() => openDialog({
+                            operation: 'unbind',
+                            title: `解除 ${device.friendly_name} 的绑定`,
+                            params: { from: device.friendly_name, to: '', clusters: '' },
+                            fields: [
+                              { key: 'to', label: '目标设备或群组', type: 'select', data: bindTargets.filter((n: string) => n !== device.friendly_name) },
+                              { key: 'clusters', label: 'Clusters', description: '逗号分隔；留空解除全部' },
+                            ],
+                          })}
+                        >
+                          解绑
+                        </Button>
+                        <Button
+                          size="compact-xs"
+                          variant="light"
+                          onClick={() => openDialog({
+                            operation: 'configure_reporting',
+                            title: `配置 ${device.friendly_name} 的属性上报`,
+                            params: {
+                              id: device.friendly_name,
+                              endpoint: '1',
+                              cluster: 'msTemperatureMeasurement',
+                              attribute: 'measuredValue',
+                              minimum_report_interval: 60,
+                              maximum_report_interval: 3600,
+                              reportable_change: 10,
+                            },
+                            fields: [
+                              { key: 'endpoint', label: 'Endpoint' },
+                              { key: 'cluster', label: 'Cluster' },
+                              { key: 'attribute', label: '属性' },
+                              { key: 'minimum_report_interval', label: '最小上报间隔（秒）', type: 'number' },
+                              { key: 'maximum_report_interval', label: '最大上报间隔（秒）', type: 'number' },
+                              { key: 'reportable_change', label: '变化阈值（原始单位）', type: 'number' },
+                            ],
+                          })}
+                        >
+                          上报
+                        </Button>
+                        <Button
+                          size="compact-xs"
+                          variant="light"
+                          leftSection={<IconCloudDownload size={12} />}
+                          loading={bridgeMutation.isPending && bridgeMutation.variables?.params?.id === device.friendly_name}
+                          onClick={() => run('ota_check', { id: device.friendly_name })}
+                        >
+                          检查固件
+                        </Button>
+                        <Button
+                          size="compact-xs"
+                          variant="light"
+                          color="orange"
+                          onClick={() => openDialog({
+                            operation: 'ota_update',
+                            title: `升级 ${device.friendly_name} 的固件`,
+                            params: { id: device.friendly_name },
+                            fields: [],
+                            color: 'orange',
+                          })}
+                        >
+                          升级
+                        </Button>
+                        <Button
+                          size="compact-xs"
+                          variant="light"
+                          color="red"
+                          leftSection={<IconTrash size={12} />}
+                          onClick={() => openDialog({
+                            operation: 'remove',
+                            title: `移除 ${device.friendly_name}`,
+                            params: { id: device.friendly_name, force: false, block: false },
+                            fields: [
+                              { key: 'force', label: '强制删除（设备无响应时）', type: 'checkbox' },
+                              { key: 'block', label: '阻止该设备再次加入', type: 'checkbox' },
+                            ],
+                            color: 'red',
+                          })}
+                        >
+                          移除
+                        </Button>
+                      </Group>
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </Paper>
+        </Tabs.Panel>
+
+        <Tabs.Panel value="groups" pt="md">
+          <Stack>
+            <Group>
+              <TextInput placeholder="新群组名称" value={newGroup} onChange={(e) => setNewGroup(e.currentTarget.value)} />
+              <Button
+                leftSection={<IconPlus size={16} />}
+                disabled={!newGroup.trim()}
+                onClick={() => {
+                  run('group_add', { friendly_name: newGroup.trim() });
+                  setNewGroup('');
+                }}
+              >
+                新建群组
+              </Button>
+            </Group>
+            {groups.map((group: any) => (
+              <Paper key={group.id} p="md" withBorder>
+                <Group justify="space-between" mb="xs">
+                  <Group gap="xs">
+                    <Text fw={600}>{group.friendly_name}</Text>
+                    <Badge variant="light" color="gray">ID {group.id}</Badge>
+                  </Group>
+                  <Group gap={4}>
+                    <Button
+                      size="compact-xs"
+                      variant="light"
+                      leftSection={<IconPlus size={12} />}
+                      onClick={() => openDialog({
+                        operation: 'group_member_add',
+                        title: `添加设备到 ${group.friendly_name}`,
+                        params: { group: group.friendly_name, device: '' },
+                        fields: [{ key: 'device', label: '设备', type: 'select', data: deviceNames }],
+                      })}
+                    >
+                      添加设备
+                    </Button>
+                    <Button
+                      size="compact-xs"
+                      variant="light"
+                      leftSection={<IconPencil size={12} />}
+                      onClick={() => openDialog({
+                        operation: 'group_rename',
+                        title: `重命名群组 ${group.friendly_name}`,
+                        params: { from: group.friendly_name, to: group.friendly_name },
+                        fields: [{ key: 'to', label: '新名称' }],
+                      })}
+                    >
+                      重命名
+                    </Button>
+                    <Button
+                      size="compact-xs"
+                      variant="light"
+                      color="red"
+                      leftSection={<IconTrash size={12} />}
+                      onClick={() => openDialog({
+                        operation: 'group_remove',
+                        title: `删除群组 ${group.friendly_name}`,
+                        params: { id: group.friendly_name, force: false },
+                        fields: [{ key: 'force', label: '强制删除', type: 'checkbox' }],
+                        color: 'red',
+                      })}
+                    >
+                      删除
+                    </Button>
+                  </Group>
+                </Group>
+                <Group gap="xs">
+                  {(group.members || []).map((member: any) => (
+                    <Badge
+                      key={`${member.ieee_address}-${member.endpoint}`}
+                      variant="outline"
+                      rightSection={(
+                        <ActionIcon
+                          size="xs"
+                          variant="transparent"
+                          onClick={() => run('group_member_remove', { group: group.friendly_name, device: member.ieee_address, endpoint: member.endpoint })}
+                        >
+                          <IconX size={10} />
+                        </ActionIcon>
+                      )}
+                    >
+                      {deviceName(member.ieee_address)}{member.endpoint ? ` / ${member.endpoint}` : ''}
+                    </Badge>
+                  ))}
+                  {!group.members?.length && <Text size="sm" c="dimmed">暂无成员</Text>}
+                </Group>
+              </Paper>
+            ))}
+          </Stack>
+        </Tabs.Panel>
+
+        <Tabs.Panel value="options" pt="md">
+          <Paper p="md" withBorder>
+            <Stack>
+              <Text size="sm" c="dimmed">
+                以 JSON 提交 zigbee2mqtt 配置项（bridge/request/options），部分选项需要重启 zigbee2mqtt 后生效。
+              </Text>
+              <Textarea
+                autosize
+                minRows={8}
+                styles={{ input: { fontFamily: 'monospace' } }}
+                value={options}
+                onChange={(e) => setOptions(e.currentTarget.value)}
+              />
+              <Group justify="flex-end">
+                <Button loading={bridgeMutation.isPending && bridgeMutation.variables?.operation === 'options'} onClick={handleSendOptions}>
+                  提交
+                </Button>
+              </Group>
+            </Stack>
+          </Paper>
+        </Tabs.Panel>
+      </Tabs>
+
+      <Modal opened={!!dialog} onClose={() => setDialog(null)} title={dialog?.title}>
+        <Stack>
+          {dialog?.operation === 'ota_update' && (
+            <Text size="sm">升级期间请保持设备供电，升级完成后才会返回结果，可能需要数十分钟。</Text>
+          )}
+          {dialog?.fields.map((field) => {
+            const value = dialog.params[field.key];
+            if (field.type === 'checkbox') {
+              return (
+                <Checkbox
+                  key={field.key}
+                  label={field.label}
+                  checked={!!value}
+                  onChange={(e) => setParam(field.key, e.currentTarget.checked)}
+                />
+              );
+            }
+            if (field.type === 'number') {
+              return (
+                <NumberInput
+                  key={field.key}
+                  label={field.label}
+                  description={field.description}
+                  value={value}
+                  onChange={(v) => setParam(field.key, v)}
+                />
+              );
+            }
+            if (field.type === 'select') {
+              return (
+                <Select
+                  key={field.key}
+                  label={field.label}
+                  description={field.description}
+                  searchable
+                  data={field.data || []}
+                  value={value || null}
+                  onChange={(v) => setParam(field.key, v || '')}
+                />
+              );
+            }
+            return (
+              <TextInput
+                key={field.key}
+                label={field.label}
+                description={field.description}
+                value={value ?? ''}
+                onChange={(e) => setParam(field.key, e.currentTarget.value)}
+              />
+            );
+          })}
+          <Group justify="flex-end">
+            <Button variant="default" onClick={() => setDialog(null)}>取消</Button>
+            <Button color={dialog?.color} loading={bridgeMutation.isPending} onClick={submitDialog}>确定</Button>
+          </Group>
+        </Stack>
+      </Modal>
+    </Stack>
+  );
+}
@@ -0,0 +1,321 @@
+import dns from 'node:dns';
+import net from 'node:net';
+import { Context } from 'cordis';
+import superagent from 'superagent';
+import { config } from '../config';
+import type { EventConfigDoc } from '../interface';
+import { Logger } from '../utils';
+import { publishEvent } from './client';
+import { getNestedValue } from './trigger';
+
+declare module 'cordis' {
+    interface Events {
+        // TTS 组件播放：audio 为 base64，encoded 为 true 时是完整的编码音频（否则为 PCM16 分片）
+        'projection/tts/start': (payload: Record<string, any>) => void;
+        'projection/tts/audio': (payload: { audio: string; encoded?: boolean; chunk?: string }) => void;
+        'projection/tts/end': (payload: Record<string, any>) => void;
+    }
+}
+
+const logger = new Logger('projection-actions');
+
+export type EventAction = EventConfigDoc['actions'][number];
+
+export interface EventActionContext {
+    ctx: Context;
+    event: EventConfigDoc;
+    state: any;
+}
+
+export interface EventActionHandler {
+    type: string;
+    // 客户端执行的动作（如组件显示/隐藏）只随 event/trigger 推送到前端，服务端不执行
+    clientSide?: boolean;
+    validate?: (action: EventAction) => string | null;
+    execute?: (action: EventAction, actx: EventActionContext) => Promise<void>;
+}
+
+// 事件动作注册表
+const actionRegistry = new Map<string, EventActionHandler>();
+
+export function registerEventAction(handler: EventActionHandler) {
+    actionRegistry.set(handler.type, handler);
+    return () => actionRegistry.delete(handler.type);
+}
+
+export function getEventActionType(action: EventAction): string {
+    // 旧版动作没有 type 字段，均为组件动作
+    return action?.type || 'widget';
+}
+
+export function listEventActionTypes(): string[] {
+    return Array.from(actionRegistry.keys());
+}
+
+export function isClientSideAction(action: EventAction): boolean {
+    return !!actionRegistry.get(getEventActionType(action))?.clientSide;
+}
+
+/**
+ * 模板插值：将 {{path}} 替换为 GSI 状态中的值
+ * 例如 "{{player.name}} 完成了 {{player.state.round_kills}} 杀"
+ */
+export function interpolateTemplate(template: string, scope: any): string {
+    if (typeof template !== 'string') return template;
+    return template.replace(/\{\{\s*([\w.$-]+)\s*\}\}/g, (_, path) => {
+        const value = getNestedValue(scope, path);
+        if (value == null) return '';
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+}
+
+// 递归插值对象中的所有字符串
+function interpolateDeep(value: any, scope: any): any {
+    if (typeof value === 'string') return interpolateTemplate(value, scope);
+    if (Array.isArray(value)) return value.map((v) => interpolateDeep(v, scope));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, interpolateDeep(v, scope)]));
+    }
+    return value;
+}
+
+function buildScope(actx: EventActionContext) {
+    return {
+        ...(actx.state || {}),
+        event: { id: actx.event._id, name: actx.event.name },
+        now: new Date().toISOString(),
+    };
+}
+
+/**
+ * 校验动作列表，返回错误信息；合法时返回 null
+ */
+export function validateEventActions(actions: EventAction[]): string | null {
+    for (let i = 0; i < actions.length; i++) {
+        const action = actions[i];
+        const type = getEventActionType(action);
+        const handler = actionRegistry.get(type);
+        if (!handler) return `actions[${i}] 不支持的动作类型: ${type}`;
+        const error = handler.validate?.(action);
+        if (error) return `actions[${i}] ${error}`;
+    }
+    return null;
+}
+
+/**
+ * 执行事件中所有服务端动作（互不阻塞，单个失败不影响其他动作）
+ */
+export async function runEventActions(actx: EventActionContext) {
+    const actions = actx.event.actions || [];
+    await Promise.all(actions.map(async (action, index) => {
+        const type = getEventActionType(action);
+        const handler = actionRegistry.get(type);
+        if (!handler) {
+            logger.warn('[EventAction] 事件 %s 的动作 %d 类型未注册: %s', actx.event.name, index, type);
+            return;
+        }
+        if (handler.clientSide || !handler.execute) return;
+        try {
+            await handler.execute(action, actx);
+            logger.info('[EventAction] 事件 %s 执行动作 %s 成功', actx.event.name, type);
+        } catch (e) {
+            logger.error('[EventAction] 事件 %s 执行动作 %s 失败: %s', actx.event.name, type, (e as Error).message);
+        }
+    }));
+}
+
+// 组件显示/隐藏（由前端 useEventSystem 执行）
+registerEventAction({
+    type: 'widget',
+    clientSide: true,
+    validate: (action) => {
+        if (!action.widgetName) return '缺少 widgetName';
+        if (!['show', 'hide', 'toggle'].includes(action.effect)) return `不支持的效果: ${action.effect}`;
+        return null;
+    },
+});
+
+// TTS 播报：通过 voice 服务合成语音，推送到 TTS 组件播放
+registerEventAction({
+    type: 'tts',
+    validate: (action) => (action.params?.text ? null : '缺少 params.text'),
+    async execute(action, actx) {
+        const { ctx } = actx;
+        const { voice } = ctx;
+        if (!voice) throw new Error('voice 服务未启用，无法播报');
+        const text = interpolateTemplate(action.params.text, buildScope(actx));
+        if (!text.trim()) return;
+        ctx.emit('projection/tts/start', {});
+        try {
+            if (voice.supportsRealtimeTts()) {
+                // 实时 TTS 直接输出 PCM16 分片，与上游推送格式一致
+                await voice.streamTtsRealtime(text, (chunk) => {
+                    ctx.emit('projection/tts/audio', { audio: chunk.toString('base64') });
+                }, action.params.voice);
+            } else {
+                const audio = await voice.tts(text, action.params.voice);
+                // 非 PCM 格式，由前端整段解码后播放
+                ctx.emit('projection/tts/audio', { audio: audio.toString('base64'), encoded: true });
+            }
+        } finally {
+            ctx.emit('projection/tts/end', {});
+        }
+    },
+});
+
+// 向上游 Agent 发送提示词（与回合信息一样通过 client/agent/trigger 事件）
+registerEventAction({
+    type: 'agent',
+    validate: (action) => (action.params?.prompt ? null : '缺少 params.prompt'),
+    async execute(action, actx) {
+        const scope = buildScope(actx);
+        const prompt = interpolateTemplate(action.params.prompt, scope);
+        publishEvent('client/agent/trigger', [{
+            type: 'event',
+            eventId: actx.event._id,
+            eventName: actx.event.name,
+            prompt,
+            state: action.params.includeState ? actx.state : undefined,
+            timestamp: Date.now(),
+        }]);
+    },
+});
+
+// MQTT 客户端缓存（按 broker 地址复用连接）
+const mqttClients = new Map<string, any>();
+
+function getMqttClient(url: string, username?: string, password?: string) {
+    const key = `${username || ''}@${url}`;
+    const existing = mqttClients.get(key);
+    if (existing) return existing;
+    const mqtt = require('mqtt');
+    const client = mqtt.connect(url, {
+        username: username || undefined,
+        password: password || undefined,
+        reconnectPeriod: 5000,
+        connectTimeout: 5000,
+    });
+    client.on('error', (e: Error) => logger.debug('[EventAction] MQTT %s 错误: %s', url, e.message));
+    mqttClients.set(key, client);
+    return client;
+}
+
+/**
+ * 断开 MQTT 动作使用的所有连接（插件卸载时调用）
+ */
+export function closeEventActionClients() {
+    for (const client of mqttClients.values()) {
+        try {
+            client.end(true);
+        } catch (e) {
+            logger.debug('[EventAction] 关闭 MQTT 连接失败: %s', (e as Error).message);
+        }
+    }
+    mqttClients.clear();
+}
+
+// MQTT 发布（例如通过 node 的 broker 控制房间灯光）
+registerEventAction({
+    type: 'mqtt',
+    validate: (action) => (action.params?.topic ? null : '缺少 params.topic'),
+    async execute(action, actx) {
+        const params = action.params;
+        const scope = buildScope(actx);
+        const url = params.url || (config as any).zigbee2mqtt?.mqttUrl || 'mqtt://localhost:1883';
+        const topic = interpolateTemplate(params.topic, scope);
+        let payload = params.payload ?? '';
+        if (typeof payload === 'string') {
+            try { payload = JSON.parse(payload); } catch { /* 按纯文本发布 */ }
+        }
+        payload = typeof payload === 'object' && payload !== null
+            ? JSON.stringify(interpolateDeep(payload, scope))
+            : interpolateTemplate(String(payload), scope);
+        const client = getMqttClient(url, params.username, params.password);
+        await new Promise<void>((resolve, reject) => {
+            // broker 不可达时 mqtt.js 会一直排队，这里限制等待时间
+            const timer = setTimeout(() => reject(new Error(`MQTT 发布超时: ${url}`)), 5000);
+            client.publish(topic, payload, { qos: params.qos ?? 0, retain: !!params.retain }, (err?: Error) => {
+                clearTimeout(timer);
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    },
+});
+
+// Webhook 请求
+const WEBHOOK_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+function getWebhookMethod(action: EventAction) {
+    return String(action.params?.method || 'POST').toUpperCase();
+}
+
+// 本机（含 0.0.0.0 / ::）与链路本地地址（含云主机元数据 169.254.169.254）
+function isRestrictedAddress(address: string) {
+    const ip = address.toLowerCase().startsWith('::ffff:') ? address.slice(7) : address;
+    if (net.isIPv4(ip)) {
+        const [a, b] = ip.split('.').map(Number);
+        return a === 127 || a === 0 || (a === 169 && b === 254);
+    }
+    const lower = ip.toLowerCase();
+    return lower === '::1' || lower === '::' || /^fe[89ab]/.test(lower);
+}
+
+/**
+ * 检查 webhook 目标：只允许 http(s)，解析后的地址不能是本机或链路本地地址，
+ * 除非主机在 eventActions.webhookAllowHosts 中
+ */
+async function assertWebhookTarget(url: string) {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new Error(`webhook 地址无效: ${url}`);
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') throw new Error(`webhook 只支持 http(s): ${url}`);
+    const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    const allowHosts: string[] = ((config as any).eventActions?.webhookAllowHosts || []).map((h: string) => String(h).toLowerCase());
+    if (allowHosts.includes(host)) return;
+    const addresses = net.isIP(host) ? [host] : (await dns.promises.lookup(host, { all: true })).map((a) => a.address);
+    if (addresses.some(isRestrictedAddress)) {
+        throw new Error(`webhook 不允许访问本机或链路本地地址: ${host}，如确需访问请加入 eventActions.webhookAllowHosts`);
+    }
+}
+
+registerEventAction({
+    type: 'webhook',
+    validate: (action) => {
+        if (!/^https?:\/\//i.test(action.params?.url || '')) return 'params.url 必须是 http(s) 地址';
+        if (!WEBHOOK_METHODS.includes(getWebhookMethod(action))) return `params.method 必须是 ${WEBHOOK_METHODS.join(' / ')} 之一`;
+        return null;
+    },
+    async execute(action, actx) {
+        const params = action.params;
+        const scope = buildScope(actx);
+        // 保存前已校验，这里再检查一次，避免旧数据中的任意方法名被直接调用
+        const method = getWebhookMethod(action);
+        if (!WEBHOOK_METHODS.includes(method)) throw new Error(`不支持的请求方法: ${method}`);
+        const url = interpolateTemplate(params.url, scope);
+        await assertWebhookTarget(url);
+        // 不跟随重定向，避免绕过上面的地址检查
+        let req = superagent(method, url).redirects(0).timeout(params.timeout || 5000);
+        for (const [key, value] of Object.entries(params.headers || {})) {
+            req = req.set(key, interpolateTemplate(String(value), scope));
+        }
+        if (method !== 'GET') {
+            let body = params.body;
+            if (body === undefined || body === '') {
+                body = { eventId: actx.event._id, eventName: actx.event.name, timestamp: Date.now() };
+            } else if (typeof body === 'string') {
+                // 前端以字符串保存 JSON 模板，先解析再插值，避免值中的引号破坏 JSON
+                try { body = JSON.parse(body); } catch { /* 按纯文本发送 */ }
+            }
+            if (typeof body === 'string') {
+                req = req.type('text/plain').send(interpolateTemplate(body, scope));
+            } else {
+                req = req.send(interpolateDeep(body, scope));
+            }
+        }
+        await req;
+    },
+});
@@ -0,0 +1,123 @@
+// projection-ws 状态差分推送：JSON Patch（RFC 6902 的 add / remove / replace 子集）+ 定期全量快照
+// 客户端可订阅部分字段（topics），例如只关心 ['player.state', 'round']
+
+export interface JsonPatchOp {
+    op: 'add' | 'remove' | 'replace';
+    path: string;
+    value?: any;
+}
+
+// 距离上次快照超过该时间或补丁数后，发送一次全量快照，便于丢包后自愈
+const SNAPSHOT_INTERVAL = 10000;
+const SNAPSHOT_MAX_PATCHES = 100;
+
+function escapePointer(key: string) {
+    return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function isPlainObject(value: any) {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * 计算两个 JSON 值之间的补丁；数组整体替换（GSI 中数组很少且较短）
+ */
+export function diffState(prev: any, next: any, path = '', ops: JsonPatchOp[] = []): JsonPatchOp[] {
+    if (prev === next) return ops;
+    if (!isPlainObject(prev) || !isPlainObject(next)) {
+        if (JSON.stringify(prev) !== JSON.stringify(next)) {
+            ops.push(next === undefined ? { op: 'remove', path } : { op: 'replace', path, value: next });
+        }
+        return ops;
+    }
+    for (const key of Object.keys(prev)) {
+        if (!(key in next)) ops.push({ op: 'remove', path: `${path}/${escapePointer(key)}` });
+    }
+    for (const key of Object.keys(next)) {
+        const childPath = `${path}/${escapePointer(key)}`;
+        if (!(key in prev)) ops.push({ op: 'add', path: childPath, value: next[key] });
+        else diffState(prev[key], next[key], childPath, ops);
+    }
+    return ops;
+}
+
+/**
+ * 只保留订阅的字段路径；topics 为空表示全部
+ */
+export function pickTopics(state: any, topics: string[] | null): any {
+    if (!topics?.length || !isPlainObject(state)) return state;
+    const result: any = {};
+    for (const topic of topics) {
+        const parts = topic.split('.').filter(Boolean);
+        let src = state;
+        for (const part of parts) {
+            src = src?.[part];
+            if (src === undefined) break;
+        }
+        if (src === undefined) continue;
+        let dest = result;
+        parts.forEach((part, i) => {
+            if (i === parts.length - 1) dest[part] = src;
+            else dest = (dest[part] ||= {});
+        });
+    }
+    return result;
+}
+
+interface SourceStream {
+    seq: number;
+    last: any;
+    lastSnapshotAt: number;
+    patches: number;
+}
+
+/**
+ * 单个连接的差分推送状态（每个数据源独立的序号）
+ */
+export class StateDeltaChannel {
+    private streams = new Map<string, SourceStream>();
+
+    constructor(public topics: string[] | null = null) {}
+
+    setTopics(topics: string[] | null) {
+        this.topics = topics?.length ? topics : null;
+        // 订阅变化后下一次推送全量快照
+        this.streams.clear();
+    }
+
+    reset(source?: string) {
+        if (source) this.streams.delete(source);
+        else this.streams.clear();
+    }
+
+    /**
+     * 生成下一条状态消息；没有变化时返回 null
+     */
+    next(source: string, state: any, primary: boolean, now = Date.now()) {
+        const view = pickTopics(state, this.topics);
+        const stream = this.streams.get(source);
+        const needSnapshot = !stream
+            || now - stream.lastSnapshotAt >= SNAPSHOT_INTERVAL
+            || stream.patches >= SNAPSHOT_MAX_PATCHES;
+        if (!needSnapshot) {
+            const ops = diffState(stream.last, view);
+            if (!ops.length) return null;
+            // 补丁比快照还大时直接发快照
+            if (JSON.stringify(ops).length < JSON.stringify(view).length) {
+                stream.seq++;
+                stream.patches++;
+                stream.last = view;
+                return {
+                    type: 'state/patch', source, primary, seq: stream.seq, ops, ts: now,
+                };
+            }
+        }
+        const seq = (stream?.seq || 0) + 1;
+        this.streams.set(source, {
+            seq, last: view, lastSnapshotAt: now, patches: 0,
+        });
+        return {
+            type: 'state', source, primary, seq, snapshot: true, data: view, ts: now,
+        };
+    }
+}
@@ -0,0 +1,109 @@
+// CS2 GSI 数据源：auth.token 校验、多数据源（如选手视角 + 观察者客户端）与 cfg 文件生成
+import { config } from '../config';
+
+export interface GsiSourceConfig {
+    name: string;
+    token: string;
+    description: string;
+    // 观察者客户端会额外推送 allplayers_* / grenades 等全场数据
+    observer: boolean;
+}
+
+export interface GsiSourceResolution {
+    source?: string;
+    error?: string;
+}
+
+function gsiConfig() {
+    return (config as any).gsi || {};
+}
+
+export function getPrimaryGsiSource(): string {
+    return gsiConfig().primary || 'default';
+}
+
+/**
+ * 已配置的数据源列表；未配置任何数据源时只有主数据源
+ */
+export function getGsiSources(): GsiSourceConfig[] {
+    const sources: GsiSourceConfig[] = (gsiConfig().sources || []).map((s: any) => ({
+        name: s.name,
+        token: s.token || '',
+        description: s.description || '',
+        observer: !!s.observer,
+    }));
+    const primary = getPrimaryGsiSource();
+    if (!sources.some((s) => s.name === primary)) {
+        sources.unshift({
+            name: primary, token: '', description: '', observer: false,
+        });
+    }
+    return sources;
+}
+
+function expectedToken(source: GsiSourceConfig) {
+    return source.token || gsiConfig().token || '';
+}
+
+/**
+ * 根据请求中的 source 参数或 auth.token 确定数据源，并校验 token
+ * 未指定 source 时，优先按 token 匹配数据源，否则归入主数据源
+ */
+export function resolveGsiSource(body: any, requested?: string): GsiSourceResolution {
+    const sources = getGsiSources();
+    const token = body?.auth?.token;
+    let source: GsiSourceConfig | undefined;
+    if (requested) {
+        source = sources.find((s) => s.name === requested);
+        if (!source) return { error: `未知的 GSI 数据源: ${requested}` };
+    } else {
+        source = (token && sources.find((s) => s.token && s.token === token))
+            || sources.find((s) => s.name === getPrimaryGsiSource());
+    }
+    const expected = expectedToken(source);
+    // 没有配置 token 时保持兼容，不做校验
+    if (expected && token !== expected) return { error: `GSI 数据源 ${source.name} 的 auth.token 校验失败` };
+    return { source: source.name };
+}
+
+// 默认订阅的数据块；观察者额外订阅全场数据
+const PLAYER_DATA_BLOCKS = [
+    'provider', 'map', 'round', 'player_id', 'player_state', 'player_weapons',
+    'player_match_stats', 'player_position', 'bomb', 'map_round_wins', 'phase_countdowns',
+];
+const OBSERVER_DATA_BLOCKS = [
+    'allplayers_id', 'allplayers_state', 'allplayers_match_stats', 'allplayers_weapons',
+    'allplayers_position', 'grenades',
+];
+
+/**
+ * 生成 gamestate_integration_*.cfg 文件内容
+ * @param baseUrl GSI 接收地址的根，例如 http://127.0.0.1:5283
+ */
+export function generateGsiConfigFile(sourceName: string, baseUrl: string) {
+    const source = getGsiSources().find((s) => s.name === sourceName);
+    if (!source) throw new Error(`未知的 GSI 数据源: ${sourceName}`);
+    const safeName = source.name.replace(/[^\w-]/g, '_');
+    const uri = `${baseUrl.replace(/\/$/, '')}/api/projection/cs2-gsi?source=${encodeURIComponent(source.name)}`;
+    const token = expectedToken(source);
+    const blocks = source.observer ? [...PLAYER_DATA_BLOCKS, ...OBSERVER_DATA_BLOCKS] : PLAYER_DATA_BLOCKS;
+    const lines = [
+        `"Agent Edge Projection (${source.name})"`,
+        '{',
+        `    "uri" "${uri}"`,
+        '    "timeout" "5.0"',
+        '    "buffer" "0.1"',
+        '    "throttle" "0.1"',
+        '    "heartbeat" "10.0"',
+    ];
+    if (token) {
+        lines.push('    "auth"', '    {', `        "token" "${token}"`, '    }');
+    }
+    lines.push('    "data"', '    {');
+    for (const block of blocks) lines.push(`        "${block}" "1"`);
+    lines.push('    }', '}', '');
+    return {
+        filename: `gamestate_integration_agentedge_${safeName}.cfg`,
+        content: lines.join('\n'),
+    };
+}
@@ -0,0 +1,393 @@
+// CS2 GSI 对局录制与回放
+// 每场对局保存为 data/projection-matches/<id>.ndjson：
+//   第一行为元信息 {"type":"meta",...}，之后每行一帧 {"t":相对开始的毫秒,"ts":接收时间,"data":GSI 原始数据}
+import path from 'node:path';
+import { fs, Logger } from '../utils';
+
+const logger = new Logger('projection-recorder');
+
+export const MATCH_RECORDING_DIR = path.resolve(process.cwd(), 'data/projection-matches');
+
+// 超过该时长没有收到 GSI 数据，视为新的一场对局
+const MATCH_IDLE_TIMEOUT = 10 * 60 * 1000;
+
+export interface MatchRecordingMeta {
+    id: string;
+    map: string | null;
+    mode: string | null;
+    player: string | null;
+    startedAt: number;
+}
+
+export interface MatchRecordingInfo extends MatchRecordingMeta {
+    size: number;
+    updatedAt: number;
+    duration: number;
+    recording: boolean;
+}
+
+interface ActiveRecording {
+    meta: MatchRecordingMeta;
+    stream: fs.WriteStream;
+    lastAt: number;
+    lastMapPhase: string | null;
+}
+
+let active: ActiveRecording | null = null;
+
+function sanitize(name: string) {
+    return name.replace(/[^\w-]/g, '_');
+}
+
+function formatTime(ts: number) {
+    const d = new Date(ts);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+}
+
+export function isValidMatchId(id: string) {
+    return typeof id === 'string' && /^[\w-]+$/.test(id);
+}
+
+export function getMatchRecordingPath(id: string) {
+    if (!isValidMatchId(id)) return null;
+    return path.join(MATCH_RECORDING_DIR, `${id}.ndjson`);
+}
+
+function closeRecording(reason: string) {
+    if (!active) return;
+    logger.info('[Recorder] 结束录制 %s (%s)', active.meta.id, reason);
+    active.stream.end();
+    active = null;
+}
+
+function openRecording(payload: any, now: number) {
+    fs.ensureDirSync(MATCH_RECORDING_DIR);
+    const mapName = payload?.map?.name || null;
+    const id = `${formatTime(now)}-${sanitize(mapName || 'unknown')}`;
+    const meta: MatchRecordingMeta = {
+        id,
+        map: mapName,
+        mode: payload?.map?.mode || null,
+        player: payload?.player?.name || null,
+        startedAt: now,
+    };
+    const stream = fs.createWriteStream(getMatchRecordingPath(id), { flags: 'a' });
+    stream.on('error', (e) => logger.error('[Recorder] 写入录制文件失败: %s', e.message));
+    stream.write(`${JSON.stringify({ type: 'meta', ...meta })}\n`);
+    active = {
+        meta, stream, lastAt: now, lastMapPhase: null,
+    };
+    logger.info('[Recorder] 开始录制对局 %s', id);
+}
+
+/**
+ * 记录一帧 GSI 数据（只记录对局中的数据，菜单界面的推送会结束当前录制）
+ */
+export function recordGsiPayload(payload: any, now = Date.now()) {
+    try {
+        const mapName = payload?.map?.name || null;
+        const mapPhase = payload?.map?.phase || null;
+        if (!mapName) {
+            closeRecording('离开对局');
+            return;
+        }
+        if (active) {
+            if (active.meta.map !== mapName) closeRecording('地图变化');
+            else if (now - active.lastAt > MATCH_IDLE_TIMEOUT) closeRecording('长时间无数据');
+            else if (active.lastMapPhase === 'gameover' && mapPhase && mapPhase !== 'gameover') closeRecording('新对局开始');
+        }
+        if (!active) openRecording(payload, now);
+        active.stream.write(`${JSON.stringify({ t: now - active.meta.startedAt, ts: now, data: payload })}\n`);
+        active.lastAt = now;
+        if (mapPhase) active.lastMapPhase = mapPhase;
+    } catch (e) {
+        logger.error('[Recorder] 记录 GSI 数据失败: %s', (e as Error).message);
+    }
+}
+
+export function getActiveRecordingId() {
+    return active?.meta.id || null;
+}
+
+async function readMeta(file: string): Promise<MatchRecordingMeta | null> {
+    const fd = await fs.open(file, 'r');
+    try {
+        const buffer = Buffer.alloc(4096);
+        const { bytesRead } = await fs.read(fd, buffer, 0, buffer.length, 0);
+        const firstLine = buffer.toString('utf8', 0, bytesRead).split('\n')[0];
+        const meta = JSON.parse(firstLine);
+        return meta?.type === 'meta' ? meta : null;
+    } catch {
+        return null;
+    } finally {
+        await fs.close(fd);
+    }
+}
+
+export async function listMatchRecordings(): Promise<MatchRecordingInfo[]> {
+    if (!fs.existsSync(MATCH_RECORDING_DIR)) return [];
+    const files = (await fs.readdir(MATCH_RECORDING_DIR)).filter((f) => f.endsWith('.ndjson'));
+    const result: MatchRecordingInfo[] = [];
+    for (const file of files) {
+        const full = path.join(MATCH_RECORDING_DIR, file);
+        const stat = await fs.stat(full);
+        const id = file.replace(/\.ndjson$/, '');
+        const meta = await readMeta(full) || {
+            id, map: null, mode: null, player: null, startedAt: stat.birthtimeMs || stat.mtimeMs,
+        };
+        result.push({
+            ...meta,
+            id,
+            size: stat.size,
+            updatedAt: stat.mtimeMs,
+            duration: Math.max(stat.mtimeMs - meta.startedAt, 0),
+            recording: active?.meta.id === id,
+        });
+    }
+    return result.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function deleteMatchRecording(id: string) {
+    const file = getMatchRecordingPath(id);
+    if (!file || !fs.existsSync(file)) return false;
+    if (active?.meta.id === id) closeRecording('录制文件被删除');
+    await fs.remove(file);
+    return true;
+}
+
+interface ReplayFrame {
+    t: number;
+    // 该帧在录制文件中的字节位置与长度（不含换行）
+    offset: number;
+    length: number;
+}
+
+/**
+ * 建立录制文件的帧索引：只保存每帧的时间戳与字节位置，帧数据在回放时再从文件读取，降低内存占用
+ */
+export async function loadMatchFrames(id: string): Promise<ReplayFrame[]> {
+    const file = getMatchRecordingPath(id);
+    if (!file || !fs.existsSync(file)) throw new Error(`录制不存在: ${id}`);
+    const frames: ReplayFrame[] = [];
+    const pushFrame = (head: string, offset: number, end: number) => {
+        const match = /^\{"t":(\d+),/.exec(head);
+        if (match) frames.push({ t: Number(match[1]), offset, length: end - offset });
+    };
+    // chunkStart 为当前数据块在文件中的位置；head 为当前行的开头，只用于解析 t
+    let chunkStart = 0;
+    let lineStart = 0;
+    let head = '';
+    for await (const chunk of fs.createReadStream(file) as AsyncIterable<Buffer>) {
+        let from = 0;
+        for (;;) {
+            const newline = chunk.indexOf(0x0a, from);
+            const end = newline === -1 ? chunk.length : newline;
+            if (head.length < 32) head += chunk.toString('latin1', from, Math.min(end, from + 32));
+            if (newline === -1) break;
+            pushFrame(head, lineStart, chunkStart + newline);
+            lineStart = chunkStart + newline + 1;
+            head = '';
+            from = newline + 1;
+        }
+        chunkStart += chunk.length;
+    }
+    // 正在录制的文件最后一行可能还没有换行
+    if (chunkStart > lineStart) pushFrame(head, lineStart, chunkStart);
+    return frames;
+}
+
+export interface ReplayStatus {
+    active: boolean;
+    matchId: string | null;
+    playing: boolean;
+    speed: number;
+    position: number;
+    duration: number;
+    frame: number;
+    frames: number;
+}
+
+export interface ReplayFrameHandler {
+    // seek 为 true 表示跳转后的第一帧，不应视为连续的状态变化
+    (data: any, info: { seek: boolean }): void;
+}
+
+/**
+ * 对局回放：按录制时的时间间隔（乘以倍速）依次输出帧
+ */
+export class MatchReplay {
+    private frames: ReplayFrame[] = [];
+    private matchId: string | null = null;
+    private fd: number | null = null;
+    // 每次开始/停止回放递增，丢弃上一次回放中尚未完成的帧读取
+    private session = 0;
+    // 帧从文件异步读取，按顺序串行输出
+    private queue: Promise<void> = Promise.resolve();
+    private index = 0;
+    private speed = 1;
+    private playing = false;
+    private timer: NodeJS.Timeout | null = null;
+    // 当前播放起点：对应的录制时间与真实时间
+    private baseT = 0;
+    private baseAt = 0;
+
+    constructor(private onFrame: ReplayFrameHandler, private onEnd?: () => void) {}
+
+    get active() {
+        return this.matchId !== null;
+    }
+
+    async start(id: string, options: { speed?: number, offset?: number } = {}) {
+        const frames = await loadMatchFrames(id);
+        if (!frames.length) throw new Error(`录制中没有数据: ${id}`);
+        const fd = await fs.open(getMatchRecordingPath(id), 'r');
+        this.stop();
+        this.session++;
+        this.fd = fd;
+        this.frames = frames;
+        this.matchId = id;
+        this.speed = normalizeSpeed(options.speed);
+        logger.info('[Replay] 开始回放 %s，共 %d 帧，倍速 %s', id, frames.length, this.speed);
+        this.seek(options.offset || 0);
+        this.resume();
+    }
+
+    stop() {
+        if (!this.active) return;
+        this.clearTimer();
+        logger.info('[Replay] 停止回放 %s', this.matchId);
+        this.session++;
+        fs.close(this.fd).catch((e) => logger.debug('[Replay] 关闭录制文件失败: %s', e.message));
+        this.fd = null;
+        this.frames = [];
+        this.matchId = null;
+        this.index = 0;
+        this.playing = false;
+    }
+
+    pause() {
+        if (!this.playing) return;
+        this.baseT = this.position();
+        this.playing = false;
+        this.clearTimer();
+    }
+
+    resume() {
+        if (!this.active || this.playing) return;
+        if (this.index >= this.frames.length) this.seek(0);
+        this.playing = true;
+        this.baseAt = Date.now();
+        this.schedule();
+    }
+
+    setSpeed(speed: number) {
+        const position = this.position();
+        this.speed = normalizeSpeed(speed);
+        this.baseT = position;
+        this.baseAt = Date.now();
+        if (this.playing) {
+            this.clearTimer();
+            this.schedule();
+        }
+    }
+
+    /**
+     * 跳转到录制中的指定时间（毫秒），立即输出该时间点的状态
+     */
+    seek(offset: number) {
+        if (!this.active) return;
+        const target = Math.min(Math.max(Number(offset) || 0, 0), this.duration());
+        // 找到不晚于目标时间的最后一帧
+        let lo = 0;
+        let hi = this.frames.length - 1;
+        while (lo < hi) {
+            const mid = (lo + hi + 1) >> 1;
+            if (this.frames[mid].t <= target) lo = mid;
+            else hi = mid - 1;
+        }
+        this.clearTimer();
+        this.emit(lo, true);
+        this.index = lo + 1;
+        this.baseT = target;
+        this.baseAt = Date.now();
+        if (this.playing) this.schedule();
+    }
+
+    status(): ReplayStatus {
+        return {
+            active: this.active,
+            matchId: this.matchId,
+            playing: this.playing,
+            speed: this.speed,
+            position: this.active ? this.position() : 0,
+            duration: this.duration(),
+            frame: this.index,
+            frames: this.frames.length,
+        };
+    }
+
+    private duration() {
+        return this.frames.length ? this.frames[this.frames.length - 1].t : 0;
+    }
+
+    private position() {
+        if (!this.playing) return this.baseT;
+        return Math.min(this.baseT + (Date.now() - this.baseAt) * this.speed, this.duration());
+    }
+
+    private clearTimer() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private emit(index: number, seek: boolean) {
+        const frame = this.frames[index];
+        if (!frame) return;
+        const { fd, session } = this;
+        this.queue = this.queue.then(async () => {
+            if (session !== this.session) return;
+            try {
+                const buffer = Buffer.alloc(frame.length);
+                await fs.read(fd, buffer, 0, frame.length, frame.offset);
+                if (session !== this.session) return;
+                this.onFrame(JSON.parse(buffer.toString('utf8')).data, { seek });
+            } catch (e) {
+                if (session === this.session) logger.error('[Replay] 回放第 %d 帧失败: %s', index, (e as Error).message);
+            }
+        });
+    }
+
+    private schedule() {
+        if (!this.playing) return;
+        if (this.index >= this.frames.length) {
+            logger.info('[Replay] 回放结束 %s', this.matchId);
+            this.playing = false;
+            this.baseT = this.duration();
+            // 等已排队的帧输出完再结束
+            const { session } = this;
+            this.queue = this.queue.then(() => {
+                if (session === this.session) this.onEnd?.();
+            });
+            return;
+        }
+        const delay = Math.max((this.frames[this.index].t - this.position()) / this.speed, 0);
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            // 追赶所有已到时间的帧（倍速较高时可能一次输出多帧，只有最后一帧会被展示）
+            const position = this.position();
+            while (this.index < this.frames.length && this.frames[this.index].t <= position) {
+                this.emit(this.index, false);
+                this.index++;
+            }
+            this.schedule();
+        }, delay);
+    }
+}
+
+function normalizeSpeed(speed: any) {
+    const value = Number(speed) || 1;
+    return Math.min(Math.max(value, 0.25), 16);
+}
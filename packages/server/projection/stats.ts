@@ -0,0 +1,442 @@
+// 对局统计引擎：按回合消费 GSI 数据，计算 ADR / HS% / KAST / 多杀 / 残局 / 经济 / 首杀
+// 完整统计需要观察者数据（allplayers）；只有选手视角时只能统计本人，残局和首杀对决无法识别
+
+// 击杀后多少毫秒内队友补枪视为“被交易”（GSI 没有击杀归属，按队友击杀时间近似判断）
+const TRADE_WINDOW = 5000;
+
+export type BuyType = 'pistol' | 'eco' | 'force' | 'full';
+
+export interface PlayerRoundStats {
+    steamid: string;
+    name: string;
+    team: string;
+    kills: number;
+    hsKills: number;
+    damage: number;
+    assists: number;
+    died: boolean;
+    traded: boolean;
+    kast: boolean;
+    equipValue: number;
+    buy: BuyType | null;
+}
+
+export interface RoundSummary {
+    number: number;
+    winner: string | null;
+    buy: Record<string, BuyType | null>; // 按队伍（CT / T）
+    opening: { killer: string | null, victim: string } | null;
+    clutch: { steamid: string, name: string, team: string, vs: number, won: boolean | null } | null;
+    players: Record<string, PlayerRoundStats>;
+    endedAt: number;
+}
+
+export interface PlayerMatchStats {
+    steamid: string;
+    name: string;
+    team: string;
+    rounds: number;
+    kills: number;
+    deaths: number;
+    assists: number;
+    hsKills: number;
+    damage: number;
+    kastRounds: number;
+    adr: number;
+    hsPercent: number;
+    kast: number;
+    multiKills: { k2: number, k3: number, k4: number, k5: number };
+    clutches: { attempts: number, won: number, byVs: Record<string, { attempts: number, won: number }> };
+    openingKills: number;
+    openingDeaths: number;
+    buys: Record<BuyType, number>;
+}
+
+export interface MatchStats {
+    id: string;
+    map: string;
+    mode: string | null;
+    startedAt: number;
+    updatedAt: number;
+    replay: boolean;
+    rounds: RoundSummary[];
+    players: Record<string, PlayerMatchStats>;
+}
+
+interface PlayerTrack {
+    name: string;
+    team: string;
+    baseAssists: number;
+    assists: number;
+    kills: number;
+    hsKills: number;
+    damage: number;
+    alive: boolean;
+    diedAt: number | null;
+    equipValue: number;
+    buy: BuyType | null;
+}
+
+interface RoundTrack {
+    number: number;
+    players: Map<string, PlayerTrack>;
+    kills: Array<{ steamid: string, team: string, at: number }>;
+    opening: RoundSummary['opening'];
+    clutch: RoundSummary['clutch'];
+    buy: RoundSummary['buy'];
+    buyRecorded: boolean;
+}
+
+function num(value: any) {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : 0;
+}
+
+function round2(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+export function classifyBuy(equipValue: number, roundNumber: number): BuyType {
+    if (roundNumber === 1 || roundNumber === 13) return 'pistol';
+    if (equipValue < 1500) return 'eco';
+    if (equipValue < 3500) return 'force';
+    return 'full';
+}
+
+/**
+ * 提取本帧所有可见玩家（观察者数据优先，否则只有当前玩家）
+ */
+function collectPlayers(state: any): Record<string, any> {
+    if (state?.allplayers && typeof state.allplayers === 'object') return state.allplayers;
+    const steamid = state?.player?.steamid;
+    return steamid ? { [steamid]: state.player } : {};
+}
+
+function createTrack(steamid: string, p: any): PlayerTrack {
+    return {
+        name: p?.name || steamid,
+        team: p?.team || '',
+        baseAssists: num(p?.match_stats?.assists),
+        assists: 0,
+        kills: 0,
+        hsKills: 0,
+        damage: 0,
+        alive: num(p?.state?.health) > 0,
+        diedAt: null,
+        equipValue: 0,
+        buy: null,
+    };
+}
+
+function createPlayerStats(steamid: string, name: string, team: string): PlayerMatchStats {
+    return {
+        steamid,
+        name,
+        team,
+        rounds: 0,
+        kills: 0,
+        deaths: 0,
+        assists: 0,
+        hsKills: 0,
+        damage: 0,
+        kastRounds: 0,
+        adr: 0,
+        hsPercent: 0,
+        kast: 0,
+        multiKills: {
+            k2: 0, k3: 0, k4: 0, k5: 0,
+        },
+        clutches: { attempts: 0, won: 0, byVs: {} },
+        openingKills: 0,
+        openingDeaths: 0,
+        buys: {
+            pistol: 0, eco: 0, force: 0, full: 0,
+        },
+    };
+}
+
+export class MatchStatsEngine {
+    private match: MatchStats | null = null;
+    private round: RoundTrack | null = null;
+    private lastMapPhase: string | null = null;
+    private lastRoundPhase: string | null = null;
+
+    /**
+     * @param onRoundEnd 回合结束（或对局切换）时调用，用于持久化
+     */
+    constructor(private onRoundEnd?: (match: MatchStats) => void) {}
+
+    getMatch() {
+        return this.match;
+    }
+
+    reset() {
+        this.match = null;
+        this.round = null;
+        this.lastMapPhase = null;
+        this.lastRoundPhase = null;
+    }
+
+    ingest(state: any, options: { replay?: boolean } = {}, now = Date.now()) {
+        const map = state?.map;
+        if (!map?.name) return;
+        const mapPhase = map.phase || null;
+        const roundPhase = state?.round?.phase || null;
+        // GSI 的 map.round 为已完成的回合数
+        const roundNumber = num(map.round) + (roundPhase === 'over' ? 0 : 1);
+
+        const isNewMatch = !this.match
+            || this.match.map !== map.name
+            || this.match.replay !== !!options.replay
+            || (this.lastMapPhase === 'gameover' && mapPhase !== 'gameover')
+            || (this.round && roundNumber < this.round.number - 1);
+        if (isNewMatch) {
+            this.finishRound(null, now);
+            this.match = {
+                id: `${map.name}-${now}`,
+                map: map.name,
+                mode: map.mode || null,
+                startedAt: now,
+                updatedAt: now,
+                replay: !!options.replay,
+                rounds: [],
+                players: {},
+            };
+            this.round = null;
+        }
+
+        const players = collectPlayers(state);
+        if (roundPhase !== 'over' && (!this.round || this.round.number !== roundNumber)) {
+            // 没有收到 over 就进入下一回合（例如中途接入），上一回合按未知胜者结束
+            this.finishRound(null, now);
+            this.startRound(roundNumber, players);
+        }
+        if (this.round) {
+            this.trackFrame(players, now);
+            if (roundPhase === 'live' && !this.round.buyRecorded) this.recordBuys(players);
+        }
+        if (roundPhase === 'over' && this.lastRoundPhase !== 'over') {
+            this.finishRound(state?.round?.win_team || null, now);
+        }
+        if (mapPhase === 'gameover' && this.lastMapPhase !== 'gameover') this.finishRound(null, now);
+
+        this.lastMapPhase = mapPhase;
+        this.lastRoundPhase = roundPhase;
+    }
+
+    private startRound(number: number, players: Record<string, any>) {
+        const tracks = new Map<string, PlayerTrack>();
+        for (const [steamid, p] of Object.entries(players)) {
+            tracks.set(steamid, createTrack(steamid, p));
+        }
+        this.round = {
+            number,
+            players: tracks,
+            kills: [],
+            opening: null,
+            clutch: null,
+            buy: {},
+            buyRecorded: false,
+        };
+    }
+
+    private trackFrame(players: Record<string, any>, now: number) {
+        const round = this.round;
+        const deaths: string[] = [];
+        const killers: string[] = [];
+        for (const [steamid, p] of Object.entries(players)) {
+            let track = round.players.get(steamid);
+            if (!track) {
+                // 回合中途出现的玩家（重连 / 换人）
+                track = createTrack(steamid, p);
+                round.players.set(steamid, track);
+            }
+            track.name = p?.name || track.name;
+            track.team = p?.team || track.team;
+            const kills = num(p?.state?.round_kills);
+            if (kills > track.kills) {
+                for (let i = track.kills; i < kills; i++) round.kills.push({ steamid, team: track.team, at: now });
+                killers.push(steamid);
+                track.kills = kills;
+            }
+            track.hsKills = Math.max(track.hsKills, num(p?.state?.round_killhs));
+            // GSI 没有回合助攻字段，用累计助攻数与回合开始时的差值计算
+            track.assists = Math.max(track.assists, num(p?.match_stats?.assists) - track.baseAssists);
+            track.damage = Math.max(track.damage, num(p?.state?.round_totaldmg));
+            const alive = num(p?.state?.health) > 0;
+            if (track.alive && !alive) {
+                track.diedAt = now;
+                deaths.push(steamid);
+            }
+            track.alive = alive;
+        }
+
+        // 首杀对决：本回合第一次出现死亡的那一帧，击杀数增加的敌方玩家即为首杀者
+        if (!round.opening && deaths.length) {
+            const victim = deaths[0];
+            const victimTeam = round.players.get(victim).team;
+            const candidates = killers.filter((id) => round.players.get(id).team !== victimTeam);
+            round.opening = { killer: candidates.length === 1 ? candidates[0] : null, victim };
+        }
+
+        // 残局：一方只剩一人存活，另一方仍有存活（只记录第一次出现时的对手人数）
+        if (!round.clutch) {
+            const alive: Record<string, string[]> = {};
+            for (const [steamid, track] of round.players) {
+                if (!track.team) continue;
+                alive[track.team] ||= [];
+                if (track.alive) alive[track.team].push(steamid);
+            }
+            const teams = Object.keys(alive);
+            if (teams.length === 2) {
+                for (const team of teams) {
+                    const other = teams.find((t) => t !== team);
+                    if (alive[team].length === 1 && alive[other].length >= 1) {
+                        const steamid = alive[team][0];
+                        round.clutch = {
+                            steamid,
+                            name: round.players.get(steamid).name,
+                            team,
+                            vs: alive[other].length,
+                            won: null,
+                        };
+                        break;
+                    }
+                }
+            }
+        }
+    }
+
+    private recordBuys(players: Record<string, any>) {
+        const round = this.round;
+        const teamValues: Record<string, number[]> = {};
+        for (const [steamid, p] of Object.entries(players)) {
+            const track = round.players.get(steamid);
+            if (!track) continue;
+            track.equipValue = num(p?.state?.equip_value);
+            track.buy = classifyBuy(track.equipValue, round.number);
+            if (track.team) (teamValues[track.team] ||= []).push(track.equipValue);
+        }
+        for (const [team, values] of Object.entries(teamValues)) {
+            const avg = values.reduce((a, b) => a + b, 0) / values.length;
+            round.buy[team] = classifyBuy(avg, round.number);
+        }
+        round.buyRecorded = true;
+    }
+
+    private finishRound(winner: string | null, now: number) {
+        const round = this.round;
+        const match = this.match;
+        if (!round || !match) return;
+        this.round = null;
+
+        const summary: RoundSummary = {
+            number: round.number,
+            winner,
+            buy: round.buy,
+            opening: round.opening,
+            clutch: round.clutch ? { ...round.clutch, won: winner ? winner === round.clutch.team : null } : null,
+            players: {},
+            endedAt: now,
+        };
+
+        for (const [steamid, track] of round.players) {
+            const died = track.diedAt !== null;
+            const traded = died && round.kills.some((k) => k.team === track.team
+                && k.steamid !== steamid && k.at >= track.diedAt && k.at - track.diedAt <= TRADE_WINDOW);
+            const kast = track.kills > 0 || track.assists > 0 || !died || traded;
+            summary.players[steamid] = {
+                steamid,
+                name: track.name,
+                team: track.team,
+                kills: track.kills,
+                hsKills: track.hsKills,
+                damage: track.damage,
+                assists: track.assists,
+                died,
+                traded,
+                kast,
+                equipValue: track.equipValue,
+                buy: track.buy,
+            };
+        }
+
+        match.rounds = match.rounds.filter((r) => r.number !== summary.number);
+        match.rounds.push(summary);
+        match.rounds.sort((a, b) => a.number - b.number);
+        match.updatedAt = now;
+        this.aggregate();
+        this.onRoundEnd?.(match);
+    }
+
+    // 由回合数据重新汇总每名玩家的整场统计
+    private aggregate() {
+        const match = this.match;
+        const players: Record<string, PlayerMatchStats> = {};
+        for (const round of match.rounds) {
+            for (const p of Object.values(round.players)) {
+                const stats = players[p.steamid] ||= createPlayerStats(p.steamid, p.name, p.team);
+                stats.name = p.name;
+                stats.team = p.team;
+                stats.rounds++;
+                stats.kills += p.kills;
+                stats.hsKills += p.hsKills;
+                stats.damage += p.damage;
+                stats.assists += p.assists;
+                if (p.died) stats.deaths++;
+                if (p.kast) stats.kastRounds++;
+                if (p.kills >= 2) stats.multiKills[`k${Math.min(p.kills, 5)}`]++;
+                if (p.buy) stats.buys[p.buy]++;
+            }
+            if (round.opening) {
+                if (players[round.opening.victim]) players[round.opening.victim].openingDeaths++;
+                if (round.opening.killer && players[round.opening.killer]) players[round.opening.killer].openingKills++;
+            }
+            if (round.clutch && players[round.clutch.steamid]) {
+                const clutches = players[round.clutch.steamid].clutches;
+                const key = `1v${round.clutch.vs}`;
+                clutches.byVs[key] ||= { attempts: 0, won: 0 };
+                clutches.attempts++;
+                clutches.byVs[key].attempts++;
+                if (round.clutch.won) {
+                    clutches.won++;
+                    clutches.byVs[key].won++;
+                }
+            }
+        }
+        for (const stats of Object.values(players)) {
+            stats.adr = stats.rounds ? round2(stats.damage / stats.rounds) : 0;
+            stats.hsPercent = stats.kills ? round2((stats.hsKills / stats.kills) * 100) : 0;
+            stats.kast = stats.rounds ? round2((stats.kastRounds / stats.rounds) * 100) : 0;
+        }
+        match.players = players;
+    }
+
+    /**
+     * 虚拟字段 derived.*，供组件文字绑定、事件触发条件与动作模板使用
+     * 例如 derived.player.adr、derived.round.clutch.vs、derived.match.rounds
+     */
+    getDerived(state: any) {
+        const match = this.match;
+        if (!match) return null;
+        const steamid = state?.player?.steamid;
+        const round = this.round;
+        return {
+            match: {
+                id: match.id,
+                map: match.map,
+                rounds: match.rounds.length,
+            },
+            player: (steamid && match.players[steamid]) || null,
+            players: match.players,
+            // 回合进行中的数据会被原地更新，这里复制一份，避免差分推送时与上一帧共享引用
+            round: round ? {
+                number: round.number,
+                buy: { ...round.buy },
+                opening: round.opening && { ...round.opening },
+                clutch: round.clutch && { ...round.clutch },
+            } : null,
+            lastRound: match.rounds[match.rounds.length - 1] || null,
+        };
+    }
+}
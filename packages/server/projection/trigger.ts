@@ -0,0 +1,190 @@
+// 事件触发表达式：支持 all/any/not 组合、边沿条件（changed / changed_from_to）与持续条件（forMs）
+// 兼容旧版单条件格式 { field, operator, value }
+
+export type TriggerOperator =
+    | 'equals'
+    | 'not_equals'
+    | 'greater_than'
+    | 'less_than'
+    | 'contains'
+    | 'changed'
+    | 'changed_from_to';
+
+export interface TriggerCondition {
+    field: string; // GSI 字段路径，如 "round.phase"
+    operator: TriggerOperator;
+    value?: any;
+    from?: any; // changed_from_to 使用
+    to?: any; // changed_from_to 使用
+    forMs?: number; // 条件需持续满足的毫秒数
+}
+
+export interface TriggerAll { all: TriggerExpression[]; forMs?: number }
+export interface TriggerAny { any: TriggerExpression[]; forMs?: number }
+export interface TriggerNot { not: TriggerExpression; forMs?: number }
+
+export type TriggerExpression = TriggerCondition | TriggerAll | TriggerAny | TriggerNot;
+
+export const TRIGGER_OPERATORS: TriggerOperator[] = [
+    'equals', 'not_equals', 'greater_than', 'less_than', 'contains', 'changed', 'changed_from_to',
+];
+
+// 单个事件的运行时状态（持续条件的起始时间，按节点路径记录）
+export interface TriggerRuntime {
+    since: Map<string, number>;
+}
+
+export function createTriggerRuntime(): TriggerRuntime {
+    return { since: new Map() };
+}
+
+export interface TriggerEvaluation {
+    result: boolean;
+    // 如果存在尚未达到持续时间的条件，返回最早需要重新检查的时间点
+    nextCheckAt: number | null;
+}
+
+/**
+ * 从对象中根据路径获取值
+ */
+export function getNestedValue(obj: any, path: string): any {
+    const parts = path.split('.');
+    let value = obj;
+    for (const part of parts) {
+        if (value == null) return null;
+        value = value[part];
+    }
+    return value;
+}
+
+function looseEquals(a: any, b: any) {
+    if (a === b) return true;
+    if (a == null || b == null) return false;
+    return String(a) === String(b);
+}
+
+/**
+ * 校验触发表达式，返回错误信息；合法时返回 null
+ */
+export function validateTrigger(expr: any, path = 'trigger'): string | null {
+    if (!expr || typeof expr !== 'object' || Array.isArray(expr)) return `${path} 必须是对象`;
+    if (expr.forMs !== undefined && (typeof expr.forMs !== 'number' || expr.forMs < 0)) {
+        return `${path}.forMs 必须是非负数`;
+    }
+    if ('all' in expr || 'any' in expr) {
+        const key = 'all' in expr ? 'all' : 'any';
+        const children = expr[key];
+        if (!Array.isArray(children) || children.length === 0) return `${path}.${key} 必须是非空数组`;
+        for (let i = 0; i < children.length; i++) {
+            const error = validateTrigger(children[i], `${path}.${key}[${i}]`);
+            if (error) return error;
+        }
+        return null;
+    }
+    if ('not' in expr) return validateTrigger(expr.not, `${path}.not`);
+    if (!expr.field || typeof expr.field !== 'string') return `${path}.field 不能为空`;
+    if (!TRIGGER_OPERATORS.includes(expr.operator)) return `${path}.operator 不支持: ${expr.operator}`;
+    return null;
+}
+
+function evaluateCondition(cond: TriggerCondition, state: any, prevState: any): boolean {
+    const fieldValue = getNestedValue(state, cond.field);
+
+    switch (cond.operator) {
+        case 'equals':
+            return looseEquals(fieldValue, cond.value);
+        case 'not_equals':
+            return !looseEquals(fieldValue, cond.value);
+        case 'greater_than':
+            return Number(fieldValue) > Number(cond.value);
+        case 'less_than':
+            return Number(fieldValue) < Number(cond.value);
+        case 'contains':
+            return String(fieldValue).includes(String(cond.value));
+        case 'changed': {
+            // 没有上一次状态时无法判断变化
+            if (prevState == null) return false;
+            const prevValue = getNestedValue(prevState, cond.field);
+            return JSON.stringify(prevValue) !== JSON.stringify(fieldValue);
+        }
+        case 'changed_from_to': {
+            if (prevState == null) return false;
+            const prevValue = getNestedValue(prevState, cond.field);
+            if (looseEquals(prevValue, fieldValue)) return false;
+            const fromOk = cond.from === undefined || cond.from === '' || looseEquals(prevValue, cond.from);
+            const toOk = cond.to === undefined || cond.to === '' || looseEquals(fieldValue, cond.to);
+            return fromOk && toOk;
+        }
+        default:
+            return false;
+    }
+}
+
+/**
+ * 评估触发表达式
+ * @param state 当前 GSI 状态
+ * @param prevState 上一次 GSI 状态（用于边沿条件）
+ * @param runtime 事件运行时状态（用于持续条件）
+ * @param now 当前时间
+ */
+export function evaluateTrigger(
+    expr: TriggerExpression, state: any, prevState: any, runtime: TriggerRuntime, now = Date.now(),
+): TriggerEvaluation {
+    let nextCheckAt: number | null = null;
+
+    const visit = (node: TriggerExpression, nodePath: string): boolean => {
+        let raw: boolean;
+        if ('all' in node) {
+            // 不短路，确保所有子节点的持续状态都得到更新
+            raw = node.all.map((child, i) => visit(child, `${nodePath}.${i}`)).every(Boolean);
+        } else if ('any' in node) {
+            raw = node.any.map((child, i) => visit(child, `${nodePath}.${i}`)).some(Boolean);
+        } else if ('not' in node) {
+            raw = !visit(node.not, `${nodePath}.n`);
+        } else {
+            raw = evaluateCondition(node, state, prevState);
+        }
+
+        const holdMs = Number(node.forMs) || 0;
+        if (holdMs <= 0) return raw;
+        if (!raw) {
+            runtime.since.delete(nodePath);
+            return false;
+        }
+        const since = runtime.since.get(nodePath) ?? now;
+        runtime.since.set(nodePath, since);
+        if (now - since >= holdMs) return true;
+        const deadline = since + holdMs;
+        nextCheckAt = nextCheckAt === null ? deadline : Math.min(nextCheckAt, deadline);
+        return false;
+    };
+
+    const result = visit(expr, 'root');
+    return { result, nextCheckAt };
+}
+
+const OPERATOR_LABELS: Record<TriggerOperator, string> = {
+    equals: '==',
+    not_equals: '!=',
+    greater_than: '>',
+    less_than: '<',
+    contains: 'contains',
+    changed: 'changed',
+    changed_from_to: 'changed',
+};
+
+/**
+ * 生成触发表达式的可读描述（用于日志）
+ */
+export function describeTrigger(expr: TriggerExpression): string {
+    const withHold = (text: string, node: { forMs?: number }) => (node.forMs ? `${text} for ${node.forMs}ms` : text);
+    if ('all' in expr) return withHold(`(${expr.all.map(describeTrigger).join(' AND ')})`, expr);
+    if ('any' in expr) return withHold(`(${expr.any.map(describeTrigger).join(' OR ')})`, expr);
+    if ('not' in expr) return withHold(`NOT ${describeTrigger(expr.not)}`, expr);
+    const op = OPERATOR_LABELS[expr.operator] || expr.operator;
+    if (expr.operator === 'changed') return withHold(`${expr.field} ${op}`, expr);
+    if (expr.operator === 'changed_from_to') {
+        return withHold(`${expr.field} ${op} ${JSON.stringify(expr.from ?? '*')} -> ${JSON.stringify(expr.to ?? '*')}`, expr);
+    }
+    return withHold(`${expr.field} ${op} ${JSON.stringify(expr.value)}`, expr);
+}
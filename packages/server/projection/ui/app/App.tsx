@@ -12,6 +12,7 @@ import Widget from './pages/Widget';
 import WidgetList from './pages/WidgetList';
 import SceneList from './pages/SceneList';
 import SceneDetail from './pages/SceneDetail';
+import MatchList from './pages/MatchList';
 import MatchTeams from './pages/widgets/MatchTeams';
 
 function DefaultLayout() {
@@ -56,6 +57,7 @@ export default function App() {
           <Route path="widgets" element={<WidgetList />} />
           <Route path="scenes" element={<SceneList />} />
           <Route path="scenes/:id" element={<SceneDetail />} />
+          <Route path="matches" element={<MatchList />} />
         </Route>
       </Routes>
       {/* 全局对局信息组件（在 freeze 时显示） */}
@@ -1,11 +1,13 @@
 import {
-  Modal, Stack, TextInput, Select, Button, Group, Text, Switch, ActionIcon, Box, NumberInput, Card,
+  Modal, Stack, TextInput, Select, Button, Group, Text, Switch, ActionIcon, Box, NumberInput, Card, Textarea,
 } from '@mantine/core';
 import { useForm } from '@mantine/form';
 import { notifications } from '@mantine/notifications';
 import { IconPlus, IconTrash } from '@tabler/icons-react';
 import React, { useEffect, useState } from 'react';
 import { EventConfig } from '../pages/EventList';
+import { actionTypeOptions, createDefaultAction, EventActionType } from '../utils/eventAction';
+import { TriggerEditor } from './TriggerEditor';
 
 // 可用的组件列表
 const availableWidgets = [
@@ -26,20 +28,6 @@ const availableWidgets = [
   { value: 'faceit', label: 'Faceit 统计' },
 ];
 
-// 常用的 GSI 字段路径
-const commonGSIFields = [
-  { value: 'round.phase', label: '回合阶段 (round.phase)' },
-  { value: 'round.round', label: '回合数 (round.round)' },
-  { value: 'player.state.health', label: '玩家生命值 (player.state.health)' },
-  { value: 'player.state.armor', label: '玩家护甲 (player.state.armor)' },
-  { value: 'player.state.money', label: '玩家金钱 (player.state.money)' },
-  { value: 'player.team', label: '玩家队伍 (player.team)' },
-  { value: 'bomb.state', label: '炸弹状态 (bomb.state)' },
-  { value: 'map.phase', label: '地图阶段 (map.phase)' },
-  { value: 'map.team_ct.score', label: 'CT 队伍得分 (map.team_ct.score)' },
-  { value: 'map.team_t.score', label: 'T 队伍得分 (map.team_t.score)' },
-];
-
 interface EventConfigModalProps {
   opened: boolean;
   onClose: () => void;
@@ -67,13 +55,7 @@ export function EventConfigModal({
         operator: 'equals',
         value: 'live',
       },
-      actions: [
-        {
-          widgetName: 'agentstream',
-          effect: 'hide',
-          duration: 10,
-        },
-      ],
+      actions: [createDefaultAction()],
     },
   });
 
@@ -108,13 +90,7 @@ export function EventConfigModal({
             operator: 'equals',
             value: 'live',
           },
-          actions: [
-            {
-              widgetName: 'agentstream',
-              effect: 'hide',
-              duration: 10,
-            },
-          ],
+          actions: [createDefaultAction()],
         });
       }
     }
@@ -173,11 +149,146 @@ export function EventConfigModal({
   };
 
   const addAction = () => {
-    form.insertListItem('actions', {
-      widgetName: 'agentstream',
-      effect: 'hide',
-      duration: 10,
-    });
+    form.insertListItem('actions', createDefaultAction());
+  };
+
+  const changeActionType = (index: number, type: EventActionType) => {
+    form.setFieldValue(`actions.${index}`, createDefaultAction(type));
+  };
+
+  // 根据动作类型渲染参数表单
+  const renderActionFields = (index: number) => {
+    const action = form.values.actions[index];
+    const type = action.type || 'widget';
+    const templateHint = '支持 {{字段路径}} 模板，例如 {{player.name}}、{{map.round}}';
+
+    if (type === 'tts') {
+      return (
+        <>
+          <Textarea
+            label="播报内容"
+            description={templateHint}
+            autosize
+            minRows={2}
+            {...form.getInputProps(`actions.${index}.params.text`)}
+          />
+          <TextInput
+            label="音色（可选）"
+            placeholder="留空使用 voice.tts.voice 配置"
+            {...form.getInputProps(`actions.${index}.params.voice`)}
+          />
+        </>
+      );
+    }
+
+    if (type === 'agent') {
+      return (
+        <>
+          <Textarea
+            label="提示词"
+            description={templateHint}
+            autosize
+            minRows={2}
+            {...form.getInputProps(`actions.${index}.params.prompt`)}
+          />
+          <Switch
+            label="附带完整 GSI 状态"
+            {...form.getInputProps(`actions.${index}.params.includeState`, { type: 'checkbox' })}
+          />
+        </>
+      );
+    }
+
+    if (type === 'mqtt') {
+      return (
+        <>
+          <TextInput
+            label="Broker 地址"
+            placeholder="留空使用 zigbee2mqtt.mqttUrl，例如 mqtt://192.168.1.20:1883"
+            {...form.getInputProps(`actions.${index}.params.url`)}
+          />
+          <TextInput
+            label="主题"
+            placeholder="例如：zigbee2mqtt/room_light/set"
+            {...form.getInputProps(`actions.${index}.params.topic`)}
+          />
+          <Textarea
+            label="消息内容"
+            description={`JSON 或纯文本，${templateHint}`}
+            autosize
+            minRows={2}
+            {...form.getInputProps(`actions.${index}.params.payload`)}
+          />
+          <Group grow>
+            <Select
+              label="QoS"
+              data={['0', '1', '2']}
+              value={String(action.params?.qos ?? 0)}
+              onChange={(qos) => form.setFieldValue(`actions.${index}.params.qos`, Number(qos || 0))}
+            />
+            <Switch
+              mt="lg"
+              label="保留消息 (retain)"
+              {...form.getInputProps(`actions.${index}.params.retain`, { type: 'checkbox' })}
+            />
+          </Group>
+        </>
+      );
+    }
+
+    if (type === 'webhook') {
+      return (
+        <>
+          <Group grow>
+            <Select
+              label="方法"
+              data={['POST', 'PUT', 'PATCH', 'DELETE', 'GET']}
+              {...form.getInputProps(`actions.${index}.params.method`)}
+            />
+            <TextInput
+              label="URL"
+              placeholder="https://example.com/hook"
+              {...form.getInputProps(`actions.${index}.params.url`)}
+            />
+          </Group>
+          <Textarea
+            label="请求体（可选）"
+            description={`JSON 或纯文本，留空发送事件信息，${templateHint}`}
+            autosize
+            minRows={2}
+            {...form.getInputProps(`actions.${index}.params.body`)}
+          />
+        </>
+      );
+    }
+
+    return (
+      <>
+        <Select
+          label="目标组件"
+          data={availableWidgets}
+          {...form.getInputProps(`actions.${index}.widgetName`)}
+        />
+
+        <Select
+          label="效果"
+          data={[
+            { value: 'show', label: '显示' },
+            { value: 'hide', label: '隐藏' },
+            { value: 'toggle', label: '切换' },
+          ]}
+          {...form.getInputProps(`actions.${index}.effect`)}
+        />
+
+        <NumberInput
+          label="持续时间（秒）"
+          description="0 表示永久，留空也表示永久"
+          min={0}
+          placeholder="例如：10"
+          {...form.getInputProps(`actions.${index}.duration`)}
+        />
+      </>
+    );
   };
 
   const removeAction = (index: number) => {
@@ -207,33 +318,10 @@ export function EventConfigModal({
 
           <Box>
             <Text size="sm" fw={600} mb="xs">触发条件</Text>
-            <Stack gap="sm">
-              <Select
-                label="GSI 字段路径"
-                placeholder="选择字段路径"
-                data={commonGSIFields}
-                searchable
-                {...form.getInputProps('trigger.field')}
-              />
-
-              <Select
-                label="操作符"
-                data={[
-                  { value: 'equals', label: '等于' },
-                  { value: 'not_equals', label: '不等于' },
-                  { value: 'greater_than', label: '大于' },
-                  { value: 'less_than', label: '小于' },
-                  { value: 'contains', label: '包含' },
-                ]}
-                {...form.getInputProps('trigger.operator')}
-              />
-
-              <TextInput
-                label="比较值"
-                placeholder="例如：live, 100, CT"
-                {...form.getInputProps('trigger.value')}
-              />
-            </Stack>
+            <TriggerEditor
+              value={form.values.trigger}
+              onChange={(trigger) => form.setFieldValue('trigger', trigger)}
+            />
           </Box>
 
           <Box>
@@ -267,28 +355,13 @@ export function EventConfigModal({
                     </Group>
 
                     <Select
-                      label="目标组件"
-                      data={availableWidgets}
-                      {...form.getInputProps(`actions.${index}.widgetName`)}
+                      label="动作类型"
+                      data={actionTypeOptions}
+                      value={action.type || 'widget'}
+                      onChange={(type) => changeActionType(index, (type || 'widget') as EventActionType)}
                     />
 
-                    <Select
-                      label="效果"
-                      data={[
-                        { value: 'show', label: '显示' },
-                        { value: 'hide', label: '隐藏' },
-                        { value: 'toggle', label: '切换' },
-                      ]}
-                      {...form.getInputProps(`actions.${index}.effect`)}
-                    />
-
-                    <NumberInput
-                      label="持续时间（秒）"
-                      description="0 表示永久，留空也表示永久"
-                      min={0}
-                      placeholder="例如：10"
-                      {...form.getInputProps(`actions.${index}.duration`)}
-                    />
+                    {renderActionFields(index)}
                   </Stack>
                 </Card>
               ))}
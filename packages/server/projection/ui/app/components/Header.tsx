@@ -4,7 +4,7 @@ import {
   Tabs, Text, Title,
 } from '@mantine/core';
 import {
-  IconDeviceTv, IconGauge, IconSettings, IconMessage, IconApps, IconPhoto,
+  IconDeviceTv, IconGauge, IconSettings, IconMessage, IconApps, IconPhoto, IconHistory,
 } from '@tabler/icons-react';
 import React from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
@@ -17,6 +17,7 @@ const mainLinks = [
   { link: '/chat', label: 'Agent 对话', icon: <IconMessage style={iconStyle} /> },
   { link: '/widgets', label: '组件列表', icon: <IconApps style={iconStyle} /> },
   { link: '/scenes', label: '场景管理', icon: <IconPhoto style={iconStyle} /> },
+  { link: '/matches', label: '对局录制', icon: <IconHistory style={iconStyle} /> },
   { link: '/config', label: '配置', icon: <IconSettings style={iconStyle} /> },
 ];
 
@@ -157,6 +157,34 @@ export default function TTSPlayer({ config, size: propSize, showProgress: propSh
     }
   };
 
+  // 播放编码音频（mp3/wav 等，由服务端事件动作合成），整段解码后加入播放队列
+  const playEncodedAudio = async (base64Data: string) => {
+    if (!audioContextRef.current || !base64Data) return;
+    try {
+      const binaryString = atob(base64Data);
+      const bytes = new Uint8Array(binaryString.length);
+      for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+      }
+      const decoded = await audioContextRef.current.decodeAudioData(bytes.buffer);
+      const floatData = new Float32Array(decoded.getChannelData(0));
+      audioQueueRef.current.push(floatData);
+      totalSamplesRef.current += floatData.length;
+      lastChunkTimeRef.current = Date.now();
+
+      if (!isVisibleRef.current) {
+        isVisibleRef.current = true;
+        setIsVisible(true);
+        setStatus('playing');
+      }
+      if (!isPlayingRef.current && audioEnabledRef.current) {
+        startPlayback();
+      }
+    } catch (err) {
+      console.error('[TTSPlayer] 解码音频失败:', err);
+    }
+  };
+
   // 开始播放
   const startPlayback = () => {
     if (isPlayingRef.current) return;
@@ -388,7 +416,9 @@ export default function TTSPlayer({ config, size: propSize, showProgress: propSh
     }
     
     // 优先使用 audio 字段（上游服务器标准格式）
-    if (audioData?.audio) {
+    if (audioData?.encoded && audioData?.audio) {
+      playEncodedAudio(audioData.audio);
+    } else if (audioData?.audio) {
       playAudioChunk(audioData.audio);
     } else if (audioData?.chunk) {
       playAudioChunk(audioData.chunk);
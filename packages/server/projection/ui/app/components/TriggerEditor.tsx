@@ -0,0 +1,176 @@
+import {
+  ActionIcon, Button, Card, Group, NumberInput, SegmentedControl, Select, Stack, Text, TextInput,
+} from '@mantine/core';
+import { IconPlus, IconTrash } from '@tabler/icons-react';
+import React from 'react';
+import {
+  convertTriggerNode, createDefaultCondition, getTriggerNodeType, operatorOptions,
+  TriggerCondition, TriggerExpression, TriggerNodeType,
+} from '../utils/eventTrigger';
+
+// 常用的 GSI 字段路径
+export const commonGSIFields = [
+  { value: 'round.phase', label: '回合阶段 (round.phase)' },
+  { value: 'round.round', label: '回合数 (round.round)' },
+  { value: 'round.bomb', label: '回合炸弹状态 (round.bomb)' },
+  { value: 'player.state.health', label: '玩家生命值 (player.state.health)' },
+  { value: 'player.state.armor', label: '玩家护甲 (player.state.armor)' },
+  { value: 'player.state.money', label: '玩家金钱 (player.state.money)' },
+  { value: 'player.state.round_kills', label: '本回合击杀 (player.state.round_kills)' },
+  { value: 'player.team', label: '玩家队伍 (player.team)' },
+  { value: 'bomb.state', label: '炸弹状态 (bomb.state)' },
+  { value: 'map.phase', label: '地图阶段 (map.phase)' },
+  { value: 'map.team_ct.score', label: 'CT 队伍得分 (map.team_ct.score)' },
+  { value: 'map.team_t.score', label: 'T 队伍得分 (map.team_t.score)' },
+  { value: 'derived.player.adr', label: '玩家 ADR (derived.player.adr)' },
+  { value: 'derived.player.hsPercent', label: '玩家爆头率 (derived.player.hsPercent)' },
+  { value: 'derived.player.kast', label: '玩家 KAST (derived.player.kast)' },
+  { value: 'derived.round.clutch.vs', label: '残局对手人数 (derived.round.clutch.vs)' },
+  { value: 'derived.round.clutch.name', label: '残局玩家 (derived.round.clutch.name)' },
+  { value: 'derived.lastRound.winner', label: '上回合胜方 (derived.lastRound.winner)' },
+];
+
+const nodeTypeOptions = [
+  { value: 'condition', label: '条件' },
+  { value: 'all', label: '全部满足' },
+  { value: 'any', label: '任一满足' },
+  { value: 'not', label: '取反' },
+];
+
+interface TriggerEditorProps {
+  value: TriggerExpression;
+  onChange: (value: TriggerExpression) => void;
+  onRemove?: () => void;
+  depth?: number;
+}
+
+function ConditionFields({ value, onChange }: { value: TriggerCondition; onChange: (v: TriggerCondition) => void }) {
+  const fieldOptions = commonGSIFields.some((f) => f.value === value.field) || !value.field
+    ? commonGSIFields
+    : [{ value: value.field, label: value.field }, ...commonGSIFields];
+
+  return (
+    <Stack gap="xs">
+      <Select
+        label="GSI 字段路径"
+        placeholder="选择字段路径"
+        data={fieldOptions}
+        searchable
+        value={value.field}
+        onChange={(field) => onChange({ ...value, field: field || '' })}
+      />
+      <Select
+        label="操作符"
+        data={operatorOptions}
+        value={value.operator}
+        onChange={(operator) => onChange({ ...value, operator: (operator || 'equals') as TriggerCondition['operator'] })}
+      />
+      {value.operator === 'changed_from_to' ? (
+        <Group grow>
+          <TextInput
+            label="原值"
+            placeholder="留空表示任意，例如：planted"
+            value={value.from ?? ''}
+            onChange={(e) => onChange({ ...value, from: e.currentTarget.value })}
+          />
+          <TextInput
+            label="新值"
+            placeholder="留空表示任意，例如：defused"
+            value={value.to ?? ''}
+            onChange={(e) => onChange({ ...value, to: e.currentTarget.value })}
+          />
+        </Group>
+      ) : value.operator !== 'changed' && (
+        <TextInput
+          label="比较值"
+          placeholder="例如：live, 100, CT"
+          value={value.value ?? ''}
+          onChange={(e) => onChange({ ...value, value: e.currentTarget.value })}
+        />
+      )}
+    </Stack>
+  );
+}
+
+/**
+ * 触发表达式编辑器（递归渲染 all/any/not 组合）
+ */
+export function TriggerEditor({
+  value, onChange, onRemove, depth = 0,
+}: TriggerEditorProps) {
+  const type = getTriggerNodeType(value);
+
+  const renderChildren = (children: TriggerExpression[], key: 'all' | 'any') => (
+    <Stack gap="xs">
+      {children.map((child, index) => (
+        <TriggerEditor
+          key={index}
+          value={child}
+          depth={depth + 1}
+          onChange={(next) => {
+            const updated = [...children];
+            updated[index] = next;
+            onChange({ ...value, [key]: updated } as TriggerExpression);
+          }}
+          onRemove={children.length > 1 ? () => {
+            onChange({ ...value, [key]: children.filter((_, i) => i !== index) } as TriggerExpression);
+          } : undefined}
+        />
+      ))}
+      <Button
+        size="xs"
+        variant="light"
+        leftSection={<IconPlus size={14} />}
+        onClick={() => onChange({ ...value, [key]: [...children, createDefaultCondition()] } as TriggerExpression)}
+      >
+        添加子条件
+      </Button>
+    </Stack>
+  );
+
+  return (
+    <Card padding="sm" withBorder bg={depth % 2 ? 'var(--mantine-color-default-hover)' : undefined}>
+      <Stack gap="xs">
+        <Group justify="space-between">
+          <SegmentedControl
+            size="xs"
+            data={nodeTypeOptions}
+            value={type}
+            onChange={(next) => onChange(convertTriggerNode(value, next as TriggerNodeType))}
+          />
+          {onRemove && (
+            <ActionIcon color="red" variant="light" onClick={onRemove}>
+              <IconTrash size={16} />
+            </ActionIcon>
+          )}
+        </Group>
+
+        {type === 'condition' && (
+          <ConditionFields value={value as TriggerCondition} onChange={onChange} />
+        )}
+        {type === 'all' && renderChildren((value as any).all, 'all')}
+        {type === 'any' && renderChildren((value as any).any, 'any')}
+        {type === 'not' && (
+          <TriggerEditor
+            value={(value as any).not}
+            depth={depth + 1}
+            onChange={(next) => onChange({ ...value, not: next } as TriggerExpression)}
+          />
+        )}
+
+        <NumberInput
+          label="持续时间（毫秒）"
+          description="条件需持续满足该时长才算成立，0 或留空表示立即成立"
+          min={0}
+          step={500}
+          placeholder="例如：2000"
+          value={value.forMs ?? ''}
+          onChange={(ms) => onChange({ ...value, forMs: typeof ms === 'number' && ms > 0 ? ms : undefined })}
+        />
+        {depth === 0 && type !== 'condition' && (
+          <Text size="xs" c="dimmed">事件在整个表达式从不满足变为满足时触发一次</Text>
+        )}
+      </Stack>
+    </Card>
+  );
+}
@@ -1,27 +1,51 @@
 import { useEffect, useState } from 'react';
-import { useProjectionMessage, useProjectionWebSocket } from './useProjectionWebSocket';
+import { useSearchParams } from 'react-router-dom';
+import { useProjectionWebSocket } from './useProjectionWebSocket';
 
 type Cs2State = any;
 
-export function useCs2State() {
+interface UseCs2StateOptions {
+  // GSI 数据源名称；不传时读取 URL 参数 ?source=，都没有则使用主数据源
+  source?: string;
+  // 只订阅部分字段（如 ['player.state', 'round']），减少推送数据量；不传表示全部
+  topics?: string[];
+}
+
+/**
+ * 订阅 CS2 GSI 状态
+ */
+export function useCs2State(options: UseCs2StateOptions = {}) {
+  const [searchParams] = useSearchParams();
+  const selectedSource = options.source || searchParams.get('source') || null;
+  const topicsKey = (options.topics || []).join(',');
   const [state, setState] = useState<Cs2State | null>(null);
-  const { connected } = useProjectionWebSocket();
+  const { connected, wsManager } = useProjectionWebSocket();
 
-  // 使用共享的 WebSocket 连接监听 state 消息
-  useProjectionMessage('state', (data: any) => {
-    setState(data || null);
-  });
+  // 使用共享的 WebSocket 连接监听 state 消息，只接收所选数据源的状态
+  useEffect(() => {
+    const unsubscribe = wsManager.subscribe((msg: any) => {
+      if (msg?.type !== 'state') return;
+      const matched = selectedSource
+        ? msg.source === selectedSource
+        : msg.primary !== false; // 旧版消息没有 source 字段，视为主数据源
+      if (matched) setState(msg.data || null);
+    });
+    return unsubscribe;
+  }, [wsManager, selectedSource]);
+
+  // 向服务端声明需要的字段（多个组件共享连接时取并集）
+  useEffect(() => wsManager.requestTopics(topicsKey ? topicsKey.split(',') : null), [wsManager, topicsKey]);
 
   // 初次加载时通过 REST 拉一次
   useEffect(() => {
-    fetch('/api/projection/state')
+    const query = selectedSource ? `?source=${encodeURIComponent(selectedSource)}` : '';
+    fetch(`/api/projection/state${query}`)
       .then((res) => res.json())
       .then((data) => {
         if (data?.state) setState(data.state);
       })
       .catch(() => {});
-  }, []);
+  }, [selectedSource]);
 
   return { state, connected };
 }
-
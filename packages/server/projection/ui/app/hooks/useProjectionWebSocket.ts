@@ -1,5 +1,41 @@
 import { useEffect, useRef, useState } from 'react';
 
+interface JsonPatchOp {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: any;
+}
+
+function unescapePointer(key: string) {
+  return key.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * 应用服务端推送的状态补丁（不修改原对象，沿路径复制，方便 React 比较引用）
+ */
+export function applyStatePatch(state: any, ops: JsonPatchOp[]) {
+  let root = state;
+  for (const { op, path, value } of ops) {
+    if (path === '') {
+      root = op === 'remove' ? null : value;
+      continue;
+    }
+    const keys = path.split('/').slice(1).map(unescapePointer);
+    const newRoot = { ...(root || {}) };
+    let node = newRoot;
+    for (let i = 0; i < keys.length - 1; i++) {
+      const child = node[keys[i]];
+      node[keys[i]] = child && typeof child === 'object' ? (Array.isArray(child) ? [...child] : { ...child }) : {};
+      node = node[keys[i]];
+    }
+    const last = keys[keys.length - 1];
+    if (op === 'remove') delete node[last];
+    else node[last] = value;
+    root = newRoot;
+  }
+  return root;
+}
+
 // 全局 WebSocket 连接管理器（单例模式）
 class ProjectionWebSocketManager {
   private ws: WebSocket | null = null;
@@ -7,6 +43,11 @@ class ProjectionWebSocketManager {
   private reconnectTimer: number | null = null;
   private isConnecting = false;
   private url: string;
+  // 各数据源的当前状态与序号（用于应用差分补丁）
+  private states: Map<string, { seq: number; data: any }> = new Map();
+  // 各订阅者需要的状态字段，null 表示全部
+  private topicRequests: Map<number, string[] | null> = new Map();
+  private nextTopicRequestId = 1;
 
   constructor() {
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
@@ -26,11 +67,14 @@ class ProjectionWebSocketManager {
     this.ws.onopen = () => {
       this.isConnecting = false;
       console.log('[ProjectionWebSocket] 全局连接已建立');
+      this.states.clear();
+      this.sendSubscription();
     };
 
     this.ws.onmessage = (ev) => {
       try {
-        const msg = JSON.parse(ev.data);
+        const msg = this.resolveStateMessage(JSON.parse(ev.data));
+        if (!msg) return;
         const timestamp = new Date().toLocaleTimeString();
         
         // 特殊处理事件触发消息，显示更详细的日志
@@ -75,6 +119,58 @@ class ProjectionWebSocketManager {
     };
   }
 
+  // 合并所有订阅者的字段，任一订阅者需要全部字段时订阅全部
+  private getTopics(): string[] | null {
+    const topics = new Set<string>();
+    for (const request of this.topicRequests.values()) {
+      if (!request) return null;
+      request.forEach((t) => topics.add(t));
+    }
+    return topics.size ? Array.from(topics) : null;
+  }
+
+  private sendSubscription() {
+    if (this.ws?.readyState !== WebSocket.OPEN) return;
+    this.ws.send(JSON.stringify({ type: 'state/subscribe', topics: this.getTopics() }));
+  }
+
+  /**
+   * 处理状态快照与补丁，补丁会被还原成完整的 state 消息再分发给监听器
+   */
+  private resolveStateMessage(msg: any) {
+    if (msg?.type === 'state' && typeof msg.seq === 'number') {
+      this.states.set(msg.source, { seq: msg.seq, data: msg.data });
+      return msg;
+    }
+    if (msg?.type !== 'state/patch') return msg;
+    const current = this.states.get(msg.source);
+    if (!current || msg.seq !== current.seq + 1) {
+      // 序号不连续（丢包或重连），请求服务端重新发送快照
+      console.warn('[ProjectionWebSocket] 状态序号不连续，请求快照:', msg.source, current?.seq, msg.seq);
+      this.states.delete(msg.source);
+      this.ws?.send(JSON.stringify({ type: 'state/resync', source: msg.source }));
+      return null;
+    }
+    const data = applyStatePatch(current.data, msg.ops || []);
+    this.states.set(msg.source, { seq: msg.seq, data });
+    return {
+      type: 'state', source: msg.source, primary: msg.primary, seq: msg.seq, data, ts: msg.ts,
+    };
+  }
+
+  /**
+   * 声明需要的状态字段（如 ['player.state', 'round']），返回取消函数
+   */
+  requestTopics(topics: string[] | null) {
+    const id = this.nextTopicRequestId++;
+    this.topicRequests.set(id, topics?.length ? topics : null);
+    this.sendSubscription();
+    return () => {
+      this.topicRequests.delete(id);
+      this.sendSubscription();
+    };
+  }
+
   subscribe(listener: (data: any) => void) {
     console.log('[ProjectionWebSocket] 添加监听器，当前连接数:', this.listeners.size);
     this.listeners.add(listener);
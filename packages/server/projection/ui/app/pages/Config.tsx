@@ -1,5 +1,5 @@
 import {
-  Code, Paper, Stack, Text, Title,
+  Anchor, Badge, Code, Group, Paper, Stack, Text, Title,
 } from '@mantine/core';
 import { useQuery } from '@tanstack/react-query';
 import React from 'react';
@@ -16,6 +16,33 @@ export default function Config() {
       <Title order={2}>配置 / 状态</Title>
       {isLoading && <Text size="sm">加载中...</Text>}
       {error && <Text size="sm" c="red">加载失败：{(error as Error).message}</Text>}
+      {data?.gsi?.sources && (
+        <Paper withBorder p="md" radius="md">
+          <Text size="sm" c="dimmed" mb="xs">
+            GSI 数据源：将 cfg 文件放入 CS2 的 game/csgo/cfg 目录；组件 URL 加上 ?source=名称 可选择数据源
+          </Text>
+          <Stack gap="xs">
+            {data.gsi.sources.map((source: any) => (
+              <Group key={source.name} justify="space-between">
+                <Group gap="xs">
+                  <Text size="sm" fw={600}>{source.name}</Text>
+                  {source.name === data.gsi.primary && <Badge size="sm">主数据源</Badge>}
+                  {source.observer && <Badge size="sm" color="grape">观察者</Badge>}
+                  <Badge size="sm" color={source.isActive ? 'green' : 'gray'}>
+                    {source.isActive ? '在线' : '离线'}
+                  </Badge>
+                </Group>
+                <Anchor
+                  size="sm"
+                  href={`/api/projection/gsi/config?source=${encodeURIComponent(source.name)}&download=1`}
+                >
+                  下载 cfg
+                </Anchor>
+              </Group>
+            ))}
+          </Stack>
+        </Paper>
+      )}
       {data && (
         <Paper withBorder p="md" radius="md">
           <Text size="sm" c="dimmed" mb="xs">
@@ -5,22 +5,16 @@ import { notifications } from '@mantine/notifications';
 import { IconPlus, IconEdit, IconTrash, IconPlay } from '@tabler/icons-react';
 import React, { useState, useEffect } from 'react';
 import { EventConfigModal } from '../components/EventConfigModal';
+import { EventActionConfig, formatActions } from '../utils/eventAction';
+import { formatTrigger, TriggerExpression } from '../utils/eventTrigger';
 
 export interface EventConfig {
   id: string;
   sceneId: string; // 事件所属的场景 ID
   name: string;
   enabled: boolean;
-  trigger: {
-    field: string; // GSI 字段路径，如 "round.phase"
-    operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'contains';
-    value: any;
-  };
-  actions: Array<{
-    widgetName: string; // 组件名称
-    effect: 'show' | 'hide' | 'toggle'; // 效果
-    duration?: number; // 持续时间（秒），0 表示永久
-  }>;
+  trigger: TriggerExpression; // 单条件或 all/any/not 组合表达式
+  actions: EventActionConfig[]; // 组件显示/隐藏、语音播报、Agent、MQTT、Webhook 等动作
   createdAt: number;
   updatedAt: number;
 }
@@ -97,29 +91,6 @@ export default function EventList() {
     loadEvents();
   };
 
-  const formatTrigger = (trigger: EventConfig['trigger']) => {
-    const operatorMap = {
-      equals: '等于',
-      not_equals: '不等于',
-      greater_than: '大于',
-      less_than: '小于',
-      contains: '包含',
-    };
-    return `${trigger.field} ${operatorMap[trigger.operator]} ${JSON.stringify(trigger.value)}`;
-  };
-
-  const formatActions = (actions: EventConfig['actions']) => {
-    return actions.map((action) => {
-      const effectMap = {
-        show: '显示',
-        hide: '隐藏',
-        toggle: '切换',
-      };
-      const duration = action.duration ? `${action.duration}秒` : '永久';
-      return `${action.widgetName} - ${effectMap[action.effect]} (${duration})`;
-    }).join(', ');
-  };
-
   return (
     <Stack gap="lg">
       <Group justify="space-between">
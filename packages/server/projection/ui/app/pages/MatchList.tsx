@@ -0,0 +1,260 @@
+import {
+  ActionIcon, Badge, Button, Card, Group, SegmentedControl, Slider, Stack, Table, Text, Title, Tooltip,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import {
+  IconDownload, IconPlayerPause, IconPlayerPlay, IconPlayerStop, IconRefresh, IconTrash,
+} from '@tabler/icons-react';
+import React, { useEffect, useState } from 'react';
+
+export interface MatchRecording {
+  id: string;
+  map: string | null;
+  mode: string | null;
+  player: string | null;
+  startedAt: number;
+  updatedAt: number;
+  duration: number;
+  size: number;
+  recording: boolean;
+}
+
+export interface ReplayStatus {
+  active: boolean;
+  matchId: string | null;
+  playing: boolean;
+  speed: number;
+  position: number;
+  duration: number;
+  frame: number;
+  frames: number;
+}
+
+function formatDuration(ms: number) {
+  const total = Math.floor(ms / 1000);
+  const minutes = Math.floor(total / 60);
+  const seconds = total % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function MatchList() {
+  const [matches, setMatches] = useState<MatchRecording[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [replay, setReplay] = useState<ReplayStatus | null>(null);
+  // 拖动进度条时暂存位置，松开后再跳转
+  const [seeking, setSeeking] = useState<number | null>(null);
+
+  const loadMatches = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/projection/matches');
+      if (response.ok) {
+        const data = await response.json();
+        setMatches(data.matches || []);
+      }
+    } catch (e) {
+      console.error('加载录制列表失败:', e);
+      notifications.show({
+        title: '加载失败',
+        message: '无法加载对局录制列表',
+        color: 'red',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadReplay = async () => {
+    try {
+      const response = await fetch('/api/projection/replay');
+      if (response.ok) {
+        const data = await response.json();
+        setReplay(data.replay);
+      }
+    } catch (e) {
+      console.error('获取回放状态失败:', e);
+    }
+  };
+
+  const replayAction = async (body: Record<string, any>) => {
+    try {
+      const response = await fetch('/api/projection/replay', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || '操作失败');
+      setReplay(data.replay);
+    } catch (e) {
+      notifications.show({
+        title: '回放操作失败',
+        message: (e as Error).message,
+        color: 'red',
+      });
+    }
+  };
+
+  const handleDelete = async (matchId: string) => {
+    if (!window.confirm('确定要删除这场对局录制吗？')) return;
+    try {
+      const response = await fetch(`/api/projection/matches/${matchId}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('删除失败');
+      notifications.show({
+        title: '删除成功',
+        message: '对局录制已删除',
+        color: 'green',
+      });
+      loadMatches();
+      loadReplay();
+    } catch (e) {
+      notifications.show({
+        title: '删除失败',
+        message: '无法删除对局录制',
+        color: 'red',
+      });
+    }
+  };
+
+  useEffect(() => {
+    loadMatches();
+    loadReplay();
+  }, []);
+
+  // 回放进行中时轮询进度
+  useEffect(() => {
+    if (!replay?.playing) return undefined;
+    const timer = setInterval(loadReplay, 1000);
+    return () => clearInterval(timer);
+  }, [replay?.playing]);
+
+  return (
+    <Stack gap="lg">
+      <Group justify="space-between">
+        <Title order={2}>对局录制</Title>
+        <Button variant="light" leftSection={<IconRefresh size={16} />} onClick={loadMatches}>
+          刷新
+        </Button>
+      </Group>
+
+      {replay?.active && (
+        <Card withBorder padding="md">
+          <Stack gap="sm">
+            <Group justify="space-between">
+              <Group gap="xs">
+                <Badge color={replay.playing ? 'green' : 'yellow'}>{replay.playing ? '回放中' : '已暂停'}</Badge>
+                <Text fw={500}>{replay.matchId}</Text>
+              </Group>
+              <Group gap="xs">
+                <SegmentedControl
+                  size="xs"
+                  data={[{ value: '1', label: '1x' }, { value: '2', label: '2x' }, { value: '4', label: '4x' }]}
+                  value={String(replay.speed)}
+                  onChange={(speed) => replayAction({ action: 'speed', speed: Number(speed) })}
+                />
+                {replay.playing ? (
+                  <ActionIcon variant="light" onClick={() => replayAction({ action: 'pause' })}>
+                    <IconPlayerPause size={16} />
+                  </ActionIcon>
+                ) : (
+                  <ActionIcon variant="light" color="green" onClick={() => replayAction({ action: 'resume' })}>
+                    <IconPlayerPlay size={16} />
+                  </ActionIcon>
+                )}
+                <ActionIcon variant="light" color="red" onClick={() => replayAction({ action: 'stop' })}>
+                  <IconPlayerStop size={16} />
+                </ActionIcon>
+              </Group>
+            </Group>
+            <Slider
+              min={0}
+              max={Math.max(replay.duration, 1)}
+              step={1000}
+              value={seeking ?? replay.position}
+              label={(value) => formatDuration(value)}
+              onChange={setSeeking}
+              onChangeEnd={(offset) => {
+                setSeeking(null);
+                replayAction({ action: 'seek', offset });
+              }}
+            />
+            <Text size="xs" c="dimmed">
+              {formatDuration(seeking ?? replay.position)} / {formatDuration(replay.duration)}，
+              回放期间实时 GSI 数据只录制，不推送到前端
+            </Text>
+          </Stack>
+        </Card>
+      )}
+
+      {loading ? (
+        <Text c="dimmed">加载中...</Text>
+      ) : matches.length === 0 ? (
+        <Card p="xl" ta="center">
+          <Text c="dimmed">还没有录制任何对局，进入游戏后 GSI 数据会自动录制</Text>
+        </Card>
+      ) : (
+        <Table striped highlightOnHover>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>开始时间</Table.Th>
+              <Table.Th>地图</Table.Th>
+              <Table.Th>玩家</Table.Th>
+              <Table.Th>时长</Table.Th>
+              <Table.Th>大小</Table.Th>
+              <Table.Th />
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {matches.map((match) => (
+              <Table.Tr key={match.id}>
+                <Table.Td>
+                  <Group gap="xs">
+                    <Text size="sm">{new Date(match.startedAt).toLocaleString()}</Text>
+                    {match.recording && <Badge color="red" size="sm">录制中</Badge>}
+                  </Group>
+                </Table.Td>
+                <Table.Td>{match.map || '-'}{match.mode ? ` (${match.mode})` : ''}</Table.Td>
+                <Table.Td>{match.player || '-'}</Table.Td>
+                <Table.Td>{formatDuration(match.duration)}</Table.Td>
+                <Table.Td>{formatSize(match.size)}</Table.Td>
+                <Table.Td>
+                  <Group gap="xs" justify="flex-end">
+                    <Tooltip label="回放">
+                      <ActionIcon
+                        variant="light"
+                        color="green"
+                        onClick={() => replayAction({ action: 'start', matchId: match.id, speed: replay?.speed || 1 })}
+                      >
+                        <IconPlayerPlay size={16} />
+                      </ActionIcon>
+                    </Tooltip>
+                    <Tooltip label="下载">
+                      <ActionIcon
+                        variant="light"
+                        component="a"
+                        href={`/api/projection/matches/${match.id}`}
+                        download={`${match.id}.ndjson`}
+                      >
+                        <IconDownload size={16} />
+                      </ActionIcon>
+                    </Tooltip>
+                    <Tooltip label="删除">
+                      <ActionIcon variant="light" color="red" onClick={() => handleDelete(match.id)}>
+                        <IconTrash size={16} />
+                      </ActionIcon>
+                    </Tooltip>
+                  </Group>
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      )}
+    </Stack>
+  );
+}
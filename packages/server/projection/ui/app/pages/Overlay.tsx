@@ -14,9 +14,7 @@ import {
   IconSword, IconShield, IconClockHour4, IconBomb,
 } from '@tabler/icons-react';
 import React, { useEffect, useState } from 'react';
-import { useProjectionMessage, useProjectionWebSocket } from '../hooks/useProjectionWebSocket';
-
-type Cs2State = any;
+import { useCs2State } from '../hooks/useCs2State';
 
 function InfoRow({ label, value }: { label: string; value: React.ReactNode }) {
   return (
@@ -32,27 +30,11 @@ function InfoRow({ label, value }: { label: string; value: React.ReactNode }) {
 }
 
 export default function Overlay() {
-  const [state, setState] = useState<Cs2State | null>(null);
-  const { connected } = useProjectionWebSocket();
+  const { state, connected } = useCs2State();
   const [bombFlashOn, setBombFlashOn] = useState(false);
   const [bombSecondsLeft, setBombSecondsLeft] = useState<number | null>(null);
   const [bombPlantedAt, setBombPlantedAt] = useState<number | null>(null);
 
-  // 使用共享的 WebSocket 连接监听 state 消息
-  useProjectionMessage('state', (data: any) => {
-    setState(data || null);
-  });
-
-  // 初次加载时通过 REST 拉一次（避免没有推送时界面是空的）
-  useEffect(() => {
-    fetch('/api/projection/state')
-      .then((res) => res.json())
-      .then((data) => {
-        if (data?.state) setState(data.state);
-      })
-      .catch(() => {});
-  }, []);
-
   const player = state?.player || {};
   const round = state?.round || {};
   const map = state?.map || {};
@@ -8,6 +8,8 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { SceneConfigModal } from '../components/SceneConfigModal';
 import { EventConfigModal } from '../components/EventConfigModal';
 import { EventConfig } from './EventList';
+import { formatActions } from '../utils/eventAction';
+import { formatTrigger } from '../utils/eventTrigger';
 
 export interface SceneConfig {
   id: string;
@@ -178,17 +180,6 @@ export default function SceneDetail() {
     loadEvents();
   };
 
-  const formatTrigger = (trigger: EventConfig['trigger']) => {
-    const operatorMap = {
-      equals: '等于',
-      not_equals: '不等于',
-      greater_than: '大于',
-      less_than: '小于',
-      contains: '包含',
-    };
-    return `${trigger.field} ${operatorMap[trigger.operator]} ${JSON.stringify(trigger.value)}`;
-  };
-
   if (loading) {
     return <Text c="dimmed">加载中...</Text>;
   }
@@ -300,11 +291,7 @@ export default function SceneDetail() {
                           触发: {formatTrigger(event.trigger)}
                         </Text>
                         <Text size="xs" c="dimmed">
-                          动作: {event.actions.map(a => {
-                            const effectMap = { show: '显示', hide: '隐藏', toggle: '切换' };
-                            const duration = a.duration ? `${a.duration}秒` : '永久';
-                            return `${a.widgetName} - ${effectMap[a.effect]} (${duration})`;
-                          }).join(', ')}
+                          动作: {formatActions(event.actions)}
                         </Text>
                       </Box>
                     </Group>
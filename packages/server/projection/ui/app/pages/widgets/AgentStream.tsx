@@ -26,7 +26,7 @@ export default function AgentStream({ config }: AgentStreamProps) {
   // 合并事件系统和手动控制的可见性
   const isVisible = eventVisible || manualVisible;
   
-  const { state } = useCs2State();
+  const { state } = useCs2State({ topics: ['round.phase'] });
   const round = state?.round || {};
   const roundPhase = round?.phase || '';
   
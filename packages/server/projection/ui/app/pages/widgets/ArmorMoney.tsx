@@ -16,7 +16,7 @@ export default function ArmorMoney({ config }: ArmorMoneyProps) {
   const [searchParams] = useSearchParams();
   const isPreview = searchParams.get('preview') === 'true';
   
-  const { state } = useCs2State();
+  const { state } = useCs2State({ topics: ['player.state.armor', 'player.state.money'] });
   const player = state?.player || {};
   const armor = Number(player?.state?.armor ?? 0);
   const money = Number(player?.state?.money ?? 0);
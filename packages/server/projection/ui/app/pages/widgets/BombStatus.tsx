@@ -16,7 +16,7 @@ export default function BombStatus({ config }: BombStatusProps) {
   
   const [searchParams] = useSearchParams();
   const isPreview = searchParams.get('preview') === 'true';
-  const { state } = useCs2State();
+  const { state } = useCs2State({ topics: ['bomb', 'round.bomb'] });
   const round = state?.round || {};
   const bomb = state?.bomb || {};
   const [bombFlashOn, setBombFlashOn] = useState(false);
@@ -22,7 +22,7 @@ export default function EmojiDisplay({ config }: EmojiDisplayProps) {
   const liveStartTimeRef = useRef<number | null>(null);
   const roundPhaseRef = useRef<string>('');
   
-  const { state } = useCs2State();
+  const { state } = useCs2State({ topics: ['round.phase'] });
   const round = state?.round || {};
   const roundPhase = round?.phase || '';
   
@@ -29,7 +29,7 @@ export default function FaceitStats({ config }: FaceitStatsProps) {
   const [searchParams] = useSearchParams();
   const isPreview = searchParams.get('preview') === 'true';
   const nickname = searchParams.get('nickname') || '';
-  const { state } = useCs2State();
+  const { state } = useCs2State({ topics: ['round.phase'] });
   const round = state?.round || {};
   const roundPhase = round?.phase || '';
 
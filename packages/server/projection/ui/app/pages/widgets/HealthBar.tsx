@@ -17,15 +17,16 @@ export default function HealthBar({ config }: HealthBarProps) {
   const [searchParams] = useSearchParams();
   const isPreview = searchParams.get('preview') === 'true';
   
-  const { state } = useCs2State();
-  const hp = Number(getDataFieldValue(state, 'player.state.health') ?? 0);
-
   const style = config?.style || {};
   const progressConfig = config?.progress || {};
   const iconConfig = config?.icon || {};
   const textConfig = config?.text || {};
   const texts = config?.texts || {};
 
+  // 只订阅血量与文字字段用到的数据
+  const { state } = useCs2State({ topics: ['player.state.health', texts.hpLabel?.dataField || 'player.state.health'] });
+  const hp = Number(getDataFieldValue(state, 'player.state.health') ?? 0);
+
   // 获取HP标签文本
   const hpLabelConfig = texts.hpLabel || {
     dataField: 'player.state.health',
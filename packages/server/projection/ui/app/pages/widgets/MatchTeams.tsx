@@ -99,7 +99,7 @@ export default function MatchTeams({ config }: MatchTeamsProps) {
   const { isVisible: eventVisible } = useEventSystem('matchteams', true, false);
   const [searchParams] = useSearchParams();
   const isPreview = searchParams.get('preview') === 'true';
-  const { state } = useCs2State();
+  const { state } = useCs2State({ topics: ['round.phase', 'allplayers', 'map.team_ct.name', 'map.team_t.name'] });
   const round = state?.round || {};
   const roundPhase = round?.phase || '';
 
@@ -102,7 +102,7 @@ export default function MyTeam({ config }: MyTeamProps) {
   const { isVisible: eventVisible } = useEventSystem('myteam', true, false);
   const [searchParams] = useSearchParams();
   const isPreview = searchParams.get('preview') === 'true';
-  const { state } = useCs2State();
+  const { state } = useCs2State({ topics: ['round.phase', 'player.name', 'player.team', 'map.team_ct.name', 'map.team_t.name'] });
   const round = state?.round || {};
   const roundPhase = round?.phase || '';
   const player = state?.player || {};
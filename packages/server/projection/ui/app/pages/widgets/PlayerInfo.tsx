@@ -16,16 +16,22 @@ export default function PlayerInfo({ config }: PlayerInfoProps) {
   const [searchParams] = useSearchParams();
   const isPreview = searchParams.get('preview') === 'true';
   
-  const { state } = useCs2State();
-
   const style = config?.style || {};
-  
+  const texts = config?.texts || {};
+
+  // 只订阅文字字段用到的数据
+  const { state } = useCs2State({
+    topics: [
+      texts.playerName?.dataField || 'player.name',
+      texts.team?.dataField || 'player.team',
+    ],
+  });
+
   if (!isVisible && !isPreview) {
     return null;
   }
   const titleConfig = config?.title || {};
   const textConfig = config?.text || {};
-  const texts = config?.texts || {};
 
   // 获取玩家名称
   const playerNameConfig = texts.playerName || {
@@ -27,7 +27,7 @@ export default function PlayerStats({ config }: PlayerStatsProps) {
   const { isVisible } = useEventSystem('stats', true, false);
   const [searchParams] = useSearchParams();
   const isPreview = searchParams.get('preview') === 'true';
-  const { state } = useCs2State();
+  const { state } = useCs2State({ topics: ['player.match_stats', 'derived.player'] });
   const player = state?.player || {};
   const matchStats = player?.match_stats || {};
 
@@ -37,6 +37,9 @@ export default function PlayerStats({ config }: PlayerStatsProps) {
   const mvps = matchStats.mvps ?? 0;
   const score = matchStats.score ?? 0;
 
+  // 服务端统计引擎计算的衍生数据（derived.*）
+  const derived = state?.derived?.player;
+
   // 计算 K/D 比
   const kdRatio = deaths > 0 ? (kills / deaths).toFixed(2) : kills > 0 ? kills.toFixed(2) : '0.00';
 
@@ -70,6 +73,13 @@ export default function PlayerStats({ config }: PlayerStatsProps) {
         <StatItem label="K/D" value={isPreview ? '1.88' : kdRatio} color="yellow" />
         <StatItem label="MVP" value={isPreview ? 2 : mvps} color="orange" />
         <StatItem label="得分" value={isPreview ? 1250 : score} color="cyan" />
+        {(derived || isPreview) && (
+          <>
+            <StatItem label="ADR" value={isPreview ? '85.3' : derived.adr.toFixed(1)} color="grape" />
+            <StatItem label="爆头率" value={isPreview ? '46%' : `${Math.round(derived.hsPercent)}%`} color="pink" />
+            <StatItem label="KAST" value={isPreview ? '72%' : `${Math.round(derived.kast)}%`} color="teal" />
+          </>
+        )}
       </Stack>
     </Paper>
   );
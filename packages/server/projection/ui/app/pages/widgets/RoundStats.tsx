@@ -27,7 +27,7 @@ export default function RoundStats({ config }: RoundStatsProps) {
   const { isVisible: eventVisible } = useEventSystem('round', true, false);
   const [searchParams] = useSearchParams();
   const isPreview = searchParams.get('preview') === 'true';
-  const { state } = useCs2State();
+  const { state } = useCs2State({ topics: ['player.state', 'round.phase', 'round.round'] });
   const player = state?.player || {};
   const round = state?.round || {};
   const playerState = player?.state || {};
@@ -16,14 +16,21 @@ export default function Score({ config }: ScoreProps) {
   const [searchParams] = useSearchParams();
   const isPreview = searchParams.get('preview') === 'true';
   
-  const { state } = useCs2State();
-
   const style = config?.style || {};
   const textSize = config?.textSize || 'sm';
   const tColor = config?.tColor || 'yellow';
   const ctColor = config?.ctColor || 'cyan';
   const texts = config?.texts || {};
 
+  // 只订阅文字字段用到的数据
+  const { state } = useCs2State({
+    topics: [
+      texts.mapName?.dataField || 'map.name',
+      texts.tScore?.dataField || 'map.team_t.score',
+      texts.ctScore?.dataField || 'map.team_ct.score',
+    ],
+  });
+
   // 获取地图名称
   const mapNameConfig = texts.mapName || {
     dataField: 'map.name',
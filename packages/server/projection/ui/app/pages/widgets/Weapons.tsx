@@ -49,7 +49,7 @@ export default function Weapons({ config }: WeaponsProps) {
 
   const [searchParams] = useSearchParams();
   const isPreview = searchParams.get('preview') === 'true';
-  const { state } = useCs2State();
+  const { state } = useCs2State({ topics: ['player.weapons'] });
   const player = state?.player || {};
   const weapons = player?.weapons || {};
 
@@ -0,0 +1,63 @@
+// 事件动作定义（与服务端 projection/actions.ts 保持一致）
+
+export type EventActionType = 'widget' | 'tts' | 'agent' | 'mqtt' | 'webhook';
+
+export interface EventActionConfig {
+  type?: EventActionType; // 缺省为 widget
+  widgetName?: string; // 组件名称（widget）
+  effect?: 'show' | 'hide' | 'toggle'; // 效果（widget）
+  duration?: number; // 持续时间（秒），0 表示永久（widget）
+  params?: Record<string, any>; // 其他动作类型的参数，字符串支持 {{GSI 字段}} 模板
+}
+
+export const actionTypeOptions: Array<{ value: EventActionType; label: string }> = [
+  { value: 'widget', label: '组件显示/隐藏' },
+  { value: 'tts', label: '语音播报' },
+  { value: 'agent', label: '发送给 Agent' },
+  { value: 'mqtt', label: 'MQTT 发布' },
+  { value: 'webhook', label: 'Webhook 请求' },
+];
+
+const effectLabels = { show: '显示', hide: '隐藏', toggle: '切换' };
+
+export function createDefaultAction(type: EventActionType = 'widget'): EventActionConfig {
+  switch (type) {
+    case 'tts':
+      return { type, params: { text: '{{player.name}} 本回合 {{player.state.round_kills}} 杀' } };
+    case 'agent':
+      return { type, params: { prompt: '第 {{map.round}} 回合结束，请点评一下', includeState: false } };
+    case 'mqtt':
+      return { type, params: { url: '', topic: 'zigbee2mqtt/room_light/set', payload: '{"effect":"blink"}' } };
+    case 'webhook':
+      return { type, params: { url: '', method: 'POST', body: '' } };
+    default:
+      return {
+        type: 'widget', widgetName: 'agentstream', effect: 'hide', duration: 10,
+      };
+  }
+}
+
+/**
+ * 生成动作的可读描述
+ */
+export function formatAction(action: EventActionConfig): string {
+  const type = action.type || 'widget';
+  switch (type) {
+    case 'tts':
+      return `播报 "${action.params?.text || ''}"`;
+    case 'agent':
+      return `Agent: ${action.params?.prompt || ''}`;
+    case 'mqtt':
+      return `MQTT ${action.params?.topic || ''}`;
+    case 'webhook':
+      return `${String(action.params?.method || 'POST').toUpperCase()} ${action.params?.url || ''}`;
+    default: {
+      const duration = action.duration ? `${action.duration}秒` : '永久';
+      return `${action.widgetName} - ${effectLabels[action.effect || 'show']} (${duration})`;
+    }
+  }
+}
+
+export function formatActions(actions: EventActionConfig[]): string {
+  return actions.map(formatAction).join(', ');
+}
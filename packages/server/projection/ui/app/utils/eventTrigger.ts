@@ -0,0 +1,97 @@
+// 事件触发表达式定义（与服务端 projection/trigger.ts 保持一致）
+
+export type TriggerOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'greater_than'
+  | 'less_than'
+  | 'contains'
+  | 'changed'
+  | 'changed_from_to';
+
+export interface TriggerCondition {
+  field: string; // GSI 字段路径，如 "round.phase"
+  operator: TriggerOperator;
+  value?: any;
+  from?: any; // changed_from_to 使用
+  to?: any; // changed_from_to 使用
+  forMs?: number; // 条件需持续满足的毫秒数
+}
+
+export interface TriggerAll { all: TriggerExpression[]; forMs?: number }
+export interface TriggerAny { any: TriggerExpression[]; forMs?: number }
+export interface TriggerNot { not: TriggerExpression; forMs?: number }
+
+export type TriggerExpression = TriggerCondition | TriggerAll | TriggerAny | TriggerNot;
+
+export type TriggerNodeType = 'condition' | 'all' | 'any' | 'not';
+
+export const operatorOptions: Array<{ value: TriggerOperator; label: string }> = [
+  { value: 'equals', label: '等于' },
+  { value: 'not_equals', label: '不等于' },
+  { value: 'greater_than', label: '大于' },
+  { value: 'less_than', label: '小于' },
+  { value: 'contains', label: '包含' },
+  { value: 'changed', label: '发生变化' },
+  { value: 'changed_from_to', label: '从…变为…' },
+];
+
+const operatorLabels: Record<TriggerOperator, string> = Object.fromEntries(
+  operatorOptions.map((o) => [o.value, o.label]),
+) as Record<TriggerOperator, string>;
+
+export function getTriggerNodeType(expr: TriggerExpression): TriggerNodeType {
+  if ('all' in expr) return 'all';
+  if ('any' in expr) return 'any';
+  if ('not' in expr) return 'not';
+  return 'condition';
+}
+
+export function createDefaultCondition(): TriggerCondition {
+  return { field: 'round.phase', operator: 'equals', value: 'live' };
+}
+
+/**
+ * 切换节点类型时，尽量保留已有的子条件
+ */
+export function convertTriggerNode(expr: TriggerExpression, type: TriggerNodeType): TriggerExpression {
+  const current = getTriggerNodeType(expr);
+  if (current === type) return expr;
+  const children: TriggerExpression[] = current === 'all'
+    ? (expr as TriggerAll).all
+    : current === 'any'
+      ? (expr as TriggerAny).any
+      : current === 'not'
+        ? [(expr as TriggerNot).not]
+        : [expr];
+  const forMs = current === 'condition' ? undefined : expr.forMs;
+  switch (type) {
+    case 'all':
+      return { all: children, forMs };
+    case 'any':
+      return { any: children, forMs };
+    case 'not':
+      return { not: children[0] || createDefaultCondition(), forMs };
+    default:
+      return children[0] && getTriggerNodeType(children[0]) === 'condition'
+        ? children[0]
+        : createDefaultCondition();
+  }
+}
+
+/**
+ * 生成触发表达式的可读描述
+ */
+export function formatTrigger(expr: TriggerExpression): string {
+  if (!expr) return '';
+  const withHold = (text: string) => (expr.forMs ? `${text} 持续 ${expr.forMs}ms` : text);
+  if ('all' in expr) return withHold(`(${expr.all.map(formatTrigger).join(' 且 ')})`);
+  if ('any' in expr) return withHold(`(${expr.any.map(formatTrigger).join(' 或 ')})`);
+  if ('not' in expr) return withHold(`非 ${formatTrigger(expr.not)}`);
+  const label = operatorLabels[expr.operator] || expr.operator;
+  if (expr.operator === 'changed') return withHold(`${expr.field} ${label}`);
+  if (expr.operator === 'changed_from_to') {
+    return withHold(`${expr.field} 从 ${JSON.stringify(expr.from ?? '任意')} 变为 ${JSON.stringify(expr.to ?? '任意')}`);
+  }
+  return withHold(`${expr.field} ${label} ${JSON.stringify(expr.value)}`);
+}
@@ -0,0 +1,363 @@
+import { Context, Service } from 'cordis';
+import { Logger } from '../utils';
+import { config } from '../config';
+import type { AutomationRuleDoc, AutomationTrigger } from '../interface';
+import {
+    describeAutomationTrigger, getSunTimes, matchCron, matchMqttTopic, normalizeAutomationRule, parseCron,
+    renderAutomationValue,
+} from '../model/automation';
+import { callNodeTool } from '../mcp-tools/node';
+import { enforceToolPolicy } from '../model/mcp-policy';
+import { createTriggerRuntime, evaluateTrigger, getNestedValue, TriggerCondition } from '../projection/trigger';
+
+declare module 'cordis' {
+    interface Context {
+        automation: AutomationService;
+    }
+
+    interface Events {
+        'automation/run': (run: { ruleId: string; name: string } & AutomationRuleDoc['lastRun']) => void;
+    }
+}
+
+const LEVEL_OPERATORS = ['equals', 'not_equals', 'greater_than', 'less_than', 'contains'];
+
+// 自动化配置只存在于节点配置中
+function automationConfig() {
+    return 'automation' in config ? config.automation : null;
+}
+
+/**
+ * 节点本地自动化：规则保存在 automation 集合中，在节点本地响应设备状态、定时、日出日落与 MQTT 消息，
+ * 上游离线时同样生效。动作按顺序执行，同一规则上一次执行未结束时忽略新的触发
+ */
+export default class AutomationService extends Service<Context> {
+    private readonly logger = new Logger('automation');
+    private rules: AutomationRuleDoc[] = [];
+    private crons = new Map<string, ReturnType<typeof parseCron>>();
+    // 设备的上一次状态（用于变化与阈值判断）
+    private deviceStates = new Map<string, any>();
+    private running = new Map<string, AbortController>();
+    private lastTriggered = new Map<string, number>();
+    private sunCache: { day: string; sunrise: Date | null; sunset: Date | null } | null = null;
+    private tickTimer?: NodeJS.Timeout;
+    private disposers: Array<() => void> = [];
+
+    constructor(ctx: Context) {
+        super(ctx, 'automation');
+    }
+
+    // 返回的函数由 cordis 在插件卸载时调用
+    async [Service.init](): Promise<(() => void) | void> {
+        if (automationConfig()?.enabled === false) {
+            this.logger.info('本地自动化已禁用');
+            return;
+        }
+        await this.reload();
+        this.disposers.push(
+            this.ctx.on('zigbee2mqtt/deviceState', (deviceId, data) => this.onDeviceState(deviceId, data)),
+            this.ctx.on('zigbee2mqtt/message', (topic, data) => this.onMessage(topic, data)),
+            this.ctx.on('zigbee2mqtt/connected', () => this.syncSubscriptions()),
+        );
+        this.scheduleTick();
+        this.logger.info('本地自动化已启动，共 %d 条规则', this.rules.length);
+        return () => this.stop();
+    }
+
+    private stop() {
+        if (this.tickTimer) clearTimeout(this.tickTimer);
+        for (const dispose of this.disposers) {
+            try { dispose?.(); } catch { /* ignore */ }
+        }
+        for (const controller of this.running.values()) controller.abort();
+        this.running.clear();
+    }
+
+    private get z2m() {
+        const svc = this.ctx.zigbee2mqtt;
+        if (!svc) throw new Error('Zigbee2MQTT 服务未初始化');
+        return svc;
+    }
+
+    // 重新读取规则，并更新 cron 缓存与 MQTT 订阅
+    async reload() {
+        this.rules = await this.ctx.db.automation.find({});
+        this.crons.clear();
+        for (const rule of this.rules) {
+            rule.triggers.forEach((trigger, index) => {
+                if (trigger.type !== 'schedule') return;
+                try {
+                    this.crons.set(`${rule._id}:${index}`, parseCron(trigger.cron));
+                } catch (e) {
+                    this.logger.warn('规则 %s 的 cron 无效: %s', rule.name, (e as Error).message);
+                }
+            });
+        }
+        this.syncSubscriptions();
+    }
+
+    private syncSubscriptions() {
+        const topics = this.rules
+            .filter((rule) => rule.enabled)
+            .flatMap((rule) => rule.triggers.filter((t) => t.type === 'mqtt').map((t) => t.topic));
+        try {
+            this.z2m.subscribeTopics(topics);
+        } catch { /* 服务未就绪时，连接后重新订阅 */ }
+    }
+
+    getLocation() {
+        const { latitude, longitude } = automationConfig() || {};
+        if (typeof latitude !== 'number' || typeof longitude !== 'number') return null;
+        return { latitude, longitude };
+    }
+
+    getSunTimes(date = new Date()) {
+        const location = this.getLocation();
+        if (!location) return null;
+        const day = date.toDateString();
+        if (this.sunCache?.day !== day) {
+            this.sunCache = { day, ...getSunTimes(date, location.latitude, location.longitude) };
+        }
+        return { sunrise: this.sunCache.sunrise, sunset: this.sunCache.sunset };
+    }
+
+    // 每分钟整点检查 cron 与日出日落触发器
+    private scheduleTick() {
+        const delay = 60000 - (Date.now() % 60000) + 50;
+        this.tickTimer = setTimeout(() => {
+            this.scheduleTick();
+            this.onTick(new Date());
+        }, delay);
+        this.tickTimer.unref?.();
+    }
+
+    private onTick(now: Date) {
+        const minute = Math.floor(now.getTime() / 60000);
+        const sun = this.getSunTimes(now);
+        for (const rule of this.rules) {
+            if (!rule.enabled) continue;
+            rule.triggers.forEach((trigger, index) => {
+                if (trigger.type === 'schedule') {
+                    const cron = this.crons.get(`${rule._id}:${index}`);
+                    if (cron && matchCron(cron, now)) this.fire(rule, trigger, { cron: trigger.cron });
+                } else if (trigger.type === 'sun' && sun) {
+                    const base = sun[trigger.event];
+                    if (!base) return;
+                    const at = base.getTime() + (Number(trigger.offset) || 0) * 60000;
+                    if (Math.floor(at / 60000) === minute) this.fire(rule, trigger, { event: trigger.event, at: new Date(at).toISOString() });
+                }
+            });
+        }
+    }
+
+    // 触发器带 field/operator 时：变化类条件按前后状态判断，其余条件在由不满足变为满足时触发
+    private matchValueTrigger(trigger: AutomationTrigger, state: any, prevState: any, edge: boolean) {
+        if (!trigger.field) return true;
+        const cond: TriggerCondition = {
+            field: trigger.field,
+            operator: trigger.operator || 'changed',
+            value: trigger.value,
+            from: trigger.from,
+            to: trigger.to,
+        };
+        const now = evaluateTrigger(cond, state, prevState, createTriggerRuntime()).result;
+        if (!now || !edge || !LEVEL_OPERATORS.includes(cond.operator)) return now;
+        return prevState == null || !evaluateTrigger(cond, prevState, null, createTriggerRuntime()).result;
+    }
+
+    private onDeviceState(deviceId: string, data: any) {
+        const prev = this.deviceStates.get(deviceId);
+        this.deviceStates.set(deviceId, data);
+        if (!data || typeof data !== 'object') return;
+        for (const rule of this.rules) {
+            if (!rule.enabled) continue;
+            for (const trigger of rule.triggers) {
+                if (trigger.type !== 'device' || trigger.deviceId !== deviceId) continue;
+                if (!this.matchValueTrigger(trigger, data, prev, true)) continue;
+                this.fire(rule, trigger, {
+                    deviceId,
+                    field: trigger.field,
+                    value: trigger.field ? getNestedValue(data, trigger.field) : undefined,
+                    previous: trigger.field && prev ? getNestedValue(prev, trigger.field) : undefined,
+                    state: data,
+                });
+                break;
+            }
+        }
+    }
+
+    private onMessage(topic: string, data: any) {
+        const payload = data && typeof data === 'object' ? data : { value: data };
+        for (const rule of this.rules) {
+            if (!rule.enabled) continue;
+            for (const trigger of rule.triggers) {
+                if (trigger.type !== 'mqtt' || !matchMqttTopic(trigger.topic, topic)) continue;
+                if (!this.matchValueTrigger(trigger, payload, null, false)) continue;
+                this.fire(rule, trigger, { topic, payload: data });
+                break;
+            }
+        }
+    }
+
+    private buildScope(trigger: Record<string, any>) {
+        const now = new Date();
+        const devices: Record<string, any> = {};
+        try {
+            for (const [id, state] of this.z2m.state.deviceStates) devices[id] = state;
+        } catch {
+            for (const [id, state] of this.deviceStates) devices[id] = state;
+        }
+        const sun = this.getSunTimes(now);
+        const clock = (date: Date | null) => (date ? `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}` : null);
+        return {
+            devices,
+            trigger,
+            time: {
+                hour: now.getHours(),
+                minute: now.getMinutes(),
+                weekday: now.getDay(),
+                hhmm: now.getHours() * 100 + now.getMinutes(),
+            },
+            sun: sun ? {
+                sunrise: clock(sun.sunrise),
+                sunset: clock(sun.sunset),
+                up: !!sun.sunrise && !!sun.sunset && now >= sun.sunrise && now < sun.sunset,
+            } : null,
+            now: now.toISOString(),
+        };
+    }
+
+    private fire(rule: AutomationRuleDoc, trigger: AutomationTrigger, detail: Record<string, any>) {
+        if (this.running.has(rule._id)) {
+            this.logger.debug('规则 %s 仍在执行，忽略本次触发', rule.name);
+            return;
+        }
+        const last = this.lastTriggered.get(rule._id) || 0;
+        if (rule.cooldown && Date.now() - last < rule.cooldown * 1000) return;
+        const scope = this.buildScope({ type: trigger.type, description: describeAutomationTrigger(trigger), ...detail });
+        if (rule.condition && !evaluateTrigger(rule.condition, scope, null, createTriggerRuntime()).result) {
+            this.logger.debug('规则 %s 条件不满足', rule.name);
+            return;
+        }
+        this.lastTriggered.set(rule._id, Date.now());
+        void this.execute(rule, scope).catch(() => {});
+    }
+
+    private async execute(rule: AutomationRuleDoc, scope: any) {
+        const controller = new AbortController();
+        this.running.set(rule._id, controller);
+        const startedAt = Date.now();
+        this.logger.info('执行规则 %s（%s）', rule.name, scope.trigger.description);
+        let error: Error | null = null;
+        try {
+            for (const action of rule.actions) {
+                if (controller.signal.aborted) throw new Error('已取消');
+                await this.runAction(rule, action, scope, controller.signal);
+            }
+        } catch (e) {
+            error = e as Error;
+            this.logger.error('规则 %s 执行失败: %s', rule.name, error.message);
+        } finally {
+            this.running.delete(rule._id);
+        }
+        const lastRun = {
+            at: startedAt,
+            status: error ? 'error' : 'success',
+            trigger: scope.trigger.description,
+            duration: Date.now() - startedAt,
+            ...(error ? { error: error.message } : {}),
+        } as AutomationRuleDoc['lastRun'];
+        rule.lastRun = lastRun;
+        await this.ctx.db.automation.update({ _id: rule._id }, { $set: { lastRun } }).catch(() => {});
+        try { this.ctx.emit('automation/run', { ruleId: rule._id, name: rule.name, ...lastRun }); } catch { /* ignore */ }
+        if (error) throw error;
+        return lastRun;
+    }
+
+    private async runAction(rule: AutomationRuleDoc, action: any, scope: any, signal: AbortSignal) {
+        switch (action.type) {
+        case 'device':
+            await this.z2m.setDeviceState(renderAutomationValue(action.deviceId, scope), renderAutomationValue(action.payload, scope));
+            return;
+        case 'mqtt':
+            await this.z2m.publish(renderAutomationValue(action.topic, scope), renderAutomationValue(action.payload ?? '', scope), { retain: !!action.retain });
+            return;
+        case 'tool': {
+            const args = renderAutomationValue(action.arguments || {}, scope);
+            await enforceToolPolicy(this.ctx, { tool: action.tool, args, caller: { name: 'automation' }, signal });
+            await callNodeTool(this.ctx, { name: action.tool, arguments: args });
+            return;
+        }
+        case 'delay':
+            await new Promise<void>((resolve, reject) => {
+                const onAbort = () => {
+                    clearTimeout(timer);
+                    reject(new Error('已取消'));
+                };
+                const timer = setTimeout(() => {
+                    signal.removeEventListener('abort', onAbort);
+                    resolve();
+                }, Number(action.seconds) * 1000);
+                signal.addEventListener('abort', onAbort, { once: true });
+            });
+            return;
+        default:
+            throw new Error(`不支持的动作类型: ${action.type}`);
+        }
+    }
+
+    async listRules() {
+        const rules = await this.ctx.db.automation.find({}).sort({ createdAt: 1 });
+        return rules.map((rule) => ({ ...rule, running: this.running.has(rule._id) }));
+    }
+
+    getRule(id: string) {
+        return this.ctx.db.automation.findOne({ _id: id });
+    }
+
+    // 新建（无 id）或更新规则，输入无效时抛出错误
+    async saveRule(input: any) {
+        const rule = normalizeAutomationRule(input);
+        const id = input?._id || input?.id;
+        const now = Date.now();
+        let doc: AutomationRuleDoc;
+        if (id) {
+            const existing = await this.getRule(id);
+            if (!existing) throw new Error(`规则不存在: ${id}`);
+            await this.ctx.db.automation.update({ _id: id }, { $set: { ...rule, updatedAt: now } });
+            doc = await this.getRule(id);
+        } else {
+            doc = await this.ctx.db.automation.insert({ ...rule, createdAt: now, updatedAt: now } as any);
+        }
+        await this.reload();
+        this.logger.info('规则已保存: %s', doc.name);
+        return doc;
+    }
+
+    async removeRule(id: string) {
+        const removed = await this.ctx.db.automation.remove({ _id: id }, {});
+        this.running.get(id)?.abort();
+        await this.reload();
+        return removed > 0;
+    }
+
+    async setEnabled(id: string, enabled: boolean) {
+        const updated = await this.ctx.db.automation.update({ _id: id }, { $set: { enabled: !!enabled, updatedAt: Date.now() } });
+        await this.reload();
+        return updated > 0;
+    }
+
+    /**
+     * 手动执行规则（忽略触发器与冷却时间）；check 为 true 时仍检查条件
+     */
+    async runRule(id: string, options: { check?: boolean } = {}) {
+        const rule = this.rules.find((r) => r._id === id) || await this.getRule(id);
+        if (!rule) throw new Error(`规则不存在: ${id}`);
+        if (this.running.has(rule._id)) throw new Error(`规则 ${rule.name} 正在执行`);
+        const scope = this.buildScope({ type: 'manual', description: '手动执行' });
+        if (options.check && rule.condition && !evaluateTrigger(rule.condition, scope, null, createTriggerRuntime()).result) {
+            return { executed: false, reason: '条件不满足' };
+        }
+        return { executed: true, result: await this.execute(rule, scope) };
+    }
+}
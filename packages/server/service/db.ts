@@ -2,18 +2,25 @@ import path from 'node:path';
 import { Context, Service } from 'cordis';
 import Datastore from 'nedb-promises';
 import {
-    MCPLogDoc, MCPServerDoc, MCPToolDoc, VTuberAuthTokenDoc, WidgetConfigDoc, EventConfigDoc, SceneConfigDoc,
+    MCPCallDoc, MCPLogDoc, MCPPromptDoc, MCPServerDoc, MCPToolDoc, VTuberAuthTokenDoc, WidgetConfigDoc, EventConfigDoc, SceneConfigDoc,
+    MatchStatsDoc, AutomationRuleDoc, DeviceHistoryDoc, DeviceHistoryRollupDoc,
 } from '../interface';
 import { fs } from '../utils';
 
 export interface Collections {
     mcplog: MCPLogDoc;
+    mcpcall: MCPCallDoc;
     mcpserver: MCPServerDoc;
     mcptool: MCPToolDoc;
+    mcpprompt: MCPPromptDoc;
     vtuberAuthToken: VTuberAuthTokenDoc;
     widgetConfig: WidgetConfigDoc;
     eventConfig: EventConfigDoc;
     sceneConfig: SceneConfigDoc;
+    matchStats: MatchStatsDoc;
+    automation: AutomationRuleDoc;
+    deviceHistory: DeviceHistoryDoc;
+    deviceHistoryRollup: DeviceHistoryRollupDoc;
 }
 
 declare module 'cordis' {
@@ -42,11 +49,17 @@ export default class DBService extends Service {
 
     async [Service.init]() {
         await this.initDatabase('mcplog', ['_id', 'timestamp', 'level', 'tool']);
+        await this.initDatabase('mcpcall', ['_id', 'timestamp', 'tool', 'server', 'status']);
         await this.initDatabase('mcpserver', ['_id', 'name', 'endpoint', 'status', 'lastUpdate']);
         await this.initDatabase('mcptool', ['_id', 'name', 'server', 'callCount']);
+        await this.initDatabase('mcpprompt', ['_id', 'updatedAt']);
         await this.initDatabase('vtuberAuthToken', ['_id', 'host', 'port']);
         await this.initDatabase('widgetConfig', ['_id', 'widgetName', 'updatedAt']);
         await this.initDatabase('eventConfig', ['_id', 'sceneId', 'enabled', 'updatedAt']);
         await this.initDatabase('sceneConfig', ['_id', 'active', 'updatedAt']);
+        await this.initDatabase('matchStats', ['_id', 'map', 'startedAt']);
+        await this.initDatabase('automation', ['_id', 'enabled', 'updatedAt']);
+        await this.initDatabase('deviceHistory', ['_id', 'device', 'timestamp']);
+        await this.initDatabase('deviceHistoryRollup', ['_id', 'device', 'bucket']);
     }
 }
@@ -0,0 +1,191 @@
+import { Context, Service } from 'cordis';
+import { Logger } from '../utils';
+import { config } from '../config';
+import type { DeviceHistoryDoc, DeviceHistoryValue } from '../interface';
+import {
+    accumulateHistoryStat, aggregateHistory, chooseHistoryBucket, extractHistoryValues, getDeviceHistoryConfig, HISTORY_AGGREGATIONS,
+    HistoryAggregation, HOUR, matchHistoryDevice, parseHistoryRange, rollupHistoryDocs,
+} from '../model/device-history';
+
+declare module 'cordis' {
+    interface Context {
+        deviceHistory: DeviceHistoryService;
+    }
+}
+
+const ROLLUP_INTERVAL = HOUR;
+const ROLLUP_BATCH = 5000;
+
+/**
+ * 设备历史：记录 zigbee2mqtt 设备上报的数值与枚举属性。
+ * 同一设备在 minInterval 内的多次上报只保留最后一次（枚举值变化时立即写入），
+ * 原始采样超过 rawRetentionHours 后按小时汇总，汇总数据超过 retentionDays 后删除
+ */
+export default class DeviceHistoryService extends Service<Context> {
+    private readonly logger = new Logger('device-history');
+    // 尚未写入的最新采样
+    private pending = new Map<string, DeviceHistoryDoc>();
+    // 每个设备最后写入的值（用于判断枚举变化）
+    private lastValues = new Map<string, Record<string, DeviceHistoryValue>>();
+    private flushTimer?: NodeJS.Timeout;
+    private rollupTimer?: NodeJS.Timeout;
+    private disposeListener?: () => void;
+
+    constructor(ctx: Context) {
+        super(ctx, 'deviceHistory');
+    }
+
+    // 返回的函数由 cordis 在插件卸载时调用，卸载前写入尚未记录的采样
+    async [Service.init](): Promise<(() => Promise<void>) | void> {
+        const cfg = getDeviceHistoryConfig();
+        if (!cfg.enabled) {
+            this.logger.info('设备历史记录已禁用');
+            return;
+        }
+        this.disposeListener = this.ctx.on('zigbee2mqtt/message', (topic, data) => this.onMessage(topic, data));
+        this.flushTimer = setInterval(() => this.flush().catch((e) => this.logger.warn('写入设备历史失败: %s', e.message)), cfg.minInterval * 1000);
+        this.flushTimer.unref?.();
+        const rollup = () => this.rollup().catch((e) => this.logger.warn('汇总设备历史失败: %s', e.message));
+        void rollup();
+        this.rollupTimer = setInterval(rollup, ROLLUP_INTERVAL);
+        this.rollupTimer.unref?.();
+        return () => this.stop();
+    }
+
+    private async stop() {
+        this.disposeListener?.();
+        if (this.flushTimer) clearInterval(this.flushTimer);
+        if (this.rollupTimer) clearInterval(this.rollupTimer);
+        await this.flush().catch(() => {});
+    }
+
+    private get baseTopic() {
+        return ('zigbee2mqtt' in config && config.zigbee2mqtt?.baseTopic) || 'zigbee2mqtt';
+    }
+
+    // 只记录 <baseTopic>/<设备> 的状态消息，忽略 bridge、availability 与 set/get 主题
+    private onMessage(topic: string, data: any) {
+        const parts = topic.split('/');
+        if (parts.length !== 2 || parts[0] !== this.baseTopic || parts[1] === 'bridge') return;
+        const device = parts[1];
+        const values = extractHistoryValues(data, getDeviceHistoryConfig().exclude);
+        if (!Object.keys(values).length) return;
+        const previous = this.pending.get(device);
+        this.pending.set(device, { device, timestamp: Date.now(), values: { ...previous?.values, ...values } });
+        const last = this.lastValues.get(device);
+        const enumChanged = Object.entries(values).some(([key, value]) => typeof value !== 'number' && last?.[key] !== value);
+        if (enumChanged) this.flush(device).catch((e) => this.logger.warn('写入设备历史失败: %s', e.message));
+    }
+
+    // 写入待记录的采样（指定 device 时只写入该设备）
+    async flush(device?: string) {
+        const docs = device ? [this.pending.get(device)].filter(Boolean) : [...this.pending.values()];
+        if (!docs.length || !this.ctx.db?.deviceHistory) return;
+        for (const doc of docs) {
+            this.pending.delete(doc.device);
+            this.lastValues.set(doc.device, { ...this.lastValues.get(doc.device), ...doc.values });
+        }
+        await this.ctx.db.deviceHistory.insert(docs);
+    }
+
+    /**
+     * 将早于 rawRetentionHours 的原始采样按小时汇总，并删除超过 retentionDays 的汇总数据
+     */
+    async rollup(now = Date.now()) {
+        const cfg = getDeviceHistoryConfig();
+        const raw = this.ctx.db.deviceHistory;
+        const rollups = this.ctx.db.deviceHistoryRollup;
+        // 按整点截断，避免同一小时被拆成两条汇总
+        const cutoff = Math.floor((now - cfg.rawRetentionHours * HOUR) / HOUR) * HOUR;
+        let rolled = 0;
+        for (;;) {
+            // eslint-disable-next-line no-await-in-loop
+            const docs = await raw.find({ timestamp: { $lt: cutoff } }).sort({ timestamp: 1 }).limit(ROLLUP_BATCH);
+            if (!docs.length) break;
+            for (const rollup of rollupHistoryDocs(docs)) {
+                // eslint-disable-next-line no-await-in-loop
+                const existing = await rollups.findOne({ device: rollup.device, bucket: rollup.bucket });
+                if (existing) {
+                    // 重启或分批处理时同一小时可能已有汇总，合并统计
+                    const stats = { ...existing.stats };
+                    for (const [property, stat] of Object.entries(rollup.stats)) {
+                        stats[property] = accumulateHistoryStat(stats[property], stat);
+                    }
+                    // eslint-disable-next-line no-await-in-loop
+                    await rollups.update({ _id: existing._id }, { $set: { stats } });
+                } else {
+                    // eslint-disable-next-line no-await-in-loop
+                    await rollups.insert(rollup);
+                }
+            }
+            // eslint-disable-next-line no-await-in-loop
+            await raw.remove({ _id: { $in: docs.map((doc) => doc._id) } }, { multi: true });
+            rolled += docs.length;
+            if (docs.length < ROLLUP_BATCH) break;
+        }
+        const expired = await rollups.remove({ bucket: { $lt: now - cfg.retentionDays * 24 * HOUR } }, { multi: true });
+        // nedb 只追加写文件，删除后压缩数据文件才能真正释放空间
+        if (rolled) raw.persistence.compactDatafile();
+        if (expired) rollups.persistence.compactDatafile();
+        if (rolled || expired) this.logger.info('已汇总设备历史采样 %d 条，删除过期汇总 %d 条', rolled, expired);
+        return { rolled, expired };
+    }
+
+    // 有历史记录的设备及其属性
+    async listDevices() {
+        await this.flush();
+        const devices = new Map<string, { device: string; properties: Set<string>; lastSeen: number }>();
+        const add = (device: string, properties: string[], at: number) => {
+            const entry = devices.get(device) || { device, properties: new Set(), lastSeen: 0 };
+            properties.forEach((p) => entry.properties.add(p));
+            entry.lastSeen = Math.max(entry.lastSeen, at);
+            devices.set(device, entry);
+        };
+        const [docs, rollups] = await Promise.all([
+            this.ctx.db.deviceHistory.find({}, { device: 1, timestamp: 1, values: 1 }),
+            this.ctx.db.deviceHistoryRollup.find({}, { device: 1, bucket: 1, stats: 1 }),
+        ]);
+        for (const rollup of rollups) add(rollup.device, Object.keys(rollup.stats || {}), rollup.bucket);
+        for (const doc of docs) add(doc.device, Object.keys(doc.values || {}), doc.timestamp);
+        return [...devices.values()]
+            .map((entry) => ({ device: entry.device, properties: [...entry.properties].sort(), lastSeen: entry.lastSeen }))
+            .sort((a, b) => a.device.localeCompare(b.device));
+    }
+
+    // 按名称（支持模糊匹配，如 "living room"）查找有历史记录的设备
+    async resolveDevice(name: string) {
+        const devices = await this.listDevices();
+        return matchHistoryDevice(name, devices.map((d) => d.device));
+    }
+
+    /**
+     * 查询设备历史，options 支持 from/to/hours、bucket（秒，不填时自动选择）、aggregation 与 properties
+     */
+    async query(device: string, options: {
+        from?: any; to?: any; hours?: any; bucket?: any; aggregation?: string; properties?: string[];
+    } = {}) {
+        const { from, to } = parseHistoryRange(options);
+        const aggregation = (options.aggregation || 'avg') as HistoryAggregation;
+        if (!HISTORY_AGGREGATIONS.includes(aggregation)) {
+            throw new Error(`aggregation 必须为 ${HISTORY_AGGREGATIONS.join('、')}`);
+        }
+        const bucket = Number(options.bucket) > 0 ? Math.max(Math.round(Number(options.bucket)), 1) : chooseHistoryBucket(to - from);
+        if ((to - from) / (bucket * 1000) > 5000) throw new Error('bucket 过小，单条曲线最多 5000 个点');
+        await this.flush(device);
+        const [docs, rollups] = await Promise.all([
+            this.ctx.db.deviceHistory.find({ device, timestamp: { $gte: from, $lte: to } }),
+            this.ctx.db.deviceHistoryRollup.find({ device, bucket: { $gte: from, $lte: to } }),
+        ]);
+        const properties = options.properties?.filter(Boolean);
+        return {
+            device,
+            from,
+            to,
+            bucket,
+            aggregation,
+            series: aggregateHistory(docs, rollups, {
+                from, to, bucket, aggregation, properties,
+            }),
+        };
+    }
+}
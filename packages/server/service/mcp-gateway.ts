@@ -0,0 +1,393 @@
+import { Context, Service } from 'cordis';
+import { config, saveConfig } from '../config';
+import { MCPClient, MCPClientOptions, createMCPClient } from '../model/mcp-client';
+import { Logger } from '../utils';
+
+declare module 'cordis' {
+    interface Context {
+        mcpGateway: MCPGatewayService;
+    }
+}
+
+const logger = new Logger('mcp-gateway');
+
+export const UPSTREAM_TOOL_SEPARATOR = '__';
+const HEALTH_CHECK_INTERVAL = 60 * 1000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+export interface MCPUpstreamConfig extends MCPClientOptions {
+    enabled?: boolean;
+}
+
+interface UpstreamEntry {
+    config: MCPUpstreamConfig;
+    client: MCPClient;
+    retryDelay: number;
+    retryTimer?: NodeJS.Timeout;
+    connecting?: Promise<void>;
+}
+
+// 已配置的外部 MCP 服务器（进程内），按名称索引
+const upstreams = new Map<string, UpstreamEntry>();
+
+function serverDocId(name: string) {
+    return `upstream:${name}`;
+}
+
+function toolDocId(server: string, tool: string) {
+    return `upstream:${server}:${tool}`;
+}
+
+// 获取所有在线外部服务器的工具（已加命名空间）
+export function getAllUpstreamTools() {
+    const tools: Array<{ name: string; description: string; inputSchema: any; metadata: Record<string, any> }> = [];
+    for (const [server, entry] of upstreams) {
+        if (!entry.client.connected) continue;
+        for (const tool of entry.client.tools) {
+            tools.push({
+                name: `${server}${UPSTREAM_TOOL_SEPARATOR}${tool.name}`,
+                description: tool.description || '',
+                inputSchema: tool.inputSchema || { type: 'object', properties: {} },
+                metadata: { upstream: server, upstreamTool: tool.name, docId: toolDocId(server, tool.name) },
+            });
+        }
+    }
+    return tools;
+}
+
+// 解析带命名空间的工具名，返回对应的外部服务器与原始工具名
+// inputSchema 为连接时从外部服务器缓存的工具定义
+export function findUpstreamTool(name: string): { server: string; tool: string; entry: UpstreamEntry; inputSchema: any } | null {
+    const index = name.indexOf(UPSTREAM_TOOL_SEPARATOR);
+    if (index <= 0) return null;
+    const server = name.slice(0, index);
+    const tool = name.slice(index + UPSTREAM_TOOL_SEPARATOR.length);
+    const entry = upstreams.get(server);
+    const definition = entry?.client.tools.find((t) => t.name === tool);
+    if (!entry || !definition) return null;
+    return {
+        server, tool, entry, inputSchema: definition.inputSchema,
+    };
+}
+
+export function normalizeUpstreamConfig(input: any): MCPUpstreamConfig {
+    const name = String(input?.name || '').trim();
+    // 不能以下划线结尾，否则 "a_" + "__" + "tool" 会从第一个 "__" 处被拆成 "a" 与 "_tool"
+    if (!/^[\w-]*[A-Za-z0-9-]$/.test(name) || name.includes(UPSTREAM_TOOL_SEPARATOR)) {
+        throw new Error(`名称只能包含字母、数字、单个下划线和短横线，不能以下划线结尾，且不能包含 "${UPSTREAM_TOOL_SEPARATOR}"`);
+    }
+    const transport = input.transport === 'http' ? 'http' : 'stdio';
+    if (transport === 'stdio' && !input.command) throw new Error('stdio 类型需要配置 command');
+    if (transport === 'http' && !/^https?:\/\//.test(input.url || '')) throw new Error('http 类型需要配置 http(s):// 开头的 url');
+    return {
+        name,
+        enabled: input.enabled !== false,
+        transport,
+        command: input.command || '',
+        args: Array.isArray(input.args) ? input.args.map(String) : [],
+        env: input.env && typeof input.env === 'object' ? input.env : {},
+        cwd: input.cwd || '',
+        url: input.url || '',
+        headers: input.headers && typeof input.headers === 'object' ? input.headers : {},
+        timeout: Number(input.timeout) > 0 ? Number(input.timeout) : 30000,
+    };
+}
+
+export function listUpstreams() {
+    return Array.from(upstreams.entries()).map(([name, entry]) => ({
+        name,
+        transport: entry.config.transport,
+        endpoint: entry.client.endpoint,
+        status: entry.client.connected ? 'online' : 'offline',
+        toolCount: entry.client.connected ? entry.client.tools.length : 0,
+        serverInfo: entry.client.serverInfo,
+        protocolVersion: entry.client.protocolVersion,
+        lastError: entry.client.lastError,
+    }));
+}
+
+export default class MCPGatewayService extends Service {
+    private healthTimer?: NodeJS.Timeout;
+    private stopped = false;
+
+    constructor(ctx: Context) {
+        super(ctx, 'mcpGateway');
+    }
+
+    async [Service.init](): Promise<void> {
+        this.healthTimer = setInterval(() => this.checkHealth(), HEALTH_CHECK_INTERVAL);
+        const servers: MCPUpstreamConfig[] = ((config as any).mcpServers || []).filter((s) => s.enabled !== false);
+        if (!servers.length) {
+            logger.info('未配置外部 MCP 服务器');
+            return;
+        }
+        const entries: UpstreamEntry[] = [];
+        for (const server of servers) {
+            try {
+                entries.push(this.add(normalizeUpstreamConfig(server)));
+            } catch (e) {
+                logger.warn('外部 MCP 服务器配置无效，已跳过 (%s): %s', server.name, (e as Error).message);
+            }
+        }
+        await Promise.all(entries.map((entry) => this.connect(entry)));
+    }
+
+    async [Service.dispose](): Promise<void> {
+        this.stopped = true;
+        if (this.healthTimer) clearInterval(this.healthTimer);
+        await Promise.all(Array.from(upstreams.values()).map(async (entry) => {
+            if (entry.retryTimer) clearTimeout(entry.retryTimer);
+            await entry.client.close().catch(() => {});
+            await this.persistServer(entry).catch(() => {});
+        }));
+        upstreams.clear();
+    }
+
+    private add(server: MCPUpstreamConfig) {
+        if (upstreams.has(server.name)) throw new Error(`名称重复: ${server.name}`);
+        const client = createMCPClient(server);
+        const entry: UpstreamEntry = { config: server, client, retryDelay: 5000 };
+        client.onToolsChanged = () => {
+            logger.info('[%s] 工具列表已更新: %d 个', server.name, client.tools.length);
+            void this.sync(entry);
+        };
+        client.onDisconnect = (error) => {
+            logger.warn('[%s] 连接断开: %s', server.name, error?.message || '');
+            void this.sync(entry);
+            this.scheduleReconnect(entry);
+        };
+        upstreams.set(server.name, entry);
+        return entry;
+    }
+
+    private async stop(name: string) {
+        const entry = upstreams.get(name);
+        if (!entry) return;
+        upstreams.delete(name);
+        if (entry.retryTimer) clearTimeout(entry.retryTimer);
+        await entry.client.close().catch(() => {});
+    }
+
+    // 新增或修改外部服务器：写入配置文件并按新配置重新连接
+    async saveServer(input: any) {
+        const server = normalizeUpstreamConfig(input);
+        const servers: MCPUpstreamConfig[] = (config as any).mcpServers || [];
+        const index = servers.findIndex((s) => s.name === server.name);
+        if (index === -1) servers.push(server);
+        else servers[index] = server;
+        (config as any).mcpServers = servers;
+        saveConfig();
+
+        await this.stop(server.name);
+        if (server.enabled === false) {
+            await this.markDisabled(server);
+        } else {
+            await this.connect(this.add(server));
+        }
+        return server;
+    }
+
+    // 删除外部服务器：从配置中移除，断开连接并清除状态记录
+    async removeServer(name: string) {
+        const servers: MCPUpstreamConfig[] = (config as any).mcpServers || [];
+        const index = servers.findIndex((s) => s.name === name);
+        const existed = index !== -1 || upstreams.has(name);
+        if (index !== -1) {
+            servers.splice(index, 1);
+            saveConfig();
+        }
+        await this.stop(name);
+        await this.ctx.db.mcpserver.remove({ _id: serverDocId(name) }, {});
+        await this.ctx.db.mcptool.remove({ server: name }, { multi: true });
+        try {
+            (this.ctx as any).emit('mcp/upstream/tools-updated', name);
+        } catch { /* ignore */ }
+        return existed;
+    }
+
+    private async markDisabled(server: MCPUpstreamConfig) {
+        await this.ctx.db.mcpserver.update(
+            { _id: serverDocId(server.name) },
+            { $set: { status: 'offline', lastUpdate: Date.now(), 'metadata.disabled': true } },
+        );
+        await this.ctx.db.mcptool.update(
+            { server: server.name },
+            { $set: { 'metadata.status': 'offline' } },
+            { multi: true },
+        );
+        try {
+            (this.ctx as any).emit('mcp/upstream/tools-updated', server.name);
+        } catch { /* ignore */ }
+    }
+
+    private connect(entry: UpstreamEntry) {
+        if (entry.connecting) return entry.connecting;
+        const { name } = entry.config;
+        entry.connecting = (async () => {
+            try {
+                await entry.client.close().catch(() => {});
+                await entry.client.connect();
+                entry.retryDelay = 5000;
+                logger.success('[%s] 已连接（%s），工具 %d 个', name, entry.client.endpoint, entry.client.tools.length);
+            } catch (e) {
+                entry.client.lastError = (e as Error).message;
+                logger.warn('[%s] 连接失败: %s', name, (e as Error).message);
+                await entry.client.close().catch(() => {});
+                this.scheduleReconnect(entry);
+            } finally {
+                entry.connecting = undefined;
+                // 连接过程中被删除或替换时不再写入状态
+                if (upstreams.get(name) === entry) await this.sync(entry);
+            }
+        })();
+        return entry.connecting;
+    }
+
+    private scheduleReconnect(entry: UpstreamEntry) {
+        if (this.stopped || entry.retryTimer) return;
+        const delay = entry.retryDelay;
+        entry.retryDelay = Math.min(delay * 2, MAX_RETRY_DELAY);
+        logger.info('[%s] 将在 %ds 后重连', entry.config.name, Math.round(delay / 1000));
+        entry.retryTimer = setTimeout(() => {
+            entry.retryTimer = undefined;
+            if (!this.stopped && upstreams.get(entry.config.name) === entry) void this.connect(entry);
+        }, delay);
+    }
+
+    // 定期 ping 在线的服务器；HTTP 端点没有常驻连接，只能靠探测发现离线
+    private async checkHealth() {
+        await Promise.all(Array.from(upstreams.values()).map(async (entry) => {
+            if (!entry.client.connected || entry.connecting) return;
+            try {
+                await entry.client.ping();
+            } catch (e) {
+                logger.warn('[%s] 健康检查失败: %s', entry.config.name, (e as Error).message);
+                entry.client.lastError = (e as Error).message;
+                await entry.client.close().catch(() => {});
+                await this.sync(entry);
+                this.scheduleReconnect(entry);
+            }
+        }));
+    }
+
+    // 手动同步：重新拉取工具列表（离线时尝试重连）
+    async refresh(name: string) {
+        const entry = upstreams.get(name);
+        if (!entry) throw new Error(`外部 MCP 服务器不存在: ${name}`);
+        if (!entry.client.connected) {
+            if (entry.retryTimer) {
+                clearTimeout(entry.retryTimer);
+                entry.retryTimer = undefined;
+            }
+            await this.connect(entry);
+        } else {
+            await entry.client.refreshTools();
+            await this.sync(entry);
+        }
+        return listUpstreams().find((s) => s.name === name);
+    }
+
+    async callTool(name: string, args: Record<string, any>) {
+        const found = findUpstreamTool(name);
+        if (!found) throw new Error(`外部 MCP 工具不存在: ${name}`);
+        if (!found.entry.client.connected) throw new Error(`外部 MCP 服务器 ${found.server} 未连接`);
+        const result = await found.entry.client.callTool(found.tool, args);
+        await Promise.all([
+            this.ctx.db.mcpserver.update({ _id: serverDocId(found.server) }, { $inc: { totalCalls: 1 } }),
+            this.ctx.db.mcptool.update(
+                { _id: toolDocId(found.server, found.tool) },
+                { $inc: { callCount: 1 }, $set: { lastCalled: Date.now() } },
+            ),
+        ]).catch((e) => logger.warn('[%s] 调用计数更新失败: %s', found.server, (e as Error).message));
+        return result;
+    }
+
+    // 持久化状态并通知 MCP 服务端工具集可能已变化
+    private async sync(entry: UpstreamEntry) {
+        try {
+            await this.persistServer(entry);
+            await this.persistTools(entry);
+        } catch (e) {
+            logger.warn('[%s] 状态持久化失败: %s', entry.config.name, (e as Error).message);
+        }
+        try {
+            (this.ctx as any).emit('mcp/upstream/tools-updated', entry.config.name);
+        } catch { /* ignore */ }
+    }
+
+    private async persistServer(entry: UpstreamEntry) {
+        const now = Date.now();
+        const { name } = entry.config;
+        const existing = await this.ctx.db.mcpserver.findOne({ _id: serverDocId(name) });
+        await this.ctx.db.mcpserver.update(
+            { _id: serverDocId(name) },
+            {
+                $set: {
+                    _id: serverDocId(name),
+                    name,
+                    endpoint: entry.client.endpoint,
+                    status: entry.client.connected ? 'online' : 'offline',
+                    toolCount: entry.client.connected ? entry.client.tools.length : (existing?.toolCount ?? 0),
+                    totalCalls: existing?.totalCalls ?? 0,
+                    lastUpdate: now,
+                    createdAt: existing?.createdAt ?? now,
+                    metadata: {
+                        transport: entry.config.transport,
+                        serverInfo: entry.client.serverInfo,
+                        protocolVersion: entry.client.protocolVersion,
+                        lastError: entry.client.lastError,
+                    },
+                },
+            },
+            { upsert: true },
+        );
+    }
+
+    private async persistTools(entry: UpstreamEntry) {
+        const { name } = entry.config;
+        const now = Date.now();
+        const docs = await this.ctx.db.mcptool.find({ server: name });
+        const existingMap = new Map(docs.map((doc) => [doc._id, doc]));
+        const seen = new Set<string>();
+        if (entry.client.connected) {
+            for (const tool of entry.client.tools) {
+                const docId = toolDocId(name, tool.name);
+                seen.add(docId);
+                const existing = existingMap.get(docId);
+                // eslint-disable-next-line no-await-in-loop
+                await this.ctx.db.mcptool.update(
+                    { _id: docId },
+                    {
+                        $set: {
+                            _id: docId,
+                            name: `${name}${UPSTREAM_TOOL_SEPARATOR}${tool.name}`,
+                            description: tool.description || '',
+                            server: name,
+                            callCount: existing?.callCount ?? 0,
+                            lastCalled: existing?.lastCalled,
+                            createdAt: existing?.createdAt ?? now,
+                            metadata: {
+                                ...(existing?.metadata || {}),
+                                upstream: name,
+                                upstreamTool: tool.name,
+                                status: 'online',
+                                syncedAt: now,
+                                docId,
+                            },
+                        },
+                    },
+                    { upsert: true },
+                );
+            }
+        }
+        // 服务器离线或工具被移除时标记为离线，保留调用统计
+        for (const doc of docs) {
+            if (seen.has(doc._id)) continue;
+            // eslint-disable-next-line no-await-in-loop
+            await this.ctx.db.mcptool.update(
+                { _id: doc._id },
+                { $set: { metadata: { ...(doc.metadata || {}), status: 'offline', syncedAt: now } } },
+            );
+        }
+    }
+}
@@ -0,0 +1,76 @@
+import superagent from 'superagent';
+import { Logger } from '../utils';
+
+const logger = new Logger('voice');
+
+export interface VoiceEndpointHealth {
+    url: string;
+    reachable: boolean;
+    latency?: number;
+    error?: string;
+    checkedAt: number;
+}
+
+/**
+ * 语音 provider 端点的可达性检查
+ * 只判断网络层面是否可达：收到任何 HTTP 响应（包括 401/404）都视为可达，连接失败或超时视为不可达
+ */
+export class VoiceHealthMonitor {
+    private status = new Map<string, VoiceEndpointHealth>();
+    private checking = new Map<string, Promise<VoiceEndpointHealth>>();
+
+    constructor(private timeout = 3000) {}
+
+    // ws(s):// 端点按同主机的 http(s) 地址探测；未指定 healthUrl 时只探测源站根路径，避免触发真实请求
+    static probeUrl(url: string): string | null {
+        try {
+            const parsed = new URL(url);
+            if (parsed.protocol === 'ws:') parsed.protocol = 'http:';
+            else if (parsed.protocol === 'wss:') parsed.protocol = 'https:';
+            if (!['http:', 'https:'].includes(parsed.protocol)) return null;
+            return parsed.origin;
+        } catch {
+            return null;
+        }
+    }
+
+    async check(url: string, healthUrl?: string): Promise<VoiceEndpointHealth> {
+        const probe = healthUrl || VoiceHealthMonitor.probeUrl(url);
+        if (!probe) {
+            const result = { url, reachable: false, error: '无效的地址', checkedAt: Date.now() };
+            this.status.set(url, result);
+            return result;
+        }
+        if (this.checking.has(url)) return this.checking.get(url);
+
+        const start = Date.now();
+        const task = superagent
+            .get(probe)
+            .timeout(this.timeout)
+            .ok(() => true)
+            .then(() => ({ url, reachable: true, latency: Date.now() - start, checkedAt: Date.now() }))
+            .catch((e: any) => ({ url, reachable: false, error: e.code || e.message, checkedAt: Date.now() }))
+            .then((result: VoiceEndpointHealth) => {
+                const previous = this.status.get(url);
+                if (previous && previous.reachable !== result.reachable) {
+                    if (result.reachable) logger.info('语音端点恢复可达: %s', url);
+                    else logger.warn('语音端点不可达: %s (%s)', url, result.error);
+                }
+                this.status.set(url, result);
+                this.checking.delete(url);
+                return result;
+            });
+        this.checking.set(url, task);
+        return task;
+    }
+
+    // 未检查过的端点视为可达
+    isReachable(url?: string) {
+        if (!url) return true;
+        return this.status.get(url)?.reachable !== false;
+    }
+
+    list() {
+        return Array.from(this.status.values());
+    }
+}
@@ -0,0 +1,177 @@
+import { Context } from 'cordis';
+import { Logger } from '../utils';
+
+const logger = new Logger('voice');
+
+/**
+ * 语音相关 provider 注册表：ASR / TTS / LLM 各自独立注册
+ * 新后端（Azure、百度、本地 whisper.cpp / piper 等）只需在 service/voice-providers/ 下新增模块并注册
+ */
+
+export type VoiceProviderKind = 'asr' | 'tts' | 'llm';
+
+export interface VoiceProviderCapabilities {
+    streaming: boolean; // 支持边生成边返回
+    realtime: boolean; // 支持实时双向连接（WebSocket）
+    formats: string[]; // ASR：可接受的音频格式；TTS：输出格式；空数组表示不限制
+}
+
+export interface VoiceProviderContext {
+    ctx: Context;
+}
+
+export type ChatHistory = Array<{ role: string; content: string }>;
+
+// 单次调用的选项：provider 指定本次使用的 provider（覆盖配置中的主 provider）
+export interface VoiceCallOptions {
+    provider?: string;
+    // 实际完成本次调用的 provider（可能是备用 provider）
+    onProvider?: (kind: VoiceProviderKind, provider: string) => void;
+}
+
+interface VoiceProviderBase {
+    name: string;
+    capabilities: VoiceProviderCapabilities;
+    // 实际请求的地址，用于健康检查
+    resolveEndpoint?(config: any): string;
+}
+
+export interface ASRProvider extends VoiceProviderBase {
+    transcribe(audio: Buffer, format: string, config: any, pctx: VoiceProviderContext): Promise<string>;
+}
+
+// 实时合成会话的事件回调
+export interface TTSRealtimeHandlers {
+    // 会话就绪，可以追加文本
+    onReady(): void;
+    // 音频分片（PCM16，24kHz 单声道）
+    onAudio(chunk: Buffer): void;
+    // 一次 commit 的音频生成完成
+    onDone(): void;
+    onError(error: Error): void;
+    onClose(code: number, reason: string): void;
+}
+
+// 实时合成会话：保持一个连接，文本可分多次追加，每次 commit 合成一段音频
+export interface TTSRealtimeSession {
+    append(text: string): void;
+    commit(): void;
+    // 不再追加文本，已提交的部分合成完后结束会话
+    finish(): void;
+    close(): void;
+}
+
+export interface TTSProvider extends VoiceProviderBase {
+    synthesize(text: string, config: any, pctx: VoiceProviderContext): Promise<Buffer>;
+    // 流式合成（capabilities.streaming 为 true 时提供）
+    stream?(text: string, config: any, onAudioChunk: (chunk: Buffer) => void, pctx: VoiceProviderContext): Promise<void>;
+    // 实时合成（capabilities.realtime 为 true 时提供）
+    streamRealtime?(config: any, handlers: TTSRealtimeHandlers, pctx: VoiceProviderContext): TTSRealtimeSession;
+    // 当前配置能否使用实时合成（例如需要 realtime 模型），未提供时只看 capabilities.realtime
+    supportsRealtime?(config: any): boolean;
+}
+
+export interface LLMProvider extends VoiceProviderBase {
+    chat(message: string, history: ChatHistory, config: any, pctx: VoiceProviderContext, onChunk?: (chunk: string) => void): Promise<string>;
+}
+
+interface ProviderMap {
+    asr: ASRProvider;
+    tts: TTSProvider;
+    llm: LLMProvider;
+}
+
+const registry: { [K in VoiceProviderKind]: Map<string, ProviderMap[K]> } = {
+    asr: new Map(),
+    tts: new Map(),
+    llm: new Map(),
+};
+
+export function registerVoiceProvider<K extends VoiceProviderKind>(kind: K, provider: ProviderMap[K]) {
+    const name = provider.name.toLowerCase();
+    if (registry[kind].has(name)) logger.warn('覆盖已注册的 %s provider: %s', kind, name);
+    registry[kind].set(name, provider as any);
+}
+
+export function getVoiceProvider<K extends VoiceProviderKind>(kind: K, name: string): ProviderMap[K] | undefined {
+    return registry[kind].get((name || '').toLowerCase()) as ProviderMap[K] | undefined;
+}
+
+export function listVoiceProviders() {
+    const describe = (map: Map<string, VoiceProviderBase>) => Array.from(map.values())
+        .map((p) => ({ name: p.name, capabilities: p.capabilities }));
+    return {
+        asr: describe(registry.asr),
+        tts: describe(registry.tts),
+        llm: describe(registry.llm),
+    };
+}
+
+export interface VoiceProviderCandidate {
+    provider: string;
+    config: any;
+}
+
+/**
+ * 根据配置生成 provider 候选链：主 provider 在前，之后是 fallbacks 中的备用 provider
+ * requested 指定本次调用使用的 provider（优先使用 fallbacks 中同名项的配置）
+ */
+export function resolveVoiceProviderChain(sectionConfig: any, requested?: string): VoiceProviderCandidate[] {
+    const { fallbacks = [], ...primary } = sectionConfig || {};
+    const candidates: VoiceProviderCandidate[] = [];
+    if (primary.provider) candidates.push({ provider: primary.provider.toLowerCase(), config: primary });
+    for (const entry of fallbacks) {
+        if (!entry?.provider) continue;
+        // 备用项中未填写的字段沿用主配置
+        const overrides = Object.fromEntries(Object.entries(entry).filter(([, v]) => v !== undefined));
+        candidates.push({ provider: entry.provider.toLowerCase(), config: { ...primary, ...overrides } });
+    }
+    if (requested) {
+        const name = requested.toLowerCase();
+        const index = candidates.findIndex((c) => c.provider === name);
+        const preferred = index >= 0
+            ? candidates.splice(index, 1)[0]
+            : { provider: name, config: { ...primary, provider: name } };
+        candidates.unshift(preferred);
+    }
+    return candidates;
+}
+
+export interface VoiceProviderResult<T> {
+    result: T;
+    provider: string;
+}
+
+/**
+ * 依次尝试候选 provider，失败时切换到下一个；全部失败时抛出最后一个错误
+ * accept 可按能力过滤候选（例如 ASR 音频格式）
+ */
+export async function runWithVoiceFallback<K extends VoiceProviderKind, T>(
+    kind: K,
+    candidates: VoiceProviderCandidate[],
+    run: (provider: ProviderMap[K], config: any) => Promise<T>,
+    accept?: (provider: ProviderMap[K]) => boolean,
+): Promise<VoiceProviderResult<T>> {
+    let lastError: Error | null = null;
+    for (const candidate of candidates) {
+        const provider = getVoiceProvider(kind, candidate.provider);
+        if (!provider) {
+            lastError = new Error(`不支持的${kind.toUpperCase()} provider: ${candidate.provider}`);
+            logger.warn(lastError.message);
+            continue;
+        }
+        if (accept && !accept(provider)) {
+            logger.debug('%s provider %s 不满足本次调用的能力要求，跳过', kind, provider.name);
+            continue;
+        }
+        try {
+            // eslint-disable-next-line no-await-in-loop
+            const result = await run(provider, candidate.config);
+            return { result, provider: provider.name };
+        } catch (e: any) {
+            lastError = e;
+            if (candidates.length > 1) logger.warn('%s provider %s 调用失败，尝试下一个: %s', kind, provider.name, e.message);
+        }
+    }
+    throw lastError || new Error(`${kind.toUpperCase()}未配置：没有可用的 provider`);
+}
@@ -0,0 +1,285 @@
+import { Context } from 'cordis';
+import superagent from 'superagent';
+import { callTool } from '../../mcp-tools';
+import { enforceToolPolicy } from '../../model/mcp-policy';
+import { Logger } from '../../utils';
+import { ChatHistory, registerVoiceProvider } from '../voice-provider';
+
+const logger = new Logger('voice');
+
+// 对话 LLM：ejunz Agent（WebSocket 流式 + MCP 工具调用）以及 OpenAI 兼容 HTTP 接口
+const DEFAULT_AGENT_ENDPOINT = 'wss://beta.ejunz.com/api/agent/A4/stream';
+
+export function resolveAgentEndpoint(aiConfig: any): string {
+    return aiConfig?.endpoint || DEFAULT_AGENT_ENDPOINT;
+}
+
+export function isWebSocketEndpoint(endpoint: string) {
+    return endpoint.startsWith('ws://') || endpoint.startsWith('wss://');
+}
+
+/**
+ * 处理 Agent WebSocket 下发的工具调用，结果以 tool_result 回传
+ */
+export async function handleAgentToolCall(ctx: Context, toolCall: any, ws: any): Promise<void> {
+    try {
+        const toolName = toolCall.name || toolCall.function?.name;
+        let toolArgs = toolCall.arguments || toolCall.function?.arguments || toolCall.args || {};
+
+        if (!toolName) {
+            logger.warn('[AI WebSocket] 工具调用缺少名称');
+            return;
+        }
+
+        // 如果参数是字符串，尝试解析为JSON
+        if (typeof toolArgs === 'string') {
+            try {
+                toolArgs = JSON.parse(toolArgs);
+            } catch {
+                // 如果解析失败，使用原始字符串
+                logger.warn('[AI WebSocket] 工具参数不是有效的JSON，使用原始字符串');
+            }
+        }
+
+        // 确保参数是对象
+        if (typeof toolArgs !== 'object' || toolArgs === null) {
+            toolArgs = {};
+        }
+
+        logger.info('[AI WebSocket] 调用工具: %s, 参数: %s', toolName, JSON.stringify(toolArgs));
+
+        // 调用MCP工具
+        let result: any;
+        try {
+            // 语音对话发起的调用，调用方为 voice
+            await enforceToolPolicy(ctx, { tool: toolName, args: toolArgs, caller: { name: 'voice' } });
+            result = await callTool(ctx, { name: toolName, arguments: toolArgs });
+            logger.info('[AI WebSocket] 工具调用成功: %s, 结果: %s', toolName, JSON.stringify(result).substring(0, 200));
+        } catch (e: any) {
+            logger.error('[AI WebSocket] 工具调用失败: %s, 错误: %s', toolName, e.message);
+            result = { error: e.message };
+        }
+
+        // 发送工具调用结果回AI
+        const toolResult = {
+            type: 'tool_result',
+            tool_call_id: toolCall.id || toolCall.call_id || `call_${Date.now()}`,
+            result,
+        };
+
+        logger.debug('[AI WebSocket] 发送工具结果: %s', JSON.stringify(toolResult));
+        ws.send(JSON.stringify(toolResult));
+    } catch (e: any) {
+        logger.error('[AI WebSocket] 处理工具调用失败: %s', e.message);
+    }
+}
+
+/**
+ * AI对话（WebSocket 流式版本）
+ */
+async function chatWebSocket(
+    ctx: Context, provider: string, message: string, conversationHistory: ChatHistory,
+    aiConfig: any, onChunk?: (chunk: string) => void,
+): Promise<string> {
+    const endpoint = resolveAgentEndpoint(aiConfig);
+    const requestFormat = aiConfig.requestFormat || 'simple';
+
+    let WS: any;
+    try {
+        WS = require('ws');
+    } catch (e) {
+        throw new Error('缺少 ws 依赖，请安装: npm install ws');
+    }
+
+    logger.debug(`[AI WebSocket] 连接到: ${endpoint}`);
+
+    return new Promise((resolve, reject) => {
+        let fullResponse = '';
+        let isResolved = false;
+
+        const ws = new WS(endpoint, {
+            // 不需要认证，直接连接
+        });
+
+        const emit = (content: string) => {
+            fullResponse += content;
+            if (onChunk) onChunk(content);
+        };
+
+        ws.on('open', () => {
+            logger.debug('[AI WebSocket] 连接已建立');
+
+            // 构建请求消息
+            let requestMessage: any;
+            if (provider === 'ejunz' || requestFormat === 'simple') {
+                // 简单格式：只发送当前消息
+                requestMessage = { message };
+            } else {
+                // OpenAI格式：包含对话历史
+                const messages = [...conversationHistory];
+                messages.push({ role: 'user', content: message });
+                requestMessage = { messages };
+            }
+
+            logger.debug('[AI WebSocket] 发送消息: %s', JSON.stringify(requestMessage));
+            ws.send(JSON.stringify(requestMessage));
+        });
+
+        ws.on('message', async (data: Buffer | string) => {
+            try {
+                const textData = typeof data === 'string' ? data : data.toString('utf8');
+                logger.debug('[AI WebSocket] 收到消息: %s', textData.substring(0, 200));
+
+                // 尝试解析JSON
+                let json: any;
+                try {
+                    json = JSON.parse(textData);
+                } catch {
+                    // 如果不是JSON，可能是纯文本流
+                    if (textData.trim()) emit(textData);
+                    return;
+                }
+
+                // 处理不同类型的消息
+                if (json.type === 'text' || json.type === 'content') {
+                    // 文本内容
+                    const content = json.content || json.text || '';
+                    if (content) emit(content);
+                } else if (json.type === 'tool_call' || json.tool_calls || json.toolCall) {
+                    // 工具调用请求
+                    const toolCalls = json.tool_calls || (json.toolCall ? [json.toolCall] : []);
+                    for (const toolCall of toolCalls) {
+                        // eslint-disable-next-line no-await-in-loop
+                        await handleAgentToolCall(ctx, toolCall, ws);
+                    }
+                } else if (json.type === 'done' || json.type === 'finished') {
+                    // 完成
+                    logger.debug('[AI WebSocket] 响应完成');
+                    if (!isResolved) {
+                        isResolved = true;
+                        ws.close();
+                        resolve(fullResponse);
+                    }
+                } else if (json.message || json.text || json.content) {
+                    // 直接包含回复内容
+                    const content = json.message || json.text || json.content || '';
+                    if (content) emit(content);
+                    // 检查是否完成
+                    if ((json.done || json.finished) && !isResolved) {
+                        isResolved = true;
+                        ws.close();
+                        resolve(fullResponse);
+                    }
+                } else if (json.error) {
+                    // 错误
+                    logger.error('[AI WebSocket] 错误: %s', JSON.stringify(json.error));
+                    ws.close();
+                    if (!isResolved) {
+                        isResolved = true;
+                        reject(new Error(`AI错误: ${json.error.message || JSON.stringify(json.error)}`));
+                    }
+                } else if (typeof json === 'string') {
+                    // 其他类型，尝试提取文本
+                    emit(json);
+                }
+            } catch (e: any) {
+                logger.error('[AI WebSocket] 处理消息失败: %s', e.message);
+            }
+        });
+
+        ws.on('error', (err: Error) => {
+            logger.error('[AI WebSocket] 连接错误: %s', err.message);
+            if (!isResolved) {
+                isResolved = true;
+                reject(err);
+            }
+        });
+
+        ws.on('close', (code: number, reason: Buffer) => {
+            logger.debug(`[AI WebSocket] 连接关闭: ${code} - ${reason?.toString() || ''}`);
+            if (!isResolved) {
+                isResolved = true;
+                resolve(fullResponse);
+            }
+        });
+
+        // 设置超时
+        setTimeout(() => {
+            if (!isResolved) {
+                isResolved = true;
+                ws.close();
+                if (fullResponse) {
+                    resolve(fullResponse);
+                } else {
+                    reject(new Error('AI响应超时'));
+                }
+            }
+        }, 60000); // 60秒超时
+    });
+}
+
+/**
+ * AI对话（HTTP版本，用于非WebSocket endpoint）
+ */
+async function chatHTTP(provider: string, message: string, conversationHistory: ChatHistory, aiConfig: any): Promise<string> {
+    const endpoint = aiConfig.endpoint || 'https://api.openai.com/v1/chat/completions';
+    const model = aiConfig.model || 'gpt-3.5-turbo';
+    const authHeader = aiConfig.authHeader || 'Authorization';
+    const authPrefix = aiConfig.authPrefix !== undefined ? aiConfig.authPrefix : 'Bearer';
+    const requestFormat = aiConfig.requestFormat || 'openai';
+
+    try {
+        const request = superagent
+            .post(endpoint)
+            .set('Content-Type', 'application/json');
+
+        // 设置认证Header（如果有）
+        if (aiConfig.apiKey) {
+            const authValue = authPrefix && authPrefix.trim() !== ''
+                ? `${authPrefix} ${aiConfig.apiKey}`
+                : aiConfig.apiKey;
+            request.set(authHeader, authValue.trim());
+        }
+
+        let requestBody: any;
+        if (provider === 'ejunz' || requestFormat === 'simple') {
+            requestBody = { message };
+        } else {
+            const messages = [...conversationHistory];
+            messages.push({ role: 'user', content: message });
+            requestBody = { model, messages, temperature: 0.7 };
+        }
+
+        const response = await request.send(requestBody);
+        const result = response.body;
+
+        // 尝试多种响应格式
+        if (result.choices?.[0]?.message?.content) return result.choices[0].message.content;
+        if (result.message) return result.message;
+        if (result.text) return result.text;
+        if (result.response) return result.response;
+        if (typeof result === 'string') return result;
+        return JSON.stringify(result);
+    } catch (error: any) {
+        logger.error('AI对话失败: %s', error.message);
+        throw new Error(`AI对话失败: ${error.message}`);
+    }
+}
+
+// endpoint 为 ws(s):// 时走 WebSocket 流式，否则走 HTTP
+for (const name of ['ejunz', 'openai', 'custom']) {
+    registerVoiceProvider('llm', {
+        name,
+        capabilities: { streaming: true, realtime: true, formats: [] },
+        resolveEndpoint: resolveAgentEndpoint,
+        async chat(message, history, aiConfig, { ctx }, onChunk) {
+            if (!isWebSocketEndpoint(resolveAgentEndpoint(aiConfig))) {
+                // HTTP 接口不支持流式，整段回复作为一个分片
+                const text = await chatHTTP(name, message, history, aiConfig);
+                if (onChunk && text) onChunk(text);
+                return text;
+            }
+            return await chatWebSocket(ctx, name, message, history, aiConfig, onChunk);
+        },
+    });
+}
@@ -0,0 +1,35 @@
+import superagent from 'superagent';
+import { registerVoiceProvider } from '../voice-provider';
+
+// 自定义端点：ASR 以 multipart file 上传，TTS 以 JSON { text, voice } 请求并返回音频
+registerVoiceProvider('asr', {
+    name: 'custom',
+    capabilities: { streaming: false, realtime: false, formats: [] },
+    resolveEndpoint: (config) => config.endpoint,
+    async transcribe(audioBuffer, format, asrConfig) {
+        if (!asrConfig.endpoint) throw new Error('custom ASR 需要配置 endpoint');
+        const response = await superagent
+            .post(asrConfig.endpoint)
+            .set('Authorization', `Bearer ${asrConfig.apiKey}`)
+            .attach('file', audioBuffer, `audio.${format}`);
+
+        return response.body.text || response.text || '';
+    },
+});
+
+registerVoiceProvider('tts', {
+    name: 'custom',
+    capabilities: { streaming: false, realtime: false, formats: [] },
+    resolveEndpoint: (config) => config.endpoint,
+    async synthesize(text, ttsConfig) {
+        if (!ttsConfig.endpoint) throw new Error('custom TTS 需要配置 endpoint');
+        const response = await superagent
+            .post(ttsConfig.endpoint)
+            .set('Authorization', `Bearer ${ttsConfig.apiKey}`)
+            .set('Content-Type', 'application/json')
+            .send({ text, voice: ttsConfig.voice || 'alloy' })
+            .responseType('arraybuffer');
+
+        return Buffer.from(response.body);
+    },
+});
@@ -0,0 +1,9 @@
+// 内置 provider，导入即注册
+import './qwen';
+import './openai';
+import './custom';
+import './agent';
+import './local';
+
+export { handleAgentToolCall, isWebSocketEndpoint, resolveAgentEndpoint } from './agent';
+export { qwenTtsRealtime, qwenTtsRealtimeStream } from './qwen';
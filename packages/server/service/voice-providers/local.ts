@@ -0,0 +1,78 @@
+import superagent from 'superagent';
+import { registerVoiceProvider } from '../voice-provider';
+
+/**
+ * 本地 OpenAI 兼容服务（断网时的兜底），endpoint 均为完整地址：
+ * - ASR：whisper.cpp server（/inference）或 /v1/audio/transcriptions
+ * - TTS：piper 等 OpenAI 兼容语音合成（/v1/audio/speech）
+ * - LLM：llama.cpp server 等（/v1/chat/completions）
+ * 本地服务通常不需要认证，配置了 apiKey 时才附带 Authorization
+ */
+const DEFAULT_TIMEOUT = 120000;
+
+function withAuth(request: superagent.SuperAgentRequest, config: any) {
+    if (config.apiKey) request.set('Authorization', `Bearer ${config.apiKey}`);
+    return request.timeout(config.timeout || DEFAULT_TIMEOUT);
+}
+
+registerVoiceProvider('asr', {
+    name: 'local',
+    capabilities: { streaming: false, realtime: false, formats: ['wav', 'mp3', 'ogg', 'flac'] },
+    resolveEndpoint: (asrConfig) => asrConfig.endpoint,
+    async transcribe(audioBuffer, format, asrConfig) {
+        if (!asrConfig.endpoint) throw new Error('本地 ASR 未配置 endpoint');
+        const request = superagent
+            .post(asrConfig.endpoint)
+            .attach('file', audioBuffer, `audio.${format}`)
+            .field('response_format', 'json');
+        if (asrConfig.model) request.field('model', asrConfig.model);
+        const response = await withAuth(request, asrConfig);
+        const text = response.body?.text ?? response.text;
+        if (typeof text !== 'string') throw new Error('本地 ASR 响应格式未知');
+        return text.trim();
+    },
+});
+
+registerVoiceProvider('tts', {
+    name: 'local',
+    capabilities: { streaming: false, realtime: false, formats: ['wav'] },
+    resolveEndpoint: (ttsConfig) => ttsConfig.endpoint,
+    async synthesize(text, ttsConfig) {
+        if (!ttsConfig.endpoint) throw new Error('本地 TTS 未配置 endpoint');
+        const request = superagent
+            .post(ttsConfig.endpoint)
+            .set('Content-Type', 'application/json')
+            .send({
+                model: ttsConfig.model || 'tts-1',
+                input: text,
+                voice: ttsConfig.voice || 'alloy',
+                response_format: 'wav',
+            })
+            .responseType('arraybuffer');
+        const response = await withAuth(request, ttsConfig);
+        return Buffer.from(response.body);
+    },
+});
+
+registerVoiceProvider('llm', {
+    name: 'local',
+    capabilities: { streaming: false, realtime: false, formats: [] },
+    resolveEndpoint: (aiConfig) => aiConfig.endpoint,
+    async chat(message, history, aiConfig, pctx, onChunk) {
+        if (!aiConfig.endpoint) throw new Error('本地 AI 未配置 endpoint');
+        const request = superagent
+            .post(aiConfig.endpoint)
+            .set('Content-Type', 'application/json')
+            .send({
+                model: aiConfig.model || 'local',
+                messages: [...history, { role: 'user', content: message }],
+                temperature: 0.7,
+                stream: false,
+            });
+        const response = await withAuth(request, aiConfig);
+        const text = response.body?.choices?.[0]?.message?.content;
+        if (typeof text !== 'string') throw new Error('本地 AI 响应格式未知');
+        if (onChunk && text) onChunk(text);
+        return text;
+    },
+});
@@ -0,0 +1,45 @@
+import superagent from 'superagent';
+import { registerVoiceProvider } from '../voice-provider';
+
+// OpenAI 及 OpenAI 兼容接口的 ASR / TTS（/v1/audio/transcriptions、/v1/audio/speech）
+const OPENAI_ASR_ENDPOINT = 'https://api.openai.com/v1/audio/transcriptions';
+const OPENAI_TTS_ENDPOINT = 'https://api.openai.com/v1/audio/speech';
+
+registerVoiceProvider('asr', {
+    name: 'openai',
+    capabilities: {
+        streaming: false, realtime: false, formats: ['wav', 'mp3', 'm4a', 'webm', 'ogg', 'flac', 'mp4', 'mpeg', 'mpga'],
+    },
+    resolveEndpoint: (asrConfig) => asrConfig.endpoint || OPENAI_ASR_ENDPOINT,
+    async transcribe(audioBuffer, format, asrConfig) {
+        const request = superagent
+            .post(asrConfig.endpoint || OPENAI_ASR_ENDPOINT)
+            .attach('file', audioBuffer, `audio.${format}`)
+            .field('model', asrConfig.model || 'whisper-1');
+        if (asrConfig.apiKey) request.set('Authorization', `Bearer ${asrConfig.apiKey}`);
+        const response = await request;
+        return response.body.text || '';
+    },
+});
+
+registerVoiceProvider('tts', {
+    name: 'openai',
+    capabilities: { streaming: false, realtime: false, formats: ['mp3'] },
+    resolveEndpoint: (ttsConfig) => ttsConfig.endpoint || OPENAI_TTS_ENDPOINT,
+    async synthesize(text, ttsConfig) {
+        // voice.tts.model 的默认值是 Qwen 模型，这里只使用 OpenAI 风格的模型名
+        const model = ttsConfig.model && !ttsConfig.model.startsWith('qwen') ? ttsConfig.model : 'tts-1';
+        const request = superagent
+            .post(ttsConfig.endpoint || OPENAI_TTS_ENDPOINT)
+            .set('Content-Type', 'application/json')
+            .send({
+                model,
+                input: text,
+                voice: ttsConfig.voice || 'alloy',
+            })
+            .responseType('arraybuffer');
+        if (ttsConfig.apiKey) request.set('Authorization', `Bearer ${ttsConfig.apiKey}`);
+        const response = await request;
+        return Buffer.from(response.body);
+    },
+});
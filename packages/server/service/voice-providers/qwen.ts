@@ -0,0 +1,616 @@
+import superagent from 'superagent';
+import { Logger } from '../../utils';
+import { registerVoiceProvider, TTSRealtimeHandlers, TTSRealtimeSession } from '../voice-provider';
+
+const logger = new Logger('voice');
+
+// 阿里云 DashScope（通义千问）ASR / TTS
+const QWEN_ASR_ENDPOINT = 'https://dashscope.aliyuncs.com/api/v1/services/audio/asr/transcription';
+const QWEN_TTS_ENDPOINT = 'https://dashscope.aliyuncs.com/api/v1/services/aigc/multimodal-generation/generation';
+
+registerVoiceProvider('asr', {
+    name: 'qwen',
+    capabilities: { streaming: false, realtime: false, formats: [] },
+    resolveEndpoint: (asrConfig) => asrConfig.endpoint || QWEN_ASR_ENDPOINT,
+    async transcribe(audioBuffer, format, asrConfig) {
+        // Qwen ASR（文件上传版本）
+        // 注意：qwen-realtime主要用于实时流式（在client端），这里是server端处理文件上传
+
+        // Qwen非实时ASR API（如果有）
+        const qwenEndpoint = asrConfig.endpoint || QWEN_ASR_ENDPOINT;
+        const qwenModel = asrConfig.model || 'qwen-asr';
+
+        try {
+            // 尝试文件上传方式
+            const response = await superagent
+                .post(qwenEndpoint)
+                .set('Authorization', `Bearer ${asrConfig.apiKey}`)
+                .attach('audio', audioBuffer, `audio.${format}`)
+                .field('model', qwenModel);
+
+            const result = response.body;
+            if (result.output && result.output.text) {
+                return result.output.text;
+            } else if (result.text) {
+                return result.text;
+            }
+        } catch (e: any) {
+            // 如果文件上传失败，尝试base64方式
+            const response = await superagent
+                .post(qwenEndpoint)
+                .set('Authorization', `Bearer ${asrConfig.apiKey}`)
+                .set('Content-Type', 'application/json')
+                .send({
+                    model: qwenModel,
+                    audio: audioBuffer.toString('base64'),
+                });
+
+            const result = response.body;
+            if (result.output && result.output.text) {
+                return result.output.text;
+            } else if (result.text) {
+                return result.text;
+            }
+        }
+
+        throw new Error('Qwen ASR API响应格式未知');
+    },
+});
+
+// qwen-realtime 是实时流式 ASR，由 client 端直连（见 handler/asr-proxy.ts），server 端不处理文件上传
+registerVoiceProvider('asr', {
+    name: 'qwen-realtime',
+    capabilities: { streaming: true, realtime: true, formats: ['pcm'] },
+    async transcribe() {
+        throw new Error('qwen-realtime是实时流式ASR，应在client端使用实时连接。server端处理文件上传请使用provider: qwen（如果Qwen支持文件上传）或openai');
+    },
+});
+
+registerVoiceProvider('tts', {
+    name: 'qwen',
+    // realtime 模型（如 qwen3-tts-flash-realtime）通过 WebSocket 流式返回 PCM
+    capabilities: { streaming: true, realtime: true, formats: ['wav', 'pcm'] },
+    resolveEndpoint: (ttsConfig) => ttsConfig.endpoint || QWEN_TTS_ENDPOINT,
+    async synthesize(text, ttsConfig) {
+        const endpoint = ttsConfig.endpoint || QWEN_TTS_ENDPOINT;
+        const voiceName = ttsConfig.voice || 'alloy';
+        // 阿里云Qwen TTS
+        const model = ttsConfig.model || 'qwen3-tts-flash';
+        const languageType = ttsConfig.languageType || 'Chinese';
+
+        // 检查是否是realtime版本，需要使用WebSocket
+        if (model.includes('realtime')) {
+            // realtime版本默认使用流式模式（如果支持）
+            // 这里返回完整Buffer以兼容现有接口
+            // 流式模式通过voiceChatStream方法调用
+            logger.info('使用Qwen TTS Realtime（WebSocket模式）');
+            return await qwenTtsRealtime(text, { ...ttsConfig, voice: voiceName });
+        }
+
+        // 标准HTTP调用（flash版本）
+        // Qwen TTS API调用
+        const requestBody = {
+            model,
+            input: {
+                text,
+                voice: voiceName,
+                language_type: languageType,
+            },
+        };
+
+        // Qwen TTS调用
+        // 不设置responseType，让superagent自动处理
+        const ttsResponse = await superagent
+            .post(endpoint)
+            .set('Authorization', `Bearer ${ttsConfig.apiKey}`)
+            .set('Content-Type', 'application/json')
+            // 暂时不启用SSE，先尝试标准HTTP响应
+            // .set('X-DashScope-SSE', 'enable') // 启用SSE以支持流式响应
+            .send(requestBody);
+
+        // 记录响应信息用于调试
+        const contentType = ttsResponse.headers['content-type'] || '';
+        logger.info('TTS响应Content-Type: %s', contentType);
+        logger.info('TTS响应状态: %s', ttsResponse.status);
+        logger.info('TTS响应body类型: %s', typeof ttsResponse.body);
+
+        // 检查响应类型
+        if (contentType.includes('application/json')) {
+            // JSON格式响应
+            let jsonResponse: any;
+
+            // 处理不同类型的body
+            if (Buffer.isBuffer(ttsResponse.body)) {
+                // 如果是Buffer，转换为字符串再解析
+                const text = ttsResponse.body.toString('utf8');
+                logger.debug('TTS JSON响应（Buffer转字符串）: %s', text.substring(0, 200));
+                jsonResponse = JSON.parse(text);
+            } else if (typeof ttsResponse.body === 'string') {
+                // 如果是字符串，直接解析
+                logger.debug('TTS JSON响应（字符串）: %s', ttsResponse.body.substring(0, 200));
+                jsonResponse = JSON.parse(ttsResponse.body);
+            } else if (typeof ttsResponse.body === 'object' && ttsResponse.body !== null) {
+                // 如果已经是对象（superagent自动解析了JSON）
+                jsonResponse = ttsResponse.body;
+                logger.debug('TTS JSON响应（已解析对象）');
+            } else {
+                // 尝试使用text字段
+                if (ttsResponse.text) {
+                    jsonResponse = JSON.parse(ttsResponse.text);
+                } else {
+                    throw new Error(`无法解析TTS响应: body类型=${typeof ttsResponse.body}`);
+                }
+            }
+
+            logger.info('TTS JSON响应内容: %s', JSON.stringify(jsonResponse, null, 2));
+
+            // Qwen TTS响应格式：output.audio可能是对象（包含url和data）或字符串（base64）
+            if (jsonResponse.output && jsonResponse.output.audio) {
+                const audioData = jsonResponse.output.audio;
+
+                // 如果audio是对象，可能包含url或data字段
+                if (typeof audioData === 'object' && audioData !== null) {
+                    if (audioData.url) {
+                        // 音频URL，需要再次请求
+                        logger.info('TTS返回音频URL: %s', audioData.url);
+                        const audioResponse = await superagent
+                            .get(audioData.url)
+                            .responseType('arraybuffer');
+                        return Buffer.from(audioResponse.body);
+                    } else if (audioData.data && typeof audioData.data === 'string') {
+                        // base64编码的音频数据
+                        logger.info('TTS返回base64音频（在data字段），长度: %d', audioData.data.length);
+                        return Buffer.from(audioData.data, 'base64');
+                    } else {
+                        throw new Error(`TTS音频格式错误: audio对象中没有url或data字段`);
+                    }
+                } else if (typeof audioData === 'string') {
+                    // 直接是base64字符串
+                    logger.info('TTS返回base64音频（字符串），长度: %d', audioData.length);
+                    return Buffer.from(audioData, 'base64');
+                } else {
+                    throw new Error(`TTS音频格式错误: audio字段类型=${typeof audioData}`);
+                }
+            } else if (jsonResponse.output && jsonResponse.output.url) {
+                // 兼容旧格式：音频URL直接在output.url
+                logger.info('TTS返回音频URL（旧格式）: %s', jsonResponse.output.url);
+                const audioResponse = await superagent
+                    .get(jsonResponse.output.url)
+                    .responseType('arraybuffer');
+                return Buffer.from(audioResponse.body);
+            } else {
+                logger.error('TTS响应中没有找到audio或url字段');
+                logger.error('响应结构: %s', JSON.stringify(jsonResponse, null, 2));
+                throw new Error(`Qwen TTS返回格式错误: ${JSON.stringify(jsonResponse)}`);
+            }
+        } else {
+            // 二进制音频流或其他格式
+            const audioBuffer = ttsResponse.body;
+            logger.info('TTS返回非JSON响应，body类型: %s', typeof audioBuffer);
+
+            if (Buffer.isBuffer(audioBuffer)) {
+                logger.info('TTS返回Buffer，长度: %d bytes', audioBuffer.length);
+                return audioBuffer;
+            } else if (audioBuffer instanceof ArrayBuffer) {
+                logger.info('TTS返回ArrayBuffer，长度: %d bytes', audioBuffer.byteLength);
+                return Buffer.from(audioBuffer);
+            } else if (typeof audioBuffer === 'string') {
+                // 可能是base64编码的字符串
+                logger.info('TTS返回字符串，长度: %d', audioBuffer.length);
+                return Buffer.from(audioBuffer, 'base64');
+            } else {
+                logger.error('TTS响应body类型: %s', typeof audioBuffer);
+                logger.error('TTS响应body内容（尝试JSON化）: %s', JSON.stringify(audioBuffer).substring(0, 200));
+                throw new Error(`TTS响应格式不支持: ${typeof audioBuffer}`);
+            }
+        }
+    },
+    async stream(text, ttsConfig, onAudioChunk) {
+        await qwenTtsRealtimeStream(text, ttsConfig, onAudioChunk);
+    },
+    streamRealtime: (ttsConfig, handlers) => openQwenTtsRealtimeSession(ttsConfig, handlers),
+    // 未指定模型时默认使用 qwen3-tts-flash-realtime
+    supportsRealtime: (ttsConfig) => !ttsConfig.model || String(ttsConfig.model).includes('realtime'),
+});
+
+/**
+ * Qwen TTS Realtime 会话：一个 WebSocket 连接上多次 append / commit
+ * 根据文档：https://help.aliyun.com/zh/model-studio/interactive-process-of-qwen-tts-realtime-synthesis
+ */
+function openQwenTtsRealtimeSession(ttsConfig: any, handlers: TTSRealtimeHandlers): TTSRealtimeSession {
+    let WS: any;
+    try {
+        WS = require('ws');
+    } catch (e) {
+        throw new Error('缺少 ws 依赖，请安装: npm install ws');
+    }
+
+    const apiKey = ttsConfig.apiKey;
+    const model = ttsConfig.model || 'qwen3-tts-flash-realtime';
+    const voice = ttsConfig.voice || 'Cherry';
+    const languageType = ttsConfig.languageType || 'Chinese';
+    const url = `wss://dashscope.aliyuncs.com/api-ws/v1/realtime?model=${model}`;
+
+    const ws = new WS(url, {
+        headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'OpenAI-Beta': 'realtime=v1'
+        }
+    });
+    const send = (event: Record<string, any>) => {
+        ws.send(JSON.stringify({ event_id: `event_${Date.now()}_${Math.random().toString(16).slice(2)}`, ...event }));
+    };
+    let ready = false;
+
+    ws.on('open', () => {
+        send({
+            type: 'session.update',
+            session: {
+                modalities: ['audio'],
+                output_audio_format: 'pcm16',
+                sample_rate: 24000,
+                output_audio_transcription: {
+                    language: languageType === 'Chinese' ? 'zh' : 'en'
+                },
+                voice,
+            },
+        });
+    });
+
+    ws.on('message', (data: Buffer | string) => {
+        try {
+            const json = JSON.parse(typeof data === 'string' ? data : data.toString('utf8'));
+            if (json.type === 'session.created' || json.type === 'session.updated') {
+                if (!ready) {
+                    ready = true;
+                    handlers.onReady();
+                }
+            } else if (json.type === 'response.audio.delta') {
+                if (json.delta) handlers.onAudio(Buffer.from(json.delta, 'base64'));
+            } else if (json.type === 'response.audio.done') {
+                handlers.onDone();
+            } else if (json.type === 'error') {
+                // commit 过早时服务端返回 buffer too small，忽略即可
+                if (json.error?.code === 'invalid_value' && json.error?.message?.includes('buffer too small')) {
+                    logger.debug('[TTS Realtime] 缓冲区过小，忽略: %s', json.error.message);
+                    return;
+                }
+                handlers.onError(new Error(`TTS错误: ${json.error?.message || JSON.stringify(json)}`));
+            }
+        } catch (e: any) {
+            logger.error('[TTS Realtime] 处理消息失败: %s', e.message);
+        }
+    });
+
+    ws.on('error', (err: Error) => handlers.onError(err));
+    ws.on('close', (code: number, reason: Buffer) => handlers.onClose(code, reason?.toString() || ''));
+
+    return {
+        append: (text) => send({ type: 'input_text_buffer.append', text }),
+        commit: () => send({ type: 'input_text_buffer.commit' }),
+        finish: () => send({ type: 'session.finish' }),
+        close: () => ws.close(),
+    };
+}
+
+/**
+ * Qwen TTS Realtime WebSocket实现（流式版本）
+ * 根据文档：https://help.aliyun.com/zh/model-studio/interactive-process-of-qwen-tts-realtime-synthesis
+ * @param onAudioChunk 收到音频分片时的回调函数
+ */
+export async function qwenTtsRealtimeStream(text: string, ttsConfig: any, onAudioChunk: (chunk: Buffer) => void): Promise<void> {
+    let WS: any;
+    try {
+        WS = require('ws');
+    } catch (e) {
+        throw new Error('缺少 ws 依赖，请安装: npm install ws');
+    }
+
+    const apiKey = ttsConfig.apiKey;
+    const model = ttsConfig.model || 'qwen3-tts-flash-realtime';
+    const voice = ttsConfig.voice || 'Cherry';
+    const languageType = ttsConfig.languageType || 'Chinese';
+    
+    // Qwen TTS Realtime WebSocket地址
+    const baseUrl = 'wss://dashscope.aliyuncs.com/api-ws/v1/realtime';
+    const url = `${baseUrl}?model=${model}`;
+
+    logger.debug(`[TTS Realtime Stream] 连接到: ${url.replace(apiKey, '***')}`);
+
+    return new Promise((resolve, reject) => {
+        let sessionId: string | null = null;
+        let isTextSent = false;
+
+        const ws = new WS(url, {
+            headers: {
+                'Authorization': `Bearer ${apiKey}`,
+                'OpenAI-Beta': 'realtime=v1'
+            }
+        });
+
+        ws.on('open', () => {
+            logger.debug('[TTS Realtime Stream] 连接已建立');
+            
+            // 发送session.update配置
+            const sessionUpdate = {
+                event_id: `event_${Date.now()}`,
+                type: 'session.update',
+                session: {
+                    modalities: ['audio'],
+                    output_audio_format: 'pcm16',
+                    sample_rate: 24000,
+                    output_audio_transcription: {
+                        language: languageType === 'Chinese' ? 'zh' : 'en'
+                    },
+                    voice: voice
+                }
+            };
+            
+            ws.send(JSON.stringify(sessionUpdate));
+            logger.debug('[TTS Realtime Stream] 发送session.update');
+        });
+
+        ws.on('message', (data: Buffer | string) => {
+            try {
+                const textData = typeof data === 'string' ? data : data.toString('utf8');
+                const json = JSON.parse(textData);
+                
+                // 移除所有频繁的日志输出，减少噪音
+                // logger.debug('[TTS Realtime Stream] 收到消息: %s', json.type);
+
+                if (json.type === 'session.created') {
+                    sessionId = json.session?.id || null;
+                    // 会话创建日志改为debug，减少噪音
+                    // logger.debug('[TTS Realtime Stream] 会话已创建: %s', sessionId);
+                } else if (json.type === 'session.updated') {
+                    // logger.debug('[TTS Realtime Stream] 会话已更新');
+                    // 开始发送文本
+                    if (!isTextSent) {
+                        isTextSent = true;
+                        sendText();
+                    }
+                } else if (json.type === 'response.created') {
+                    // logger.debug('[TTS Realtime Stream] 响应已创建，开始接收音频');
+                } else if (json.type === 'response.audio.delta') {
+                    // 接收音频分片，立即发送给客户端
+                    if (json.delta) {
+                        const audioChunk = Buffer.from(json.delta, 'base64');
+                        // 完全移除频繁的音频分片日志
+                        // logger.debug('[TTS Realtime Stream] 收到音频分片: %d bytes，立即推送', audioChunk.length);
+                        // 立即调用回调函数发送给客户端
+                        onAudioChunk(audioChunk);
+                    }
+                } else if (json.type === 'response.audio.done') {
+                    // 音频生成完成
+                    logger.debug('[TTS Realtime Stream] 音频生成完成');
+                    
+                    // 发送session.finish并关闭连接
+                    const finishEvent = {
+                        event_id: `event_${Date.now()}`,
+                        type: 'session.finish'
+                    };
+                    ws.send(JSON.stringify(finishEvent));
+                    
+                    setTimeout(() => {
+                        ws.close();
+                        resolve();
+                    }, 100);
+                } else if (json.type === 'error') {
+                    logger.error('[TTS Realtime Stream] 错误: %s', JSON.stringify(json));
+                    ws.close();
+                    reject(new Error(`TTS错误: ${json.error?.message || JSON.stringify(json)}`));
+                }
+            } catch (e: any) {
+                logger.error('[TTS Realtime Stream] 处理消息失败: %s', e.message);
+            }
+        });
+
+        ws.on('error', (err: Error) => {
+            logger.error('[TTS Realtime Stream] 连接错误: %s', err.message);
+            reject(err);
+        });
+
+        ws.on('close', (code: number, reason: Buffer) => {
+            logger.debug(`[TTS Realtime Stream] 连接关闭: ${code} - ${reason?.toString() || ''}`);
+        });
+
+        // 发送文本到缓冲区
+        function sendText() {
+            const chunkSize = 100; // 每次发送100个字符
+            let offset = 0;
+            
+            function sendChunk() {
+                if (offset >= text.length) {
+                    // 所有文本已发送，发送commit触发合成
+                    const commitEvent = {
+                        event_id: `event_${Date.now()}`,
+                        type: 'input_text_buffer.commit'
+                    };
+                    ws.send(JSON.stringify(commitEvent));
+                    logger.debug('[TTS Realtime Stream] 文本发送完成，发送commit');
+                    return;
+                }
+
+                const chunk = text.substring(offset, offset + chunkSize);
+                const appendEvent = {
+                    event_id: `event_${Date.now()}_${Math.random().toString(16).slice(2)}`,
+                    type: 'input_text_buffer.append',
+                    text: chunk
+                };
+                
+                ws.send(JSON.stringify(appendEvent));
+                logger.debug('[TTS Realtime Stream] 发送文本块: %s', chunk.substring(0, 50));
+                
+                offset += chunkSize;
+                
+                // 继续发送下一块
+                setTimeout(sendChunk, 10);
+            }
+            
+            sendChunk();
+        }
+    });
+}
+
+/**
+ * Qwen TTS Realtime WebSocket实现（非流式版本，兼容旧接口）
+ * 根据文档：https://help.aliyun.com/zh/model-studio/interactive-process-of-qwen-tts-realtime-synthesis
+ */
+export async function qwenTtsRealtime(text: string, ttsConfig: any): Promise<Buffer> {
+    let WS: any;
+    try {
+        WS = require('ws');
+    } catch (e) {
+        throw new Error('缺少 ws 依赖，请安装: npm install ws');
+    }
+
+    const apiKey = ttsConfig.apiKey;
+    const model = ttsConfig.model || 'qwen3-tts-flash-realtime';
+    const voice = ttsConfig.voice || 'Cherry';
+    const languageType = ttsConfig.languageType || 'Chinese';
+    
+    // Qwen TTS Realtime WebSocket地址
+    const baseUrl = 'wss://dashscope.aliyuncs.com/api-ws/v1/realtime';
+    const url = `${baseUrl}?model=${model}`;
+
+    logger.info(`[TTS Realtime] 连接到: ${url.replace(apiKey, '***')}`);
+
+    return new Promise((resolve, reject) => {
+        const audioChunks: Buffer[] = [];
+        let sessionId: string | null = null;
+        let isTextSent = false;
+
+        const ws = new WS(url, {
+            headers: {
+                'Authorization': `Bearer ${apiKey}`,
+                'OpenAI-Beta': 'realtime=v1'
+            }
+        });
+
+        ws.on('open', () => {
+            logger.info('[TTS Realtime] 连接已建立');
+            
+            // 发送session.update配置
+            const sessionUpdate = {
+                event_id: `event_${Date.now()}`,
+                type: 'session.update',
+                session: {
+                    modalities: ['audio'],
+                    output_audio_format: 'pcm16',
+                    sample_rate: 24000,
+                    output_audio_transcription: {
+                        language: languageType === 'Chinese' ? 'zh' : 'en'
+                    },
+                    voice: voice
+                }
+            };
+            
+            ws.send(JSON.stringify(sessionUpdate));
+            logger.debug('[TTS Realtime] 发送session.update');
+        });
+
+        ws.on('message', (data: Buffer | string) => {
+            try {
+                const textData = typeof data === 'string' ? data : data.toString('utf8');
+                const json = JSON.parse(textData);
+                
+                // 移除频繁的消息类型日志，减少噪音
+                // logger.debug('[TTS Realtime] 收到消息: %s', json.type);
+
+                if (json.type === 'session.created') {
+                    sessionId = json.session?.id || null;
+                    logger.info('[TTS Realtime] 会话已创建: %s', sessionId);
+                    // 不在这里发送文本，等待session.updated
+                } else if (json.type === 'session.updated') {
+                    logger.info('[TTS Realtime] 会话已更新');
+                    // 开始发送文本
+                    if (!isTextSent) {
+                        isTextSent = true;
+                        sendText();
+                    }
+                } else if (json.type === 'response.created') {
+                    logger.info('[TTS Realtime] 响应已创建，开始接收音频');
+                } else if (json.type === 'response.audio.delta') {
+                    // 接收音频分片
+                    if (json.delta) {
+                        const audioChunk = Buffer.from(json.delta, 'base64');
+                        audioChunks.push(audioChunk);
+                        // 完全移除频繁的音频分片日志
+                        // logger.debug('[TTS Realtime] 收到音频分片: %d bytes', audioChunk.length);
+                    }
+                } else if (json.type === 'response.audio.done') {
+                    // 音频生成完成
+                    logger.info('[TTS Realtime] 音频生成完成，总大小: %d bytes', 
+                        audioChunks.reduce((sum, chunk) => sum + chunk.length, 0));
+                    
+                    // 合并所有音频分片
+                    const fullAudio = Buffer.concat(audioChunks);
+                    
+                    // 发送session.finish并关闭连接
+                    const finishEvent = {
+                        event_id: `event_${Date.now()}`,
+                        type: 'session.finish'
+                    };
+                    ws.send(JSON.stringify(finishEvent));
+                    
+                    setTimeout(() => {
+                        ws.close();
+                        resolve(fullAudio);
+                    }, 100);
+                } else if (json.type === 'error') {
+                    logger.error('[TTS Realtime] 错误: %s', JSON.stringify(json));
+                    ws.close();
+                    reject(new Error(`TTS错误: ${json.error?.message || JSON.stringify(json)}`));
+                }
+            } catch (e: any) {
+                logger.error('[TTS Realtime] 处理消息失败: %s', e.message);
+            }
+        });
+
+        ws.on('error', (err: Error) => {
+            logger.error('[TTS Realtime] 连接错误: %s', err.message);
+            reject(err);
+        });
+
+        ws.on('close', (code: number, reason: Buffer) => {
+            logger.info(`[TTS Realtime] 连接关闭: ${code} - ${reason?.toString() || ''}`);
+        });
+
+        // 发送文本到缓冲区
+        function sendText() {
+            // 将文本分块发送（每次最多一定长度）
+            const chunkSize = 100; // 每次发送100个字符
+            let offset = 0;
+            
+            function sendChunk() {
+                if (offset >= text.length) {
+                    // 所有文本已发送，发送commit触发合成
+                    const commitEvent = {
+                        event_id: `event_${Date.now()}`,
+                        type: 'input_text_buffer.commit'
+                    };
+                    ws.send(JSON.stringify(commitEvent));
+                    logger.info('[TTS Realtime] 文本发送完成，发送commit');
+                    return;
+                }
+
+                const chunk = text.substring(offset, offset + chunkSize);
+                const appendEvent = {
+                    event_id: `event_${Date.now()}_${Math.random().toString(16).slice(2)}`,
+                    type: 'input_text_buffer.append',
+                    text: chunk
+                };
+                
+                ws.send(JSON.stringify(appendEvent));
+                logger.debug('[TTS Realtime] 发送文本块: %s', chunk.substring(0, 50));
+                
+                offset += chunkSize;
+                
+                // 继续发送下一块
+                setTimeout(sendChunk, 10);
+            }
+            
+            sendChunk();
+        }
+    });
+}
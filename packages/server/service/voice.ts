@@ -1,25 +1,46 @@
 import { Context, Service } from 'cordis';
-import superagent from 'superagent';
 import { config } from '../config';
+import { answerConfirmationByVoice } from '../model/mcp-policy';
 import { Logger } from '../utils';
-import { callTool, listTools } from '../mcp-tools';
+import {
+    getVoiceProvider, listVoiceProviders, resolveVoiceProviderChain, runWithVoiceFallback,
+    TTSProvider, TTSRealtimeSession, VoiceCallOptions, VoiceProviderCandidate, VoiceProviderContext, VoiceProviderKind,
+} from './voice-provider';
+import { VoiceHealthMonitor } from './voice-health';
+import {
+    handleAgentToolCall, isWebSocketEndpoint, resolveAgentEndpoint,
+} from './voice-providers';
 
 const logger = new Logger('voice');
 
 export interface IVoiceService {
-    asr(audioData: Buffer | string, format?: string): Promise<string>;
-    tts(text: string, voice?: string): Promise<Buffer>;
-    chat(message: string, conversationHistory?: Array<{ role: string; content: string }>): Promise<string>;
-    chatStream(message: string, conversationHistory?: Array<{ role: string; content: string }>, onChunk?: (chunk: string) => void): Promise<string>;
+    asr(audioData: Buffer | string, format?: string, options?: VoiceCallOptions): Promise<string>;
+    tts(text: string, voice?: string, options?: VoiceCallOptions): Promise<Buffer>;
+    // TTS 主 provider 当前配置是否支持实时合成
+    supportsRealtimeTts(): boolean;
+    // 实时 TTS：PCM16（24kHz 单声道）音频边合成边回调
+    streamTtsRealtime(text: string, onAudioChunk: (chunk: Buffer) => void, voice?: string, options?: VoiceCallOptions): Promise<void>;
+    chat(message: string, conversationHistory?: Array<{ role: string; content: string }>, options?: VoiceCallOptions): Promise<string>;
+    chatStream(
+        message: string,
+        conversationHistory?: Array<{ role: string; content: string }>,
+        onChunk?: (chunk: string) => void,
+        options?: VoiceCallOptions
+    ): Promise<string>;
     chatStreamWithTts(
         message: string, 
         conversationHistory?: Array<{ role: string; content: string }>, 
         onAudioChunk?: (chunk: Buffer) => void,
         onTextChunk?: (chunk: string) => void,
-        useCache?: boolean
+        useCache?: boolean,
+        existingAudioId?: string,
+        options?: VoiceCallOptions
     ): Promise<string | { text: string; audioId?: string }>;
 }
 
+// 一轮对话中各环节实际使用的 provider
+export type VoiceTurnProviders = Partial<Record<VoiceProviderKind, string>>;
+
 // 音频缓存接口
 interface AudioCacheEntry {
     audioChunks: Buffer[];
@@ -36,16 +57,20 @@ class VoiceService extends Service implements IVoiceService {
     private audioCache = new Map<string, AudioCacheEntry>();
     private readonly CACHE_EXPIRE_TIME = 5 * 60 * 1000; // 5分钟过期
     private readonly CACHE_CLEANUP_INTERVAL = 60 * 1000; // 每分钟清理一次过期缓存
-    
-    // 暴露流式TTS方法供handler调用（公共方法）
-    async streamTtsRealtime(text: string, ttsConfig: any, onAudioChunk: (chunk: Buffer) => void): Promise<void> {
-        return await this.qwenTtsRealtimeStream(text, ttsConfig, onAudioChunk);
-    }
+
     private voiceConfig: any;
+    // 每类 provider 最近一次实际使用的名称
+    private lastProviders: { asr?: string; tts?: string; llm?: string } = {};
+    private health: VoiceHealthMonitor;
+
+    private get providerContext(): VoiceProviderContext {
+        return { ctx: this.ctx };
+    }
 
     constructor(ctx: Context) {
         super(ctx, 'voice');
         this.voiceConfig = (config as any).voice || {};
+        this.health = new VoiceHealthMonitor(this.voiceConfig.fallback?.healthCheckTimeout || 3000);
         
         // 启动缓存清理定时器
         setInterval(() => {
@@ -172,113 +197,89 @@ class VoiceService extends Service implements IVoiceService {
         if (this.voiceConfig.ai?.provider) {
             this.logger.info(`AI provider: ${this.voiceConfig.ai.provider}`);
         }
+        const fallbackConfig = this.voiceConfig.fallback || {};
+        if (fallbackConfig.enabled) {
+            this.logger.info('本地兜底已启用，端点检查间隔: %dms', fallbackConfig.healthCheckInterval || 30000);
+            this.checkVoiceHealth();
+            setInterval(() => {
+                this.checkVoiceHealth();
+            }, fallbackConfig.healthCheckInterval || 30000);
+        }
     }
 
     /**
-     * ASR: 语音转文字
+     * 生成 provider 候选链
+     * 启用本地兜底时，本地 provider 排在可达的 provider 之后、不可达的 provider 之前，
+     * 这样云端不可达时直接使用本地服务，不必每次等待云端超时
      */
-    async asr(audioData: Buffer | string, format = 'wav'): Promise<string> {
-        const asrConfig = this.voiceConfig.asr || {};
-        if (!asrConfig.provider || !asrConfig.apiKey) {
-            throw new Error('ASR未配置：请设置 voice.asr.provider 和 voice.asr.apiKey');
+    private providerChain(kind: VoiceProviderKind, requested?: string): VoiceProviderCandidate[] {
+        const section = kind === 'llm' ? 'ai' : kind;
+        const candidates = resolveVoiceProviderChain(this.voiceConfig[section], requested);
+        const local = this.localCandidate(kind);
+        if (!local || candidates.some((c) => c.provider === local.provider)) return candidates;
+
+        const reachable: VoiceProviderCandidate[] = [];
+        const unreachable: VoiceProviderCandidate[] = [];
+        for (const candidate of candidates) {
+            const endpoint = getVoiceProvider(kind, candidate.provider)?.resolveEndpoint?.(candidate.config);
+            (this.health.isReachable(endpoint) ? reachable : unreachable).push(candidate);
         }
+        if (unreachable.length) {
+            this.logger.debug('%s provider 不可达: %s，优先使用本地服务', kind, unreachable.map((c) => c.provider).join(', '));
+        }
+        return [...reachable, local, ...unreachable];
+    }
 
-        const provider = asrConfig.provider.toLowerCase();
-        const endpoint = asrConfig.endpoint || 'https://api.openai.com/v1/audio/transcriptions';
-        const model = asrConfig.model || 'whisper-1';
-
-        try {
-            if (provider === 'openai') {
-                // 处理base64字符串或Buffer
-                let audioBuffer: Buffer;
-                if (typeof audioData === 'string') {
-                    // 假设是base64编码
-                    audioBuffer = Buffer.from(audioData, 'base64');
-                } else {
-                    audioBuffer = audioData;
-                }
-
-                const response = await superagent
-                    .post(endpoint)
-                    .set('Authorization', `Bearer ${asrConfig.apiKey}`)
-                    .attach('file', audioBuffer, `audio.${format}`)
-                    .field('model', model);
-
-                const result = response.body;
-                return result.text || '';
-            } else if (provider === 'qwen' || provider === 'qwen-realtime') {
-                // Qwen ASR（文件上传版本）
-                // 注意：qwen-realtime主要用于实时流式（在client端），这里是server端处理文件上传
-                let audioBuffer: Buffer;
-                if (typeof audioData === 'string') {
-                    audioBuffer = Buffer.from(audioData, 'base64');
-                } else {
-                    audioBuffer = audioData;
-                }
-
-                // 对于qwen-realtime配置，如果是文件上传，可能需要转换格式或使用临时存储
-                // 这里先尝试使用Qwen的ASR API（如果支持文件上传）
-                // 或者提示用户应该使用实时ASR
-                if (provider === 'qwen-realtime') {
-                    throw new Error('qwen-realtime是实时流式ASR，应在client端使用实时连接。server端处理文件上传请使用provider: qwen（如果Qwen支持文件上传）或openai');
-                }
+    private localCandidate(kind: VoiceProviderKind): VoiceProviderCandidate | null {
+        const fallbackConfig = this.voiceConfig.fallback || {};
+        const localConfig = fallbackConfig[kind === 'llm' ? 'ai' : kind];
+        if (!fallbackConfig.enabled || !localConfig?.endpoint) return null;
+        return { provider: 'local', config: { ...localConfig, provider: 'local' } };
+    }
 
-                // Qwen非实时ASR API（如果有）
-                const qwenEndpoint = asrConfig.endpoint || 'https://dashscope.aliyuncs.com/api/v1/services/audio/asr/transcription';
-                const qwenModel = asrConfig.model || 'qwen-asr';
+    // 检查所有已配置端点（含本地兜底）的可达性
+    private async checkVoiceHealth() {
+        const kinds: VoiceProviderKind[] = ['asr', 'tts', 'llm'];
+        const checks: Promise<any>[] = [];
+        for (const kind of kinds) {
+            const section = this.voiceConfig[kind === 'llm' ? 'ai' : kind];
+            const candidates = resolveVoiceProviderChain(section);
+            const local = this.localCandidate(kind);
+            if (local) candidates.push(local);
+            for (const candidate of candidates) {
+                const endpoint = getVoiceProvider(kind, candidate.provider)?.resolveEndpoint?.(candidate.config);
+                if (endpoint) checks.push(this.health.check(endpoint, candidate.config.healthUrl));
+            }
+        }
+        await Promise.all(checks);
+    }
 
-                try {
-                    // 尝试文件上传方式
-                    const response = await superagent
-                        .post(qwenEndpoint)
-                        .set('Authorization', `Bearer ${asrConfig.apiKey}`)
-                        .attach('audio', audioBuffer, `audio.${format}`)
-                        .field('model', qwenModel);
-
-                    const result = response.body;
-                    if (result.output && result.output.text) {
-                        return result.output.text;
-                    } else if (result.text) {
-                        return result.text;
-                    }
-                } catch (e: any) {
-                    // 如果文件上传失败，尝试base64方式
-                    const response = await superagent
-                        .post(qwenEndpoint)
-                        .set('Authorization', `Bearer ${asrConfig.apiKey}`)
-                        .set('Content-Type', 'application/json')
-                        .send({
-                            model: qwenModel,
-                            audio: audioBuffer.toString('base64'),
-                        });
-
-                    const result = response.body;
-                    if (result.output && result.output.text) {
-                        return result.output.text;
-                    } else if (result.text) {
-                        return result.text;
-                    }
-                }
+    private recordProvider(kind: VoiceProviderKind, provider: string, options: VoiceCallOptions) {
+        this.lastProviders[kind] = provider;
+        options.onProvider?.(kind, provider);
+    }
 
-                throw new Error('Qwen ASR API响应格式未知');
-            } else if (provider === 'custom') {
-                // 自定义端点
-                let audioBuffer: Buffer;
-                if (typeof audioData === 'string') {
-                    audioBuffer = Buffer.from(audioData, 'base64');
-                } else {
-                    audioBuffer = audioData;
-                }
+    /**
+     * ASR: 语音转文字
+     */
+    async asr(audioData: Buffer | string, format = 'wav', options: VoiceCallOptions = {}): Promise<string> {
+        const candidates = this.providerChain('asr', options.provider);
+        if (!candidates.length) {
+            throw new Error('ASR未配置：请设置 voice.asr.provider');
+        }
 
-                const response = await superagent
-                    .post(endpoint)
-                    .set('Authorization', `Bearer ${asrConfig.apiKey}`)
-                    .attach('file', audioBuffer, `audio.${format}`);
+        // 处理base64字符串或Buffer
+        const audioBuffer = typeof audioData === 'string' ? Buffer.from(audioData, 'base64') : audioData;
 
-                return response.body.text || response.text || '';
-            } else {
-                throw new Error(`不支持的ASR provider: ${provider}`);
-            }
+        try {
+            const { result, provider } = await runWithVoiceFallback(
+                'asr',
+                candidates,
+                (asrProvider, providerConfig) => asrProvider.transcribe(audioBuffer, format, providerConfig, this.providerContext),
+                (asrProvider) => !asrProvider.capabilities.formats.length || asrProvider.capabilities.formats.includes(format),
+            );
+            this.recordProvider('asr', provider, options);
+            return result;
         } catch (error: any) {
             this.logger.error('ASR转换失败: %s', error.message);
             throw new Error(`ASR转换失败: ${error.message}`);
@@ -288,176 +289,22 @@ class VoiceService extends Service implements IVoiceService {
     /**
      * TTS: 文字转语音
      */
-    async tts(text: string, voice?: string): Promise<Buffer> {
-        const ttsConfig = this.voiceConfig.tts || {};
-        if (!ttsConfig.provider || !ttsConfig.apiKey) {
-            throw new Error('TTS未配置：请设置 voice.tts.provider 和 voice.tts.apiKey');
+    async tts(text: string, voice?: string, options: VoiceCallOptions = {}): Promise<Buffer> {
+        const candidates = this.providerChain('tts', options.provider);
+        if (!candidates.length) {
+            throw new Error('TTS未配置：请设置 voice.tts.provider');
         }
 
-        const provider = ttsConfig.provider.toLowerCase();
-        const endpoint = ttsConfig.endpoint || (provider === 'qwen' 
-            ? 'https://dashscope.aliyuncs.com/api/v1/services/aigc/multimodal-generation/generation'
-            : 'https://api.openai.com/v1/audio/speech');
-        const voiceName = voice || ttsConfig.voice || 'alloy';
-
         try {
-            if (provider === 'openai') {
-                const response = await superagent
-                    .post(endpoint)
-                    .set('Authorization', `Bearer ${ttsConfig.apiKey}`)
-                    .set('Content-Type', 'application/json')
-                    .send({
-                        model: 'tts-1',
-                        input: text,
-                        voice: voiceName,
-                    })
-                    .responseType('arraybuffer');
-
-                return Buffer.from(response.body);
-            } else if (provider === 'qwen') {
-                // 阿里云Qwen TTS
-                const model = ttsConfig.model || 'qwen3-tts-flash';
-                const languageType = ttsConfig.languageType || 'Chinese';
-                
-                // 检查是否是realtime版本，需要使用WebSocket
-                if (model.includes('realtime')) {
-                    // realtime版本默认使用流式模式（如果支持）
-                    // 这里返回完整Buffer以兼容现有接口
-                    // 流式模式通过voiceChatStream方法调用
-                    this.logger.info('使用Qwen TTS Realtime（WebSocket模式）');
-                    return await this.qwenTtsRealtime(text, { ...ttsConfig, voice: voiceName });
-                }
-                
-                // 标准HTTP调用（flash版本）
-                // Qwen TTS API调用
-                const requestBody = {
-                    model,
-                    input: {
-                        text,
-                        voice: voiceName,
-                        language_type: languageType,
-                    },
-                };
-
-                // Qwen TTS调用
-                // 不设置responseType，让superagent自动处理
-                const ttsResponse = await superagent
-                    .post(endpoint)
-                    .set('Authorization', `Bearer ${ttsConfig.apiKey}`)
-                    .set('Content-Type', 'application/json')
-                    // 暂时不启用SSE，先尝试标准HTTP响应
-                    // .set('X-DashScope-SSE', 'enable') // 启用SSE以支持流式响应
-                    .send(requestBody);
-
-                // 记录响应信息用于调试
-                const contentType = ttsResponse.headers['content-type'] || '';
-                this.logger.info('TTS响应Content-Type: %s', contentType);
-                this.logger.info('TTS响应状态: %s', ttsResponse.status);
-                this.logger.info('TTS响应body类型: %s', typeof ttsResponse.body);
-                
-                // 检查响应类型
-                if (contentType.includes('application/json')) {
-                    // JSON格式响应
-                    let jsonResponse: any;
-                    
-                    // 处理不同类型的body
-                    if (Buffer.isBuffer(ttsResponse.body)) {
-                        // 如果是Buffer，转换为字符串再解析
-                        const text = ttsResponse.body.toString('utf8');
-                        this.logger.debug('TTS JSON响应（Buffer转字符串）: %s', text.substring(0, 200));
-                        jsonResponse = JSON.parse(text);
-                    } else if (typeof ttsResponse.body === 'string') {
-                        // 如果是字符串，直接解析
-                        this.logger.debug('TTS JSON响应（字符串）: %s', ttsResponse.body.substring(0, 200));
-                        jsonResponse = JSON.parse(ttsResponse.body);
-                    } else if (typeof ttsResponse.body === 'object' && ttsResponse.body !== null) {
-                        // 如果已经是对象（superagent自动解析了JSON）
-                        jsonResponse = ttsResponse.body;
-                        this.logger.debug('TTS JSON响应（已解析对象）');
-                    } else {
-                        // 尝试使用text字段
-                        if (ttsResponse.text) {
-                            jsonResponse = JSON.parse(ttsResponse.text);
-                        } else {
-                            throw new Error(`无法解析TTS响应: body类型=${typeof ttsResponse.body}`);
-                        }
-                    }
-                    
-                    this.logger.info('TTS JSON响应内容: %s', JSON.stringify(jsonResponse, null, 2));
-                    
-                    // Qwen TTS响应格式：output.audio可能是对象（包含url和data）或字符串（base64）
-                    if (jsonResponse.output && jsonResponse.output.audio) {
-                        const audioData = jsonResponse.output.audio;
-                        
-                        // 如果audio是对象，可能包含url或data字段
-                        if (typeof audioData === 'object' && audioData !== null) {
-                            if (audioData.url) {
-                                // 音频URL，需要再次请求
-                                this.logger.info('TTS返回音频URL: %s', audioData.url);
-                                const audioResponse = await superagent
-                                    .get(audioData.url)
-                                    .responseType('arraybuffer');
-                                return Buffer.from(audioResponse.body);
-                            } else if (audioData.data && typeof audioData.data === 'string') {
-                                // base64编码的音频数据
-                                this.logger.info('TTS返回base64音频（在data字段），长度: %d', audioData.data.length);
-                                return Buffer.from(audioData.data, 'base64');
-                            } else {
-                                throw new Error(`TTS音频格式错误: audio对象中没有url或data字段`);
-                            }
-                        } else if (typeof audioData === 'string') {
-                            // 直接是base64字符串
-                            this.logger.info('TTS返回base64音频（字符串），长度: %d', audioData.length);
-                            return Buffer.from(audioData, 'base64');
-                        } else {
-                            throw new Error(`TTS音频格式错误: audio字段类型=${typeof audioData}`);
-                        }
-                    } else if (jsonResponse.output && jsonResponse.output.url) {
-                        // 兼容旧格式：音频URL直接在output.url
-                        this.logger.info('TTS返回音频URL（旧格式）: %s', jsonResponse.output.url);
-                        const audioResponse = await superagent
-                            .get(jsonResponse.output.url)
-                            .responseType('arraybuffer');
-                        return Buffer.from(audioResponse.body);
-                    } else {
-                        this.logger.error('TTS响应中没有找到audio或url字段');
-                        this.logger.error('响应结构: %s', JSON.stringify(jsonResponse, null, 2));
-                        throw new Error(`Qwen TTS返回格式错误: ${JSON.stringify(jsonResponse)}`);
-                    }
-                } else {
-                    // 二进制音频流或其他格式
-                    const audioBuffer = ttsResponse.body;
-                    this.logger.info('TTS返回非JSON响应，body类型: %s', typeof audioBuffer);
-                    
-                    if (Buffer.isBuffer(audioBuffer)) {
-                        this.logger.info('TTS返回Buffer，长度: %d bytes', audioBuffer.length);
-                        return audioBuffer;
-                    } else if (audioBuffer instanceof ArrayBuffer) {
-                        this.logger.info('TTS返回ArrayBuffer，长度: %d bytes', audioBuffer.byteLength);
-                        return Buffer.from(audioBuffer);
-                    } else if (typeof audioBuffer === 'string') {
-                        // 可能是base64编码的字符串
-                        this.logger.info('TTS返回字符串，长度: %d', audioBuffer.length);
-                        return Buffer.from(audioBuffer, 'base64');
-                    } else {
-                        this.logger.error('TTS响应body类型: %s', typeof audioBuffer);
-                        this.logger.error('TTS响应body内容（尝试JSON化）: %s', JSON.stringify(audioBuffer).substring(0, 200));
-                        throw new Error(`TTS响应格式不支持: ${typeof audioBuffer}`);
-                    }
-                }
-            } else if (provider === 'custom') {
-                // 自定义端点
-                const response = await superagent
-                    .post(endpoint)
-                    .set('Authorization', `Bearer ${ttsConfig.apiKey}`)
-                    .set('Content-Type', 'application/json')
-                    .send({ text, voice: voiceName })
-                    .responseType('arraybuffer');
-
-                return Buffer.from(response.body);
-            } else {
-                throw new Error(`不支持的TTS provider: ${provider}`);
-            }
+            const { result, provider } = await runWithVoiceFallback(
+                'tts',
+                candidates,
+                (ttsProvider, providerConfig) => ttsProvider.synthesize(
+                    text, { ...providerConfig, voice: voice || providerConfig.voice }, this.providerContext,
+                ),
+            );
+            this.recordProvider('tts', provider, options);
+            return result;
         } catch (error: any) {
             this.logger.error('TTS转换失败: %s', error.message);
             if (error.response) {
@@ -476,331 +323,226 @@ class VoiceService extends Service implements IVoiceService {
         }
     }
 
-    /**
-     * AI对话（WebSocket流式版本）
-     */
-    async chatStream(message: string, conversationHistory: Array<{ role: string; content: string }> = [], onChunk?: (chunk: string) => void): Promise<string> {
-        const aiConfig = this.voiceConfig.ai || {};
-        if (!aiConfig.provider) {
-            throw new Error('AI未配置：请设置 voice.ai.provider');
-        }
-
-        const provider = aiConfig.provider.toLowerCase();
-        const endpoint = aiConfig.endpoint || 'wss://beta.ejunz.com/api/agent/A4/stream';
-        const requestFormat = aiConfig.requestFormat || 'simple';
-
-        // 检查是否为WebSocket URL
-        if (!endpoint.startsWith('ws://') && !endpoint.startsWith('wss://')) {
-            // 如果不是WebSocket，回退到HTTP方式（用于其他provider）
-            return await this.chatHTTP(message, conversationHistory);
-        }
-
-        let WS: any;
-        try {
-            WS = require('ws');
-        } catch (e) {
-            throw new Error('缺少 ws 依赖，请安装: npm install ws');
-        }
-
-        this.logger.debug(`[AI WebSocket] 连接到: ${endpoint}`);
-
-        return new Promise((resolve, reject) => {
-            let fullResponse = '';
-            let isResolved = false;
-
-            const ws = new WS(endpoint, {
-                // 不需要认证，直接连接
-            });
+    // TTS 候选链中的第一个 provider 支持实时合成时返回它
+    private realtimeTtsCandidate(requested?: string): { provider: TTSProvider; config: any } | null {
+        const [primary] = this.providerChain('tts', requested);
+        const provider = primary && getVoiceProvider('tts', primary.provider);
+        if (!provider?.capabilities.realtime || !provider.streamRealtime) return null;
+        if (provider.supportsRealtime && !provider.supportsRealtime(primary.config)) return null;
+        return { provider, config: primary.config };
+    }
 
-            ws.on('open', () => {
-                this.logger.debug('[AI WebSocket] 连接已建立');
+    supportsRealtimeTts() {
+        return !!this.realtimeTtsCandidate();
+    }
 
-                // 构建请求消息
-                let requestMessage: any;
-                if (provider === 'ejunz' || requestFormat === 'simple') {
-                    // 简单格式：只发送当前消息
-                    requestMessage = { message };
-                } else {
-                    // OpenAI格式：包含对话历史
-                    const messages = [...conversationHistory];
-                    messages.push({ role: 'user', content: message });
-                    requestMessage = { messages };
+    /**
+     * 实时 TTS：整段文本提交一次，音频边合成边回调
+     */
+    async streamTtsRealtime(
+        text: string, onAudioChunk: (chunk: Buffer) => void, voice?: string, options: VoiceCallOptions = {},
+    ): Promise<void> {
+        const candidate = this.realtimeTtsCandidate(options.provider);
+        if (!candidate) throw new Error('TTS provider 不支持实时合成');
+        const { provider, config: providerConfig } = candidate;
+        await new Promise<void>((resolve, reject) => {
+            let session: TTSRealtimeSession;
+            let settled = false;
+            let audioReceived = false;
+            const settle = (error?: Error) => {
+                if (settled) return;
+                settled = true;
+                if (error) {
+                    session?.close();
+                    reject(error);
+                    return;
                 }
-
-                this.logger.debug('[AI WebSocket] 发送消息: %s', JSON.stringify(requestMessage));
-                ws.send(JSON.stringify(requestMessage));
-            });
-
-            ws.on('message', async (data: Buffer | string) => {
-                try {
-                    const textData = typeof data === 'string' ? data : data.toString('utf8');
-                    this.logger.debug('[AI WebSocket] 收到消息: %s', textData.substring(0, 200));
-
-                    // 尝试解析JSON
-                    let json: any;
-                    try {
-                        json = JSON.parse(textData);
-                    } catch {
-                        // 如果不是JSON，可能是纯文本流
-                        if (textData.trim()) {
-                            fullResponse += textData;
-                            if (onChunk) {
-                                onChunk(textData);
-                            }
-                        }
-                        return;
-                    }
-
-                    // 处理不同类型的消息
-                    if (json.type === 'text' || json.type === 'content') {
-                        // 文本内容
-                        const content = json.content || json.text || '';
-                        if (content) {
-                            fullResponse += content;
-                            if (onChunk) {
-                                onChunk(content);
-                            }
-                        }
-                    } else if (json.type === 'tool_call' || json.tool_calls || json.toolCall) {
-                        // 工具调用请求
-                        const toolCalls = json.tool_calls || (json.toolCall ? [json.toolCall] : []);
-                        for (const toolCall of toolCalls) {
-                            await this.handleToolCall(toolCall, ws);
-                        }
-                    } else if (json.type === 'done' || json.type === 'finished') {
-                        // 完成
-                        this.logger.debug('[AI WebSocket] 响应完成');
-                        if (!isResolved) {
-                            isResolved = true;
-                            ws.close();
-                            resolve(fullResponse);
-                        }
-                    } else if (json.message || json.text || json.content) {
-                        // 直接包含回复内容
-                        const content = json.message || json.text || json.content || '';
-                        if (content) {
-                            fullResponse += content;
-                            if (onChunk) {
-                                onChunk(content);
-                            }
-                        }
-                        // 检查是否完成
-                        if (json.done || json.finished) {
-                            if (!isResolved) {
-                                isResolved = true;
-                                ws.close();
-                                resolve(fullResponse);
-                            }
-                        }
-                    } else if (json.error) {
-                        // 错误
-                        this.logger.error('[AI WebSocket] 错误: %s', JSON.stringify(json.error));
-                        ws.close();
-                        if (!isResolved) {
-                            isResolved = true;
-                            reject(new Error(`AI错误: ${json.error.message || JSON.stringify(json.error)}`));
-                        }
-                    } else {
-                        // 其他类型，尝试提取文本
-                        if (typeof json === 'string') {
-                            fullResponse += json;
-                            if (onChunk) {
-                                onChunk(json);
-                            }
+                session.finish();
+                // 留出时间让服务端处理 finish，再关闭连接
+                setTimeout(() => session.close(), 100);
+                resolve();
+            };
+            try {
+                session = provider.streamRealtime({ ...providerConfig, voice: voice || providerConfig.voice }, {
+                    onReady: () => {
+                        session.append(text);
+                        session.commit();
+                    },
+                    onAudio: (chunk) => {
+                        if (!audioReceived) {
+                            audioReceived = true;
+                            this.recordProvider('tts', provider.name, options);
                         }
-                    }
-                } catch (e: any) {
-                    this.logger.error('[AI WebSocket] 处理消息失败: %s', e.message);
-                }
-            });
-
-            ws.on('error', (err: Error) => {
-                this.logger.error('[AI WebSocket] 连接错误: %s', err.message);
-                if (!isResolved) {
-                    isResolved = true;
-                    reject(err);
-                }
-            });
-
-            ws.on('close', (code: number, reason: Buffer) => {
-                this.logger.debug(`[AI WebSocket] 连接关闭: ${code} - ${reason?.toString() || ''}`);
-                if (!isResolved) {
-                    isResolved = true;
-                    resolve(fullResponse);
-                }
-            });
-
-            // 设置超时
-            setTimeout(() => {
-                if (!isResolved) {
-                    isResolved = true;
-                    ws.close();
-                    if (fullResponse) {
-                        resolve(fullResponse);
-                    } else {
-                        reject(new Error('AI响应超时'));
-                    }
-                }
-            }, 60000); // 60秒超时
+                        onAudioChunk(chunk);
+                    },
+                    onDone: () => settle(),
+                    onError: (error) => settle(error),
+                    onClose: (code, reason) => settle(new Error(`TTS连接已关闭: ${code} ${reason}`)),
+                }, this.providerContext);
+            } catch (e: any) {
+                settle(e);
+            }
         });
     }
 
     /**
-     * 处理工具调用
+     * AI对话（流式版本，WebSocket Agent 逐段回调 onChunk）
      */
-    private async handleToolCall(toolCall: any, ws: any): Promise<void> {
-        try {
-            const toolName = toolCall.name || toolCall.function?.name;
-            let toolArgs = toolCall.arguments || toolCall.function?.arguments || toolCall.args || {};
-
-            if (!toolName) {
-                this.logger.warn('[AI WebSocket] 工具调用缺少名称');
-                return;
-            }
+    async chatStream(
+        message: string,
+        conversationHistory: Array<{ role: string; content: string }> = [],
+        onChunk?: (chunk: string) => void,
+        options: VoiceCallOptions = {},
+    ): Promise<string> {
+        // 有待确认的工具调用时，“确认”/“取消”之类的回答直接处理确认，不再交给 AI
+        const confirmReply = answerConfirmationByVoice(message);
+        if (confirmReply) {
+            if (onChunk) onChunk(confirmReply);
+            return confirmReply;
+        }
+        const candidates = this.providerChain('llm', options.provider);
+        if (!candidates.length) {
+            throw new Error('AI未配置：请设置 voice.ai.provider');
+        }
+        return await this.chatWithProviders(message, conversationHistory, candidates, options, onChunk);
+    }
 
-            // 如果参数是字符串，尝试解析为JSON
-            if (typeof toolArgs === 'string') {
-                try {
-                    toolArgs = JSON.parse(toolArgs);
-                } catch {
-                    // 如果解析失败，使用原始字符串
-                    this.logger.warn('[AI WebSocket] 工具参数不是有效的JSON，使用原始字符串');
-                }
-            }
+    /**
+     * 按候选链依次尝试 LLM provider
+     * 已经向调用方输出过内容后不再切换，避免回复重复
+     */
+    private async chatWithProviders(
+        message: string,
+        conversationHistory: Array<{ role: string; content: string }>,
+        candidates: VoiceProviderCandidate[],
+        options: VoiceCallOptions,
+        onChunk?: (chunk: string) => void,
+    ): Promise<string> {
+        let emitted = false;
+        const { result, provider } = await runWithVoiceFallback(
+            'llm',
+            candidates,
+            (llmProvider, providerConfig) => llmProvider.chat(message, conversationHistory, providerConfig, this.providerContext, (chunk) => {
+                emitted = true;
+                if (onChunk) onChunk(chunk);
+            }),
+            () => !emitted,
+        );
+        this.recordProvider('llm', provider, options);
+        return result;
+    }
 
-            // 确保参数是对象
-            if (typeof toolArgs !== 'object' || toolArgs === null) {
-                toolArgs = {};
-            }
+    /**
+     * AI对话 + TTS
+     * 主 AI provider 为 WebSocket Agent 时走实时管线（边生成边合成）；
+     * 否则，或实时管线在输出任何内容前失败时，按 provider 链完成对话后再整段合成
+     */
+    async chatStreamWithTts(
+        message: string,
+        conversationHistory: Array<{ role: string; content: string }> = [],
+        onAudioChunk?: (chunk: Buffer) => void,
+        onTextChunk?: (chunk: string) => void,
+        useCache?: boolean,
+        existingAudioId?: string,
+        options: VoiceCallOptions = {},
+    ): Promise<string | { text: string; audioId?: string }> {
+        const confirmReply = answerConfirmationByVoice(message);
+        if (confirmReply) return await this.replyWithTts(confirmReply, onAudioChunk, onTextChunk, existingAudioId, options);
 
-            this.logger.info('[AI WebSocket] 调用工具: %s, 参数: %s', toolName, JSON.stringify(toolArgs));
+        const candidates = this.providerChain('llm', options.provider);
+        if (!candidates.length) {
+            throw new Error('AI未配置：请设置 voice.ai.provider');
+        }
 
-            // 调用MCP工具
-            let result: any;
+        const [primary] = candidates;
+        const llmProvider = getVoiceProvider('llm', primary.provider);
+        let remaining = candidates;
+        if (llmProvider?.capabilities.realtime && isWebSocketEndpoint(resolveAgentEndpoint(primary.config))) {
+            let emitted = false;
             try {
-                result = await callTool(this.ctx, { name: toolName, arguments: toolArgs });
-                this.logger.info('[AI WebSocket] 工具调用成功: %s, 结果: %s', toolName, JSON.stringify(result).substring(0, 200));
+                const result = await this.chatStreamWithTtsRealtime(
+                    primary,
+                    message,
+                    conversationHistory,
+                    onAudioChunk,
+                    (chunk) => {
+                        emitted = true;
+                        if (onTextChunk) onTextChunk(chunk);
+                    },
+                    useCache,
+                    existingAudioId,
+                    options,
+                );
+                this.recordProvider('llm', llmProvider.name, options);
+                return result;
             } catch (e: any) {
-                this.logger.error('[AI WebSocket] 工具调用失败: %s, 错误: %s', toolName, e.message);
-                result = { error: e.message };
+                if (emitted || candidates.length === 1) throw e;
+                this.logger.warn('[AI WebSocket+TTS] %s 调用失败，切换到备用 provider: %s', llmProvider.name, e.message);
+                remaining = candidates.slice(1);
             }
+        }
 
-            // 发送工具调用结果回AI
-            const toolResult = {
-                type: 'tool_result',
-                tool_call_id: toolCall.id || toolCall.call_id || `call_${Date.now()}`,
-                result: result,
-            };
+        const text = await this.chatWithProviders(message, conversationHistory, remaining, options);
+        return await this.replyWithTts(text, onAudioChunk, onTextChunk, existingAudioId, options);
+    }
 
-            this.logger.debug('[AI WebSocket] 发送工具结果: %s', JSON.stringify(toolResult));
-            ws.send(JSON.stringify(toolResult));
-        } catch (e: any) {
-            this.logger.error('[AI WebSocket] 处理工具调用失败: %s', e.message);
+    // 非实时管线：输出完整文本后整段TTS
+    private async replyWithTts(
+        text: string,
+        onAudioChunk: ((chunk: Buffer) => void) | undefined,
+        onTextChunk: ((chunk: string) => void) | undefined,
+        existingAudioId: string | undefined,
+        options: VoiceCallOptions,
+    ): Promise<string | { text: string; audioId?: string }> {
+        if (onTextChunk) {
+            onTextChunk(text);
         }
+        if (onAudioChunk || existingAudioId) {
+            const audioBuffer = await this.tts(text, undefined, { onProvider: options.onProvider });
+            if (existingAudioId) {
+                this.appendAudioToCache(existingAudioId, audioBuffer);
+                this.markCacheReady(existingAudioId);
+                return { text, audioId: existingAudioId };
+            }
+            onAudioChunk(audioBuffer);
+        }
+        return text;
     }
 
     /**
-     * AI对话（HTTP版本，用于非WebSocket endpoint的回退）
+     * 当前可用的 provider 及最近一次实际使用的 provider
      */
-    private async chatHTTP(message: string, conversationHistory: Array<{ role: string; content: string }> = []): Promise<string> {
-        const aiConfig = this.voiceConfig.ai || {};
-        const provider = aiConfig.provider.toLowerCase();
-        const endpoint = aiConfig.endpoint || 'https://api.openai.com/v1/chat/completions';
-        const model = aiConfig.model || 'gpt-3.5-turbo';
-        const authHeader = aiConfig.authHeader || 'Authorization';
-        const authPrefix = aiConfig.authPrefix !== undefined ? aiConfig.authPrefix : 'Bearer';
-        const requestFormat = aiConfig.requestFormat || 'openai';
-
-        try {
-            if (provider === 'openai' || provider === 'custom' || provider === 'ejunz') {
-                const request = superagent
-                    .post(endpoint)
-                    .set('Content-Type', 'application/json');
-
-                // 设置认证Header（如果有）
-                if (aiConfig.apiKey) {
-                let authValue: string;
-                if (authPrefix && authPrefix.trim() !== '') {
-                    authValue = `${authPrefix} ${aiConfig.apiKey}`;
-                } else {
-                    authValue = aiConfig.apiKey;
-                }
-                authValue = authValue.trim();
-                request.set(authHeader, authValue);
-                }
-
-                let requestBody: any;
-                if (provider === 'ejunz' || requestFormat === 'simple') {
-                    requestBody = { message };
-                } else {
-                    const messages = [...conversationHistory];
-                    messages.push({ role: 'user', content: message });
-                    requestBody = { model, messages, temperature: 0.7 };
-                }
-
-                const response = await request.send(requestBody);
-                const result = response.body;
-
-                // 尝试多种响应格式
-                if (result.choices?.[0]?.message?.content) {
-                    return result.choices[0].message.content;
-                } else if (result.message) {
-                    return result.message;
-                } else if (result.text) {
-                    return result.text;
-                } else if (result.response) {
-                    return result.response;
-                } else if (typeof result === 'string') {
-                    return result;
-                } else {
-                    return JSON.stringify(result);
-                }
-            } else {
-                throw new Error(`不支持的AI provider: ${provider}`);
-            }
-           } catch (error: any) {
-               this.logger.error('AI对话失败: %s', error.message);
-            throw new Error(`AI对话失败: ${error.message}`);
-        }
+    getVoiceProviders() {
+        return {
+            available: listVoiceProviders(),
+            chain: {
+                asr: this.providerChain('asr').map((c) => c.provider),
+                tts: this.providerChain('tts').map((c) => c.provider),
+                llm: this.providerChain('llm').map((c) => c.provider),
+            },
+            health: this.health.list(),
+            last: { ...this.lastProviders },
+        };
     }
 
     /**
      * AI对话（WebSocket流式版本 + 实时TTS）
      * 收到内容立即进行TTS，工具调用时暂停，完成后继续
      */
-    async chatStreamWithTts(
+    private async chatStreamWithTtsRealtime(
+        candidate: VoiceProviderCandidate,
         message: string, 
-        conversationHistory: Array<{ role: string; content: string }> = [], 
+        conversationHistory: Array<{ role: string; content: string }>, 
         onAudioChunk?: (chunk: Buffer) => void,
         onTextChunk?: (chunk: string) => void,
         useCache?: boolean,  // 是否使用缓存模式（默认true）
-        existingAudioId?: string  // 如果已有audioId，直接使用（用于提前发送URL的场景）
+        existingAudioId?: string,  // 如果已有audioId，直接使用（用于提前发送URL的场景）
+        options: VoiceCallOptions = {},  // 语音由哪个 TTS provider 合成通过 options.onProvider 通知
     ): Promise<string | { text: string; audioId?: string }> {
-        const aiConfig = this.voiceConfig.ai || {};
-        if (!aiConfig.provider) {
-            throw new Error('AI未配置：请设置 voice.ai.provider');
-        }
-
-        const provider = aiConfig.provider.toLowerCase();
-        const endpoint = aiConfig.endpoint || 'wss://beta.ejunz.com/api/agent/A4/stream';
+        const { provider, config: aiConfig } = candidate;
+        const endpoint = resolveAgentEndpoint(aiConfig);
         const requestFormat = aiConfig.requestFormat || 'simple';
 
-        // 检查是否为WebSocket URL
-        if (!endpoint.startsWith('ws://') && !endpoint.startsWith('wss://')) {
-            // 如果不是WebSocket，回退到普通方式
-            const text = await this.chatHTTP(message, conversationHistory);
-            if (onTextChunk) {
-                onTextChunk(text);
-            }
-            // 如果需要TTS，进行非流式TTS
-            if (onAudioChunk) {
-                const ttsConfig = this.voiceConfig.tts || {};
-                const audioBuffer = await this.tts(text);
-                onAudioChunk(audioBuffer);
-            }
-            return text;
-        }
-
         let WS: any;
         try {
             WS = require('ws');
@@ -808,11 +550,8 @@ class VoiceService extends Service implements IVoiceService {
             throw new Error('缺少 ws 依赖，请安装: npm install ws');
         }
 
-        // 获取TTS配置
-        const ttsConfig = this.voiceConfig.tts || {};
-        // 注意：如果配置中没有明确指定model，对于流式TTS默认使用realtime版本
-        // 但保留原有默认值以兼容现有配置
-        const model = ttsConfig.model || 'qwen3-tts-flash-realtime';
+        // 支持实时合成的 TTS provider（主 provider 不支持时为 null）
+        const realtimeTts = this.realtimeTtsCandidate();
         
         // 确定是否使用缓存模式（默认启用）
         // 注意：即使onAudioChunk是undefined，如果明确启用了缓存模式，也应该使用
@@ -828,12 +567,11 @@ class VoiceService extends Service implements IVoiceService {
             }
         }
         
-        // useRealtimeTts：检查模型是否包含realtime，且（有onAudioChunk回调或使用缓存模式）
-        // 如果模型包含realtime，应该启用流式TTS
-        const useRealtimeTts = model.includes('realtime') && (onAudioChunk !== undefined || useCacheMode);
+        // useRealtimeTts：TTS provider支持实时合成，且（有onAudioChunk回调或使用缓存模式）
+        const useRealtimeTts = !!realtimeTts && (onAudioChunk !== undefined || useCacheMode);
         
         // 记录TTS模式选择日志
-        this.logger.info(`[AI WebSocket+TTS] TTS配置: model=${model}, useRealtimeTts=${useRealtimeTts}, useCacheMode=${useCacheMode}, onAudioChunk=${!!onAudioChunk}`);
+        this.logger.info(`[AI WebSocket+TTS] TTS配置: provider=${realtimeTts?.provider.name || 'none'}, useRealtimeTts=${useRealtimeTts}, useCacheMode=${useCacheMode}, onAudioChunk=${!!onAudioChunk}`);
         
         // 包装onAudioChunk：如果使用缓存模式，先写入缓存，但不立即调用onAudioChunk
         // 因为缓存模式下，音频将通过HTTP拉取方式播放，而不是实时WebSocket流
@@ -856,7 +594,7 @@ class VoiceService extends Service implements IVoiceService {
             let textBuffer = ''; // 文本缓冲区（用于累积）
             let ttsBuffer = ''; // TTS缓冲区（已append但未commit的文本）
             let isToolCalling = false; // 是否正在工具调用
-            let ttsWs: any = null; // TTS WebSocket连接
+            let ttsSession: TTSRealtimeSession | null = null; // TTS实时合成会话
             let ttsReady = false; // TTS连接是否就绪
             let ttsPendingText = ''; // TTS待发送文本队列
             let ttsClosed = false; // TTS连接是否已关闭
@@ -881,7 +619,7 @@ class VoiceService extends Service implements IVoiceService {
 
             // 初始化TTS连接（复用单个连接）
             const initTtsConnection = () => {
-                this.logger.info(`[AI WebSocket+TTS] [${connectionId}] initTtsConnection被调用: useRealtimeTts=${useRealtimeTts}, wrappedOnAudioChunk=${!!wrappedOnAudioChunk}, useCacheMode=${useCacheMode}, ttsWs=${!!ttsWs}, ttsClosed=${ttsClosed}`);
+                this.logger.info(`[AI WebSocket+TTS] [${connectionId}] initTtsConnection被调用: useRealtimeTts=${useRealtimeTts}, wrappedOnAudioChunk=${!!wrappedOnAudioChunk}, useCacheMode=${useCacheMode}, ttsSession=${!!ttsSession}, ttsClosed=${ttsClosed}`);
                 
                 // 如果已经有连接或已关闭，不重复创建
                 // 注意：缓存模式下wrappedOnAudioChunk不是undefined，而是写入缓存的函数
@@ -893,7 +631,7 @@ class VoiceService extends Service implements IVoiceService {
                     this.logger.warn(`[AI WebSocket+TTS] [${connectionId}] initTtsConnection跳过: wrappedOnAudioChunk未定义且非缓存模式`);
                     return;
                 }
-                if (ttsWs) {
+                if (ttsSession) {
                     this.logger.warn(`[AI WebSocket+TTS] [${connectionId}] initTtsConnection跳过: TTS连接已存在，防止重复创建`);
                     return;
                 }
@@ -902,102 +640,54 @@ class VoiceService extends Service implements IVoiceService {
                     return;
                 }
 
-                let WS: any;
+                this.logger.info(`[AI WebSocket+TTS] [${connectionId}] 创建新的TTS连接 (provider: ${realtimeTts.provider.name})`);
+                let audioReceived = false;
                 try {
-                    WS = require('ws');
-                } catch (e) {
-                    this.logger.error('[AI WebSocket+TTS] 缺少 ws 依赖');
-                    return;
-                }
-
-                const apiKey = ttsConfig.apiKey;
-                const model = ttsConfig.model || 'qwen3-tts-flash-realtime';
-                const voice = ttsConfig.voice || 'Cherry';
-                const languageType = ttsConfig.languageType || 'Chinese';
-                
-                const baseUrl = 'wss://dashscope.aliyuncs.com/api-ws/v1/realtime';
-                const url = `${baseUrl}?model=${model}`;
-
-                this.logger.info(`[AI WebSocket+TTS] [${connectionId}] 创建新的TTS连接 (之前连接状态: ttsWs=${!!ttsWs}, ttsClosed=${ttsClosed})`);
-                
-                ttsWs = new WS(url, {
-                    headers: {
-                        'Authorization': `Bearer ${apiKey}`,
-                        'OpenAI-Beta': 'realtime=v1'
-                    }
-                });
-
-                ttsWs.on('open', () => {
-                    this.logger.info(`[AI WebSocket+TTS] [${connectionId}] TTS连接已建立`);
-                    ttsReady = false;
-                    
-                    // 发送session.update配置
-                    const sessionUpdate = {
-                        event_id: `event_${Date.now()}`,
-                        type: 'session.update',
-                        session: {
-                            modalities: ['audio'],
-                            output_audio_format: 'pcm16',
-                            sample_rate: 24000,
-                            output_audio_transcription: {
-                                language: languageType === 'Chinese' ? 'zh' : 'en'
-                            },
-                            voice: voice
-                        }
-                    };
-                    
-                    ttsWs.send(JSON.stringify(sessionUpdate));
-                });
-
-                ttsWs.on('message', (data: Buffer | string) => {
-                    try {
-                        const textData = typeof data === 'string' ? data : data.toString('utf8');
-                        const json = JSON.parse(textData);
-
-                        if (json.type === 'session.created' || json.type === 'session.updated') {
-                            if (!ttsReady) {
-                                ttsReady = true;
-                                // 只在第一次就绪时发送待处理的文本
-                                if (ttsPendingText) {
-                                    const pendingToSend = ttsPendingText;
-                                    ttsPendingText = ''; // 先清空，避免重复
-                                    appendTtsText(pendingToSend);
-                                }
+                    ttsSession = realtimeTts.provider.streamRealtime(realtimeTts.config, {
+                        onReady: () => {
+                            this.logger.info(`[AI WebSocket+TTS] [${connectionId}] TTS连接已就绪`);
+                            if (ttsReady) return;
+                            ttsReady = true;
+                            // 只在第一次就绪时发送待处理的文本
+                            if (ttsPendingText) {
+                                const pendingToSend = ttsPendingText;
+                                ttsPendingText = ''; // 先清空，避免重复
+                                appendTtsText(pendingToSend);
                             }
-                        } else if (json.type === 'response.audio.delta') {
+                        },
+                        onAudio: (audioChunk) => {
                             // 接收音频分片，立即发送给客户端
                             // 注意：音频已经在TTS服务端生成，应该立即播放，不应该因为isToolCalling而阻塞
-                            // isToolCalling只用于暂停新的TTS提交，不影响已提交的音频播放
                             // 缓存模式下，onAudioChunk是undefined，但wrappedOnAudioChunk仍会被调用以写入缓存
-                            if (json.delta) {
-                                const audioChunk = Buffer.from(json.delta, 'base64');
-                                // 只在每10个chunk或重要事件时记录，减少日志噪音
-                                if (useCacheMode) {
-                                    // 缓存模式下更频繁地记录，便于调试
-                                    this.logger.debug(`[AI WebSocket+TTS] [${connectionId}] 收到音频分片: ${audioChunk.length} bytes`);
-                                }
-                                if (wrappedOnAudioChunk) {
-                                    wrappedOnAudioChunk(audioChunk);
-                                }
+                            if (!audioReceived) {
+                                audioReceived = true;
+                                this.recordProvider('tts', realtimeTts.provider.name, options);
+                            }
+                            if (useCacheMode) {
+                                this.logger.debug(`[AI WebSocket+TTS] [${connectionId}] 收到音频分片: ${audioChunk.length} bytes`);
+                            }
+                            if (wrappedOnAudioChunk) {
+                                wrappedOnAudioChunk(audioChunk);
                             }
-                        } else if (json.type === 'response.audio.done') {
+                        },
+                        onDone: () => {
                             // 音频生成完成，减少pending计数
                             if (pendingCommits > 0) {
                                 pendingCommits--;
                             }
                             this.logger.info(`[AI WebSocket+TTS] [${connectionId}] TTS音频生成完成，剩余pending commits: %d`, pendingCommits);
-                            
+                        
                             // 如果pending commits变为0，检查是否需要处理工具结果队列
                             if (pendingCommits === 0 && toolResultQueue.length > 0 && !isProcessingToolResult && !isToolCalling) {
                                 this.logger.debug(`[AI WebSocket+TTS] [${connectionId}] pending commits变为0，触发工具结果队列处理`);
                                 processToolResultQueue();
                             }
-                            
+                        
                             // 继续处理累积的文本（不等待pending commits）
                             if (textBuffer.length > 0 && !isToolCalling && !aiResponseDone && !isProcessingToolResult) {
                                 flushTextBuffer(false); // 不强制commit，让自动逻辑决定
                             }
-                            
+                        
                             // 如果AI响应已完成，且所有文本都已commit，且所有音频都已生成完成，可以关闭连接
                             if (aiResponseDone && pendingCommits === 0 && ttsBuffer.length === 0 && textBuffer.length === 0 && toolResultQueue.length === 0 && !isProcessingToolResult) {
                                 this.logger.info(`[AI WebSocket+TTS] [${connectionId}] 所有音频生成完成（pendingCommits=0），准备关闭TTS连接`);
@@ -1016,111 +706,101 @@ class VoiceService extends Service implements IVoiceService {
                                     }
                                 });
                             }
-                        } else if (json.type === 'error') {
-                            this.logger.error('[AI WebSocket+TTS] TTS错误: %s', JSON.stringify(json.error));
-                            // 如果是因为buffer too small，说明commit太早，忽略这个错误继续处理
-                            if (json.error?.code === 'invalid_value' && json.error?.message?.includes('buffer too small')) {
-                                this.logger.debug('[AI WebSocket+TTS] TTS buffer太小错误，忽略并继续');
-                            }
-                        }
-                    } catch (e: any) {
-                        this.logger.error('[AI WebSocket+TTS] TTS消息处理失败: %s', e.message);
-                    }
-                });
-
-                ttsWs.on('error', (err: Error) => {
-                    this.logger.error('[AI WebSocket+TTS] TTS连接错误: %s', err.message);
-                    ttsClosed = true; // 标记为已关闭，防止重复创建
-                    ttsWs = null;
-                    ttsReady = false;
-                    // 如果连接错误，不再重连（避免重复连接）
-                });
-
-                ttsWs.on('close', (code: number, reason: Buffer) => {
-                    this.logger.warn(`[AI WebSocket+TTS] [${connectionId}] TTS连接关闭: ${code}, pendingCommits: ${pendingCommits}, reason: ${reason?.toString() || 'none'}`);
+                        },
+                        onError: (error) => {
+                            // 连接错误之后会触发 onClose，在那里清理连接状态
+                            this.logger.error('[AI WebSocket+TTS] TTS错误: %s', error.message);
+                        },
+                        onClose: (code, reason) => {
+                            this.logger.warn(`[AI WebSocket+TTS] [${connectionId}] TTS连接关闭: ${code}, pendingCommits: ${pendingCommits}, reason: ${reason || 'none'}`);
                     
-                    // 总是标记为已关闭，防止重复创建连接
-                    // 注意：即使连接关闭，后续句子仍可使用文件式TTS
-                    ttsClosed = true;
-                    ttsWs = null;
-                    ttsReady = false;
+                            // 总是标记为已关闭，防止重复创建连接
+                            // 注意：即使连接关闭，后续句子仍可使用文件式TTS
+                            ttsClosed = true;
+                            ttsSession = null;
+                            ttsReady = false;
                     
-                    // 如果连接被关闭但还有pending的音频，需要处理
-                    if (pendingCommits > 0) {
-                        this.logger.warn(`[AI WebSocket+TTS] [${connectionId}] TTS连接关闭时还有%d个pending commits，可能音频未完全生成，使用文件式TTS补全`, pendingCommits);
+                            // 如果连接被关闭但还有pending的音频，需要处理
+                            if (pendingCommits > 0) {
+                                this.logger.warn(`[AI WebSocket+TTS] [${connectionId}] TTS连接关闭时还有%d个pending commits，可能音频未完全生成，使用文件式TTS补全`, pendingCommits);
                         
-                        // 获取最后pendingCommits个句子，使用文件式TTS补全
-                        // 注意：pendingSentences可能不完整，我们只能从fullResponse中提取未处理的文本
-                        const remainingText = textBuffer.trim();
-                        if (remainingText.length > 0) {
-                            this.logger.info(`[AI WebSocket+TTS] [${connectionId}] 使用文件式TTS补全剩余文本: %d字符`, remainingText.length);
-                            // 异步处理，不阻塞主流程
-                            (async () => {
-                                try {
-                                    const audioBuffer = await this.tts(remainingText, ttsConfig.voice);
-                                    if (audioBuffer && audioBuffer.length > 0) {
-                                        const chunkSize = 4096;
-                                        for (let i = 0; i < audioBuffer.length; i += chunkSize) {
-                                            const chunk = audioBuffer.slice(i, i + chunkSize);
-                                            onAudioChunk(chunk);
+                                // 获取最后pendingCommits个句子，使用文件式TTS补全
+                                // 注意：pendingSentences可能不完整，我们只能从fullResponse中提取未处理的文本
+                                const remainingText = textBuffer.trim();
+                                if (remainingText.length > 0) {
+                                    this.logger.info(`[AI WebSocket+TTS] [${connectionId}] 使用文件式TTS补全剩余文本: %d字符`, remainingText.length);
+                                    // 异步处理，不阻塞主流程
+                                    (async () => {
+                                        try {
+                                            const audioBuffer = await this.tts(remainingText, undefined, { onProvider: options.onProvider });
+                                            if (audioBuffer && audioBuffer.length > 0) {
+                                                const chunkSize = 4096;
+                                                for (let i = 0; i < audioBuffer.length; i += chunkSize) {
+                                                    const chunk = audioBuffer.slice(i, i + chunkSize);
+                                                    onAudioChunk(chunk);
+                                                }
+                                                this.logger.info(`[AI WebSocket+TTS] [${connectionId}] 文件式TTS补全完成，已发送%d字节`, audioBuffer.length);
+                                            }
+                                        } catch (e: any) {
+                                            this.logger.error(`[AI WebSocket+TTS] [${connectionId}] 文件式TTS补全失败: %s`, e.message);
                                         }
-                                        this.logger.info(`[AI WebSocket+TTS] [${connectionId}] 文件式TTS补全完成，已发送%d字节`, audioBuffer.length);
-                                    }
-                                } catch (e: any) {
-                                    this.logger.error(`[AI WebSocket+TTS] [${connectionId}] 文件式TTS补全失败: %s`, e.message);
+                                    })();
                                 }
-                            })();
-                        }
                         
-                        // 减少pending计数（因为连接已关闭，无法继续生成）
-                        pendingCommits = 0;
+                                // 减少pending计数（因为连接已关闭，无法继续生成）
+                                pendingCommits = 0;
                         
-                        // 如果AI响应已完成，等待文件式TTS完成后再resolve
-                        // 注意：这里不立即resolve，等待finalizeTtsConnection来处理
-                        // if (aiResponseDone && !isResolved) {
-                        //     // 等待文件式TTS完成（如果有剩余文本）
-                        //     const waitTime = remainingText.length > 0 ? 3000 : 500;
-                        //     this.logger.info(`[AI WebSocket+TTS] [${connectionId}] 等待%dms后resolve（文件式TTS补全）`, waitTime);
-                        //     setTimeout(() => {
-                        //         if (!isResolved) {
-                        //             isResolved = true;
-                        //             // 如果使用缓存模式，标记缓存为就绪
-                        //             if (useCacheMode && audioId) {
-                        //                 this.markCacheReady(audioId);
-                        //                 resolve({ text: fullResponse, audioId });
-                        //             } else {
-                        //                 resolve(fullResponse);
-                        //             }
-                        //         }
-                        //     }, waitTime);
-                        // }
-                    } else {
-                        // 没有pending commits，但不立即resolve，等待finalizeTtsConnection
-                        // 确保所有音频都写入缓存后再标记为ready
-                        // if (aiResponseDone && !isResolved) {
-                        //     setTimeout(() => {
-                        //         if (!isResolved) {
-                        //             isResolved = true;
-                        //             // 如果使用缓存模式，标记缓存为就绪
-                        //             if (useCacheMode && audioId) {
-                        //                 this.markCacheReady(audioId);
-                        //                 resolve({ text: fullResponse, audioId });
-                        //             } else {
-                        //                 resolve(fullResponse);
-                        //             }
-                        //         }
-                        //     }, 500);
-                        // }
-                    }
+                                // 如果AI响应已完成，等待文件式TTS完成后再resolve
+                                // 注意：这里不立即resolve，等待finalizeTtsConnection来处理
+                                // if (aiResponseDone && !isResolved) {
+                                //     // 等待文件式TTS完成（如果有剩余文本）
+                                //     const waitTime = remainingText.length > 0 ? 3000 : 500;
+                                //     this.logger.info(`[AI WebSocket+TTS] [${connectionId}] 等待%dms后resolve（文件式TTS补全）`, waitTime);
+                                //     setTimeout(() => {
+                                //         if (!isResolved) {
+                                //             isResolved = true;
+                                //             // 如果使用缓存模式，标记缓存为就绪
+                                //             if (useCacheMode && audioId) {
+                                //                 this.markCacheReady(audioId);
+                                //                 resolve({ text: fullResponse, audioId });
+                                //             } else {
+                                //                 resolve(fullResponse);
+                                //             }
+                                //         }
+                                //     }, waitTime);
+                                // }
+                            } else {
+                                // 没有pending commits，但不立即resolve，等待finalizeTtsConnection
+                                // 确保所有音频都写入缓存后再标记为ready
+                                // if (aiResponseDone && !isResolved) {
+                                //     setTimeout(() => {
+                                //         if (!isResolved) {
+                                //             isResolved = true;
+                                //             // 如果使用缓存模式，标记缓存为就绪
+                                //             if (useCacheMode && audioId) {
+                                //                 this.markCacheReady(audioId);
+                                //                 resolve({ text: fullResponse, audioId });
+                                //             } else {
+                                //                 resolve(fullResponse);
+                                //             }
+                                //         }
+                                //     }, 500);
+                                // }
+                            }
                     
-                    if (code === 1007 && reason?.toString().includes('rate limit')) {
-                        // 限流错误，记录日志
-                        this.logger.warn('[AI WebSocket+TTS] TTS连接因限流关闭');
-                    } else if (code === 1005 || code === 1006) {
-                        // 服务器主动关闭或异常关闭（可能是超时或连接问题）
-                        this.logger.warn('[AI WebSocket+TTS] TTS服务器主动关闭连接，可能是超时或连接问题');
-                    }
-                });
+                            if (code === 1007 && reason.includes('rate limit')) {
+                                // 限流错误，记录日志
+                                this.logger.warn('[AI WebSocket+TTS] TTS连接因限流关闭');
+                            } else if (code === 1005 || code === 1006) {
+                                // 服务器主动关闭或异常关闭（可能是超时或连接问题）
+                                this.logger.warn('[AI WebSocket+TTS] TTS服务器主动关闭连接，可能是超时或连接问题');
+                            }
+                        },
+                    }, this.providerContext);
+                } catch (e: any) {
+                    this.logger.error('[AI WebSocket+TTS] 创建TTS连接失败: %s', e.message);
+                    ttsClosed = true;
+                }
             };
 
             // Append文本到TTS缓冲区（不立即commit）
@@ -1129,7 +809,7 @@ class VoiceService extends Service implements IVoiceService {
                     return;
                 }
 
-                if (!ttsWs) {
+                if (!ttsSession) {
                     // 连接不存在，缓存到pending
                     ttsPendingText += textToAppend;
                     return;
@@ -1146,15 +826,8 @@ class VoiceService extends Service implements IVoiceService {
                     return;
                 }
 
-                // 发送append事件
-                const appendEvent = {
-                    event_id: `event_${Date.now()}_${Math.random().toString(16).slice(2)}`,
-                    type: 'input_text_buffer.append',
-                    text: textToAppend
-                };
-                
                 try {
-                    ttsWs.send(JSON.stringify(appendEvent));
+                    ttsSession.append(textToAppend);
                     ttsBuffer += textToAppend; // 记录已append的文本
                     this.logger.debug('[AI WebSocket+TTS] Append文本到TTS: %d字符, 总缓冲区: %d字符', textToAppend.length, ttsBuffer.length);
                 } catch (e: any) {
@@ -1165,8 +838,8 @@ class VoiceService extends Service implements IVoiceService {
             // Commit TTS缓冲区（触发合成）
             const commitTtsBuffer = (force = false) => {
                 // force模式下，即使isToolCalling也允许提交（用于done消息时的强制提交）
-                if (!ttsWs || !ttsReady || (!force && isToolCalling)) {
-                    this.logger.debug(`[AI WebSocket+TTS] [${connectionId}] Commit跳过: ttsWs=%s, ttsReady=%s, isToolCalling=%s, force=%s`, !!ttsWs, ttsReady, isToolCalling, force);
+                if (!ttsSession || !ttsReady || (!force && isToolCalling)) {
+                    this.logger.debug(`[AI WebSocket+TTS] [${connectionId}] Commit跳过: ttsSession=%s, ttsReady=%s, isToolCalling=%s, force=%s`, !!ttsSession, ttsReady, isToolCalling, force);
                     return;
                 }
 
@@ -1181,13 +854,8 @@ class VoiceService extends Service implements IVoiceService {
 
                 const bufferLength = ttsBuffer.length; // 保存长度用于日志
                 const bufferContent = ttsBuffer.substring(0, 50); // 保存前50字符用于日志
-                const commitEvent = {
-                    event_id: `event_${Date.now()}`,
-                    type: 'input_text_buffer.commit'
-                };
-                
                 try {
-                    ttsWs.send(JSON.stringify(commitEvent));
+                    ttsSession.commit();
                     pendingCommits++; // 增加pending计数
                     this.logger.info('[AI WebSocket+TTS] TTS commit，触发合成 (缓冲区: %d字符, 内容: "%s...", pending: %d)', bufferLength, bufferContent, pendingCommits);
                     ttsBuffer = ''; // 清空缓冲区
@@ -1199,7 +867,7 @@ class VoiceService extends Service implements IVoiceService {
             
             // 最终化TTS连接（等待所有音频生成完成后关闭）
             const finalizeTtsConnection = (onClose?: () => void) => {
-                if (ttsClosed || !ttsWs) {
+                if (ttsClosed || !ttsSession) {
                     if (onClose) onClose();
                     return;
                 }
@@ -1221,18 +889,14 @@ class VoiceService extends Service implements IVoiceService {
                 
                 // 等待确保所有音频都发送完成，然后关闭
                 finalizeTimer = setTimeout(() => {
-                    if (ttsWs && !ttsClosed) {
+                    if (ttsSession && !ttsClosed) {
                         this.logger.info('[AI WebSocket+TTS] 关闭TTS连接 (最终等待时间: %dms, pendingCommits: %d)', waitTime, pendingCommits);
                         try {
-                            const finishEvent = {
-                                event_id: `event_${Date.now()}`,
-                                type: 'session.finish'
-                            };
-                            ttsWs.send(JSON.stringify(finishEvent));
+                            ttsSession.finish();
                             setTimeout(() => {
-                                if (ttsWs) {
-                                    ttsWs.close();
-                                    ttsWs = null;
+                                if (ttsSession) {
+                                    ttsSession.close();
+                                    ttsSession = null;
                                     ttsClosed = true;
                                     // 等待一小段时间确保所有音频数据都已写入缓存，再调用onClose
                                     setTimeout(() => {
@@ -1268,7 +932,7 @@ class VoiceService extends Service implements IVoiceService {
 
                 try {
                     // 确保TTS连接已初始化
-                    if (!ttsWs && !ttsClosed) {
+                    if (!ttsSession && !ttsClosed) {
                         initTtsConnection();
                         // 如果连接还未就绪，先缓存文本
                         if (!ttsReady) {
@@ -1279,7 +943,7 @@ class VoiceService extends Service implements IVoiceService {
                     }
 
                     // 如果连接存在且就绪，使用流式TTS
-                    if (ttsWs && ttsReady && !ttsClosed) {
+                    if (ttsSession && ttsReady && !ttsClosed) {
                         // Append完整句子到TTS缓冲区
                         this.logger.info(`[AI WebSocket+TTS] [${connectionId}] 流式处理句子 #%d (%d字符): "%s"`, sentenceCount, sentence.length, sentence.substring(0, 50));
                         appendTtsText(sentence);
@@ -1343,7 +1007,7 @@ class VoiceService extends Service implements IVoiceService {
                 // 处理这个工具结果的文本
                 if (useRealtimeTts) {
                     // 确保TTS连接已初始化
-                    if (!ttsWs && !ttsClosed) {
+                    if (!ttsSession && !ttsClosed) {
                         initTtsConnection();
                     }
 
@@ -1385,7 +1049,7 @@ class VoiceService extends Service implements IVoiceService {
                 }
 
                 // 确保TTS连接已初始化
-                if (!ttsWs && !ttsClosed) {
+                if (!ttsSession && !ttsClosed) {
                     initTtsConnection();
                     // 如果连接还未就绪，先缓存文本
                     if (!ttsReady) {
@@ -1716,7 +1380,7 @@ class VoiceService extends Service implements IVoiceService {
                         
                         const toolCalls = json.tool_calls || (json.toolCall ? [json.toolCall] : []);
                         for (const toolCall of toolCalls) {
-                            await this.handleToolCall(toolCall, ws);
+                            await handleAgentToolCall(this.ctx, toolCall, ws);
                         }
                     } else if (json.type === 'tool_result') {
                         // 新API流程：单个工具结果返回
@@ -1825,7 +1489,7 @@ class VoiceService extends Service implements IVoiceService {
                             textBuffer = ''; // 清空缓冲区
                         }
                         // 确保所有文本都已commit（强制commit，即使很小）
-                        if (ttsBuffer.length > 0 && ttsWs && ttsReady) {
+                        if (ttsBuffer.length > 0 && ttsSession && ttsReady) {
                             this.logger.info(`[AI WebSocket+TTS] [${connectionId}] done消息到达，commit剩余ttsBuffer: %d字符`, ttsBuffer.length);
                             commitTtsBuffer(true); // 强制commit剩余文本
                         }
@@ -1844,11 +1508,11 @@ class VoiceService extends Service implements IVoiceService {
                             this.logger.info(`[AI WebSocket+TTS] [${connectionId}] 延迟后开始等待TTS音频完成 (pending: %d, ttsBuffer: %d, textBuffer: %d)`, finalPendingCommits, finalTtsBuffer, finalTextBuffer);
                             
                             // 如果还有文本在缓冲区但没有提交，强制提交
-                            if (finalTextBuffer > 0 && ttsWs && ttsReady) {
+                            if (finalTextBuffer > 0 && ttsSession && ttsReady) {
                                 this.logger.warn(`[AI WebSocket+TTS] [${connectionId}] 延迟后仍有textBuffer未处理，强制flush并commit`);
                                 flushTextBuffer(true);
                             }
-                            if (finalTtsBuffer > 0 && ttsWs && ttsReady) {
+                            if (finalTtsBuffer > 0 && ttsSession && ttsReady) {
                                 this.logger.warn(`[AI WebSocket+TTS] [${connectionId}] 延迟后仍有ttsBuffer未提交，强制commit`);
                                 commitTtsBuffer(true);
                             }
@@ -1900,9 +1564,9 @@ class VoiceService extends Service implements IVoiceService {
                         // 错误
                         this.logger.error('[AI WebSocket+TTS] 错误: %s', JSON.stringify(json.error));
                         isToolCalling = false;
-                        if (ttsWs) {
-                            ttsWs.close();
-                            ttsWs = null;
+                        if (ttsSession) {
+                            ttsSession.close();
+                            ttsSession = null;
                         }
                         ws.close();
                         if (!isResolved) {
@@ -1918,9 +1582,9 @@ class VoiceService extends Service implements IVoiceService {
             ws.on('error', (err: Error) => {
                 this.logger.error('[AI WebSocket+TTS] AI连接错误: %s', err.message);
                 isToolCalling = false;
-                if (ttsWs) {
-                    ttsWs.close();
-                    ttsWs = null;
+                if (ttsSession) {
+                    ttsSession.close();
+                    ttsSession = null;
                 }
                 if (!isResolved) {
                     isResolved = true;
@@ -1935,21 +1599,17 @@ class VoiceService extends Service implements IVoiceService {
                 if (textBuffer.length > 0) {
                     flushTextBuffer(true);
                 }
-                if (ttsBuffer.length > 0 && ttsWs && ttsReady) {
+                if (ttsBuffer.length > 0 && ttsSession && ttsReady) {
                     commitTtsBuffer(true); // 强制commit剩余文本
                 }
                 // 关闭TTS连接
-                if (ttsWs) {
+                if (ttsSession) {
                     setTimeout(() => {
-                        if (ttsWs) {
-                            const finishEvent = {
-                                event_id: `event_${Date.now()}`,
-                                type: 'session.finish'
-                            };
-                            ttsWs.send(JSON.stringify(finishEvent));
+                        if (ttsSession) {
+                            ttsSession.finish();
                             setTimeout(() => {
-                                if (ttsWs) {
-                                    ttsWs.close();
+                                if (ttsSession) {
+                                    ttsSession.close();
                                 }
                             }, 100);
                         }
@@ -1979,13 +1639,13 @@ class VoiceService extends Service implements IVoiceService {
                     if (textBuffer.length > 0) {
                         flushTextBuffer(true);
                     }
-                    if (ttsBuffer.length > 0 && ttsWs && ttsReady) {
+                    if (ttsBuffer.length > 0 && ttsSession && ttsReady) {
                         commitTtsBuffer();
                     }
-                    if (ttsWs) {
+                    if (ttsSession) {
                         setTimeout(() => {
-                            if (ttsWs) {
-                                ttsWs.close();
+                            if (ttsSession) {
+                                ttsSession.close();
                             }
                         }, 500);
                     }
@@ -2009,361 +1669,47 @@ class VoiceService extends Service implements IVoiceService {
     /**
      * AI对话（兼容旧接口，默认使用流式版本）
      */
-    async chat(message: string, conversationHistory: Array<{ role: string; content: string }> = []): Promise<string> {
+    async chat(message: string, conversationHistory: Array<{ role: string; content: string }> = [], options: VoiceCallOptions = {}): Promise<string> {
         // 默认使用流式版本，但不回调onChunk
-        return await this.chatStream(message, conversationHistory);
-    }
-
-
-    /**
-     * Qwen TTS Realtime WebSocket实现（流式版本）
-     * 根据文档：https://help.aliyun.com/zh/model-studio/interactive-process-of-qwen-tts-realtime-synthesis
-     * @param onAudioChunk 收到音频分片时的回调函数
-     */
-    private async qwenTtsRealtimeStream(text: string, ttsConfig: any, onAudioChunk: (chunk: Buffer) => void): Promise<void> {
-        let WS: any;
-        try {
-            WS = require('ws');
-        } catch (e) {
-            throw new Error('缺少 ws 依赖，请安装: npm install ws');
-        }
-
-        const apiKey = ttsConfig.apiKey;
-        const model = ttsConfig.model || 'qwen3-tts-flash-realtime';
-        const voice = ttsConfig.voice || 'Cherry';
-        const languageType = ttsConfig.languageType || 'Chinese';
-        
-        // Qwen TTS Realtime WebSocket地址
-        const baseUrl = 'wss://dashscope.aliyuncs.com/api-ws/v1/realtime';
-        const url = `${baseUrl}?model=${model}`;
-
-        this.logger.debug(`[TTS Realtime Stream] 连接到: ${url.replace(apiKey, '***')}`);
-
-        const logger = this.logger; // 保存logger引用以便在闭包中使用
-        
-        return new Promise((resolve, reject) => {
-            let sessionId: string | null = null;
-            let isTextSent = false;
-
-            const ws = new WS(url, {
-                headers: {
-                    'Authorization': `Bearer ${apiKey}`,
-                    'OpenAI-Beta': 'realtime=v1'
-                }
-            });
-
-            ws.on('open', () => {
-                logger.debug('[TTS Realtime Stream] 连接已建立');
-                
-                // 发送session.update配置
-                const sessionUpdate = {
-                    event_id: `event_${Date.now()}`,
-                    type: 'session.update',
-                    session: {
-                        modalities: ['audio'],
-                        output_audio_format: 'pcm16',
-                        sample_rate: 24000,
-                        output_audio_transcription: {
-                            language: languageType === 'Chinese' ? 'zh' : 'en'
-                        },
-                        voice: voice
-                    }
-                };
-                
-                ws.send(JSON.stringify(sessionUpdate));
-                logger.debug('[TTS Realtime Stream] 发送session.update');
-            });
-
-            ws.on('message', (data: Buffer | string) => {
-                try {
-                    const textData = typeof data === 'string' ? data : data.toString('utf8');
-                    const json = JSON.parse(textData);
-                    
-                    // 移除所有频繁的日志输出，减少噪音
-                    // logger.debug('[TTS Realtime Stream] 收到消息: %s', json.type);
-
-                    if (json.type === 'session.created') {
-                        sessionId = json.session?.id || null;
-                        // 会话创建日志改为debug，减少噪音
-                        // logger.debug('[TTS Realtime Stream] 会话已创建: %s', sessionId);
-                    } else if (json.type === 'session.updated') {
-                        // logger.debug('[TTS Realtime Stream] 会话已更新');
-                        // 开始发送文本
-                        if (!isTextSent) {
-                            isTextSent = true;
-                            sendText();
-                        }
-                    } else if (json.type === 'response.created') {
-                        // logger.debug('[TTS Realtime Stream] 响应已创建，开始接收音频');
-                    } else if (json.type === 'response.audio.delta') {
-                        // 接收音频分片，立即发送给客户端
-                        if (json.delta) {
-                            const audioChunk = Buffer.from(json.delta, 'base64');
-                            // 完全移除频繁的音频分片日志
-                            // logger.debug('[TTS Realtime Stream] 收到音频分片: %d bytes，立即推送', audioChunk.length);
-                            // 立即调用回调函数发送给客户端
-                            onAudioChunk(audioChunk);
-                        }
-                    } else if (json.type === 'response.audio.done') {
-                        // 音频生成完成
-                        logger.debug('[TTS Realtime Stream] 音频生成完成');
-                        
-                        // 发送session.finish并关闭连接
-                        const finishEvent = {
-                            event_id: `event_${Date.now()}`,
-                            type: 'session.finish'
-                        };
-                        ws.send(JSON.stringify(finishEvent));
-                        
-                        setTimeout(() => {
-                            ws.close();
-                            resolve();
-                        }, 100);
-                    } else if (json.type === 'error') {
-                        logger.error('[TTS Realtime Stream] 错误: %s', JSON.stringify(json));
-                        ws.close();
-                        reject(new Error(`TTS错误: ${json.error?.message || JSON.stringify(json)}`));
-                    }
-                } catch (e: any) {
-                    logger.error('[TTS Realtime Stream] 处理消息失败: %s', e.message);
-                }
-            });
-
-            ws.on('error', (err: Error) => {
-                logger.error('[TTS Realtime Stream] 连接错误: %s', err.message);
-                reject(err);
-            });
-
-            ws.on('close', (code: number, reason: Buffer) => {
-                logger.debug(`[TTS Realtime Stream] 连接关闭: ${code} - ${reason?.toString() || ''}`);
-            });
-
-            // 发送文本到缓冲区
-            function sendText() {
-                const chunkSize = 100; // 每次发送100个字符
-                let offset = 0;
-                
-                function sendChunk() {
-                    if (offset >= text.length) {
-                        // 所有文本已发送，发送commit触发合成
-                        const commitEvent = {
-                            event_id: `event_${Date.now()}`,
-                            type: 'input_text_buffer.commit'
-                        };
-                        ws.send(JSON.stringify(commitEvent));
-                        logger.debug('[TTS Realtime Stream] 文本发送完成，发送commit');
-                        return;
-                    }
-
-                    const chunk = text.substring(offset, offset + chunkSize);
-                    const appendEvent = {
-                        event_id: `event_${Date.now()}_${Math.random().toString(16).slice(2)}`,
-                        type: 'input_text_buffer.append',
-                        text: chunk
-                    };
-                    
-                    ws.send(JSON.stringify(appendEvent));
-                    logger.debug('[TTS Realtime Stream] 发送文本块: %s', chunk.substring(0, 50));
-                    
-                    offset += chunkSize;
-                    
-                    // 继续发送下一块
-                    setTimeout(sendChunk, 10);
-                }
-                
-                sendChunk();
-            }
-        });
-    }
-
-    /**
-     * Qwen TTS Realtime WebSocket实现（非流式版本，兼容旧接口）
-     * 根据文档：https://help.aliyun.com/zh/model-studio/interactive-process-of-qwen-tts-realtime-synthesis
-     */
-    private async qwenTtsRealtime(text: string, ttsConfig: any): Promise<Buffer> {
-        let WS: any;
-        try {
-            WS = require('ws');
-        } catch (e) {
-            throw new Error('缺少 ws 依赖，请安装: npm install ws');
-        }
-
-        const apiKey = ttsConfig.apiKey;
-        const model = ttsConfig.model || 'qwen3-tts-flash-realtime';
-        const voice = ttsConfig.voice || 'Cherry';
-        const languageType = ttsConfig.languageType || 'Chinese';
-        
-        // Qwen TTS Realtime WebSocket地址
-        const baseUrl = 'wss://dashscope.aliyuncs.com/api-ws/v1/realtime';
-        const url = `${baseUrl}?model=${model}`;
-
-        this.logger.info(`[TTS Realtime] 连接到: ${url.replace(apiKey, '***')}`);
-
-        const logger = this.logger; // 保存logger引用以便在闭包中使用
-        
-        return new Promise((resolve, reject) => {
-            const audioChunks: Buffer[] = [];
-            let sessionId: string | null = null;
-            let isTextSent = false;
-
-            const ws = new WS(url, {
-                headers: {
-                    'Authorization': `Bearer ${apiKey}`,
-                    'OpenAI-Beta': 'realtime=v1'
-                }
-            });
-
-            ws.on('open', () => {
-                logger.info('[TTS Realtime] 连接已建立');
-                
-                // 发送session.update配置
-                const sessionUpdate = {
-                    event_id: `event_${Date.now()}`,
-                    type: 'session.update',
-                    session: {
-                        modalities: ['audio'],
-                        output_audio_format: 'pcm16',
-                        sample_rate: 24000,
-                        output_audio_transcription: {
-                            language: languageType === 'Chinese' ? 'zh' : 'en'
-                        },
-                        voice: voice
-                    }
-                };
-                
-                ws.send(JSON.stringify(sessionUpdate));
-                logger.debug('[TTS Realtime] 发送session.update');
-            });
-
-            ws.on('message', (data: Buffer | string) => {
-                try {
-                    const textData = typeof data === 'string' ? data : data.toString('utf8');
-                    const json = JSON.parse(textData);
-                    
-                    // 移除频繁的消息类型日志，减少噪音
-                    // logger.debug('[TTS Realtime] 收到消息: %s', json.type);
-
-                    if (json.type === 'session.created') {
-                        sessionId = json.session?.id || null;
-                        logger.info('[TTS Realtime] 会话已创建: %s', sessionId);
-                        // 不在这里发送文本，等待session.updated
-                    } else if (json.type === 'session.updated') {
-                        logger.info('[TTS Realtime] 会话已更新');
-                        // 开始发送文本
-                        if (!isTextSent) {
-                            isTextSent = true;
-                            sendText();
-                        }
-                    } else if (json.type === 'response.created') {
-                        logger.info('[TTS Realtime] 响应已创建，开始接收音频');
-                    } else if (json.type === 'response.audio.delta') {
-                        // 接收音频分片
-                        if (json.delta) {
-                            const audioChunk = Buffer.from(json.delta, 'base64');
-                            audioChunks.push(audioChunk);
-                            // 完全移除频繁的音频分片日志
-                            // logger.debug('[TTS Realtime] 收到音频分片: %d bytes', audioChunk.length);
-                        }
-                    } else if (json.type === 'response.audio.done') {
-                        // 音频生成完成
-                        logger.info('[TTS Realtime] 音频生成完成，总大小: %d bytes', 
-                            audioChunks.reduce((sum, chunk) => sum + chunk.length, 0));
-                        
-                        // 合并所有音频分片
-                        const fullAudio = Buffer.concat(audioChunks);
-                        
-                        // 发送session.finish并关闭连接
-                        const finishEvent = {
-                            event_id: `event_${Date.now()}`,
-                            type: 'session.finish'
-                        };
-                        ws.send(JSON.stringify(finishEvent));
-                        
-                        setTimeout(() => {
-                            ws.close();
-                            resolve(fullAudio);
-                        }, 100);
-                    } else if (json.type === 'error') {
-                        logger.error('[TTS Realtime] 错误: %s', JSON.stringify(json));
-                        ws.close();
-                        reject(new Error(`TTS错误: ${json.error?.message || JSON.stringify(json)}`));
-                    }
-                } catch (e: any) {
-                    logger.error('[TTS Realtime] 处理消息失败: %s', e.message);
-                }
-            });
-
-            ws.on('error', (err: Error) => {
-                logger.error('[TTS Realtime] 连接错误: %s', err.message);
-                reject(err);
-            });
-
-            ws.on('close', (code: number, reason: Buffer) => {
-                logger.info(`[TTS Realtime] 连接关闭: ${code} - ${reason?.toString() || ''}`);
-            });
-
-            // 发送文本到缓冲区
-            function sendText() {
-                // 将文本分块发送（每次最多一定长度）
-                const chunkSize = 100; // 每次发送100个字符
-                let offset = 0;
-                
-                function sendChunk() {
-                    if (offset >= text.length) {
-                        // 所有文本已发送，发送commit触发合成
-                        const commitEvent = {
-                            event_id: `event_${Date.now()}`,
-                            type: 'input_text_buffer.commit'
-                        };
-                        ws.send(JSON.stringify(commitEvent));
-                        logger.info('[TTS Realtime] 文本发送完成，发送commit');
-                        return;
-                    }
-
-                    const chunk = text.substring(offset, offset + chunkSize);
-                    const appendEvent = {
-                        event_id: `event_${Date.now()}_${Math.random().toString(16).slice(2)}`,
-                        type: 'input_text_buffer.append',
-                        text: chunk
-                    };
-                    
-                    ws.send(JSON.stringify(appendEvent));
-                    logger.debug('[TTS Realtime] 发送文本块: %s', chunk.substring(0, 50));
-                    
-                    offset += chunkSize;
-                    
-                    // 继续发送下一块
-                    setTimeout(sendChunk, 10);
-                }
-                
-                sendChunk();
-            }
-        });
+        return await this.chatStream(message, conversationHistory, undefined, options);
     }
 
     /**
      * 完整的语音对话流程：接收音频 -> ASR -> AI -> TTS -> 返回音频
      */
-    async voiceChat(audioData: Buffer | string, format = 'wav', conversationHistory: Array<{ role: string; content: string }> = []): Promise<{ text: string; audio: Buffer; aiResponse: string }> {
+    async voiceChat(
+        audioData: Buffer | string,
+        format = 'wav',
+        conversationHistory: Array<{ role: string; content: string }> = [],
+    ): Promise<{ text: string; audio: Buffer; aiResponse: string; providers: VoiceTurnProviders }> {
+        // 记录本轮各环节实际使用的 provider
+        const providers: VoiceTurnProviders = {};
+        const options: VoiceCallOptions = {
+            onProvider: (kind, provider) => {
+                providers[kind] = provider;
+            },
+        };
+
         // 1. ASR: 语音转文字
         this.logger.info('开始ASR转换...');
-        const text = await this.asr(audioData, format);
+        const text = await this.asr(audioData, format, options);
         this.logger.info('ASR结果: %s', text);
 
         // 2. AI对话
         this.logger.info('开始AI对话...');
-        const aiResponse = await this.chat(text, conversationHistory);
+        const aiResponse = await this.chat(text, conversationHistory, options);
         this.logger.info('AI回复: %s', aiResponse);
 
         // 3. TTS: 文字转语音
         this.logger.info('开始TTS转换...');
-        const audio = await this.tts(aiResponse);
+        const audio = await this.tts(aiResponse, undefined, options);
         this.logger.info('TTS完成，音频大小: %d bytes', audio.length);
 
         return {
             text,
             audio,
             aiResponse,
+            providers,
         };
     }
 }
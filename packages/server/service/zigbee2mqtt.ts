@@ -3,6 +3,8 @@ import { Context, Service } from 'cordis';
 import { Logger } from '../utils';
 import { config } from '../config';
 import childProcess from 'node:child_process';
+import { buildBridgeRequest, DEFAULT_BRIDGE_TIMEOUT, ZigbeeBridgeError } from '../model/zigbee-bridge';
+import { computeNetworkHealth, NetworkMap, normalizeNetworkMap } from '../model/zigbee-network';
 
 let mqtt: typeof import('mqtt') | null = null;
 
@@ -12,13 +14,25 @@ export interface Zigbee2MqttState {
     connected: boolean;
     lastError?: string;
     devices: DeviceInfo[];
+    groups: DeviceInfo[]; // bridge/groups 发布的群组列表
     deviceStates: Map<string, any>; // 存储设备实时状态
+    lastSeen: Map<string, number>; // 设备最近一次上报时间
+    availability: Map<string, string>; // <设备>/availability 上报的 online / offline
 }
 
 declare module 'cordis' {
     interface Context {
         zigbee2mqtt: Zigbee2MqttService;
     }
+
+    interface Events {
+        'zigbee2mqtt/connected': () => void;
+        // 收到的每条 MQTT 消息（JSON 已解析）
+        'zigbee2mqtt/message': (topic: string, data: any) => void;
+        'zigbee2mqtt/deviceState': (deviceId: string, state: any) => void;
+        'zigbee2mqtt/devices': (devices: DeviceInfo[]) => void;
+        'zigbee2mqtt/groups': (groups: DeviceInfo[]) => void;
+    }
 }
 
 export default class Zigbee2MqttService extends Service {
@@ -27,7 +41,12 @@ export default class Zigbee2MqttService extends Service {
         ctx.mixin('zigbee2mqtt', []);
     }
 
-    public state: Zigbee2MqttState = { connected: false, devices: [], deviceStates: new Map() };
+    public state: Zigbee2MqttState = {
+        connected: false, devices: [], groups: [], deviceStates: new Map(), lastSeen: new Map(), availability: new Map(),
+    };
+    // 最近一次 networkmap 扫描结果
+    public networkMap: { at: number; map: NetworkMap } | null = null;
+    private networkMapRequest?: Promise<{ at: number; map: NetworkMap }>;
     private client?: import('mqtt').MqttClient;
     private readonly logger = new Logger('z2m');
     private readonly baseTopic = config.zigbee2mqtt?.baseTopic || 'zigbee2mqtt';
@@ -36,6 +55,16 @@ export default class Zigbee2MqttService extends Service {
     private bridgeReady: boolean = false;
     private bridgeReadyResolve?: () => void;
     private bridgeReadyPromise?: Promise<void>;
+    // baseTopic 之外需要订阅的主题（自动化规则的 MQTT 触发器），重连后重新订阅
+    private extraTopics = new Set<string>();
+    // 等待 bridge/response 的请求，按 transaction 对应
+    private pendingRequests = new Map<string, {
+        command: string;
+        resolve: (data: any) => void;
+        reject: (err: Error) => void;
+        timer: NodeJS.Timeout;
+    }>();
+    private transactionSeq = 0;
 
     async [Service.init](): Promise<void> {
         if (!config.zigbee2mqtt?.enabled) {
@@ -128,6 +157,11 @@ export default class Zigbee2MqttService extends Service {
     }
 
     async [Service.dispose](): Promise<void> {
+        for (const [transaction, pending] of this.pendingRequests) {
+            clearTimeout(pending.timer);
+            pending.reject(new ZigbeeBridgeError('not_connected', pending.command, 'zigbee2mqtt 服务已停止'));
+            this.pendingRequests.delete(transaction);
+        }
         if (this.client) try { this.client.end(true); } catch {}
         this.client = undefined;
         // 如果通过模块方式启动，需要停止 zigbee2mqtt
@@ -150,6 +184,7 @@ export default class Zigbee2MqttService extends Service {
         const topics = [
             `${this.baseTopic}/#`,
             `${this.baseTopic}/bridge/#`,
+            ...this.extraTopics,
         ];
         for (const t of topics) this.client.subscribe(t).catch?.(() => {});
     }
@@ -175,9 +210,22 @@ export default class Zigbee2MqttService extends Service {
             }
         }
 
+        if (topic.startsWith(`${this.baseTopic}/bridge/response/`)) {
+            this.onBridgeResponse(topic.slice(`${this.baseTopic}/bridge/response/`.length), data);
+        }
+        if (topic === `${this.baseTopic}/bridge/groups` && Array.isArray(data)) {
+            this.state.groups = data as DeviceInfo[];
+            try { this.ctx.parallel('zigbee2mqtt/groups', this.state.groups); } catch {}
+        }
+
         const parts = topic.split('/');
-        if (parts[0] === this.baseTopic && parts[1] && parts[1] !== 'bridge') {
+        if (parts[0] === this.baseTopic && parts[1] && parts[1] !== 'bridge' && parts[2] === 'availability') {
+            // availability 不是设备状态，单独记录
+            const availability = typeof data === 'string' ? data : data?.state;
+            if (availability) this.state.availability.set(parts[1], availability);
+        } else if (parts[0] === this.baseTopic && parts[1] && parts[1] !== 'bridge') {
             const deviceId = parts[1];
+            if (parts.length === 2) this.state.lastSeen.set(deviceId, Date.now());
             // 存储设备状态
             this.state.deviceStates.set(deviceId, data);
             try { this.ctx.parallel('zigbee2mqtt/deviceState', deviceId, data); } catch {}
@@ -316,6 +364,109 @@ export default class Zigbee2MqttService extends Service {
         await this.client.publish(topic, JSON.stringify(payload));
     }
 
+    // 发布任意主题（对象自动序列化为 JSON）
+    async publish(topic: string, payload: any, options: { retain?: boolean; qos?: 0 | 1 | 2 } = {}): Promise<void> {
+        if (!this.client) throw new Error('mqtt not connected');
+        const message = typeof payload === 'string' || Buffer.isBuffer(payload) ? payload : JSON.stringify(payload ?? '');
+        await this.client.publish(topic, message, options);
+    }
+
+    // 设置 baseTopic 之外的订阅主题，消息同样通过 zigbee2mqtt/message 事件分发
+    subscribeTopics(topics: string[]) {
+        // baseTopic 下的主题已订阅，避免重复收到消息
+        const next = new Set(topics.filter((topic) => topic && !topic.startsWith(`${this.baseTopic}/`)));
+        for (const topic of this.extraTopics) {
+            if (!next.has(topic)) this.client?.unsubscribe(topic)?.catch?.(() => {});
+        }
+        for (const topic of next) {
+            if (!this.extraTopics.has(topic)) this.client?.subscribe(topic)?.catch?.(() => {});
+        }
+        this.extraTopics = next;
+    }
+
+    private onBridgeResponse(command: string, data: any) {
+        const transaction = data?.transaction;
+        const pending = transaction !== undefined ? this.pendingRequests.get(String(transaction)) : undefined;
+        if (!pending) return;
+        this.pendingRequests.delete(String(transaction));
+        clearTimeout(pending.timer);
+        if (data.status === 'ok') {
+            pending.resolve(data.data ?? {});
+        } else {
+            pending.reject(new ZigbeeBridgeError('bridge_error', command, data.error || `${command} 失败`, data.data));
+        }
+    }
+
+    /**
+     * 发送 bridge/request/<command> 并等待对应 transaction 的 bridge/response，
+     * 返回响应中的 data；zigbee2mqtt 返回错误或超时时抛出 ZigbeeBridgeError
+     */
+    async bridgeRequest(command: string, payload: Record<string, any> = {}, timeoutMs = DEFAULT_BRIDGE_TIMEOUT): Promise<any> {
+        if (!this.client || !this.state.connected) throw new ZigbeeBridgeError('not_connected', command, 'mqtt not connected');
+        const transaction = `${Date.now().toString(36)}-${++this.transactionSeq}`;
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.pendingRequests.delete(transaction);
+                reject(new ZigbeeBridgeError('timeout', command, `等待 zigbee2mqtt 响应超时（${Math.ceil(timeoutMs / 1000)} 秒）`));
+            }, timeoutMs);
+            this.pendingRequests.set(transaction, {
+                command, resolve, reject, timer,
+            });
+            this.client.publish(`${this.baseTopic}/bridge/request/${command}`, JSON.stringify({ ...payload, transaction }))
+                ?.catch?.((e: any) => {
+                    if (!this.pendingRequests.delete(transaction)) return;
+                    clearTimeout(timer);
+                    reject(new ZigbeeBridgeError('not_connected', command, e?.message || String(e)));
+                });
+        });
+    }
+
+    // 执行管理操作（rename、remove、bind、group_*、ota_*、configure_reporting、options），见 model/zigbee-bridge.ts
+    async runBridgeOperation(operation: string, params: Record<string, any> = {}): Promise<any> {
+        const { command, payload, timeout } = buildBridgeRequest(operation, params);
+        this.logger.info('bridge 请求 %s %o', command, payload);
+        // 设备与群组变化后 zigbee2mqtt 会自动重新发布 bridge/devices、bridge/groups
+        return this.bridgeRequest(command, payload, timeout);
+    }
+
+    /**
+     * 获取网络拓扑（raw），默认使用缓存；refresh 时重新扫描，同一时间只进行一次扫描
+     */
+    async getNetworkMap(refresh = false): Promise<{ at: number; map: NetworkMap } | null> {
+        if (!refresh) return this.networkMap;
+        if (!this.networkMapRequest) {
+            this.networkMapRequest = this.runBridgeOperation('networkmap', { type: 'raw' })
+                .then((data) => {
+                    this.networkMap = { at: Date.now(), map: normalizeNetworkMap(data?.value) };
+                    return this.networkMap;
+                })
+                .finally(() => { this.networkMapRequest = undefined; });
+        }
+        return this.networkMapRequest;
+    }
+
+    // 网络健康诊断（离线、低电量、弱链路、孤立终端），最近上报时间同时参考设备历史记录
+    async getNetworkHealth(options: { refreshMap?: boolean } = {}) {
+        const networkMap = await this.getNetworkMap(!!options.refreshMap);
+        const devices = await this.listDevices();
+        const lastSeen = new Map(this.state.lastSeen);
+        const history = await (this.ctx as any).deviceHistory?.listDevices().catch(() => []) || [];
+        for (const entry of history) {
+            if (entry.lastSeen > (lastSeen.get(entry.device) || 0)) lastSeen.set(entry.device, entry.lastSeen);
+        }
+        return {
+            generatedAt: new Date().toISOString(),
+            mapAt: networkMap ? new Date(networkMap.at).toISOString() : null,
+            ...computeNetworkHealth({
+                devices,
+                states: this.state.deviceStates,
+                lastSeen,
+                availability: this.state.availability,
+                map: networkMap?.map,
+            }),
+        };
+    }
+
     async permitJoin(value: boolean, timeSec: number = 120): Promise<void> {
         if (!this.client) throw new Error('mqtt not connected');
         const topic = `${this.baseTopic}/bridge/request/permit_join`;
@@ -24,6 +24,11 @@ export async function asyncCommand(command: string | string[], timeout = 10000)
             proc.kill();
             reject(new Error('timeout'));
         }, timeout);
+        // 命令不存在等启动失败时不会触发 exit
+        proc.on('error', (e) => {
+            clearTimeout(t);
+            reject(e);
+        });
         proc.on('exit', (code) => {
             clearTimeout(t);
             if (code === 0) {
@@ -1,6 +1,6 @@
 import { Context } from 'cordis';
 import {
-    collectDefaultMetrics, Counter, Gauge, Metric, Registry,
+    collectDefaultMetrics, Counter, Gauge, Histogram, Metric, Registry,
 } from 'prom-client';
 
 declare module 'cordis' {
@@ -8,7 +8,7 @@ declare module 'cordis' {
         metrics: Registry;
     }
     interface Events {
-        'mcp/tool/call': (server: string, tool: string) => void;
+        'mcp/tool/call': (server: string, tool: string, call?: { status: string; duration: number }) => void;
     }
 }
 
@@ -17,7 +17,8 @@ export function createMetricsRegistry(ctx: Context) {
 
     function createMetric<Q extends string, T extends (new (a: any) => Metric<Q>)>(
         C: T, name: string, help: string, extra?: T extends new (a: infer R) => any ? Partial<R> : never,
-    ): T extends (new (a) => Gauge<Q>) ? Gauge<Q> : T extends (new (a) => Counter<Q>) ? Counter<Q> : Metric<Q> {
+    ): T extends (new (a) => Gauge<Q>) ? Gauge<Q> : T extends (new (a) => Counter<Q>) ? Counter<Q>
+        : T extends (new (a) => Histogram<Q>) ? Histogram<Q> : Metric<Q> {
         const metric = new C({ name, help, ...(extra || {}) });
         registry.registerMetric(metric);
         return metric as any;
@@ -52,8 +53,15 @@ export function createMetricsRegistry(ctx: Context) {
         labelNames: ['server', 'tool'],
     });
 
-    ctx.on('mcp/tool/call', (server, tool) => {
+    // MCP 工具调用耗时
+    const mcpToolCallDuration = createMetric(Histogram, 'mcp_tool_call_duration_seconds', 'MCP tool call duration', {
+        labelNames: ['server', 'tool', 'status'],
+        buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    });
+
+    ctx.on('mcp/tool/call', (server, tool, call) => {
         mcpToolCallCounter.inc({ server, tool });
+        if (call) mcpToolCallDuration.observe({ server, tool, status: call.status }, call.duration / 1000);
     });
 
     collectDefaultMetrics({ register: registry });
@@ -14,8 +14,10 @@ import {
   Title,
 } from '@mantine/core';
 import { notifications } from '@mantine/notifications';
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import React, { useState } from 'react';
+import {
+  useInfiniteQuery, useMutation, useQuery, useQueryClient,
+} from '@tanstack/react-query';
+import React, { useEffect, useState } from 'react';
 
 export default function MCP() {
   const queryClient = useQueryClient();
@@ -24,15 +26,38 @@ export default function MCP() {
   const [editingTool, setEditingTool] = useState<any | null>(null);
   const [editedDescription, setEditedDescription] = useState<string>('');
 
-  const { data: logsData, refetch: refetchLogs } = useQuery({
+  const {
+    data: logsData, refetch: refetchLogs, fetchNextPage, hasNextPage, isFetchingNextPage,
+  } = useInfiniteQuery({
     queryKey: ['mcp_logs', level, tool],
-    queryFn: () => fetch('/mcp/logs?' + new URLSearchParams({
+    queryFn: ({ pageParam }) => fetch('/mcp/logs?' + new URLSearchParams({
       ...level && { level },
       ...tool && { tool },
+      ...pageParam && { cursor: pageParam },
       limit: '100',
     }).toString()).then((res) => res.json()),
-    refetchInterval: 5000,
+    initialPageParam: '',
+    getNextPageParam: (lastPage: any) => lastPage?.nextCursor || undefined,
   });
+  const logs = logsData?.pages.flatMap((page: any) => page.logs || []) || [];
+
+  // 实时日志：新日志插入到第一页顶部
+  useEffect(() => {
+    const source = new EventSource('/mcp/logs/stream?' + new URLSearchParams({
+      ...level && { level },
+      ...tool && { tool },
+    }).toString());
+    source.addEventListener('log', (event) => {
+      const log = JSON.parse((event as MessageEvent).data);
+      queryClient.setQueryData(['mcp_logs', level, tool], (data: any) => {
+        if (!data?.pages?.length) return data;
+        const [first, ...rest] = data.pages;
+        if (first.logs?.some((item: any) => item._id && item._id === log._id)) return data;
+        return { ...data, pages: [{ ...first, logs: [log, ...(first.logs || [])] }, ...rest] };
+      });
+    });
+    return () => source.close();
+  }, [level, tool, queryClient]);
 
   const { data: serversData } = useQuery({
     queryKey: ['mcp_servers'],
@@ -40,6 +65,38 @@ export default function MCP() {
     refetchInterval: 30000,
   });
 
+  // 访问策略要求人工确认的工具调用
+  const { data: confirmationsData } = useQuery({
+    queryKey: ['mcp_confirmations'],
+    queryFn: () => fetch('/mcp/confirmations').then((res) => res.json()),
+    refetchInterval: 3000,
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'approve' | 'reject' }) => {
+      const res = await fetch(`/mcp/confirmations/${id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || '操作失败');
+      return result;
+    },
+    onSuccess: (_, { action }) => {
+      notifications.show({
+        title: '成功',
+        message: action === 'approve' ? '已批准工具调用' : '已拒绝工具调用',
+        color: action === 'approve' ? 'green' : 'gray',
+      });
+      queryClient.invalidateQueries({ queryKey: ['mcp_confirmations'] });
+    },
+    onError: (error: Error) => {
+      notifications.show({ title: '错误', message: error.message, color: 'red' });
+      queryClient.invalidateQueries({ queryKey: ['mcp_confirmations'] });
+    },
+  });
+
   const { data: toolsData, refetch: refetchTools } = useQuery({
     queryKey: ['mcp_tools'],
     queryFn: () => fetch('/mcp/tools?list=true').then((res) => res.json()),
@@ -58,7 +115,7 @@ export default function MCP() {
         }),
       });
       const result = await res.json();
-      if (result.success) {
+      if (result.success && !result.result?.isError) {
         notifications.show({
           title: '成功',
           message: `工具 ${toolName} 调用成功`,
@@ -69,7 +126,9 @@ export default function MCP() {
       } else {
         notifications.show({
           title: '错误',
-          message: result.error?.message || '工具调用失败',
+          message: (typeof result.error === 'string' ? result.error : result.error?.message)
+            || result.result?.content?.[0]?.text
+            || '工具调用失败',
           color: 'red',
         });
       }
@@ -162,6 +221,47 @@ export default function MCP() {
 
   return (
     <Stack gap="md">
+      {confirmationsData?.confirmations?.length > 0 && (
+        <Card shadow="sm" padding="lg" radius="md" withBorder>
+          <Title order={2} mb="md">待确认的工具调用 ({confirmationsData.confirmations.length})</Title>
+          <Stack gap="sm">
+            {confirmationsData.confirmations.map((item: any) => (
+              <Paper key={item.id} p="md" withBorder>
+                <Group justify="space-between" align="flex-start">
+                  <Stack gap={4}>
+                    <Group gap="xs">
+                      <Text fw={500}>{item.tool}</Text>
+                      <Badge size="sm" variant="light">调用方 {item.caller}</Badge>
+                      <Text size="xs" c="dimmed">
+                        {new Date(item.createdAt).toLocaleTimeString()}，{new Date(item.expiresAt).toLocaleTimeString()} 前有效
+                      </Text>
+                    </Group>
+                    <Code block>{JSON.stringify(item.args, null, 2)}</Code>
+                  </Stack>
+                  <Group>
+                    <Button
+                      color="green"
+                      loading={confirmMutation.isPending}
+                      onClick={() => confirmMutation.mutate({ id: item.id, action: 'approve' })}
+                    >
+                      批准
+                    </Button>
+                    <Button
+                      color="red"
+                      variant="light"
+                      loading={confirmMutation.isPending}
+                      onClick={() => confirmMutation.mutate({ id: item.id, action: 'reject' })}
+                    >
+                      拒绝
+                    </Button>
+                  </Group>
+                </Group>
+              </Paper>
+            ))}
+          </Stack>
+        </Card>
+      )}
+
       <Card shadow="sm" padding="lg" radius="md" withBorder>
         <Group justify="space-between" mb="md">
           <Title order={2}>MCP 服务器</Title>
@@ -270,8 +370,8 @@ export default function MCP() {
         </Group>
         <ScrollArea h={400}>
           <Stack gap="xs">
-            {logsData?.logs?.map((log: any) => (
-              <Paper key={log._id} p="sm" withBorder>
+            {logs.map((log: any, index: number) => (
+              <Paper key={log._id || `${log.timestamp}-${index}`} p="sm" withBorder>
                 <Group gap="xs" mb="xs">
                   <Badge color={getLevelColor(log.level)} size="sm">
                     {log.level}
@@ -293,6 +393,15 @@ export default function MCP() {
                 )}
               </Paper>
             ))}
+            {hasNextPage && (
+              <Button
+                variant="light"
+                loading={isFetchingNextPage}
+                onClick={() => fetchNextPage()}
+              >
+                加载更多
+              </Button>
+            )}
           </Stack>
         </ScrollArea>
       </Card>